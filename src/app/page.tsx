@@ -14,7 +14,9 @@ import Header from '@/components/Header';
 import ExtendedToolbar from '@/components/ExtendedToolbar';
 import CanvasComponent from '@/components/Canvas';
 import StatusBar from '@/components/StatusBar';
+import RecoveryPrompt from '@/components/RecoveryPrompt';
 import SelectionToolbar from '@/components/SelectionToolbar';
+import TransformToolbar from '@/components/TransformToolbar';
 
 // Import browser-compat to ensure browser fixes are applied (iOS viewport height, etc.)
 // This runs automatically on module load
@@ -53,7 +55,7 @@ function HomeContent() {
           10
         );
         Canvas.resize(width, height);
-        History.save();
+        History.save('Canvas Size');
       } catch (error) {
         logger.error('Failed to resize canvas:', error);
       }
@@ -75,10 +77,12 @@ function HomeContent() {
         {!isMobile && <ExtendedToolbar />}
         {isMobile && <MobileToolbar />}
         <SelectionToolbar />
+        <TransformToolbar />
         <main role="main" aria-label="Pixel art canvas">
           <CanvasComponent />
         </main>
         <StatusBar />
+        <RecoveryPrompt />
       </div>
     </MobileLayout>
   );
@@ -4,11 +4,41 @@ import { useState, useEffect } from 'react';
 import UI from '@/lib/ui';
 import { useAppState } from '@/hooks/useAppState';
 import StateManager from '@/lib/stateManager';
-import type { PressureCurveType } from '@/lib/types';
+import { BRUSH_TEXTURES, isDitherTexture } from '@/lib/tools/brushHelpers';
+import { parseDitherPattern } from '@/lib/dither';
+import type { PressureCurveType, ShapeStyle, SymmetryMode } from '@/lib/types';
+
+const SYMMETRY_MODES: { value: SymmetryMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'horizontal', label: 'Horizontal (left/right)' },
+  { value: 'vertical', label: 'Vertical (top/bottom)' },
+  { value: 'both', label: 'Both Axes' },
+  { value: 'radial', label: 'Radial' },
+];
+
+const TEXTURES: { value: string; label: string }[] = [
+  { value: BRUSH_TEXTURES.none, label: 'None' },
+  { value: BRUSH_TEXTURES.canvas, label: 'Canvas' },
+  { value: BRUSH_TEXTURES.paper, label: 'Paper' },
+  { value: BRUSH_TEXTURES.rough, label: 'Rough' },
+  { value: BRUSH_TEXTURES.smooth, label: 'Smooth' },
+  { value: BRUSH_TEXTURES.bayer2, label: 'Dither: Bayer 2×2' },
+  { value: BRUSH_TEXTURES.bayer4, label: 'Dither: Bayer 4×4' },
+  { value: BRUSH_TEXTURES.bayer8, label: 'Dither: Bayer 8×8' },
+  { value: BRUSH_TEXTURES.dither, label: 'Dither: Custom Pattern' },
+];
+
+const SHAPE_STYLES: { value: ShapeStyle; label: string }[] = [
+  { value: 'outline', label: 'Outline' },
+  { value: 'fill', label: 'Fill' },
+  { value: 'both', label: 'Outline and Fill' },
+];
 
 export default function BrushControlsPanel() {
   const [isOpen, setIsOpen] = useState(false);
   const state = useAppState();
+  // Pattern as typed; only complete patterns reach the state
+  const [patternDraft, setPatternDraft] = useState<string | null>(null);
 
   const brushSize = state.brushSize;
   const brushHardness = state.brushHardness;
@@ -17,12 +47,33 @@ export default function BrushControlsPanel() {
   const brushSpacing = state.brushSpacing;
   const brushJitter = state.brushJitter;
   const stabilizerStrength = state.stabilizerStrength;
+  const pixelPerfect = state.pixelPerfect;
+  const brushTexture = state.brushTexture ?? BRUSH_TEXTURES.none;
+  const backgroundColor = state.backgroundColor;
+  const ditherDensity = state.ditherDensity;
+  const ditherPattern = state.ditherPattern;
+  const gradientDither = state.gradientDither;
   const pressureEnabled = state.pressureEnabled;
   const pressureSize = state.pressureSize;
   const pressureOpacity = state.pressureOpacity;
   const pressureFlow = state.pressureFlow;
   const pressureCurve = state.pressureCurve;
   const tolerance = state.tolerance;
+  const moveAutoSelect = state.moveAutoSelect;
+  const symmetryMode = state.symmetryMode;
+  const symmetryAxisX = state.symmetryAxisX;
+  const symmetryAxisY = state.symmetryAxisY;
+  const symmetrySegments = state.symmetrySegments;
+  const shapeStyle = state.shapeStyle;
+  const shapeFillColor = state.shapeFillColor;
+  const shapeAntiAlias = state.shapeAntiAlias;
+  const shapeSides = state.shapeSides;
+
+  // An empty axis field puts the axis back at the canvas center
+  const parseAxis = (value: string): number | null => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  };
 
   useEffect(() => {
     // Setup UI controls once
@@ -145,6 +196,113 @@ export default function BrushControlsPanel() {
                 defaultValue={stabilizerStrength}
               />
             </div>
+            <div className="checkbox-group">
+              <label>
+                <input
+                  type="checkbox"
+                  id="pixelPerfect"
+                  checked={pixelPerfect}
+                  disabled={brushSize !== 1}
+                  onChange={(e) => {
+                    StateManager.setPixelPerfect(e.target.checked);
+                  }}
+                />
+                Pixel Perfect (1px pencil)
+              </label>
+            </div>
+          </div>
+
+          <div className="panel-section">
+            <h2 className="panel-title">Texture &amp; Dithering</h2>
+            <div className="slider-group">
+              <div className="slider-header">
+                <span className="slider-label">Texture</span>
+              </div>
+              <select
+                id="brushTexture"
+                value={brushTexture}
+                onChange={(e) => {
+                  const texture = e.target.value;
+                  StateManager.setBrushTexture(texture === BRUSH_TEXTURES.none ? null : texture);
+                }}
+              >
+                {TEXTURES.map((texture) => (
+                  <option key={texture.value} value={texture.value}>
+                    {texture.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {isDitherTexture(brushTexture) && (
+              <>
+                <div className="color-inputs">
+                  <div className="color-input-group">
+                    <label htmlFor="backgroundColor">Background</label>
+                    <input
+                      type="color"
+                      id="backgroundColor"
+                      value={backgroundColor}
+                      onChange={(e) => {
+                        StateManager.setBackgroundColor(e.target.value);
+                      }}
+                    />
+                  </div>
+                  {brushTexture === BRUSH_TEXTURES.dither && (
+                    <div className="color-input-group">
+                      <label htmlFor="ditherPattern">Pattern</label>
+                      <input
+                        type="text"
+                        id="ditherPattern"
+                        placeholder="10/01"
+                        value={patternDraft ?? ditherPattern}
+                        onChange={(e) => {
+                          setPatternDraft(e.target.value);
+                          if (parseDitherPattern(e.target.value)) {
+                            StateManager.setDitherPattern(e.target.value);
+                          }
+                        }}
+                        onBlur={() => setPatternDraft(null)}
+                      />
+                    </div>
+                  )}
+                </div>
+                {brushTexture !== BRUSH_TEXTURES.dither && (
+                  <div className="slider-group">
+                    <div className="slider-header">
+                      <span className="slider-label">Density</span>
+                      <span className="slider-value">{ditherDensity}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      id="ditherDensity"
+                      min={0}
+                      max={100}
+                      value={ditherDensity}
+                      onChange={(e) => {
+                        StateManager.setDitherDensity(parseInt(e.target.value, 10));
+                      }}
+                    />
+                  </div>
+                )}
+                <p className="overlay-hint">
+                  Dither brushes paint the pattern in the current color and the background color;
+                  custom patterns are rows of 0 and 1 separated by /.
+                </p>
+              </>
+            )}
+            <div className="checkbox-group">
+              <label>
+                <input
+                  type="checkbox"
+                  id="gradientDither"
+                  checked={gradientDither}
+                  onChange={(e) => {
+                    StateManager.setGradientDither(e.target.checked);
+                  }}
+                />
+                Dithered Gradients
+              </label>
+            </div>
           </div>
 
           <div className="panel-section">
@@ -224,6 +382,158 @@ export default function BrushControlsPanel() {
             )}
           </div>
 
+          <div className="panel-section">
+            <h2 className="panel-title">Symmetry</h2>
+            <div className="slider-group">
+              <div className="slider-header">
+                <span className="slider-label">Mode</span>
+              </div>
+              <select
+                id="symmetryMode"
+                value={symmetryMode}
+                onChange={(e) => {
+                  StateManager.setSymmetryMode(e.target.value as SymmetryMode);
+                }}
+              >
+                {SYMMETRY_MODES.map((mode) => (
+                  <option key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {symmetryMode !== 'off' && (
+              <>
+                <div className="color-inputs">
+                  {symmetryMode !== 'vertical' && (
+                    <div className="color-input-group">
+                      <label htmlFor="symmetryAxisX">Axis X</label>
+                      <input
+                        type="number"
+                        id="symmetryAxisX"
+                        step={0.5}
+                        placeholder="Center"
+                        value={symmetryAxisX ?? ''}
+                        onChange={(e) => {
+                          StateManager.setSymmetryAxis(parseAxis(e.target.value), symmetryAxisY);
+                        }}
+                      />
+                    </div>
+                  )}
+                  {symmetryMode !== 'horizontal' && (
+                    <div className="color-input-group">
+                      <label htmlFor="symmetryAxisY">Axis Y</label>
+                      <input
+                        type="number"
+                        id="symmetryAxisY"
+                        step={0.5}
+                        placeholder="Center"
+                        value={symmetryAxisY ?? ''}
+                        onChange={(e) => {
+                          StateManager.setSymmetryAxis(symmetryAxisX, parseAxis(e.target.value));
+                        }}
+                      />
+                    </div>
+                  )}
+                </div>
+                <button
+                  className="layer-control-btn"
+                  onClick={() => StateManager.setSymmetryAxis(null, null)}
+                >
+                  Center Axis
+                </button>
+                {symmetryMode === 'radial' && (
+                  <div className="slider-group">
+                    <div className="slider-header">
+                      <span className="slider-label">Segments</span>
+                      <span className="slider-value">{symmetrySegments}</span>
+                    </div>
+                    <input
+                      type="range"
+                      id="symmetrySegments"
+                      min={2}
+                      max={16}
+                      value={symmetrySegments}
+                      onChange={(e) => {
+                        StateManager.setSymmetrySegments(parseInt(e.target.value, 10));
+                      }}
+                    />
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="panel-section">
+            <h2 className="panel-title">Shapes</h2>
+            <div className="slider-group">
+              <div className="slider-header">
+                <span className="slider-label">Style</span>
+              </div>
+              <select
+                id="shapeStyle"
+                value={shapeStyle}
+                onChange={(e) => {
+                  StateManager.setShapeStyle(e.target.value as ShapeStyle);
+                }}
+              >
+                {SHAPE_STYLES.map((style) => (
+                  <option key={style.value} value={style.value}>
+                    {style.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="color-inputs">
+              {shapeStyle === 'both' && (
+                <div className="color-input-group">
+                  <label htmlFor="shapeFillColor">Fill</label>
+                  <input
+                    type="color"
+                    id="shapeFillColor"
+                    value={shapeFillColor}
+                    onChange={(e) => {
+                      StateManager.setShapeFillColor(e.target.value);
+                    }}
+                  />
+                </div>
+              )}
+              <div className="color-input-group">
+                <label htmlFor="shapeSides">Polygon Sides</label>
+                <input
+                  type="number"
+                  id="shapeSides"
+                  min={3}
+                  max={12}
+                  value={shapeSides}
+                  onChange={(e) => {
+                    const sides = parseInt(e.target.value, 10);
+                    if (Number.isFinite(sides)) {
+                      StateManager.setShapeSides(sides);
+                    }
+                  }}
+                />
+              </div>
+            </div>
+            <div className="checkbox-group">
+              <label>
+                <input
+                  type="checkbox"
+                  id="shapeAntiAlias"
+                  checked={shapeAntiAlias}
+                  onChange={(e) => {
+                    StateManager.setShapeAntiAlias(e.target.checked);
+                  }}
+                />
+                Anti-aliased Edges
+              </label>
+            </div>
+            <p className="overlay-hint">
+              Line, rectangle, ellipse and polygon tools use the brush size as line width. Hold
+              Shift to snap angles and draw squares and circles.
+            </p>
+          </div>
+
           <div className="panel-section">
             <h2 className="panel-title">Selection</h2>
             <div className="slider-group">
@@ -236,6 +546,23 @@ export default function BrushControlsPanel() {
               <input type="range" id="tolerance" min={0} max={255} defaultValue={tolerance} />
             </div>
           </div>
+
+          <div className="panel-section">
+            <h2 className="panel-title">Move</h2>
+            <div className="checkbox-group">
+              <label>
+                <input
+                  type="checkbox"
+                  id="moveAutoSelect"
+                  checked={moveAutoSelect}
+                  onChange={(e) => {
+                    StateManager.setMoveAutoSelect(e.target.checked);
+                  }}
+                />
+                Auto-Select Layer (Ctrl/Cmd+Click inverts)
+              </label>
+            </div>
+          </div>
         </div>
       )}
     </div>
@@ -12,17 +12,25 @@ import BrushControlsPanel from '@/components/BrushControlsPanel';
 import ColorPalettePanel from '@/components/ColorPalettePanel';
 import LayersControlsPanel from '@/components/LayersControlsPanel';
 import HistoryControls from '@/components/HistoryControls';
+import GridControlsPanel from '@/components/GridControlsPanel';
+import ImageSizePanel from '@/components/ImageSizePanel';
 import { useAppState } from '@/hooks/useAppState';
 import { useDeviceDetection } from '@/hooks/useDeviceDetection';
+import Viewport from '@/lib/viewport';
+import Overlay from '@/lib/overlay';
+import TilePreview from '@/lib/tilePreview';
 import StateManager from '@/lib/stateManager';
 import { initializeApp } from '@/lib/init';
 import { logger } from '@/lib/utils/logger';
-import { DEFAULT_CANVAS_WIDTH, DEFAULT_CANVAS_HEIGHT } from '@/lib/constants';
+import { DEFAULT_CANVAS_WIDTH, DEFAULT_CANVAS_HEIGHT, RULER_SIZE } from '@/lib/constants';
 // Import tools to register them
 // Note: Tools are relatively small, so static import is acceptable
 // Tools must be registered synchronously before use, so dynamic import is not suitable here
 import '@/lib/tools';
 
+// Accumulated Ctrl+wheel delta per zoom step (one mouse wheel notch is about 100)
+const WHEEL_ZOOM_THRESHOLD = 50;
+
 // Canvas Tools Component
 interface ToolConfig {
   name: string;
@@ -32,7 +40,7 @@ interface ToolConfig {
   category?: string;
 }
 
-// All 30 tools organized by category with unique skeuomorphic icons
+// All 33 tools organized by category with unique skeuomorphic icons
 const allTools = [
   // Drawing Tools (11 total - split into left/right)
   {
@@ -122,6 +130,31 @@ const allTools = [
     icon: 'M3 3h18v18H3V3z M5 5v14h14V5H5z M7 7h10M7 12h10M7 17h10',
     category: 'fill',
   },
+  // Shape Tools
+  {
+    name: 'line',
+    key: '',
+    icon: 'M4 20L20 4 M3 19h2v2H3z M19 3h2v2h-2z',
+    category: 'shape',
+  },
+  {
+    name: 'rectangle',
+    key: '',
+    icon: 'M4 6h16v12H4V6z',
+    category: 'shape',
+  },
+  {
+    name: 'ellipse',
+    key: '',
+    icon: 'M12 5c5 0 9 3 9 7s-4 7-9 7-9-3-9-7 4-7 9-7z',
+    category: 'shape',
+  },
+  {
+    name: 'regular-polygon',
+    key: '',
+    icon: 'M12 3l8 5v8l-8 5-8-5V8l8-5z',
+    category: 'shape',
+  },
   // Transform Tools
   {
     name: 'move',
@@ -130,15 +163,9 @@ const allTools = [
     category: 'transform',
   },
   {
-    name: 'rotate',
-    key: '',
-    icon: 'M12 2C6 2 2 6 2 12s4 10 10 10 10-4 10-10S18 2 12 2z M8 8l4-4 4 4M16 16l-4 4-4-4',
-    category: 'transform',
-  },
-  {
-    name: 'scale',
-    key: '',
-    icon: 'M12 2L2 7l10 5 10-5-10-5z M2 17l10 5 10-5M2 12l10 5 10-5 M7 7l10 10M17 7L7 17',
+    name: 'transform',
+    key: 'T',
+    icon: 'M3 3h6v2H5v4H3V3z M15 3h6v6h-2V5h-4V3z M3 15h2v4h4v2H3v-6z M19 15h2v6h-6v-2h4v-4z M8 8h8v8H8z',
     category: 'transform',
   },
   {
@@ -275,23 +302,23 @@ const CanvasTools = memo(function CanvasTools({ activeTool }: { activeTool: stri
     PixelStudio.selectTool(toolName);
   }, []);
 
-  // Split all 30 tools evenly: 15 left, 15 right
-  const leftTools = allTools.slice(0, 15);
-  const rightTools = allTools.slice(15, 30);
+  // Split all 33 tools: 17 left, 16 right
+  const leftTools = allTools.slice(0, 17);
+  const rightTools = allTools.slice(17, 33);
 
   // Split each side into 2 columns side by side
-  // Left: 8 buttons in first column, 7 in second column
-  // Right: 7 buttons in first column, 8 in second column
-  const leftCol1 = leftTools.slice(0, 8);
-  const leftCol2 = leftTools.slice(8, 15);
-  const rightCol1 = rightTools.slice(0, 7);
-  const rightCol2 = rightTools.slice(7, 15);
+  // Left: 9 buttons in first column, 8 in second column
+  // Right: 8 buttons in each column
+  const leftCol1 = leftTools.slice(0, 9);
+  const leftCol2 = leftTools.slice(9, 17);
+  const rightCol1 = rightTools.slice(0, 8);
+  const rightCol2 = rightTools.slice(8, 16);
 
   return (
     <>
-      {/* Left side tools - 2 columns side by side (8 + 7 = 15 buttons) */}
+      {/* Left side tools - 2 columns side by side (9 + 8 = 17 buttons) */}
       <div className="canvas-tools-left">
-        {/* First column: 8 buttons */}
+        {/* First column: 9 buttons */}
         <div className="canvas-tools-column">
           {leftCol1.map((tool) => (
             <ToolButton
@@ -302,7 +329,7 @@ const CanvasTools = memo(function CanvasTools({ activeTool }: { activeTool: stri
             />
           ))}
         </div>
-        {/* Second column: 7 buttons */}
+        {/* Second column: 8 buttons */}
         <div className="canvas-tools-column">
           {leftCol2.map((tool) => (
             <ToolButton
@@ -315,9 +342,9 @@ const CanvasTools = memo(function CanvasTools({ activeTool }: { activeTool: stri
         </div>
       </div>
 
-      {/* Right side tools - 2 columns side by side (7 + 8 = 15 buttons) */}
+      {/* Right side tools - 2 columns side by side (8 + 8 = 16 buttons) */}
       <div className="canvas-tools-right">
-        {/* First column: 7 buttons */}
+        {/* First column: 8 buttons */}
         <div className="canvas-tools-column">
           {rightCol1.map((tool) => (
             <ToolButton
@@ -349,6 +376,9 @@ export default function CanvasComponent() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const selectionCanvasRef = useRef<HTMLCanvasElement>(null);
   const canvasWrapperRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const tilePreviewRef = useRef<HTMLCanvasElement>(null);
   const selectionOverlayRef = useRef<HTMLDivElement>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const [initError, setInitError] = useState<Error | null>(null);
@@ -360,36 +390,228 @@ export default function CanvasComponent() {
     screenY: number;
   } | null>(null);
 
+  const [view, setView] = useState(() => ({
+    ...Viewport.getState(),
+    ...Viewport.getDocumentSize(),
+  }));
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const spaceHeldRef = useRef(false);
+  const panPointerRef = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+  const guideDragRef = useRef<{ pointerId: number; id: string } | null>(null);
+  const wheelDeltaRef = useRef(0);
+
   // Multi-touch state
   const touchStateRef = useRef<{
     touches: Map<number, React.Touch>;
     lastDistance: number;
     lastZoom: number;
+    lastCenter: { x: number; y: number };
   }>({
     touches: new Map(),
     lastDistance: 0,
     lastZoom: 1,
+    lastCenter: { x: 0, y: 0 },
   });
 
-  // ResizeObserver for canvas container optimization
+  // Follow zoom, pan and document size changes
   useEffect(() => {
-    if (!canvasWrapperRef.current) return;
+    const handleViewportChange = () => {
+      setView({ ...Viewport.getState(), ...Viewport.getDocumentSize() });
+    };
+    Viewport.on('viewport:change', handleViewportChange);
+    handleViewportChange();
+    return () => Viewport.off('viewport:change', handleViewportChange);
+  }, []);
 
-    const resizeObserver = new ResizeObserver(() => {
-      // Only handle if canvas is initialized
-      if (!isInitialized || !canvasRef.current) return;
+  // ResizeObserver keeps the viewport size in sync with the canvas area
+  // This is more efficient than window resize events
+  useEffect(() => {
+    const viewportElement = viewportRef.current;
+    if (!viewportElement) return;
 
-      // Use ResizeObserver for container size changes
-      // This is more efficient than window resize events
-      // Canvas resize is handled separately via input controls
+    const resizeObserver = new ResizeObserver((entries) => {
+      const entry = entries[0];
+      if (entry) {
+        Viewport.setViewportSize(entry.contentRect.width, entry.contentRect.height);
+      }
     });
 
-    resizeObserver.observe(canvasWrapperRef.current);
+    resizeObserver.observe(viewportElement);
 
     return () => {
       resizeObserver.disconnect();
     };
-  }, [isInitialized]);
+  }, []);
+
+  // Ctrl/Cmd + wheel zooms to the cursor, the wheel alone pans
+  // Registered natively because React wheel listeners are passive and cannot prevent page zoom
+  useEffect(() => {
+    const viewportElement = viewportRef.current;
+    if (!viewportElement) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = viewportElement.getBoundingClientRect();
+      if (e.ctrlKey || e.metaKey) {
+        // Accumulate so trackpad pinches (many small deltas) step at a usable rate
+        wheelDeltaRef.current +=
+          e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 40 : e.deltaY;
+        if (Math.abs(wheelDeltaRef.current) < WHEEL_ZOOM_THRESHOLD) return;
+        const anchorX = e.clientX - rect.left;
+        const anchorY = e.clientY - rect.top;
+        if (wheelDeltaRef.current < 0) {
+          Viewport.zoomIn(anchorX, anchorY);
+        } else {
+          Viewport.zoomOut(anchorX, anchorY);
+        }
+        wheelDeltaRef.current = 0;
+        return;
+      }
+      const scale = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? 40 : 1;
+      if (e.shiftKey && e.deltaX === 0) {
+        Viewport.panBy(-e.deltaY * scale, 0);
+      } else {
+        Viewport.panBy(-e.deltaX * scale, -e.deltaY * scale);
+      }
+    };
+
+    viewportElement.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewportElement.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Holding space turns dragging into panning
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) => {
+      const element = target as HTMLElement | null;
+      return (
+        !!element &&
+        (['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName) || element.isContentEditable)
+      );
+    };
+    const setSpaceHeld = (held: boolean) => {
+      spaceHeldRef.current = held;
+      setIsSpaceHeld(held);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!spaceHeldRef.current) setSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      if (!isTyping(e.target)) e.preventDefault();
+      setSpaceHeld(false);
+    };
+    const handleBlur = () => setSpaceHeld(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // The overlay draws grids, rulers and guides in screen space above the document
+  useEffect(() => {
+    if (overlayCanvasRef.current) {
+      Overlay.init(overlayCanvasRef.current);
+    }
+  }, []);
+
+  // Tile mode repeats the document around itself to show the seams
+  useEffect(() => {
+    if (tilePreviewRef.current) {
+      TilePreview.init(tilePreviewRef.current);
+    }
+  }, []);
+
+  const getViewportPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = viewportRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const isOverRuler = (point: { x: number; y: number }) =>
+    point.x < RULER_SIZE || point.y < RULER_SIZE;
+
+  // Captured before the canvas so tools never see these gestures:
+  // middle-button or space + drag pans, dragging from a ruler creates a guide
+  // and dragging a guide with the move tool repositions it
+  const handleViewportPointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (!viewportRef.current) return;
+    const isPanGesture = e.button === 1 || (e.button === 0 && spaceHeldRef.current);
+    if (isPanGesture) {
+      e.preventDefault();
+      e.stopPropagation();
+      viewportRef.current.setPointerCapture(e.pointerId);
+      panPointerRef.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+      setIsPanning(true);
+      return;
+    }
+
+    if (e.button !== 0 || !Overlay.getSettings().guides) return;
+    const point = getViewportPoint(e);
+    const position = Viewport.toDocument(point.x, point.y);
+    let guideId: string | undefined;
+    if (isOverRuler(point)) {
+      // The rulers sit above the document, so clicks on them never reach the tools
+      e.preventDefault();
+      e.stopPropagation();
+      if (point.x >= RULER_SIZE) {
+        guideId = Overlay.addGuide('horizontal', position.y).id;
+      } else if (point.y >= RULER_SIZE) {
+        guideId = Overlay.addGuide('vertical', position.x).id;
+      }
+    } else if (StateManager.getState().currentTool === 'move') {
+      guideId = Overlay.findGuideAt(point.x, point.y)?.id;
+      if (guideId) {
+        e.preventDefault();
+        e.stopPropagation();
+      }
+    }
+    if (!guideId) return;
+    viewportRef.current.setPointerCapture(e.pointerId);
+    guideDragRef.current = { pointerId: e.pointerId, id: guideId };
+  }, []);
+
+  const handleViewportPointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const guideDrag = guideDragRef.current;
+    if (guideDrag && guideDrag.pointerId === e.pointerId) {
+      const point = getViewportPoint(e);
+      const position = Viewport.toDocument(point.x, point.y);
+      const guide = Overlay.getGuides().find((g) => g.id === guideDrag.id);
+      if (guide) {
+        Overlay.moveGuide(guide.id, guide.orientation === 'horizontal' ? position.y : position.x);
+      }
+      return;
+    }
+
+    const pan = panPointerRef.current;
+    if (!pan || pan.pointerId !== e.pointerId) return;
+    Viewport.panBy(e.clientX - pan.x, e.clientY - pan.y);
+    panPointerRef.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+  }, []);
+
+  const handleViewportPointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const guideDrag = guideDragRef.current;
+    if (guideDrag && guideDrag.pointerId === e.pointerId) {
+      viewportRef.current?.releasePointerCapture(e.pointerId);
+      guideDragRef.current = null;
+      // Dropping a guide back on the rulers removes it
+      if (isOverRuler(getViewportPoint(e))) {
+        Overlay.removeGuide(guideDrag.id);
+      }
+      return;
+    }
+
+    if (panPointerRef.current?.pointerId !== e.pointerId) return;
+    viewportRef.current?.releasePointerCapture(e.pointerId);
+    panPointerRef.current = null;
+    setIsPanning(false);
+  }, []);
 
   useEffect(() => {
     if (!canvasRef.current || isInitialized) return;
@@ -466,10 +688,14 @@ export default function CanvasComponent() {
         const [t1, t2] = touches;
         const distance = Math.hypot(t2.clientX - t1.clientX, t2.clientY - t1.clientY);
         touchStateRef.current.lastDistance = distance;
-        touchStateRef.current.lastZoom = state.zoom;
+        touchStateRef.current.lastZoom = Viewport.getState().zoom;
+        touchStateRef.current.lastCenter = {
+          x: (t1.clientX + t2.clientX) / 2,
+          y: (t1.clientY + t2.clientY) / 2,
+        };
       }
     },
-    [isTouchDevice, state.zoom]
+    [isTouchDevice]
   );
 
   const handleTouchMove = useCallback(
@@ -483,21 +709,28 @@ export default function CanvasComponent() {
         touchStateRef.current.touches.set(touch.identifier, touch);
       });
 
-      // Two-finger pinch to zoom
-      if (touches.length === 2) {
+      // Two-finger pinch to zoom around the fingers, moving them pans
+      if (touches.length === 2 && viewportRef.current) {
         e.preventDefault();
         const [t1, t2] = touches;
         const distance = Math.hypot(t2.clientX - t1.clientX, t2.clientY - t1.clientY);
+        const center = { x: (t1.clientX + t2.clientX) / 2, y: (t1.clientY + t2.clientY) / 2 };
+        const rect = viewportRef.current.getBoundingClientRect();
+        const { lastCenter } = touchStateRef.current;
 
+        Viewport.panBy(center.x - lastCenter.x, center.y - lastCenter.y);
         if (touchStateRef.current.lastDistance > 0) {
           const scale = distance / touchStateRef.current.lastDistance;
-          const newZoom = Math.max(0.25, Math.min(4, touchStateRef.current.lastZoom * scale));
-
-          StateManager.setZoom(newZoom);
-          UI.applyZoom(newZoom);
+          Viewport.setZoom(
+            touchStateRef.current.lastZoom * scale,
+            center.x - rect.left,
+            center.y - rect.top
+          );
         }
 
+        touchStateRef.current.lastZoom = Viewport.getState().zoom;
         touchStateRef.current.lastDistance = distance;
+        touchStateRef.current.lastCenter = center;
       }
     },
     [isTouchDevice]
@@ -612,11 +845,11 @@ export default function CanvasComponent() {
   const canvasWidth = DEFAULT_CANVAS_WIDTH;
   const canvasHeight = DEFAULT_CANVAS_HEIGHT;
 
-  // Calculate content size based on zoom to maintain fixed visual size
-  // When zoom < 1 (zoomed out), content needs to be larger so scaling down fills container
-  // When zoom > 1 (zoomed in), content needs to be smaller so scaling up fills container
-  const contentWidth = canvasWidth / state.zoom;
-  const contentHeight = canvasHeight / state.zoom;
+  // The document is laid out at its zoomed size rather than CSS-scaled, so canvases are
+  // stretched nearest-neighbor (image-rendering: pixelated) and overlays stay in screen pixels
+  const contentWidth = view.width * view.zoom;
+  const contentHeight = view.height * view.zoom;
+  const viewportCursorClass = isPanning ? 'panning' : isSpaceHeld ? 'pan-ready' : '';
 
   const handleRetry = useCallback(() => {
     logger.log('[Canvas] Retrying initialization...');
@@ -635,30 +868,46 @@ export default function CanvasComponent() {
             <div className="top-controls-group">
               <BrushControlsPanel />
               <ColorPalettePanel />
+              <GridControlsPanel />
+              <ImageSizePanel />
             </div>
             <LayersControlsPanel />
             <HistoryControls />
             <CanvasTools activeTool={state.currentTool || 'pencil'} />
             <div
-              className="canvas-zoom-container"
-              style={{
-                width: `${canvasWidth}px`,
-                height: `${canvasHeight}px`,
+              className={`canvas-zoom-container ${viewportCursorClass}`}
+              ref={viewportRef}
+              data-testid="testid-canvas-viewport"
+              onPointerDownCapture={handleViewportPointerDown}
+              onPointerMove={handleViewportPointerMove}
+              onPointerUp={handleViewportPointerUp}
+              onPointerCancel={handleViewportPointerUp}
+              onMouseDown={(e) => {
+                // Stop middle-click autoscroll so the button can pan
+                if (e.button === 1) e.preventDefault();
               }}
             >
+              <canvas
+                ref={tilePreviewRef}
+                className="tile-preview"
+                data-testid="testid-tile-preview"
+                aria-hidden="true"
+                hidden={!state.tileMode}
+                style={{
+                  transform: `translate(${view.panX - contentWidth}px, ${view.panY - contentHeight}px)`,
+                  width: `${contentWidth * 3}px`,
+                  height: `${contentHeight * 3}px`,
+                }}
+              />
               <div
                 className="canvas-zoom-content"
                 style={{
-                  transform: `scale(${state.zoom})`,
-                  transformOrigin: 'center',
+                  transform: `translate(${view.panX}px, ${view.panY}px)`,
                   width: `${contentWidth}px`,
                   height: `${contentHeight}px`,
                 }}
               >
-                <div
-                  className="checkerboard"
-                  style={{ width: contentWidth, height: contentHeight }}
-                ></div>
+                <div className="checkerboard"></div>
                 <canvas
                   ref={canvasRef}
                   id="mainCanvas"
@@ -666,8 +915,8 @@ export default function CanvasComponent() {
                   height={canvasHeight}
                   className={`cursor-${state.currentTool}`}
                   style={{
-                    width: `${contentWidth}px`,
-                    height: `${contentHeight}px`,
+                    width: '100%',
+                    height: '100%',
                     touchAction: isTouchDevice ? 'none' : 'auto',
                     WebkitTouchCallout: 'none',
                     WebkitUserSelect: 'none',
@@ -688,8 +937,8 @@ export default function CanvasComponent() {
                   width={canvasWidth}
                   height={canvasHeight}
                   style={{
-                    width: `${contentWidth}px`,
-                    height: `${contentHeight}px`,
+                    width: '100%',
+                    height: '100%',
                   }}
                 />
                 <div
@@ -710,6 +959,12 @@ export default function CanvasComponent() {
                   />
                 )}
               </div>
+              <canvas
+                ref={overlayCanvasRef}
+                className="viewport-overlay"
+                data-testid="testid-canvas-overlay"
+                aria-hidden="true"
+              />
             </div>
             <ZoomControls />
           </div>
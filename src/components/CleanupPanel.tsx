@@ -9,6 +9,7 @@ import type {
   EdgeSmootherMode,
   LogoCleanerPreset,
 } from '@/types/cleanup';
+import type { DitherMethod } from '@/lib/dither';
 import ProgressIndicator from './ProgressIndicator';
 
 export default function CleanupPanel() {
@@ -106,6 +107,7 @@ function ColorReducerOptions({
   const [mode, setMode] = useState<CleanupMode>('auto-clean');
   const [threshold, setThreshold] = useState(15);
   const [nColors, setNColors] = useState(16);
+  const [dither, setDither] = useState<DitherMethod>('none');
 
   const handleApply = async () => {
     const tool = PixelStudio.getTool('cleanup-color-reduce');
@@ -116,6 +118,7 @@ function ColorReducerOptions({
         nColors,
         useWorker: true,
         useLab: true,
+        dither,
         onProgress,
       });
     }
@@ -161,6 +164,17 @@ function ColorReducerOptions({
           />
         </div>
       )}
+      {mode !== 'auto-clean' && (
+        <div className="slider-group">
+          <label>Dithering</label>
+          <select value={dither} onChange={(e) => setDither(e.target.value as DitherMethod)}>
+            <option value="none">None</option>
+            <option value="floyd-steinberg">Floyd–Steinberg</option>
+            <option value="atkinson">Atkinson</option>
+            <option value="ordered">Ordered (Bayer 8×8)</option>
+          </select>
+        </div>
+      )}
       <button className="btn-primary" onClick={handleApply}>
         Apply
       </button>
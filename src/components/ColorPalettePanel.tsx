@@ -5,6 +5,11 @@ import UI from '@/lib/ui';
 import { useAppState } from '@/hooks/useAppState';
 import StateManager from '@/lib/stateManager';
 import PixelStudio from '@/lib/app';
+import IndexedColor from '@/lib/indexedColor';
+import PaletteManager from './PaletteManager';
+import { hexToRgbaArray } from '@/lib/colorUtils';
+import { logger } from '@/lib/utils/logger';
+import type { PaletteColor } from '@/lib/types';
 
 export default function ColorPalettePanel() {
   const [isOpen, setIsOpen] = useState(false);
@@ -12,6 +17,18 @@ export default function ColorPalettePanel() {
   const colorPickerRef = useRef<HTMLInputElement>(null);
   const hexInputRef = useRef<HTMLInputElement>(null);
   const alphaInputRef = useRef<HTMLInputElement>(null);
+  const [indexedEnabled, setIndexedEnabled] = useState(() => IndexedColor.isEnabled());
+  const [palette, setPalette] = useState<PaletteColor[]>(() => IndexedColor.getPalette());
+  const [selectedIndex, setSelectedIndex] = useState(1);
+
+  useEffect(() => {
+    const handleIndexedChange = (data: { enabled: boolean; palette: PaletteColor[] }) => {
+      setIndexedEnabled(data.enabled);
+      setPalette(data.palette);
+    };
+    IndexedColor.on('indexed:change', handleIndexedChange);
+    return () => IndexedColor.off('indexed:change', handleIndexedChange);
+  }, []);
 
   useEffect(() => {
     // Setup color controls once elements are mounted
@@ -35,34 +52,6 @@ export default function ColorPalettePanel() {
     }
   }, []);
 
-  // Default color swatches
-  const defaultSwatches = [
-    '#000000',
-    '#FFFFFF',
-    '#FF0000',
-    '#00FF00',
-    '#0000FF',
-    '#FFFF00',
-    '#FF00FF',
-    '#00FFFF',
-    '#808080',
-    '#FFA500',
-    '#800080',
-    '#FFC0CB',
-    '#A52A2A',
-    '#000080',
-    '#008000',
-    '#800000',
-    '#FFD700',
-    '#C0C0C0',
-    '#FF6347',
-    '#40E0D0',
-    '#EE82EE',
-    '#90EE90',
-    '#F0E68C',
-    '#DDA0DD',
-  ];
-
   const handleSwatchClick = (color: string) => {
     StateManager.setColor(color);
     if (colorPickerRef.current) {
@@ -77,6 +66,40 @@ export default function ColorPalettePanel() {
   const currentColor = state.currentColor || '#000000';
   const currentAlpha = state.currentAlpha || 100;
 
+  const runPaletteAction = (action: () => Promise<unknown> | unknown) => {
+    Promise.resolve()
+      .then(action)
+      .catch((error) => {
+        logger.error('Palette operation failed:', error);
+        alert(error instanceof Error ? error.message : 'Palette operation failed.');
+      });
+  };
+
+  const handleIndexedToggle = (enabled: boolean) => {
+    runPaletteAction(() => (enabled ? IndexedColor.enable() : IndexedColor.disable()));
+  };
+
+  const handlePaletteSwatchClick = (index: number) => {
+    setSelectedIndex(index);
+    handleSwatchClick(IndexedColor.toHex(palette[index]!));
+  };
+
+  // Recolors every pixel that uses the selected entry
+  const handlePaletteColorEdit = (hex: string) => {
+    const entry = palette[selectedIndex];
+    if (!entry) return;
+    const [r, g, b] = hexToRgbaArray(hex, 1);
+    runPaletteAction(async () => {
+      await IndexedColor.setPaletteColor(selectedIndex, { r, g, b, a: entry.a });
+      handleSwatchClick(hex);
+    });
+  };
+
+  const handleAddPaletteColor = () => {
+    const [r, g, b] = hexToRgbaArray(currentColor, 1);
+    runPaletteAction(() => setSelectedIndex(IndexedColor.addPaletteColor({ r, g, b, a: 255 })));
+  };
+
   // Convert hex to rgba for preview
   const hexToRgba = (hex: string, alpha: number) => {
     const r = parseInt(hex.slice(1, 3), 16);
@@ -146,18 +169,68 @@ export default function ColorPalettePanel() {
               </div>
             </div>
 
-            {/* Color Swatches */}
-            <div className="swatches">
-              {defaultSwatches.map((color, index) => (
-                <button
-                  key={index}
-                  className="swatch"
-                  style={{ background: color }}
-                  onClick={() => handleSwatchClick(color)}
-                  aria-label={`Select color ${color}`}
-                />
-              ))}
-            </div>
+            {/* Indexed Mode */}
+            <label className="indexed-mode-toggle">
+              <input
+                type="checkbox"
+                data-testid="testid-indexed-mode"
+                checked={indexedEnabled}
+                onChange={(e) => handleIndexedToggle(e.target.checked)}
+              />
+              <span className="slider-label">Indexed color (locked palette)</span>
+            </label>
+
+            {indexedEnabled ? (
+              <>
+                {/* Document Palette (index 0 is transparent and not shown) */}
+                <div className="swatches" role="listbox" aria-label="Document palette">
+                  {palette.map((color, index) =>
+                    index === 0 ? null : (
+                      <button
+                        key={index}
+                        className={`swatch ${index === selectedIndex ? 'selected' : ''}`}
+                        style={{ background: IndexedColor.toHex(color) }}
+                        onClick={() => handlePaletteSwatchClick(index)}
+                        role="option"
+                        aria-selected={index === selectedIndex}
+                        aria-label={`Palette index ${index}, ${IndexedColor.toHex(color)}`}
+                      />
+                    )
+                  )}
+                </div>
+                <div className="color-inputs">
+                  <div className="color-input-group">
+                    <label>Edit Swatch</label>
+                    <input
+                      type="color"
+                      data-testid="testid-palette-edit"
+                      value={
+                        palette[selectedIndex]
+                          ? IndexedColor.toHex(palette[selectedIndex])
+                          : '#000000'
+                      }
+                      disabled={!palette[selectedIndex]}
+                      onChange={(e) => handlePaletteColorEdit(e.target.value)}
+                    />
+                  </div>
+                  <div className="color-input-group">
+                    <label>Palette</label>
+                    <button
+                      className="layer-control-btn"
+                      data-testid="testid-palette-add"
+                      onClick={handleAddPaletteColor}
+                      disabled={palette.length >= 256}
+                      title="Add Current Color"
+                      aria-label="Add current color to palette"
+                    >
+                      + Add
+                    </button>
+                  </div>
+                </div>
+              </>
+            ) : (
+              <PaletteManager currentColor={currentColor} onSelectColor={handleSwatchClick} />
+            )}
           </div>
         </div>
       )}
@@ -110,6 +110,35 @@ const allTools: readonly ToolConfig[] = [
     iconPosition: '-44px -88px',
     category: 'fill',
   },
+  // Shape Tools
+  {
+    name: 'line',
+    key: '',
+    icon: '/icons.jpg',
+    iconPosition: '0px -220px',
+    category: 'shape',
+  },
+  {
+    name: 'rectangle',
+    key: '',
+    icon: '/icons.jpg',
+    iconPosition: '-44px -220px',
+    category: 'shape',
+  },
+  {
+    name: 'ellipse',
+    key: '',
+    icon: '/icons.jpg',
+    iconPosition: '-88px -220px',
+    category: 'shape',
+  },
+  {
+    name: 'regular-polygon',
+    key: '',
+    icon: '/icons.jpg',
+    iconPosition: '-132px -220px',
+    category: 'shape',
+  },
   // Transform Tools
   {
     name: 'move',
@@ -119,19 +148,12 @@ const allTools: readonly ToolConfig[] = [
     category: 'transform',
   },
   {
-    name: 'rotate',
-    key: '',
+    name: 'transform',
+    key: 'T',
     icon: '/icons.jpg',
     iconPosition: '-132px -88px',
     category: 'transform',
   },
-  {
-    name: 'scale',
-    key: '',
-    icon: '/icons.jpg',
-    iconPosition: '-176px -88px',
-    category: 'transform',
-  },
   {
     name: 'crop',
     key: '',
@@ -284,6 +306,7 @@ function ExtendedToolbar() {
     drawing: allTools.filter((t) => t.category === 'drawing'),
     selection: allTools.filter((t) => t.category === 'selection'),
     fill: allTools.filter((t) => t.category === 'fill'),
+    shape: allTools.filter((t) => t.category === 'shape'),
     transform: allTools.filter((t) => t.category === 'transform'),
     special: allTools.filter((t) => t.category === 'special'),
     cleanup: allTools.filter((t) => t.category === 'cleanup'),
@@ -0,0 +1,207 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Overlay from '@/lib/overlay';
+import StateManager from '@/lib/stateManager';
+import ImageSizeActions from '@/lib/imageSizeActions';
+import { useAppState } from '@/hooks/useAppState';
+import { logger } from '@/lib/utils/logger';
+import type { Guide, OverlaySettings } from '@/lib/types';
+
+// Zoom levels offered for showing the pixel grid
+const PIXEL_GRID_ZOOM_OPTIONS = [4, 6, 8, 12, 16] as const;
+
+export default function GridControlsPanel() {
+  const state = useAppState();
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<OverlaySettings>(() => Overlay.getSettings());
+  const [guides, setGuides] = useState<Guide[]>(() => Overlay.getGuides());
+
+  useEffect(() => {
+    const handleOverlayChange = (data: { settings: OverlaySettings; guides: Guide[] }) => {
+      setSettings(data.settings);
+      setGuides(data.guides);
+    };
+    Overlay.on('overlay:change', handleOverlayChange);
+    return () => Overlay.off('overlay:change', handleOverlayChange);
+  }, []);
+
+  const updateSettings = (updates: Partial<OverlaySettings>) => {
+    Overlay.updateSettings(updates).catch((error) => {
+      logger.error('Failed to save overlay settings:', error);
+    });
+  };
+
+  const handleNumberChange = (key: keyof OverlaySettings, value: string) => {
+    const parsed = parseInt(value, 10);
+    if (!Number.isNaN(parsed)) {
+      updateSettings({ [key]: parsed });
+    }
+  };
+
+  const handleOffsetByHalf = () => {
+    Promise.resolve()
+      .then(() => ImageSizeActions.offsetByHalf())
+      .catch((error) => {
+        logger.error('Offset failed:', error);
+        alert(error instanceof Error ? error.message : 'Offset failed.');
+      });
+  };
+
+  return (
+    <div className="grid-controls-panel">
+      <button
+        className="grid-controls-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label="Toggle grid and guides"
+        aria-expanded={isOpen}
+        data-testid="testid-grid-toggle"
+      >
+        GRID
+      </button>
+      {isOpen && (
+        <div className="grid-controls-content">
+          <div className="panel-section">
+            <h2 className="panel-title">Pixel Grid</h2>
+            <label className="overlay-toggle">
+              <input
+                type="checkbox"
+                data-testid="testid-pixel-grid"
+                checked={settings.pixelGrid}
+                onChange={(e) => updateSettings({ pixelGrid: e.target.checked })}
+              />
+              <span className="slider-label">Show pixel grid</span>
+            </label>
+            <div className="color-input-group">
+              <label htmlFor="pixelGridMinZoom">From zoom</label>
+              <select
+                id="pixelGridMinZoom"
+                className="header-select"
+                value={settings.pixelGridMinZoom}
+                disabled={!settings.pixelGrid}
+                onChange={(e) => handleNumberChange('pixelGridMinZoom', e.target.value)}
+              >
+                {PIXEL_GRID_ZOOM_OPTIONS.map((zoom) => (
+                  <option key={zoom} value={zoom}>
+                    {zoom * 100}%
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="panel-section">
+            <h2 className="panel-title">Tile Grid</h2>
+            <label className="overlay-toggle">
+              <input
+                type="checkbox"
+                data-testid="testid-tile-grid"
+                checked={settings.tileGrid}
+                onChange={(e) => updateSettings({ tileGrid: e.target.checked })}
+              />
+              <span className="slider-label">Show tile grid</span>
+            </label>
+            <div className="color-inputs">
+              <div className="color-input-group">
+                <label htmlFor="tileWidth">Width</label>
+                <input
+                  type="number"
+                  id="tileWidth"
+                  min="1"
+                  value={settings.tileWidth}
+                  onChange={(e) => handleNumberChange('tileWidth', e.target.value)}
+                />
+              </div>
+              <div className="color-input-group">
+                <label htmlFor="tileHeight">Height</label>
+                <input
+                  type="number"
+                  id="tileHeight"
+                  min="1"
+                  value={settings.tileHeight}
+                  onChange={(e) => handleNumberChange('tileHeight', e.target.value)}
+                />
+              </div>
+              <div className="color-input-group">
+                <label htmlFor="tileOffsetX">Offset X</label>
+                <input
+                  type="number"
+                  id="tileOffsetX"
+                  value={settings.tileOffsetX}
+                  onChange={(e) => handleNumberChange('tileOffsetX', e.target.value)}
+                />
+              </div>
+              <div className="color-input-group">
+                <label htmlFor="tileOffsetY">Offset Y</label>
+                <input
+                  type="number"
+                  id="tileOffsetY"
+                  value={settings.tileOffsetY}
+                  onChange={(e) => handleNumberChange('tileOffsetY', e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="panel-section">
+            <h2 className="panel-title">Tile Mode</h2>
+            <label className="overlay-toggle">
+              <input
+                type="checkbox"
+                data-testid="testid-tile-mode"
+                checked={state.tileMode}
+                onChange={(e) => StateManager.setTileMode(e.target.checked)}
+              />
+              <span className="slider-label">Repeat canvas and wrap paint</span>
+            </label>
+            <p className="overlay-hint">
+              Shows the canvas 3×3. Pencil, eraser, clone, heal and smudge strokes continue across
+              the edges and the bucket fills across them.
+            </p>
+            <button
+              className="layer-control-btn"
+              data-testid="testid-offset-half"
+              onClick={handleOffsetByHalf}
+            >
+              Offset by Half
+            </button>
+          </div>
+
+          <div className="panel-section">
+            <h2 className="panel-title">Guides</h2>
+            <label className="overlay-toggle">
+              <input
+                type="checkbox"
+                data-testid="testid-guides"
+                checked={settings.guides}
+                onChange={(e) => updateSettings({ guides: e.target.checked })}
+              />
+              <span className="slider-label">Show rulers and guides</span>
+            </label>
+            <label className="overlay-toggle">
+              <input
+                type="checkbox"
+                data-testid="testid-snapping"
+                checked={settings.snapping}
+                onChange={(e) => updateSettings({ snapping: e.target.checked })}
+              />
+              <span className="slider-label">Snap to guides, tiles and edges</span>
+            </label>
+            <p className="overlay-hint">
+              Drag from a ruler to add a guide. Drag guides with the Move tool; drop one on a ruler
+              to remove it.
+            </p>
+            <button
+              className="layer-control-btn"
+              data-testid="testid-guides-clear"
+              onClick={() => Overlay.clearGuides()}
+              disabled={guides.length === 0}
+            >
+              Clear Guides ({guides.length})
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,26 @@
 'use client';
 
 import { useState, useRef, useCallback, useEffect } from 'react';
+import { createPortal } from 'react-dom';
 import Canvas from '@/lib/canvas';
 import WorkerManager from '@/lib/workers/workerManager';
 import { logger } from '@/lib/utils/logger';
 import { useAppState } from '@/hooks/useAppState';
 import History from '@/lib/history';
+import IndexedColor from '@/lib/indexedColor';
+import { saveProjectFile, PROJECT_FILE_EXTENSION } from '@/lib/storage/projectFile';
+import projectManager from '@/lib/storage/projectManager';
+import VersionsDialog from '@/components/VersionsDialog';
+import {
+  detectLayeredFormat,
+  openLayeredFile,
+  exportLayeredFile,
+  exportAnimation,
+  exportIndexedPng,
+  isAnimationFormat,
+  LAYERED_FILE_EXTENSIONS,
+  type ExportFormat,
+} from '@/lib/formats';
 
 export default function Header() {
   const state = useAppState();
@@ -20,11 +35,62 @@ export default function Header() {
   }, [state.currentColor]);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const [projectName, setProjectName] = useState('pixel-studio-project');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('png');
+  const [showVersions, setShowVersions] = useState(false);
 
   const handleUpload = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
+  const handleOpenProject = useCallback(() => {
+    projectInputRef.current?.click();
+  }, []);
+
+  const handleProjectFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    setUploadError(null);
+
+    try {
+      // Project files keep their own name; other formats are named after the file
+      const name = (await openLayeredFile(file)) || file.name.replace(/\.[^/.]+$/, '');
+      setProjectName(name || 'pixel-studio-project');
+      projectManager.detach(name || undefined);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to open project. Please try again.';
+      logger.error('[Header] Failed to open project:', error);
+      setUploadError(errorMessage);
+    } finally {
+      setIsUploading(false);
+      if (projectInputRef.current) {
+        projectInputRef.current.value = '';
+      }
+    }
+  }, []);
+
+  const handleSaveProject = useCallback(async () => {
+    try {
+      const blob = await saveProjectFile(projectName);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = `${projectName}${PROJECT_FILE_EXTENSION}`;
+      link.href = url;
+      link.click();
+      // Revoke after the click has been dispatched so the download can start
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (error) {
+      logger.error('[Header] Failed to save project:', error);
+      setUploadError(
+        error instanceof Error ? `Save failed: ${error.message}` : 'Failed to save project.'
+      );
+    }
+  }, [projectName]);
+
   const handleImageUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -39,6 +105,17 @@ export default function Header() {
     });
 
     try {
+      // Layered documents open as real layers instead of a flattened image
+      if (detectLayeredFormat(file)) {
+        logger.debug('[Header] Opening layered document');
+        // Project files keep their own name; other formats are named after the file
+        const name = (await openLayeredFile(file)) || file.name.replace(/\.[^/.]+$/, '');
+        setProjectName(name || 'pixel-studio-project');
+        projectManager.detach(name || undefined);
+        setUploadError(null);
+        return;
+      }
+
       // Validate file using image worker
       if (!WorkerManager.isImageWorkerAvailable()) {
         // Initialize image worker if not available
@@ -104,7 +181,7 @@ export default function Header() {
 
       logger.debug('[Header] Creating layer and loading image to canvas', { layerName });
       await Canvas.loadImage(img, true, layerName);
-      await History.saveImmediate();
+      await History.saveImmediate('Open Image');
 
       logger.debug('[Header] Image upload completed successfully');
       // Clear error on success
@@ -123,9 +200,71 @@ export default function Header() {
     }
   }, []);
 
-  const handleExport = useCallback(() => {
+  const handleExport = useCallback(async () => {
+    if (isAnimationFormat(exportFormat)) {
+      try {
+        const files = await exportAnimation(exportFormat, projectName);
+        for (const file of files) {
+          const url = URL.createObjectURL(file.blob);
+          const link = document.createElement('a');
+          link.download = file.name;
+          link.href = url;
+          link.click();
+          setTimeout(() => URL.revokeObjectURL(url), 0);
+        }
+      } catch (error) {
+        logger.error('Export failed:', error);
+        alert(
+          error instanceof Error
+            ? `Export failed: ${error.message}`
+            : 'Failed to export animation. Please try again.'
+        );
+      }
+      return;
+    }
+
+    if (exportFormat !== 'png') {
+      try {
+        const blob = await exportLayeredFile(exportFormat);
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.download = `${projectName}.${exportFormat}`;
+        link.href = url;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+      } catch (error) {
+        logger.error('Export failed:', error);
+        alert(
+          error instanceof Error
+            ? `Export failed: ${error.message}`
+            : 'Failed to export layered file. Please try again.'
+        );
+      }
+      return;
+    }
+
+    if (IndexedColor.isEnabled()) {
+      try {
+        const url = URL.createObjectURL(await exportIndexedPng());
+        const link = document.createElement('a');
+        link.download = 'pixel-studio-artwork.png';
+        link.href = url;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+      } catch (error) {
+        logger.error('Export failed:', error);
+        alert(
+          error instanceof Error
+            ? `Export failed: ${error.message}`
+            : 'Failed to export indexed PNG. Please try again.'
+        );
+      }
+      return;
+    }
+
     try {
-      const dataURL = Canvas.toDataURL();
+      // Onion skin overlays are left out of the exported image
+      const dataURL = await Canvas.getLayers().withoutOnionSkin(() => Canvas.toDataURL());
       if (!dataURL) {
         throw new Error('Export failed: empty data URL');
       }
@@ -146,7 +285,9 @@ export default function Header() {
           : 'Failed to export image. The canvas may be too large or the operation was interrupted.';
       alert(errorMessage);
     }
-  }, []);
+  }, [exportFormat, projectName]);
+
+  const handleCloseVersions = useCallback(() => setShowVersions(false), []);
 
   return (
     <header className="header" role="banner" data-testid="main-header">
@@ -191,6 +332,87 @@ export default function Header() {
           </svg>
           Upload
         </button>
+        <button
+          className="header-btn"
+          onClick={handleOpenProject}
+          id="openProjectBtn"
+          data-testid="testid-open-project-btn"
+          disabled={isUploading}
+          aria-label="Open project"
+          title={`Open project (${LAYERED_FILE_EXTENSIONS.join(', ')})`}
+        >
+          <svg
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            aria-hidden="true"
+          >
+            <path d="M22 19a2 2 0 01-2 2H4a2 2 0 01-2-2V5a2 2 0 012-2h5l2 3h9a2 2 0 012 2z" />
+          </svg>
+          Open
+        </button>
+        <button
+          className="header-btn"
+          onClick={handleSaveProject}
+          id="saveProjectBtn"
+          data-testid="testid-save-project-btn"
+          aria-label="Save project"
+          title={`Save project (${PROJECT_FILE_EXTENSION})`}
+        >
+          <svg
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            aria-hidden="true"
+          >
+            <path d="M19 21H5a2 2 0 01-2-2V5a2 2 0 012-2h11l5 5v11a2 2 0 01-2 2z" />
+            <path d="M17 21v-8H7v8M7 3v5h8" />
+          </svg>
+          Save
+        </button>
+        <button
+          className="header-btn"
+          onClick={() => setShowVersions(true)}
+          id="versionsBtn"
+          data-testid="testid-versions-btn"
+          aria-label="Revert to version"
+          title="Revert to an autosaved version"
+        >
+          <svg
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            aria-hidden="true"
+          >
+            <path d="M3 12a9 9 0 109-9 9.75 9.75 0 00-6.74 2.74L3 8" />
+            <path d="M3 3v5h5M12 7v5l4 2" />
+          </svg>
+          Versions…
+        </button>
+        <select
+          className="header-btn header-select"
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+          data-testid="testid-export-format"
+          aria-label="Export format"
+          title="Export format"
+        >
+          <option value="png">PNG</option>
+          <option value="ora">ORA (layers)</option>
+          <option value="psd">PSD (layers)</option>
+          <option value="gif">GIF (animation)</option>
+          <option value="apng">APNG (animation)</option>
+          <option value="sheet">Sprite sheet + JSON</option>
+        </select>
         <button
           className="header-btn primary"
           onClick={handleExport}
@@ -240,12 +462,25 @@ export default function Header() {
         ref={fileInputRef}
         type="file"
         id="imageUpload"
-        accept="image/*"
+        accept={['image/*', ...LAYERED_FILE_EXTENSIONS].join(',')}
         onChange={handleImageUpload}
         style={{ display: 'none' }}
         aria-label="Upload image file"
         data-testid="file-input"
       />
+      <input
+        ref={projectInputRef}
+        type="file"
+        id="projectOpen"
+        accept={LAYERED_FILE_EXTENSIONS.join(',')}
+        onChange={handleProjectFile}
+        style={{ display: 'none' }}
+        aria-label="Open project file"
+        data-testid="project-file-input"
+      />
+      {/* Portaled out of the header, whose backdrop filter would contain a fixed overlay */}
+      {showVersions &&
+        createPortal(<VersionsDialog onClose={handleCloseVersions} />, document.body)}
     </header>
   );
 }
@@ -76,6 +76,7 @@ export default function HistoryControls() {
     History.on('history:undo', handleHistoryChange);
     History.on('history:redo', handleHistoryChange);
     History.on('history:clear', handleHistoryChange);
+    History.on('history:resume', handleHistoryChange);
     History.on('history:error', handleHistoryError);
 
     return () => {
@@ -83,6 +84,7 @@ export default function HistoryControls() {
       History.off('history:undo', handleHistoryChange);
       History.off('history:redo', handleHistoryChange);
       History.off('history:clear', handleHistoryChange);
+      History.off('history:resume', handleHistoryChange);
       History.off('history:error', handleHistoryError);
       // Cleanup timers
       if (undoFeedbackTimerRef.current) {
@@ -0,0 +1,233 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import History, { type HistoryBranch, type HistorySnapshot, type HistoryStep } from '@/lib/history';
+import { logger } from '@/lib/utils/logger';
+
+// Depths offered in the panel
+const HISTORY_DEPTHS = [10, 20, 50, 100, 200] as const;
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+export default function HistoryPanel() {
+  const [steps, setSteps] = useState<HistoryStep[]>(() => History.getSteps());
+  const [currentIndex, setCurrentIndex] = useState(() => History.getIndex());
+  const [depth, setDepth] = useState(() => History.getMaxHistory());
+  const [branching, setBranching] = useState(() => History.isBranching());
+  const [branches, setBranches] = useState<HistoryBranch[]>(() => History.getBranches());
+  const [snapshots, setSnapshots] = useState<HistorySnapshot[]>(() => History.getSnapshots());
+
+  useEffect(() => {
+    const handleChange = () => {
+      setSteps(History.getSteps());
+      setCurrentIndex(History.getIndex());
+      setDepth(History.getMaxHistory());
+      setBranching(History.isBranching());
+      setBranches(History.getBranches());
+    };
+    const handleSnapshots = () => setSnapshots(History.getSnapshots());
+    handleChange();
+    handleSnapshots();
+
+    History.on('history:save', handleChange);
+    History.on('history:undo', handleChange);
+    History.on('history:redo', handleChange);
+    History.on('history:clear', handleChange);
+    History.on('history:resume', handleChange);
+    History.on('history:depth', handleChange);
+    History.on('history:branches', handleChange);
+    History.on('history:snapshots', handleSnapshots);
+    return () => {
+      History.off('history:save', handleChange);
+      History.off('history:undo', handleChange);
+      History.off('history:redo', handleChange);
+      History.off('history:clear', handleChange);
+      History.off('history:resume', handleChange);
+      History.off('history:depth', handleChange);
+      History.off('history:branches', handleChange);
+      History.off('history:snapshots', handleSnapshots);
+    };
+  }, []);
+
+  const runAction = useCallback((action: () => unknown) => {
+    Promise.resolve()
+      .then(action)
+      .catch((error) => {
+        logger.error('History operation failed:', error);
+        alert(error instanceof Error ? error.message : 'History operation failed.');
+      });
+  }, []);
+
+  const handleJump = useCallback((index: number) => {
+    History.goTo(index).catch((error) => {
+      logger.error('Failed to jump to history step:', error);
+    });
+  }, []);
+
+  const handleDepthChange = (value: number) => {
+    const dropped = steps.length - value;
+    if (dropped > 0 && !confirm(`Lowering the depth discards ${dropped} step(s). Continue?`)) {
+      return;
+    }
+    History.setMaxHistory(value).catch((error) => {
+      logger.error('Failed to change history depth:', error);
+    });
+  };
+
+  const handleBranchingChange = (enabled: boolean) => {
+    if (
+      !enabled &&
+      branches.length > 0 &&
+      !confirm('Turning branching off discards all branches. Continue?')
+    ) {
+      return;
+    }
+    runAction(() => History.setBranching(enabled));
+  };
+
+  const handleTakeSnapshot = () => {
+    const name = prompt('Snapshot name:', `Snapshot ${snapshots.length + 1}`);
+    if (name === null || !name.trim()) return;
+    runAction(() => History.takeSnapshot(name));
+  };
+
+  const handleDeleteSnapshot = (snapshot: HistorySnapshot) => {
+    if (!confirm(`Delete snapshot "${snapshot.name}"?`)) return;
+    runAction(() => History.deleteSnapshot(snapshot.id));
+  };
+
+  // Only branches starting on the current path can be switched to
+  const reachableBranches = branches.filter((branch) => branch.forkIndex !== -1);
+
+  return (
+    <div className="panel-section" data-testid="testid-history-panel">
+      <h2 className="panel-title">History</h2>
+
+      <div className="history-list" role="listbox" aria-label="History steps">
+        {steps.length === 0 && <p className="history-empty">Nothing to undo yet</p>}
+        {steps.map((step, index) => (
+          <button
+            key={`${step.timestamp}-${index}`}
+            className={`history-item ${index === currentIndex ? 'active' : ''} ${
+              index > currentIndex ? 'undone' : ''
+            }`}
+            onClick={() => handleJump(index)}
+            role="option"
+            aria-selected={index === currentIndex}
+            title={step.tool ? `${step.label} (${step.tool})` : step.label}
+          >
+            {step.thumbnail ? (
+              <img className="history-item-thumbnail" src={step.thumbnail} alt="" />
+            ) : (
+              <span className="history-item-thumbnail" aria-hidden="true" />
+            )}
+            <span className="history-item-name">{step.label}</span>
+            <span className="history-item-info">{formatTime(step.timestamp)}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="slider-group">
+        <div className="slider-header">
+          <span className="slider-label">Depth</span>
+        </div>
+        <select
+          id="historyDepth"
+          data-testid="testid-history-depth"
+          value={depth}
+          onChange={(e) => handleDepthChange(parseInt(e.target.value, 10))}
+        >
+          {!HISTORY_DEPTHS.some((option) => option === depth) && (
+            <option value={depth}>{depth} steps</option>
+          )}
+          {HISTORY_DEPTHS.map((option) => (
+            <option key={option} value={option}>
+              {option} steps
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="checkbox-group">
+        <label>
+          <input
+            type="checkbox"
+            data-testid="testid-history-branching"
+            checked={branching}
+            onChange={(e) => handleBranchingChange(e.target.checked)}
+          />
+          Keep undone steps as branches
+        </label>
+      </div>
+      {branching && reachableBranches.length > 0 && (
+        <div className="history-list" role="listbox" aria-label="History branches">
+          {reachableBranches.map((branch) => (
+            <button
+              key={branch.id}
+              className="history-item"
+              data-testid="testid-history-branch"
+              onClick={() => runAction(() => History.switchBranch(branch.id))}
+              role="option"
+              aria-selected={false}
+              title="Switch to this branch"
+            >
+              <span className="history-item-name">{branch.steps.at(-1)?.label}</span>
+              <span className="history-item-info">
+                after {steps[branch.forkIndex]?.label}, {branch.steps.length} step(s)
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+      <p className="overlay-hint">
+        Click a step to go back to it. Older steps are kept in browser storage
+      </p>
+
+      <div className="slider-group">
+        <div className="slider-header">
+          <span className="slider-label">Snapshots</span>
+        </div>
+        <div className="history-list" role="list" aria-label="Snapshots">
+          {snapshots.map((snapshot) => (
+            <div key={snapshot.id} className="history-snapshot" role="listitem">
+              <button
+                className="history-item"
+                onClick={() => runAction(() => History.restoreSnapshot(snapshot.id))}
+                title={`Restore "${snapshot.name}"`}
+              >
+                {snapshot.thumbnail ? (
+                  <img className="history-item-thumbnail" src={snapshot.thumbnail} alt="" />
+                ) : (
+                  <span className="history-item-thumbnail" aria-hidden="true" />
+                )}
+                <span className="history-item-name">{snapshot.name}</span>
+                <span className="history-item-info">{formatTime(snapshot.timestamp)}</span>
+              </button>
+              <button
+                className="history-snapshot-delete"
+                onClick={() => handleDeleteSnapshot(snapshot)}
+                title="Delete snapshot"
+                aria-label={`Delete snapshot ${snapshot.name}`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          className="layer-control-btn"
+          data-testid="testid-history-snapshot"
+          onClick={handleTakeSnapshot}
+          title="Save the whole document as a named snapshot"
+        >
+          New Snapshot
+        </button>
+      </div>
+    </div>
+  );
+}
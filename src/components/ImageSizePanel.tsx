@@ -0,0 +1,264 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Canvas from '@/lib/canvas';
+import ImageSizeActions from '@/lib/imageSizeActions';
+import { CANVAS_ANCHORS, type CanvasAnchor, type ResampleFilter } from '@/lib/imageSize';
+import { DEFAULT_CANVAS_WIDTH, DEFAULT_CANVAS_HEIGHT, MAX_CANVAS_SIZE } from '@/lib/constants';
+import { logger } from '@/lib/utils/logger';
+
+const RESAMPLE_FILTERS: { value: ResampleFilter; label: string }[] = [
+  { value: 'nearest', label: 'Nearest Neighbor (pixel art)' },
+  { value: 'bilinear', label: 'Bilinear' },
+  { value: 'bicubic', label: 'Bicubic' },
+];
+
+// Quick scale factors; whole-number upscales keep pixel art crisp with nearest neighbor
+const SCALE_PRESETS = [0.5, 2, 3, 4] as const;
+
+export default function ImageSizePanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [documentSize, setDocumentSize] = useState({
+    width: DEFAULT_CANVAS_WIDTH,
+    height: DEFAULT_CANVAS_HEIGHT,
+  });
+  const [imageWidth, setImageWidth] = useState(String(DEFAULT_CANVAS_WIDTH));
+  const [imageHeight, setImageHeight] = useState(String(DEFAULT_CANVAS_HEIGHT));
+  const [keepProportions, setKeepProportions] = useState(true);
+  const [filter, setFilter] = useState<ResampleFilter>('nearest');
+  const [canvasWidth, setCanvasWidth] = useState(String(DEFAULT_CANVAS_WIDTH));
+  const [canvasHeight, setCanvasHeight] = useState(String(DEFAULT_CANVAS_HEIGHT));
+  const [anchor, setAnchor] = useState<CanvasAnchor>('center');
+  const [fillEnabled, setFillEnabled] = useState(false);
+  const [fillColor, setFillColor] = useState('#ffffff');
+
+  const syncSize = useCallback((size: { width: number; height: number }) => {
+    setDocumentSize(size);
+    setImageWidth(String(size.width));
+    setImageHeight(String(size.height));
+    setCanvasWidth(String(size.width));
+    setCanvasHeight(String(size.height));
+  }, []);
+
+  useEffect(() => {
+    if (Canvas.isInitialized()) {
+      syncSize({ width: Canvas.getWidth(), height: Canvas.getHeight() });
+    }
+    Canvas.on('canvas:resize', syncSize);
+    return () => Canvas.off('canvas:resize', syncSize);
+  }, [syncSize]);
+
+  const runSizeAction = useCallback((action: () => unknown) => {
+    Promise.resolve()
+      .then(action)
+      .catch((error) => {
+        logger.error('Image size change failed:', error);
+        alert(error instanceof Error ? error.message : 'Image size change failed.');
+      });
+  }, []);
+
+  // With proportions kept, editing one side recomputes the other from the document ratio
+  const handleImageWidthChange = (value: string) => {
+    setImageWidth(value);
+    const width = parseInt(value, 10);
+    if (keepProportions && width > 0) {
+      setImageHeight(
+        String(Math.max(1, Math.round((width * documentSize.height) / documentSize.width)))
+      );
+    }
+  };
+
+  const handleImageHeightChange = (value: string) => {
+    setImageHeight(value);
+    const height = parseInt(value, 10);
+    if (keepProportions && height > 0) {
+      setImageWidth(
+        String(Math.max(1, Math.round((height * documentSize.width) / documentSize.height)))
+      );
+    }
+  };
+
+  const handleScalePreset = (factor: number) => {
+    setImageWidth(String(Math.max(1, Math.round(documentSize.width * factor))));
+    setImageHeight(String(Math.max(1, Math.round(documentSize.height * factor))));
+    if (factor > 1) {
+      setFilter('nearest');
+    }
+  };
+
+  const handleResizeImage = () => {
+    const width = parseInt(imageWidth, 10);
+    const height = parseInt(imageHeight, 10);
+    runSizeAction(() => ImageSizeActions.resizeImage(width, height, filter));
+  };
+
+  const handleResizeCanvas = () => {
+    const width = parseInt(canvasWidth, 10);
+    const height = parseInt(canvasHeight, 10);
+    runSizeAction(() =>
+      ImageSizeActions.resizeCanvas(width, height, anchor, fillEnabled ? fillColor : null)
+    );
+  };
+
+  return (
+    <div className="image-size-panel">
+      <button
+        className="image-size-toggle"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label="Toggle image size panel"
+        aria-expanded={isOpen}
+        data-testid="testid-image-size-toggle"
+      >
+        IMAGE
+      </button>
+      {isOpen && (
+        <div className="image-size-content">
+          <div className="panel-section">
+            <h2 className="panel-title">Image Size</h2>
+            <div className="color-inputs">
+              <div className="color-input-group">
+                <label htmlFor="imageSizeWidth">Width</label>
+                <input
+                  type="number"
+                  id="imageSizeWidth"
+                  min="1"
+                  max={MAX_CANVAS_SIZE}
+                  value={imageWidth}
+                  onChange={(e) => handleImageWidthChange(e.target.value)}
+                />
+              </div>
+              <div className="color-input-group">
+                <label htmlFor="imageSizeHeight">Height</label>
+                <input
+                  type="number"
+                  id="imageSizeHeight"
+                  min="1"
+                  max={MAX_CANVAS_SIZE}
+                  value={imageHeight}
+                  onChange={(e) => handleImageHeightChange(e.target.value)}
+                />
+              </div>
+            </div>
+            <label className="overlay-toggle">
+              <input
+                type="checkbox"
+                checked={keepProportions}
+                onChange={(e) => setKeepProportions(e.target.checked)}
+              />
+              <span className="slider-label">Keep proportions</span>
+            </label>
+            <div className="image-size-presets">
+              {SCALE_PRESETS.map((factor) => (
+                <button
+                  key={factor}
+                  className="layer-control-btn"
+                  onClick={() => handleScalePreset(factor)}
+                >
+                  {factor < 1 ? `${factor * 100}%` : `${factor}×`}
+                </button>
+              ))}
+            </div>
+            <div className="color-input-group">
+              <label htmlFor="imageSizeFilter">Resample</label>
+              <select
+                id="imageSizeFilter"
+                className="header-select"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value as ResampleFilter)}
+              >
+                {RESAMPLE_FILTERS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              className="layer-control-btn"
+              data-testid="testid-image-size-apply"
+              onClick={handleResizeImage}
+            >
+              Resize Image
+            </button>
+          </div>
+
+          <div className="panel-section">
+            <h2 className="panel-title">Canvas Size</h2>
+            <div className="color-inputs">
+              <div className="color-input-group">
+                <label htmlFor="canvasSizeWidth">Width</label>
+                <input
+                  type="number"
+                  id="canvasSizeWidth"
+                  min="1"
+                  max={MAX_CANVAS_SIZE}
+                  value={canvasWidth}
+                  onChange={(e) => setCanvasWidth(e.target.value)}
+                />
+              </div>
+              <div className="color-input-group">
+                <label htmlFor="canvasSizeHeight">Height</label>
+                <input
+                  type="number"
+                  id="canvasSizeHeight"
+                  min="1"
+                  max={MAX_CANVAS_SIZE}
+                  value={canvasHeight}
+                  onChange={(e) => setCanvasHeight(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="image-size-anchor" role="radiogroup" aria-label="Anchor">
+              {CANVAS_ANCHORS.map((position) => (
+                <button
+                  key={position}
+                  className={`image-size-anchor-cell ${anchor === position ? 'active' : ''}`}
+                  role="radio"
+                  aria-checked={anchor === position}
+                  aria-label={`Anchor ${position.replace('-', ' ')}`}
+                  onClick={() => setAnchor(position)}
+                />
+              ))}
+            </div>
+            <label className="overlay-toggle">
+              <input
+                type="checkbox"
+                checked={fillEnabled}
+                onChange={(e) => setFillEnabled(e.target.checked)}
+              />
+              <span className="slider-label">Fill new area on the bottom layer</span>
+              <input
+                type="color"
+                value={fillColor}
+                disabled={!fillEnabled}
+                onChange={(e) => setFillColor(e.target.value)}
+                aria-label="Canvas extension color"
+              />
+            </label>
+            <button
+              className="layer-control-btn"
+              data-testid="testid-canvas-size-apply"
+              onClick={handleResizeCanvas}
+            >
+              Resize Canvas
+            </button>
+          </div>
+
+          <div className="panel-section">
+            <h2 className="panel-title">Trim</h2>
+            <p className="overlay-hint">
+              Crop the canvas to the non-transparent pixels of all layers.
+            </p>
+            <button
+              className="layer-control-btn"
+              data-testid="testid-trim"
+              onClick={() => runSizeAction(() => ImageSizeActions.trimToContent())}
+            >
+              Trim to Content
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,9 +11,55 @@ import {
 } from 'react';
 import type { Layer } from '@/lib/types';
 import Canvas from '@/lib/canvas';
+import LayerMaskActions from '@/lib/layerMaskActions';
+import LayerGroupActions from '@/lib/layerGroupActions';
+import { buildLayerTree, isGroupLayer, type LayerNode } from '@/lib/layerTree';
 import { useAppState } from '@/hooks/useAppState';
 import { logger } from '@/lib/utils/logger';
 
+type DropPosition = 'above' | 'below' | 'inside';
+
+// One row of the Layers panel; members of collapsed groups get no row
+interface LayerRow {
+  layer: Layer;
+  depth: number;
+  lockedByGroup: boolean;
+  memberCount: number;
+}
+
+/**
+ * Flatten the group hierarchy into panel rows
+ * Rows keep the bottom-first list order, with each group header shown before its members
+ */
+function getLayerRows(layers: Layer[]): LayerRow[] {
+  const rows: LayerRow[] = [];
+  const visit = (nodes: LayerNode[], depth: number, lockedByGroup: boolean) => {
+    for (const { layer, children } of nodes) {
+      rows.push({ layer, depth, lockedByGroup, memberCount: children.length });
+      if (isGroupLayer(layer) && !layer.collapsed) {
+        visit(children, depth + 1, lockedByGroup || layer.locked);
+      }
+    }
+  };
+  visit(buildLayerTree(layers), 0, false);
+  return rows;
+}
+
+/**
+ * Work out where a dragged layer lands relative to the row under the pointer
+ * The list is bottom-first, so the upper part of a row means below that layer in the stack;
+ * most of a group row drops into the group
+ */
+function getDropPosition(layer: Layer, e: React.DragEvent<HTMLElement>): DropPosition {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const offset = rect.height > 0 ? (e.clientY - rect.top) / rect.height : 0.5;
+  if (isGroupLayer(layer)) {
+    if (offset < 0.25) return 'below';
+    return offset > 0.75 && layer.collapsed ? 'above' : 'inside';
+  }
+  return offset < 0.5 ? 'below' : 'above';
+}
+
 export default function LayerPanel() {
   const state = useAppState();
   const layers = state.layers;
@@ -21,6 +67,10 @@ export default function LayerPanel() {
   const [editingLayerId, setEditingLayerId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
   const [visibleLayerIds, setVisibleLayerIds] = useState<Set<string>>(new Set());
+  const [maskEditLayerId, setMaskEditLayerId] = useState<string | null>(null);
+  const [selectedLayerIds, setSelectedLayerIds] = useState<string[]>([]);
+  const [draggedLayerId, setDraggedLayerId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition } | null>(null);
 
   // React 19: Use useOptimistic for optimistic UI updates on layer operations
   // This provides immediate feedback while operations complete
@@ -45,6 +95,7 @@ export default function LayerPanel() {
 
   // Use optimistic layers for rendering, fallback to actual layers
   const displayLayers = optimisticLayers.length > 0 ? optimisticLayers : layers;
+  const layerRows = useMemo(() => getLayerRows(displayLayers), [displayLayers]);
 
   // Memoize layers module access
   const layersModule = useMemo(() => Canvas.getLayers(), []);
@@ -56,6 +107,22 @@ export default function LayerPanel() {
   );
   const isLayerLimitReached = layers.length >= maxLayers;
 
+  // Track which layer's mask receives painting
+  useEffect(() => {
+    if (!layersModule) return;
+    const handleMaskEdit = (data: { layerId: string | null }) => setMaskEditLayerId(data.layerId);
+    layersModule.on('layers:maskEdit', handleMaskEdit);
+    return () => layersModule.off('layers:maskEdit', handleMaskEdit);
+  }, [layersModule]);
+
+  // Track the layers picked for multi-layer commands
+  useEffect(() => {
+    if (!layersModule) return;
+    const handleSelection = (data: { layerIds: string[] }) => setSelectedLayerIds(data.layerIds);
+    layersModule.on('layers:selection', handleSelection);
+    return () => layersModule.off('layers:selection', handleSelection);
+  }, [layersModule]);
+
   // IntersectionObserver for viewport-based thumbnail rendering
   useEffect(() => {
     if (layers.length === 0) return;
@@ -185,9 +252,19 @@ export default function LayerPanel() {
   );
 
   const handleSetActiveLayer = useCallback(
-    (id: string) => {
+    (id: string, additive: boolean = false) => {
       if (layersModule) {
-        layersModule.setActiveLayer(id);
+        // Ctrl/Cmd/Shift-click adds or removes layers from the selection
+        const selection = layersModule.getSelectedLayerIds();
+        if (!additive) {
+          layersModule.setActiveLayer(id);
+          layersModule.setSelectedLayers([]);
+        } else if (selection.includes(id) && id !== layersModule.getActiveLayerId()) {
+          layersModule.setSelectedLayers(selection.filter((layerId) => layerId !== id));
+        } else {
+          layersModule.setActiveLayer(id);
+          layersModule.setSelectedLayers([...selection, id]);
+        }
         // State automatically updated via StateManager
       }
     },
@@ -220,6 +297,115 @@ export default function LayerPanel() {
     [layersModule]
   );
 
+  const runMaskAction = useCallback((action: () => unknown) => {
+    Promise.resolve()
+      .then(action)
+      .catch((error) => {
+        logger.error('Layer mask operation failed:', error);
+        alert(error instanceof Error ? error.message : 'Layer mask operation failed.');
+      });
+  }, []);
+
+  const handleAddMask = useCallback(
+    (id: string) => runMaskAction(() => LayerMaskActions.addMask(id)),
+    [runMaskAction]
+  );
+
+  const handleToggleMask = useCallback(
+    (id: string) => runMaskAction(() => LayerMaskActions.toggleMask(id)),
+    [runMaskAction]
+  );
+
+  const handleEditMask = useCallback(
+    (id: string, editing: boolean) => runMaskAction(() => LayerMaskActions.editMask(id, editing)),
+    [runMaskAction]
+  );
+
+  const handleApplyMask = useCallback(
+    (id: string) => runMaskAction(() => LayerMaskActions.applyMask(id)),
+    [runMaskAction]
+  );
+
+  const handleDeleteMask = useCallback(
+    (id: string) => {
+      if (!confirm('Delete this layer mask? Hidden pixels will show again.')) return;
+      runMaskAction(() => LayerMaskActions.deleteMask(id));
+    },
+    [runMaskAction]
+  );
+
+  const runGroupAction = useCallback((action: () => unknown) => {
+    Promise.resolve()
+      .then(action)
+      .catch((error) => {
+        logger.error('Layer group operation failed:', error);
+        alert(error instanceof Error ? error.message : 'Layer group operation failed.');
+      });
+  }, []);
+
+  const handleAddGroup = useCallback(
+    () => runGroupAction(() => LayerGroupActions.createGroup()),
+    [runGroupAction]
+  );
+
+  const handleToggleCollapsed = useCallback(
+    (id: string) => runGroupAction(() => LayerGroupActions.toggleCollapsed(id)),
+    [runGroupAction]
+  );
+
+  const handleTogglePassThrough = useCallback(
+    (id: string) => runGroupAction(() => LayerGroupActions.togglePassThrough(id)),
+    [runGroupAction]
+  );
+
+  const handleMergeGroup = useCallback(
+    (id: string) => runGroupAction(() => LayerGroupActions.mergeGroup(id)),
+    [runGroupAction]
+  );
+
+  const handleFlattenGroup = useCallback(
+    (id: string) => runGroupAction(() => LayerGroupActions.flattenGroup(id)),
+    [runGroupAction]
+  );
+
+  const handleDragStart = useCallback((id: string, e: React.DragEvent<HTMLElement>) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', id);
+    setDraggedLayerId(id);
+  }, []);
+
+  const handleDragOver = useCallback(
+    (layer: Layer, e: React.DragEvent<HTMLElement>) => {
+      if (!draggedLayerId || draggedLayerId === layer.id) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      const position = getDropPosition(layer, e);
+      setDropTarget((current) =>
+        current?.id === layer.id && current.position === position
+          ? current
+          : { id: layer.id, position }
+      );
+    },
+    [draggedLayerId]
+  );
+
+  const handleDragEnd = useCallback(() => {
+    setDraggedLayerId(null);
+    setDropTarget(null);
+  }, []);
+
+  const handleDrop = useCallback(
+    (layer: Layer, e: React.DragEvent<HTMLElement>) => {
+      e.preventDefault();
+      const id = draggedLayerId;
+      const position = getDropPosition(layer, e);
+      handleDragEnd();
+      if (!id || id === layer.id) return;
+      runGroupAction(() => LayerGroupActions.moveLayer(id, layer.id, position));
+    },
+    [draggedLayerId, handleDragEnd, runGroupAction]
+  );
+
   const handleStartEditName = useCallback((layer: Layer) => {
     setEditingLayerId(layer.id);
     setEditingName(layer.name);
@@ -316,13 +502,38 @@ export default function LayerPanel() {
     return '';
   }, []);
 
+  // Mask thumbnails show the mask in grayscale (transparent mask pixels hide, like black)
+  const getMaskThumbnail = useCallback((layer: Layer): string => {
+    try {
+      const thumbCanvas = document.createElement('canvas');
+      thumbCanvas.width = 32;
+      thumbCanvas.height = 32;
+      const thumbCtx = thumbCanvas.getContext('2d');
+      if (thumbCtx && layer.mask) {
+        thumbCtx.fillStyle = '#000000';
+        thumbCtx.fillRect(0, 0, 32, 32);
+        thumbCtx.drawImage(layer.mask, 0, 0, layer.mask.width, layer.mask.height, 0, 0, 32, 32);
+        return thumbCanvas.toDataURL();
+      }
+    } catch (error) {
+      logger.error('Error generating mask thumbnail:', error);
+    }
+    return '';
+  }, []);
+
   // Memoized layer item component
   const LayerItem = memo(function LayerItem({
     layer,
+    depth,
+    lockedByGroup,
+    memberCount,
+    dropPosition,
     isActive,
+    isSelected,
     isEditing,
     editingName,
     isVisible,
+    isEditingMask,
     canDelete,
     onSelect,
     onToggleVisibility,
@@ -334,15 +545,35 @@ export default function LayerPanel() {
     onKeyDown,
     onNameChange,
     onBackgroundColorChange,
+    onAddMask,
+    onToggleMask,
+    onEditMask,
+    onApplyMask,
+    onDeleteMask,
+    onToggleCollapsed,
+    onTogglePassThrough,
+    onMergeGroup,
+    onFlattenGroup,
+    onDragStart,
+    onDragOver,
+    onDragEnd,
+    onDrop,
     getThumbnail,
+    getMaskThumbnail,
   }: {
     layer: Layer;
+    depth: number;
+    lockedByGroup: boolean;
+    memberCount: number;
+    dropPosition: DropPosition | null;
     isActive: boolean;
+    isSelected: boolean;
     isEditing: boolean;
     editingName: string;
     isVisible: boolean;
+    isEditingMask: boolean;
     canDelete: boolean;
-    onSelect: () => void;
+    onSelect: (additive: boolean) => void;
     onToggleVisibility: () => void;
     onToggleLock: () => void;
     onDuplicate: () => void;
@@ -352,30 +583,100 @@ export default function LayerPanel() {
     onKeyDown: (e: React.KeyboardEvent) => void;
     onNameChange: (value: string) => void;
     onBackgroundColorChange: (id: string, color: string) => void;
+    onAddMask: () => void;
+    onToggleMask: () => void;
+    onEditMask: (editing: boolean) => void;
+    onApplyMask: () => void;
+    onDeleteMask: () => void;
+    onToggleCollapsed: () => void;
+    onTogglePassThrough: () => void;
+    onMergeGroup: () => void;
+    onFlattenGroup: () => void;
+    onDragStart: (e: React.DragEvent<HTMLElement>) => void;
+    onDragOver: (e: React.DragEvent<HTMLElement>) => void;
+    onDragEnd: () => void;
+    onDrop: (e: React.DragEvent<HTMLElement>) => void;
     getThumbnail: (layer: Layer) => string;
+    getMaskThumbnail: (layer: Layer) => string;
   }) {
+    const isGroup = isGroupLayer(layer);
+    const isLocked = layer.locked || lockedByGroup;
     const thumbnail = useMemo(
-      () => (isVisible || isActive ? getThumbnail(layer) : ''),
-      [layer, isVisible, isActive, getThumbnail]
+      () => (!isGroup && (isVisible || isActive) ? getThumbnail(layer) : ''),
+      [layer, isGroup, isVisible, isActive, getThumbnail]
+    );
+    const maskThumbnail = useMemo(
+      () => (layer.mask && (isVisible || isActive) ? getMaskThumbnail(layer) : ''),
+      [layer, isVisible, isActive, getMaskThumbnail]
     );
+    const maskEnabled = layer.maskEnabled !== false;
 
     return (
       <div
         data-layer-id={layer.id}
         data-testid={`testid-layer-item-${layer.id}`}
-        className={`layer-item ${isActive ? 'active' : ''} ${layer.locked ? 'locked' : ''}`}
-        onClick={() => !layer.locked && onSelect()}
+        className={`layer-item ${isActive ? 'active' : ''} ${isSelected && !isActive ? 'selected' : ''} ${isLocked ? 'locked' : ''} ${isGroup ? 'layer-group' : ''} ${dropPosition ? `drop-${dropPosition}` : ''}`}
+        style={depth > 0 ? { marginLeft: `${depth * 16}px` } : undefined}
+        onClick={(e) => !isLocked && onSelect(e.ctrlKey || e.metaKey || e.shiftKey)}
+        draggable={!isEditing}
+        onDragStart={onDragStart}
+        onDragOver={onDragOver}
+        onDragEnd={onDragEnd}
+        onDrop={onDrop}
         role="listitem"
-        aria-label={`Layer: ${layer.name}`}
+        aria-label={`${isGroup ? 'Group' : 'Layer'}: ${layer.name}`}
         aria-selected={isActive}
       >
-        <div
-          className="layer-thumb"
-          style={{
-            backgroundImage: thumbnail ? `url(${thumbnail})` : 'none',
-          }}
-          aria-hidden="true"
-        ></div>
+        {isGroup ? (
+          <button
+            className="layer-thumb layer-group-toggle"
+            data-testid={`testid-layer-group-collapse-${layer.id}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleCollapsed();
+            }}
+            title={layer.collapsed ? 'Expand Group' : 'Collapse Group'}
+            aria-label={layer.collapsed ? 'Expand group' : 'Collapse group'}
+            aria-expanded={!layer.collapsed}
+          >
+            <svg
+              width="16"
+              height="16"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              aria-hidden="true"
+            >
+              <path d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2z" />
+              <path d={layer.collapsed ? 'M11 10l3 3-3 3' : 'M9 12l3 3 3-3'} />
+            </svg>
+          </button>
+        ) : (
+          <div
+            className="layer-thumb"
+            style={{
+              backgroundImage: thumbnail ? `url(${thumbnail})` : 'none',
+            }}
+            aria-hidden="true"
+          ></div>
+        )}
+        {layer.mask && (
+          <button
+            className={`layer-thumb layer-mask-thumb ${isEditingMask ? 'editing' : ''} ${maskEnabled ? '' : 'disabled'}`}
+            data-testid={`testid-layer-mask-thumb-${layer.id}`}
+            style={{
+              backgroundImage: maskThumbnail ? `url(${maskThumbnail})` : 'none',
+            }}
+            onClick={(e) => {
+              e.stopPropagation();
+              onEditMask(!isEditingMask);
+            }}
+            title={isEditingMask ? 'Edit Layer Pixels' : 'Edit Mask'}
+            aria-label={isEditingMask ? 'Edit layer pixels' : 'Edit layer mask'}
+            aria-pressed={isEditingMask}
+          />
+        )}
         <div className="layer-info">
           {isEditing ? (
             <input
@@ -392,7 +693,81 @@ export default function LayerPanel() {
               {layer.name}
             </div>
           )}
-          <div className="layer-type">{layer.visible ? 'Visible' : 'Hidden'}</div>
+          <div className="layer-type">
+            {isGroup && `Group (${memberCount}) · `}
+            {layer.visible ? 'Visible' : 'Hidden'}
+            {isGroup && (layer.passThrough ? ' · Pass through' : ' · Isolated')}
+            {lockedByGroup && !layer.locked && ' · Locked by group'}
+            {isEditingMask && ' · Editing mask'}
+            {layer.mask && !maskEnabled && ' · Mask off'}
+          </div>
+          {isGroup && (
+            <div className="layer-mask-controls" onClick={(e) => e.stopPropagation()}>
+              <button
+                className="layer-mask-btn"
+                data-testid={`testid-layer-group-passthrough-${layer.id}`}
+                onClick={onTogglePassThrough}
+                aria-pressed={!!layer.passThrough}
+                title="Blend the group's layers straight into the layers below"
+              >
+                Pass through
+              </button>
+              <button
+                className="layer-mask-btn"
+                data-testid={`testid-layer-group-merge-${layer.id}`}
+                onClick={onMergeGroup}
+                disabled={isLocked || memberCount === 0}
+                title="Merge the group's layers into one layer inside the group"
+              >
+                Merge
+              </button>
+              <button
+                className="layer-mask-btn"
+                data-testid={`testid-layer-group-flatten-${layer.id}`}
+                onClick={onFlattenGroup}
+                disabled={isLocked || memberCount === 0}
+                title="Replace the group with a single layer"
+              >
+                Flatten
+              </button>
+            </div>
+          )}
+          {layer.mask && (
+            <div className="layer-mask-controls" onClick={(e) => e.stopPropagation()}>
+              <button
+                className="layer-mask-btn"
+                data-testid={`testid-layer-mask-edit-${layer.id}`}
+                onClick={() => onEditMask(!isEditingMask)}
+                aria-pressed={isEditingMask}
+                title="Paint white to reveal and black to hide"
+              >
+                {isEditingMask ? 'Edit pixels' : 'Edit mask'}
+              </button>
+              <button
+                className="layer-mask-btn"
+                data-testid={`testid-layer-mask-toggle-${layer.id}`}
+                onClick={onToggleMask}
+              >
+                {maskEnabled ? 'Disable' : 'Enable'}
+              </button>
+              <button
+                className="layer-mask-btn"
+                data-testid={`testid-layer-mask-apply-${layer.id}`}
+                onClick={onApplyMask}
+                disabled={isLocked}
+                title="Bake the mask into the layer pixels"
+              >
+                Apply
+              </button>
+              <button
+                className="layer-mask-btn"
+                data-testid={`testid-layer-mask-delete-${layer.id}`}
+                onClick={onDeleteMask}
+              >
+                Delete
+              </button>
+            </div>
+          )}
         </div>
         <div className="layer-controls">
           <button
@@ -475,8 +850,8 @@ export default function LayerPanel() {
               e.stopPropagation();
               onDuplicate();
             }}
-            title="Duplicate Layer"
-            aria-label="Duplicate layer"
+            title={isGroup ? 'Duplicate Group' : 'Duplicate Layer'}
+            aria-label={isGroup ? 'Duplicate group' : 'Duplicate layer'}
           >
             <svg
               width="14"
@@ -490,24 +865,50 @@ export default function LayerPanel() {
               <path d="M5 15H4a2 2 0 01-2-2V4a2 2 0 012-2h9a2 2 0 012 2v1" />
             </svg>
           </button>
-          <input
-            type="color"
-            className="layer-control-btn layer-bg-color"
-            value={layer.backgroundColor || '#FFFFFF'}
-            onChange={(e) => {
-              e.stopPropagation();
-              onBackgroundColorChange(layer.id, e.target.value);
-            }}
-            onClick={(e) => e.stopPropagation()}
-            title="Background Color"
-            aria-label="Change layer background color"
-            style={{
-              width: '28px',
-              height: '28px',
-              padding: '2px',
-              cursor: 'pointer',
-            }}
-          />
+          {!isGroup && !layer.mask && (
+            <button
+              className="layer-control-btn"
+              data-testid={`testid-layer-add-mask-${layer.id}`}
+              onClick={(e) => {
+                e.stopPropagation();
+                onAddMask();
+              }}
+              title="Add Layer Mask"
+              aria-label="Add layer mask"
+            >
+              <svg
+                width="14"
+                height="14"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <rect x="3" y="3" width="18" height="18" rx="2" ry="2" />
+                <circle cx="12" cy="12" r="5" />
+              </svg>
+            </button>
+          )}
+          {!isGroup && (
+            <input
+              type="color"
+              className="layer-control-btn layer-bg-color"
+              value={layer.backgroundColor || '#FFFFFF'}
+              onChange={(e) => {
+                e.stopPropagation();
+                onBackgroundColorChange(layer.id, e.target.value);
+              }}
+              onClick={(e) => e.stopPropagation()}
+              title="Background Color"
+              aria-label="Change layer background color"
+              style={{
+                width: '28px',
+                height: '28px',
+                padding: '2px',
+                cursor: 'pointer',
+              }}
+            />
+          )}
           {canDelete && (
             <button
               className="layer-control-btn"
@@ -602,6 +1003,26 @@ export default function LayerPanel() {
             <path d="M12 5v14M5 12h14" />
           </svg>
         </button>
+        <button
+          className="layer-add-btn-small"
+          data-testid="testid-layer-add-group"
+          onClick={handleAddGroup}
+          disabled={isLayerLimitReached}
+          title="New Group"
+          aria-label="Add new layer group"
+        >
+          <svg
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            aria-hidden="true"
+          >
+            <path d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2z" />
+          </svg>
+        </button>
       </h2>
       {isLayerLimitReached && (
         <div className="layer-limit-message" role="alert" aria-live="polite">
@@ -610,16 +1031,22 @@ export default function LayerPanel() {
         </div>
       )}
       <div className="layer-list" role="list" aria-label="Layers">
-        {displayLayers.map((layer) => (
+        {layerRows.map(({ layer, depth, lockedByGroup, memberCount }) => (
           <LayerItem
             key={layer.id}
             layer={layer}
+            depth={depth}
+            lockedByGroup={lockedByGroup}
+            memberCount={memberCount}
+            dropPosition={dropTarget?.id === layer.id ? dropTarget.position : null}
             isActive={activeLayerId === layer.id}
+            isSelected={selectedLayerIds.includes(layer.id)}
             isEditing={editingLayerId === layer.id}
             editingName={editingName}
             isVisible={visibleLayerIds.has(layer.id) || activeLayerId === layer.id}
+            isEditingMask={maskEditLayerId === layer.id && !!layer.mask}
             canDelete={layers.length > 1}
-            onSelect={() => handleSetActiveLayer(layer.id)}
+            onSelect={(additive) => handleSetActiveLayer(layer.id, additive)}
             onToggleVisibility={() => handleToggleVisibility(layer.id)}
             onToggleLock={() => handleToggleLock(layer.id)}
             onDuplicate={() => handleDuplicateLayer(layer.id)}
@@ -629,7 +1056,21 @@ export default function LayerPanel() {
             onKeyDown={(e) => handleKeyDown(e, layer.id)}
             onNameChange={setEditingName}
             onBackgroundColorChange={handleBackgroundColorChange}
+            onAddMask={() => handleAddMask(layer.id)}
+            onToggleMask={() => handleToggleMask(layer.id)}
+            onEditMask={(editing) => handleEditMask(layer.id, editing)}
+            onApplyMask={() => handleApplyMask(layer.id)}
+            onDeleteMask={() => handleDeleteMask(layer.id)}
+            onToggleCollapsed={() => handleToggleCollapsed(layer.id)}
+            onTogglePassThrough={() => handleTogglePassThrough(layer.id)}
+            onMergeGroup={() => handleMergeGroup(layer.id)}
+            onFlattenGroup={() => handleFlattenGroup(layer.id)}
+            onDragStart={(e) => handleDragStart(layer.id, e)}
+            onDragOver={(e) => handleDragOver(layer, e)}
+            onDragEnd={handleDragEnd}
+            onDrop={(e) => handleDrop(layer, e)}
             getThumbnail={getLayerThumbnail}
+            getMaskThumbnail={getMaskThumbnail}
           />
         ))}
       </div>
@@ -1,10 +1,52 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import LayerPanel from '@/components/LayerPanel';
+import TimelinePanel from '@/components/TimelinePanel';
+import PathsPanel from '@/components/PathsPanel';
+import HistoryPanel from '@/components/HistoryPanel';
+import ProjectGallery from '@/components/ProjectGallery';
+import Layers from '@/lib/layers';
+import LayerMergeActions from '@/lib/layerMergeActions';
+import { useAppState } from '@/hooks/useAppState';
+import { logger } from '@/lib/utils/logger';
 
 export default function LayersControlsPanel() {
   const [isOpen, setIsOpen] = useState(false);
+  const [selectedCount, setSelectedCount] = useState(0);
+  const state = useAppState();
+  const hasLayersBelow = state.layers.length > 1;
+
+  useEffect(() => {
+    const handleSelection = (data: { layerIds: string[] }) =>
+      setSelectedCount(data.layerIds.length);
+    Layers.on('layers:selection', handleSelection);
+    return () => Layers.off('layers:selection', handleSelection);
+  }, []);
+
+  const runMergeAction = useCallback((action: () => unknown) => {
+    Promise.resolve()
+      .then(action)
+      .catch((error) => {
+        logger.error('Layer merge failed:', error);
+        alert(error instanceof Error ? error.message : 'Layer merge failed.');
+      });
+  }, []);
+
+  const handleMergeDown = () => {
+    const activeLayerId = state.activeLayerId;
+    if (activeLayerId) {
+      runMergeAction(() => LayerMergeActions.mergeDown(activeLayerId));
+    }
+  };
+
+  const handleFlatten = () => {
+    const hidden = state.layers.filter((layer) => !layer.visible).length;
+    if (hidden > 0 && !confirm(`Flattening discards ${hidden} hidden layer(s). Continue?`)) {
+      return;
+    }
+    runMergeAction(() => LayerMergeActions.flattenImage());
+  };
 
   return (
     <div className="layers-controls-panel">
@@ -20,6 +62,49 @@ export default function LayersControlsPanel() {
       {isOpen && (
         <div className="layers-controls-content">
           <LayerPanel />
+          <div className="panel-section layers-merge-controls">
+            <button
+              className="layer-control-btn"
+              data-testid="testid-layers-merge-down"
+              onClick={handleMergeDown}
+              disabled={!hasLayersBelow || !state.activeLayerId}
+              title="Merge the active layer into the layer below"
+            >
+              Merge Down
+            </button>
+            <button
+              className="layer-control-btn"
+              data-testid="testid-layers-merge-selected"
+              onClick={() =>
+                runMergeAction(() => LayerMergeActions.mergeSelected(Layers.getSelectedLayerIds()))
+              }
+              disabled={selectedCount < 2}
+              title="Merge the layers picked with Ctrl/Shift-click"
+            >
+              Merge Selected
+            </button>
+            <button
+              className="layer-control-btn"
+              data-testid="testid-layers-merge-visible"
+              onClick={() => runMergeAction(() => LayerMergeActions.mergeVisible())}
+              disabled={!hasLayersBelow}
+              title="Merge every visible layer into one"
+            >
+              Merge Visible
+            </button>
+            <button
+              className="layer-control-btn"
+              data-testid="testid-layers-flatten"
+              onClick={handleFlatten}
+              title="Flatten the image into a single layer"
+            >
+              Flatten Image
+            </button>
+          </div>
+          <TimelinePanel />
+          <PathsPanel />
+          <HistoryPanel />
+          <ProjectGallery />
         </div>
       )}
     </div>
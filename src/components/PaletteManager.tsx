@@ -0,0 +1,279 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { NamedPalette } from '@/lib/types';
+import Palettes, { generatePaletteFromImage } from '@/lib/palettes';
+import IndexedColor from '@/lib/indexedColor';
+import {
+  importPaletteFile,
+  exportPaletteFile,
+  PALETTE_FILE_EXTENSIONS,
+  type PaletteFileFormat,
+} from '@/lib/formats/palette';
+import { captureComposite } from '@/lib/formats/document';
+import { hexToRgbaArray } from '@/lib/colorUtils';
+import { logger } from '@/lib/utils/logger';
+
+interface PaletteManagerProps {
+  currentColor: string;
+  onSelectColor: (color: string) => void;
+}
+
+export default function PaletteManager({ currentColor, onSelectColor }: PaletteManagerProps) {
+  const [palettes, setPalettes] = useState<NamedPalette[]>(() => Palettes.getAll());
+  const [activeId, setActiveId] = useState(() => Palettes.getActiveId());
+  const [selectedSwatch, setSelectedSwatch] = useState<number | null>(null);
+  const [exportFormat, setExportFormat] = useState<PaletteFileFormat>('gpl');
+  const [generateCount, setGenerateCount] = useState(16);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleChange = (data: { palettes: NamedPalette[]; activeId: string }) => {
+      setPalettes(data.palettes);
+      setActiveId(data.activeId);
+    };
+    Palettes.on('palettes:change', handleChange);
+    Palettes.load().catch((error) => logger.error('Failed to load palettes:', error));
+    return () => Palettes.off('palettes:change', handleChange);
+  }, []);
+
+  const active = palettes.find((p) => p.id === activeId) ?? palettes[0];
+
+  const runAction = useCallback((action: () => Promise<unknown>) => {
+    action().catch((error) => {
+      logger.error('Palette operation failed:', error);
+      alert(error instanceof Error ? error.message : 'Palette operation failed.');
+    });
+  }, []);
+
+  const handleSelectPalette = (id: string) => {
+    setSelectedSwatch(null);
+    runAction(() => Palettes.setActive(id));
+  };
+
+  const handleSwatchClick = (index: number, color: string) => {
+    setSelectedSwatch(index);
+    onSelectColor(color);
+  };
+
+  const handleNewPalette = () => {
+    const name = prompt('Palette name:', 'New Palette');
+    if (name === null) return;
+    runAction(() => Palettes.create({ name, colors: [currentColor] }));
+  };
+
+  const handleRenamePalette = () => {
+    if (!active) return;
+    const name = prompt('Rename palette:', active.name);
+    if (name === null) return;
+    runAction(() => Palettes.update(active.id, { name }));
+  };
+
+  const handleDeletePalette = () => {
+    if (!active || !confirm(`Delete palette "${active.name}"?`)) return;
+    runAction(() => Palettes.remove(active.id));
+  };
+
+  const handleAddColor = () => {
+    if (!active || active.colors.includes(currentColor.toUpperCase())) return;
+    runAction(() => Palettes.update(active.id, { colors: [...active.colors, currentColor] }));
+  };
+
+  const handleRemoveColor = () => {
+    if (!active || selectedSwatch === null) return;
+    const colors = active.colors.filter((_, i) => i !== selectedSwatch);
+    setSelectedSwatch(null);
+    runAction(() => Palettes.update(active.id, { colors }));
+  };
+
+  const handleImport = (file: File | undefined) => {
+    if (!file) return;
+    runAction(async () => {
+      await Palettes.create(await importPaletteFile(file));
+    });
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleExport = () => {
+    if (!active) return;
+    runAction(async () => {
+      const blob = await exportPaletteFile(active, exportFormat);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.download = `${active.name}.${exportFormat}`;
+      link.href = url;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    });
+  };
+
+  const handleGenerate = () => {
+    runAction(async () => {
+      const colors = await generatePaletteFromImage(await captureComposite(), generateCount);
+      if (colors.length === 0) {
+        throw new Error('The image has no opaque pixels to build a palette from');
+      }
+      await Palettes.create({ name: 'From Image', colors });
+    });
+  };
+
+  // Lock the document to this palette (indexed-color mode)
+  const handleUseAsDocumentPalette = () => {
+    if (!active) return;
+    runAction(() =>
+      IndexedColor.enable(
+        active.colors.map((hex) => {
+          const [r, g, b] = hexToRgbaArray(hex, 1);
+          return { r, g, b, a: 255 };
+        })
+      )
+    );
+  };
+
+  return (
+    <div className="palette-manager" data-testid="testid-palette-manager">
+      <div className="palette-manager-row">
+        <select
+          className="palette-select"
+          data-testid="testid-palette-select"
+          value={active?.id ?? ''}
+          onChange={(e) => handleSelectPalette(e.target.value)}
+          aria-label="Palette"
+        >
+          {palettes.map((palette) => (
+            <option key={palette.id} value={palette.id}>
+              {palette.name} ({palette.colors.length})
+            </option>
+          ))}
+        </select>
+        <button
+          className="layer-control-btn"
+          onClick={handleNewPalette}
+          title="New Palette"
+          aria-label="New palette"
+        >
+          +
+        </button>
+        <button
+          className="layer-control-btn"
+          onClick={handleRenamePalette}
+          title="Rename Palette"
+          aria-label="Rename palette"
+        >
+          ✎
+        </button>
+        <button
+          className="layer-control-btn"
+          onClick={handleDeletePalette}
+          disabled={palettes.length <= 1}
+          title="Delete Palette"
+          aria-label="Delete palette"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="swatches" role="listbox" aria-label={`${active?.name ?? 'Palette'} swatches`}>
+        {active?.colors.map((color, index) => (
+          <button
+            key={`${color}-${index}`}
+            className={`swatch ${index === selectedSwatch ? 'selected' : ''}`}
+            style={{ background: color }}
+            onClick={() => handleSwatchClick(index, color)}
+            role="option"
+            aria-selected={index === selectedSwatch}
+            aria-label={`Select color ${color}`}
+          />
+        ))}
+      </div>
+
+      <div className="palette-manager-row">
+        <button
+          className="layer-control-btn"
+          data-testid="testid-palette-add-color"
+          onClick={handleAddColor}
+          title="Add Current Color"
+        >
+          + Color
+        </button>
+        <button
+          className="layer-control-btn"
+          data-testid="testid-palette-remove-color"
+          onClick={handleRemoveColor}
+          disabled={selectedSwatch === null}
+          title="Remove Selected Color"
+        >
+          − Color
+        </button>
+        <button
+          className="layer-control-btn"
+          onClick={handleUseAsDocumentPalette}
+          title="Lock the document to this palette (indexed color)"
+        >
+          Use for document
+        </button>
+      </div>
+
+      <div className="palette-manager-row">
+        <button
+          className="layer-control-btn"
+          data-testid="testid-palette-import"
+          onClick={() => fileInputRef.current?.click()}
+          title="Import GPL, ASE, PAL, HEX or PNG palette"
+        >
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={PALETTE_FILE_EXTENSIONS.join(',')}
+          style={{ display: 'none' }}
+          onChange={(e) => handleImport(e.target.files?.[0])}
+          aria-label="Import palette file"
+        />
+        <select
+          className="palette-select"
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as PaletteFileFormat)}
+          aria-label="Palette export format"
+        >
+          <option value="gpl">GIMP (.gpl)</option>
+          <option value="ase">Adobe (.ase)</option>
+          <option value="pal">JASC (.pal)</option>
+          <option value="hex">Hex list (.hex)</option>
+          <option value="png">PNG strip (.png)</option>
+        </select>
+        <button
+          className="layer-control-btn"
+          data-testid="testid-palette-export"
+          onClick={handleExport}
+          title="Export Palette"
+        >
+          Export
+        </button>
+      </div>
+
+      <div className="palette-manager-row">
+        <button
+          className="layer-control-btn"
+          data-testid="testid-palette-generate"
+          onClick={handleGenerate}
+          title="Generate a palette from the image colors"
+        >
+          From image
+        </button>
+        <input
+          type="number"
+          className="layer-name-input"
+          min={2}
+          max={256}
+          value={generateCount}
+          onChange={(e) => setGenerateCount(Number(e.target.value) || 16)}
+          aria-label="Number of colors to generate"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { VectorPath } from '@/lib/types';
+import PathStore from '@/lib/pathStore';
+import PathActions from '@/lib/pathActions';
+import Canvas from '@/lib/canvas';
+import { importSvgPaths, pathsToSvg, SVG_MIME_TYPE } from '@/lib/formats/svg';
+import { logger } from '@/lib/utils/logger';
+
+export default function PathsPanel() {
+  const [paths, setPaths] = useState<VectorPath[]>(() => PathStore.getAll());
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleChange = (data: { paths: VectorPath[] }) => setPaths(data.paths);
+    PathStore.on('paths:change', handleChange);
+    return () => PathStore.off('paths:change', handleChange);
+  }, []);
+
+  const selected = paths.find((p) => p.id === selectedId) ?? null;
+
+  const runAction = useCallback((action: () => unknown) => {
+    Promise.resolve()
+      .then(action)
+      .catch((error) => {
+        logger.error('Path operation failed:', error);
+        alert(error instanceof Error ? error.message : 'Path operation failed.');
+      });
+  }, []);
+
+  const handleRename = () => {
+    if (!selected) return;
+    const name = prompt('Rename path:', selected.name);
+    if (name === null || !name.trim()) return;
+    PathStore.upsert({ ...selected, name: name.trim() });
+  };
+
+  const handleDelete = () => {
+    if (!selected || !confirm(`Delete path "${selected.name}"?`)) return;
+    PathStore.remove(selected.id);
+    setSelectedId(null);
+  };
+
+  const handleSelectionToPath = () => {
+    runAction(() => {
+      const created = PathActions.selectionToPath();
+      setSelectedId(created[0] ?? null);
+    });
+  };
+
+  const handleImport = (file: File | undefined) => {
+    if (!file) return;
+    runAction(async () => {
+      const imported = importSvgPaths(await file.text(), `path_${Date.now()}`);
+      imported.forEach((path) => PathStore.upsert(path));
+      setSelectedId(imported[0]!.id);
+    });
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleExport = () => {
+    const svg = pathsToSvg(paths, Canvas.getWidth(), Canvas.getHeight());
+    const url = URL.createObjectURL(new Blob([svg], { type: SVG_MIME_TYPE }));
+    const link = document.createElement('a');
+    link.download = 'paths.svg';
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <div className="panel-section" data-testid="testid-paths-panel">
+      <h2 className="panel-title">Paths</h2>
+
+      <div className="paths-list" role="listbox" aria-label="Paths">
+        {paths.length === 0 && <p className="paths-empty">Draw with the Paths tool to add one</p>}
+        {paths.map((path) => (
+          <button
+            key={path.id}
+            className={`paths-item ${path.id === selectedId ? 'active' : ''}`}
+            onClick={() => setSelectedId(path.id)}
+            onDoubleClick={handleRename}
+            role="option"
+            aria-selected={path.id === selectedId}
+          >
+            <span className="paths-item-name">{path.name}</span>
+            <span className="paths-item-info">
+              {path.anchors.length} pts{path.closed ? ', closed' : ''}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="paths-controls">
+        <button
+          className="layer-control-btn"
+          data-testid="testid-path-stroke"
+          onClick={() => selected && runAction(() => PathActions.strokePath(selected.id))}
+          disabled={!selected}
+          title="Stroke Path with the current brush"
+        >
+          Stroke
+        </button>
+        <button
+          className="layer-control-btn"
+          data-testid="testid-path-fill"
+          onClick={() => selected && runAction(() => PathActions.fillPath(selected.id))}
+          disabled={!selected}
+          title="Fill Path with the foreground color"
+        >
+          Fill
+        </button>
+        <button
+          className="layer-control-btn"
+          data-testid="testid-path-to-selection"
+          onClick={() => selected && runAction(() => PathActions.pathToSelection(selected.id))}
+          disabled={!selected}
+          title="Load Path as Selection"
+        >
+          To selection
+        </button>
+        <button
+          className="layer-control-btn"
+          data-testid="testid-selection-to-path"
+          onClick={handleSelectionToPath}
+          title="Make Path from Selection"
+        >
+          From selection
+        </button>
+      </div>
+
+      <div className="paths-controls">
+        <button
+          className="layer-control-btn"
+          onClick={handleRename}
+          disabled={!selected}
+          title="Rename Path"
+          aria-label="Rename path"
+        >
+          ✎
+        </button>
+        <button
+          className="layer-control-btn"
+          onClick={handleDelete}
+          disabled={!selected}
+          title="Delete Path"
+          aria-label="Delete path"
+        >
+          ×
+        </button>
+        <button
+          className="layer-control-btn"
+          data-testid="testid-paths-import"
+          onClick={() => fileInputRef.current?.click()}
+          title="Import paths from an SVG file"
+        >
+          Import SVG
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".svg,image/svg+xml"
+          style={{ display: 'none' }}
+          onChange={(e) => handleImport(e.target.files?.[0])}
+          aria-label="Import SVG file"
+        />
+        <button
+          className="layer-control-btn"
+          data-testid="testid-paths-export"
+          onClick={handleExport}
+          disabled={paths.length === 0}
+          title="Export paths as SVG"
+        >
+          Export SVG
+        </button>
+      </div>
+    </div>
+  );
+}
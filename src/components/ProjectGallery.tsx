@@ -0,0 +1,212 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import projectManager, {
+  PROJECT_TEMPLATES,
+  type ProjectSummary,
+  type StorageUsage,
+} from '@/lib/storage/projectManager';
+import { logger } from '@/lib/utils/logger';
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString([], {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+export default function ProjectGallery() {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [currentId, setCurrentId] = useState(() => projectManager.getCurrentProjectId());
+  const [templateId, setTemplateId] = useState(PROJECT_TEMPLATES[0]!.id);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+  const refresh = useCallback(async () => {
+    setProjects(await projectManager.list());
+    setCurrentId(projectManager.getCurrentProjectId());
+    setUsage(await projectManager.getStorageUsage());
+  }, []);
+
+  useEffect(() => {
+    refresh().catch((error) => logger.error('Failed to list projects:', error));
+  }, [refresh]);
+
+  const runAction = useCallback(
+    (action: () => Promise<unknown>) => {
+      action()
+        .then(refresh)
+        .catch((error) => {
+          logger.error('Project operation failed:', error);
+          alert(error instanceof Error ? error.message : 'Project operation failed.');
+        });
+    },
+    [refresh]
+  );
+
+  const handleSave = () => {
+    const name = prompt('Project name:', projectManager.getCurrentName());
+    if (name === null) return;
+    runAction(() => projectManager.save(name));
+  };
+
+  const handleOpen = (project: ProjectSummary) => {
+    if (project.id === currentId) return;
+    if (!confirm(`Open "${project.name}"? Unsaved changes to the current document are lost.`)) {
+      return;
+    }
+    runAction(() => projectManager.open(project.id));
+  };
+
+  const handleRename = (project: ProjectSummary) => {
+    const name = prompt('Project name:', project.name);
+    if (name === null || name.trim() === project.name) return;
+    runAction(() => projectManager.rename(project.id, name));
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (!confirm(`Delete project "${project.name}" and its history? This cannot be undone.`)) {
+      return;
+    }
+    runAction(() => projectManager.delete(project.id));
+  };
+
+  const handleNewFromTemplate = () => {
+    if (!confirm('Start a new project? Unsaved changes to the current document are lost.')) {
+      return;
+    }
+    runAction(() => projectManager.createFromTemplate(templateId));
+  };
+
+  const handleCleanUp = () => {
+    runAction(async () => {
+      const deleted = await projectManager.cleanUpHistory();
+      alert(
+        deleted > 0
+          ? `Removed ${deleted} history record(s) of deleted projects.`
+          : 'No orphaned history records found.'
+      );
+    });
+  };
+
+  return (
+    <div className="panel-section" data-testid="testid-project-gallery">
+      <h2 className="panel-title">Projects</h2>
+
+      <div className="project-gallery" role="list" aria-label="Stored projects">
+        {projects.length === 0 && <p className="history-empty">No projects saved yet</p>}
+        {projects.map((project) => (
+          <div
+            key={project.id}
+            className={`project-card ${project.id === currentId ? 'active' : ''}`}
+            role="listitem"
+          >
+            <button
+              className="project-card-open"
+              onClick={() => handleOpen(project)}
+              title={project.id === currentId ? 'Open now' : `Open "${project.name}"`}
+            >
+              {project.thumbnail ? (
+                <img className="project-card-thumbnail" src={project.thumbnail} alt="" />
+              ) : (
+                <span className="project-card-thumbnail" aria-hidden="true" />
+              )}
+              <span className="history-item-name">{project.name}</span>
+              <span className="history-item-info">
+                {project.width !== null && project.height !== null
+                  ? `${project.width}×${project.height} · `
+                  : ''}
+                {formatDate(project.updatedAt)}
+              </span>
+            </button>
+            <div className="project-card-actions">
+              <button
+                className="layer-control-btn"
+                onClick={() => handleRename(project)}
+                aria-label={`Rename project ${project.name}`}
+              >
+                Rename
+              </button>
+              <button
+                className="layer-control-btn"
+                onClick={() => runAction(() => projectManager.duplicate(project.id))}
+                aria-label={`Duplicate project ${project.name}`}
+              >
+                Duplicate
+              </button>
+              <button
+                className="layer-control-btn"
+                onClick={() => handleDelete(project)}
+                disabled={project.id === currentId}
+                aria-label={`Delete project ${project.name}`}
+                title={project.id === currentId ? 'The open project cannot be deleted' : undefined}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        className="layer-control-btn"
+        data-testid="testid-project-save"
+        onClick={handleSave}
+        title="Save the document to the gallery"
+      >
+        Save to Gallery
+      </button>
+
+      <div className="slider-group">
+        <div className="slider-header">
+          <span className="slider-label">New from Template</span>
+        </div>
+        <select
+          id="projectTemplate"
+          data-testid="testid-project-template"
+          value={templateId}
+          onChange={(e) => setTemplateId(e.target.value)}
+        >
+          {PROJECT_TEMPLATES.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+            </option>
+          ))}
+        </select>
+        <button
+          className="layer-control-btn"
+          data-testid="testid-project-new"
+          onClick={handleNewFromTemplate}
+        >
+          New Project
+        </button>
+      </div>
+
+      <div className="slider-group">
+        <div className="slider-header">
+          <span className="slider-label">Storage</span>
+          <span className="slider-value" data-testid="testid-project-storage">
+            {usage ? `${formatBytes(usage.usage)} / ${formatBytes(usage.quota)}` : 'Unknown'}
+          </span>
+        </div>
+        <button
+          className="layer-control-btn"
+          data-testid="testid-project-cleanup"
+          onClick={handleCleanUp}
+          title="Delete undo steps and snapshots left behind by deleted projects"
+        >
+          Clean Up History
+        </button>
+      </div>
+    </div>
+  );
+}
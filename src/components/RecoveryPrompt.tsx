@@ -0,0 +1,81 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import autoSave, { type Checkpoint } from '@/lib/storage/autoSave';
+import { logger } from '@/lib/utils/logger';
+
+export default function RecoveryPrompt() {
+  const [checkpoint, setCheckpoint] = useState<Checkpoint | null>(null);
+  const [isRecovering, setIsRecovering] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    autoSave
+      .getRecoveryCheckpoint()
+      .then((latest) => {
+        if (!cancelled) setCheckpoint(latest);
+      })
+      .catch((error) => logger.error('Failed to look for a version to recover:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!checkpoint) {
+    return null;
+  }
+
+  const handleRecover = () => {
+    setIsRecovering(true);
+    autoSave
+      .recover()
+      .then(() => setCheckpoint(null))
+      .catch((error) => {
+        logger.error('Failed to recover document:', error);
+        alert(error instanceof Error ? error.message : 'Failed to recover document.');
+      })
+      .finally(() => setIsRecovering(false));
+  };
+
+  const handleDismiss = () => {
+    autoSave.dismissRecovery();
+    setCheckpoint(null);
+  };
+
+  return (
+    <div className="dialog-backdrop">
+      <div
+        className="dialog"
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="recoveryPromptTitle"
+        aria-describedby="recoveryPromptText"
+        data-testid="testid-recovery-prompt"
+      >
+        <h2 className="panel-title" id="recoveryPromptTitle">
+          Recover Unsaved Work?
+        </h2>
+        <p className="dialog-text" id="recoveryPromptText">
+          Pixel Studio did not shut down properly last time. &quot;{checkpoint.name}&quot; was
+          autosaved at {new Date(checkpoint.timestamp).toLocaleString()}.
+        </p>
+        {checkpoint.thumbnail && (
+          <img className="dialog-thumbnail" src={checkpoint.thumbnail} alt="" />
+        )}
+        <div className="dialog-actions">
+          <button className="layer-control-btn" onClick={handleDismiss} disabled={isRecovering}>
+            Discard
+          </button>
+          <button
+            className="layer-control-btn"
+            onClick={handleRecover}
+            disabled={isRecovering}
+            data-testid="testid-recovery-restore"
+          >
+            {isRecovering ? 'Restoring...' : 'Restore'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,7 @@ import PixelStudio from '@/lib/app';
 
 export default function SelectionToolbar() {
   const state = useAppState();
-  const hasSelection = !!(state.colorRangeSelection || state.selection);
+  const hasSelection = !!(state.selectionMask || state.selection);
 
   const handleDelete = () => {
     SelectionActions.deleteSelection();
@@ -32,12 +32,18 @@ function StatusBar() {
   const [canvasWidth, setCanvasWidth] = useState(DEFAULT_CANVAS_WIDTH);
   const [canvasHeight, setCanvasHeight] = useState(DEFAULT_CANVAS_HEIGHT);
 
-  // Update canvas dimensions on client side only
+  // Update canvas dimensions on client side only, and again whenever the document is resized
   useEffect(() => {
     if (typeof window !== 'undefined' && Canvas.isInitialized()) {
       setCanvasWidth(Canvas.getWidth());
       setCanvasHeight(Canvas.getHeight());
     }
+    const handleResize = ({ width, height }: { width: number; height: number }) => {
+      setCanvasWidth(width);
+      setCanvasHeight(height);
+    };
+    Canvas.on('canvas:resize', handleResize);
+    return () => Canvas.off('canvas:resize', handleResize);
   }, []);
 
   // Memoize tool display name
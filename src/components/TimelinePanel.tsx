@@ -0,0 +1,317 @@
+'use client';
+
+import { useEffect, useState, useCallback, useRef } from 'react';
+import type { AnimationFrame, OnionSkinSettings } from '@/lib/types';
+import Timeline from '@/lib/timeline';
+import { logger } from '@/lib/utils/logger';
+
+export default function TimelinePanel() {
+  const [frames, setFrames] = useState<AnimationFrame[]>(() => Timeline.getFrames());
+  const [currentIndex, setCurrentIndex] = useState(() => Timeline.getCurrentIndex());
+  const [isPlaying, setIsPlaying] = useState(() => Timeline.isPlaying());
+  const [onionSkin, setOnionSkin] = useState<OnionSkinSettings>(() => Timeline.getOnionSkin());
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  // Draw a frame composite into the playback preview
+  const drawPreview = useCallback((frameIndex: number) => {
+    const canvas = previewRef.current;
+    if (!canvas) return;
+    try {
+      const imageData = Timeline.renderFrame(frameIndex);
+      canvas.width = imageData.width;
+      canvas.height = imageData.height;
+      canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+    } catch (error) {
+      logger.error('Failed to render timeline preview:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleChange = (data: { frames: AnimationFrame[]; currentIndex: number }) => {
+      setFrames(data.frames);
+      setCurrentIndex(data.currentIndex);
+    };
+    const handlePlayback = (data: { playing: boolean; frameIndex: number }) => {
+      setIsPlaying(data.playing);
+      if (data.playing) {
+        drawPreview(data.frameIndex);
+      }
+    };
+    const handleOnionSkin = (settings: OnionSkinSettings) => setOnionSkin(settings);
+
+    Timeline.on('timeline:change', handleChange);
+    Timeline.on('timeline:playback', handlePlayback);
+    Timeline.on('timeline:onion-skin', handleOnionSkin);
+    return () => {
+      Timeline.off('timeline:change', handleChange);
+      Timeline.off('timeline:playback', handlePlayback);
+      Timeline.off('timeline:onion-skin', handleOnionSkin);
+      Timeline.stop();
+    };
+  }, [drawPreview]);
+
+  const runFrameAction = useCallback((action: () => Promise<unknown>) => {
+    action().catch((error) => {
+      logger.error('Timeline operation failed:', error);
+      alert(error instanceof Error ? error.message : 'Timeline operation failed.');
+    });
+  }, []);
+
+  const handleTogglePlayback = useCallback(() => {
+    if (Timeline.isPlaying()) {
+      Timeline.stop();
+    } else {
+      Timeline.play();
+    }
+  }, []);
+
+  const handleDurationChange = useCallback(
+    (value: string) => {
+      const duration = parseInt(value, 10);
+      if (Number.isFinite(duration)) {
+        Timeline.setFrameDuration(currentIndex, duration);
+      }
+    },
+    [currentIndex]
+  );
+
+  const updateOnionSkin = useCallback((settings: Partial<OnionSkinSettings>) => {
+    Timeline.setOnionSkin(settings);
+  }, []);
+
+  const currentFrame = frames[currentIndex];
+
+  return (
+    <div className="panel-section" data-testid="testid-timeline-panel">
+      <h2 className="panel-title">
+        Timeline
+        <button
+          className="layer-add-btn-small"
+          data-testid="testid-frame-add"
+          onClick={() => runFrameAction(() => Timeline.addFrame())}
+          title="Add Empty Frame"
+          aria-label="Add empty frame"
+        >
+          <svg
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            aria-hidden="true"
+          >
+            <path d="M12 5v14M5 12h14" />
+          </svg>
+        </button>
+      </h2>
+
+      <div className="timeline-preview">
+        <canvas
+          ref={previewRef}
+          className="timeline-preview-canvas"
+          aria-label="Animation preview"
+          style={{ visibility: isPlaying ? 'visible' : 'hidden' }}
+        />
+        <button
+          className="layer-control-btn timeline-play-btn"
+          data-testid="testid-timeline-play"
+          onClick={handleTogglePlayback}
+          title={isPlaying ? 'Stop' : 'Play'}
+          aria-label={isPlaying ? 'Stop playback' : 'Play animation'}
+          aria-pressed={isPlaying}
+        >
+          {isPlaying ? (
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <rect x="6" y="6" width="12" height="12" />
+            </svg>
+          ) : (
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+              <path d="M7 5v14l12-7z" />
+            </svg>
+          )}
+        </button>
+      </div>
+
+      <div className="timeline-frames" role="list" aria-label="Frames">
+        {frames.map((frame, index) => (
+          <button
+            key={frame.id}
+            className={`timeline-frame ${index === currentIndex ? 'active' : ''}`}
+            data-testid={`testid-frame-${index}`}
+            onClick={() => runFrameAction(() => Timeline.goToFrame(index))}
+            role="listitem"
+            aria-label={`Frame ${index + 1}, ${frame.duration} ms`}
+            aria-current={index === currentIndex}
+            disabled={isPlaying}
+          >
+            <span className="timeline-frame-number">{index + 1}</span>
+            <span className="timeline-frame-duration">{frame.duration}ms</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="timeline-frame-controls">
+        <button
+          className="layer-control-btn"
+          data-testid="testid-frame-move-left"
+          onClick={() => Timeline.moveFrame(currentIndex, currentIndex - 1)}
+          disabled={currentIndex === 0}
+          title="Move Frame Left"
+          aria-label="Move frame left"
+        >
+          <svg
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            aria-hidden="true"
+          >
+            <path d="M15 18l-6-6 6-6" />
+          </svg>
+        </button>
+        <button
+          className="layer-control-btn"
+          data-testid="testid-frame-move-right"
+          onClick={() => Timeline.moveFrame(currentIndex, currentIndex + 1)}
+          disabled={currentIndex === frames.length - 1}
+          title="Move Frame Right"
+          aria-label="Move frame right"
+        >
+          <svg
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            aria-hidden="true"
+          >
+            <path d="M9 18l6-6-6-6" />
+          </svg>
+        </button>
+        <button
+          className="layer-control-btn"
+          data-testid="testid-frame-duplicate"
+          onClick={() => runFrameAction(() => Timeline.duplicateFrame())}
+          title="Duplicate Frame"
+          aria-label="Duplicate frame"
+        >
+          <svg
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            aria-hidden="true"
+          >
+            <rect x="9" y="9" width="13" height="13" rx="2" ry="2" />
+            <path d="M5 15H4a2 2 0 01-2-2V4a2 2 0 012-2h9a2 2 0 012 2v1" />
+          </svg>
+        </button>
+        {frames.length > 1 && (
+          <button
+            className="layer-control-btn"
+            data-testid="testid-frame-delete"
+            onClick={() => runFrameAction(() => Timeline.deleteFrame(currentIndex))}
+            title="Delete Frame"
+            aria-label="Delete frame"
+          >
+            <svg
+              width="14"
+              height="14"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              aria-hidden="true"
+            >
+              <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
+            </svg>
+          </button>
+        )}
+        <label className="timeline-duration">
+          <span className="slider-label">Duration</span>
+          <input
+            type="number"
+            className="layer-name-input"
+            data-testid="testid-frame-duration"
+            min={10}
+            max={10000}
+            step={10}
+            value={currentFrame?.duration ?? 100}
+            onChange={(e) => handleDurationChange(e.target.value)}
+            aria-label="Frame duration in milliseconds"
+          />
+        </label>
+      </div>
+
+      <div className="timeline-onion-skin">
+        <label className="timeline-checkbox">
+          <input
+            type="checkbox"
+            data-testid="testid-onion-skin-toggle"
+            checked={onionSkin.enabled}
+            onChange={(e) => updateOnionSkin({ enabled: e.target.checked })}
+          />
+          <span className="slider-label">Onion skin</span>
+        </label>
+        {onionSkin.enabled && (
+          <>
+            <div className="timeline-onion-counts">
+              <label>
+                <span className="slider-label">Previous</span>
+                <input
+                  type="number"
+                  className="layer-name-input"
+                  min={0}
+                  max={5}
+                  value={onionSkin.previous}
+                  onChange={(e) => updateOnionSkin({ previous: Number(e.target.value) })}
+                  aria-label="Previous frames shown"
+                />
+              </label>
+              <label>
+                <span className="slider-label">Next</span>
+                <input
+                  type="number"
+                  className="layer-name-input"
+                  min={0}
+                  max={5}
+                  value={onionSkin.next}
+                  onChange={(e) => updateOnionSkin({ next: Number(e.target.value) })}
+                  aria-label="Next frames shown"
+                />
+              </label>
+            </div>
+            <div className="slider-group">
+              <div className="slider-header">
+                <span className="slider-label">Opacity</span>
+                <span className="slider-value">{Math.round(onionSkin.opacity * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(onionSkin.opacity * 100)}
+                onChange={(e) => updateOnionSkin({ opacity: Number(e.target.value) / 100 })}
+                aria-label="Onion skin opacity"
+              />
+            </div>
+            <label className="timeline-checkbox">
+              <input
+                type="checkbox"
+                checked={onionSkin.tint}
+                onChange={(e) => updateOnionSkin({ tint: e.target.checked })}
+              />
+              <span className="slider-label">Tint previous / next</span>
+            </label>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -85,14 +85,29 @@ const tools = [
     icon: 'M3 3h18v18H3V3zm2 2v14h14V5H5z',
   },
   {
-    name: 'rotate',
+    name: 'line',
     key: '',
-    icon: 'M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.41 0-8-3.59-8-8s3.59-8 8-8 8 3.59 8 8-3.59 8-8 8zm.31-8.86l-1.77 4.69 4.69-1.77-1.77-4.69-1.15 1.77z',
+    icon: 'M4 20L20 4M3 19h2v2H3v-2zm16-16h2v2h-2V3z',
   },
   {
-    name: 'scale',
+    name: 'rectangle',
     key: '',
-    icon: 'M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5',
+    icon: 'M4 6h16v12H4V6zm2 2v8h12V8H6z',
+  },
+  {
+    name: 'ellipse',
+    key: '',
+    icon: 'M12 5c5 0 9 3.1 9 7s-4 7-9 7-9-3.1-9-7 4-7 9-7zm0 2c-3.9 0-7 2.2-7 5s3.1 5 7 5 7-2.2 7-5-3.1-5-7-5z',
+  },
+  {
+    name: 'regular-polygon',
+    key: '',
+    icon: 'M12 3l8 5v8l-8 5-8-5V8l8-5zm0 2.4L6 9.1v5.8l6 3.7 6-3.7V9.1l-6-3.7z',
+  },
+  {
+    name: 'transform',
+    key: 'T',
+    icon: 'M3 3h6v2H5v4H3V3zm12 0h6v6h-2V5h-4V3zM3 15h2v4h4v2H3v-6zm16 0h2v6h-6v-2h4v-4zM8 8h8v8H8V8z',
   },
   {
     name: 'crop',
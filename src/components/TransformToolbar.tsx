@@ -0,0 +1,182 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import TransformActions from '@/lib/transformActions';
+import { logger } from '@/lib/utils/logger';
+import {
+  MAX_SKEW,
+  type TransformInterpolation,
+  type TransformParams,
+} from '@/lib/tools/transformHelpers';
+
+const INTERPOLATION_OPTIONS: { value: TransformInterpolation; label: string }[] = [
+  { value: 'nearest', label: 'Nearest Neighbor' },
+  { value: 'bilinear', label: 'Bilinear' },
+  { value: 'bicubic', label: 'Bicubic' },
+  { value: 'rotsprite', label: 'RotSprite (pixel art)' },
+];
+
+// Numeric entry shows two decimals at most
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export default function TransformToolbar() {
+  const [params, setParams] = useState<TransformParams | null>(() => TransformActions.getParams());
+  const [interpolation, setInterpolation] = useState<TransformInterpolation>(() =>
+    TransformActions.getInterpolation()
+  );
+
+  useEffect(() => {
+    const handleChange = (data: {
+      params: TransformParams | null;
+      interpolation: TransformInterpolation;
+    }) => {
+      setParams(data.params);
+      setInterpolation(data.interpolation);
+    };
+    TransformActions.on('transform:change', handleChange);
+    return () => TransformActions.off('transform:change', handleChange);
+  }, []);
+
+  if (!params) {
+    return null;
+  }
+
+  const handleNumberChange = (
+    value: string,
+    toChanges: (parsed: number) => Partial<TransformParams>
+  ) => {
+    const parsed = parseFloat(value);
+    if (Number.isFinite(parsed)) {
+      TransformActions.update(toChanges(parsed));
+    }
+  };
+
+  const clampSkew = (degrees: number) => Math.max(-MAX_SKEW, Math.min(MAX_SKEW, degrees));
+
+  // Percentages keep the sign of the scale so flips survive numeric edits
+  const toScale = (percent: number, current: number) =>
+    (current < 0 ? -1 : 1) * (Math.max(1, percent) / 100);
+
+  const handleApply = () => {
+    TransformActions.commit().catch((error) => {
+      logger.error('Transform failed:', error);
+      alert(error instanceof Error ? error.message : 'Transform failed.');
+    });
+  };
+
+  const fields: {
+    label: string;
+    title: string;
+    value: number;
+    toChanges: (parsed: number) => Partial<TransformParams>;
+  }[] = [
+    {
+      label: 'X',
+      title: 'Center X (px)',
+      value: params.centerX,
+      toChanges: (x) => ({ centerX: x }),
+    },
+    {
+      label: 'Y',
+      title: 'Center Y (px)',
+      value: params.centerY,
+      toChanges: (y) => ({ centerY: y }),
+    },
+    {
+      label: 'W',
+      title: 'Width (%)',
+      value: Math.abs(params.scaleX) * 100,
+      toChanges: (w) => ({ scaleX: toScale(w, params.scaleX) }),
+    },
+    {
+      label: 'H',
+      title: 'Height (%)',
+      value: Math.abs(params.scaleY) * 100,
+      toChanges: (h) => ({ scaleY: toScale(h, params.scaleY) }),
+    },
+    {
+      label: '∠',
+      title: 'Rotation (°)',
+      value: params.rotation,
+      toChanges: (rotation) => ({ rotation }),
+    },
+    {
+      label: 'H°',
+      title: 'Horizontal skew (°)',
+      value: params.skewX,
+      toChanges: (skewX) => ({ skewX: clampSkew(skewX) }),
+    },
+    {
+      label: 'V°',
+      title: 'Vertical skew (°)',
+      value: params.skewY,
+      toChanges: (skewY) => ({ skewY: clampSkew(skewY) }),
+    },
+  ];
+
+  return (
+    <div className="selection-toolbar transform-toolbar" data-testid="testid-transform-toolbar">
+      {fields.map((field) => (
+        <label key={field.title} className="transform-toolbar-field" title={field.title}>
+          <span>{field.label}</span>
+          <input
+            type="number"
+            step="any"
+            value={round(field.value)}
+            onChange={(e) => handleNumberChange(e.target.value, field.toChanges)}
+            aria-label={field.title}
+          />
+        </label>
+      ))}
+      <button
+        className="selection-toolbar-btn"
+        onClick={() => TransformActions.flip('horizontal')}
+        title="Flip Horizontal"
+        aria-label="Flip horizontal"
+      >
+        ⇋
+      </button>
+      <button
+        className="selection-toolbar-btn"
+        onClick={() => TransformActions.flip('vertical')}
+        title="Flip Vertical"
+        aria-label="Flip vertical"
+      >
+        ⇵
+      </button>
+      <select
+        className="transform-toolbar-select"
+        value={interpolation}
+        onChange={(e) =>
+          TransformActions.setInterpolation(e.target.value as TransformInterpolation)
+        }
+        aria-label="Interpolation"
+        data-testid="testid-transform-interpolation"
+      >
+        {INTERPOLATION_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        className="selection-toolbar-btn"
+        onClick={handleApply}
+        title="Apply Transform (Enter)"
+        aria-label="Apply transform"
+      >
+        Apply
+      </button>
+      <button
+        className="selection-toolbar-btn"
+        onClick={() => TransformActions.cancel()}
+        title="Cancel Transform (Esc)"
+        aria-label="Cancel transform"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
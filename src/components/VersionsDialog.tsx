@@ -0,0 +1,154 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import autoSave, { selectExpiredCheckpoints, type Checkpoint } from '@/lib/storage/autoSave';
+import { logger } from '@/lib/utils/logger';
+
+// Retention counts offered in the dialog
+const RETENTION_OPTIONS = [5, 10, 20, 50] as const;
+
+interface VersionsDialogProps {
+  onClose: () => void;
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+export default function VersionsDialog({ onClose }: VersionsDialogProps) {
+  const [checkpoints, setCheckpoints] = useState<Checkpoint[]>([]);
+  const [retention, setRetention] = useState(() => autoSave.getRetention());
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setCheckpoints(await autoSave.listCheckpoints());
+    setRetention(autoSave.getRetention());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh().catch((error) => logger.error('Failed to list versions:', error));
+  }, [refresh]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const runAction = useCallback((action: () => Promise<unknown>) => {
+    action().catch((error) => {
+      logger.error('Version operation failed:', error);
+      alert(error instanceof Error ? error.message : 'Version operation failed.');
+    });
+  }, []);
+
+  const handleRevert = (checkpoint: Checkpoint) => {
+    if (
+      !confirm(
+        `Revert to the version saved ${formatTime(checkpoint.timestamp)}? Undo history is reset; unsaved changes are kept as a version first.`
+      )
+    ) {
+      return;
+    }
+    runAction(async () => {
+      await autoSave.revert(checkpoint.id);
+      onClose();
+    });
+  };
+
+  const handleRetentionChange = (value: number) => {
+    const dropped = selectExpiredCheckpoints(checkpoints, value).length;
+    if (dropped > 0 && !confirm(`Keeping fewer versions deletes ${dropped} of them. Continue?`)) {
+      return;
+    }
+    runAction(async () => {
+      await autoSave.setRetention(value);
+      await refresh();
+    });
+  };
+
+  return (
+    <div className="dialog-backdrop" onClick={onClose}>
+      <div
+        className="dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="versionsDialogTitle"
+        data-testid="testid-versions-dialog"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="panel-title" id="versionsDialogTitle">
+          Revert to Version
+        </h2>
+
+        <div className="history-list" role="listbox" aria-label="Autosaved versions">
+          {!isLoading && checkpoints.length === 0 && (
+            <p className="history-empty">No autosaved versions of this document yet</p>
+          )}
+          {checkpoints.map((checkpoint) => (
+            <button
+              key={checkpoint.id}
+              className="history-item"
+              onClick={() => handleRevert(checkpoint)}
+              role="option"
+              aria-selected={false}
+              title={`Revert to "${checkpoint.name}" as saved ${formatTime(checkpoint.timestamp)}`}
+            >
+              {checkpoint.thumbnail ? (
+                <img className="history-item-thumbnail" src={checkpoint.thumbnail} alt="" />
+              ) : (
+                <span className="history-item-thumbnail" aria-hidden="true" />
+              )}
+              <span className="history-item-name">{formatTime(checkpoint.timestamp)}</span>
+              <span className="history-item-info">
+                {checkpoint.width !== null && checkpoint.height !== null
+                  ? `${checkpoint.width}×${checkpoint.height}`
+                  : ''}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        <div className="slider-group">
+          <div className="slider-header">
+            <span className="slider-label">Keep Recent</span>
+          </div>
+          <select
+            id="autosaveRetention"
+            data-testid="testid-versions-retention"
+            value={retention}
+            onChange={(e) => handleRetentionChange(parseInt(e.target.value, 10))}
+          >
+            {!RETENTION_OPTIONS.some((option) => option === retention) && (
+              <option value={retention}>{retention} versions</option>
+            )}
+            {RETENTION_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option} versions
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="overlay-hint">
+          Changes are autosaved as a new version every 30 seconds. Beyond the recent versions kept,
+          one version per hour is kept for a day and one per day for a month
+        </p>
+
+        <div className="dialog-actions">
+          <button className="layer-control-btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,33 +1,21 @@
 'use client';
 
 import { useAppState } from '@/hooks/useAppState';
-import StateManager from '@/lib/stateManager';
-import UI from '@/lib/ui';
+import Viewport from '@/lib/viewport';
 
 export default function ZoomControls() {
   const state = useAppState();
   const zoom = state.zoom;
 
-  const handleZoomIn = () => {
-    const newZoom = Math.min(4, zoom + 0.25);
-    StateManager.setZoom(newZoom);
-    UI.applyZoom(newZoom);
-  };
-
-  const handleZoomOut = () => {
-    const newZoom = Math.max(0.25, zoom - 0.25);
-    StateManager.setZoom(newZoom);
-    UI.applyZoom(newZoom);
-  };
-
-  const handleResetZoom = () => {
-    StateManager.setZoom(1);
-    UI.applyZoom(1);
-  };
-
   return (
     <div className="zoom-controls">
-      <button className="zoom-btn" onClick={handleZoomOut} id="zoomOutBtn" aria-label="Zoom out">
+      <button
+        className="zoom-btn"
+        onClick={() => Viewport.zoomOut()}
+        id="zoomOutBtn"
+        aria-label="Zoom out"
+        title="Zoom out (Ctrl+-)"
+      >
         <svg
           width="18"
           height="18"
@@ -42,9 +30,15 @@ export default function ZoomControls() {
         </svg>
       </button>
       <div className="zoom-level" id="zoomLevel" aria-live="polite" aria-atomic="true">
-        {Math.round(zoom * 100)}%
+        {Number((zoom * 100).toFixed(1))}%
       </div>
-      <button className="zoom-btn" onClick={handleZoomIn} id="zoomInBtn" aria-label="Zoom in">
+      <button
+        className="zoom-btn"
+        onClick={() => Viewport.zoomIn()}
+        id="zoomInBtn"
+        aria-label="Zoom in"
+        title="Zoom in (Ctrl++)"
+      >
         <svg
           width="18"
           height="18"
@@ -60,9 +54,10 @@ export default function ZoomControls() {
       </button>
       <button
         className="zoom-btn"
-        onClick={handleResetZoom}
+        onClick={() => Viewport.actualPixels()}
         id="zoomResetBtn"
-        aria-label="Reset zoom"
+        aria-label="Actual pixels"
+        title="Actual pixels, 100% (Ctrl+1)"
       >
         <svg
           width="18"
@@ -77,6 +72,45 @@ export default function ZoomControls() {
           <path d="M3 3v5h5" />
         </svg>
       </button>
+      <button
+        className="zoom-btn"
+        onClick={() => Viewport.fitToScreen()}
+        id="zoomFitBtn"
+        aria-label="Fit on screen"
+        title="Fit on screen (Ctrl+0)"
+      >
+        <svg
+          width="18"
+          height="18"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          aria-hidden="true"
+        >
+          <path d="M4 9V4h5M20 9V4h-5M4 15v5h5M20 15v5h-5" />
+        </svg>
+      </button>
+      <button
+        className="zoom-btn"
+        onClick={() => Viewport.fillScreen()}
+        id="zoomFillBtn"
+        aria-label="Fill screen"
+        title="Fill screen"
+      >
+        <svg
+          width="18"
+          height="18"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          aria-hidden="true"
+        >
+          <rect x="3" y="3" width="18" height="18" rx="1" />
+          <path d="M8 8l-3-3M16 8l3-3M8 16l-3 3M16 16l3 3" />
+        </svg>
+      </button>
     </div>
   );
 }
@@ -12,6 +12,7 @@ const DEFAULT_STATE: AppState = {
   currentTool: 'pencil',
   currentColor: '#6366f1',
   currentAlpha: 1,
+  backgroundColor: '#ffffff',
   brushSize: 4,
   brushHardness: 100,
   brushOpacity: 100,
@@ -19,6 +20,9 @@ const DEFAULT_STATE: AppState = {
   brushSpacing: 25,
   brushJitter: 0,
   brushTexture: null,
+  ditherDensity: 50,
+  ditherPattern: '10/01',
+  gradientDither: false,
   brushScatter: 0,
   brushAngle: 0,
   brushRoundness: 100,
@@ -28,13 +32,24 @@ const DEFAULT_STATE: AppState = {
   pressureFlow: false,
   pressureCurve: 'linear',
   stabilizerStrength: 30,
+  pixelPerfect: false,
   tolerance: 32,
   zoom: 1,
   selection: null,
-  colorRangeSelection: null,
+  selectionMask: null,
   selectionMode: 'replace',
   selectionFeather: 0,
   selectionAntiAlias: true,
+  moveAutoSelect: false,
+  symmetryMode: 'off',
+  symmetryAxisX: null,
+  symmetryAxisY: null,
+  symmetrySegments: 6,
+  tileMode: false,
+  shapeStyle: 'outline',
+  shapeFillColor: '#ffffff',
+  shapeAntiAlias: false,
+  shapeSides: 6,
   imageLayer: null,
   imageOffsetX: 0,
   imageOffsetY: 0,
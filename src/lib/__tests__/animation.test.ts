@@ -0,0 +1,308 @@
+/**
+ * Animation Tests
+ * Validates the frame timeline, its undo steps per frame and the GIF, APNG and sprite
+ * sheet exporters
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { encodeGif, lzwEncode, buildGifPalette } from '../formats/gif';
+import { assembleApng } from '../formats/apng';
+import { buildPng, readPngChunks } from '../formats/png';
+import { layoutSpriteSheet, buildSpriteAtlas, packSpriteSheet } from '../formats/spriteSheet';
+import Timeline from '../timeline';
+import History from '../history';
+import Layers from '../layers';
+import Canvas from '../canvas';
+import CanvasUtils from '../canvasUtils';
+import StateManager from '../stateManager';
+import indexedDBStorage from '../storage/indexedDB';
+import type { AppState } from '../types';
+
+function createImage(width: number, height: number, rgba: [number, number, number, number]) {
+  const image = new ImageData(width, height);
+  for (let i = 0; i < width * height; i++) {
+    image.data.set(rgba, i * 4);
+  }
+  return image;
+}
+
+/**
+ * Reference GIF LZW decoder (variable code size, LSB first)
+ */
+function lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let table: number[][] = [];
+  let previous: number[] | null = null;
+  let bitPos = 0;
+
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  while (output.length < pixelCount) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bitPos++) {
+      code |= ((data[bitPos >> 3]! >> (bitPos & 7)) & 1) << i;
+    }
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) break;
+
+    const entry: number[] = code < table.length ? table[code]! : [...previous!, previous![0]!];
+    output.push(...entry);
+    if (previous && table.length < 4096) {
+      table.push([...previous, entry[0]!]);
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = entry;
+  }
+  return output;
+}
+
+describe('GIF encoder', () => {
+  it('should round-trip indices through LZW, including table resets', () => {
+    let seed = 7;
+    const indices = new Uint8Array(20000).map(() => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+      return (seed >> 16) % 200;
+    });
+    expect(lzwDecode(lzwEncode(indices, 8), 8, indices.length)).toEqual(Array.from(indices));
+
+    const runs = new Uint8Array(5000).map((_, i) => Math.floor(i / 300) % 4);
+    expect(lzwDecode(lzwEncode(runs, 2), 2, runs.length)).toEqual(Array.from(runs));
+  });
+
+  it('should write a looping GIF89a with a shared palette and frame delays', () => {
+    const gif = encodeGif([
+      { imageData: createImage(3, 2, [255, 0, 0, 255]), duration: 120 },
+      { imageData: createImage(3, 2, [0, 0, 255, 0]), duration: 50 },
+    ]);
+
+    expect(new TextDecoder().decode(gif.subarray(0, 6))).toBe('GIF89a');
+    expect(gif[6]! | (gif[7]! << 8)).toBe(3);
+    expect(gif[8]! | (gif[9]! << 8)).toBe(2);
+    expect(gif[10]! & 0x80).toBe(0x80);
+    expect(new TextDecoder().decode(gif)).toContain('NETSCAPE2.0');
+    expect(gif[gif.length - 1]).toBe(0x3b);
+
+    // Graphic control extensions carry the delays in centiseconds
+    const delays: number[] = [];
+    for (let i = 0; i < gif.length - 5; i++) {
+      if (gif[i] === 0x21 && gif[i + 1] === 0xf9 && gif[i + 2] === 4) {
+        delays.push(gif[i + 4]! | (gif[i + 5]! << 8));
+      }
+    }
+    expect(delays).toEqual([12, 5]);
+  });
+
+  it('should reserve index 0 for transparency and reject more than 255 colors', () => {
+    const palette = buildGifPalette([createImage(2, 2, [10, 20, 30, 255])]);
+    expect(palette!.colors).toEqual([0, 0x0a141e]);
+    expect(palette!.lookup.get(0x0a141e)).toBe(1);
+
+    const colorful = new ImageData(256, 1);
+    for (let i = 0; i < 256; i++) colorful.data.set([i, 0, 0, 255], i * 4);
+    expect(buildGifPalette([colorful])).toBeNull();
+    expect(() => encodeGif([{ imageData: colorful, duration: 100 }])).toThrow('at most 255 colors');
+  });
+});
+
+describe('APNG assembly', () => {
+  const makePng = (idat: number[]) =>
+    buildPng([
+      { type: 'IHDR', data: new Uint8Array([0, 0, 0, 4, 0, 0, 0, 2, 8, 6, 0, 0, 0]) },
+      { type: 'IDAT', data: new Uint8Array(idat) },
+      { type: 'IEND', data: new Uint8Array(0) },
+    ]);
+
+  it('should emit acTL, fcTL and fdAT chunks with consecutive sequence numbers', () => {
+    const apng = assembleApng([
+      { png: makePng([1, 2]), duration: 80 },
+      { png: makePng([3, 4]), duration: 200 },
+    ]);
+    const chunks = readPngChunks(apng);
+
+    expect(chunks.map((c) => c.type)).toEqual([
+      'IHDR',
+      'acTL',
+      'fcTL',
+      'IDAT',
+      'fcTL',
+      'fdAT',
+      'IEND',
+    ]);
+    const acTL = new DataView(chunks[1]!.data.buffer, chunks[1]!.data.byteOffset);
+    expect(acTL.getUint32(0)).toBe(2);
+    expect(acTL.getUint32(4)).toBe(0);
+
+    const secondControl = new DataView(chunks[4]!.data.buffer, chunks[4]!.data.byteOffset);
+    expect(secondControl.getUint32(0)).toBe(1);
+    expect(secondControl.getUint16(20)).toBe(200);
+    expect(secondControl.getUint16(22)).toBe(1000);
+    expect(Array.from(chunks[5]!.data)).toEqual([0, 0, 0, 2, 3, 4]);
+  });
+
+  it('should reject frames of different sizes', () => {
+    const other = buildPng([
+      { type: 'IHDR', data: new Uint8Array([0, 0, 0, 8, 0, 0, 0, 2, 8, 6, 0, 0, 0]) },
+      { type: 'IDAT', data: new Uint8Array([0]) },
+      { type: 'IEND', data: new Uint8Array(0) },
+    ]);
+    expect(() =>
+      assembleApng([
+        { png: makePng([0]), duration: 100 },
+        { png: other, duration: 100 },
+      ])
+    ).toThrow('Frame 2 does not match');
+  });
+});
+
+describe('Sprite sheets', () => {
+  it('should lay frames out in a near-square grid with padding', () => {
+    const layout = layoutSpriteSheet(5, 8, 4, { padding: 1 });
+    expect(layout.columns).toBe(3);
+    expect(layout.rows).toBe(2);
+    expect(layout.width).toBe(3 * 8 + 2);
+    expect(layout.height).toBe(2 * 4 + 1);
+    expect(layout.rects[4]).toEqual({ x: 9, y: 5, w: 8, h: 4 });
+  });
+
+  it('should describe every frame in the JSON atlas', () => {
+    const layout = layoutSpriteSheet(2, 16, 16, { columns: 2 });
+    const atlas = buildSpriteAtlas(layout, [100, 250], 'walk.png', 'walk');
+    expect(atlas.meta.size).toEqual({ w: 32, h: 16 });
+    expect(atlas.meta.image).toBe('walk.png');
+    expect(atlas.frames[1]).toMatchObject({
+      filename: 'walk 1',
+      frame: { x: 16, y: 0, w: 16, h: 16 },
+      duration: 250,
+    });
+  });
+
+  it('should copy each frame into its cell', () => {
+    const layout = layoutSpriteSheet(2, 2, 2, { columns: 2 });
+    const sheet = packSpriteSheet(
+      [createImage(2, 2, [255, 0, 0, 255]), createImage(2, 2, [0, 255, 0, 255])],
+      layout
+    );
+    expect(Array.from(sheet.data.slice(0, 4))).toEqual([255, 0, 0, 255]);
+    expect(Array.from(sheet.data.slice((1 * 4 + 3) * 4, (1 * 4 + 3) * 4 + 4))).toEqual([
+      0, 255, 0, 255,
+    ]);
+  });
+});
+
+describe('Timeline', () => {
+  beforeEach(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 64;
+    canvas.height = 64;
+    CanvasUtils.init(canvas, 64, 64, 1);
+    StateManager.init({ layers: [], activeLayerId: null } as unknown as AppState);
+    Canvas.init(canvas, undefined, true);
+    vi.spyOn(Canvas, 'getDirtyRegions').mockReturnValue([]);
+    vi.spyOn(Canvas, 'clearDirtyRegions').mockImplementation(() => {});
+    Layers.init(canvas, canvas.getContext('2d')!);
+    Layers.createLayer('Layer 1');
+    Timeline.reset();
+  });
+
+  it('should start with a single frame', () => {
+    expect(Timeline.getFrameCount()).toBe(1);
+    expect(Timeline.getCurrentIndex()).toBe(0);
+  });
+
+  it('should insert, reorder and delete frames around the current frame', async () => {
+    const first = Timeline.getFrames()[0]!;
+    const second = await Timeline.addFrame();
+    expect(Timeline.getCurrentIndex()).toBe(1);
+
+    const third = await Timeline.duplicateFrame();
+    expect(Timeline.getFrames().map((f) => f.id)).toEqual([first.id, second.id, third.id]);
+
+    expect(Timeline.moveFrame(2, 0)).toBe(true);
+    expect(Timeline.getFrames().map((f) => f.id)).toEqual([third.id, first.id, second.id]);
+    expect(Timeline.getCurrentIndex()).toBe(0);
+
+    expect(await Timeline.deleteFrame(0)).toBe(true);
+    expect(Timeline.getFrames().map((f) => f.id)).toEqual([first.id, second.id]);
+    expect(await Timeline.deleteFrame(0)).toBe(true);
+    expect(await Timeline.deleteFrame(0)).toBe(false);
+  });
+
+  it('should clamp frame durations and onion skin settings', () => {
+    Timeline.setFrameDuration(0, 1);
+    expect(Timeline.getFrames()[0]!.duration).toBe(10);
+    Timeline.setFrameDuration(0, 99999);
+    expect(Timeline.getFrames()[0]!.duration).toBe(10000);
+
+    Timeline.setOnionSkin({ enabled: true, previous: 9, next: -2, opacity: 3 });
+    expect(Timeline.getOnionSkin()).toMatchObject({ previous: 5, next: 0, opacity: 1 });
+    Timeline.setOnionSkin({ enabled: false });
+  });
+
+  it('should restore frames with their cels and hand them out for saving', () => {
+    const layerId = Layers.getActiveLayerId()!;
+    const cel = createImage(64, 64, [9, 0, 0, 255]);
+    Timeline.restoreFrames(
+      [
+        { id: 'frame-a', duration: 5, cels: new Map() },
+        { id: 'frame-b', duration: 300, cels: new Map([[layerId, cel]]) },
+        { id: 'frame-b', duration: 120, cels: new Map() },
+      ],
+      0
+    );
+    const frames = Timeline.getFrames();
+    expect(frames.map((frame) => frame.duration)).toEqual([10, 300, 120]);
+    expect(frames[0]!.id).toBe('frame-a');
+    expect(frames[2]!.id).not.toBe('frame-b');
+    expect(Timeline.getCurrentIndex()).toBe(0);
+
+    const saved = Timeline.getFrameCels();
+    expect(saved[1]!.cels.get(layerId)).toBe(cel);
+    // The current frame's cels are read from the layers
+    expect(saved[0]!.cels.has(layerId)).toBe(true);
+  });
+
+  it('should keep the undo steps of each frame across frame changes', async () => {
+    vi.spyOn(indexedDBStorage, 'loadSetting').mockResolvedValue(null);
+    vi.spyOn(indexedDBStorage, 'listHistorySnapshots').mockResolvedValue([]);
+    History.init(true, 'timeline-test');
+    await History.saveInitialState();
+    const layerId = Layers.getActiveLayerId()!;
+    const paint = async (rgba: [number, number, number, number], label: string) => {
+      Layers.putImageData(layerId, createImage(64, 64, rgba));
+      await History.saveImmediate(label);
+    };
+    const labels = () => History.getSteps().map((step) => step.label);
+
+    await paint([200, 0, 0, 255], 'First');
+    await paint([100, 0, 0, 255], 'Second');
+    await Timeline.addFrame();
+    expect(labels()).toEqual(['Initial State']);
+    await paint([50, 0, 0, 255], 'Other Frame');
+
+    expect(await Timeline.goToFrame(0)).toBe(true);
+    expect(labels()).toEqual(['Initial State', 'First', 'Second']);
+    expect(await History.undo()).toBe(true);
+    expect(History.getIndex()).toBe(1);
+
+    expect(await Timeline.goToFrame(1)).toBe(true);
+    expect(labels()).toEqual(['Initial State', 'Other Frame']);
+    expect(History.canUndo()).toBe(true);
+
+    // Deleting a frame leaves the other frames' steps alone
+    expect(await Timeline.deleteFrame(1)).toBe(true);
+    expect(labels()).toEqual(['Initial State', 'First', 'Second']);
+    expect(History.getIndex()).toBe(1);
+    expect(History.canRedo()).toBe(true);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Auto-Save Tests
+ * Validates checkpoints, their retention and thinning, reverting to them and detecting unclean
+ * shutdowns
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import autoSave, { selectExpiredCheckpoints } from '../storage/autoSave';
+import indexedDBStorage from '../storage/indexedDB';
+import projectManager from '../storage/projectManager';
+import { saveProjectFile } from '../storage/projectFile';
+import EventEmitter from '../utils/eventEmitter';
+import Canvas from '../canvas';
+import History from '../history';
+import { AUTO_SAVE_INTERVAL } from '../constants';
+
+vi.mock('../storage/projectFile', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../storage/projectFile')>()),
+  saveProjectFile: vi.fn(),
+}));
+
+const SESSIONS_KEY = 'pixel-studio-sessions';
+
+function sessionMarkers(): Record<string, { projectId: string | null }> {
+  return JSON.parse(localStorage.getItem(SESSIONS_KEY) ?? '{}');
+}
+
+function listSessions(markers: Record<string, { projectId: string; updatedAt: number }>) {
+  const stored = Object.fromEntries(
+    Object.entries(markers).map(([id, marker]) => [id, { startedAt: 1, ...marker }])
+  );
+  localStorage.setItem(SESSIONS_KEY, JSON.stringify(stored));
+}
+
+function checkpoint(id: string, projectId: string, timestamp: number) {
+  return { id, projectId, name: 'Hero', timestamp, meta: { width: 8, height: 4, thumbnail: null } };
+}
+
+describe('AutoSave', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(History, 'getProjectId').mockReturnValue('project-a');
+    vi.spyOn(History, 'getLength').mockReturnValue(3);
+    vi.spyOn(History, 'getIndex').mockReturnValue(2);
+    vi.spyOn(History, 'getSteps').mockReturnValue(
+      [100, 200, 300, 400].map((timestamp) => ({
+        label: 'Pencil',
+        tool: 'pencil',
+        timestamp,
+        thumbnail: null,
+      }))
+    );
+    vi.spyOn(Canvas, 'getWidth').mockReturnValue(8);
+    vi.spyOn(Canvas, 'getHeight').mockReturnValue(4);
+    vi.spyOn(Canvas, 'getCanvas').mockReturnValue(document.createElement('canvas'));
+    // jsdom's Blob cannot be read back, so hand out just what saving reads
+    vi.mocked(saveProjectFile).mockImplementation(
+      async () => ({ arrayBuffer: async () => new ArrayBuffer(4) }) as Blob
+    );
+    vi.spyOn(indexedDBStorage, 'loadSetting').mockResolvedValue(null);
+    vi.spyOn(indexedDBStorage, 'saveSetting').mockResolvedValue();
+    vi.spyOn(indexedDBStorage, 'saveCheckpoint').mockResolvedValue('checkpoint-new');
+    vi.spyOn(indexedDBStorage, 'deleteCheckpoints').mockResolvedValue(0);
+    vi.spyOn(indexedDBStorage, 'listCheckpoints').mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    autoSave.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('should save a checkpoint after changes and prune to the retention', async () => {
+    const now = Date.now();
+    vi.mocked(indexedDBStorage.listCheckpoints).mockResolvedValue(
+      Array.from({ length: 12 }, (_, i) => checkpoint(`checkpoint-${i}`, 'project-a', now - i))
+    );
+    await autoSave.init();
+
+    await autoSave.save();
+    expect(indexedDBStorage.saveCheckpoint).not.toHaveBeenCalled();
+
+    EventEmitter.emit('history:save', {});
+    await autoSave.save();
+    expect(indexedDBStorage.saveCheckpoint).toHaveBeenCalledTimes(1);
+    expect(indexedDBStorage.saveCheckpoint).toHaveBeenCalledWith(
+      'project-a',
+      projectManager.getCurrentName(),
+      expect.any(ArrayBuffer),
+      expect.objectContaining({ width: 8, height: 4 })
+    );
+    // The two oldest share their hour with newer ones
+    expect(indexedDBStorage.deleteCheckpoints).toHaveBeenCalledWith([
+      'checkpoint-10',
+      'checkpoint-11',
+    ]);
+
+    // Nothing changed since
+    await autoSave.save();
+    expect(indexedDBStorage.saveCheckpoint).toHaveBeenCalledTimes(1);
+  });
+
+  it('should save changes on the timer rather than on every change', async () => {
+    vi.useFakeTimers();
+    try {
+      await autoSave.init();
+
+      EventEmitter.emit('history:save', {});
+      EventEmitter.emit('history:save', {});
+      expect(indexedDBStorage.saveCheckpoint).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(AUTO_SAVE_INTERVAL);
+      expect(indexedDBStorage.saveCheckpoint).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(AUTO_SAVE_INTERVAL);
+      expect(indexedDBStorage.saveCheckpoint).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should not save again after undoing and redoing back to the last checkpoint', async () => {
+    await autoSave.init();
+    EventEmitter.emit('history:save', {});
+    await autoSave.save();
+
+    vi.mocked(History.getIndex).mockReturnValue(1);
+    EventEmitter.emit('history:undo', {});
+    vi.mocked(History.getIndex).mockReturnValue(2);
+    EventEmitter.emit('history:redo', {});
+    await autoSave.save();
+    expect(indexedDBStorage.saveCheckpoint).toHaveBeenCalledTimes(1);
+
+    // Layer changes outside history are still saved
+    EventEmitter.emit('layers:update', {});
+    await autoSave.save();
+    expect(indexedDBStorage.saveCheckpoint).toHaveBeenCalledTimes(2);
+  });
+
+  it('should thin older checkpoints to one per hour for a day and one per day for a month', () => {
+    const hour = 60 * 60 * 1000;
+    const now = 1000 * 24 * hour;
+    const checkpoints = [
+      checkpoint('recent', 'project-a', now - 1000),
+      checkpoint('hour-1-newer', 'project-a', now - 2 * hour + 2000),
+      checkpoint('hour-1-older', 'project-a', now - 2 * hour + 1000),
+      checkpoint('day-2-newer', 'project-a', now - 48 * hour + 2000),
+      checkpoint('day-2-older', 'project-a', now - 48 * hour + 1000),
+      checkpoint('ancient', 'project-a', now - 60 * 24 * hour),
+    ];
+
+    expect(selectExpiredCheckpoints(checkpoints, 1, now).map((c) => c.id)).toEqual([
+      'hour-1-older',
+      'day-2-older',
+      'ancient',
+    ]);
+    expect(selectExpiredCheckpoints(checkpoints, 10, now)).toEqual([]);
+  });
+
+  it('should not save a document that has only its initial step', async () => {
+    vi.mocked(History.getLength).mockReturnValue(1);
+    await autoSave.init();
+
+    EventEmitter.emit('history:save', {});
+    await autoSave.save();
+    expect(indexedDBStorage.saveCheckpoint).not.toHaveBeenCalled();
+  });
+
+  it('should offer the latest checkpoint after an unclean shutdown', async () => {
+    listSessions({ 'session-crashed': { projectId: 'crashed', updatedAt: 1 } });
+    vi.mocked(indexedDBStorage.listCheckpoints).mockResolvedValue([
+      checkpoint('checkpoint-2', 'crashed', 200),
+      checkpoint('checkpoint-1', 'crashed', 100),
+    ]);
+    await autoSave.init();
+
+    expect(await autoSave.getRecoveryCheckpoint()).toMatchObject({
+      id: 'checkpoint-2',
+      projectId: 'crashed',
+      width: 8,
+      height: 4,
+    });
+    expect(indexedDBStorage.listCheckpoints).toHaveBeenCalledWith('crashed');
+    // This session is now running alongside the crashed one's leftover marker
+    expect(Object.values(sessionMarkers())).toEqual([
+      expect.objectContaining({ projectId: 'crashed' }),
+      expect.objectContaining({ projectId: 'project-a' }),
+    ]);
+
+    autoSave.dismissRecovery();
+    expect(await autoSave.getRecoveryCheckpoint()).toBeNull();
+    expect(Object.values(sessionMarkers())).toEqual([
+      expect.objectContaining({ projectId: 'project-a' }),
+    ]);
+  });
+
+  it('should leave sessions running in other tabs alone', async () => {
+    listSessions({ 'session-other': { projectId: 'other', updatedAt: Date.now() } });
+    vi.mocked(indexedDBStorage.listCheckpoints).mockResolvedValue([
+      checkpoint('checkpoint-1', 'other', 100),
+    ]);
+    await autoSave.init();
+
+    expect(await autoSave.getRecoveryCheckpoint()).toBeNull();
+    expect(Object.keys(sessionMarkers())).toHaveLength(2);
+
+    // Leaving this tab ends only its own session
+    window.dispatchEvent(new Event('pagehide'));
+    expect(Object.keys(sessionMarkers())).toEqual(['session-other']);
+  });
+
+  it('should tell running sessions from crashed ones by their Web Locks', async () => {
+    const held: string[] = ['pixel-studio-session:session-other'];
+    Object.defineProperty(navigator, 'locks', {
+      configurable: true,
+      value: {
+        request: async (name: string, callback: () => Promise<void>) => {
+          held.push(name);
+          await callback();
+          held.splice(held.indexOf(name), 1);
+        },
+        query: async () => ({ held: held.map((name) => ({ name })) }),
+      },
+    });
+    try {
+      // Both refreshed their markers just now, but only one still holds its lock
+      listSessions({
+        'session-other': { projectId: 'other', updatedAt: Date.now() },
+        'session-crashed': { projectId: 'crashed', updatedAt: Date.now() },
+      });
+      vi.mocked(indexedDBStorage.listCheckpoints).mockImplementation(async (projectId) => [
+        checkpoint(`${projectId}-checkpoint`, projectId, 100),
+      ]);
+      await autoSave.init();
+
+      expect(held).toHaveLength(2);
+      expect(await autoSave.getRecoveryCheckpoint()).toMatchObject({ projectId: 'crashed' });
+      expect(indexedDBStorage.listCheckpoints).not.toHaveBeenCalledWith('other');
+
+      autoSave.stop();
+      await Promise.resolve();
+      expect(held).toEqual(['pixel-studio-session:session-other']);
+    } finally {
+      Reflect.deleteProperty(navigator, 'locks');
+    }
+  });
+
+  it('should end the session cleanly when the page is left', async () => {
+    await autoSave.init();
+    expect(Object.keys(sessionMarkers())).toHaveLength(1);
+
+    window.dispatchEvent(new Event('pagehide'));
+    expect(localStorage.getItem(SESSIONS_KEY)).toBeNull();
+
+    autoSave.stop();
+    await autoSave.init();
+    expect(await autoSave.getRecoveryCheckpoint()).toBeNull();
+  });
+
+  it('should keep unsaved changes as a checkpoint before reverting', async () => {
+    const restoreVersion = vi.spyOn(projectManager, 'restoreVersion').mockResolvedValue();
+    vi.spyOn(indexedDBStorage, 'loadCheckpoint').mockImplementation(async (id) =>
+      id === 'checkpoint-1'
+        ? { projectId: 'project-a', name: 'Hero', data: new ArrayBuffer(4), timestamp: 100 }
+        : null
+    );
+    await autoSave.init();
+    EventEmitter.emit('history:save', {});
+    await autoSave.save();
+    vi.mocked(indexedDBStorage.saveCheckpoint).mockClear();
+    // Left for the timer to save
+    vi.mocked(History.getIndex).mockReturnValue(3);
+    EventEmitter.emit('history:save', {});
+    expect(indexedDBStorage.saveCheckpoint).not.toHaveBeenCalled();
+
+    await autoSave.revert('checkpoint-1');
+    expect(indexedDBStorage.saveCheckpoint).toHaveBeenCalledTimes(1);
+    expect(restoreVersion).toHaveBeenCalledWith('project-a', 'Hero', expect.any(Blob));
+
+    await expect(autoSave.revert('missing')).rejects.toThrow('Version not found');
+  });
+
+  it('should clamp the retention and drop the extra checkpoints', async () => {
+    await autoSave.init();
+
+    await autoSave.setRetention(0);
+    expect(autoSave.getRetention()).toBe(1);
+    expect(indexedDBStorage.listCheckpoints).toHaveBeenCalledWith('project-a');
+    expect(indexedDBStorage.deleteCheckpoints).toHaveBeenCalledWith([]);
+
+    await autoSave.setRetention(500);
+    expect(autoSave.getRetention()).toBe(50);
+    expect(indexedDBStorage.saveSetting).toHaveBeenCalledWith('autosaveRetention', 50);
+  });
+});
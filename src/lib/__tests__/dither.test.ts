@@ -0,0 +1,145 @@
+/**
+ * Dither Tests
+ * Validates Bayer and custom dither patterns, dither brush textures and dithered reduction
+ * of images to a palette
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import StateManager from '../stateManager';
+import {
+  createBayerPattern,
+  ditherToPalette,
+  getBayerMatrix,
+  isDitherOn,
+  parseDitherPattern,
+} from '../dither';
+import { getBrushDitherPattern, isDitherTexture } from '../tools/brushHelpers';
+import { reduceColorNoise } from '../cleanup/colorReducer';
+import type { AppState } from '../types';
+
+const BLACK_AND_WHITE = [
+  { r: 0, g: 0, b: 0 },
+  { r: 255, g: 255, b: 255 },
+];
+
+// Flat image of one gray level
+function grayImage(width: number, height: number, level: number): ImageData {
+  const image = new ImageData(width, height);
+  for (let i = 0; i < image.data.length; i += 4) {
+    image.data.set([level, level, level, 255], i);
+  }
+  return image;
+}
+
+// Share of white pixels in a black and white image
+function whiteShare(image: ImageData): number {
+  let white = 0;
+  for (let i = 0; i < image.data.length; i += 4) {
+    if (image.data[i] === 255) white++;
+  }
+  return white / (image.data.length / 4);
+}
+
+describe('Dither patterns', () => {
+  it('should build Bayer matrices that use every threshold once', () => {
+    expect(getBayerMatrix(2)).toEqual([0, 2, 3, 1]);
+    expect(getBayerMatrix(4)).toEqual([0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5]);
+    const eight = getBayerMatrix(8);
+    expect([...eight].sort((a, b) => a - b)).toEqual(Array.from({ length: 64 }, (_, i) => i));
+  });
+
+  it('should paint the share of pixels the density asks for', () => {
+    const pattern = createBayerPattern(4);
+    for (const density of [0, 0.25, 0.5, 1]) {
+      let on = 0;
+      for (let y = 0; y < 4; y++) {
+        for (let x = 0; x < 4; x++) {
+          if (isDitherOn(pattern, x, y, density)) on++;
+        }
+      }
+      expect(on).toBe(density * 16);
+    }
+    // Half density on a 2x2 matrix is a checkerboard, continued past the origin
+    const checker = createBayerPattern(2);
+    expect(isDitherOn(checker, 0, 0, 0.5)).toBe(true);
+    expect(isDitherOn(checker, 1, 0, 0.5)).toBe(false);
+    expect(isDitherOn(checker, -1, 0, 0.5)).toBe(false);
+    expect(isDitherOn(checker, -1, -1, 0.5)).toBe(true);
+  });
+
+  it('should parse custom patterns and reject malformed ones', () => {
+    const pattern = parseDitherPattern('100/010\n001')!;
+    expect(pattern).toMatchObject({ width: 3, height: 3 });
+    expect(isDitherOn(pattern, 1, 1, 0.5)).toBe(true);
+    expect(isDitherOn(pattern, 2, 1, 0.5)).toBe(false);
+
+    expect(parseDitherPattern('')).toBeNull();
+    expect(parseDitherPattern('10/0')).toBeNull();
+    expect(parseDitherPattern('12/01')).toBeNull();
+    expect(parseDitherPattern('101010101')).toBeNull();
+  });
+
+  it('should map dither brush textures to their patterns', () => {
+    expect(isDitherTexture('bayer4')).toBe(true);
+    expect(isDitherTexture('paper')).toBe(false);
+    expect(isDitherTexture(null)).toBe(false);
+    expect(getBrushDitherPattern('bayer8', '10/01')).toMatchObject({ width: 8, height: 8 });
+    expect(getBrushDitherPattern('dither', '1/0')).toMatchObject({ width: 1, height: 2 });
+    expect(getBrushDitherPattern('canvas', '10/01')).toBeNull();
+  });
+});
+
+describe('Palette dithering', () => {
+  it('should keep the average tone when diffusing error', () => {
+    const gray = grayImage(16, 16, 128);
+    expect(whiteShare(ditherToPalette(gray, BLACK_AND_WHITE, 'none'))).toBe(1);
+
+    const floyd = ditherToPalette(gray, BLACK_AND_WHITE, 'floyd-steinberg', false);
+    expect(whiteShare(floyd)).toBeCloseTo(0.5, 1);
+    const ordered = ditherToPalette(gray, BLACK_AND_WHITE, 'ordered', false);
+    expect(whiteShare(ordered)).toBeCloseTo(0.5, 1);
+    // Atkinson drops a quarter of the error, so mid-tones still mix
+    const atkinson = ditherToPalette(grayImage(16, 16, 96), BLACK_AND_WHITE, 'atkinson', false);
+    expect(whiteShare(atkinson)).toBeGreaterThan(0.2);
+    expect(whiteShare(atkinson)).toBeLessThan(0.5);
+  });
+
+  it('should leave transparent pixels alone', () => {
+    const image = grayImage(4, 1, 128);
+    image.data.set([10, 20, 30, 0], 4);
+    const result = ditherToPalette(image, BLACK_AND_WHITE, 'floyd-steinberg');
+    expect(Array.from(result.data.slice(4, 8))).toEqual([10, 20, 30, 0]);
+  });
+
+  it('should dither when locking to a palette', async () => {
+    const result = await reduceColorNoise(grayImage(8, 8, 128), {
+      mode: 'palette-lock',
+      palette: BLACK_AND_WHITE,
+      useLab: false,
+      dither: 'floyd-steinberg',
+    });
+    expect(whiteShare(result)).toBeCloseTo(0.5, 1);
+  });
+});
+
+describe('Dither settings', () => {
+  beforeEach(() => {
+    StateManager.init({
+      backgroundColor: '#ffffff',
+      ditherDensity: 50,
+      ditherPattern: '10/01',
+      gradientDither: false,
+    } as unknown as AppState);
+  });
+
+  it('should clamp density and reject invalid patterns and colors', () => {
+    StateManager.setDitherDensity(140);
+    expect(StateManager.getState().ditherDensity).toBe(100);
+
+    expect(() => StateManager.setDitherPattern('10/2')).toThrow('Invalid dither pattern');
+    StateManager.setDitherPattern('1100/0011');
+    expect(StateManager.getState().ditherPattern).toBe('1100/0011');
+
+    expect(() => StateManager.setBackgroundColor('white')).toThrow('Invalid color format');
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Layered Format Tests
+ * Validates ZIP container, OpenRaster stack.xml and PSD encode/decode round-trips, and
+ * layer groups and masks surviving export and import in both formats
+ */
+
+import { Blob as NodeBlob } from 'node:buffer';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createZip, readZip, crc32 } from '../formats/zip';
+import {
+  buildStackXml,
+  parseStackXml,
+  blendModeToOra,
+  oraToBlendMode,
+  importOra,
+  exportOra,
+} from '../formats/ora';
+import { encodePsd, decodePsd, blendModeToPsd, psdToBlendMode } from '../formats/psd';
+import { detectLayeredFormat } from '../formats';
+import {
+  captureComposite,
+  captureDocument,
+  placeImageData,
+  type DocumentLayer,
+  type LayeredDocument,
+} from '../formats/document';
+
+vi.mock('../formats/document', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../formats/document')>()),
+  captureDocument: vi.fn(),
+  captureComposite: vi.fn(),
+}));
+
+// Stand-in for the PNG codec: width, height and the raw pixels
+vi.mock('../imageUtils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../imageUtils')>()),
+  imageDataToArrayBuffer: vi.fn(async (image: ImageData) =>
+    new NodeBlob([new Uint32Array([image.width, image.height]), image.data]).arrayBuffer()
+  ),
+  blobToImageData: vi.fn(async (blob: Blob) => {
+    const buffer = await blob.arrayBuffer();
+    const [width, height] = new Uint32Array(buffer, 0, 2);
+    return new ImageData(new Uint8ClampedArray(buffer, 8), width!, height!);
+  }),
+}));
+
+function createImage(width: number, height: number, rgba: [number, number, number, number]) {
+  const image = new ImageData(width, height);
+  for (let i = 0; i < width * height; i++) {
+    image.data.set(rgba, i * 4);
+  }
+  return image;
+}
+
+function layer(name: string, properties: Partial<DocumentLayer> = {}): DocumentLayer {
+  return {
+    name,
+    imageData: createImage(4, 3, [10, 20, 30, 255]),
+    visible: true,
+    locked: false,
+    opacity: 1,
+    blendMode: 'normal',
+    ...properties,
+  };
+}
+
+// A pass-through group holding a masked layer and a nested group, above a background
+function createGroupedDocument(maskEnabled: boolean): LayeredDocument {
+  // Hides the first pixel
+  const mask = createImage(4, 3, [255, 255, 255, 255]);
+  mask.data.set([0, 0, 0, 255], 0);
+  return {
+    width: 4,
+    height: 3,
+    layers: [
+      layer('Background'),
+      layer('Detail', { parentId: 'inner' }),
+      layer('Inner', { id: 'inner', kind: 'group', parentId: 'folder', blendMode: 'multiply' }),
+      layer('Ink', { parentId: 'folder', mask, maskEnabled }),
+      layer('Folder', {
+        id: 'folder',
+        kind: 'group',
+        passThrough: true,
+        collapsed: true,
+        opacity: 0.6,
+        visible: false,
+      }),
+    ],
+  };
+}
+
+// Layer names with the name of their group
+function describeTree(doc: LayeredDocument): Array<[string, string | undefined]> {
+  return doc.layers.map((l) => [
+    l.name,
+    doc.layers.find((group) => group.kind === 'group' && group.id === l.parentId)?.name,
+  ]);
+}
+
+describe('ZIP container', () => {
+  it('should compute the standard CRC-32 check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should round-trip stored entries in order', async () => {
+    const zip = createZip([
+      { name: 'mimetype', data: new TextEncoder().encode('image/openraster') },
+      { name: 'data/layer0.png', data: new Uint8Array([1, 2, 3, 4]) },
+    ]);
+    const files = await readZip(zip.buffer);
+
+    expect([...files.keys()]).toEqual(['mimetype', 'data/layer0.png']);
+    expect(new TextDecoder().decode(files.get('mimetype'))).toBe('image/openraster');
+    expect(Array.from(files.get('data/layer0.png')!)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should reject data that is not an archive', async () => {
+    await expect(readZip(new Uint8Array(64).buffer)).rejects.toThrow('Invalid archive');
+  });
+});
+
+describe('OpenRaster stack', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should round-trip layer properties through stack.xml', () => {
+    const xml = buildStackXml({
+      width: 32,
+      height: 16,
+      layers: [
+        {
+          name: 'Ink & "Lines"',
+          src: 'data/layer1.png',
+          x: 2,
+          y: 3,
+          opacity: 0.5,
+          visible: false,
+          locked: true,
+          blendMode: 'multiply',
+        },
+        {
+          name: 'Background',
+          src: 'data/layer0.png',
+          x: 0,
+          y: 0,
+          opacity: 1,
+          visible: true,
+          locked: false,
+          blendMode: 'normal',
+        },
+      ],
+    });
+
+    const stack = parseStackXml(xml);
+    expect(stack.width).toBe(32);
+    expect(stack.height).toBe(16);
+    expect(stack.layers).toHaveLength(2);
+    expect(stack.layers[0]).toEqual({
+      name: 'Ink & "Lines"',
+      src: 'data/layer1.png',
+      x: 2,
+      y: 3,
+      opacity: 0.5,
+      visible: false,
+      locked: true,
+      blendMode: 'multiply',
+    });
+    expect(stack.layers[1]!.blendMode).toBe('normal');
+  });
+
+  it('should read nested stacks as groups', () => {
+    const stack = parseStackXml(
+      `<image w="8" h="8"><stack>
+        <stack name="Group" opacity="0.5" visibility="hidden" isolation="auto">
+          <layer name="Child" src="data/a.png" opacity="0.5" />
+        </stack>
+        <layer name="Top" src="data/b.png" composite-op="svg:screen" />
+      </stack></image>`
+    );
+    expect(stack.layers.map((l) => l.name)).toEqual(['Group', 'Top']);
+    expect(stack.layers[0]).toMatchObject({ opacity: 0.5, visible: false, passThrough: true });
+    expect(stack.layers[0]!.children).toMatchObject([{ name: 'Child', opacity: 0.5 }]);
+    expect(stack.layers[1]!.blendMode).toBe('screen');
+  });
+
+  it('should reject files larger than the maximum document size before decoding them', async () => {
+    const zip = createZip([
+      { name: 'mimetype', data: new TextEncoder().encode('image/openraster') },
+      {
+        name: 'stack.xml',
+        data: new TextEncoder().encode(
+          '<image w="5000" h="8"><stack><layer name="A" src="data/a.png" /></stack></image>'
+        ),
+      },
+    ]);
+    await expect(importOra(zip.buffer)).rejects.toThrow('exceeds the maximum');
+  });
+
+  it('should keep groups through export and import and apply masks to the pixels', async () => {
+    vi.stubGlobal('Blob', NodeBlob);
+    vi.mocked(captureDocument).mockReturnValue(createGroupedDocument(true));
+    vi.mocked(captureComposite).mockResolvedValue(createImage(4, 3, [0, 0, 0, 255]));
+
+    const blob = await exportOra();
+    const doc = await importOra(await blob.arrayBuffer());
+
+    expect(describeTree(doc)).toEqual([
+      ['Background', undefined],
+      ['Detail', 'Inner'],
+      ['Inner', 'Folder'],
+      ['Ink', 'Folder'],
+      ['Folder', undefined],
+    ]);
+    const [, , inner, ink, folder] = doc.layers;
+    expect(folder).toMatchObject({ kind: 'group', passThrough: true, visible: false });
+    expect(folder!.opacity).toBeCloseTo(0.6);
+    expect(inner).toMatchObject({ kind: 'group', passThrough: false, blendMode: 'multiply' });
+    // OpenRaster has no masks, so the mask's hidden pixel is transparent instead
+    expect(ink!.mask).toBeUndefined();
+    expect(ink!.imageData.data[3]).toBe(0);
+    expect(ink!.imageData.data[7]).toBe(255);
+  });
+
+  it('should map blend modes both ways', () => {
+    expect(blendModeToOra('color-dodge')).toBe('svg:color-dodge');
+    expect(oraToBlendMode('svg:luminosity')).toBe('luminosity');
+    expect(oraToBlendMode('krita:unknown')).toBe('normal');
+  });
+});
+
+describe('PSD codec', () => {
+  it('should round-trip layers, order and properties', () => {
+    const doc: LayeredDocument = {
+      width: 4,
+      height: 3,
+      layers: [
+        {
+          name: 'Background',
+          imageData: createImage(4, 3, [255, 255, 255, 255]),
+          visible: true,
+          locked: true,
+          opacity: 1,
+          blendMode: 'normal',
+        },
+        {
+          name: 'Schatten ✓',
+          imageData: createImage(4, 3, [10, 20, 30, 128]),
+          visible: false,
+          locked: false,
+          opacity: 0.6,
+          blendMode: 'soft-light',
+        },
+      ],
+    };
+
+    const decoded = decodePsd(encodePsd(doc, createImage(4, 3, [0, 0, 0, 255])));
+
+    expect(decoded.width).toBe(4);
+    expect(decoded.height).toBe(3);
+    expect(decoded.layers.map((l) => l.name)).toEqual(['Background', 'Schatten ✓']);
+    expect(decoded.layers[0]!.locked).toBe(true);
+    expect(decoded.layers[0]!.visible).toBe(true);
+    expect(decoded.layers[1]!.visible).toBe(false);
+    expect(decoded.layers[1]!.opacity).toBeCloseTo(0.6, 2);
+    expect(decoded.layers[1]!.blendMode).toBe('soft-light');
+    expect(Array.from(decoded.layers[1]!.imageData.data.slice(0, 4))).toEqual([10, 20, 30, 128]);
+  });
+
+  it('should round-trip groups, pass-through, collapsed state and masks', () => {
+    const decoded = decodePsd(
+      encodePsd(createGroupedDocument(false), createImage(4, 3, [0, 0, 0, 255]))
+    );
+
+    expect(describeTree(decoded)).toEqual([
+      ['Background', undefined],
+      ['Detail', 'Inner'],
+      ['Inner', 'Folder'],
+      ['Ink', 'Folder'],
+      ['Folder', undefined],
+    ]);
+    const [, detail, inner, ink, folder] = decoded.layers;
+    expect(folder).toMatchObject({
+      kind: 'group',
+      passThrough: true,
+      collapsed: true,
+      visible: false,
+    });
+    expect(folder!.opacity).toBeCloseTo(0.6, 2);
+    expect(inner).toMatchObject({
+      kind: 'group',
+      passThrough: false,
+      collapsed: false,
+      blendMode: 'multiply',
+    });
+    expect(Array.from(detail!.imageData.data.slice(0, 4))).toEqual([10, 20, 30, 255]);
+    expect(ink!.maskEnabled).toBe(false);
+    expect(Array.from(ink!.mask!.data.slice(0, 8))).toEqual([0, 0, 0, 255, 255, 255, 255, 255]);
+  });
+
+  it('should reject PSDs larger than the maximum document size before decoding them', () => {
+    const data = encodePsd(
+      {
+        width: 4,
+        height: 3,
+        layers: [
+          {
+            name: 'Background',
+            imageData: createImage(4, 3, [0, 0, 0, 255]),
+            visible: true,
+            locked: false,
+            opacity: 1,
+            blendMode: 'normal',
+          },
+        ],
+      },
+      createImage(4, 3, [0, 0, 0, 255])
+    );
+    // Width is the big-endian uint32 at offset 18 of the header
+    new DataView(data.buffer, data.byteOffset).setUint32(18, 100000);
+
+    expect(() => decodePsd(data)).toThrow('Document size 100000x3 exceeds the maximum');
+  });
+
+  it('should reject layers larger than the maximum or of negative size', () => {
+    const encode = () =>
+      encodePsd(
+        {
+          width: 4,
+          height: 3,
+          layers: [
+            {
+              name: 'Ink',
+              imageData: createImage(4, 3, [0, 0, 0, 255]),
+              visible: true,
+              locked: false,
+              opacity: 1,
+              blendMode: 'normal',
+            },
+          ],
+        },
+        createImage(4, 3, [0, 0, 0, 255])
+      );
+    // The first layer record's bottom and right are the int32s at offsets 52 and 56
+    const wide = encode();
+    new DataView(wide.buffer, wide.byteOffset).setInt32(56, 100000);
+    expect(() => decodePsd(wide)).toThrow('PSD layer "Ink" size 100000x3 exceeds the maximum');
+
+    const inverted = encode();
+    new DataView(inverted.buffer, inverted.byteOffset).setInt32(52, -5);
+    expect(() => decodePsd(inverted)).toThrow('PSD layer "Ink" has a negative size (4x-5)');
+  });
+
+  it('should reject files that are not PSDs', () => {
+    expect(() => decodePsd(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 0]))).toThrow(
+      'Not a Photoshop file'
+    );
+  });
+
+  it('should map blend modes both ways', () => {
+    expect(blendModeToPsd('exclusion')).toBe('smud');
+    expect(psdToBlendMode('div ')).toBe('color-dodge');
+    expect(psdToBlendMode('pass')).toBe('normal');
+  });
+});
+
+describe('Layered documents', () => {
+  it('should place images at an offset and clip to the document', () => {
+    const placed = placeImageData(createImage(2, 2, [1, 2, 3, 255]), 3, -1, 4, 4);
+    // Only the bottom-left pixel of the source lands at (3, 0)
+    expect(Array.from(placed.data.slice((0 * 4 + 3) * 4, (0 * 4 + 3) * 4 + 4))).toEqual([
+      1, 2, 3, 255,
+    ]);
+    expect(placed.data[(1 * 4 + 3) * 4 + 3]).toBe(0);
+  });
+
+  it('should detect layered formats by extension', () => {
+    expect(detectLayeredFormat({ name: 'art.PSD', type: '' })).toBe('psd');
+    expect(detectLayeredFormat({ name: 'art.ora', type: '' })).toBe('ora');
+    expect(detectLayeredFormat({ name: 'art.pxs', type: '' })).toBe('pxs');
+    expect(detectLayeredFormat({ name: 'art.png', type: 'image/png' })).toBeNull();
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * History Tests
+ * Validates named steps, jumping to any step, the history depth, reloading tiles
+ * spilled to IndexedDB and deleting them, comparing only reported regions, setting
+ * steps aside, branches of undone steps and snapshots
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import History, { type HistoryStep } from '../history';
+import Canvas from '../canvas';
+import StateManager from '../stateManager';
+import indexedDBStorage from '../storage/indexedDB';
+import WorkerManager from '../workers/workerManager';
+import type { AppState } from '../types';
+
+// Document images are told apart by the red channel of their only pixel
+function image(red: number): ImageData {
+  const imageData = new ImageData(1, 1);
+  imageData.data.set([red, 0, 0, 255]);
+  return imageData;
+}
+
+describe('History', () => {
+  let current: ImageData;
+  let putImageData: ReturnType<typeof vi.fn>;
+
+  // Paint a new document image and save it as a step
+  async function saveStep(red: number, label?: string): Promise<void> {
+    current = image(red);
+    await History.saveImmediate(label);
+  }
+
+  function restoredRed(): number | undefined {
+    return (putImageData.mock.calls.at(-1)?.[0] as ImageData | undefined)?.data[0];
+  }
+
+  beforeEach(() => {
+    StateManager.init({ currentTool: 'regular-polygon' } as unknown as AppState);
+    current = image(0);
+    putImageData = vi.fn();
+    const thumbnailSource = document.createElement('canvas');
+    thumbnailSource.width = 64;
+    thumbnailSource.height = 32;
+    vi.spyOn(Canvas, 'getImageData').mockImplementation(() => current);
+    vi.spyOn(Canvas, 'getWidth').mockReturnValue(1);
+    vi.spyOn(Canvas, 'getHeight').mockReturnValue(1);
+    vi.spyOn(Canvas, 'putImageData').mockImplementation(putImageData);
+    vi.spyOn(Canvas, 'getCanvas').mockReturnValue(thumbnailSource);
+    vi.spyOn(indexedDBStorage, 'loadSetting').mockResolvedValue(null);
+    vi.spyOn(indexedDBStorage, 'saveSetting').mockResolvedValue();
+    vi.spyOn(indexedDBStorage, 'listHistorySnapshots').mockResolvedValue([]);
+    History.init(false, 'history-test');
+  });
+
+  afterEach(async () => {
+    await History.setMaxHistory(20);
+    await History.setBranching(false);
+    vi.restoreAllMocks();
+  });
+
+  it('should name steps after the action or the current tool', async () => {
+    const saved: HistoryStep[] = [];
+    const handleSave = (data: { step: HistoryStep }) => saved.push(data.step);
+    History.on('history:save', handleSave);
+
+    await History.saveInitialState();
+    await saveStep(1);
+    await saveStep(2, 'Canvas Size');
+    History.off('history:save', handleSave);
+
+    expect(History.getSteps().map((step) => step.label)).toEqual([
+      'Initial State',
+      'Regular Polygon',
+      'Canvas Size',
+    ]);
+    expect(saved).toEqual(History.getSteps());
+    expect(saved[1]).toMatchObject({ tool: 'regular-polygon' });
+    expect(saved[1]!.timestamp).toBeGreaterThan(0);
+  });
+
+  it('should jump to any step and back', async () => {
+    await History.saveInitialState();
+    for (let red = 1; red <= 4; red++) {
+      await saveStep(red);
+    }
+    const undo = vi.fn();
+    const redo = vi.fn();
+    History.on('history:undo', undo);
+    History.on('history:redo', redo);
+
+    expect(await History.goTo(1)).toBe(true);
+    expect(restoredRed()).toBe(1);
+    expect(History.getIndex()).toBe(1);
+    expect(History.canRedo()).toBe(true);
+    expect(undo).toHaveBeenCalledTimes(1);
+
+    expect(await History.goTo(3)).toBe(true);
+    expect(restoredRed()).toBe(3);
+    expect(redo).toHaveBeenCalledTimes(1);
+
+    expect(await History.goTo(3)).toBe(false);
+    expect(await History.goTo(9)).toBe(false);
+    History.off('history:undo', undo);
+    History.off('history:redo', redo);
+
+    // Saving after a jump drops the steps after it
+    await saveStep(7, 'Fill');
+    expect(History.getSteps().map((step) => step.label)).toHaveLength(5);
+    expect(History.canRedo()).toBe(false);
+  });
+
+  it('should clamp the depth and drop the oldest steps first', async () => {
+    await History.saveInitialState();
+    for (let red = 1; red <= 7; red++) {
+      await saveStep(red);
+    }
+
+    await History.setMaxHistory(1);
+    expect(History.getMaxHistory()).toBe(5);
+    expect(History.getLength()).toBe(5);
+    expect(History.getIndex()).toBe(4);
+    expect(indexedDBStorage.saveSetting).toHaveBeenCalledWith('historyDepth', 5);
+
+    await History.undo();
+    expect(restoredRed()).toBe(6);
+
+    await History.setMaxHistory(500);
+    expect(History.getMaxHistory()).toBe(200);
+  });
+
+  it('should reload steps whose tiles were spilled to IndexedDB', async () => {
+    // Without the worker, tiles are stored uncompressed
+    const records = new Map<string, ArrayBuffer>();
+    vi.spyOn(WorkerManager, 'isHistoryWorkerAvailable').mockReturnValue(false);
+    vi.spyOn(indexedDBStorage, 'saveHistoryEntry').mockImplementation(async (_id, index, data) => {
+      records.set(`record-${index}`, data);
+      return `record-${index}`;
+    });
+    const loadHistoryEntry = vi
+      .spyOn(indexedDBStorage, 'loadHistoryEntry')
+      .mockImplementation(async (id) => records.get(id) ?? null);
+
+    await History.saveInitialState();
+    for (let red = 1; red <= 14; red++) {
+      await saveStep(red);
+    }
+    // Let the spill-over finish
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    // The initial state has no changes of its own to spill
+    expect(records.size).toBe(4);
+    expect(History.getLength()).toBe(15);
+
+    expect(await History.goTo(2)).toBe(true);
+    expect(loadHistoryEntry).toHaveBeenCalledWith('record-2');
+    expect(restoredRed()).toBe(2);
+    expect(await History.goTo(0)).toBe(true);
+    expect(loadHistoryEntry).toHaveBeenCalledWith('record-0');
+    expect(putImageData.mock.calls.at(-1)?.[0].data).toEqual(image(0).data);
+    expect(History.getSteps()[0]!.label).toBe('Initial State');
+  });
+
+  it('should delete the records of spilled steps once they are dropped', async () => {
+    vi.spyOn(WorkerManager, 'isHistoryWorkerAvailable').mockReturnValue(false);
+    vi.spyOn(indexedDBStorage, 'saveHistoryEntry').mockImplementation(
+      async (_id, index) => `record-${index}`
+    );
+    const deleteHistoryEntry = vi.spyOn(indexedDBStorage, 'deleteHistoryEntry').mockResolvedValue();
+
+    await History.saveInitialState();
+    for (let red = 1; red <= 14; red++) {
+      await saveStep(red);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(deleteHistoryEntry).not.toHaveBeenCalled();
+
+    // Trimming to the newest steps drops every spilled one
+    await History.setMaxHistory(5);
+    expect(deleteHistoryEntry.mock.calls.map(([id]) => id).sort()).toEqual([
+      'record-0',
+      'record-1',
+      'record-2',
+      'record-3',
+    ]);
+  });
+
+  it('should set steps aside and bring them back', async () => {
+    await History.saveInitialState();
+    await saveStep(1, 'First');
+    await saveStep(2, 'Second');
+
+    const stack = await History.suspend();
+    expect(History.getSteps()).toEqual([]);
+    await saveStep(5);
+    await History.resume(null);
+    expect(History.getSteps().map((step) => step.label)).toEqual(['Initial State']);
+
+    current = image(2);
+    History.discard(await History.suspend());
+    await History.resume(stack);
+    expect(History.getSteps().map((step) => step.label)).toEqual([
+      'Initial State',
+      'First',
+      'Second',
+    ]);
+    expect(await History.undo()).toBe(true);
+    expect(restoredRed()).toBe(1);
+  });
+
+  it('should let listeners finish their edits before reading the document', async () => {
+    await History.saveInitialState();
+    const finishEdit = () => {
+      current = image(7);
+    };
+    History.on('history:capture', finishEdit);
+
+    await saveStep(3);
+    History.off('history:capture', finishEdit);
+    expect(await History.undo()).toBe(true);
+    expect(await History.redo()).toBe(true);
+    expect(restoredRed()).toBe(7);
+  });
+
+  it('should read only the regions reported as changed', async () => {
+    await History.saveInitialState();
+    const getImageData = vi.mocked(Canvas.getImageData);
+    getImageData.mockClear();
+    const getImageDataRegion = vi
+      .spyOn(Canvas, 'getImageDataRegion')
+      .mockImplementation(() => current);
+    Canvas.markChangedRegion(0, 0, 1, 1);
+    vi.spyOn(Canvas, 'takeHistoryRegions').mockReturnValueOnce([
+      { x: 0, y: 0, width: 1, height: 1 },
+    ]);
+
+    await saveStep(9, 'Pencil');
+    expect(getImageData).not.toHaveBeenCalled();
+    expect(getImageDataRegion).toHaveBeenCalledWith(0, 0, 1, 1);
+
+    expect(await History.undo()).toBe(true);
+    expect(restoredRed()).toBe(0);
+    expect(await History.redo()).toBe(true);
+    expect(restoredRed()).toBe(9);
+
+    // Without reported regions the whole document is compared
+    await saveStep(4);
+    expect(getImageData).toHaveBeenCalled();
+  });
+
+  it('should keep undone steps as a branch and switch back to it', async () => {
+    await History.setBranching(true);
+    await History.saveInitialState();
+    await saveStep(1);
+    await saveStep(2);
+    await History.undo();
+    await History.undo();
+    await saveStep(5, 'Fill');
+
+    expect(History.getSteps().map((step) => step.label)).toEqual(['Initial State', 'Fill']);
+    const [branch] = History.getBranches();
+    expect(branch).toMatchObject({ forkIndex: 0 });
+    expect(branch!.steps).toHaveLength(2);
+
+    expect(await History.switchBranch(branch!.id)).toBe(true);
+    expect(restoredRed()).toBe(2);
+    expect(History.getIndex()).toBe(2);
+    expect(History.getLength()).toBe(3);
+    // The step left behind is now the branch
+    expect(History.getBranches().map((other) => other.steps.map((step) => step.label))).toEqual([
+      ['Fill'],
+    ]);
+
+    await History.setBranching(false);
+    expect(History.getBranches()).toEqual([]);
+  });
+
+  it('should drop undone steps when branching is off', async () => {
+    await History.saveInitialState();
+    await saveStep(1);
+    await History.undo();
+    await saveStep(2);
+    expect(History.getBranches()).toEqual([]);
+  });
+
+  it('should take snapshots and restore them as a new step', async () => {
+    const records = new Map<string, ArrayBuffer>();
+    vi.spyOn(WorkerManager, 'isHistoryWorkerAvailable').mockReturnValue(false);
+    const saveHistorySnapshot = vi
+      .spyOn(indexedDBStorage, 'saveHistorySnapshot')
+      .mockImplementation(async (_projectId, _snapshot, data) => {
+        records.set('snapshot-1', data);
+        return 'snapshot-1';
+      });
+    vi.spyOn(indexedDBStorage, 'loadHistoryEntry').mockImplementation(
+      async (id) => records.get(id) ?? null
+    );
+    const deleteHistoryEntry = vi.spyOn(indexedDBStorage, 'deleteHistoryEntry').mockResolvedValue();
+
+    await History.saveInitialState();
+    await saveStep(3);
+    const snapshot = await History.takeSnapshot('  Sketch ');
+    expect(snapshot).toMatchObject({ id: 'snapshot-1', name: 'Sketch' });
+    expect(saveHistorySnapshot).toHaveBeenCalledWith(
+      'history-test',
+      expect.objectContaining({ name: 'Sketch', layered: false, surfaces: ['canvas'] }),
+      expect.any(ArrayBuffer)
+    );
+    await expect(History.takeSnapshot(' ')).rejects.toThrow('Snapshot name cannot be empty');
+
+    await saveStep(9);
+    await History.restoreSnapshot('snapshot-1');
+    expect(restoredRed()).toBe(3);
+    expect(History.getSteps().at(-1)!.label).toBe('Snapshot: Sketch');
+
+    // Restoring is a step of its own
+    current = putImageData.mock.calls.at(-1)![0] as ImageData;
+    await History.undo();
+    expect(restoredRed()).toBe(9);
+
+    await History.deleteSnapshot('snapshot-1');
+    expect(deleteHistoryEntry).toHaveBeenCalledWith('snapshot-1');
+    expect(History.getSnapshots()).toEqual([]);
+    await expect(History.restoreSnapshot('snapshot-1')).rejects.toThrow('Snapshot not found');
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * History Delta Tests
+ * Validates tile diffs, of whole surfaces and of changed regions, their lossless round trip
+ * and reversible layer commands
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyLayerCommands,
+  applyPixelDelta,
+  diffLayers,
+  diffSurfaceRegions,
+  diffSurfaces,
+  getMaskSurface,
+  parseSurface,
+  type LayerInfo,
+} from '../historyDelta';
+
+function filled(width: number, height: number, rgba = [0, 0, 0, 0]): ImageData {
+  const image = new ImageData(width, height);
+  for (let i = 0; i < image.data.length; i += 4) {
+    image.data.set(rgba, i);
+  }
+  return image;
+}
+
+function setPixel(image: ImageData, x: number, y: number, rgba: number[]): void {
+  image.data.set(rgba, (y * image.width + x) * 4);
+}
+
+function copy(surfaces: Map<string, ImageData>): Map<string, ImageData> {
+  return new Map(
+    [...surfaces].map(([key, image]) => [
+      key,
+      new ImageData(new Uint8ClampedArray(image.data), image.width, image.height),
+    ])
+  );
+}
+
+function layer(id: string, overrides: Partial<LayerInfo> = {}): LayerInfo {
+  return {
+    id,
+    name: id,
+    visible: true,
+    locked: false,
+    opacity: 1,
+    blendMode: 'source-over',
+    hasMask: false,
+    ...overrides,
+  } as LayerInfo;
+}
+
+describe('diffSurfaces', () => {
+  it('should record only the tiles that changed', () => {
+    const before = new Map([['a', filled(10, 10, [10, 20, 30, 255])]]);
+    const after = copy(before);
+    setPixel(after.get('a')!, 7, 8, [1, 2, 3, 4]);
+
+    const delta = diffSurfaces(before, after, 4);
+    expect(delta.surfaces).toEqual([]);
+    expect(delta.tiles).toHaveLength(1);
+    expect(delta.tiles[0]).toMatchObject({ surface: 'a', x: 4, y: 8, width: 4, height: 2 });
+  });
+
+  it('should undo and redo changes without losing any bits', () => {
+    const before = new Map([
+      ['a', filled(9, 5, [200, 100, 50, 255])],
+      [getMaskSurface('a'), filled(9, 5, [255, 255, 255, 255])],
+    ]);
+    const after = copy(before);
+    setPixel(after.get('a')!, 0, 0, [1, 254, 3, 127]);
+    // Cleared tiles are stored as null rather than as a transparent copy
+    for (let x = 4; x < 8; x++) setPixel(after.get('a')!, x, 4, [0, 0, 0, 0]);
+    setPixel(after.get(getMaskSurface('a'))!, 8, 4, [0, 0, 0, 255]);
+
+    const delta = diffSurfaces(before, after, 4);
+    const surfaces = copy(after);
+    applyPixelDelta(surfaces, delta, 'undo');
+    expect(surfaces).toEqual(before);
+    const touched = applyPixelDelta(surfaces, delta, 'redo');
+    expect(surfaces).toEqual(after);
+    expect(touched).toEqual(new Set(['a', getMaskSurface('a')]));
+  });
+
+  it('should rebuild created, removed and resized surfaces', () => {
+    const painted = filled(6, 6);
+    setPixel(painted, 5, 5, [9, 9, 9, 255]);
+    const before = new Map([
+      ['kept', filled(4, 4, [1, 1, 1, 255])],
+      ['removed', painted],
+    ]);
+    const after = new Map([
+      ['kept', filled(6, 2, [1, 1, 1, 255])],
+      ['created', filled(4, 4)],
+    ]);
+
+    const delta = diffSurfaces(before, after, 4);
+    expect(delta.surfaces).toEqual([
+      { surface: 'kept', before: { width: 4, height: 4 }, after: { width: 6, height: 2 } },
+      { surface: 'removed', before: { width: 6, height: 6 }, after: null },
+      { surface: 'created', before: null, after: { width: 4, height: 4 } },
+    ]);
+    // Only the painted tile of the removed surface is stored, and nothing of the blank one
+    expect(delta.tiles.filter((tile) => tile.surface === 'removed')).toHaveLength(1);
+    expect(delta.tiles.filter((tile) => tile.surface === 'created')).toHaveLength(0);
+
+    const surfaces = copy(after);
+    applyPixelDelta(surfaces, delta, 'undo');
+    expect(surfaces).toEqual(before);
+    applyPixelDelta(surfaces, delta, 'redo');
+    expect(surfaces).toEqual(after);
+  });
+});
+
+describe('diffSurfaceRegions', () => {
+  function reader(surfaces: Map<string, ImageData>, reads: string[]) {
+    return (surface: string, x: number, y: number, width: number, height: number) => {
+      reads.push(`${surface}@${x},${y}`);
+      const image = surfaces.get(surface)!;
+      const area = new ImageData(width, height);
+      for (let row = 0; row < height; row++) {
+        const start = ((y + row) * image.width + x) * 4;
+        area.data.set(image.data.subarray(start, start + width * 4), row * width * 4);
+      }
+      return area;
+    };
+  }
+
+  it('should read only the tiles under the regions and find the same changes', () => {
+    const before = new Map([
+      ['a', filled(10, 10, [10, 20, 30, 255])],
+      ['b', filled(10, 10)],
+    ]);
+    const after = copy(before);
+    setPixel(after.get('a')!, 7, 8, [1, 2, 3, 4]);
+    setPixel(after.get('b')!, 5, 9, [1, 2, 3, 4]);
+    const reads: string[] = [];
+
+    const delta = diffSurfaceRegions(
+      before,
+      [{ x: 5, y: 8, width: 3, height: 2 }],
+      { width: 10, height: 10 },
+      reader(after, reads),
+      4
+    );
+    expect(reads).toEqual(['a@4,8', 'b@4,8']);
+    expect(delta).toEqual(diffSurfaces(before, after, 4));
+
+    const surfaces = copy(before);
+    applyPixelDelta(surfaces, delta, 'redo');
+    expect(surfaces).toEqual(after);
+  });
+
+  it('should scale regions to surfaces at a device pixel ratio', () => {
+    const before = new Map([['a', filled(20, 20)]]);
+    const after = copy(before);
+    setPixel(after.get('a')!, 13, 2, [1, 2, 3, 4]);
+    const reads: string[] = [];
+
+    const delta = diffSurfaceRegions(
+      before,
+      [{ x: 6, y: 1, width: 1, height: 1 }],
+      { width: 10, height: 10 },
+      reader(after, reads),
+      4
+    );
+    expect(reads).toEqual(['a@12,0']);
+    expect(delta.tiles).toHaveLength(1);
+  });
+});
+
+describe('layer commands', () => {
+  it('should record and reverse creating, deleting, updating and reordering layers', () => {
+    const before = [layer('a'), layer('b', { opacity: 0.5 }), layer('c')];
+    const after = [layer('d', { hasMask: true }), layer('c'), layer('b', { opacity: 1 })];
+
+    const commands = diffLayers(before, after);
+    expect(commands.map((command) => command.type)).toEqual([
+      'delete',
+      'create',
+      'update',
+      'order',
+    ]);
+    expect(commands[2]).toEqual({
+      type: 'update',
+      id: 'b',
+      before: { opacity: 0.5 },
+      after: { opacity: 1 },
+    });
+
+    expect(applyLayerCommands(after, commands, 'undo')).toEqual(before);
+    expect(applyLayerCommands(before, commands, 'redo')).toEqual(after);
+  });
+
+  it('should record nothing when the layers did not change', () => {
+    const layers = [layer('a'), layer('b')];
+    const copies = layers.map((info) => ({ ...info }));
+    expect(diffLayers(layers, copies)).toEqual([]);
+  });
+
+  it('should tell mask surfaces from layer surfaces', () => {
+    expect(parseSurface(getMaskSurface('layer-1'))).toEqual({ layerId: 'layer-1', mask: true });
+    expect(parseSurface('layer-1')).toEqual({ layerId: 'layer-1', mask: false });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Image Size Tests
+ * Validates resampling, anchored canvas resizing and trimming, and that each command
+ * applies to the whole document as one history step
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Layers from '../layers';
+import Canvas from '../canvas';
+import CanvasUtils from '../canvasUtils';
+import StateManager from '../stateManager';
+import History from '../history';
+import ImageSizeActions from '../imageSizeActions';
+import {
+  getAnchorOffset,
+  getContentBounds,
+  isIntegerScale,
+  placeImageData,
+  resampleImageData,
+} from '../imageSize';
+import { createAppState } from '../../test/appState';
+
+function pixelAt(image: ImageData, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.slice(i, i + 4));
+}
+
+describe('Image size helpers', () => {
+  it('should place content according to the anchor', () => {
+    const from = { width: 4, height: 4 };
+    const to = { width: 10, height: 8 };
+    expect(getAnchorOffset('top-left', from, to)).toEqual({ x: 0, y: 0 });
+    expect(getAnchorOffset('center', from, to)).toEqual({ x: 3, y: 2 });
+    expect(getAnchorOffset('bottom-right', from, to)).toEqual({ x: 6, y: 4 });
+    expect(getAnchorOffset('right', to, from)).toEqual({ x: -6, y: -2 });
+  });
+
+  it('should scale every pixel to a block for whole-number nearest neighbour upscales', () => {
+    const source = new ImageData(2, 1);
+    source.data.set([255, 0, 0, 255, 0, 0, 255, 255]);
+    expect(isIntegerScale({ width: 2, height: 1 }, { width: 6, height: 3 })).toBe(true);
+    expect(isIntegerScale({ width: 2, height: 1 }, { width: 5, height: 3 })).toBe(false);
+
+    const scaled = resampleImageData(source, 6, 3, 'nearest');
+    for (let y = 0; y < 3; y++) {
+      for (let x = 0; x < 6; x++) {
+        expect(pixelAt(scaled, x, y)).toEqual(x < 3 ? [255, 0, 0, 255] : [0, 0, 255, 255]);
+      }
+    }
+  });
+
+  it('should crop or extend with an optional fill when placing content', () => {
+    const source = new ImageData(2, 2);
+    source.data.fill(255);
+
+    const extended = placeImageData(source, 4, 4, 1, 1, [0, 255, 0, 255]);
+    expect(pixelAt(extended, 0, 0)).toEqual([0, 255, 0, 255]);
+    expect(pixelAt(extended, 1, 1)).toEqual([255, 255, 255, 255]);
+    expect(pixelAt(extended, 3, 3)).toEqual([0, 255, 0, 255]);
+
+    const cropped = placeImageData(source, 1, 1, -1, -1);
+    expect(cropped.width).toBe(1);
+    expect(pixelAt(cropped, 0, 0)).toEqual([255, 255, 255, 255]);
+    expect(placeImageData(source, 3, 3, 5, 5).data.every((value) => value === 0)).toBe(true);
+  });
+
+  it('should combine the content bounds of every image', () => {
+    const first = new ImageData(8, 8);
+    first.data.set([0, 0, 0, 255], (1 * 8 + 2) * 4);
+    const second = new ImageData(8, 8);
+    second.data.set([0, 0, 0, 255], (5 * 8 + 6) * 4);
+
+    expect(getContentBounds([first, second])).toEqual({ x: 2, y: 1, width: 5, height: 5 });
+    expect(getContentBounds([new ImageData(8, 8)])).toBeNull();
+    expect(getContentBounds([first, second], [{ x: 0, y: 0, width: 4, height: 4 }, null])).toEqual({
+      x: 2,
+      y: 1,
+      width: 5,
+      height: 5,
+    });
+    expect(getContentBounds([second], [{ x: 0, y: 0, width: 4, height: 4 }])).toBeNull();
+  });
+});
+
+describe('ImageSizeActions', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    const mockCanvas = document.createElement('canvas');
+    mockCanvas.width = 16;
+    mockCanvas.height = 16;
+    CanvasUtils.init(mockCanvas, 16, 16, 1);
+
+    StateManager.init(createAppState());
+    Canvas.init(mockCanvas, undefined, true);
+    History.init(true);
+    // The mock 2D context cannot resize layer canvases
+    vi.spyOn(Canvas, 'resize').mockImplementation(() => {});
+    vi.spyOn(Canvas, 'triggerRender').mockResolvedValue(undefined);
+    vi.spyOn(History, 'saveImmediate').mockResolvedValue(undefined);
+    Layers.init(mockCanvas, mockCanvas.getContext('2d')!);
+  });
+
+  // Layer with an opaque 4x4 square at (2, 2)
+  function createSpriteLayer() {
+    const layer = Layers.createLayer('Sprite');
+    const pixels = new ImageData(16, 16);
+    for (let y = 2; y < 6; y++) {
+      for (let x = 2; x < 6; x++) {
+        pixels.data.set([255, 0, 0, 255], (y * 16 + x) * 4);
+      }
+    }
+    Layers.getCachedContext(layer.canvas)!.putImageData(pixels, 0, 0);
+    return layer;
+  }
+
+  it('should resize the image as a single history step', async () => {
+    createSpriteLayer();
+    await ImageSizeActions.resizeImage(32, 32, 'nearest');
+
+    expect(Canvas.resize).toHaveBeenCalledWith(32, 32);
+    expect(History.saveImmediate).toHaveBeenCalledTimes(1);
+
+    await ImageSizeActions.resizeImage(16, 16);
+    expect(History.saveImmediate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resize the canvas around an anchor as a single history step', async () => {
+    createSpriteLayer();
+    await ImageSizeActions.resizeCanvas(24, 20, 'bottom-right', '#ffffff');
+
+    expect(Canvas.resize).toHaveBeenCalledWith(24, 20);
+    expect(History.saveImmediate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should trim the canvas to the layer content, even where bounds were not tracked', async () => {
+    createSpriteLayer();
+    expect(await ImageSizeActions.trimToContent()).toBe(true);
+
+    expect(Canvas.resize).toHaveBeenCalledWith(4, 4);
+    expect(History.saveImmediate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid sizes and empty documents', async () => {
+    Layers.createLayer('Empty');
+    await expect(ImageSizeActions.resizeImage(0, 16)).rejects.toThrow('whole numbers');
+    await expect(ImageSizeActions.resizeCanvas(16, 1.5)).rejects.toThrow('whole numbers');
+    await expect(ImageSizeActions.trimToContent()).rejects.toThrow('Nothing to trim');
+    expect(History.saveImmediate).not.toHaveBeenCalled();
+  });
+});
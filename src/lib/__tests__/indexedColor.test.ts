@@ -0,0 +1,234 @@
+/**
+ * Indexed Color Tests
+ * Validates palette mapping, snapping edits before history captures them, palette edits
+ * and their undo, and indexed PNG encoding
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import IndexedColor, { quantizeToPalette, collectPalette } from '../indexedColor';
+import Layers from '../layers';
+import Canvas from '../canvas';
+import History from '../history';
+import CanvasUtils from '../canvasUtils';
+import StateManager from '../stateManager';
+import EventEmitter from '../utils/eventEmitter';
+import type { AppState } from '../types';
+import { encodeIndexedPng, readPngChunks } from '../formats/png';
+import type { PaletteColor } from '../types';
+
+const PALETTE: PaletteColor[] = [
+  { r: 0, g: 0, b: 0, a: 0 },
+  { r: 255, g: 0, b: 0, a: 255 },
+  { r: 0, g: 0, b: 255, a: 255 },
+  { r: 0, g: 255, b: 0, a: 128 },
+];
+
+function createPixels(pixels: [number, number, number, number][]): ImageData {
+  const image = new ImageData(pixels.length, 1);
+  pixels.forEach((rgba, i) => image.data.set(rgba, i * 4));
+  return image;
+}
+
+// The shared test context keeps one image for every canvas, so each canvas gets its own here
+function giveCanvasesOwnPixels(): void {
+  const shared = document.createElement('canvas').getContext('2d')!;
+  const contexts = new WeakMap<HTMLCanvasElement, CanvasRenderingContext2D>();
+
+  function createContext(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+    let pixels = new ImageData(1, 1);
+    const current = () => {
+      if (pixels.width !== canvas.width || pixels.height !== canvas.height) {
+        pixels = new ImageData(Math.max(canvas.width, 1), Math.max(canvas.height, 1));
+      }
+      return pixels;
+    };
+    return Object.assign(Object.create(shared), {
+      canvas,
+      getImageData: (x: number, y: number, width: number, height: number) => {
+        const image = new ImageData(width, height);
+        for (let row = 0; row < height; row++) {
+          const start = ((y + row) * current().width + x) * 4;
+          image.data.set(current().data.subarray(start, start + width * 4), row * width * 4);
+        }
+        return image;
+      },
+      putImageData: (
+        image: ImageData,
+        dx: number,
+        dy: number,
+        sx = 0,
+        sy = 0,
+        ...size: number[]
+      ) => {
+        const [width = image.width, height = image.height] = size;
+        for (let row = sy; row < sy + height; row++) {
+          const start = (row * image.width + sx) * 4;
+          current().data.set(
+            image.data.subarray(start, start + width * 4),
+            ((dy + row) * current().width + dx + sx) * 4
+          );
+        }
+      },
+      clearRect: () => current().data.fill(0),
+    }) as CanvasRenderingContext2D;
+  }
+
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (
+    this: HTMLCanvasElement
+  ) {
+    const context = contexts.get(this) ?? createContext(this);
+    contexts.set(this, context);
+    return context;
+  } as unknown as typeof HTMLCanvasElement.prototype.getContext);
+}
+
+async function inflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Response(data).body!.pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+describe('Palette mapping', () => {
+  it('should keep exact palette colors and snap everything else', () => {
+    const image = createPixels([
+      [255, 0, 0, 255], // Exact red
+      [0, 255, 0, 128], // Exact translucent green
+      [20, 10, 230, 255], // Near blue
+      [255, 0, 0, 40], // Mostly transparent
+    ]);
+    const result = quantizeToPalette(image, PALETTE);
+
+    expect(Array.from(result.indices)).toEqual([1, 3, 2, 0]);
+    expect(result.changed).toBe(true);
+    expect(Array.from(result.imageData.data.slice(8, 12))).toEqual([0, 0, 255, 255]);
+    expect(Array.from(result.imageData.data.slice(12, 16))).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should report no change for pixels already on the palette', () => {
+    const image = createPixels([
+      [0, 0, 255, 255],
+      [0, 0, 0, 0],
+    ]);
+    expect(quantizeToPalette(image, PALETTE).changed).toBe(false);
+  });
+
+  it('should collect distinct colors after the transparent entry', () => {
+    const image = createPixels([
+      [1, 2, 3, 255],
+      [1, 2, 3, 255],
+      [9, 9, 9, 0],
+      [4, 5, 6, 200],
+    ]);
+    expect(collectPalette([image])).toEqual([
+      { r: 0, g: 0, b: 0, a: 0 },
+      { r: 1, g: 2, b: 3, a: 255 },
+      { r: 4, g: 5, b: 6, a: 200 },
+    ]);
+
+    const colorful = new ImageData(256, 1);
+    for (let i = 0; i < 256; i++) colorful.data.set([i, 0, 0, 255], i * 4);
+    expect(collectPalette([colorful])).toBeNull();
+  });
+});
+
+describe('Indexed mode', () => {
+  beforeEach(async () => {
+    giveCanvasesOwnPixels();
+    const canvas = document.createElement('canvas');
+    canvas.width = 2;
+    canvas.height = 1;
+    CanvasUtils.init(canvas, 2, 1, 1);
+    StateManager.init({ layers: [], activeLayerId: null } as unknown as AppState);
+    Canvas.init(canvas, undefined, true);
+    vi.spyOn(Canvas, 'getDirtyRegions').mockReturnValue([]);
+    vi.spyOn(Canvas, 'clearDirtyRegions').mockImplementation(() => {});
+    Layers.init(canvas, canvas.getContext('2d')!);
+    Layers.createLayer('Layer 1');
+    await IndexedColor.enable(PALETTE);
+  });
+
+  afterEach(() => {
+    IndexedColor.disable();
+    vi.restoreAllMocks();
+  });
+
+  it('should snap the active layer to the palette before history captures a step', () => {
+    const layerId = Layers.getActiveLayerId()!;
+    Layers.putImageData(
+      layerId,
+      createPixels([
+        [250, 10, 5, 255],
+        [0, 0, 255, 255],
+      ])
+    );
+    const markChangedRegion = vi.spyOn(Canvas, 'markChangedRegion');
+
+    EventEmitter.emit('history:capture', {});
+    expect(Array.from(Layers.getImageData(layerId)!.data)).toEqual([
+      255, 0, 0, 255, 0, 0, 255, 255,
+    ]);
+    expect(markChangedRegion).toHaveBeenCalledWith(0, 0, 2, 1);
+  });
+
+  it('should recolor pixels of an edited palette entry and undo and redo the edit', async () => {
+    const layerId = Layers.getActiveLayerId()!;
+    Layers.putImageData(
+      layerId,
+      createPixels([
+        [255, 0, 0, 255],
+        [0, 0, 255, 255],
+      ])
+    );
+    History.init(true, 'indexed-test');
+    History.setTestMode(true);
+    await History.saveInitialState();
+    const yellow = { r: 255, g: 255, b: 0, a: 255 };
+
+    await IndexedColor.setPaletteColor(1, yellow);
+    expect(IndexedColor.getPalette()[1]).toEqual(yellow);
+    expect(Array.from(Layers.getImageData(layerId)!.data)).toEqual([
+      255, 255, 0, 255, 0, 0, 255, 255,
+    ]);
+    expect(History.getSteps().at(-1)?.label).toBe('Palette Color');
+
+    // The palette is back before the layers are re-synced, so red is not snapped to yellow
+    await History.undo();
+    expect(IndexedColor.getPalette()).toEqual(PALETTE);
+    expect(Array.from(Layers.getImageData(layerId)!.data)).toEqual([
+      255, 0, 0, 255, 0, 0, 255, 255,
+    ]);
+
+    await History.redo();
+    expect(IndexedColor.getPalette()[1]).toEqual(yellow);
+    expect(Array.from(Layers.getImageData(layerId)!.data)).toEqual([
+      255, 255, 0, 255, 0, 0, 255, 255,
+    ]);
+  });
+});
+
+describe('Indexed PNG encoding', () => {
+  it('should write IHDR, PLTE, tRNS and filtered index rows', async () => {
+    const indices = new Uint8Array([0, 1, 2, 3, 1, 1]);
+    const png = await encodeIndexedPng(indices, 3, 2, PALETTE);
+    const chunks = readPngChunks(png);
+
+    expect(chunks.map((c) => c.type)).toEqual(['IHDR', 'PLTE', 'tRNS', 'IDAT', 'IEND']);
+    expect(Array.from(chunks[0]!.data.slice(8, 10))).toEqual([8, 3]);
+    expect(Array.from(chunks[1]!.data)).toEqual([0, 0, 0, 255, 0, 0, 0, 0, 255, 0, 255, 0]);
+    // tRNS stops at the last translucent entry
+    expect(Array.from(chunks[2]!.data)).toEqual([0, 255, 255, 128]);
+
+    const raw = await inflate(new Uint8Array(chunks[3]!.data));
+    expect(Array.from(raw)).toEqual([0, 0, 1, 2, 0, 3, 1, 1]);
+  });
+
+  it('should omit tRNS for fully opaque palettes and validate input', async () => {
+    const opaque = PALETTE.slice(1, 3);
+    const chunks = readPngChunks(await encodeIndexedPng(new Uint8Array([0, 1]), 2, 1, opaque));
+    expect(chunks.map((c) => c.type)).not.toContain('tRNS');
+
+    await expect(encodeIndexedPng(new Uint8Array(3), 2, 1, opaque)).rejects.toThrow(
+      'does not match'
+    );
+    await expect(encodeIndexedPng(new Uint8Array(1), 1, 1, [])).rejects.toThrow('palette');
+  });
+});
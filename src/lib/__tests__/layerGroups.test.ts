@@ -0,0 +1,190 @@
+/**
+ * Layer Group Tests
+ * Validates the group hierarchy helpers and group operations on the layer stack
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Layers from '../layers';
+import Canvas from '../canvas';
+import CanvasUtils from '../canvasUtils';
+import StateManager from '../stateManager';
+import type { Layer } from '../types';
+import { createAppState } from '../../test/appState';
+import {
+  buildLayerTree,
+  compositeLayerTree,
+  getAncestors,
+  getLayerBlock,
+  normalizeLayerOrder,
+} from '../layerTree';
+
+function createEntry(id: string, extra: Partial<Layer> = {}): Layer {
+  return {
+    id,
+    name: id,
+    canvas: document.createElement('canvas'),
+    visible: true,
+    locked: false,
+    opacity: 1,
+    blendMode: 'normal',
+    ...extra,
+  };
+}
+
+describe('Layer tree helpers', () => {
+  // Bottom to top: a, [g: b, [inner: c]], d
+  const stack = [
+    createEntry('a'),
+    createEntry('b', { parentId: 'g' }),
+    createEntry('c', { parentId: 'inner' }),
+    createEntry('inner', { kind: 'group', parentId: 'g', opacity: 0.5, passThrough: true }),
+    createEntry('g', { kind: 'group', opacity: 0.5, passThrough: true }),
+    createEntry('d'),
+  ];
+
+  it('should build nested groups and treat invalid parents as top-level', () => {
+    const tree = buildLayerTree([...stack, createEntry('orphan', { parentId: 'missing' })]);
+    expect(tree.map((node) => node.layer.id)).toEqual(['a', 'g', 'd', 'orphan']);
+    expect(tree[1]!.children.map((node) => node.layer.id)).toEqual(['b', 'inner']);
+    expect(tree[1]!.children[1]!.children.map((node) => node.layer.id)).toEqual(['c']);
+  });
+
+  it('should ignore cyclic parents', () => {
+    const tree = buildLayerTree([
+      createEntry('x', { kind: 'group', parentId: 'y' }),
+      createEntry('y', { kind: 'group', parentId: 'x' }),
+    ]);
+    expect(tree.map((node) => node.layer.id)).toEqual(['x', 'y']);
+  });
+
+  it('should find blocks and ancestors', () => {
+    expect(getLayerBlock(stack, 'g').map((l) => l.id)).toEqual(['b', 'c', 'inner', 'g']);
+    expect(getLayerBlock(stack, 'a').map((l) => l.id)).toEqual(['a']);
+    expect(getAncestors(stack, 'c').map((l) => l.id)).toEqual(['inner', 'g']);
+  });
+
+  it('should move group members directly below their group', () => {
+    const scrambled = [stack[1]!, stack[5]!, stack[4]!, stack[0]!, stack[2]!, stack[3]!];
+    expect(normalizeLayerOrder(scrambled).map((l) => l.id)).toEqual([
+      'd',
+      'b',
+      'c',
+      'inner',
+      'g',
+      'a',
+    ]);
+  });
+
+  it('should multiply pass-through group opacity into member opacity', () => {
+    const drawLayer = vi.fn();
+    const ctx = document.createElement('canvas').getContext('2d')!;
+    compositeLayerTree(ctx, buildLayerTree(stack), 8, 8, drawLayer);
+
+    const drawn = drawLayer.mock.calls.map(([, layer, opacity]) => [layer.id, opacity]);
+    expect(drawn).toEqual([
+      ['a', 1],
+      ['b', 0.5],
+      ['c', 0.25],
+      ['d', 1],
+    ]);
+  });
+
+  it('should skip hidden groups entirely', () => {
+    const drawLayer = vi.fn();
+    const ctx = document.createElement('canvas').getContext('2d')!;
+    const hidden = stack.map((l) => (l.id === 'g' ? { ...l, visible: false } : l));
+    compositeLayerTree(ctx, buildLayerTree(hidden), 8, 8, drawLayer);
+    expect(drawLayer.mock.calls.map(([, layer]) => layer.id)).toEqual(['a', 'd']);
+  });
+});
+
+describe('Layer group operations', () => {
+  beforeEach(() => {
+    const mockCanvas = document.createElement('canvas');
+    mockCanvas.width = 32;
+    mockCanvas.height = 32;
+    CanvasUtils.init(mockCanvas, 32, 32, 1);
+
+    StateManager.init(createAppState());
+    Canvas.init(mockCanvas, undefined, true);
+    vi.spyOn(Canvas, 'getDirtyRegions').mockReturnValue([]);
+    vi.spyOn(Canvas, 'clearDirtyRegions').mockImplementation(() => {});
+    Layers.init(mockCanvas, mockCanvas.getContext('2d')!);
+  });
+
+  const names = () => Layers.getAllLayers().map((l) => l.name);
+
+  it('should wrap layers in a group placed above the topmost member', () => {
+    const first = Layers.createLayer('First');
+    const second = Layers.createLayer('Second');
+    Layers.createLayer('Third');
+
+    const group = Layers.createGroup('Group', [first.id, second.id]);
+    expect(names()).toEqual(['First', 'Second', 'Group', 'Third']);
+    expect(Layers.getLayer(first.id)!.parentId).toBe(group.id);
+    expect(Layers.getLayer(group.id)!.kind).toBe('group');
+  });
+
+  it('should move layers into and out of groups without breaking blocks', () => {
+    const first = Layers.createLayer('First');
+    const second = Layers.createLayer('Second');
+    const group = Layers.createGroup('Group', [first.id]);
+
+    expect(Layers.moveLayer(second.id, group.id, 'inside')).toBe(true);
+    expect(names()).toEqual(['First', 'Second', 'Group']);
+    expect(Layers.getLayer(second.id)!.parentId).toBe(group.id);
+
+    expect(Layers.moveLayer(group.id, second.id, 'above')).toBe(false);
+    expect(Layers.moveLayer(first.id, group.id, 'above')).toBe(true);
+    expect(names()).toEqual(['Second', 'Group', 'First']);
+    expect(Layers.getLayer(first.id)!.parentId).toBeUndefined();
+  });
+
+  it('should lock members through their group', () => {
+    const first = Layers.createLayer('First');
+    const group = Layers.createGroup('Group', [first.id]);
+    expect(Layers.isLayerLocked(first.id)).toBe(false);
+    Layers.updateLayer(group.id, { locked: true });
+    expect(Layers.isLayerLocked(first.id)).toBe(true);
+    expect(Layers.clearLayer(first.id)).toBe(false);
+  });
+
+  it('should delete and duplicate whole groups', () => {
+    const first = Layers.createLayer('First');
+    const second = Layers.createLayer('Second');
+    const group = Layers.createGroup('Group', [second.id]);
+
+    const copy = Layers.duplicateLayer(group.id)!;
+    expect(names()).toEqual(['First', 'Second', 'Group', 'Second', 'Group Copy']);
+    const copiedMember = Layers.getAllLayers()[3]!;
+    expect(copiedMember.id).not.toBe(second.id);
+    expect(copiedMember.parentId).toBe(copy.id);
+
+    expect(Layers.deleteLayer(group.id)).toBe(true);
+    expect(names()).toEqual(['First', 'Second', 'Group Copy']);
+    expect(Layers.getLayer(first.id)).toBeDefined();
+  });
+
+  it('should flatten a group into one layer with the group blending', () => {
+    const first = Layers.createLayer('First');
+    const group = Layers.createGroup('Group', [first.id]);
+    Layers.updateLayer(group.id, { opacity: 0.5, blendMode: 'multiply' });
+
+    const flattened = Layers.flattenGroup(group.id)!;
+    expect(names()).toEqual(['Group']);
+    expect(flattened.kind).toBeUndefined();
+    expect(flattened.opacity).toBe(0.5);
+    expect(flattened.blendMode).toBe('multiply');
+    expect(Layers.getActiveLayerId()).toBe(flattened.id);
+  });
+
+  it('should merge group members into one layer inside the group', () => {
+    const first = Layers.createLayer('First');
+    const second = Layers.createLayer('Second');
+    const group = Layers.createGroup('Group', [first.id, second.id]);
+
+    const merged = Layers.mergeGroup(group.id)!;
+    expect(names()).toEqual(['Group Merged', 'Group']);
+    expect(merged.parentId).toBe(group.id);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Layer Mask Tests
+ * Validates mask pixel math and the layer mask lifecycle
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Layers from '../layers';
+import Canvas from '../canvas';
+import CanvasUtils from '../canvasUtils';
+import StateManager from '../stateManager';
+import { createAppState } from '../../test/appState';
+import {
+  MASK_REVEAL,
+  applyMaskToImageData,
+  coverageToMaskImageData,
+  maskValueAt,
+} from '../layerMask';
+
+function createPixels(pixels: [number, number, number, number][]): ImageData {
+  const image = new ImageData(pixels.length, 1);
+  pixels.forEach((rgba, i) => image.data.set(rgba, i * 4));
+  return image;
+}
+
+describe('Layer mask pixels', () => {
+  it('should read mask values as luminance scaled by alpha', () => {
+    const mask = createPixels([
+      [255, 255, 255, 255],
+      [0, 0, 0, 255],
+      [255, 255, 255, 0],
+      [255, 255, 255, 128],
+    ]);
+    expect(maskValueAt(mask.data, 0)).toBe(MASK_REVEAL);
+    expect(maskValueAt(mask.data, 1)).toBe(0);
+    expect(maskValueAt(mask.data, 2)).toBe(0);
+    expect(maskValueAt(mask.data, 3)).toBe(128);
+  });
+
+  it('should scale layer alpha by the mask and leave the input untouched', () => {
+    const layer = createPixels([
+      [10, 20, 30, 255],
+      [10, 20, 30, 255],
+      [10, 20, 30, 200],
+    ]);
+    const mask = createPixels([
+      [255, 255, 255, 255],
+      [0, 0, 0, 255],
+      [128, 128, 128, 255],
+    ]);
+    const result = applyMaskToImageData(layer, mask);
+
+    expect(Array.from(result.data.slice(0, 4))).toEqual([10, 20, 30, 255]);
+    expect(result.data[7]).toBe(0);
+    expect(result.data[11]).toBe(100);
+    expect(layer.data[7]).toBe(255);
+  });
+
+  it('should convert selection coverage to grayscale mask pixels', () => {
+    const coverage = new Uint8Array([0, 128, 255]);
+    const mask = coverageToMaskImageData(coverage, 3, 1);
+    expect([0, 1, 2].map((i) => maskValueAt(mask.data, i))).toEqual([0, 128, 255]);
+  });
+});
+
+describe('Layer mask lifecycle', () => {
+  beforeEach(() => {
+    const mockCanvas = document.createElement('canvas');
+    mockCanvas.width = 64;
+    mockCanvas.height = 64;
+    CanvasUtils.init(mockCanvas, 64, 64, 1);
+
+    StateManager.init(createAppState());
+    Canvas.init(mockCanvas, undefined, true);
+    vi.spyOn(Canvas, 'getDirtyRegions').mockReturnValue([]);
+    vi.spyOn(Canvas, 'clearDirtyRegions').mockImplementation(() => {});
+    Layers.init(mockCanvas, mockCanvas.getContext('2d')!);
+  });
+
+  it('should add one logical-size mask per layer and remove it again', () => {
+    const layer = Layers.createLayer('Masked');
+    expect(Layers.addLayerMask(layer.id)).toBe(true);
+    expect(Layers.addLayerMask(layer.id)).toBe(false);
+
+    const masked = Layers.getLayer(layer.id)!;
+    expect(masked.mask?.width).toBe(64);
+    expect(masked.maskEnabled).toBe(true);
+
+    expect(Layers.setLayerMaskEnabled(layer.id, false)).toBe(true);
+    expect(Layers.getLayer(layer.id)!.maskEnabled).toBe(false);
+
+    expect(Layers.deleteLayerMask(layer.id)).toBe(true);
+    expect(Layers.getLayer(layer.id)!.mask).toBeUndefined();
+  });
+
+  it('should route painting to the mask only while editing it on the active layer', () => {
+    const first = Layers.createLayer('First');
+    const second = Layers.createLayer('Second');
+    Layers.setActiveLayer(first.id);
+
+    expect(Layers.setMaskEditing(true)).toBe(false);
+    Layers.addLayerMask(first.id);
+    expect(Layers.setMaskEditing(true)).toBe(true);
+    expect(Layers.isEditingMask()).toBe(true);
+    expect(Layers.getPaintCanvas(Layers.getLayer(first.id)!)).toBe(Layers.getLayer(first.id)!.mask);
+
+    // Switching layers goes back to painting pixels
+    Layers.setActiveLayer(second.id);
+    expect(Layers.isEditingMask()).toBe(false);
+    expect(Layers.getPaintCanvas(Layers.getLayer(first.id)!)).toBe(first.canvas);
+  });
+
+  it('should copy masks into history snapshots', () => {
+    const layer = Layers.createLayer('Masked');
+    Layers.addLayerMask(layer.id);
+    const liveMask = Layers.getLayer(layer.id)!.mask;
+
+    const snapshot = Layers._createLayerSnapshot();
+    expect(snapshot.layers[0]!.mask).toBeDefined();
+    expect(snapshot.layers[0]!.mask).not.toBe(liveMask);
+
+    Layers.deleteLayerMask(layer.id);
+    Layers._restoreLayersFromState(snapshot);
+    const restored = Layers.getLayer(layer.id)!;
+    expect(restored.mask).toBeDefined();
+    expect(restored.mask).not.toBe(snapshot.layers[0]!.mask);
+    expect(restored.maskEnabled).toBe(true);
+  });
+});
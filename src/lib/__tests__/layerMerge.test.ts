@@ -0,0 +1,135 @@
+/**
+ * Layer Merge Tests
+ * Validates blend math used when merging and the merge commands on the layer stack
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Layers from '../layers';
+import Canvas from '../canvas';
+import CanvasUtils from '../canvasUtils';
+import StateManager from '../stateManager';
+import History from '../history';
+import LayerMergeActions from '../layerMergeActions';
+import { applyBlendMode } from '../blendModes';
+import { createAppState } from '../../test/appState';
+
+function createPixel(rgba: [number, number, number, number]): ImageData {
+  const image = new ImageData(1, 1);
+  image.data.set(rgba);
+  return image;
+}
+
+describe('Blend math', () => {
+  it('should show the overlay unblended where the base is transparent', () => {
+    const result = applyBlendMode(
+      createPixel([0, 0, 0, 0]),
+      createPixel([200, 100, 50, 255]),
+      'multiply',
+      1
+    );
+    expect(Array.from(result.data)).toEqual([200, 100, 50, 255]);
+  });
+
+  it('should blend with opacity over an opaque base', () => {
+    const result = applyBlendMode(
+      createPixel([100, 100, 100, 255]),
+      createPixel([200, 200, 200, 255]),
+      'normal',
+      0.5
+    );
+    expect(Array.from(result.data)).toEqual([150, 150, 150, 255]);
+  });
+
+  it('should combine partially transparent pixels with source-over alpha', () => {
+    const result = applyBlendMode(
+      createPixel([255, 0, 0, 255]),
+      createPixel([0, 0, 255, 128]),
+      'normal',
+      1
+    );
+    expect(result.data[3]).toBe(255);
+    expect(result.data[2]).toBe(128);
+  });
+});
+
+describe('Layer merge commands', () => {
+  beforeEach(() => {
+    const mockCanvas = document.createElement('canvas');
+    mockCanvas.width = 16;
+    mockCanvas.height = 16;
+    CanvasUtils.init(mockCanvas, 16, 16, 1);
+
+    StateManager.init(createAppState());
+    Canvas.init(mockCanvas, undefined, true);
+    History.init(true);
+    vi.spyOn(Canvas, 'getDirtyRegions').mockReturnValue([]);
+    vi.spyOn(Canvas, 'clearDirtyRegions').mockImplementation(() => {});
+    vi.spyOn(Canvas, 'triggerRender').mockResolvedValue(undefined);
+    vi.spyOn(History, 'saveImmediate').mockResolvedValue(undefined);
+    Layers.init(mockCanvas, mockCanvas.getContext('2d')!);
+  });
+
+  const names = () => Layers.getAllLayers().map((l) => l.name);
+
+  it('should merge a layer into the one below it in a single history step', async () => {
+    const bottom = Layers.createLayer('Bottom');
+    const top = Layers.createLayer('Top');
+    Layers.updateLayer(bottom.id, { opacity: 0.5, blendMode: 'screen' });
+
+    await LayerMergeActions.mergeDown(top.id);
+    expect(names()).toEqual(['Bottom']);
+    expect(Layers.getLayer(bottom.id)!.opacity).toBe(0.5);
+    expect(Layers.getLayer(bottom.id)!.blendMode).toBe('screen');
+    expect(History.saveImmediate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse to merge down onto a locked layer or past the bottom', async () => {
+    const bottom = Layers.createLayer('Bottom');
+    const top = Layers.createLayer('Top');
+    await expect(LayerMergeActions.mergeDown(bottom.id)).rejects.toThrow('no layer below');
+
+    Layers.updateLayer(bottom.id, { locked: true });
+    await expect(LayerMergeActions.mergeDown(top.id)).rejects.toThrow('locked');
+    expect(names()).toEqual(['Bottom', 'Top']);
+  });
+
+  it('should merge visible layers and keep hidden ones', async () => {
+    Layers.createLayer('One');
+    const hidden = Layers.createLayer('Hidden');
+    Layers.createLayer('Two');
+    Layers.updateLayer(hidden.id, { visible: false });
+
+    await LayerMergeActions.mergeVisible();
+    expect(names()).toEqual(['Hidden', 'Merged']);
+    expect(Layers.getActiveLayerId()).toBe(Layers.getAllLayers()[1]!.id);
+  });
+
+  it('should merge selected layers at the position of the topmost one', async () => {
+    const one = Layers.createLayer('One');
+    Layers.createLayer('Two');
+    const three = Layers.createLayer('Three');
+    Layers.createLayer('Four');
+
+    await LayerMergeActions.mergeSelected([one.id, three.id]);
+    expect(names()).toEqual(['Two', 'Three', 'Four']);
+  });
+
+  it('should merge selected groups and remove them once empty', async () => {
+    const one = Layers.createLayer('One');
+    const two = Layers.createLayer('Two');
+    const group = Layers.createGroup('Group', [one.id, two.id]);
+
+    await LayerMergeActions.mergeSelected([group.id]);
+    expect(names()).toEqual(['Two']);
+    expect(Layers.getAllLayers()[0]!.parentId).toBeUndefined();
+  });
+
+  it('should flatten everything into one layer', async () => {
+    Layers.createLayer('One');
+    const hidden = Layers.createLayer('Hidden');
+    Layers.updateLayer(hidden.id, { visible: false });
+
+    await LayerMergeActions.flattenImage();
+    expect(names()).toEqual(['Background']);
+  });
+});
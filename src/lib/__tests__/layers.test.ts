@@ -8,7 +8,7 @@ import Layers from '../layers';
 import Canvas from '../canvas';
 import CanvasUtils from '../canvasUtils';
 import StateManager from '../stateManager';
-import type { AppState } from '../types';
+import { createAppState } from '../../test/appState';
 
 describe('Layer System', () => {
   let mockCanvas: HTMLCanvasElement;
@@ -25,40 +25,7 @@ describe('Layer System', () => {
     CanvasUtils.init(mockCanvas, 512, 512, 1);
 
     // Initialize StateManager with minimal state
-    const initialState: AppState = {
-      currentTool: 'pencil',
-      currentColor: '#000000',
-      currentAlpha: 255,
-      brushSize: 10,
-      brushHardness: 100,
-      brushOpacity: 100,
-      brushFlow: 100,
-      brushSpacing: 25,
-      brushJitter: 0,
-      brushTexture: null,
-      brushScatter: 0,
-      brushAngle: 0,
-      brushRoundness: 100,
-      pressureEnabled: false,
-      pressureSize: false,
-      pressureOpacity: false,
-      pressureFlow: false,
-      pressureCurve: 'linear',
-      stabilizerStrength: 0,
-      tolerance: 32,
-      zoom: 1,
-      selection: null,
-      colorRangeSelection: null,
-      selectionMode: 'replace',
-      selectionFeather: 0,
-      selectionAntiAlias: true,
-      imageLayer: null,
-      imageOffsetX: 0,
-      imageOffsetY: 0,
-      layers: [],
-      activeLayerId: null,
-    };
-    StateManager.init(initialState);
+    StateManager.init(createAppState());
 
     // Initialize Canvas module (required for Layers)
     Canvas.init(mockCanvas, undefined, true);
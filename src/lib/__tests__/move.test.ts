@@ -0,0 +1,122 @@
+/**
+ * Move Tests
+ * Validates the pixel shifting behind the Move tool and moves of layers and selections
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Layers from '../layers';
+import Canvas from '../canvas';
+import CanvasUtils from '../canvasUtils';
+import StateManager from '../stateManager';
+import History from '../history';
+import MoveActions from '../moveActions';
+import SelectionMask from '../selectionMask';
+import {
+  dropFloating,
+  liftSelection,
+  translateImageData,
+  translateMask,
+} from '../tools/moveHelpers';
+import { createRectangularMask } from '../tools/selectionHelpers';
+import { createAppState } from '../../test/appState';
+
+// 3x1 image with an opaque red, green and blue pixel
+function createStrip(): ImageData {
+  const image = new ImageData(3, 1);
+  image.data.set([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255]);
+  return image;
+}
+
+describe('Move helpers', () => {
+  it('should shift pixels and drop those pushed past the edge', () => {
+    const moved = translateImageData(createStrip(), 1, 0);
+    expect(Array.from(moved.data)).toEqual([0, 0, 0, 0, 255, 0, 0, 255, 0, 255, 0, 255]);
+    expect(Array.from(translateImageData(createStrip(), 0, 1).data).every((v) => v === 0)).toBe(
+      true
+    );
+  });
+
+  it('should shift selection masks the same way', () => {
+    const mask = new Uint8Array([255, 0, 0, 128]);
+    expect(Array.from(translateMask(mask, 2, 2, 1, 1))).toEqual([0, 0, 0, 255]);
+    expect(Array.from(translateMask(mask, 2, 2, -1, 0))).toEqual([0, 0, 128, 0]);
+  });
+
+  it('should lift selected pixels and drop them at an offset', () => {
+    const { floating, remainder } = liftSelection(createStrip(), new Uint8Array([255, 0, 0]));
+    expect(Array.from(floating.data.slice(0, 4))).toEqual([255, 0, 0, 255]);
+    expect(remainder.data[3]).toBe(0);
+
+    // The red pixel lands on the blue one two pixels over
+    const dropped = dropFloating(remainder, floating, 2, 0);
+    expect(Array.from(dropped.data)).toEqual([255, 0, 0, 0, 0, 255, 0, 255, 255, 0, 0, 255]);
+  });
+
+  it('should split partially selected pixels by coverage', () => {
+    const { floating, remainder } = liftSelection(createStrip(), new Uint8Array([0, 0, 51]));
+    expect(floating.data[11]).toBe(51);
+    expect(remainder.data[11]).toBe(204);
+  });
+});
+
+describe('MoveActions', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    const mockCanvas = document.createElement('canvas');
+    mockCanvas.width = 16;
+    mockCanvas.height = 16;
+    CanvasUtils.init(mockCanvas, 16, 16, 1);
+
+    StateManager.init(createAppState({ currentTool: 'move' }));
+    Canvas.init(mockCanvas, undefined, true);
+    History.init(true);
+    vi.spyOn(Canvas, 'getDirtyRegions').mockReturnValue([]);
+    vi.spyOn(Canvas, 'clearDirtyRegions').mockImplementation(() => {});
+    vi.spyOn(Canvas, 'triggerRender').mockResolvedValue(undefined);
+    vi.spyOn(History, 'saveImmediate').mockResolvedValue(undefined);
+    Layers.init(mockCanvas, mockCanvas.getContext('2d')!);
+  });
+
+  it('should record a drag as a single history step', async () => {
+    Layers.createLayer('Sprite');
+    MoveActions.begin();
+    MoveActions.update(1, 0);
+    MoveActions.update(3, 2);
+    expect(MoveActions.isMoving()).toBe(true);
+    expect(History.saveImmediate).not.toHaveBeenCalled();
+
+    expect(await MoveActions.commit()).toBe(true);
+    expect(MoveActions.isMoving()).toBe(false);
+    expect(History.saveImmediate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not record moves that end where they started or are cancelled', async () => {
+    Layers.createLayer('Sprite');
+    MoveActions.begin();
+    MoveActions.update(4, 0);
+    MoveActions.update(0, 0);
+    expect(await MoveActions.commit()).toBe(false);
+
+    MoveActions.begin();
+    MoveActions.update(4, 0);
+    MoveActions.cancel();
+    expect(MoveActions.isMoving()).toBe(false);
+    expect(History.saveImmediate).not.toHaveBeenCalled();
+  });
+
+  it('should move the selection along with the selected pixels', async () => {
+    Layers.createLayer('Sprite');
+    SelectionMask.apply(createRectangularMask(2, 2, 4, 4, 16, 16));
+
+    expect(await MoveActions.nudge(10, -1)).toBe(true);
+    expect(StateManager.getState().selection).toMatchObject({ x: 12, y: 1, width: 4, height: 4 });
+    expect(History.saveImmediate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse to move locked layers', async () => {
+    const layer = Layers.createLayer('Locked');
+    Layers.updateLayer(layer.id, { locked: true });
+    await expect(MoveActions.nudge(1, 0)).rejects.toThrow('locked');
+    expect(MoveActions.isMoving()).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Overlay Tests
+ * Validates grid line placement, guide editing and snapping of document coordinates
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Overlay from '../overlay';
+import Viewport from '../viewport';
+import EventEmitter from '../utils/eventEmitter';
+import indexedDBStorage from '../storage/indexedDB';
+import { getGridLines, getRulerStep, snapToTargets } from '../overlayGeometry';
+
+describe('Overlay geometry', () => {
+  it('should place tile lines from the offset across a range', () => {
+    expect(getGridLines(16, 0, 0, 64)).toEqual([0, 16, 32, 48, 64]);
+    expect(getGridLines(16, 4, 0, 40)).toEqual([4, 20, 36]);
+    // Offsets repeat every cell, including negative ones
+    expect(getGridLines(16, -12, 10, 40)).toEqual([20, 36]);
+    expect(getGridLines(0, 0, 0, 10)).toEqual([]);
+  });
+
+  it('should snap only to targets within the threshold', () => {
+    expect(snapToTargets(14.5, [0, 16, 32], 2)).toBe(16);
+    expect(snapToTargets(10, [0, 16, 32], 2)).toBe(10);
+    expect(snapToTargets(15, [14, 16], 2)).toBe(14);
+  });
+
+  it('should space ruler ticks further apart when zoomed out', () => {
+    expect(getRulerStep(16, 50)).toBe(5);
+    expect(getRulerStep(1, 50)).toBe(50);
+    expect(getRulerStep(0.125, 50)).toBe(500);
+  });
+});
+
+describe('Overlay', () => {
+  beforeEach(async () => {
+    vi.spyOn(indexedDBStorage, 'saveSetting').mockResolvedValue();
+    Viewport.init(64, 64);
+    Viewport.setViewportSize(0, 0);
+    Viewport.setZoom(1);
+    Viewport.setViewportSize(256, 256);
+    Overlay.clearGuides();
+    await Overlay.updateSettings({
+      pixelGrid: true,
+      pixelGridMinZoom: 8,
+      tileGrid: false,
+      tileWidth: 16,
+      tileHeight: 16,
+      tileOffsetX: 0,
+      tileOffsetY: 0,
+      guides: true,
+      snapping: false,
+    });
+  });
+
+  it('should show the pixel grid only from the zoom threshold', () => {
+    Viewport.setZoom(4);
+    expect(Overlay.isPixelGridVisible()).toBe(false);
+    Viewport.setZoom(8);
+    expect(Overlay.isPixelGridVisible()).toBe(true);
+  });
+
+  it('should add, move and remove guides inside the document', () => {
+    const listener = vi.fn();
+    EventEmitter.on('overlay:change', listener);
+    const guide = Overlay.addGuide('vertical', 10.4);
+    expect(guide.position).toBe(10);
+    Overlay.moveGuide(guide.id, 500);
+    expect(Overlay.getGuides()).toEqual([{ ...guide, position: 64 }]);
+    Overlay.removeGuide(guide.id);
+    EventEmitter.off('overlay:change', listener);
+
+    expect(Overlay.getGuides()).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  it('should find guides under the pointer in viewport coordinates', () => {
+    // Document origin sits at (96, 96) at 100%
+    const guide = Overlay.addGuide('horizontal', 20);
+    expect(Overlay.findGuideAt(50, 118)?.id).toBe(guide.id);
+    expect(Overlay.findGuideAt(50, 125)).toBeNull();
+  });
+
+  it('should snap points to guides, tile lines and edges only when enabled', async () => {
+    Overlay.addGuide('vertical', 20);
+    expect(Overlay.snapPoint(18.5, 3)).toEqual({ x: 18.5, y: 3 });
+
+    await Overlay.updateSettings({ snapping: true, tileGrid: true });
+    expect(Overlay.snapPoint(18.5, 3)).toEqual({ x: 20, y: 0 });
+    expect(Overlay.snapPoint(30, 62)).toEqual({ x: 32, y: 64 });
+
+    // The snap distance is fixed on screen, so it shrinks in document pixels when zoomed in
+    Viewport.setZoom(8);
+    expect(Overlay.snapPoint(18.5, 3)).toEqual({ x: 18.5, y: 3 });
+  });
+
+  it('should persist settings and keep tile sizes valid', async () => {
+    await Overlay.updateSettings({ tileWidth: 0, tileHeight: 8.6 });
+    expect(Overlay.getSettings()).toMatchObject({ tileWidth: 1, tileHeight: 9 });
+    expect(indexedDBStorage.saveSetting).toHaveBeenLastCalledWith(
+      'overlay',
+      expect.objectContaining({ tileWidth: 1, tileHeight: 9 })
+    );
+  });
+});
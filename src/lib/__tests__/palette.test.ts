@@ -0,0 +1,115 @@
+/**
+ * Palette File Tests
+ * Validates GPL, ASE, PAL, HEX and PNG strip palettes and palette generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseGpl,
+  serializeGpl,
+  parsePal,
+  serializePal,
+  parseHexList,
+  serializeHexList,
+  parseAse,
+  serializeAse,
+  parseSwatchImage,
+  buildSwatchStrip,
+  detectPaletteFormat,
+} from '../formats/palette';
+import { generatePaletteFromImage } from '../palettes';
+
+const PALETTE = { name: 'Test', colors: ['#000000', '#FF8000', '#1A2B3C'] };
+
+describe('Palette files', () => {
+  it('should round-trip GIMP palettes and read their name', () => {
+    const text = serializeGpl(PALETTE);
+    expect(text.startsWith('GIMP Palette\nName: Test\n')).toBe(true);
+    expect(parseGpl(text)).toEqual(PALETTE);
+    expect(() => parseGpl('not a palette')).toThrow('GIMP Palette');
+  });
+
+  it('should round-trip JASC palettes', () => {
+    const text = serializePal(PALETTE);
+    expect(text.split('\r\n').slice(0, 4)).toEqual(['JASC-PAL', '0100', '3', '0 0 0']);
+    expect(parsePal(text, 'Test')).toEqual(PALETTE);
+  });
+
+  it('should read hex lists with or without # and skip junk lines', () => {
+    expect(serializeHexList(PALETTE)).toBe('000000\nff8000\n1a2b3c\n');
+    expect(parseHexList('#000000\nff8000\n; comment\n1a2b3c\n', 'Test')).toEqual(PALETTE);
+    expect(() => parseHexList('nothing here')).toThrow('no colors');
+  });
+
+  it('should round-trip Adobe Swatch Exchange files', () => {
+    const ase = serializeAse(PALETTE);
+    expect(new TextDecoder().decode(ase.subarray(0, 4))).toBe('ASEF');
+    expect(new DataView(ase.buffer).getUint32(8)).toBe(3);
+    expect(parseAse(ase.buffer, 'Test')).toEqual(PALETTE);
+  });
+
+  it('should convert CMYK and Gray ASE swatches and skip groups', () => {
+    const blocks: number[] = [];
+    const push16 = (v: number) => blocks.push((v >> 8) & 0xff, v & 0xff);
+    const push32 = (v: number) => blocks.push(...[24, 16, 8, 0].map((s) => (v >>> s) & 0xff));
+    const pushFloat = (v: number) => {
+      const bytes = new Uint8Array(4);
+      new DataView(bytes.buffer).setFloat32(0, v);
+      blocks.push(...bytes);
+    };
+    const pushColor = (model: string, values: number[]) => {
+      push16(0x0001);
+      push32(2 + 2 + 4 + values.length * 4 + 2);
+      push16(1);
+      push16(0); // Empty name
+      blocks.push(...[...model].map((c) => c.charCodeAt(0)));
+      values.forEach(pushFloat);
+      push16(2);
+    };
+
+    push16(0xc001);
+    push32(4);
+    push16(1);
+    push16(0);
+    pushColor('CMYK', [0, 1, 1, 0]);
+    pushColor('Gray', [0.5]);
+    push16(0xc002);
+    push32(0);
+
+    const header = [0x41, 0x53, 0x45, 0x46, 0, 1, 0, 0, 0, 0, 0, 4];
+    const file = new Uint8Array([...header, ...blocks]);
+    expect(parseAse(file.buffer).colors).toEqual(['#FF0000', '#808080']);
+  });
+
+  it('should read swatch images in scan order and write 1px strips', () => {
+    const strip = buildSwatchStrip(PALETTE.colors);
+    expect(strip.width).toBe(3);
+    expect(Array.from(strip.data.slice(4, 8))).toEqual([255, 128, 0, 255]);
+
+    // A 2x scaled grid repeats each color; transparent pixels are ignored
+    const grid = new ImageData(4, 2);
+    const pixels = [PALETTE.colors[1], PALETTE.colors[1], PALETTE.colors[2], null];
+    for (let y = 0; y < 2; y++) {
+      pixels.forEach((hex, x) => {
+        if (!hex) return;
+        const value = parseInt(hex.slice(1), 16);
+        grid.data.set([value >> 16, (value >> 8) & 0xff, value & 0xff, 255], (y * 4 + x) * 4);
+      });
+    }
+    expect(parseSwatchImage(grid).colors).toEqual(['#FF8000', '#1A2B3C']);
+  });
+
+  it('should detect palette formats from file names', () => {
+    expect(detectPaletteFormat('sweetie-16.GPL')).toBe('gpl');
+    expect(detectPaletteFormat('swatches.ase')).toBe('ase');
+    expect(detectPaletteFormat('notes.txt')).toBeNull();
+  });
+});
+
+describe('Palette generation', () => {
+  it('should list image colors by frequency when they fit', async () => {
+    const image = new ImageData(4, 1);
+    image.data.set([10, 20, 30, 255, 200, 0, 0, 255, 200, 0, 0, 255, 0, 0, 0, 0]);
+    expect(await generatePaletteFromImage(image, 8)).toEqual(['#C80000', '#0A141E']);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Vector Path Tests
+ * Validates path flattening, rasterization, contour fitting and SVG import/export
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { VectorPath } from '../types';
+import {
+  flattenPath,
+  rasterizePath,
+  simplifyPolyline,
+  maskEdges,
+  contourToPath,
+} from '../pathGeometry';
+import { parseSvgPathData, pathToSvgData, pathsToSvg, importSvgPaths } from '../formats/svg';
+import { traceContour } from '../cleanup/utils/contourTrace';
+
+const SQUARE: VectorPath = {
+  id: 'square',
+  name: 'Square',
+  anchors: [
+    { x: 1, y: 1 },
+    { x: 4, y: 1 },
+    { x: 4, y: 4 },
+    { x: 1, y: 4 },
+  ],
+  closed: true,
+};
+
+describe('Path geometry', () => {
+  it('should keep straight segments as corners and subdivide curves', () => {
+    expect(flattenPath(SQUARE)).toHaveLength(4);
+
+    const curve: VectorPath = {
+      id: 'curve',
+      name: 'Curve',
+      anchors: [
+        { x: 0, y: 0, outHandle: { x: 0, y: 10 } },
+        { x: 10, y: 10, inHandle: { x: 0, y: 10 } },
+      ],
+      closed: false,
+    };
+    const points = flattenPath(curve);
+    expect(points.length).toBeGreaterThan(4);
+    expect(points[points.length - 1]).toEqual({ x: 10, y: 10 });
+  });
+
+  it('should rasterize pixels whose centers are inside the path', () => {
+    const mask = rasterizePath(SQUARE, 6, 6);
+    expect(mask.filter((v) => v > 0)).toHaveLength(9);
+    expect(mask[1 * 6 + 1]).toBe(255);
+    expect(mask[4 * 6 + 4]).toBe(0);
+  });
+
+  it('should drop collinear points when simplifying', () => {
+    const line = [0, 1, 2, 3, 4].map((x) => ({ x, y: 0 }));
+    expect(simplifyPolyline(line, 0.5)).toEqual([
+      { x: 0, y: 0 },
+      { x: 4, y: 0 },
+    ]);
+  });
+
+  it('should trace a selection mask into a closed path', () => {
+    const width = 6;
+    const mask = rasterizePath(SQUARE, width, width);
+    const edges = maskEdges(mask, width, width);
+    const start = edges.indexOf(1);
+    const contour = traceContour(edges, width, width, start % width, Math.floor(start / width));
+    const path = contourToPath(contour!.points, 'traced', 'Traced');
+
+    expect(path?.closed).toBe(true);
+    expect(path?.anchors).toHaveLength(4);
+    // Anchors sit on the outline pixel centers, so loading the path back restores the selection
+    expect(rasterizePath(path!, width, width)).toEqual(mask);
+  });
+});
+
+describe('SVG paths', () => {
+  it('should round-trip path data', () => {
+    const curve: VectorPath = {
+      id: 'c',
+      name: 'Curve',
+      anchors: [
+        { x: 0, y: 0, outHandle: { x: 2, y: 0 } },
+        { x: 4, y: 4, inHandle: { x: 4, y: 2 } },
+        { x: 0, y: 4 },
+      ],
+      closed: true,
+    };
+    const d = pathToSvgData(curve);
+    expect(d).toBe('M 0 0 C 2 0 4 2 4 4 L 0 4 L 0 0 Z');
+
+    const [parsed] = parseSvgPathData(d, 'Curve', 'c');
+    expect(parsed).toEqual({ ...curve, id: 'c_0' });
+  });
+
+  it('should resolve relative, shorthand and implicit commands', () => {
+    const paths = parseSvgPathData('m 1 1 h 2 v 2 l -2 0 z M 10 10 20 10 Q 25 15 20 20', 'P', 'p');
+    expect(paths).toHaveLength(2);
+    expect(paths[0]!.anchors.map(({ x, y }) => [x, y])).toEqual([
+      [1, 1],
+      [3, 1],
+      [3, 3],
+      [1, 3],
+    ]);
+    expect(paths[0]!.closed).toBe(true);
+    expect(paths[1]!.name).toBe('P 2');
+    expect(paths[1]!.closed).toBe(false);
+    expect(paths[1]!.anchors[2]!.inHandle!.x).toBeCloseTo(20 + (2 / 3) * 5);
+  });
+
+  it('should convert arcs to cubic segments ending on the arc', () => {
+    const [circle] = parseSvgPathData('M 0 5 A 5 5 0 1 0 10 5 A 5 5 0 1 0 0 5 Z', 'O', 'o');
+    const points = flattenPath(circle!);
+    for (const point of points) {
+      expect(Math.hypot(point.x - 5, point.y - 5)).toBeCloseTo(5, 1);
+    }
+    expect(() => parseSvgPathData('M 0 0 L 5', 'Bad', 'b')).toThrow('missing coordinates');
+  });
+
+  it('should import every <path> from an exported document', () => {
+    const svg = pathsToSvg([SQUARE], 6, 6);
+    expect(svg).toContain('viewBox="0 0 6 6"');
+
+    const [imported] = importSvgPaths(svg, 'imp');
+    expect(imported!.name).toBe('Square');
+    expect(imported!.anchors).toEqual(SQUARE.anchors);
+    expect(() => importSvgPaths('<svg xmlns="http://www.w3.org/2000/svg"/>', 'x')).toThrow(
+      'no paths'
+    );
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Pixel Perfect Tests
+ * Validates that 1px strokes drop the corners of L-shaped steps as they are drawn
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createPixelPerfectPath, type PixelPerfectPath } from '../tools/pixelPerfect';
+
+describe('PixelPerfectPath', () => {
+  let path: PixelPerfectPath;
+
+  beforeEach(() => {
+    path = createPixelPerfectPath();
+  });
+
+  it('should remove an already painted corner when the stroke turns', () => {
+    expect(path.extend(0, 0)).toEqual({ added: [{ x: 0, y: 0 }], removed: [] });
+    expect(path.extend(1, 0)).toEqual({ added: [{ x: 1, y: 0 }], removed: [] });
+    expect(path.extend(1, 1)).toEqual({ added: [{ x: 1, y: 1 }], removed: [{ x: 1, y: 0 }] });
+  });
+
+  it('should drop the corner where a long move turns away from the previous one', () => {
+    path.extend(0, 0);
+    path.extend(1, 0);
+    const { added, removed } = path.extend(1, 3);
+    expect(removed).toEqual([{ x: 1, y: 0 }]);
+    expect(added).toEqual([
+      { x: 1, y: 1 },
+      { x: 1, y: 2 },
+      { x: 1, y: 3 },
+    ]);
+  });
+
+  it('should keep straight runs and strokes that double back', () => {
+    path.extend(0, 0);
+    expect(path.extend(4, 0).removed).toEqual([]);
+    expect(path.extend(0, 0).removed).toEqual([]);
+  });
+
+  it('should fill the pixels between distant points and start over on reset', () => {
+    path.extend(0, 0);
+    expect(path.extend(4, 2).added).toHaveLength(4);
+    expect(path.extend(4, 2).added).toEqual([]);
+
+    path.reset();
+    expect(path.extend(9, 9)).toEqual({ added: [{ x: 9, y: 9 }], removed: [] });
+  });
+});
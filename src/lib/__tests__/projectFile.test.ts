@@ -0,0 +1,213 @@
+/**
+ * Project File Tests
+ * Validates the .pxs binary container round-trip, saving and opening animation frames
+ * and error handling
+ */
+
+import { Blob as NodeBlob } from 'node:buffer';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  packProjectFile,
+  unpackProjectFile,
+  isProjectFile,
+  saveProjectFile,
+  openProjectFile,
+  PROJECT_FILE_VERSION,
+  type ProjectManifest,
+} from '../storage/projectFile';
+import { captureDocument, replaceDocument, type LayeredDocument } from '../formats/document';
+
+vi.mock('../formats/document', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../formats/document')>()),
+  captureDocument: vi.fn(),
+  replaceDocument: vi.fn(),
+}));
+
+// Stand-in for the PNG codec: width, height and the raw pixels
+vi.mock('../imageUtils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../imageUtils')>()),
+  imageDataToBlob: vi.fn(
+    async (image: ImageData) => new Blob([new Uint32Array([image.width, image.height]), image.data])
+  ),
+  blobToImageData: vi.fn(async (blob: Blob) => {
+    const buffer = await blob.arrayBuffer();
+    const [width, height] = new Uint32Array(buffer, 0, 2);
+    return new ImageData(new Uint8ClampedArray(buffer, 8), width!, height!);
+  }),
+}));
+
+function createManifest(overrides: Partial<ProjectManifest> = {}): ProjectManifest {
+  return {
+    version: PROJECT_FILE_VERSION,
+    name: 'Test Project',
+    width: 64,
+    height: 32,
+    activeLayerId: 'layer-2',
+    layers: [
+      {
+        id: 'layer-1',
+        name: 'Background',
+        visible: true,
+        locked: true,
+        opacity: 1,
+        blendMode: 'normal',
+        backgroundColor: '#FFFFFF',
+        chunk: 0,
+      },
+      {
+        id: 'layer-2',
+        name: 'Ink',
+        visible: false,
+        locked: false,
+        opacity: 0.5,
+        blendMode: 'multiply',
+        chunk: 1,
+      },
+    ],
+    imageLayer: { layerId: 'layer-1', offsetX: 4, offsetY: 8, width: 16, height: 16 },
+    paths: [
+      {
+        id: 'path-1',
+        name: 'Path 1',
+        closed: true,
+        anchors: [
+          { x: 1, y: 2, outHandle: { x: 3, y: 4 } },
+          { x: 5, y: 6, inHandle: { x: 7, y: 8 } },
+        ],
+      },
+    ],
+    savedAt: 1700000000000,
+    ...overrides,
+  };
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+function filled(red: number): ImageData {
+  const image = new ImageData(2, 2);
+  for (let i = 0; i < image.data.length; i += 4) image.data.set([red, 0, 0, 255], i);
+  return image;
+}
+
+describe('Project File', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should round-trip manifest and chunks', () => {
+    const manifest = createManifest();
+    const chunks = [new Uint8Array([1, 2, 3]), new Uint8Array([4, 5, 6, 7, 8])];
+
+    const packed = packProjectFile(manifest, chunks);
+    const unpacked = unpackProjectFile(toArrayBuffer(packed));
+
+    expect(unpacked.manifest).toEqual(manifest);
+    expect(unpacked.chunks).toHaveLength(2);
+    expect(Array.from(unpacked.chunks[0]!)).toEqual([1, 2, 3]);
+    expect(Array.from(unpacked.chunks[1]!)).toEqual([4, 5, 6, 7, 8]);
+  });
+
+  it('should save and reopen every animation frame', async () => {
+    // jsdom's Blob cannot be read back
+    vi.stubGlobal('Blob', NodeBlob);
+    const layer = {
+      visible: true,
+      locked: false,
+      opacity: 1,
+      blendMode: 'normal',
+    };
+    vi.mocked(captureDocument).mockReturnValue({
+      width: 2,
+      height: 2,
+      layers: [
+        { ...layer, id: 'ink', name: 'Ink', imageData: filled(20) },
+        { ...layer, id: 'shade', name: 'Shade', imageData: filled(21) },
+      ],
+      activeLayerId: 'ink',
+      frames: [
+        {
+          id: 'frame-1',
+          duration: 100,
+          cels: new Map([
+            ['ink', filled(10)],
+            ['shade', filled(11)],
+          ]),
+        },
+        { id: 'frame-2', duration: 250, cels: new Map() },
+        { id: 'frame-3', duration: 80, cels: new Map([['ink', filled(30)]]) },
+      ],
+      currentFrame: 1,
+    });
+
+    const saved = await saveProjectFile('Walk Cycle');
+    const { manifest, chunks } = unpackProjectFile(await saved.arrayBuffer());
+    expect(chunks).toHaveLength(5);
+    expect(manifest.currentFrame).toBe(1);
+    expect(manifest.frames).toEqual([
+      { id: 'frame-1', duration: 100, cels: { ink: 2, shade: 3 } },
+      { id: 'frame-2', duration: 250, cels: { ink: 0, shade: 1 } },
+      { id: 'frame-3', duration: 80, cels: { ink: 4 } },
+    ]);
+
+    await openProjectFile(saved);
+    const opened = vi.mocked(replaceDocument).mock.calls[0]![0] as LayeredDocument;
+    expect(opened.currentFrame).toBe(1);
+    expect(opened.layers.map((l) => l.imageData.data[0])).toEqual([20, 21]);
+    expect(
+      opened.frames!.map((frame) => ({
+        id: frame.id,
+        duration: frame.duration,
+        cels: Object.fromEntries([...frame.cels].map(([id, cel]) => [id, cel.data[0]])),
+      }))
+    ).toEqual([
+      { id: 'frame-1', duration: 100, cels: { ink: 10, shade: 11 } },
+      { id: 'frame-2', duration: 250, cels: {} },
+      { id: 'frame-3', duration: 80, cels: { ink: 30 } },
+    ]);
+  });
+
+  it('should reject frames that reference missing chunks', () => {
+    const manifest = createManifest({
+      frames: [{ id: 'frame-1', duration: 100, cels: { 'layer-1': 5 } }],
+      currentFrame: 0,
+    });
+    const packed = packProjectFile(manifest, [new Uint8Array(1), new Uint8Array(1)]);
+    expect(() => unpackProjectFile(toArrayBuffer(packed))).toThrow(
+      'Missing pixel data for frame 1'
+    );
+  });
+
+  it('should detect project files by magic bytes', () => {
+    const packed = packProjectFile(createManifest(), [new Uint8Array(1), new Uint8Array(1)]);
+    expect(isProjectFile(toArrayBuffer(packed))).toBe(true);
+    expect(isProjectFile(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBe(false);
+    expect(isProjectFile(new ArrayBuffer(2))).toBe(false);
+  });
+
+  it('should reject truncated files', () => {
+    const packed = packProjectFile(createManifest(), [new Uint8Array(10), new Uint8Array(10)]);
+    const truncated = toArrayBuffer(packed.slice(0, packed.byteLength - 5));
+    expect(() => unpackProjectFile(truncated)).toThrow('truncated');
+  });
+
+  it('should reject layers that reference missing chunks', () => {
+    const packed = packProjectFile(createManifest(), [new Uint8Array(1)]);
+    expect(() => unpackProjectFile(toArrayBuffer(packed))).toThrow('Missing pixel data');
+  });
+
+  it('should reject invalid canvas sizes', () => {
+    const packed = packProjectFile(createManifest({ width: 0 }), [
+      new Uint8Array(1),
+      new Uint8Array(1),
+    ]);
+    expect(() => unpackProjectFile(toArrayBuffer(packed))).toThrow('Invalid canvas size');
+  });
+
+  it('should reject files from a newer format version', () => {
+    const packed = packProjectFile(createManifest(), [new Uint8Array(1), new Uint8Array(1)]);
+    new DataView(packed.buffer).setUint32(4, PROJECT_FILE_VERSION + 1, true);
+    expect(() => unpackProjectFile(toArrayBuffer(packed))).toThrow('newer than supported');
+  });
+});
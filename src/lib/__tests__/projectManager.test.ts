@@ -0,0 +1,208 @@
+/**
+ * Project Manager Tests
+ * Validates saving, opening, duplicating and deleting gallery projects, templates and
+ * the cleanup of orphaned history records
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import projectManager from '../storage/projectManager';
+import indexedDBStorage from '../storage/indexedDB';
+import {
+  packProjectFile,
+  saveProjectFile,
+  openProjectFile,
+  PROJECT_FILE_VERSION,
+} from '../storage/projectFile';
+import { replaceDocument } from '../formats/document';
+import Canvas from '../canvas';
+import History from '../history';
+
+vi.mock('../storage/projectFile', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../storage/projectFile')>()),
+  saveProjectFile: vi.fn(),
+  openProjectFile: vi.fn(),
+}));
+
+vi.mock('../formats/document', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../formats/document')>()),
+  replaceDocument: vi.fn(),
+}));
+
+// Smallest valid .pxs buffer
+function projectBuffer(): ArrayBuffer {
+  const bytes = packProjectFile(
+    {
+      version: PROJECT_FILE_VERSION,
+      name: 'Test',
+      width: 8,
+      height: 8,
+      activeLayerId: null,
+      layers: [],
+      imageLayer: null,
+      paths: [],
+      savedAt: 0,
+    },
+    []
+  );
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+interface StoredRecord {
+  name: string;
+  data: unknown;
+  meta?: unknown;
+  createdAt: number;
+  updatedAt: number;
+}
+
+describe('ProjectManager', () => {
+  let records: Map<string, StoredRecord>;
+  let historyProjectId: string | null;
+
+  beforeEach(() => {
+    records = new Map();
+    historyProjectId = null;
+    vi.spyOn(History, 'getProjectId').mockImplementation(() => historyProjectId);
+    vi.spyOn(History, 'setProjectId').mockImplementation((id) => {
+      historyProjectId = id;
+    });
+    vi.spyOn(Canvas, 'getWidth').mockReturnValue(32);
+    vi.spyOn(Canvas, 'getHeight').mockReturnValue(16);
+    vi.spyOn(Canvas, 'getCanvas').mockReturnValue(document.createElement('canvas'));
+    // jsdom's Blob cannot be read back, so hand out just what saving reads
+    vi.mocked(saveProjectFile).mockImplementation(
+      async () => ({ arrayBuffer: async () => projectBuffer() }) as Blob
+    );
+    vi.mocked(openProjectFile).mockResolvedValue({} as never);
+    vi.mocked(replaceDocument).mockResolvedValue();
+
+    vi.spyOn(indexedDBStorage, 'saveProject').mockImplementation(async (id, name, data, meta) => {
+      const createdAt = records.get(id)?.createdAt ?? records.size + 1;
+      records.set(id, { name, data, meta, createdAt, updatedAt: createdAt });
+      return true;
+    });
+    vi.spyOn(indexedDBStorage, 'loadProject').mockImplementation(async (id) => {
+      const record = records.get(id);
+      return record ? { name: record.name, data: record.data, meta: record.meta } : null;
+    });
+    vi.spyOn(indexedDBStorage, 'listProjects').mockImplementation(async () =>
+      [...records].map(([id, record]) => ({ id, ...record }))
+    );
+    vi.spyOn(indexedDBStorage, 'deleteProject').mockImplementation(async (id) => {
+      records.delete(id);
+    });
+    projectManager.detach();
+    historyProjectId = 'session-project';
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should save an unsaved document under the ID its history already uses', async () => {
+    await projectManager.save('  Hero ');
+
+    expect(projectManager.getCurrentProjectId()).toBe('session-project');
+    expect(projectManager.getCurrentName()).toBe('Hero');
+    const [project] = await projectManager.list();
+    expect(project).toMatchObject({ id: 'session-project', name: 'Hero', width: 32, height: 16 });
+
+    // Saving again overwrites the same project
+    await projectManager.save();
+    expect(records.size).toBe(1);
+  });
+
+  it('should open gallery projects and refuse other records', async () => {
+    await projectManager.save('Stored');
+    const id = projectManager.getCurrentProjectId()!;
+    projectManager.detach();
+
+    await projectManager.open(id);
+    expect(openProjectFile).toHaveBeenCalledWith(expect.any(Blob));
+    expect(projectManager.getCurrentProjectId()).toBe(id);
+    expect(historyProjectId).toBe(id);
+
+    records.set('legacy', { name: 'Legacy', data: { layers: [] }, createdAt: 1, updatedAt: 1 });
+    await expect(projectManager.open('legacy')).rejects.toThrow('was not saved by the project');
+    await expect(projectManager.open('missing')).rejects.toThrow('Project not found');
+  });
+
+  it('should switch the history back when opening fails', async () => {
+    await projectManager.save('Stored');
+    const id = projectManager.getCurrentProjectId()!;
+    projectManager.detach();
+    const previousId = historyProjectId;
+    vi.mocked(openProjectFile).mockRejectedValueOnce(new Error('Corrupt project'));
+
+    await expect(projectManager.open(id)).rejects.toThrow('Corrupt project');
+    expect(historyProjectId).toBe(previousId);
+    expect(projectManager.getCurrentProjectId()).toBeNull();
+  });
+
+  it('should duplicate projects and never delete the open one', async () => {
+    await projectManager.save('Original');
+    const id = projectManager.getCurrentProjectId()!;
+
+    const copyId = await projectManager.duplicate(id);
+    expect(copyId).not.toBe(id);
+    expect(records.get(copyId)).toMatchObject({
+      name: 'Original copy',
+      data: records.get(id)!.data,
+      meta: records.get(id)!.meta,
+    });
+
+    await expect(projectManager.delete(id)).rejects.toThrow('cannot be deleted');
+    await projectManager.delete(copyId);
+    expect(records.has(copyId)).toBe(false);
+  });
+
+  it('should start and save new projects from templates', async () => {
+    await projectManager.createFromTemplate('scene-320');
+
+    const created = vi.mocked(replaceDocument).mock.calls.at(-1)![0];
+    expect(created).toMatchObject({ width: 320, height: 180 });
+    expect(Array.from(created.layers[0]!.imageData.data.slice(0, 4))).toEqual([255, 255, 255, 255]);
+    expect(projectManager.getCurrentName()).toBe('Scene 320×180');
+    expect(records.has(projectManager.getCurrentProjectId()!)).toBe(true);
+
+    await expect(projectManager.createFromTemplate('poster')).rejects.toThrow(
+      'Unknown project template: poster'
+    );
+  });
+
+  it('should keep the history of stored projects and the open document when cleaning up', async () => {
+    await projectManager.save('Kept');
+    projectManager.detach();
+    const deleteOrphanedHistory = vi
+      .spyOn(indexedDBStorage, 'deleteOrphanedHistory')
+      .mockResolvedValue(3);
+
+    expect(await projectManager.cleanUpHistory()).toBe(3);
+    expect(deleteOrphanedHistory).toHaveBeenCalledWith(['session-project', historyProjectId]);
+  });
+
+  it('should keep the history of sessions listed by other tabs when cleaning up', async () => {
+    localStorage.setItem(
+      'pixel-studio-sessions',
+      JSON.stringify({
+        'session-running': { projectId: 'other-tab', startedAt: 1, updatedAt: 2 },
+        'session-crashed': { projectId: 'crashed-tab', startedAt: 1, updatedAt: 1 },
+        'session-empty': { projectId: null, startedAt: 1, updatedAt: 1 },
+      })
+    );
+    const deleteOrphanedHistory = vi
+      .spyOn(indexedDBStorage, 'deleteOrphanedHistory')
+      .mockResolvedValue(0);
+
+    try {
+      await projectManager.cleanUpHistory();
+    } finally {
+      localStorage.clear();
+    }
+    expect(deleteOrphanedHistory).toHaveBeenCalledWith([
+      'session-project',
+      'other-tab',
+      'crashed-tab',
+    ]);
+  });
+});
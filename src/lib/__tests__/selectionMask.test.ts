@@ -0,0 +1,76 @@
+/**
+ * Selection Mask Tests
+ * Validates 8-bit mask creation, mode combination, feathering and bounds
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MASK_SELECTED,
+  combineSelections,
+  createPolygonMask,
+  createRectangularMask,
+  featherSelection,
+  getMaskBounds,
+  resolveSelectionMask,
+} from '../tools/selectionHelpers';
+
+const SIZE = 8;
+const TRIANGLE = [
+  { x: 0, y: 0 },
+  { x: 8, y: 0 },
+  { x: 0, y: 8 },
+];
+
+describe('Selection masks', () => {
+  it('should mark fully selected pixels with 255', () => {
+    const mask = createRectangularMask(2, 2, 3, 2, SIZE, SIZE);
+    expect(mask[2 * SIZE + 2]).toBe(MASK_SELECTED);
+    expect(mask.filter((v) => v === MASK_SELECTED)).toHaveLength(6);
+    expect(getMaskBounds(mask, SIZE, SIZE)).toEqual({ x: 2, y: 2, width: 3, height: 2 });
+    expect(getMaskBounds(new Uint8Array(SIZE * SIZE), SIZE, SIZE)).toBeNull();
+  });
+
+  it('should select polygon pixels by center and store partial coverage when anti-aliased', () => {
+    const aliased = createPolygonMask(TRIANGLE, SIZE, SIZE, false);
+    expect(new Set(aliased)).toEqual(new Set([0, MASK_SELECTED]));
+    expect(aliased[0]).toBe(MASK_SELECTED);
+    expect(aliased[7 * SIZE + 7]).toBe(0);
+
+    // Pixels on the diagonal are half covered
+    const smooth = createPolygonMask(TRIANGLE, SIZE, SIZE, true);
+    expect(smooth[3 * SIZE + 4]).toBeGreaterThan(0);
+    expect(smooth[3 * SIZE + 4]).toBeLessThan(MASK_SELECTED);
+    expect(smooth[0]).toBe(MASK_SELECTED);
+  });
+
+  it('should combine masks for add, subtract and intersect', () => {
+    const left = createRectangularMask(0, 0, 4, SIZE, SIZE, SIZE);
+    const top = createRectangularMask(0, 0, SIZE, 4, SIZE, SIZE);
+    const count = (mask: Uint8Array) => mask.filter((v) => v > 0).length;
+
+    expect(count(combineSelections(left, top, 'add', SIZE, SIZE))).toBe(48);
+    expect(count(combineSelections(left, top, 'subtract', SIZE, SIZE))).toBe(16);
+    expect(count(combineSelections(left, top, 'intersect', SIZE, SIZE))).toBe(16);
+    expect(combineSelections(left, top, 'replace', SIZE, SIZE)).toBe(top);
+
+    // Subtracting a half-selected pixel keeps half of the existing coverage
+    const soft = new Uint8Array(SIZE * SIZE).fill(128);
+    const full = new Uint8Array(SIZE * SIZE).fill(MASK_SELECTED);
+    expect(combineSelections(full, soft, 'subtract', SIZE, SIZE)[0]).toBe(127);
+  });
+
+  it('should feather 8-bit masks without overflowing', () => {
+    const mask = createRectangularMask(2, 2, 4, 4, SIZE, SIZE);
+    const feathered = featherSelection(mask, 2, SIZE, SIZE);
+    expect(Math.max(...feathered)).toBeLessThanOrEqual(MASK_SELECTED);
+    expect(feathered[4 * SIZE + 4]).toBeGreaterThan(feathered[2 * SIZE + 2]!);
+    expect(feathered[1 * SIZE + 1]).toBeGreaterThan(0);
+  });
+
+  it('should resolve a rectangle-only selection into a mask', () => {
+    const bounds = { x: 1, y: 1, width: 2, height: 2 };
+    const mask = resolveSelectionMask({ selection: bounds, selectionMask: null }, SIZE, SIZE);
+    expect(getMaskBounds(mask!, SIZE, SIZE)).toEqual(bounds);
+    expect(resolveSelectionMask({ selection: null, selectionMask: null }, SIZE, SIZE)).toBeNull();
+  });
+});
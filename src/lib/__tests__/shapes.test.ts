@@ -0,0 +1,223 @@
+/**
+ * Shape Tool Tests
+ * Validates pixel-perfect and anti-aliased rasterization of lines, rectangles, ellipses and
+ * regular polygons, Shift constraints and how shapes are painted onto layer pixels
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import StateManager from '../stateManager';
+import {
+  compositeShape,
+  constrainShapeEnd,
+  getEllipsePixels,
+  getLinePixels,
+  getPolygonVertices,
+  rasterizeShape,
+  renderShape,
+  type ShapeMask,
+  type ShapeOptions,
+} from '../tools/shapeHelpers';
+import type { AppState } from '../types';
+
+function options(overrides: Partial<ShapeOptions> = {}): ShapeOptions {
+  return { style: 'outline', lineWidth: 1, antiAlias: false, sides: 6, ...overrides };
+}
+
+// Covered pixels of a mask as "x,y" strings
+function coveredPixels(mask: ShapeMask): Set<string> {
+  const pixels = new Set<string>();
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      if (mask.data[y * mask.width + x]! > 0) {
+        pixels.add(`${mask.x + x},${mask.y + y}`);
+      }
+    }
+  }
+  return pixels;
+}
+
+describe('Shape rasterization', () => {
+  it('should draw lines one pixel per step without corners', () => {
+    const pixels = getLinePixels({ x: 0, y: 0 }, { x: 9, y: 3 });
+    expect(pixels).toHaveLength(10);
+    expect(pixels[9]).toEqual({ x: 9, y: 3 });
+    for (let i = 1; i < pixels.length; i++) {
+      expect(pixels[i]!.x - pixels[i - 1]!.x).toBe(1);
+      expect([0, 1]).toContain(pixels[i]!.y - pixels[i - 1]!.y);
+    }
+    expect(getLinePixels({ x: 3, y: 3 }, { x: 3, y: 3 })).toEqual([{ x: 3, y: 3 }]);
+
+    const { fill, outline } = rasterizeShape('line', { x: 0, y: 0 }, { x: 5, y: 5 }, options());
+    expect(fill).toBeNull();
+    expect(coveredPixels(outline!).size).toBe(6);
+  });
+
+  it('should outline rectangles inside the dragged box in the line width', () => {
+    const { fill, outline } = rasterizeShape(
+      'rectangle',
+      { x: 5, y: 4 },
+      { x: 1, y: 1 },
+      options({ style: 'both', lineWidth: 2 })
+    );
+    expect(fill).toMatchObject({ x: 1, y: 1, width: 5, height: 4 });
+    expect(coveredPixels(fill!).size).toBe(20);
+    const pixels = coveredPixels(outline!);
+    // A 5x4 box leaves no room inside a 2 pixel outline
+    expect(pixels.has('1,1')).toBe(true);
+    expect(pixels.has('3,2')).toBe(true);
+    expect(pixels.size).toBe(20);
+
+    const thin = rasterizeShape('rectangle', { x: 0, y: 0 }, { x: 4, y: 4 }, options());
+    expect(coveredPixels(thin.outline!).size).toBe(16);
+    expect(thin.fill).toBeNull();
+  });
+
+  it('should draw symmetric one-pixel ellipses that touch every side of the box', () => {
+    for (const [width, height] of [
+      [8, 5],
+      [7, 7],
+      [12, 3],
+    ] as const) {
+      const pixels = getEllipsePixels({ x: 0, y: 0 }, { x: width - 1, y: height - 1 });
+      const set = new Set(pixels.map((p) => `${p.x},${p.y}`));
+      for (const p of pixels) {
+        expect(set.has(`${width - 1 - p.x},${p.y}`)).toBe(true);
+        expect(set.has(`${p.x},${height - 1 - p.y}`)).toBe(true);
+      }
+      const xs = pixels.map((p) => p.x);
+      const ys = pixels.map((p) => p.y);
+      expect([Math.min(...xs), Math.max(...xs)]).toEqual([0, width - 1]);
+      expect([Math.min(...ys), Math.max(...ys)]).toEqual([0, height - 1]);
+    }
+  });
+
+  it('should fill ellipses row by row between their outline', () => {
+    const { fill, outline } = rasterizeShape(
+      'ellipse',
+      { x: 0, y: 0 },
+      { x: 6, y: 6 },
+      options({ style: 'both' })
+    );
+    const filled = coveredPixels(fill!);
+    expect(filled.has('3,3')).toBe(true);
+    expect(filled.has('0,0')).toBe(false);
+    for (const pixel of coveredPixels(outline!)) {
+      expect(filled.has(pixel)).toBe(true);
+    }
+  });
+
+  it('should place regular polygon corners around the center', () => {
+    const vertices = getPolygonVertices({ x: 0, y: 0 }, { x: 10, y: 0 }, 4);
+    expect(vertices).toHaveLength(4);
+    expect(vertices[1]!.x).toBeCloseTo(0);
+    expect(vertices[1]!.y).toBeCloseTo(10);
+    expect(vertices[2]!.x).toBeCloseTo(-10);
+
+    const { fill } = rasterizeShape(
+      'polygon',
+      { x: 8, y: 8 },
+      { x: 12, y: 8 },
+      options({ style: 'fill', sides: 4 })
+    );
+    const pixels = coveredPixels(fill!);
+    expect(pixels.has('8,8')).toBe(true);
+    expect(pixels.has('5,5')).toBe(false);
+  });
+
+  it('should give anti-aliased shapes partial coverage along their edges', () => {
+    const aliased = rasterizeShape(
+      'ellipse',
+      { x: 0, y: 0 },
+      { x: 9, y: 9 },
+      options({ style: 'fill' })
+    );
+    expect(aliased.fill!.data.every((value) => value === 0 || value === 255)).toBe(true);
+
+    const smooth = rasterizeShape(
+      'ellipse',
+      { x: 0, y: 0 },
+      { x: 9, y: 9 },
+      options({ style: 'fill', antiAlias: true })
+    );
+    expect(smooth.fill!.data.some((value) => value > 0 && value < 255)).toBe(true);
+    expect(smooth.fill!.data[5 * 10 + 5]).toBe(255);
+  });
+});
+
+describe('Shape constraints', () => {
+  it('should snap lines to 45° and boxes to squares', () => {
+    expect(constrainShapeEnd('line', { x: 0, y: 0 }, { x: 10, y: 2 })).toEqual({ x: 10, y: 0 });
+    expect(constrainShapeEnd('line', { x: 0, y: 0 }, { x: 9, y: 7 })).toEqual({ x: 8, y: 8 });
+    expect(constrainShapeEnd('rectangle', { x: 5, y: 5 }, { x: 0, y: 8 })).toEqual({
+      x: 0,
+      y: 10,
+    });
+    expect(constrainShapeEnd('ellipse', { x: 0, y: 0 }, { x: 3, y: -6 })).toEqual({
+      x: 6,
+      y: -6,
+    });
+  });
+});
+
+describe('Shape painting', () => {
+  it('should paint the fill under the outline and blend onto layer pixels', () => {
+    const masks = rasterizeShape(
+      'rectangle',
+      { x: 0, y: 0 },
+      { x: 2, y: 2 },
+      options({ style: 'both' })
+    );
+    const shape = renderShape(masks, {
+      fill: [0, 0, 255, 255],
+      outline: [255, 0, 0, 128],
+    })!;
+    expect(shape).toMatchObject({ x: 0, y: 0 });
+    expect(Array.from(shape.image.data.slice(16, 20))).toEqual([0, 0, 255, 255]);
+
+    const target = new ImageData(3, 3);
+    target.data.fill(255);
+    compositeShape(target, 0, 0, shape);
+    // Half-transparent red over blue over white
+    expect(Array.from(target.data.slice(0, 4))).toEqual([128, 0, 127, 255]);
+    expect(Array.from(target.data.slice(16, 20))).toEqual([0, 0, 255, 255]);
+  });
+
+  it('should write only mostly covered pixels outright when replacing', () => {
+    const masks = rasterizeShape(
+      'line',
+      { x: 0, y: 0 },
+      { x: 6, y: 3 },
+      options({ antiAlias: true, lineWidth: 2 })
+    );
+    const shape = renderShape(masks, { fill: [0, 0, 0, 0], outline: [10, 20, 30, 255] }, true)!;
+    for (let i = 0; i < shape.image.data.length; i += 4) {
+      const pixel = Array.from(shape.image.data.slice(i, i + 4));
+      expect([0, 255]).toContain(pixel[3]);
+      if (pixel[3] === 255) {
+        expect(pixel).toEqual([10, 20, 30, 255]);
+      }
+    }
+  });
+});
+
+describe('Shape settings', () => {
+  beforeEach(() => {
+    StateManager.init({
+      shapeStyle: 'outline',
+      shapeFillColor: '#ffffff',
+      shapeAntiAlias: false,
+      shapeSides: 6,
+    } as unknown as AppState);
+  });
+
+  it('should clamp polygon sides and reject invalid fill colors', () => {
+    StateManager.setShapeSides(40);
+    expect(StateManager.getState().shapeSides).toBe(12);
+    StateManager.setShapeSides(1);
+    expect(StateManager.getState().shapeSides).toBe(3);
+
+    expect(() => StateManager.setShapeFillColor('red')).toThrow('Invalid color format');
+    StateManager.setShapeFillColor('#00ff00');
+    expect(StateManager.getState().shapeFillColor).toBe('#00ff00');
+  });
+});
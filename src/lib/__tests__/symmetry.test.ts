@@ -0,0 +1,86 @@
+/**
+ * Symmetry Tests
+ * Validates where mirrored and radial stamp copies land and how symmetry settings are stored
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import StateManager from '../stateManager';
+import {
+  getSymmetryPoints,
+  getSymmetryTransforms,
+  resolveSymmetry,
+  type Symmetry,
+} from '../tools/brushHelpers';
+import type { AppState } from '../types';
+
+function symmetry(mode: Symmetry['mode'], segments = 4): Symmetry {
+  return { mode, axisX: 8, axisY: 4, segments };
+}
+
+describe('Symmetry helpers', () => {
+  it('should center unset axes on the canvas', () => {
+    const state = {
+      symmetryMode: 'both' as const,
+      symmetryAxisX: null,
+      symmetryAxisY: 3.5,
+      symmetrySegments: 6,
+    };
+    expect(resolveSymmetry(state, 15, 10)).toEqual({
+      mode: 'both',
+      axisX: 7.5,
+      axisY: 3.5,
+      segments: 6,
+    });
+  });
+
+  it('should mirror across one or both axes', () => {
+    expect(getSymmetryPoints(2.5, 1.5, symmetry('off'))).toEqual([{ x: 2.5, y: 1.5 }]);
+    expect(getSymmetryPoints(2.5, 1.5, symmetry('horizontal'))).toEqual([
+      { x: 2.5, y: 1.5 },
+      { x: 13.5, y: 1.5 },
+    ]);
+    expect(getSymmetryPoints(2.5, 1.5, symmetry('vertical'))).toEqual([
+      { x: 2.5, y: 1.5 },
+      { x: 2.5, y: 6.5 },
+    ]);
+    expect(getSymmetryPoints(2.5, 1.5, symmetry('both'))).toHaveLength(4);
+  });
+
+  it('should not stamp twice on the axis', () => {
+    expect(getSymmetryPoints(8, 1.5, symmetry('horizontal'))).toEqual([{ x: 8, y: 1.5 }]);
+    expect(getSymmetryPoints(8, 4, symmetry('radial', 8))).toEqual([{ x: 8, y: 4 }]);
+  });
+
+  it('should rotate radial copies in equal steps around the center', () => {
+    const points = getSymmetryPoints(10, 4, symmetry('radial', 4));
+    expect(points).toHaveLength(4);
+    expect(points[1]!.x).toBeCloseTo(8);
+    expect(points[1]!.y).toBeCloseTo(6);
+    expect(points[2]!.x).toBeCloseTo(6);
+    expect(points[2]!.y).toBeCloseTo(4);
+    // Transforms keep one entry per copy so strokes can follow each copy
+    expect(getSymmetryTransforms(symmetry('radial', 5))).toHaveLength(5);
+  });
+});
+
+describe('Symmetry settings', () => {
+  beforeEach(() => {
+    StateManager.init({
+      symmetryMode: 'off',
+      symmetryAxisX: null,
+      symmetryAxisY: null,
+      symmetrySegments: 6,
+    } as unknown as AppState);
+  });
+
+  it('should snap axes to half pixels and clamp radial segments', () => {
+    StateManager.setSymmetryAxis(7.3, null);
+    expect(StateManager.getState().symmetryAxisX).toBe(7.5);
+    expect(StateManager.getState().symmetryAxisY).toBeNull();
+
+    StateManager.setSymmetrySegments(40);
+    expect(StateManager.getState().symmetrySegments).toBe(16);
+    StateManager.setSymmetrySegments(1);
+    expect(StateManager.getState().symmetrySegments).toBe(2);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tile Mode Tests
+ * Validates where wrapped stamps land and that offsetting wraps every layer as one history step
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Layers from '../layers';
+import Canvas from '../canvas';
+import CanvasUtils from '../canvasUtils';
+import StateManager from '../stateManager';
+import History from '../history';
+import ImageSizeActions from '../imageSizeActions';
+import { wrapImageData } from '../imageSize';
+import { getTileOffsets, getTilePoints, resolveTileWrap, wrapPoint } from '../tools/tileWrap';
+import { createAppState } from '../../test/appState';
+
+const TILE = { width: 16, height: 8 };
+
+describe('Tile wrap helpers', () => {
+  it('should only wrap when tile mode is on', () => {
+    expect(resolveTileWrap({ tileMode: false }, 16, 8)).toBeNull();
+    expect(resolveTileWrap({ tileMode: true }, 16, 8)).toEqual(TILE);
+    expect(getTilePoints(-1, 4, 3, null)).toEqual([{ x: -1, y: 4 }]);
+  });
+
+  it('should add a copy on the opposite side for stamps crossing an edge', () => {
+    expect(getTilePoints(8, 4, 2, TILE)).toEqual([{ x: 8, y: 4 }]);
+    expect(getTilePoints(1, 4, 2, TILE)).toEqual([
+      { x: 1, y: 4 },
+      { x: 17, y: 4 },
+    ]);
+    // A corner stamp wraps onto all four corners
+    expect(getTilePoints(15, 7, 2, TILE)).toHaveLength(4);
+    // Stamps past an edge land only on the opposite side
+    expect(getTilePoints(-4, 4, 2, TILE)).toEqual([{ x: 12, y: 4 }]);
+  });
+
+  it('should wrap regions and points by whole tiles', () => {
+    expect(getTileOffsets({ x: 14, y: 2, width: 4, height: 2 }, TILE)).toEqual([
+      { x: -16, y: 0 },
+      { x: 0, y: 0 },
+    ]);
+    expect(wrapPoint(-1, 9, TILE)).toEqual({ x: 15, y: 1 });
+    expect(wrapPoint(-1, 9, null)).toEqual({ x: -1, y: 9 });
+  });
+
+  it('should shift images with wrap-around', () => {
+    const source = new ImageData(3, 2);
+    for (let i = 0; i < 6; i++) {
+      source.data[i * 4] = i;
+    }
+    const shifted = wrapImageData(source, 1, -1);
+    const red = Array.from({ length: 6 }, (_, i) => shifted.data[i * 4]);
+    expect(red).toEqual([5, 3, 4, 2, 0, 1]);
+  });
+});
+
+describe('Offset by half', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    const mockCanvas = document.createElement('canvas');
+    mockCanvas.width = 16;
+    mockCanvas.height = 16;
+    CanvasUtils.init(mockCanvas, 16, 16, 1);
+
+    StateManager.init(createAppState());
+    Canvas.init(mockCanvas, undefined, true);
+    History.init(true);
+    vi.spyOn(Canvas, 'resize').mockImplementation(() => {});
+    vi.spyOn(Canvas, 'triggerRender').mockResolvedValue(undefined);
+    vi.spyOn(History, 'saveImmediate').mockResolvedValue(undefined);
+    Layers.init(mockCanvas, mockCanvas.getContext('2d')!);
+  });
+
+  it('should offset every layer as a single history step without resizing', async () => {
+    Layers.createLayer('Tile');
+    const putImageData = vi.spyOn(Layers, 'putImageData');
+    await ImageSizeActions.offsetByHalf();
+
+    expect(putImageData).toHaveBeenCalled();
+    expect(Canvas.resize).not.toHaveBeenCalled();
+    expect(History.saveImmediate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject fractional offsets and skip whole-tile ones', async () => {
+    Layers.createLayer('Tile');
+    await expect(ImageSizeActions.offsetWrapped(0.5, 0)).rejects.toThrow('whole pixels');
+    await ImageSizeActions.offsetWrapped(16, -16);
+    expect(History.saveImmediate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Transform Tests
+ * Validates the geometry and resampling behind the Transform tool and transform sessions
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Layers from '../layers';
+import Canvas from '../canvas';
+import CanvasUtils from '../canvasUtils';
+import StateManager from '../stateManager';
+import History from '../history';
+import SelectionMask from '../selectionMask';
+import TransformActions from '../transformActions';
+import { createRectangularMask } from '../tools/selectionHelpers';
+import {
+  createTransformParams,
+  getTransformCorners,
+  moveCorner,
+  scale2x,
+  scaleFromHandle,
+  skewFromHandle,
+  transformImage,
+  type TransformInterpolation,
+} from '../tools/transformHelpers';
+import { createAppState } from '../../test/appState';
+
+// 3x1 image with an opaque red, green and blue pixel
+function createStrip(): ImageData {
+  const image = new ImageData(3, 1);
+  image.data.set([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255]);
+  return image;
+}
+
+// Opaque colors (as rgba strings) used by the visible pixels of an image
+function getColors(image: ImageData): Set<string> {
+  const colors = new Set<string>();
+  for (let i = 0; i < image.data.length; i += 4) {
+    if (image.data[i + 3]) colors.add(Array.from(image.data.slice(i, i + 4)).join(','));
+  }
+  return colors;
+}
+
+function pixelAt(image: ImageData, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.slice(i, i + 4));
+}
+
+describe('Transform helpers', () => {
+  const box = { x: 0, y: 1, width: 3, height: 1 };
+
+  it('should map the box onto itself until changed', () => {
+    const params = createTransformParams(box);
+    expect(getTransformCorners(box, params)).toEqual([
+      { x: 0, y: 1 },
+      { x: 3, y: 1 },
+      { x: 3, y: 2 },
+      { x: 0, y: 2 },
+    ]);
+    const result = transformImage(createStrip(), getTransformCorners(box, params), 3, 3, 'nearest');
+    expect(pixelAt(result, 0, 1)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(result, 2, 1)).toEqual([0, 0, 255, 255]);
+    expect(result.data[3]).toBe(0);
+  });
+
+  it('should flip and rotate by quarter turns without changing pixels', () => {
+    const flipped = transformImage(
+      createStrip(),
+      getTransformCorners(box, { ...createTransformParams(box), scaleX: -1 }),
+      3,
+      3,
+      'nearest'
+    );
+    expect(pixelAt(flipped, 0, 1)).toEqual([0, 0, 255, 255]);
+
+    const rotated = transformImage(
+      createStrip(),
+      getTransformCorners(box, { ...createTransformParams(box), rotation: 90 }),
+      3,
+      3,
+      'nearest'
+    );
+    expect(pixelAt(rotated, 1, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(rotated, 1, 1)).toEqual([0, 255, 0, 255]);
+    expect(pixelAt(rotated, 1, 2)).toEqual([0, 0, 255, 255]);
+    expect(pixelAt(rotated, 0, 1)[3]).toBe(0);
+  });
+
+  it('should round diagonal steps when upscaling with Scale2x', () => {
+    const black = [0, 0, 0, 255];
+    const white = [255, 255, 255, 255];
+    const image = new ImageData(2, 2);
+    image.data.set([...black, ...white, ...white, ...black]);
+
+    const scaled = scale2x(image);
+    expect(scaled.width).toBe(4);
+    expect(pixelAt(scaled, 0, 0)).toEqual(black);
+    expect(pixelAt(scaled, 1, 1)).toEqual(white);
+  });
+
+  it('should keep the source palette with nearest and RotSprite but not with filtering', () => {
+    const square = { x: 2, y: 2, width: 4, height: 4 };
+    const source = new ImageData(4, 4);
+    for (let i = 0; i < 16; i++) {
+      source.data.set(i % 5 === 0 ? [255, 0, 0, 255] : [0, 0, 255, 255], i * 4);
+    }
+    const corners = getTransformCorners(square, { ...createTransformParams(square), rotation: 30 });
+    const render = (mode: TransformInterpolation) => transformImage(source, corners, 8, 8, mode);
+
+    const palette = getColors(source);
+    for (const mode of ['nearest', 'rotsprite'] as const) {
+      expect([...getColors(render(mode))].every((color) => palette.has(color))).toBe(true);
+    }
+    for (const mode of ['bilinear', 'bicubic'] as const) {
+      expect([...getColors(render(mode))].some((color) => !palette.has(color))).toBe(true);
+    }
+  });
+
+  it('should scale from handles while the opposite side stays put', () => {
+    const square = { x: 0, y: 0, width: 4, height: 4 };
+    const params = createTransformParams(square);
+
+    const corner = scaleFromHandle(square, params, 2, { x: 8, y: 6 });
+    expect(corner).toMatchObject({ scaleX: 2, scaleY: 1.5, centerX: 4, centerY: 3 });
+    expect(scaleFromHandle(square, params, 2, { x: 8, y: 6 }, true)).toMatchObject({
+      scaleX: 2,
+      scaleY: 2,
+    });
+
+    const edge = scaleFromHandle(square, params, 7, { x: -2, y: 3 });
+    expect(edge).toMatchObject({ scaleX: 1.5, scaleY: 1, centerX: 1, centerY: 2 });
+  });
+
+  it('should skew from edges and distort single corners', () => {
+    const square = { x: 0, y: 0, width: 4, height: 4 };
+    const params = createTransformParams(square);
+
+    const skewed = skewFromHandle(square, params, 4, { x: 4, y: 0 });
+    expect(skewed.skewX).toBeCloseTo(-45);
+    expect(getTransformCorners(square, skewed)[0]!.x).toBeCloseTo(2);
+
+    const distorted = moveCorner(square, params, 2, { x: 6, y: 5 });
+    const corners = getTransformCorners(square, distorted);
+    expect(corners[2]).toEqual({ x: 6, y: 5 });
+    expect(corners[0]).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe('TransformActions', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    const mockCanvas = document.createElement('canvas');
+    mockCanvas.width = 16;
+    mockCanvas.height = 16;
+    CanvasUtils.init(mockCanvas, 16, 16, 1);
+
+    StateManager.init(createAppState({ currentTool: 'transform' }));
+    Canvas.init(mockCanvas, undefined, true);
+    History.init(true);
+    vi.spyOn(Canvas, 'getDirtyRegions').mockReturnValue([]);
+    vi.spyOn(Canvas, 'clearDirtyRegions').mockImplementation(() => {});
+    vi.spyOn(Canvas, 'triggerRender').mockResolvedValue(undefined);
+    vi.spyOn(History, 'saveImmediate').mockResolvedValue(undefined);
+    Layers.init(mockCanvas, mockCanvas.getContext('2d')!);
+  });
+
+  // Layer with an opaque 4x4 square at (2, 2)
+  function createSpriteLayer() {
+    const layer = Layers.createLayer('Sprite');
+    const pixels = new ImageData(16, 16);
+    for (let y = 2; y < 6; y++) {
+      for (let x = 2; x < 6; x++) {
+        pixels.data.set([255, 0, 0, 255], (y * 16 + x) * 4);
+      }
+    }
+    Layers.getCachedContext(layer.canvas)!.putImageData(pixels, 0, 0);
+    return layer;
+  }
+
+  it('should transform the layer content box as a single history step', async () => {
+    createSpriteLayer();
+    TransformActions.begin();
+    expect(TransformActions.getBox()).toEqual({ x: 2, y: 2, width: 4, height: 4 });
+
+    TransformActions.update({ rotation: 45 });
+    TransformActions.flip('horizontal');
+    expect(TransformActions.getParams()).toMatchObject({ rotation: 45, scaleX: -1 });
+    expect(History.saveImmediate).not.toHaveBeenCalled();
+
+    expect(await TransformActions.commit()).toBe(true);
+    expect(TransformActions.isTransforming()).toBe(false);
+    expect(History.saveImmediate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not record untouched or cancelled transforms', async () => {
+    createSpriteLayer();
+    TransformActions.begin();
+    expect(await TransformActions.commit()).toBe(false);
+
+    TransformActions.begin();
+    TransformActions.update({ scaleX: 2 });
+    TransformActions.cancel();
+    expect(TransformActions.isTransforming()).toBe(false);
+    expect(History.saveImmediate).not.toHaveBeenCalled();
+  });
+
+  it('should transform the selection along with the selected pixels', async () => {
+    createSpriteLayer();
+    SelectionMask.apply(createRectangularMask(2, 2, 4, 4, 16, 16));
+    TransformActions.begin();
+    TransformActions.update({ centerX: 8 });
+
+    expect(await TransformActions.commit()).toBe(true);
+    expect(StateManager.getState().selection).toMatchObject({ x: 6, y: 2, width: 4, height: 4 });
+  });
+
+  it('should refuse locked and empty layers', () => {
+    const layer = Layers.createLayer('Empty');
+    expect(() => TransformActions.begin()).toThrow('Nothing to transform');
+
+    Layers.updateLayer(layer.id, { locked: true });
+    expect(() => TransformActions.begin()).toThrow('locked');
+    expect(TransformActions.isTransforming()).toBe(false);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Viewport Tests
+ * Validates zoom and pan math and the coordinate conversions that depend on it
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Viewport from '../viewport';
+import Canvas from '../canvas';
+import CanvasUtils from '../canvasUtils';
+import Layers from '../layers';
+import EventEmitter from '../utils/eventEmitter';
+import {
+  clampPan,
+  getFitZoom,
+  getVisibleDocumentRect,
+  getZoomStep,
+  zoomAtPoint,
+} from '../viewportGeometry';
+import { MAX_ZOOM, MIN_ZOOM } from '../constants';
+
+describe('Viewport geometry', () => {
+  it('should step through whole-number zoom levels up to the maximum', () => {
+    expect(getZoomStep(1, 1)).toBe(2);
+    expect(getZoomStep(2, -1)).toBe(1);
+    // Levels between steps snap to the neighbors
+    expect(getZoomStep(2.5, 1)).toBe(3);
+    expect(getZoomStep(2.5, -1)).toBe(2);
+    expect(getZoomStep(MAX_ZOOM, 1)).toBe(MAX_ZOOM);
+    expect(getZoomStep(MIN_ZOOM, -1)).toBe(MIN_ZOOM);
+  });
+
+  it('should keep the anchor point fixed when zooming', () => {
+    const view = zoomAtPoint({ zoom: 2, panX: 10, panY: 20 }, 8, 110, 220);
+    expect(view.zoom).toBe(8);
+    // Document point (50, 100) was under the anchor before and still is
+    expect((110 - view.panX) / view.zoom).toBe(50);
+    expect((220 - view.panY) / view.zoom).toBe(100);
+    expect(zoomAtPoint(view, 10000, 0, 0).zoom).toBe(MAX_ZOOM);
+  });
+
+  it('should fit and fill with whole-number zoom from 100% up', () => {
+    const sprite = { width: 32, height: 16 };
+    const screen = { width: 500, height: 300 };
+    expect(getFitZoom(sprite, screen, 'fit')).toBe(15);
+    expect(getFitZoom(sprite, screen, 'fill')).toBe(19);
+    expect(getFitZoom({ width: 2000, height: 1000 }, screen, 'fit')).toBe(0.25);
+  });
+
+  it('should keep part of the document on screen and snap to device pixels', () => {
+    const doc = { width: 32, height: 32 };
+    const screen = { width: 400, height: 300 };
+    const offscreen = clampPan({ zoom: 4, panX: 5000, panY: -5000 }, doc, screen);
+    expect(offscreen.panX).toBe(400 - 32);
+    expect(offscreen.panY).toBe(32 - 128);
+    expect(clampPan({ zoom: 4, panX: 10.3, panY: 10.8 }, doc, screen, 2)).toEqual({
+      zoom: 4,
+      panX: 10.5,
+      panY: 11,
+    });
+  });
+
+  it('should report the visible part of the document in whole pixels', () => {
+    const doc = { width: 64, height: 64 };
+    const screen = { width: 100, height: 80 };
+    expect(getVisibleDocumentRect({ zoom: 10, panX: -205, panY: 0 }, doc, screen)).toEqual({
+      x: 20,
+      y: 0,
+      width: 11,
+      height: 8,
+    });
+    expect(getVisibleDocumentRect({ zoom: 1, panX: 200, panY: 0 }, doc, screen).width).toBe(0);
+  });
+});
+
+describe('Viewport', () => {
+  beforeEach(() => {
+    const mockCanvas = document.createElement('canvas');
+    mockCanvas.width = 64;
+    mockCanvas.height = 64;
+    Canvas.init(mockCanvas);
+    Viewport.init(64, 64);
+    Viewport.setViewportSize(0, 0);
+    Viewport.setZoom(1);
+  });
+
+  it('should center the document once the viewport is measured', () => {
+    Viewport.setViewportSize(400, 200);
+    expect(Viewport.getState()).toEqual({ zoom: 1, panX: 168, panY: 68 });
+  });
+
+  it('should zoom to an anchor and emit changes', () => {
+    Viewport.setViewportSize(400, 200);
+    const listener = vi.fn();
+    EventEmitter.on('viewport:change', listener);
+    Viewport.zoomIn(168, 68);
+    EventEmitter.off('viewport:change', listener);
+
+    expect(listener).toHaveBeenCalledWith({ zoom: 2, panX: 168, panY: 68 });
+    expect(Viewport.toDocument(200, 100)).toEqual({ x: 16, y: 16 });
+  });
+
+  it('should fit the document and return to actual pixels', () => {
+    Viewport.setViewportSize(800, 600);
+    Viewport.fitToScreen();
+    expect(Viewport.getState().zoom).toBe(7);
+    Viewport.actualPixels();
+    expect(Viewport.getState().zoom).toBe(1);
+  });
+
+  it('should recenter when the document is resized', () => {
+    Viewport.setViewportSize(400, 200);
+    Viewport.panBy(-50, 0);
+    EventEmitter.emit('canvas:resize', { width: 100, height: 100 });
+    expect(Viewport.getDocumentSize()).toEqual({ width: 100, height: 100 });
+    expect(Viewport.getState()).toEqual({ zoom: 1, panX: 150, panY: 50 });
+  });
+
+  it('should drive Layers.getViewportBounds under any pan offset', () => {
+    const mockCanvas = document.createElement('canvas');
+    CanvasUtils.init(mockCanvas, 64, 64, 1);
+    expect(Layers.getViewportBounds()).toEqual({ x: 0, y: 0, width: 64, height: 64 });
+
+    Viewport.setViewportSize(100, 100);
+    Viewport.setZoom(4);
+    Viewport.panBy(-60, -20);
+    // Document origin at (-138, -98): columns 34.5-59.5 and rows 24.5-49.5 are on screen
+    expect(Viewport.getState()).toEqual({ zoom: 4, panX: -138, panY: -98 });
+    expect(Layers.getViewportBounds()).toEqual({ x: 34, y: 24, width: 26, height: 26 });
+  });
+
+  it('should map pointer positions through the panned and zoomed canvas', () => {
+    const canvas = Canvas.getCanvas()!;
+    // 64x64 document at 800%, panned so its corner sits at (-100, 40) on screen
+    vi.spyOn(canvas, 'getBoundingClientRect').mockReturnValue(
+      new DOMRect(-100, 40, 64 * 8, 64 * 8)
+    );
+    const point = Canvas.getCanvasCoordsPrecise(
+      new MouseEvent('pointermove', { clientX: 60, clientY: 80 })
+    );
+    expect(point).toEqual({ x: 20, y: 5 });
+  });
+});
@@ -149,7 +149,7 @@ const PixelStudio = (function () {
    */
   function clearSelection(): void {
     StateManager.setSelection(null);
-    StateManager.setColorRangeSelection(null);
+    StateManager.setSelectionMask(null);
     Canvas.clearOverlay();
     if (elements && elements.selectionOverlay) {
       elements.selectionOverlay.style.display = 'none';
@@ -190,9 +190,9 @@ const PixelStudio = (function () {
     try {
       const state = StateManager.getState();
       EventEmitter.emit('app:selectionChange', {
-        hasSelection: !!(state.selection || state.colorRangeSelection),
+        hasSelection: !!(state.selection || state.selectionMask),
         selection: state.selection,
-        colorRangeSelection: state.colorRangeSelection ? 'present' : null, // Don't send full array
+        selectionMask: state.selectionMask ? 'present' : null, // Don't send full array
       });
     } catch (error) {
       logger.error('Failed to emit selection change:', error);
@@ -200,7 +200,7 @@ const PixelStudio = (function () {
       EventEmitter.emit('app:selectionChange', {
         hasSelection: false,
         selection: null,
-        colorRangeSelection: null,
+        selectionMask: null,
       });
     }
   }
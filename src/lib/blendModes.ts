@@ -150,11 +150,17 @@ export function applyBlendMode(
         b = overlayB;
     }
 
-    // Blend with opacity
-    const finalR = baseR * (1 - overlayA) + r * overlayA;
-    const finalG = baseG * (1 - overlayA) + g * overlayA;
-    const finalB = baseB * (1 - overlayA) + b * overlayA;
-    const finalA = baseA + overlayA * (1 - baseA);
+    // Where the base is transparent the overlay shows unblended
+    r = (1 - baseA) * overlayR + baseA * r;
+    g = (1 - baseA) * overlayG + baseA * g;
+    b = (1 - baseA) * overlayB + baseA * b;
+
+    // Blend with opacity (source-over on non-premultiplied colors)
+    const finalA = overlayA + baseA * (1 - overlayA);
+    const invAlpha = finalA > 0 ? 1 / finalA : 0;
+    const finalR = (r * overlayA + baseR * baseA * (1 - overlayA)) * invAlpha;
+    const finalG = (g * overlayA + baseG * baseA * (1 - overlayA)) * invAlpha;
+    const finalB = (b * overlayA + baseB * baseA * (1 - overlayA)) * invAlpha;
 
     resultData[i] = Math.round(finalR * 255);
     resultData[i + 1] = Math.round(finalG * 255);
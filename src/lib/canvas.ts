@@ -5,10 +5,12 @@
 
 import Layers from './layers';
 import CanvasUtils from './canvasUtils';
+import { resizeMaskCanvas } from './layerMask';
+import { isGroupLayer } from './layerTree';
 import StateManager from './stateManager';
 import EventEmitter from './utils/eventEmitter';
 import { logger } from './utils/logger';
-import { DEFAULT_CANVAS_WIDTH, DEFAULT_CANVAS_HEIGHT } from './constants';
+import { DEFAULT_CANVAS_WIDTH, DEFAULT_CANVAS_HEIGHT, MAX_CANVAS_SIZE } from './constants';
 
 const Canvas = (function () {
   let canvas: HTMLCanvasElement | null = null;
@@ -22,11 +24,14 @@ const Canvas = (function () {
   // Dirty rectangle tracking for optimized rendering
   let dirtyRegions: Array<{ x: number; y: number; width: number; height: number }> = [];
   let dirtyTrackingEnabled = true;
-  // Image layer tracking for move/scale/rotate tools
+  // Regions changed since history last compared the document; unlike dirtyRegions, redraws
+  // keep them
+  let historyRegions: Array<{ x: number; y: number; width: number; height: number }> = [];
+  // Placement of uploaded images on their layers
   const imageLayerMetadata = new Map<
     string,
     {
-      source: HTMLImageElement;
+      source: HTMLImageElement | HTMLCanvasElement;
       scaledWidth: number;
       scaledHeight: number;
       offsetX: number;
@@ -70,13 +75,12 @@ const Canvas = (function () {
 
     // Scale canvas for high-DPI displays (Retina, etc.)
     // This ensures crisp rendering on all displays
+    // The on-screen size follows the viewport zoom (see Viewport), so no CSS size is set here
     if (devicePixelRatio > 1) {
       const physicalWidth = logicalWidth * devicePixelRatio;
       const physicalHeight = logicalHeight * devicePixelRatio;
       canvas.width = physicalWidth;
       canvas.height = physicalHeight;
-      canvas.style.width = `${logicalWidth}px`;
-      canvas.style.height = `${logicalHeight}px`;
     } else {
       // Ensure dimensions are set even without DPR
       canvas.width = logicalWidth;
@@ -98,8 +102,6 @@ const Canvas = (function () {
       if (devicePixelRatio > 1) {
         selectionCanvas.width = logicalWidth * devicePixelRatio;
         selectionCanvas.height = logicalHeight * devicePixelRatio;
-        selectionCanvas.style.width = `${logicalWidth}px`;
-        selectionCanvas.style.height = `${logicalHeight}px`;
       }
 
       selectionCtx = selectionCanvas.getContext('2d', {
@@ -143,7 +145,7 @@ const Canvas = (function () {
 
   /**
    * Get the canvas context
-   * If layers are enabled, returns the active layer's context
+   * If layers are enabled, returns the active layer's context (or its mask in mask edit mode)
    * Uses cached contexts for better performance
    * Prevents drawing to locked layers (professional standard)
    */
@@ -174,13 +176,18 @@ const Canvas = (function () {
             throw new Error(`Active layer ${activeLayerId} not found`);
           }
 
-          // Prevent drawing to locked layers (professional standard)
-          if (layer.locked) {
+          // Groups hold no pixels of their own
+          if (isGroupLayer(layer)) {
+            throw new Error('Cannot draw on a layer group');
+          }
+
+          // Prevent drawing to locked layers, including layers in locked groups (professional standard)
+          if (Layers.isLayerLocked(layer.id)) {
             throw new Error('Cannot draw to locked layer');
           }
 
-          // Use cached context from Layers module
-          const layerCtx = Layers.getCachedContext(layer.canvas);
+          // Use cached context from Layers module (the mask while it is being edited)
+          const layerCtx = Layers.getCachedContext(Layers.getPaintCanvas(layer));
           if (!layerCtx) {
             throw new Error('Layer context not available');
           }
@@ -256,7 +263,7 @@ const Canvas = (function () {
 
   /**
    * Get image data from canvas
-   * If layers are enabled, returns data from active layer
+   * If layers are enabled, returns data from active layer (or its mask in mask edit mode)
    */
   function getImageData(): ImageData {
     if (!isInitialized()) {
@@ -266,7 +273,7 @@ const Canvas = (function () {
       try {
         const activeLayerId = StateManager.getState().activeLayerId;
         if (activeLayerId) {
-          const imageData = Layers.getImageData(activeLayerId);
+          const imageData = Layers.getPaintImageData(activeLayerId);
           if (imageData) {
             return imageData;
           }
@@ -308,7 +315,7 @@ const Canvas = (function () {
           const layer = Layers.get(activeLayerId);
           if (layer) {
             // Use cached context for performance and consistency
-            const layerCtx = Layers.getCachedContext(layer.canvas);
+            const layerCtx = Layers.getCachedContext(Layers.getPaintCanvas(layer));
             if (layerCtx) {
               // Use logical dimensions since context is scaled by DPR
               // Clamp coordinates to valid bounds
@@ -362,9 +369,9 @@ const Canvas = (function () {
         const activeLayerId = StateManager.getState().activeLayerId;
         if (activeLayerId) {
           const layer = Layers.get(activeLayerId);
-          if (layer) {
+          if (layer && !isGroupLayer(layer)) {
             // Use cached context for performance and consistency
-            const layerCtx = Layers.getCachedContext(layer.canvas);
+            const layerCtx = Layers.getCachedContext(Layers.getPaintCanvas(layer));
             if (layerCtx) {
               // Put image data at specified coordinates on the layer
               layerCtx.putImageData(imageData, x, y);
@@ -491,6 +498,7 @@ const Canvas = (function () {
     if (clampedWidth <= 0 || clampedHeight <= 0) return;
 
     dirtyRegions.push({ x: clampedX, y: clampedY, width: clampedWidth, height: clampedHeight });
+    addHistoryRegion(clampedX, clampedY, clampedWidth, clampedHeight);
 
     // Optimize regions periodically (every 10 additions) or if too many
     if (dirtyRegions.length % 10 === 0 || dirtyRegions.length > 50) {
@@ -511,6 +519,41 @@ const Canvas = (function () {
     dirtyRegions = [];
   }
 
+  /**
+   * Mark a region as changed for history only, for pixels drawn straight on a layer's context
+   * Unlike markDirtyRegion, it does not narrow the next redraw
+   */
+  function markChangedRegion(x: number, y: number, width: number, height: number): void {
+    const clampedX = Math.max(0, Math.min(x, logicalWidth));
+    const clampedY = Math.max(0, Math.min(y, logicalHeight));
+    const clampedWidth = Math.min(x + width, logicalWidth) - clampedX;
+    const clampedHeight = Math.min(y + height, logicalHeight) - clampedY;
+    if (clampedWidth <= 0 || clampedHeight <= 0) return;
+    addHistoryRegion(clampedX, clampedY, clampedWidth, clampedHeight);
+  }
+
+  function addHistoryRegion(x: number, y: number, width: number, height: number): void {
+    historyRegions.push({ x, y, width, height });
+    if (historyRegions.length > 100) {
+      // Compared as one area around them all instead
+      const left = Math.min(...historyRegions.map((region) => region.x));
+      const top = Math.min(...historyRegions.map((region) => region.y));
+      const right = Math.max(...historyRegions.map((region) => region.x + region.width));
+      const bottom = Math.max(...historyRegions.map((region) => region.y + region.height));
+      historyRegions = [{ x: left, y: top, width: right - left, height: bottom - top }];
+    }
+  }
+
+  /**
+   * Take the regions marked dirty or changed since the last call, so history compares only those
+   * Empty when nothing reported its changes; history then compares the whole document
+   */
+  function takeHistoryRegions(): Array<{ x: number; y: number; width: number; height: number }> {
+    const regions = historyRegions;
+    historyRegions = [];
+    return regions;
+  }
+
   /**
    * Get current dirty regions
    */
@@ -588,8 +631,8 @@ const Canvas = (function () {
   function resize(width: number, height: number): void {
     if (!canvas) return;
 
-    const newWidth = Math.min(4096, Math.max(1, width));
-    const newHeight = Math.min(4096, Math.max(1, height));
+    const newWidth = Math.min(MAX_CANVAS_SIZE, Math.max(1, width));
+    const newHeight = Math.min(MAX_CANVAS_SIZE, Math.max(1, height));
 
     // Update logical dimensions
     logicalWidth = newWidth;
@@ -654,13 +697,17 @@ const Canvas = (function () {
             }
           }
         }
+
+        // Masks stay at logical size
+        if (layer.mask) {
+          Layers.invalidateContextCache(layer.mask);
+          resizeMaskCanvas(layer.mask, newWidth, newHeight);
+        }
       }
 
       // Resize main canvas (physical pixels)
       canvas.width = physicalWidth;
       canvas.height = physicalHeight;
-      canvas.style.width = `${newWidth}px`;
-      canvas.style.height = `${newHeight}px`;
 
       // Re-scale context (get new context and scale it)
       const tempCtx = canvas.getContext('2d', {
@@ -683,8 +730,6 @@ const Canvas = (function () {
       const imageData = getImageData();
       canvas.width = physicalWidth;
       canvas.height = physicalHeight;
-      canvas.style.width = `${newWidth}px`;
-      canvas.style.height = `${newHeight}px`;
 
       // Re-scale context
       const tempCtx = canvas.getContext('2d', {
@@ -704,6 +749,8 @@ const Canvas = (function () {
     if (useLayers) {
       redraw();
     }
+
+    EventEmitter.emit('canvas:resize', { width: newWidth, height: newHeight });
   }
 
   /**
@@ -856,7 +903,7 @@ const Canvas = (function () {
    * Get precise canvas coordinates from pointer event with sub-pixel precision
    * Returns floating-point coordinates for accurate tool placement
    * Professional apps maintain sub-pixel precision internally for accuracy
-   * Accounts for device pixel ratio and zoom transformations
+   * Accounts for device pixel ratio, viewport zoom and pan (all reflected in the on-screen rect)
    */
   function getCanvasCoordsPrecise(e: PointerEvent | MouseEvent): { x: number; y: number } {
     if (!canvas) {
@@ -1023,6 +1070,72 @@ const Canvas = (function () {
     }
   }
 
+  /**
+   * Keep an image layer's placement in step after its pixels were moved directly
+   * (e.g. by the Move tool or a Canvas Size change with an anchor)
+   */
+  function offsetImageLayer(layerId: string, dx: number, dy: number): void {
+    const metadata = imageLayerMetadata.get(layerId);
+    if (metadata) {
+      metadata.offsetX += dx;
+      metadata.offsetY += dy;
+    }
+  }
+
+  /**
+   * Re-register an image layer after its pixels were restored (e.g. when opening a project file)
+   * The original source image is gone, so the placed region of the layer becomes the new source
+   * @param layerId Restored layer ID
+   * @param offsetX Image X offset within the layer
+   * @param offsetY Image Y offset within the layer
+   * @param width Placed (scaled) image width
+   * @param height Placed (scaled) image height
+   */
+  function restoreImageLayer(
+    layerId: string,
+    offsetX: number,
+    offsetY: number,
+    width: number,
+    height: number
+  ): boolean {
+    if (!useLayers || typeof document === 'undefined') {
+      return false;
+    }
+    const imageData = Layers.getImageData(layerId);
+    if (!imageData || width <= 0 || height <= 0) {
+      return false;
+    }
+
+    const sourceWidth = Math.max(1, Math.round(width));
+    const sourceHeight = Math.max(1, Math.round(height));
+    const source = document.createElement('canvas');
+    source.width = sourceWidth;
+    source.height = sourceHeight;
+    const sourceCtx = source.getContext('2d');
+    if (!sourceCtx) {
+      return false;
+    }
+    // putImageData with a negative offset and dirty rect copies just the placed region
+    sourceCtx.putImageData(
+      imageData,
+      -Math.round(offsetX),
+      -Math.round(offsetY),
+      Math.round(offsetX),
+      Math.round(offsetY),
+      sourceWidth,
+      sourceHeight
+    );
+
+    imageLayerMetadata.set(layerId, {
+      source,
+      scaledWidth: width,
+      scaledHeight: height,
+      offsetX,
+      offsetY,
+    });
+    return true;
+  }
+
   // Public API
   return {
     init,
@@ -1051,11 +1164,18 @@ const Canvas = (function () {
     markDirtyRegion,
     clearDirtyRegions,
     getDirtyRegions,
+    markChangedRegion,
+    takeHistoryRegions,
     setDirtyTracking,
     getImageLayer,
     getImageOffset,
     setImageOffset,
+    offsetImageLayer,
+    restoreImageLayer,
     getMainContext,
+    // Expose event emitter for components to subscribe
+    on: EventEmitter.on.bind(EventEmitter),
+    off: EventEmitter.off.bind(EventEmitter),
   };
 })();
 
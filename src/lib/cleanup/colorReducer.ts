@@ -10,6 +10,7 @@ import {
   deltaE,
 } from './utils/colorDistance';
 import WorkerManager from '../workers/workerManager';
+import { ditherToPalette, type DitherMethod } from '../dither';
 import { logger } from '../utils/logger';
 
 export type ColorReducerMode = 'auto-clean' | 'palette-lock' | 'quantize';
@@ -21,6 +22,7 @@ export interface ColorReducerOptions {
   palette?: Array<{ r: number; g: number; b: number }>; // For palette-lock: target palette
   useWorker?: boolean; // Use Web Worker for large images
   useLab?: boolean; // Use LAB color space for better perceptual accuracy
+  dither?: DitherMethod; // For palette-lock and quantize: how to make up for missing colors
   onProgress?: (progress: number, stage: string) => void; // Progress callback
 }
 
@@ -128,8 +130,13 @@ function autoCleanColors(imageData: ImageData, threshold: number, useLab: boolea
 function lockToPalette(
   imageData: ImageData,
   palette: Array<{ r: number; g: number; b: number }>,
-  useLab: boolean
+  useLab: boolean,
+  dither: DitherMethod = 'none'
 ): ImageData {
+  if (dither !== 'none') {
+    return ditherToPalette(imageData, palette, dither, useLab);
+  }
+
   const { width, height, data } = imageData;
   const result = new ImageData(width, height);
   result.data.set(data);
@@ -262,6 +269,7 @@ async function quantizeColors(
   imageData: ImageData,
   nColors: number,
   useWorker: boolean,
+  dither: DitherMethod,
   onProgress?: (progress: number, stage: string) => void
 ): Promise<ImageData> {
   if (useWorker && WorkerManager.isCleanupWorkerAvailable()) {
@@ -283,6 +291,10 @@ async function quantizeColors(
         progressCallback
       )) as ImageData;
 
+      if (dither !== 'none') {
+        // The worker maps every pixel to its nearest color; dither again with its palette
+        return lockToPalette(imageData, extractUniqueColors(result), true, dither);
+      }
       return result;
     } catch (error) {
       logger.warn('Worker quantization failed, falling back to main thread:', error);
@@ -301,7 +313,7 @@ async function quantizeColors(
   const palette = kmeansClusteringMainThread(imageData, nColors, 20);
 
   // Assign pixels to nearest palette color using LAB color space
-  return lockToPalette(imageData, palette, true);
+  return lockToPalette(imageData, palette, true, dither);
 }
 
 /**
@@ -318,6 +330,7 @@ export async function reduceColorNoise(
     palette,
     useWorker = true,
     useLab = true,
+    dither = 'none',
     onProgress,
   } = options;
 
@@ -329,10 +342,10 @@ export async function reduceColorNoise(
       if (!palette || palette.length === 0) {
         throw new Error('Palette required for palette-lock mode');
       }
-      return lockToPalette(imageData, palette, useLab);
+      return lockToPalette(imageData, palette, useLab, dither);
 
     case 'quantize':
-      return quantizeColors(imageData, nColors, useWorker, onProgress);
+      return quantizeColors(imageData, nColors, useWorker, dither, onProgress);
 
     default:
       throw new Error(`Unknown color reducer mode: ${mode}`);
@@ -6,11 +6,22 @@
 // Canvas dimensions
 export const DEFAULT_CANVAS_WIDTH = 512;
 export const DEFAULT_CANVAS_HEIGHT = 512;
+// Largest document width or height
+export const MAX_CANVAS_SIZE = 4096;
+
+// Viewport zoom (1 = one screen pixel per document pixel)
+export const MIN_ZOOM = 0.125;
+export const MAX_ZOOM = 64;
+// Zoom in/out steps; every step from 100% up is a whole number so pixels stay square
+export const ZOOM_STEPS = [
+  0.125, 0.25, 0.5, 1, 2, 3, 4, 5, 6, 8, 10, 12, 16, 20, 24, 32, 40, 48, 64,
+] as const;
+// Width of the rulers along the top and left edges of the viewport, in CSS pixels
+export const RULER_SIZE = 16;
 
 // Timing constants (in milliseconds)
 export const DEBOUNCE_DELAY = 300;
 export const AUTO_SAVE_INTERVAL = 30000; // 30 seconds
-export const MIN_SAVE_INTERVAL = 5000; // 5 seconds
 export const DOUBLE_TAP_DELAY = 300;
 
 // Timeout constants (in milliseconds)
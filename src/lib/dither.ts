@@ -0,0 +1,197 @@
+/**
+ * Dither
+ * Ordered (Bayer and custom pattern) thresholds shared by dither brushes and dithered
+ * gradients, and error-diffusion and ordered dithering for reducing images to a palette
+ */
+
+import { rgbToLab } from './cleanup/utils/colorDistance';
+
+export type DitherMethod = 'none' | 'floyd-steinberg' | 'atkinson' | 'ordered';
+
+/**
+ * Tileable grid of thresholds between 0 and 1; a pixel is painted when the amount of
+ * paint it should get exceeds its cell's threshold
+ */
+export interface DitherPattern {
+  width: number;
+  height: number;
+  thresholds: number[];
+}
+
+// Largest custom pattern side
+const MAX_PATTERN_SIZE = 8;
+
+// Error shares passed on to neighbours as [dx, dy, weight]
+const DIFFUSION_KERNELS: Record<'floyd-steinberg' | 'atkinson', [number, number, number][]> = {
+  'floyd-steinberg': [
+    [1, 0, 7 / 16],
+    [-1, 1, 3 / 16],
+    [0, 1, 5 / 16],
+    [1, 1, 1 / 16],
+  ],
+  // Atkinson passes on only 6/8 of the error, keeping highlights and shadows clean
+  atkinson: [
+    [1, 0, 1 / 8],
+    [2, 0, 1 / 8],
+    [-1, 1, 1 / 8],
+    [0, 1, 1 / 8],
+    [1, 1, 1 / 8],
+    [0, 2, 1 / 8],
+  ],
+};
+
+/**
+ * Bayer matrix of a power-of-two size, in row order with values 0 to size² - 1
+ */
+export function getBayerMatrix(size: number): number[] {
+  if (size <= 1) return [0];
+  const half = size / 2;
+  const smaller = getBayerMatrix(half);
+  const matrix = new Array<number>(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const base = smaller[(y % half) * half + (x % half)]! * 4;
+      // Quadrants add 0 (top-left), 2 (top-right), 3 (bottom-left) and 1 (bottom-right)
+      const quadrant = [0, 2, 3, 1][(y < half ? 0 : 2) + (x < half ? 0 : 1)]!;
+      matrix[y * size + x] = base + quadrant;
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Ordered dither pattern from a Bayer matrix
+ */
+export function createBayerPattern(size: number): DitherPattern {
+  const cells = size * size;
+  return {
+    width: size,
+    height: size,
+    thresholds: getBayerMatrix(size).map((value) => (value + 0.5) / cells),
+  };
+}
+
+/**
+ * Parse a custom pattern of rows of 0 and 1 separated by "/" or new lines (e.g. "10/01")
+ * Cells marked 1 are always painted and cells marked 0 never are
+ * @returns Pattern, or null when the rows are empty, uneven, larger than 8 or not 0 and 1
+ */
+export function parseDitherPattern(text: string): DitherPattern | null {
+  const rows = text
+    .split(/[/\n]/)
+    .map((row) => row.trim())
+    .filter((row) => row.length > 0);
+  const width = rows[0]?.length ?? 0;
+  if (
+    rows.length === 0 ||
+    rows.length > MAX_PATTERN_SIZE ||
+    width > MAX_PATTERN_SIZE ||
+    rows.some((row) => row.length !== width || !/^[01]+$/.test(row))
+  ) {
+    return null;
+  }
+  return {
+    width,
+    height: rows.length,
+    thresholds: rows.flatMap((row) => [...row].map((cell) => (cell === '1' ? 0 : 1))),
+  };
+}
+
+/**
+ * Whether a pixel is painted at an amount of paint between 0 and 1
+ * The pattern is anchored at the document origin so neighbouring areas line up
+ */
+export function isDitherOn(pattern: DitherPattern, x: number, y: number, amount: number): boolean {
+  const px = ((x % pattern.width) + pattern.width) % pattern.width;
+  const py = ((y % pattern.height) + pattern.height) % pattern.height;
+  return amount > pattern.thresholds[py * pattern.width + px]!;
+}
+
+function clampChannel(value: number): number {
+  return Math.max(0, Math.min(255, value));
+}
+
+/**
+ * Nearest palette entry lookup, comparing in LAB or plain RGB
+ */
+function createNearestLookup(
+  palette: Array<{ r: number; g: number; b: number }>,
+  useLab: boolean
+): (r: number, g: number, b: number) => number {
+  // Palette colors are converted once rather than for every pixel
+  const points = palette.map((color) =>
+    useLab ? rgbToLab(color.r, color.g, color.b) : { l: color.r, a: color.g, b: color.b }
+  );
+  return (r, g, b) => {
+    const point = useLab ? rgbToLab(r, g, b) : { l: r, a: g, b };
+    let nearest = 0;
+    let minDistance = Infinity;
+    for (let i = 0; i < points.length; i++) {
+      const other = points[i]!;
+      const distance =
+        (point.l - other.l) ** 2 + (point.a - other.a) ** 2 + (point.b - other.b) ** 2;
+      if (distance < minDistance) {
+        minDistance = distance;
+        nearest = i;
+      }
+    }
+    return nearest;
+  };
+}
+
+/**
+ * Map an image to a palette, dithering to make up for the missing colors
+ * Transparent pixels (alpha below 128) are left alone and take no error; alpha is kept
+ * @param method - 'none' maps every pixel to its nearest palette entry
+ */
+export function ditherToPalette(
+  imageData: ImageData,
+  palette: Array<{ r: number; g: number; b: number }>,
+  method: DitherMethod,
+  useLab = true
+): ImageData {
+  const { width, height, data } = imageData;
+  const result = new ImageData(width, height);
+  result.data.set(data);
+  if (palette.length === 0) return result;
+
+  const nearest = createNearestLookup(palette, useLab);
+  const kernel =
+    method === 'floyd-steinberg' || method === 'atkinson' ? DIFFUSION_KERNELS[method] : null;
+  const bayer = method === 'ordered' ? createBayerPattern(8) : null;
+  // Ordered offsets reach about half the spacing of a palette spread over the RGB cube
+  const spread = 255 / Math.cbrt(palette.length);
+  // Color each pixel should get, including the error passed on by its neighbours
+  const wanted = kernel ? Float32Array.from(data) : null;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i + 3]! < 128) continue;
+
+      const offset = bayer ? (bayer.thresholds[(y % 8) * 8 + (x % 8)]! - 0.5) * spread : 0;
+      // Clamped so runaway error cannot build up in flat areas
+      const r = clampChannel((wanted ? wanted[i]! : data[i]!) + offset);
+      const g = clampChannel((wanted ? wanted[i + 1]! : data[i + 1]!) + offset);
+      const b = clampChannel((wanted ? wanted[i + 2]! : data[i + 2]!) + offset);
+      const color = palette[nearest(r, g, b)]!;
+      result.data[i] = color.r;
+      result.data[i + 1] = color.g;
+      result.data[i + 2] = color.b;
+
+      if (!kernel || !wanted) continue;
+      const errors = [r - color.r, g - color.g, b - color.b];
+      for (const [dx, dy, weight] of kernel) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny >= height) continue;
+        const j = (ny * width + nx) * 4;
+        if (data[j + 3]! < 128) continue;
+        for (let c = 0; c < 3; c++) {
+          wanted[j + c] = wanted[j + c]! + errors[c]! * weight;
+        }
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,118 @@
+/**
+ * Animated PNG Export
+ * Builds an APNG from per-frame PNGs encoded by the browser
+ * The first frame's IDAT doubles as the default image; later frames become fdAT chunks
+ */
+
+import { readPngChunks, buildPng, type PngChunk } from './png';
+import { imageDataToArrayBuffer } from '../imageUtils';
+
+export const APNG_MIME_TYPE = 'image/apng';
+
+// fcTL dispose_op / blend_op values
+const DISPOSE_OP_BACKGROUND = 1;
+const BLEND_OP_SOURCE = 0;
+
+export interface ApngFrame {
+  png: Uint8Array; // Complete PNG file for the frame
+  duration: number; // Milliseconds
+}
+
+function uint32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+function buildFrameControl(
+  sequence: number,
+  width: number,
+  height: number,
+  duration: number
+): Uint8Array {
+  const data = new Uint8Array(26);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, sequence);
+  view.setUint32(4, width);
+  view.setUint32(8, height);
+  view.setUint32(12, 0); // x offset
+  view.setUint32(16, 0); // y offset
+  view.setUint16(20, Math.max(0, Math.min(0xffff, Math.round(duration))));
+  view.setUint16(22, 1000); // Delay is expressed in milliseconds
+  data[24] = DISPOSE_OP_BACKGROUND;
+  data[25] = BLEND_OP_SOURCE;
+  return data;
+}
+
+/**
+ * Combine full-size frame PNGs into an animated PNG
+ * @param loops - Number of times to play (0 = forever)
+ * @throws Error if there are no frames or the frame sizes differ
+ */
+export function assembleApng(frames: ApngFrame[], loops: number = 0): Uint8Array<ArrayBuffer> {
+  if (frames.length === 0) {
+    throw new Error('Animation has no frames');
+  }
+
+  const parsed = frames.map((frame) => readPngChunks(frame.png));
+  const header = parsed[0]!.find((chunk) => chunk.type === 'IHDR');
+  if (!header) {
+    throw new Error('Invalid PNG: missing IHDR chunk');
+  }
+  const headerView = new DataView(header.data.buffer, header.data.byteOffset, 8);
+  const width = headerView.getUint32(0);
+  const height = headerView.getUint32(4);
+
+  const chunks: PngChunk[] = [header];
+  const acTL = new Uint8Array(8);
+  new DataView(acTL.buffer).setUint32(0, frames.length);
+  new DataView(acTL.buffer).setUint32(4, loops);
+  chunks.push({ type: 'acTL', data: acTL });
+
+  // Keep ancillary chunks of the first frame that must precede the image data
+  const firstDataIndex = parsed[0]!.findIndex((chunk) => chunk.type === 'IDAT');
+  for (const chunk of parsed[0]!.slice(1, firstDataIndex)) {
+    chunks.push(chunk);
+  }
+
+  let sequence = 0;
+  parsed.forEach((frameChunks, i) => {
+    const frameHeader = frameChunks.find((chunk) => chunk.type === 'IHDR');
+    if (!frameHeader || frameHeader.data.some((value, j) => value !== header.data[j])) {
+      throw new Error(`Frame ${i + 1} does not match the size and format of the first frame`);
+    }
+
+    chunks.push({
+      type: 'fcTL',
+      data: buildFrameControl(sequence++, width, height, frames[i]!.duration),
+    });
+    for (const chunk of frameChunks) {
+      if (chunk.type !== 'IDAT') continue;
+      if (i === 0) {
+        chunks.push(chunk);
+      } else {
+        const data = new Uint8Array(4 + chunk.data.length);
+        data.set(uint32(sequence++), 0);
+        data.set(chunk.data, 4);
+        chunks.push({ type: 'fdAT', data });
+      }
+    }
+  });
+
+  chunks.push({ type: 'IEND', data: new Uint8Array(0) });
+  return buildPng(chunks);
+}
+
+/**
+ * Encode composited frames as an animated PNG blob
+ */
+export async function exportApng(
+  frames: { imageData: ImageData; duration: number }[]
+): Promise<Blob> {
+  const pngFrames: ApngFrame[] = [];
+  for (const frame of frames) {
+    const png = await imageDataToArrayBuffer(frame.imageData, 'image/png');
+    pngFrames.push({ png: new Uint8Array(png), duration: frame.duration });
+  }
+  return new Blob([assembleApng(pngFrames)], { type: APNG_MIME_TYPE });
+}
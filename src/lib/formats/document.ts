@@ -0,0 +1,315 @@
+/**
+ * Layered Document Module
+ * Format-neutral snapshot of a document used by the file importers and exporters
+ * Layer pixels are plain ImageData at logical canvas size, ordered bottom to top
+ */
+
+import type { AnimationFrameCels, Layer, PaletteColor, VectorPath } from '../types';
+import Canvas from '../canvas';
+import Layers from '../layers';
+import History from '../history';
+import PathStore from '../pathStore';
+import Timeline from '../timeline';
+import IndexedColor from '../indexedColor';
+import { createMaskCanvas } from '../layerMask';
+import { MAX_CANVAS_SIZE } from '../constants';
+import { logger } from '../utils/logger';
+
+export interface DocumentLayer {
+  id?: string;
+  name: string;
+  imageData: ImageData;
+  visible: boolean;
+  locked: boolean;
+  opacity: number; // 0-1
+  blendMode: string;
+  backgroundColor?: string;
+  mask?: ImageData; // Grayscale layer mask at document size
+  maskEnabled?: boolean;
+  kind?: 'pixel' | 'group';
+  parentId?: string; // ID of the containing group
+  passThrough?: boolean;
+  collapsed?: boolean;
+}
+
+export interface DocumentImageLayer {
+  layerId: string;
+  offsetX: number;
+  offsetY: number;
+  width: number;
+  height: number;
+}
+
+export interface LayeredDocument {
+  width: number;
+  height: number;
+  layers: DocumentLayer[]; // Bottom to top
+  activeLayerId?: string | null;
+  imageLayer?: DocumentImageLayer | null;
+  paths?: VectorPath[];
+  palette?: PaletteColor[] | null; // Indexed-color palette, null for RGBA documents
+  frames?: AnimationFrameCels[]; // Animation frames; the layers alone are a single frame
+  currentFrame?: number; // Frame whose pixels the layers hold
+}
+
+export interface DocumentLayerNode {
+  layer: DocumentLayer;
+  children: DocumentLayerNode[]; // Bottom to top
+}
+
+/**
+ * Build the group hierarchy of a document's layers (bottom to top)
+ * Layers whose group is missing, not a group or nested in itself are top-level
+ */
+export function buildDocumentLayerTree(layers: DocumentLayer[]): DocumentLayerNode[] {
+  const groups = new Map<string, DocumentLayer>();
+  for (const layer of layers) {
+    if (layer.kind === 'group' && layer.id) groups.set(layer.id, layer);
+  }
+  const nodes = new Map(
+    layers.map((layer) => [layer, { layer, children: [] } as DocumentLayerNode])
+  );
+  const roots: DocumentLayerNode[] = [];
+
+  for (const layer of layers) {
+    const visited = new Set<DocumentLayer>([layer]);
+    let ancestor = layer.parentId ? groups.get(layer.parentId) : undefined;
+    while (ancestor && !visited.has(ancestor)) {
+      visited.add(ancestor);
+      ancestor = ancestor.parentId ? groups.get(ancestor.parentId) : undefined;
+    }
+    const parent = layer.parentId ? groups.get(layer.parentId) : undefined;
+    if (parent && !ancestor) {
+      nodes.get(parent)!.children.push(nodes.get(layer)!);
+    } else {
+      roots.push(nodes.get(layer)!);
+    }
+  }
+  return roots;
+}
+
+/**
+ * Copy an image into a transparent canvas-sized ImageData at the given offset
+ * Pixels falling outside the target are clipped
+ */
+export function placeImageData(
+  source: ImageData,
+  offsetX: number,
+  offsetY: number,
+  width: number,
+  height: number
+): ImageData {
+  const target = new ImageData(width, height);
+  const startX = Math.max(0, offsetX);
+  const startY = Math.max(0, offsetY);
+  const endX = Math.min(width, offsetX + source.width);
+  const endY = Math.min(height, offsetY + source.height);
+
+  for (let y = startY; y < endY; y++) {
+    const srcRow = (y - offsetY) * source.width;
+    const rowStart = (srcRow + (startX - offsetX)) * 4;
+    const rowEnd = (srcRow + (endX - offsetX)) * 4;
+    target.data.set(source.data.subarray(rowStart, rowEnd), (y * width + startX) * 4);
+  }
+
+  return target;
+}
+
+/**
+ * Capture the current document (layer pixels and properties)
+ * @throws Error if the canvas or layer system is not ready
+ */
+export function captureDocument(): LayeredDocument {
+  if (!Canvas.isInitialized() || !Layers.isInitialized()) {
+    throw new Error('Canvas is not ready. Please wait for the application to finish loading.');
+  }
+
+  const layers: DocumentLayer[] = Layers.getAllLayers().map((layer) => {
+    const imageData = Layers.getImageData(layer.id);
+    if (!imageData) {
+      throw new Error(`Failed to read pixels for layer "${layer.name}"`);
+    }
+    const mask = Layers.getMaskImageData(layer.id);
+    return {
+      id: layer.id,
+      name: layer.name,
+      imageData,
+      visible: layer.visible,
+      locked: layer.locked,
+      opacity: layer.opacity,
+      blendMode: layer.blendMode,
+      ...(layer.backgroundColor ? { backgroundColor: layer.backgroundColor } : {}),
+      ...(mask ? { mask, maskEnabled: layer.maskEnabled !== false } : {}),
+      ...(layer.kind === 'group'
+        ? { kind: layer.kind, passThrough: !!layer.passThrough, collapsed: !!layer.collapsed }
+        : {}),
+      ...(layer.parentId ? { parentId: layer.parentId } : {}),
+    };
+  });
+
+  const imageLayer = Canvas.getImageLayer();
+  const imageOffset = Canvas.getImageOffset();
+
+  return {
+    width: Canvas.getWidth(),
+    height: Canvas.getHeight(),
+    layers,
+    activeLayerId: Layers.getActiveLayerId(),
+    imageLayer: imageLayer
+      ? {
+          layerId: imageLayer.id,
+          offsetX: imageOffset.x,
+          offsetY: imageOffset.y,
+          width: imageLayer.width,
+          height: imageLayer.height,
+        }
+      : null,
+    paths: PathStore.getAll(),
+    palette: IndexedColor.isEnabled() ? IndexedColor.getPalette() : null,
+    frames: Timeline.getFrameCels(),
+    currentFrame: Timeline.getCurrentIndex(),
+  };
+}
+
+/**
+ * Get the flattened composite of all visible layers at logical size
+ * Onion skin overlays are left out
+ */
+export async function captureComposite(): Promise<ImageData> {
+  return Layers.withoutOnionSkin(() =>
+    Canvas.getMainContext().getImageData(0, 0, Canvas.getWidth(), Canvas.getHeight())
+  );
+}
+
+/**
+ * Generate a layer ID for imported layers that do not carry one
+ * Importers also use it for the groups they rebuild, so members can name them as parent
+ */
+export function generateImportedLayerId(index: number): string {
+  return `layer_${Date.now()}_${index}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Check that a document size fits the editor limits
+ * Importers call this as soon as they know the size, before allocating any pixels
+ * @throws Error if the size is empty or larger than MAX_CANVAS_SIZE
+ */
+export function assertDocumentSize(width: number, height: number): void {
+  if (width < 1 || height < 1 || width > MAX_CANVAS_SIZE || height > MAX_CANVAS_SIZE) {
+    throw new Error(
+      `Document size ${width}x${height} exceeds the maximum of ${MAX_CANVAS_SIZE}x${MAX_CANVAS_SIZE}`
+    );
+  }
+}
+
+/**
+ * Replace the current document with a layered document
+ * Resizes the canvas, rebuilds every layer through the layer snapshot restore path,
+ * restores its animation frames and resets history so the opened document becomes the
+ * initial undo state
+ * @throws Error if the document does not fit the editor limits
+ */
+export async function replaceDocument(doc: LayeredDocument): Promise<void> {
+  if (!Canvas.isInitialized() || !Layers.isInitialized()) {
+    throw new Error('Canvas is not ready. Please wait for the application to finish loading.');
+  }
+  if (typeof document === 'undefined') {
+    throw new Error('Cannot open document during Server-Side Rendering');
+  }
+  assertDocumentSize(doc.width, doc.height);
+  if (doc.layers.length === 0) {
+    throw new Error('Document contains no layers');
+  }
+  if (doc.layers.length > Layers.getMaxLayers()) {
+    throw new Error(
+      `Document has ${doc.layers.length} layers, but at most ${Layers.getMaxLayers()} are supported`
+    );
+  }
+
+  Canvas.resize(doc.width, doc.height);
+
+  // Logical-size canvases; _restoreLayersFromState upscales them for the current DPR
+  const usedIds = new Set<string>();
+  const idMap = new Map<string, string>();
+  const layers: Layer[] = doc.layers.map((docLayer, i) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = doc.width;
+    canvas.height = doc.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (ctx) {
+      ctx.putImageData(docLayer.imageData, 0, 0);
+    }
+    const id = docLayer.id && !usedIds.has(docLayer.id) ? docLayer.id : generateImportedLayerId(i);
+    usedIds.add(id);
+    if (docLayer.id && !idMap.has(docLayer.id)) idMap.set(docLayer.id, id);
+    return {
+      id,
+      name: docLayer.name || `Layer ${i + 1}`,
+      canvas,
+      visible: docLayer.visible,
+      locked: docLayer.locked,
+      opacity: Math.max(0, Math.min(1, docLayer.opacity)),
+      blendMode: docLayer.blendMode || 'normal',
+      backgroundColor: docLayer.backgroundColor,
+      ...(docLayer.mask
+        ? {
+            mask: createMaskCanvas(doc.width, doc.height, docLayer.mask),
+            maskEnabled: docLayer.maskEnabled !== false,
+          }
+        : {}),
+      ...(docLayer.kind === 'group'
+        ? {
+            kind: docLayer.kind,
+            passThrough: !!docLayer.passThrough,
+            collapsed: !!docLayer.collapsed,
+          }
+        : {}),
+    };
+  });
+  // Group membership is resolved once every layer has its final ID
+  doc.layers.forEach((docLayer, i) => {
+    const parentId = docLayer.parentId ? idMap.get(docLayer.parentId) : undefined;
+    if (parentId) layers[i]!.parentId = parentId;
+  });
+
+  const activeLayerId =
+    doc.activeLayerId && layers.some((l) => l.id === doc.activeLayerId)
+      ? doc.activeLayerId
+      : layers[layers.length - 1]!.id;
+  Layers._restoreLayersFromState({ layers, activeLayerId });
+
+  if (doc.imageLayer) {
+    const { layerId, offsetX, offsetY, width, height } = doc.imageLayer;
+    Canvas.restoreImageLayer(layerId, offsetX, offsetY, width, height);
+  }
+
+  PathStore.setAll(doc.paths ?? []);
+  // Cels follow their layers to the IDs given above; cels of another size are dropped
+  const frames = (doc.frames ?? []).map((frame) => ({
+    ...frame,
+    cels: new Map(
+      [...frame.cels].flatMap(([layerId, cel]) => {
+        const id = idMap.get(layerId);
+        return id && cel.width === doc.width && cel.height === doc.height
+          ? [[id, cel] as const]
+          : [];
+      })
+    ),
+  }));
+  Timeline.restoreFrames(frames, doc.currentFrame ?? 0);
+  if (doc.palette) {
+    await IndexedColor.enable(doc.palette);
+  } else {
+    IndexedColor.disable();
+  }
+
+  await Layers.renderSync();
+  History.clear();
+  await History.saveInitialState();
+
+  logger.debug('[Document] Replaced document', {
+    width: doc.width,
+    height: doc.height,
+    layers: layers.length,
+  });
+}
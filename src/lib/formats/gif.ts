@@ -0,0 +1,247 @@
+/**
+ * Animated GIF Export
+ * GIF89a encoder with a single global palette shared by all frames
+ * Palette index 0 is reserved for transparency (alpha below 128)
+ */
+
+import { reduceColorNoise } from '../cleanup/colorReducer';
+
+export const GIF_MIME_TYPE = 'image/gif';
+
+const MAX_GIF_COLORS = 255; // Plus the transparent index
+const MAX_CODE_SIZE = 12;
+const ALPHA_THRESHOLD = 128;
+
+export interface GifFrame {
+  imageData: ImageData;
+  duration: number; // Milliseconds
+}
+
+export interface GifPalette {
+  colors: number[]; // Packed 0xRRGGBB, index 0 is the transparent slot
+  lookup: Map<number, number>;
+}
+
+/**
+ * Collect the colors of all frames into one palette
+ * @returns The palette, or null if the frames use more than 255 colors
+ */
+export function buildGifPalette(images: ImageData[]): GifPalette | null {
+  const colors = [0];
+  const lookup = new Map<number, number>();
+
+  for (const image of images) {
+    const data = image.data;
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3]! < ALPHA_THRESHOLD) continue;
+      const color = (data[i]! << 16) | (data[i + 1]! << 8) | data[i + 2]!;
+      if (lookup.has(color)) continue;
+      if (colors.length > MAX_GIF_COLORS) return null;
+      lookup.set(color, colors.length);
+      colors.push(color);
+    }
+  }
+
+  return { colors, lookup };
+}
+
+/**
+ * LZW-compress palette indices as GIF image data (variable code size, LSB first)
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emit = (code: number): void => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indices.length === 0) {
+    emit(endCode);
+    if (bitCount > 0) output.push(bitBuffer & 0xff);
+    return new Uint8Array(output);
+  }
+
+  let prefix = indices[0]!;
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i]!;
+    const key = prefix * 256 + value;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode < 1 << MAX_CODE_SIZE) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > 1 << codeSize && codeSize < MAX_CODE_SIZE) {
+        codeSize++;
+      }
+    } else {
+      // Table full: start over
+      emit(clearCode);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = value;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) output.push(bitBuffer & 0xff);
+  return new Uint8Array(output);
+}
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(value: number): void {
+    this.bytes.push(value & 0xff);
+  }
+
+  uint16(value: number): void {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  ascii(value: string): void {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  // Data sub-blocks of at most 255 bytes, followed by a block terminator
+  subBlocks(data: Uint8Array): void {
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const chunk = data.subarray(offset, Math.min(offset + 255, data.length));
+      this.byte(chunk.length);
+      for (const value of chunk) this.byte(value);
+    }
+    this.byte(0);
+  }
+
+  toUint8Array(): Uint8Array<ArrayBuffer> {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+/**
+ * Encode frames as an animated GIF
+ * @param loops - Number of repeats (0 = forever)
+ * @throws Error if there are no frames, sizes differ or more than 255 colors are used
+ */
+export function encodeGif(frames: GifFrame[], loops: number = 0): Uint8Array<ArrayBuffer> {
+  if (frames.length === 0) {
+    throw new Error('Animation has no frames');
+  }
+  const { width, height } = frames[0]!.imageData;
+  if (
+    frames.some((frame) => frame.imageData.width !== width || frame.imageData.height !== height)
+  ) {
+    throw new Error('All frames must have the same size');
+  }
+  const palette = buildGifPalette(frames.map((frame) => frame.imageData));
+  if (!palette) {
+    throw new Error(`GIF supports at most ${MAX_GIF_COLORS} colors plus transparency`);
+  }
+
+  // Color table size is a power of two (at least 4 so the LZW code size is valid)
+  let tableBits = 2;
+  while (1 << tableBits < palette.colors.length) tableBits++;
+
+  const writer = new ByteWriter();
+  writer.ascii('GIF89a');
+  writer.uint16(width);
+  writer.uint16(height);
+  writer.byte(0x80 | ((tableBits - 1) << 4) | (tableBits - 1)); // Global color table
+  writer.byte(0); // Background color index
+  writer.byte(0); // Pixel aspect ratio
+  for (let i = 0; i < 1 << tableBits; i++) {
+    const color = palette.colors[i] ?? 0;
+    writer.byte(color >> 16);
+    writer.byte(color >> 8);
+    writer.byte(color);
+  }
+
+  // NETSCAPE2.0 application extension for looping
+  writer.byte(0x21);
+  writer.byte(0xff);
+  writer.byte(11);
+  writer.ascii('NETSCAPE2.0');
+  writer.byte(3);
+  writer.byte(1);
+  writer.uint16(loops);
+  writer.byte(0);
+
+  const indices = new Uint8Array(width * height);
+  for (const frame of frames) {
+    const data = frame.imageData.data;
+    for (let p = 0; p < indices.length; p++) {
+      const i = p * 4;
+      indices[p] =
+        data[i + 3]! < ALPHA_THRESHOLD
+          ? 0
+          : palette.lookup.get((data[i]! << 16) | (data[i + 1]! << 8) | data[i + 2]!)!;
+    }
+
+    // Graphic control extension: restore to background, transparent index 0
+    writer.byte(0x21);
+    writer.byte(0xf9);
+    writer.byte(4);
+    writer.byte((2 << 2) | 1);
+    writer.uint16(Math.max(2, Math.round(frame.duration / 10))); // Centiseconds
+    writer.byte(0);
+    writer.byte(0);
+
+    // Image descriptor (full frame, no local color table)
+    writer.byte(0x2c);
+    writer.uint16(0);
+    writer.uint16(0);
+    writer.uint16(width);
+    writer.uint16(height);
+    writer.byte(0);
+
+    writer.byte(tableBits);
+    writer.subBlocks(lzwEncode(indices, tableBits));
+  }
+
+  writer.byte(0x3b); // Trailer
+  return writer.toUint8Array();
+}
+
+/**
+ * Encode composited frames as an animated GIF blob
+ * Frames using more than 255 colors are quantized together so they share a palette
+ */
+export async function exportGif(frames: GifFrame[]): Promise<Blob> {
+  let gifFrames = frames;
+  if (frames.length > 0 && !buildGifPalette(frames.map((frame) => frame.imageData))) {
+    // Stack frames vertically so k-means sees every frame at once
+    const { width, height } = frames[0]!.imageData;
+    const stacked = new ImageData(width, height * frames.length);
+    frames.forEach((frame, i) => stacked.data.set(frame.imageData.data, i * width * height * 4));
+    const reduced = await reduceColorNoise(stacked, { mode: 'quantize', nColors: MAX_GIF_COLORS });
+    gifFrames = frames.map((frame, i) => ({
+      duration: frame.duration,
+      imageData: new ImageData(
+        reduced.data.slice(i * width * height * 4, (i + 1) * width * height * 4),
+        width,
+        height
+      ),
+    }));
+  }
+  return new Blob([encodeGif(gifFrames)], { type: GIF_MIME_TYPE });
+}
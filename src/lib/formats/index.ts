@@ -0,0 +1,119 @@
+/**
+ * Layered File Formats
+ * Detects and opens layered documents (.pxs, .ora, .psd) and exports the current document
+ * Animations export as GIF, APNG or a sprite sheet with a JSON atlas
+ * Indexed-color documents export as palette PNGs (PLTE/tRNS)
+ */
+
+import { replaceDocument, captureComposite } from './document';
+import { exportOra, importOra, ORA_MIME_TYPE } from './ora';
+import { exportPsd, importPsd, PSD_MIME_TYPE } from './psd';
+import { exportGif } from './gif';
+import { exportApng } from './apng';
+import { exportSpriteSheet } from './spriteSheet';
+import { encodeIndexedPng } from './png';
+import { openProjectFile, PROJECT_FILE_EXTENSION } from '../storage/projectFile';
+import Timeline from '../timeline';
+import IndexedColor, { quantizeToPalette } from '../indexedColor';
+
+export type LayeredFormat = 'pxs' | 'ora' | 'psd';
+export type AnimationFormat = 'gif' | 'apng' | 'sheet';
+export type ExportFormat = 'png' | 'ora' | 'psd' | AnimationFormat;
+
+export interface ExportedFile {
+  name: string;
+  blob: Blob;
+}
+
+export const LAYERED_FILE_EXTENSIONS = [PROJECT_FILE_EXTENSION, '.ora', '.psd'] as const;
+
+/**
+ * Detect a layered file format from its name and MIME type
+ * @returns The format, or null for plain (flat) images
+ */
+export function detectLayeredFormat(file: { name: string; type: string }): LayeredFormat | null {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(PROJECT_FILE_EXTENSION)) return 'pxs';
+  if (name.endsWith('.ora') || file.type === ORA_MIME_TYPE) return 'ora';
+  if (name.endsWith('.psd') || file.type === PSD_MIME_TYPE) return 'psd';
+  return null;
+}
+
+/**
+ * Open a layered file, replacing the current document with its layers
+ * @returns Project name stored in the file (.pxs only), null when it has none
+ * @throws Error if the file is not a supported layered format or fails to decode
+ */
+export async function openLayeredFile(file: File): Promise<string | null> {
+  const format = detectLayeredFormat(file);
+  switch (format) {
+    case 'pxs':
+      return (await openProjectFile(file)).name || null;
+    case 'ora':
+      await replaceDocument(await importOra(await file.arrayBuffer()));
+      return null;
+    case 'psd':
+      await replaceDocument(await importPsd(await file.arrayBuffer()));
+      return null;
+    default:
+      throw new Error(`"${file.name}" is not a layered document`);
+  }
+}
+
+/**
+ * Export the current document in a layered format
+ */
+export async function exportLayeredFile(
+  format: Exclude<ExportFormat, 'png' | AnimationFormat>
+): Promise<Blob> {
+  return format === 'ora' ? exportOra() : exportPsd();
+}
+
+/**
+ * Check whether an export format writes the animation frames
+ */
+export function isAnimationFormat(format: ExportFormat): format is AnimationFormat {
+  return format === 'gif' || format === 'apng' || format === 'sheet';
+}
+
+/**
+ * Export every animation frame
+ * @returns The files to download (a sprite sheet comes with its JSON atlas)
+ */
+export async function exportAnimation(
+  format: AnimationFormat,
+  baseName: string
+): Promise<ExportedFile[]> {
+  Timeline.stop();
+  const frames = Timeline.renderAllFrames();
+
+  switch (format) {
+    case 'gif':
+      return [{ name: `${baseName}.gif`, blob: await exportGif(frames) }];
+    case 'apng':
+      return [{ name: `${baseName}.png`, blob: await exportApng(frames) }];
+    case 'sheet': {
+      const { image, atlas } = await exportSpriteSheet(frames, baseName);
+      return [
+        { name: `${baseName}.png`, blob: image },
+        { name: `${baseName}.json`, blob: atlas },
+      ];
+    }
+  }
+}
+
+/**
+ * Export the flattened document as an indexed PNG using the document palette
+ * Blended pixels (layer opacity, blend modes) are mapped to the nearest palette entry
+ * @throws Error if the document is not in indexed mode
+ */
+export async function exportIndexedPng(): Promise<Blob> {
+  if (!IndexedColor.isEnabled()) {
+    throw new Error('Indexed PNG export requires an indexed-color document');
+  }
+  const palette = IndexedColor.getPalette();
+  const composite = await captureComposite();
+  const { indices } = quantizeToPalette(composite, palette);
+  const png = await encodeIndexedPng(indices, composite.width, composite.height, palette);
+  return new Blob([png], { type: 'image/png' });
+}
@@ -0,0 +1,330 @@
+/**
+ * OpenRaster Format Module
+ * Import/export of layered OpenRaster (.ora) files (Krita, GIMP, MyPaint)
+ * An ORA file is a ZIP with 'mimetype', 'stack.xml', per-layer PNGs,
+ * 'mergedimage.png' and 'Thumbnails/thumbnail.png'
+ * Layer groups are nested stacks; OpenRaster has no layer masks, so masks are applied to
+ * the pixels of the layers they cover on export
+ */
+
+import type { BlendMode } from '../blendModes';
+import { createZip, readZip, type ZipEntry } from './zip';
+import {
+  captureDocument,
+  captureComposite,
+  assertDocumentSize,
+  buildDocumentLayerTree,
+  generateImportedLayerId,
+  placeImageData,
+  type DocumentLayer,
+  type DocumentLayerNode,
+  type LayeredDocument,
+} from './document';
+import { imageDataToArrayBuffer, blobToImageData, createCanvasFromImageData } from '../imageUtils';
+import { applyMaskToImageData } from '../layerMask';
+
+export const ORA_MIME_TYPE = 'image/openraster';
+const THUMBNAIL_SIZE = 256;
+
+// ORA composite-op names for every supported blend mode
+const BLEND_MODE_TO_ORA: Record<BlendMode, string> = {
+  normal: 'svg:src-over',
+  multiply: 'svg:multiply',
+  screen: 'svg:screen',
+  overlay: 'svg:overlay',
+  'soft-light': 'svg:soft-light',
+  'hard-light': 'svg:hard-light',
+  'color-dodge': 'svg:color-dodge',
+  'color-burn': 'svg:color-burn',
+  darken: 'svg:darken',
+  lighten: 'svg:lighten',
+  difference: 'svg:difference',
+  exclusion: 'svg:exclusion',
+  hue: 'svg:hue',
+  saturation: 'svg:saturation',
+  color: 'svg:color',
+  luminosity: 'svg:luminosity',
+};
+
+export interface OraLayerRecord {
+  name: string;
+  src: string;
+  x: number;
+  y: number;
+  opacity: number;
+  visible: boolean;
+  locked: boolean;
+  blendMode: string;
+  children?: OraLayerRecord[]; // Set for nested stacks (layer groups), top to bottom
+  passThrough?: boolean; // Nested stack blended with the layers below it (isolation="auto")
+}
+
+export interface OraStack {
+  width: number;
+  height: number;
+  layers: OraLayerRecord[]; // Top to bottom, as stored in stack.xml
+}
+
+/**
+ * Map a blend mode to an ORA composite-op (unknown modes fall back to src-over)
+ */
+export function blendModeToOra(blendMode: string): string {
+  return BLEND_MODE_TO_ORA[blendMode as BlendMode] ?? BLEND_MODE_TO_ORA.normal;
+}
+
+/**
+ * Map an ORA composite-op to a blend mode (unknown ops fall back to normal)
+ */
+export function oraToBlendMode(compositeOp: string | null): string {
+  if (!compositeOp) return 'normal';
+  const match = (Object.keys(BLEND_MODE_TO_ORA) as BlendMode[]).find(
+    (mode) => BLEND_MODE_TO_ORA[mode] === compositeOp
+  );
+  return match ?? 'normal';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function buildLayerXml(layer: OraLayerRecord, indent: string): string {
+  const attributes =
+    `name="${escapeXml(layer.name)}" x="${layer.x}" y="${layer.y}" ` +
+    `opacity="${layer.opacity.toFixed(3)}" ` +
+    `visibility="${layer.visible ? 'visible' : 'hidden'}" ` +
+    `composite-op="${blendModeToOra(layer.blendMode)}"` +
+    `${layer.locked ? ' edit-locked="true"' : ''}`;
+  if (!layer.children) {
+    return `${indent}<layer ${attributes} src="${escapeXml(layer.src)}" />`;
+  }
+  const isolation = layer.passThrough ? 'auto' : 'isolate';
+  const children = layer.children.map((child) => buildLayerXml(child, `${indent}  `));
+  return [
+    `${indent}<stack ${attributes} isolation="${isolation}">`,
+    ...children,
+    `${indent}</stack>`,
+  ].join('\n');
+}
+
+/**
+ * Build stack.xml for the given stack (layers listed top to bottom)
+ */
+export function buildStackXml(stack: OraStack): string {
+  const layers = stack.layers.map((layer) => buildLayerXml(layer, '    ')).join('\n');
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<image version="0.0.5" w="${stack.width}" h="${stack.height}">\n` +
+    `  <stack>\n${layers}\n  </stack>\n` +
+    `</image>\n`
+  );
+}
+
+/**
+ * Parse stack.xml into its layers (top to bottom), with nested stacks as groups
+ * Only stacks marked isolation="auto" are read as pass-through groups
+ * @throws Error if the XML is not a valid OpenRaster stack
+ */
+export function parseStackXml(xml: string): OraStack {
+  const parsed = new DOMParser().parseFromString(xml, 'application/xml');
+  const image = parsed.documentElement;
+  if (!image || image.nodeName !== 'image' || parsed.getElementsByTagName('parsererror').length) {
+    throw new Error('Invalid OpenRaster file: stack.xml is malformed');
+  }
+
+  const width = parseInt(image.getAttribute('w') ?? '', 10);
+  const height = parseInt(image.getAttribute('h') ?? '', 10);
+  if (!Number.isFinite(width) || !Number.isFinite(height) || width < 1 || height < 1) {
+    throw new Error('Invalid OpenRaster file: missing image size');
+  }
+
+  let count = 0;
+  const parseOpacity = (el: Element): number => {
+    const value = parseFloat(el.getAttribute('opacity') ?? '1');
+    return Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : 1;
+  };
+  const readRecord = (el: Element, src: string): OraLayerRecord => ({
+    name: el.getAttribute('name') ?? `Layer ${++count}`,
+    src,
+    x: parseInt(el.getAttribute('x') ?? '0', 10) || 0,
+    y: parseInt(el.getAttribute('y') ?? '0', 10) || 0,
+    opacity: parseOpacity(el),
+    visible: el.getAttribute('visibility') !== 'hidden',
+    locked: el.getAttribute('edit-locked') === 'true',
+    blendMode: oraToBlendMode(el.getAttribute('composite-op')),
+  });
+
+  const walk = (stackEl: Element): OraLayerRecord[] => {
+    const records: OraLayerRecord[] = [];
+    for (const child of Array.from(stackEl.children)) {
+      if (child.nodeName === 'stack') {
+        records.push({
+          ...readRecord(child, ''),
+          children: walk(child),
+          passThrough: child.getAttribute('isolation') === 'auto',
+        });
+      } else if (child.nodeName === 'layer') {
+        const src = child.getAttribute('src');
+        if (src) records.push(readRecord(child, src));
+      }
+    }
+    return records;
+  };
+
+  const rootStack = Array.from(image.children).find((el) => el.nodeName === 'stack');
+  if (!rootStack) {
+    throw new Error('Invalid OpenRaster file: no layer stack');
+  }
+
+  return { width, height, layers: walk(rootStack) };
+}
+
+/**
+ * Scale an image down to fit the ORA thumbnail bounds
+ */
+function createThumbnail(composite: ImageData): ImageData {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(composite.width, composite.height));
+  const width = Math.max(1, Math.round(composite.width * scale));
+  const height = Math.max(1, Math.round(composite.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.drawImage(createCanvasFromImageData(composite), 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+}
+
+/**
+ * Export the current document as an OpenRaster blob
+ */
+export async function exportOra(): Promise<Blob> {
+  const doc = captureDocument();
+  const composite = await captureComposite();
+  const encoder = new TextEncoder();
+
+  // stack.xml lists layers top-first; our layers are stored bottom-first
+  const images: Array<{ src: string; imageData: ImageData }> = [];
+  const toRecords = (nodes: DocumentLayerNode[], masks: ImageData[]): OraLayerRecord[] =>
+    [...nodes].reverse().map(({ layer, children }) => {
+      // Masks of the layer and its groups are applied to its pixels
+      const layerMasks = layer.mask && layer.maskEnabled !== false ? [...masks, layer.mask] : masks;
+      const record = {
+        name: layer.name,
+        src: '',
+        x: 0,
+        y: 0,
+        opacity: layer.opacity,
+        visible: layer.visible,
+        locked: layer.locked,
+        blendMode: layer.blendMode,
+      };
+      if (layer.kind === 'group') {
+        return {
+          ...record,
+          children: toRecords(children, layerMasks),
+          passThrough: !!layer.passThrough,
+        };
+      }
+      const src = `data/layer${images.length}.png`;
+      const imageData = layerMasks.reduce(
+        (image, mask) => applyMaskToImageData(image, mask),
+        layer.imageData
+      );
+      images.push({ src, imageData });
+      return { ...record, src };
+    });
+  const records = toRecords(buildDocumentLayerTree(doc.layers), []);
+
+  const entries: ZipEntry[] = [
+    { name: 'mimetype', data: encoder.encode(ORA_MIME_TYPE) },
+    {
+      name: 'stack.xml',
+      data: encoder.encode(
+        buildStackXml({ width: doc.width, height: doc.height, layers: records })
+      ),
+    },
+  ];
+
+  for (const { src, imageData } of images) {
+    const png = await imageDataToArrayBuffer(imageData, 'image/png');
+    entries.push({ name: src, data: new Uint8Array(png) });
+  }
+
+  entries.push({
+    name: 'mergedimage.png',
+    data: new Uint8Array(await imageDataToArrayBuffer(composite, 'image/png')),
+  });
+  entries.push({
+    name: 'Thumbnails/thumbnail.png',
+    data: new Uint8Array(await imageDataToArrayBuffer(createThumbnail(composite), 'image/png')),
+  });
+
+  return new Blob([createZip(entries)], { type: ORA_MIME_TYPE });
+}
+
+/**
+ * Decode an OpenRaster file into a layered document
+ * @throws Error if the archive is not a valid OpenRaster file
+ */
+export async function importOra(buffer: ArrayBuffer): Promise<LayeredDocument> {
+  const files = await readZip(buffer);
+
+  const mimetype = files.get('mimetype');
+  if (mimetype && new TextDecoder().decode(mimetype).trim() !== ORA_MIME_TYPE) {
+    throw new Error('Invalid OpenRaster file: unexpected mimetype');
+  }
+  const stackXml = files.get('stack.xml');
+  if (!stackXml) {
+    throw new Error('Invalid OpenRaster file: stack.xml not found');
+  }
+
+  const stack = parseStackXml(new TextDecoder().decode(stackXml));
+  assertDocumentSize(stack.width, stack.height);
+  const layers: DocumentLayer[] = [];
+
+  // Bottom-first order, each group's members right below it
+  const addLayers = async (records: OraLayerRecord[], parentId?: string): Promise<void> => {
+    for (const record of [...records].reverse()) {
+      const properties = {
+        name: record.name,
+        visible: record.visible,
+        locked: record.locked,
+        opacity: record.opacity,
+        blendMode: record.blendMode,
+        ...(parentId ? { parentId } : {}),
+      };
+      if (record.children) {
+        const id = generateImportedLayerId(layers.length);
+        await addLayers(record.children, id);
+        layers.push({
+          ...properties,
+          id,
+          imageData: new ImageData(stack.width, stack.height),
+          kind: 'group',
+          passThrough: !!record.passThrough,
+        });
+        continue;
+      }
+      const png = files.get(record.src);
+      if (!png) {
+        throw new Error(`Invalid OpenRaster file: missing layer data "${record.src}"`);
+      }
+      const decoded = await blobToImageData(new Blob([png], { type: 'image/png' }));
+      layers.push({
+        ...properties,
+        imageData: placeImageData(decoded, record.x, record.y, stack.width, stack.height),
+      });
+    }
+  };
+  await addLayers(stack.layers);
+
+  return { width: stack.width, height: stack.height, layers };
+}
@@ -0,0 +1,323 @@
+/**
+ * Palette File Formats
+ * Reads and writes swatch palettes: GIMP (.gpl), Adobe Swatch Exchange (.ase),
+ * JASC (.pal), plain hex lists (.hex, as used by Lospec) and PNG swatch strips
+ * Colors are exchanged as uppercase #RRGGBB strings; alpha is not stored by these formats
+ */
+
+import { rgbToHex, hexToRgbaArray, isValidHex } from '../colorUtils';
+import { imageDataToBlob, blobToImageData } from '../imageUtils';
+
+export type PaletteFileFormat = 'gpl' | 'ase' | 'pal' | 'hex' | 'png';
+
+export const PALETTE_FILE_EXTENSIONS = ['.gpl', '.ase', '.pal', '.hex', '.png'] as const;
+export const MAX_PALETTE_COLORS = 256;
+
+export interface ParsedPalette {
+  name: string;
+  colors: string[];
+}
+
+const ASE_SIGNATURE = 'ASEF';
+const ASE_COLOR_ENTRY = 0x0001;
+
+function toHex(r: number, g: number, b: number): string {
+  const clamp = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+  return rgbToHex(clamp(r), clamp(g), clamp(b)).toUpperCase();
+}
+
+/**
+ * Drop duplicates and enforce the palette size limit
+ * @throws Error if no colors remain
+ */
+function finishPalette(name: string, colors: string[]): ParsedPalette {
+  const unique = [...new Set(colors.map((c) => c.toUpperCase()))];
+  if (unique.length === 0) {
+    throw new Error('Palette file contains no colors');
+  }
+  return { name: name.trim() || 'Imported Palette', colors: unique.slice(0, MAX_PALETTE_COLORS) };
+}
+
+/**
+ * Detect a palette format from a file name
+ * @returns The format, or null if the extension is not a palette format
+ */
+export function detectPaletteFormat(fileName: string): PaletteFileFormat | null {
+  const match = /\.(gpl|ase|pal|hex|png)$/i.exec(fileName);
+  return match ? (match[1]!.toLowerCase() as PaletteFileFormat) : null;
+}
+
+/**
+ * Parse a GIMP palette (.gpl)
+ * @throws Error if the header is missing
+ */
+export function parseGpl(text: string, fallbackName = ''): ParsedPalette {
+  const lines = text.split(/\r?\n/);
+  if (lines[0]?.trim() !== 'GIMP Palette') {
+    throw new Error('Invalid GPL file: missing "GIMP Palette" header');
+  }
+  let name = fallbackName;
+  const colors: string[] = [];
+  for (const line of lines.slice(1)) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('Name:')) {
+      name = trimmed.slice(5);
+      continue;
+    }
+    const match = /^(\d+)\s+(\d+)\s+(\d+)/.exec(trimmed);
+    if (match) {
+      colors.push(toHex(Number(match[1]), Number(match[2]), Number(match[3])));
+    }
+  }
+  return finishPalette(name, colors);
+}
+
+export function serializeGpl(palette: ParsedPalette): string {
+  const rows = palette.colors.map((hex) => {
+    const [r, g, b] = hexToRgbaArray(hex, 1);
+    return `${String(r).padStart(3)} ${String(g).padStart(3)} ${String(b).padStart(3)}\t${hex}`;
+  });
+  return ['GIMP Palette', `Name: ${palette.name}`, 'Columns: 8', '#', ...rows, ''].join('\n');
+}
+
+/**
+ * Parse a JASC palette (.pal)
+ * @throws Error if the header is missing
+ */
+export function parsePal(text: string, name = ''): ParsedPalette {
+  const lines = text.split(/\r?\n/).map((line) => line.trim());
+  if (lines[0] !== 'JASC-PAL') {
+    throw new Error('Invalid PAL file: missing "JASC-PAL" header');
+  }
+  const count = parseInt(lines[2] ?? '', 10);
+  const colors: string[] = [];
+  for (const line of lines.slice(3)) {
+    const match = /^(\d+)\s+(\d+)\s+(\d+)/.exec(line);
+    if (match) {
+      colors.push(toHex(Number(match[1]), Number(match[2]), Number(match[3])));
+    }
+    if (Number.isFinite(count) && colors.length >= count) break;
+  }
+  return finishPalette(name, colors);
+}
+
+export function serializePal(palette: ParsedPalette): string {
+  const rows = palette.colors.map((hex) => hexToRgbaArray(hex, 1).slice(0, 3).join(' '));
+  return ['JASC-PAL', '0100', String(palette.colors.length), ...rows, ''].join('\r\n');
+}
+
+/**
+ * Parse a plain list of hex colors, one per line (with or without '#')
+ */
+export function parseHexList(text: string, name = ''): ParsedPalette {
+  const colors: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const value = line.trim().replace(/^#/, '');
+    if (/^[0-9A-Fa-f]{6}$/.test(value)) {
+      colors.push(`#${value}`);
+    }
+  }
+  return finishPalette(name, colors);
+}
+
+export function serializeHexList(palette: ParsedPalette): string {
+  return palette.colors.map((hex) => hex.slice(1).toLowerCase()).join('\n') + '\n';
+}
+
+/**
+ * Convert CIE L*a*b* (D50, as used by Adobe) to sRGB
+ */
+function labToHex(l: number, a: number, b: number): string {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const inverse = (t: number) => (t ** 3 > 0.008856 ? t ** 3 : (t - 16 / 116) / 7.787);
+  const x = 0.9642 * inverse(fx);
+  const y = 1.0 * inverse(fy);
+  const z = 0.8249 * inverse(fz);
+
+  // Bradford-adapted D50 XYZ to linear sRGB
+  const lr = 3.1338561 * x - 1.6168667 * y - 0.4906146 * z;
+  const lg = -0.9787684 * x + 1.9161415 * y + 0.033454 * z;
+  const lb = 0.0719453 * x - 0.2289914 * y + 1.4052427 * z;
+  const gamma = (c: number) =>
+    255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * Math.pow(Math.max(0, c), 1 / 2.4) - 0.055);
+  return toHex(gamma(lr), gamma(lg), gamma(lb));
+}
+
+/**
+ * Parse an Adobe Swatch Exchange file (.ase)
+ * RGB, CMYK, LAB and Gray swatches are converted to sRGB; groups are flattened
+ * @throws Error if the signature is missing or a block is truncated
+ */
+export function parseAse(buffer: ArrayBuffer, name = ''): ParsedPalette {
+  const view = new DataView(buffer);
+  if (
+    buffer.byteLength < 12 ||
+    String.fromCharCode(...new Uint8Array(buffer, 0, 4)) !== ASE_SIGNATURE
+  ) {
+    throw new Error('Invalid ASE file: missing ASEF signature');
+  }
+
+  const blockCount = view.getUint32(8);
+  const colors: string[] = [];
+  let offset = 12;
+
+  for (let block = 0; block < blockCount; block++) {
+    if (offset + 6 > buffer.byteLength) {
+      throw new Error('Invalid ASE file: truncated block');
+    }
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const start = offset + 6;
+    offset = start + length;
+    if (offset > buffer.byteLength) {
+      throw new Error('Invalid ASE file: truncated block');
+    }
+    // Group start/end blocks (0xC001/0xC002) carry no colors
+    if (type !== ASE_COLOR_ENTRY) continue;
+
+    // Skip the UTF-16 swatch name (length in code units, including the terminator)
+    const nameLength = view.getUint16(start);
+    let cursor = start + 2 + nameLength * 2;
+    const model = String.fromCharCode(...new Uint8Array(buffer, cursor, 4)).trim();
+    cursor += 4;
+    const value = (i: number) => view.getFloat32(cursor + i * 4);
+
+    switch (model) {
+      case 'RGB':
+        colors.push(toHex(value(0) * 255, value(1) * 255, value(2) * 255));
+        break;
+      case 'CMYK': {
+        const k = 1 - value(3);
+        colors.push(
+          toHex(255 * (1 - value(0)) * k, 255 * (1 - value(1)) * k, 255 * (1 - value(2)) * k)
+        );
+        break;
+      }
+      case 'LAB':
+        colors.push(labToHex(value(0) * 100, value(1), value(2)));
+        break;
+      case 'Gray':
+        colors.push(toHex(value(0) * 255, value(0) * 255, value(0) * 255));
+        break;
+    }
+  }
+
+  return finishPalette(name, colors);
+}
+
+/**
+ * Write an Adobe Swatch Exchange file with one RGB swatch per color
+ */
+export function serializeAse(palette: ParsedPalette): Uint8Array<ArrayBuffer> {
+  const blocks = palette.colors.map((hex) => {
+    // Swatch names are the hex values (UTF-16BE with a terminator)
+    const nameUnits = [...hex].map((ch) => ch.charCodeAt(0)).concat(0);
+    const length = 2 + nameUnits.length * 2 + 4 + 12 + 2;
+    const bytes = new Uint8Array(6 + length);
+    const view = new DataView(bytes.buffer);
+    view.setUint16(0, ASE_COLOR_ENTRY);
+    view.setUint32(2, length);
+    view.setUint16(6, nameUnits.length);
+    nameUnits.forEach((unit, i) => view.setUint16(8 + i * 2, unit));
+    let cursor = 8 + nameUnits.length * 2;
+    bytes.set([0x52, 0x47, 0x42, 0x20], cursor); // 'RGB '
+    cursor += 4;
+    hexToRgbaArray(hex, 1)
+      .slice(0, 3)
+      .forEach((channel, i) => view.setFloat32(cursor + i * 4, channel / 255));
+    view.setUint16(cursor + 12, 2); // Color type: normal
+    return bytes;
+  });
+
+  const total = blocks.reduce((sum, block) => sum + block.length, 12);
+  const ase = new Uint8Array(total);
+  const view = new DataView(ase.buffer);
+  ase.set([0x41, 0x53, 0x45, 0x46], 0); // 'ASEF'
+  view.setUint16(4, 1);
+  view.setUint16(6, 0);
+  view.setUint32(8, blocks.length);
+  let offset = 12;
+  for (const block of blocks) {
+    ase.set(block, offset);
+    offset += block.length;
+  }
+  return ase;
+}
+
+/**
+ * Read the distinct opaque colors of a swatch image in scan order
+ * Works for 1px strips and for scaled swatch grids
+ */
+export function parseSwatchImage(imageData: ImageData, name = ''): ParsedPalette {
+  const colors: string[] = [];
+  const seen = new Set<string>();
+  const { data } = imageData;
+  for (let i = 0; i < data.length && colors.length < MAX_PALETTE_COLORS; i += 4) {
+    if (data[i + 3]! < 128) continue;
+    const hex = toHex(data[i]!, data[i + 1]!, data[i + 2]!);
+    if (seen.has(hex)) continue;
+    seen.add(hex);
+    colors.push(hex);
+  }
+  return finishPalette(name, colors);
+}
+
+/**
+ * Build a 1px-high strip with one pixel per color
+ */
+export function buildSwatchStrip(colors: string[]): ImageData {
+  const strip = new ImageData(Math.max(1, colors.length), 1);
+  colors.forEach((hex, i) => strip.data.set(hexToRgbaArray(hex, 1), i * 4));
+  return strip;
+}
+
+/**
+ * Read a palette file, picking the parser from its extension
+ * @throws Error if the format is unsupported or the file is invalid
+ */
+export async function importPaletteFile(file: File): Promise<ParsedPalette> {
+  const format = detectPaletteFormat(file.name);
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  switch (format) {
+    case 'gpl':
+      return parseGpl(await file.text(), baseName);
+    case 'pal':
+      return parsePal(await file.text(), baseName);
+    case 'hex':
+      return parseHexList(await file.text(), baseName);
+    case 'ase':
+      return parseAse(await file.arrayBuffer(), baseName);
+    case 'png':
+      return parseSwatchImage(await blobToImageData(file), baseName);
+    default:
+      throw new Error(`"${file.name}" is not a supported palette file`);
+  }
+}
+
+/**
+ * Serialize a palette in the given format
+ * @throws Error if a color is not a valid #RRGGBB value
+ */
+export async function exportPaletteFile(
+  palette: ParsedPalette,
+  format: PaletteFileFormat
+): Promise<Blob> {
+  const invalid = palette.colors.find((hex) => !isValidHex(hex));
+  if (invalid) {
+    throw new Error(`Invalid palette color "${invalid}"`);
+  }
+  switch (format) {
+    case 'gpl':
+      return new Blob([serializeGpl(palette)], { type: 'text/plain' });
+    case 'pal':
+      return new Blob([serializePal(palette)], { type: 'text/plain' });
+    case 'hex':
+      return new Blob([serializeHexList(palette)], { type: 'text/plain' });
+    case 'ase':
+      return new Blob([serializeAse(palette)], { type: 'application/octet-stream' });
+    case 'png':
+      return imageDataToBlob(buildSwatchStrip(palette.colors), 'image/png');
+  }
+}
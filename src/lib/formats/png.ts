@@ -0,0 +1,143 @@
+/**
+ * PNG Chunk Utilities
+ * Splits PNG files into chunks and writes new chunks with CRCs
+ * RGBA encoding is left to the browser (canvas.toBlob); indexed PNGs are encoded here
+ * with zlib compression from the platform CompressionStream
+ */
+
+import type { PaletteColor } from '../types';
+import { crc32 } from './zip';
+
+export const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+/**
+ * Check whether the bytes start with the PNG signature
+ */
+export function isPng(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((value, i) => bytes[i] === value)
+  );
+}
+
+/**
+ * Split a PNG file into its chunks (CRCs are not verified)
+ * @throws Error if the data is not a PNG or a chunk is truncated
+ */
+export function readPngChunks(bytes: Uint8Array): PngChunk[] {
+  if (!isPng(bytes)) {
+    throw new Error('Invalid PNG: missing signature');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const dataStart = offset + 8;
+    if (dataStart + length + 4 > bytes.length) {
+      throw new Error(`Invalid PNG: truncated ${type} chunk`);
+    }
+    chunks.push({ type, data: bytes.subarray(dataStart, dataStart + length) });
+    offset = dataStart + length + 4;
+    if (type === 'IEND') break;
+  }
+
+  return chunks;
+}
+
+/**
+ * Serialize a chunk (length, type, data, CRC over type and data)
+ */
+export function buildPngChunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Assemble a PNG file from chunks
+ */
+export function buildPng(chunks: PngChunk[]): Uint8Array<ArrayBuffer> {
+  const parts = chunks.map((chunk) => buildPngChunk(chunk.type, chunk.data));
+  const total = parts.reduce((sum, part) => sum + part.length, PNG_SIGNATURE.length);
+  const png = new Uint8Array(total);
+  png.set(PNG_SIGNATURE, 0);
+  let offset = PNG_SIGNATURE.length;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+/**
+ * zlib-compress data with the platform CompressionStream
+ */
+async function zlibCompress(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Response(data).body!.pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Encode palette indices as an 8-bit indexed PNG (color type 3)
+ * Writes PLTE for every entry and tRNS up to the last entry that is not fully opaque
+ * @throws Error if the palette is empty or has more than 256 entries
+ */
+export async function encodeIndexedPng(
+  indices: Uint8Array,
+  width: number,
+  height: number,
+  palette: PaletteColor[]
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (palette.length === 0 || palette.length > 256) {
+    throw new Error('Indexed PNG palette must have between 1 and 256 colors');
+  }
+  if (indices.length !== width * height) {
+    throw new Error('Index data does not match the image size');
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // Bit depth
+  header[9] = 3; // Color type: indexed
+
+  const plte = new Uint8Array(palette.length * 3);
+  palette.forEach((color, i) => plte.set([color.r, color.g, color.b], i * 3));
+
+  let alphaCount = 0;
+  palette.forEach((color, i) => {
+    if (color.a < 255) alphaCount = i + 1;
+  });
+  const trns = Uint8Array.from(palette.slice(0, alphaCount), (color) => color.a);
+
+  // Every scanline starts with filter type 0 (none)
+  const raw = new Uint8Array((width + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(indices.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  }
+
+  const chunks: PngChunk[] = [
+    { type: 'IHDR', data: header },
+    { type: 'PLTE', data: plte },
+  ];
+  if (trns.length > 0) {
+    chunks.push({ type: 'tRNS', data: trns });
+  }
+  chunks.push({ type: 'IDAT', data: await zlibCompress(raw) });
+  chunks.push({ type: 'IEND', data: new Uint8Array(0) });
+  return buildPng(chunks);
+}
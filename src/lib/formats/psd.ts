@@ -0,0 +1,838 @@
+/**
+ * PSD Format Module
+ * Import/export of a practical Photoshop (.psd) subset:
+ * 8-bit RGB(A) documents with pixel layers, layer groups, layer masks, layer names
+ * (including Unicode names), order, opacity, visibility, lock state and blend modes
+ *
+ * Export writes uncompressed channel data. Import reads raw and RLE (PackBits)
+ * channel data; adjustment/vector specifics and vector masks are ignored.
+ */
+
+import type { BlendMode } from '../blendModes';
+import {
+  assertDocumentSize,
+  captureDocument,
+  captureComposite,
+  buildDocumentLayerTree,
+  generateImportedLayerId,
+  placeImageData,
+  type DocumentLayer,
+  type DocumentLayerNode,
+  type LayeredDocument,
+} from './document';
+import { maskValueAt } from '../layerMask';
+import { MAX_CANVAS_SIZE } from '../constants';
+
+export const PSD_MIME_TYPE = 'image/vnd.adobe.photoshop';
+
+const PSD_SIGNATURE = '8BPS';
+const RESOURCE_SIGNATURE = '8BIM';
+const COLOR_MODE_RGB = 3;
+const SECTION_DIVIDER_KEY = 'lsct';
+const UNICODE_NAME_KEY = 'luni';
+const PROTECTION_KEY = 'lspf';
+const LOCK_ALL_FLAG = 0x80000000;
+const PASS_THROUGH_KEY = 'pass';
+const USER_MASK_CHANNEL = -2;
+const MASK_DISABLED_FLAG = 0x02;
+// Name Photoshop gives the record closing a group (below its members)
+const GROUP_END_NAME = '</Layer group>';
+
+// Section divider types of the 'lsct' block: groups are written as a closing record
+// below their members and a folder record above them
+const SECTION_OPEN_FOLDER = 1;
+const SECTION_CLOSED_FOLDER = 2;
+const SECTION_GROUP_END = 3;
+
+// Photoshop blend mode keys for every supported blend mode
+const BLEND_MODE_TO_PSD: Record<BlendMode, string> = {
+  normal: 'norm',
+  multiply: 'mul ',
+  screen: 'scrn',
+  overlay: 'over',
+  'soft-light': 'sLit',
+  'hard-light': 'hLit',
+  'color-dodge': 'div ',
+  'color-burn': 'idiv',
+  darken: 'dark',
+  lighten: 'lite',
+  difference: 'diff',
+  exclusion: 'smud',
+  hue: 'hue ',
+  saturation: 'sat ',
+  color: 'colr',
+  luminosity: 'lum ',
+};
+
+/**
+ * Map a blend mode to a PSD blend key (unknown modes fall back to normal)
+ */
+export function blendModeToPsd(blendMode: string): string {
+  return BLEND_MODE_TO_PSD[blendMode as BlendMode] ?? BLEND_MODE_TO_PSD.normal;
+}
+
+/**
+ * Map a PSD blend key to a blend mode (pass-through and unknown keys fall back to normal)
+ */
+export function psdToBlendMode(key: string): string {
+  const match = (Object.keys(BLEND_MODE_TO_PSD) as BlendMode[]).find(
+    (mode) => BLEND_MODE_TO_PSD[mode] === key
+  );
+  return match ?? 'normal';
+}
+
+/**
+ * Growable big-endian byte writer
+ */
+class BinaryWriter {
+  private buffer = new Uint8Array(1024);
+  private view = new DataView(this.buffer.buffer);
+  length = 0;
+
+  private ensure(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  uint8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  uint16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+  }
+
+  int16(value: number): void {
+    this.ensure(2);
+    this.view.setInt16(this.length, value);
+    this.length += 2;
+  }
+
+  uint32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.length, value >>> 0);
+    this.length += 4;
+  }
+
+  int32(value: number): void {
+    this.ensure(4);
+    this.view.setInt32(this.length, value);
+    this.length += 4;
+  }
+
+  ascii(value: string): void {
+    for (let i = 0; i < value.length; i++) {
+      this.uint8(value.charCodeAt(i) & 0xff);
+    }
+  }
+
+  bytes(data: Uint8Array): void {
+    this.ensure(data.length);
+    this.buffer.set(data, this.length);
+    this.length += data.length;
+  }
+
+  zeros(count: number): void {
+    this.ensure(count);
+    this.buffer.fill(0, this.length, this.length + count);
+    this.length += count;
+  }
+
+  /**
+   * Reserve a uint32 length field and return a function that fills it in
+   * with the number of bytes written since the reservation
+   */
+  lengthPlaceholder(): () => void {
+    const position = this.length;
+    this.uint32(0);
+    return () => this.view.setUint32(position, this.length - position - 4);
+  }
+
+  toUint8Array(): Uint8Array<ArrayBuffer> {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/**
+ * Bounds-checked big-endian byte reader
+ */
+class BinaryReader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(private readonly data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  private require(count: number): void {
+    if (this.offset + count > this.data.byteLength) {
+      throw new Error('PSD file is truncated');
+    }
+  }
+
+  uint8(): number {
+    this.require(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  uint16(): number {
+    this.require(2);
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  int16(): number {
+    this.require(2);
+    const value = this.view.getInt16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  uint32(): number {
+    this.require(4);
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  int32(): number {
+    this.require(4);
+    const value = this.view.getInt32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  ascii(length: number): string {
+    this.require(length);
+    let value = '';
+    for (let i = 0; i < length; i++) {
+      value += String.fromCharCode(this.data[this.offset + i]!);
+    }
+    this.offset += length;
+    return value;
+  }
+
+  bytes(length: number): Uint8Array {
+    this.require(length);
+    const value = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  skip(length: number): void {
+    this.require(length);
+    this.offset += length;
+  }
+}
+
+/**
+ * Write a Pascal string padded so its total length is a multiple of `padding`
+ */
+function writePascalString(writer: BinaryWriter, value: string, padding: number): void {
+  const bytes = Array.from(value)
+    .map((ch) => (ch.charCodeAt(0) < 128 ? ch.charCodeAt(0) : 63)) // '?' for non-ASCII
+    .slice(0, 255);
+  writer.uint8(bytes.length);
+  bytes.forEach((b) => writer.uint8(b));
+  const total = bytes.length + 1;
+  writer.zeros((padding - (total % padding)) % padding);
+}
+
+/**
+ * Split RGBA pixels into planar channel data (R, G, B, A)
+ */
+function toPlanarChannels(imageData: ImageData): Uint8Array[] {
+  const pixelCount = imageData.width * imageData.height;
+  const channels = [0, 1, 2, 3].map(() => new Uint8Array(pixelCount));
+  const src = imageData.data;
+  for (let i = 0; i < pixelCount; i++) {
+    channels[0]![i] = src[i * 4]!;
+    channels[1]![i] = src[i * 4 + 1]!;
+    channels[2]![i] = src[i * 4 + 2]!;
+    channels[3]![i] = src[i * 4 + 3]!;
+  }
+  return channels;
+}
+
+/**
+ * Mask pixels as a single channel
+ */
+function toMaskChannel(mask: ImageData): Uint8Array {
+  const channel = new Uint8Array(mask.width * mask.height);
+  for (let i = 0; i < channel.length; i++) {
+    channel[i] = maskValueAt(mask.data, i);
+  }
+  return channel;
+}
+
+/**
+ * Layer record to write: a document layer, or the record closing a group (layer is null)
+ */
+interface PsdOutputRecord {
+  layer: DocumentLayer | null;
+  section: number; // 0 for pixel layers
+}
+
+/**
+ * Order layers as PSD records, bottom to top, with every group's members between the
+ * record closing it and its folder record
+ */
+function toOutputRecords(nodes: DocumentLayerNode[]): PsdOutputRecord[] {
+  return nodes.flatMap(({ layer, children }) =>
+    layer.kind === 'group'
+      ? [
+          { layer: null, section: SECTION_GROUP_END },
+          ...toOutputRecords(children),
+          { layer, section: layer.collapsed ? SECTION_CLOSED_FOLDER : SECTION_OPEN_FOLDER },
+        ]
+      : [{ layer, section: 0 }]
+  );
+}
+
+/**
+ * Encode a layered document as a PSD file
+ * @param doc Layers in bottom-to-top order, each at full document size
+ * @param composite Flattened image stored as the PSD merged image
+ */
+export function encodePsd(doc: LayeredDocument, composite: ImageData): Uint8Array<ArrayBuffer> {
+  const { width, height } = doc;
+  const writer = new BinaryWriter();
+  const records = toOutputRecords(buildDocumentLayerTree(doc.layers));
+
+  // File header
+  writer.ascii(PSD_SIGNATURE);
+  writer.uint16(1); // Version
+  writer.zeros(6); // Reserved
+  writer.uint16(4); // Channels (RGBA merged image)
+  writer.uint32(height);
+  writer.uint32(width);
+  writer.uint16(8); // Bits per channel
+  writer.uint16(COLOR_MODE_RGB);
+
+  writer.uint32(0); // Color mode data
+  writer.uint32(0); // Image resources
+
+  // Layer and mask information
+  const finishLayerAndMask = writer.lengthPlaceholder();
+  const finishLayerInfo = writer.lengthPlaceholder();
+  writer.int16(records.length);
+
+  const channelLength = 2 + width * height;
+  const channelIds = [0, 1, 2, -1];
+
+  for (const { layer, section } of records) {
+    // Groups have no pixels of their own, so their records are empty
+    const hasPixels = section === 0;
+    const name = layer?.name ?? GROUP_END_NAME;
+    const blendKey =
+      layer?.kind === 'group' && layer.passThrough
+        ? PASS_THROUGH_KEY
+        : blendModeToPsd(layer?.blendMode ?? 'normal');
+
+    writer.int32(0); // Top
+    writer.int32(0); // Left
+    writer.int32(hasPixels ? height : 0); // Bottom
+    writer.int32(hasPixels ? width : 0); // Right
+    writer.uint16(channelIds.length + (layer?.mask ? 1 : 0));
+    for (const id of channelIds) {
+      writer.int16(id);
+      writer.uint32(hasPixels ? channelLength : 2);
+    }
+    if (layer?.mask) {
+      writer.int16(USER_MASK_CHANNEL);
+      writer.uint32(channelLength);
+    }
+    writer.ascii(RESOURCE_SIGNATURE);
+    writer.ascii(blendKey);
+    writer.uint8(Math.round(Math.max(0, Math.min(1, layer?.opacity ?? 1)) * 255));
+    writer.uint8(0); // Clipping: base
+    writer.uint8(layer && !layer.visible ? 0x02 : 0); // Flags: bit 1 set means hidden
+    writer.uint8(0); // Filler
+
+    const finishExtra = writer.lengthPlaceholder();
+    if (layer?.mask) {
+      writer.uint32(20); // Layer mask data
+      writer.int32(0); // Top
+      writer.int32(0); // Left
+      writer.int32(height); // Bottom
+      writer.int32(width); // Right
+      writer.uint8(255); // Default color outside the mask: reveal
+      writer.uint8(layer.maskEnabled === false ? MASK_DISABLED_FLAG : 0);
+      writer.zeros(2); // Padding
+    } else {
+      writer.uint32(0); // Layer mask data
+    }
+    writer.uint32(0); // Blending ranges
+    writePascalString(writer, name, 4);
+
+    // Unicode layer name
+    writer.ascii(RESOURCE_SIGNATURE);
+    writer.ascii(UNICODE_NAME_KEY);
+    const finishUnicode = writer.lengthPlaceholder();
+    writer.uint32(name.length);
+    for (let i = 0; i < name.length; i++) {
+      writer.uint16(name.charCodeAt(i));
+    }
+    if (name.length % 2 === 1) writer.uint16(0); // Pad to a multiple of 4
+    finishUnicode();
+
+    // Layer protection (lock)
+    writer.ascii(RESOURCE_SIGNATURE);
+    writer.ascii(PROTECTION_KEY);
+    writer.uint32(4);
+    writer.uint32(layer?.locked ? LOCK_ALL_FLAG : 0);
+
+    // Group folder or end of group, with the folder's blend mode
+    if (!hasPixels) {
+      writer.ascii(RESOURCE_SIGNATURE);
+      writer.ascii(SECTION_DIVIDER_KEY);
+      writer.uint32(layer ? 12 : 4);
+      writer.uint32(section);
+      if (layer) {
+        writer.ascii(RESOURCE_SIGNATURE);
+        writer.ascii(blendKey);
+      }
+    }
+
+    finishExtra();
+  }
+
+  // Channel image data (raw)
+  for (const { layer, section } of records) {
+    if (section === 0) {
+      const planes = toPlanarChannels(layer!.imageData);
+      for (const plane of [planes[0]!, planes[1]!, planes[2]!, planes[3]!]) {
+        writer.uint16(0); // Compression: raw
+        writer.bytes(plane);
+      }
+    } else {
+      channelIds.forEach(() => writer.uint16(0));
+    }
+    if (layer?.mask) {
+      writer.uint16(0);
+      writer.bytes(toMaskChannel(layer.mask));
+    }
+  }
+
+  if (writer.length % 2 === 1) writer.uint8(0); // Layer info length must be even
+  finishLayerInfo();
+  writer.uint32(0); // Global layer mask info
+  finishLayerAndMask();
+
+  // Merged image data (raw, planar RGBA)
+  writer.uint16(0);
+  for (const plane of toPlanarChannels(composite)) {
+    writer.bytes(plane);
+  }
+
+  return writer.toUint8Array();
+}
+
+/**
+ * Decode PackBits RLE data into exactly `length` bytes
+ */
+function decodePackBits(input: Uint8Array, length: number): Uint8Array {
+  const output = new Uint8Array(length);
+  let i = 0;
+  let o = 0;
+  while (i < input.length && o < length) {
+    const header = (input[i++]! << 24) >> 24; // Signed byte
+    if (header >= 0) {
+      const count = header + 1;
+      output.set(input.subarray(i, i + count).subarray(0, length - o), o);
+      i += count;
+      o += count;
+    } else if (header !== -128) {
+      const count = 1 - header;
+      output.fill(input[i++]!, o, Math.min(length, o + count));
+      o += count;
+    }
+  }
+  return output;
+}
+
+/**
+ * Read one channel's pixel data (width x height bytes) in the given compression
+ */
+function readChannelData(
+  reader: BinaryReader,
+  compression: number,
+  width: number,
+  height: number
+): Uint8Array {
+  if (compression === 0) {
+    return reader.bytes(width * height);
+  }
+  if (compression === 1) {
+    const rowLengths: number[] = [];
+    for (let y = 0; y < height; y++) rowLengths.push(reader.uint16());
+    const output = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+      output.set(decodePackBits(reader.bytes(rowLengths[y]!), width), y * width);
+    }
+    return output;
+  }
+  throw new Error('ZIP-compressed PSD layers are not supported');
+}
+
+interface PsdRect {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+interface PsdMaskRecord extends PsdRect {
+  defaultColor: number; // Mask value outside its bounds
+  disabled: boolean;
+}
+
+interface PsdLayerRecord extends PsdRect {
+  channels: Array<{ id: number; length: number }>;
+  blendKey: string;
+  opacity: number;
+  hidden: boolean;
+  locked: boolean;
+  name: string;
+  section: number; // Section divider type, 0 for pixel layers
+  sectionBlendKey: string | null; // Blend mode of a group folder
+  mask: PsdMaskRecord | null;
+}
+
+/**
+ * Read additional layer information blocks for the keys we understand
+ */
+function readAdditionalInfo(reader: BinaryReader, end: number, record: PsdLayerRecord): void {
+  while (reader.offset + 12 <= end) {
+    const signature = reader.ascii(4);
+    if (signature !== RESOURCE_SIGNATURE && signature !== '8B64') break;
+    const key = reader.ascii(4);
+    const length = reader.uint32();
+    const blockEnd = reader.offset + length;
+
+    if (key === UNICODE_NAME_KEY && length >= 4) {
+      const count = reader.uint32();
+      let name = '';
+      for (let i = 0; i < count && reader.offset + 2 <= blockEnd; i++) {
+        name += String.fromCharCode(reader.uint16());
+      }
+      record.name = name.replace(/\0+$/, '');
+    } else if (key === SECTION_DIVIDER_KEY && length >= 4) {
+      record.section = reader.uint32();
+      if (length >= 12 && reader.ascii(4) === RESOURCE_SIGNATURE) {
+        record.sectionBlendKey = reader.ascii(4);
+      }
+    } else if (key === PROTECTION_KEY && length >= 4) {
+      record.locked = (reader.uint32() & LOCK_ALL_FLAG) !== 0;
+    }
+
+    reader.offset = Math.min(end, blockEnd);
+  }
+}
+
+function assertRectSize(rect: PsdRect, subject: string): void {
+  const width = rect.right - rect.left;
+  const height = rect.bottom - rect.top;
+  if (width < 0 || height < 0) {
+    throw new Error(`${subject} has a negative size (${width}x${height})`);
+  }
+  if (width > MAX_CANVAS_SIZE || height > MAX_CANVAS_SIZE) {
+    throw new Error(
+      `${subject} size ${width}x${height} exceeds the maximum of ${MAX_CANVAS_SIZE}x${MAX_CANVAS_SIZE}`
+    );
+  }
+}
+
+/**
+ * Check a layer's bounds and those of its mask before channel buffers are sized from them
+ * @throws Error if either has a negative size or is larger than MAX_CANVAS_SIZE
+ */
+function assertLayerSize(record: PsdLayerRecord): void {
+  const subject = `PSD layer "${record.name || 'unnamed'}"`;
+  assertRectSize(record, subject);
+  if (record.mask) {
+    assertRectSize(record.mask, `${subject} mask`);
+  }
+}
+
+/**
+ * Expand a layer mask channel to a grayscale mask at document size
+ */
+function toMaskImageData(
+  mask: PsdMaskRecord,
+  channel: Uint8Array,
+  width: number,
+  height: number
+): ImageData {
+  const image = new ImageData(width, height);
+  const maskWidth = mask.right - mask.left;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inside = x >= mask.left && x < mask.right && y >= mask.top && y < mask.bottom;
+      const value = inside
+        ? channel[(y - mask.top) * maskWidth + (x - mask.left)]!
+        : mask.defaultColor;
+      image.data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return image;
+}
+
+/**
+ * Decode a PSD file into a layered document
+ * Documents without layers are opened as a single layer from the merged image
+ * @throws Error for unsupported color modes, bit depths or compression
+ */
+export function decodePsd(data: Uint8Array): LayeredDocument {
+  const reader = new BinaryReader(data);
+
+  if (reader.ascii(4) !== PSD_SIGNATURE) {
+    throw new Error('Not a Photoshop file');
+  }
+  const version = reader.uint16();
+  if (version !== 1) {
+    throw new Error('Large document format (PSB) is not supported');
+  }
+  reader.skip(6);
+  const channelCount = reader.uint16();
+  const height = reader.uint32();
+  const width = reader.uint32();
+  const depth = reader.uint16();
+  const colorMode = reader.uint16();
+  if (depth !== 8) {
+    throw new Error(`Unsupported PSD bit depth: ${depth} (only 8-bit is supported)`);
+  }
+  if (colorMode !== COLOR_MODE_RGB) {
+    throw new Error('Unsupported PSD color mode (only RGB is supported)');
+  }
+  // Before any pixel buffer is sized from the header
+  assertDocumentSize(width, height);
+
+  reader.skip(reader.uint32()); // Color mode data
+  reader.skip(reader.uint32()); // Image resources
+
+  const layerAndMaskLength = reader.uint32();
+  const layerAndMaskEnd = reader.offset + layerAndMaskLength;
+  const layers: DocumentLayer[] = [];
+
+  if (layerAndMaskLength > 0) {
+    const layerInfoLength = reader.uint32();
+    if (layerInfoLength > 0) {
+      const layerCount = Math.abs(reader.int16());
+      const records: PsdLayerRecord[] = [];
+
+      for (let i = 0; i < layerCount; i++) {
+        const record: PsdLayerRecord = {
+          top: reader.int32(),
+          left: reader.int32(),
+          bottom: reader.int32(),
+          right: reader.int32(),
+          channels: [],
+          blendKey: 'norm',
+          opacity: 1,
+          hidden: false,
+          locked: false,
+          name: '',
+          section: 0,
+          sectionBlendKey: null,
+          mask: null,
+        };
+        const channels = reader.uint16();
+        for (let c = 0; c < channels; c++) {
+          record.channels.push({ id: reader.int16(), length: reader.uint32() });
+        }
+        if (reader.ascii(4) !== RESOURCE_SIGNATURE) {
+          throw new Error('PSD layer record is corrupted');
+        }
+        record.blendKey = reader.ascii(4);
+        record.opacity = reader.uint8() / 255;
+        reader.skip(1); // Clipping
+        const flags = reader.uint8();
+        record.hidden = (flags & 0x02) !== 0;
+        reader.skip(1); // Filler
+
+        const extraLength = reader.uint32();
+        const extraEnd = reader.offset + extraLength;
+        const maskLength = reader.uint32();
+        const maskEnd = reader.offset + maskLength;
+        if (maskLength >= 18) {
+          record.mask = {
+            top: reader.int32(),
+            left: reader.int32(),
+            bottom: reader.int32(),
+            right: reader.int32(),
+            defaultColor: reader.uint8(),
+            disabled: (reader.uint8() & MASK_DISABLED_FLAG) !== 0,
+          };
+        }
+        reader.skip(maskEnd - reader.offset);
+        reader.skip(reader.uint32()); // Blending ranges
+        const nameLength = reader.uint8();
+        record.name = reader.ascii(nameLength);
+        reader.skip((4 - ((nameLength + 1) % 4)) % 4);
+        readAdditionalInfo(reader, extraEnd, record);
+        reader.offset = extraEnd;
+        assertLayerSize(record);
+        records.push(record);
+      }
+
+      // IDs of the groups whose members are being read, innermost last
+      const openGroups: string[] = [];
+      for (const record of records) {
+        const layerWidth = record.right - record.left;
+        const layerHeight = record.bottom - record.top;
+        const planes = new Map<number, Uint8Array>();
+
+        for (const channel of record.channels) {
+          const compression = reader.uint16();
+          if (channel.id === USER_MASK_CHANNEL && record.mask) {
+            const { top, left, bottom, right } = record.mask;
+            planes.set(
+              channel.id,
+              readChannelData(reader, compression, right - left, bottom - top)
+            );
+            continue;
+          }
+          if (channel.id < -1) {
+            // Vector and real user masks are not supported; skip their data
+            reader.skip(channel.length - 2);
+            continue;
+          }
+          planes.set(channel.id, readChannelData(reader, compression, layerWidth, layerHeight));
+        }
+
+        if (record.section === SECTION_GROUP_END) {
+          openGroups.push(generateImportedLayerId(layers.length));
+          continue;
+        }
+        const isGroup =
+          record.section === SECTION_OPEN_FOLDER || record.section === SECTION_CLOSED_FOLDER;
+        const id = isGroup ? (openGroups.pop() ?? generateImportedLayerId(layers.length)) : null;
+        const parentId = openGroups[openGroups.length - 1];
+        const maskChannel = planes.get(USER_MASK_CHANNEL);
+        const properties = {
+          name: record.name || `Layer ${layers.length + 1}`,
+          visible: !record.hidden,
+          locked: record.locked,
+          opacity: record.opacity,
+          ...(parentId ? { parentId } : {}),
+          ...(record.mask && maskChannel
+            ? {
+                mask: toMaskImageData(record.mask, maskChannel, width, height),
+                maskEnabled: !record.mask.disabled,
+              }
+            : {}),
+        };
+
+        if (id) {
+          const blendKey = record.sectionBlendKey ?? record.blendKey;
+          layers.push({
+            ...properties,
+            id,
+            imageData: new ImageData(width, height),
+            blendMode: psdToBlendMode(blendKey),
+            kind: 'group',
+            passThrough: blendKey === PASS_THROUGH_KEY,
+            collapsed: record.section === SECTION_CLOSED_FOLDER,
+          });
+          continue;
+        }
+
+        const layerImage = new ImageData(Math.max(1, layerWidth), Math.max(1, layerHeight));
+        if (layerWidth > 0 && layerHeight > 0) {
+          const red = planes.get(0);
+          const green = planes.get(1);
+          const blue = planes.get(2);
+          const alpha = planes.get(-1);
+          for (let p = 0; p < layerWidth * layerHeight; p++) {
+            layerImage.data[p * 4] = red?.[p] ?? 0;
+            layerImage.data[p * 4 + 1] = green?.[p] ?? 0;
+            layerImage.data[p * 4 + 2] = blue?.[p] ?? 0;
+            layerImage.data[p * 4 + 3] = alpha ? alpha[p]! : 255;
+          }
+        }
+
+        layers.push({
+          ...properties,
+          imageData:
+            layerWidth > 0 && layerHeight > 0
+              ? placeImageData(layerImage, record.left, record.top, width, height)
+              : new ImageData(width, height),
+          blendMode: psdToBlendMode(record.blendKey),
+        });
+      }
+
+      // Members of groups whose folder record is missing stay top-level
+      const unclosed = new Set(openGroups);
+      for (const layer of layers) {
+        if (layer.parentId && unclosed.has(layer.parentId)) delete layer.parentId;
+      }
+    }
+    reader.offset = layerAndMaskEnd;
+  }
+
+  if (layers.length === 0) {
+    // No layer records: use the merged image as the only layer
+    const compression = reader.uint16();
+    const merged = new ImageData(width, height);
+    const planes: Uint8Array[] = [];
+    if (compression === 1) {
+      // RLE row counts for every channel come first, followed by all channel data
+      const rowLengths: number[] = [];
+      for (let i = 0; i < channelCount * height; i++) rowLengths.push(reader.uint16());
+      for (let c = 0; c < channelCount; c++) {
+        const plane = new Uint8Array(width * height);
+        for (let y = 0; y < height; y++) {
+          plane.set(decodePackBits(reader.bytes(rowLengths[c * height + y]!), width), y * width);
+        }
+        planes.push(plane);
+      }
+    } else if (compression === 0) {
+      for (let c = 0; c < channelCount; c++) planes.push(reader.bytes(width * height));
+    } else {
+      throw new Error('ZIP-compressed PSD images are not supported');
+    }
+    for (let p = 0; p < width * height; p++) {
+      merged.data[p * 4] = planes[0]?.[p] ?? 0;
+      merged.data[p * 4 + 1] = planes[1]?.[p] ?? 0;
+      merged.data[p * 4 + 2] = planes[2]?.[p] ?? 0;
+      merged.data[p * 4 + 3] = planes[3] ? planes[3][p]! : 255;
+    }
+    layers.push({
+      name: 'Background',
+      imageData: merged,
+      visible: true,
+      locked: false,
+      opacity: 1,
+      blendMode: 'normal',
+    });
+  }
+
+  return { width, height, layers };
+}
+
+/**
+ * Export the current document as a PSD blob
+ */
+export async function exportPsd(): Promise<Blob> {
+  const doc = captureDocument();
+  const composite = await captureComposite();
+  return new Blob([encodePsd(doc, composite)], { type: PSD_MIME_TYPE });
+}
+
+/**
+ * Decode a PSD file into a layered document
+ */
+export async function importPsd(buffer: ArrayBuffer): Promise<LayeredDocument> {
+  return decodePsd(new Uint8Array(buffer));
+}
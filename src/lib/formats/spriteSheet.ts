@@ -0,0 +1,148 @@
+/**
+ * Sprite Sheet Export
+ * Packs animation frames into a grid image with a JSON atlas
+ * The atlas follows the common "array" layout used by Aseprite and TexturePacker
+ */
+
+import { imageDataToBlob } from '../imageUtils';
+
+export interface SpriteSheetOptions {
+  columns?: number; // Defaults to a near-square grid
+  padding?: number; // Transparent pixels between frames
+}
+
+export interface SpriteSheetLayout {
+  columns: number;
+  rows: number;
+  width: number;
+  height: number;
+  rects: { x: number; y: number; w: number; h: number }[];
+}
+
+export interface SpriteAtlas {
+  frames: {
+    filename: string;
+    frame: { x: number; y: number; w: number; h: number };
+    rotated: false;
+    trimmed: false;
+    spriteSourceSize: { x: number; y: number; w: number; h: number };
+    sourceSize: { w: number; h: number };
+    duration: number;
+  }[];
+  meta: {
+    app: string;
+    image: string;
+    format: 'RGBA8888';
+    size: { w: number; h: number };
+    scale: '1';
+  };
+}
+
+/**
+ * Compute the grid position of every frame
+ */
+export function layoutSpriteSheet(
+  frameCount: number,
+  frameWidth: number,
+  frameHeight: number,
+  options: SpriteSheetOptions = {}
+): SpriteSheetLayout {
+  const padding = Math.max(0, Math.floor(options.padding ?? 0));
+  const columns = Math.max(
+    1,
+    Math.min(frameCount, Math.floor(options.columns ?? Math.ceil(Math.sqrt(frameCount))))
+  );
+  const rows = Math.max(1, Math.ceil(frameCount / columns));
+
+  const rects = Array.from({ length: frameCount }, (_, i) => ({
+    x: (i % columns) * (frameWidth + padding),
+    y: Math.floor(i / columns) * (frameHeight + padding),
+    w: frameWidth,
+    h: frameHeight,
+  }));
+
+  return {
+    columns,
+    rows,
+    width: columns * frameWidth + (columns - 1) * padding,
+    height: rows * frameHeight + (rows - 1) * padding,
+    rects,
+  };
+}
+
+/**
+ * Build the JSON atlas describing a sprite sheet layout
+ */
+export function buildSpriteAtlas(
+  layout: SpriteSheetLayout,
+  durations: number[],
+  imageName: string,
+  baseName: string
+): SpriteAtlas {
+  return {
+    frames: layout.rects.map((rect, i) => ({
+      filename: `${baseName} ${i}`,
+      frame: { ...rect },
+      rotated: false,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: rect.w, h: rect.h },
+      sourceSize: { w: rect.w, h: rect.h },
+      duration: durations[i] ?? 0,
+    })),
+    meta: {
+      app: 'Pixel Studio',
+      image: imageName,
+      format: 'RGBA8888',
+      size: { w: layout.width, h: layout.height },
+      scale: '1',
+    },
+  };
+}
+
+/**
+ * Copy frames into one sheet image according to the layout
+ */
+export function packSpriteSheet(images: ImageData[], layout: SpriteSheetLayout): ImageData {
+  const sheet = new ImageData(layout.width, layout.height);
+  images.forEach((image, i) => {
+    const rect = layout.rects[i]!;
+    for (let y = 0; y < rect.h; y++) {
+      const rowStart = y * image.width * 4;
+      sheet.data.set(
+        image.data.subarray(rowStart, rowStart + rect.w * 4),
+        ((rect.y + y) * layout.width + rect.x) * 4
+      );
+    }
+  });
+  return sheet;
+}
+
+/**
+ * Export composited frames as a PNG sprite sheet plus its JSON atlas
+ */
+export async function exportSpriteSheet(
+  frames: { imageData: ImageData; duration: number }[],
+  baseName: string,
+  options: SpriteSheetOptions = {}
+): Promise<{ image: Blob; atlas: Blob }> {
+  if (frames.length === 0) {
+    throw new Error('Animation has no frames');
+  }
+  const { width, height } = frames[0]!.imageData;
+  const layout = layoutSpriteSheet(frames.length, width, height, options);
+  const sheet = packSpriteSheet(
+    frames.map((frame) => frame.imageData),
+    layout
+  );
+  const atlas = buildSpriteAtlas(
+    layout,
+    frames.map((frame) => frame.duration),
+    `${baseName}.png`,
+    baseName
+  );
+
+  return {
+    image: await imageDataToBlob(sheet, 'image/png'),
+    atlas: new Blob([JSON.stringify(atlas, null, 2)], { type: 'application/json' }),
+  };
+}
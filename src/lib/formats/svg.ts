@@ -0,0 +1,360 @@
+/**
+ * SVG Path Import/Export
+ * Converts vector paths to and from SVG <path> elements
+ * Every drawing command (lines, quadratics, arcs) is converted to cubic segments;
+ * each subpath becomes its own vector path. Element transforms are not applied.
+ */
+
+import type { PathAnchor, VectorPath } from '../types';
+import { getPathSegments } from '../pathGeometry';
+
+export const SVG_MIME_TYPE = 'image/svg+xml';
+
+interface Vec {
+  x: number;
+  y: number;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Serialize a path to SVG path data (M, L and C commands)
+ */
+export function pathToSvgData(path: VectorPath): string {
+  const first = path.anchors[0];
+  if (!first) return '';
+  const parts = [`M ${formatNumber(first.x)} ${formatNumber(first.y)}`];
+
+  for (const [p0, p1, p2, p3] of getPathSegments(path)) {
+    const straight = p1.x === p0.x && p1.y === p0.y && p2.x === p3.x && p2.y === p3.y;
+    parts.push(
+      straight
+        ? `L ${formatNumber(p3.x)} ${formatNumber(p3.y)}`
+        : `C ${[p1, p2, p3].map((p) => `${formatNumber(p.x)} ${formatNumber(p.y)}`).join(' ')}`
+    );
+  }
+  if (path.closed) parts.push('Z');
+  return parts.join(' ');
+}
+
+/**
+ * Serialize paths into a standalone SVG document sized to the canvas
+ */
+export function pathsToSvg(paths: VectorPath[], width: number, height: number): string {
+  const elements = paths
+    .filter((path) => path.anchors.length > 0)
+    .map(
+      (path) =>
+        `  <path id="${escapeXml(path.id)}" data-name="${escapeXml(path.name)}" d="${pathToSvgData(path)}" fill="none" stroke="#000000"/>`
+    );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    ...elements,
+    '</svg>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Approximate an SVG elliptical arc with cubic segments (at most 90° each)
+ * @returns Control point triples [c1, c2, end]
+ */
+function arcToCubics(
+  from: Vec,
+  rxIn: number,
+  ryIn: number,
+  rotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: Vec
+): [Vec, Vec, Vec][] {
+  let rx = Math.abs(rxIn);
+  let ry = Math.abs(ryIn);
+  if (rx === 0 || ry === 0 || (from.x === to.x && from.y === to.y)) {
+    return [[from, to, to]];
+  }
+
+  const phi = (rotation * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+
+  // Scale radii up if they cannot span the endpoints
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cx1 = (factor * rx * y1) / ry;
+  const cy1 = (-factor * ry * x1) / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+    return sign * Math.acos(Math.max(-1, Math.min(1, dot)));
+  };
+  const startAngle = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const segments = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+  const step = delta / segments;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const point = (theta: number): Vec => ({
+    x: cx + rx * Math.cos(theta) * cos - ry * Math.sin(theta) * sin,
+    y: cy + rx * Math.cos(theta) * sin + ry * Math.sin(theta) * cos,
+  });
+  const derivative = (theta: number): Vec => ({
+    x: -rx * Math.sin(theta) * cos - ry * Math.cos(theta) * sin,
+    y: -rx * Math.sin(theta) * sin + ry * Math.cos(theta) * cos,
+  });
+
+  const cubics: [Vec, Vec, Vec][] = [];
+  for (let i = 0; i < segments; i++) {
+    const a = startAngle + i * step;
+    const b = a + step;
+    const pa = point(a);
+    const pb = i === segments - 1 ? to : point(b);
+    const da = derivative(a);
+    const db = derivative(b);
+    cubics.push([
+      { x: pa.x + k * da.x, y: pa.y + k * da.y },
+      { x: pb.x - k * db.x, y: pb.y - k * db.y },
+      pb,
+    ]);
+  }
+  return cubics;
+}
+
+/**
+ * Parse SVG path data into vector paths (one per subpath)
+ * @throws Error if the data contains an unknown command or is missing coordinates
+ */
+export function parseSvgPathData(d: string, baseName: string, idPrefix: string): VectorPath[] {
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+  const paths: VectorPath[] = [];
+  let anchors: PathAnchor[] = [];
+  let closed = false;
+  let current: Vec = { x: 0, y: 0 };
+  let subpathStart: Vec = { x: 0, y: 0 };
+  let lastCubicControl: Vec | null = null;
+  let lastQuadControl: Vec | null = null;
+  let command = '';
+  let index = 0;
+
+  const finishSubpath = () => {
+    if (anchors.length > 1 || (anchors.length === 1 && closed)) {
+      // A closing segment that returns exactly to the start is implied by `closed`
+      const first = anchors[0]!;
+      const last = anchors[anchors.length - 1]!;
+      if (closed && anchors.length > 1 && first.x === last.x && first.y === last.y) {
+        if (last.inHandle) first.inHandle = last.inHandle;
+        anchors.pop();
+      }
+      const n = paths.length;
+      paths.push({
+        id: `${idPrefix}_${n}`,
+        name: n === 0 ? baseName : `${baseName} ${n + 1}`,
+        anchors,
+        closed,
+      });
+    }
+    anchors = [];
+    closed = false;
+  };
+
+  const isNumber = (token: string | undefined) => token !== undefined && !/^[A-Za-z]$/.test(token);
+  const next = (): number => {
+    const token = tokens[index++];
+    if (!isNumber(token)) {
+      throw new Error('Invalid SVG path data: missing coordinates');
+    }
+    return parseFloat(token!);
+  };
+  const nextPoint = (relative: boolean): Vec => {
+    const x = next();
+    const y = next();
+    return relative ? { x: current.x + x, y: current.y + y } : { x, y };
+  };
+  // A drawing command after Z starts a new subpath at the previous subpath's start
+  const ensureStart = () => {
+    if (anchors.length === 0) anchors.push({ x: current.x, y: current.y });
+  };
+  const lineTo = (point: Vec) => {
+    ensureStart();
+    anchors.push({ x: point.x, y: point.y });
+    current = point;
+  };
+  const cubicTo = (c1: Vec, c2: Vec, end: Vec) => {
+    ensureStart();
+    const previous = anchors[anchors.length - 1];
+    if (previous) previous.outHandle = { x: c1.x, y: c1.y };
+    anchors.push({ x: end.x, y: end.y, inHandle: { x: c2.x, y: c2.y } });
+    current = end;
+  };
+
+  while (index < tokens.length) {
+    const token = tokens[index]!;
+    if (/^[A-Za-z]$/.test(token)) {
+      command = token;
+      index++;
+    } else if (!command) {
+      throw new Error('Invalid SVG path data: expected a command');
+    }
+
+    const relative = command === command.toLowerCase();
+    let cubicControl: Vec | null = null;
+    let quadControl: Vec | null = null;
+
+    switch (command.toUpperCase()) {
+      case 'M': {
+        finishSubpath();
+        const point = nextPoint(relative);
+        anchors.push({ x: point.x, y: point.y });
+        current = point;
+        subpathStart = point;
+        // Further coordinate pairs are implicit line-tos
+        command = relative ? 'l' : 'L';
+        break;
+      }
+      case 'L':
+        lineTo(nextPoint(relative));
+        break;
+      case 'H': {
+        const x = next();
+        lineTo({ x: relative ? current.x + x : x, y: current.y });
+        break;
+      }
+      case 'V': {
+        const y = next();
+        lineTo({ x: current.x, y: relative ? current.y + y : y });
+        break;
+      }
+      case 'C': {
+        const c1 = nextPoint(relative);
+        const c2 = nextPoint(relative);
+        const end = nextPoint(relative);
+        cubicTo(c1, c2, end);
+        cubicControl = c2;
+        break;
+      }
+      case 'S': {
+        const c1 = lastCubicControl
+          ? { x: 2 * current.x - lastCubicControl.x, y: 2 * current.y - lastCubicControl.y }
+          : current;
+        const c2 = nextPoint(relative);
+        const end = nextPoint(relative);
+        cubicTo(c1, c2, end);
+        cubicControl = c2;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        const control: Vec =
+          command.toUpperCase() === 'Q'
+            ? nextPoint(relative)
+            : lastQuadControl
+              ? { x: 2 * current.x - lastQuadControl.x, y: 2 * current.y - lastQuadControl.y }
+              : current;
+        const start = current;
+        const end = nextPoint(relative);
+        // Degree elevation: quadratic control q becomes cubic controls at 2/3 towards q
+        cubicTo(
+          {
+            x: start.x + (2 / 3) * (control.x - start.x),
+            y: start.y + (2 / 3) * (control.y - start.y),
+          },
+          { x: end.x + (2 / 3) * (control.x - end.x), y: end.y + (2 / 3) * (control.y - end.y) },
+          end
+        );
+        quadControl = control;
+        break;
+      }
+      case 'A': {
+        const rx = next();
+        const ry = next();
+        const rotation = next();
+        const largeArc = next() !== 0;
+        const sweep = next() !== 0;
+        const end = nextPoint(relative);
+        for (const [c1, c2, point] of arcToCubics(
+          current,
+          rx,
+          ry,
+          rotation,
+          largeArc,
+          sweep,
+          end
+        )) {
+          cubicTo(c1, c2, point);
+        }
+        break;
+      }
+      case 'Z':
+        closed = true;
+        current = subpathStart;
+        finishSubpath();
+        break;
+      default:
+        throw new Error(`Invalid SVG path data: unsupported command "${command}"`);
+    }
+
+    lastCubicControl = cubicControl;
+    lastQuadControl = quadControl;
+    if (command.toUpperCase() === 'Z') {
+      command = '';
+    }
+  }
+
+  finishSubpath();
+  return paths;
+}
+
+/**
+ * Read every <path> element of an SVG document
+ * @throws Error if the text is not an SVG document or contains no paths
+ */
+export function importSvgPaths(text: string, idPrefix: string): VectorPath[] {
+  const doc = new DOMParser().parseFromString(text, SVG_MIME_TYPE);
+  if (
+    doc.getElementsByTagName('parsererror').length > 0 ||
+    doc.documentElement.nodeName !== 'svg'
+  ) {
+    throw new Error('Invalid SVG file');
+  }
+
+  const paths: VectorPath[] = [];
+  Array.from(doc.getElementsByTagName('path')).forEach((element, i) => {
+    const d = element.getAttribute('d');
+    if (!d) return;
+    const name =
+      element.getAttribute('data-name') || element.getAttribute('id') || `Imported Path ${i + 1}`;
+    paths.push(...parseSvgPathData(d, name, `${idPrefix}_${i}`));
+  });
+
+  if (paths.length === 0) {
+    throw new Error('SVG file contains no paths');
+  }
+  return paths;
+}
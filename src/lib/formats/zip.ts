@@ -0,0 +1,187 @@
+/**
+ * Zip Container Utilities
+ * Minimal ZIP reader/writer for container formats such as OpenRaster
+ * Writes uncompressed (stored) entries; reads stored and deflated entries
+ * Deflate decoding uses the platform DecompressionStream ('deflate-raw')
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Compute the CRC-32 checksum used by ZIP entries
+ */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Create a ZIP archive with stored (uncompressed) entries, in the given order
+ * Order matters for formats like OpenRaster that require 'mimetype' to be first
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const prepared = entries.map((entry) => ({
+    nameBytes: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+    offset: 0,
+  }));
+
+  const localSize = prepared.reduce(
+    (total, e) => total + 30 + e.nameBytes.length + e.data.length,
+    0
+  );
+  const centralSize = prepared.reduce((total, e) => total + 46 + e.nameBytes.length, 0);
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+
+  for (const entry of prepared) {
+    entry.offset = offset;
+    view.setUint32(offset, LOCAL_FILE_HEADER, true);
+    view.setUint16(offset + 4, 20, true); // Version needed to extract
+    view.setUint16(offset + 6, 0x0800, true); // UTF-8 file names
+    view.setUint16(offset + 8, METHOD_STORED, true);
+    view.setUint16(offset + 10, 0, true); // Modification time
+    view.setUint16(offset + 12, 0x21, true); // Modification date (1980-01-01)
+    view.setUint32(offset + 14, entry.crc, true);
+    view.setUint32(offset + 18, entry.data.length, true);
+    view.setUint32(offset + 22, entry.data.length, true);
+    view.setUint16(offset + 26, entry.nameBytes.length, true);
+    view.setUint16(offset + 28, 0, true);
+    output.set(entry.nameBytes, offset + 30);
+    output.set(entry.data, offset + 30 + entry.nameBytes.length);
+    offset += 30 + entry.nameBytes.length + entry.data.length;
+  }
+
+  const centralStart = offset;
+  for (const entry of prepared) {
+    view.setUint32(offset, CENTRAL_DIRECTORY_HEADER, true);
+    view.setUint16(offset + 4, 20, true); // Version made by
+    view.setUint16(offset + 6, 20, true); // Version needed to extract
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, METHOD_STORED, true);
+    view.setUint16(offset + 12, 0, true);
+    view.setUint16(offset + 14, 0x21, true);
+    view.setUint32(offset + 16, entry.crc, true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, entry.nameBytes.length, true);
+    // Extra length, comment length, disk number, attributes are all zero
+    view.setUint32(offset + 42, entry.offset, true);
+    output.set(entry.nameBytes, offset + 46);
+    offset += 46 + entry.nameBytes.length;
+  }
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, prepared.length, true);
+  view.setUint16(offset + 10, prepared.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return output;
+}
+
+/**
+ * Inflate raw deflate data using the platform DecompressionStream
+ */
+async function inflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('Compressed archives are not supported in this browser');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Read every file entry of a ZIP archive
+ * @returns Map of entry name to uncompressed bytes (directories are skipped)
+ * @throws Error if the archive is malformed or uses an unsupported compression method
+ */
+export async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array<ArrayBuffer>>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // Locate the end of central directory record (scan back over a possible comment)
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Invalid archive: end of central directory not found');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array<ArrayBuffer>>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      offset + 46 > buffer.byteLength ||
+      view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER
+    ) {
+      throw new Error('Invalid archive: corrupted central directory');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid archive: bad local header for "${name}"`);
+    }
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const localExtraLength = view.getUint16(localOffset + 28, true);
+    const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+    if (dataStart + compressedSize > buffer.byteLength) {
+      throw new Error(`Invalid archive: "${name}" is truncated`);
+    }
+    const data = new Uint8Array(buffer.slice(dataStart, dataStart + compressedSize));
+
+    if (method === METHOD_STORED) {
+      files.set(name, data);
+    } else if (method === METHOD_DEFLATE) {
+      files.set(name, await inflateRaw(data));
+    } else {
+      throw new Error(`Unsupported compression method ${method} for "${name}"`);
+    }
+  }
+
+  return files;
+}
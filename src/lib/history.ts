@@ -1,34 +1,192 @@
 /**
  * History Module
- * Manages undo/redo functionality
+ * Manages undo/redo, the named steps listed in the History panel, branches of undone
+ * steps (branching mode) and named snapshots of the document
+ * Steps store only the tiles that changed on each layer and mask, plus reversible layer
+ * commands; older steps keep their place in the list while their tiles are spilled to
+ * IndexedDB
  */
 
-import type { LayerState } from './types';
 import Canvas from './canvas';
 import Layers from './layers';
+import StateManager from './stateManager';
 import EventEmitter from './utils/eventEmitter';
 import indexedDBStorage from './storage/indexedDB';
 import WorkerManager from './workers/workerManager';
-import { imageDataToArrayBuffer, blobToImageData } from './imageUtils';
+import { isGroupLayer } from './layerTree';
+import { createThumbnailDataURL } from './imageUtils';
+import {
+  applyLayerCommands,
+  applyPixelDelta,
+  diffLayers,
+  diffSurfaceRegions,
+  diffSurfaces,
+  getLayerInfo,
+  getMaskSurface,
+  parseSurface,
+  type ChangedRegion,
+  type HistoryDirection,
+  type LayerCommand,
+  type LayerInfo,
+  type PixelDelta,
+  type SurfaceChange,
+  type SurfaceSize,
+  type TileChange,
+} from './historyDelta';
 import { logger } from './utils/logger';
 
-interface HistoryEntry {
-  imageData: ImageData;
-  layerState?: LayerState;
+/**
+ * Step listed in the History panel
+ */
+export interface HistoryStep {
+  label: string; // Action name, e.g. "Pencil" or "Canvas Size"
+  tool: string | null; // Tool active when the step was saved
+  timestamp: number;
+  thumbnail: string | null; // PNG data URL of the document, at most 32px on a side
+}
+
+/**
+ * Named picture of the whole document, kept in IndexedDB with the project until deleted
+ */
+export interface HistorySnapshot {
+  id: string;
+  name: string;
+  timestamp: number;
+  thumbnail: string | null;
+}
+
+/**
+ * Undone steps kept as a branch when a new step was saved after undoing (branching mode)
+ */
+export interface HistoryBranch {
+  id: string;
+  forkIndex: number; // Step the branch starts after, or -1 when it is on another branch
+  steps: HistoryStep[];
+}
+
+/**
+ * Document state kept by another module, such as the palette of an indexed document
+ * Steps record it when it changed and write it back before their layers when undone or redone
+ */
+export interface TrackedState {
+  read(): unknown; // Values are compared as JSON and must not be changed once read
+  write(value: unknown): void;
+}
+
+/**
+ * Document at the current step; the next step's changes are found by comparing with it
+ */
+interface DocumentState {
+  size: SurfaceSize;
+  layers: LayerInfo[];
+  activeLayerId: string | null;
+  surfaces: Map<string, ImageData>; // Layer canvases and masks, or the plain canvas
+  tracked: Map<string, unknown>; // Values of the tracked states, by key
+}
+
+// Tile spilled to IndexedDB; each side holds the position of its image in the record
+type SpilledTile = Omit<TileChange, 'before' | 'after'> & {
+  before?: number | null;
+  after?: number | null;
+};
+
+/**
+ * Changes from the previous step (the first step's are never applied)
+ */
+interface HistoryEntry extends HistoryStep {
+  pixels: PixelDelta | null; // Null while the tiles are spilled to IndexedDB
+  spilled?: { surfaces: SurfaceChange[]; tiles: SpilledTile[] };
+  layers: LayerCommand[];
+  activeLayer?: { before: string | null; after: string | null };
+  size?: { before: SurfaceSize; after: SurfaceSize };
+  tracked?: Array<{ key: string; before: unknown; after: unknown }>;
+  cacheId?: string; // IndexedDB record holding the entry's tiles once spilled
+}
+
+interface Branch {
+  id: string;
+  fork: HistoryEntry; // Step the branch's first step was saved after
+  entries: HistoryEntry[];
+}
+
+/**
+ * Steps set aside by suspend() while another part of the document is edited, e.g. the
+ * undo steps of an animation frame that is not current
+ */
+export interface HistoryStack {
+  readonly entries: HistoryEntry[];
+  readonly index: number;
+  readonly branches: Branch[];
+  readonly size: SurfaceSize;
+  readonly surfaces: string[]; // Surfaces of the document when the steps were set aside
+}
+
+// Snapshot details stored with its surfaces (in the order listed) in IndexedDB
+interface SnapshotRecord {
+  name: string;
+  timestamp: number;
+  thumbnail: string | null;
+  layered: boolean; // Taken with layers enabled
+  size: SurfaceSize;
+  layers: LayerInfo[];
+  activeLayerId: string | null;
+  surfaces: string[];
+}
+
+function isSnapshotRecord(value: unknown): value is SnapshotRecord {
+  const record = value as SnapshotRecord | null;
+  return (
+    typeof record === 'object' &&
+    record !== null &&
+    typeof record.name === 'string' &&
+    typeof record.timestamp === 'number' &&
+    typeof record.layered === 'boolean' &&
+    typeof record.size?.width === 'number' &&
+    typeof record.size?.height === 'number' &&
+    Array.isArray(record.layers) &&
+    Array.isArray(record.surfaces)
+  );
 }
 
+export const MIN_HISTORY_DEPTH = 5;
+export const MAX_HISTORY_DEPTH = 200;
+const DEFAULT_HISTORY_DEPTH = 20;
+const DEPTH_SETTING_KEY = 'historyDepth';
+const BRANCHING_SETTING_KEY = 'historyBranching';
+// Oldest branches are dropped beyond this many
+const MAX_BRANCHES = 10;
+const THUMBNAIL_SIZE = 32;
+// First byte of a spilled entry holding several images (its tiles)
+const BUNDLE_FORMAT = 2;
+// First byte of an image stored uncompressed (same layout as the history worker's)
+const RAW_FORMAT = 0;
+// Surface key of the document canvas when layers are disabled
+const CANVAS_SURFACE = 'canvas';
+
 const History = (function () {
   let history: HistoryEntry[] = [];
   let historyIndex = -1;
-  const maxHistory = 20;
-  const maxMemoryHistory = 10; // Keep only 10 in memory, cache rest to IndexedDB
+  let baseline: DocumentState | null = null;
+  let maxHistory = DEFAULT_HISTORY_DEPTH;
+  const maxMemoryHistory = 10; // Keep only the 10 newest steps in memory, spill the rest
   let useLayers = false;
   let projectId: string | null = null;
   let isInitializedFlag = false; // Track initialization state
-  // Track which entries are cached (index -> true means cached to IndexedDB)
-  const cachedEntries = new Set<number>();
+  // Key of the next spilled entry within the project's IndexedDB history
+  let nextCacheIndex = 0;
   // Track pending cache operations to prevent race conditions
-  const pendingCacheOps = new Map<number, Promise<void>>();
+  const pendingCacheOps = new Map<HistoryEntry, Promise<void>>();
+  // Entries with a record in IndexedDB, deleted along with them
+  const storedEntries = new Set<HistoryEntry>();
+  let settingsLoadPromise: Promise<void> | null = null;
+  // Branching mode keeps undone steps as branches instead of dropping them
+  let branching = false;
+  let branches: Branch[] = [];
+  let nextBranchId = 1;
+  // Suspended steps keep their IndexedDB records until resumed or discarded
+  const suspendedStacks = new Set<HistoryStack>();
+  const snapshotRecords = new Map<string, SnapshotRecord>();
+  const trackedStates = new Map<string, TrackedState>();
   // Transaction grouping: group rapid consecutive actions
   let transactionGroupingTimer: ReturnType<typeof setTimeout> | null = null;
   let pendingSave: (() => void) | null = null;
@@ -42,10 +200,15 @@ const History = (function () {
   function init(enableLayers: boolean = false, projectIdParam?: string): void {
     history = [];
     historyIndex = -1;
+    baseline = null;
     useLayers = enableLayers;
     projectId = projectIdParam || `project-${Date.now()}`;
-    cachedEntries.clear();
+    nextCacheIndex = 0;
     pendingCacheOps.clear();
+    branches = [];
+    suspendedStacks.clear();
+    releaseDroppedEntries();
+    snapshotRecords.clear();
     isInitializedFlag = true; // Mark as initialized
 
     // Initialize history worker (non-blocking, fails gracefully)
@@ -55,6 +218,10 @@ const History = (function () {
       } catch (error) {
         logger.warn('History worker initialization failed, will use fallback:', error);
       }
+      loadSettings().catch((error) => logger.warn('Failed to load history settings:', error));
+      loadSnapshots(projectId).catch((error) =>
+        logger.warn('Failed to load history snapshots:', error)
+      );
     }
 
     // IndexedDB will initialize lazily when first needed (save/load operations)
@@ -62,137 +229,748 @@ const History = (function () {
   }
 
   /**
-   * Save current canvas state to history (internal, bypasses transaction grouping)
-   * OPTIMIZED: Defers expensive getImageData operation to avoid blocking main thread
+   * Load the saved history depth and branching mode from the settings store (runs once)
    */
-  function saveInternal(): void {
-    // OPTIMIZATION (Item 2): Defer expensive getImageData() call using requestIdleCallback
-    // This prevents blocking the main thread during drawing operations
-    const performSave = () => {
-      let imageData: ImageData;
-      try {
-        imageData = Canvas.getImageData();
-      } catch (error) {
-        logger.error('Failed to get canvas image data for history:', error);
-        // Don't save history if canvas data unavailable
-        return;
+  function loadSettings(): Promise<void> {
+    if (!settingsLoadPromise) {
+      settingsLoadPromise = (async () => {
+        const stored = await indexedDBStorage.loadSetting(DEPTH_SETTING_KEY);
+        if (typeof stored === 'number') {
+          applyDepth(stored);
+        }
+        const storedBranching = await indexedDBStorage.loadSetting(BRANCHING_SETTING_KEY);
+        if (typeof storedBranching === 'boolean') {
+          branching = storedBranching;
+          EventEmitter.emit('history:branches', { branches: getBranches(), branching });
+        }
+      })();
+    }
+    return settingsLoadPromise;
+  }
+
+  /**
+   * Load the details of a project's snapshots (their pixels stay in IndexedDB)
+   */
+  async function loadSnapshots(id: string): Promise<void> {
+    const stored = await indexedDBStorage.listHistorySnapshots(id);
+    // History was initialized for another project meanwhile
+    if (projectId !== id) return;
+    for (const { id: snapshotId, snapshot } of stored) {
+      if (isSnapshotRecord(snapshot)) {
+        snapshotRecords.set(snapshotId, snapshot);
       }
-      const entry: HistoryEntry = { imageData };
+    }
+    EventEmitter.emit('history:snapshots', { snapshots: getSnapshots() });
+  }
 
-      // If layers are enabled, also save layer state
-      if (useLayers) {
-        entry.layerState = Layers._createLayerSnapshot();
+  function getEventData() {
+    return {
+      index: historyIndex,
+      length: history.length,
+      canUndo: canUndo(),
+      canRedo: canRedo(),
+    };
+  }
+
+  function toStep(entry: HistoryEntry): HistoryStep {
+    return {
+      label: entry.label,
+      tool: entry.tool,
+      timestamp: entry.timestamp,
+      thumbnail: entry.thumbnail,
+    };
+  }
+
+  /**
+   * Display name of a tool, e.g. "regular-polygon" becomes "Regular Polygon"
+   */
+  function formatToolName(tool: string): string {
+    return tool
+      .split(/[-_]/)
+      .filter(Boolean)
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+
+  function getCurrentTool(): string | null {
+    try {
+      return StateManager.getState().currentTool || null;
+    } catch {
+      return null; // StateManager not initialized yet
+    }
+  }
+
+  /**
+   * Small picture of the composited document for the History panel
+   */
+  function createThumbnail(): string | null {
+    try {
+      return createThumbnailDataURL(Canvas.getCanvas(), THUMBNAIL_SIZE);
+    } catch (error) {
+      logger.warn('Failed to create history thumbnail:', error);
+      return null;
+    }
+  }
+
+  // Pixels of a canvas, all of them by default (layer canvases are at device pixel size)
+  function readCanvas(
+    canvas: HTMLCanvasElement,
+    x = 0,
+    y = 0,
+    width = canvas.width,
+    height = canvas.height
+  ): ImageData {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('Canvas context not available');
+    }
+    return ctx.getImageData(x, y, width, height);
+  }
+
+  // Pixels of an area of a surface
+  function readSurfaceRegion(
+    surface: string,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): ImageData {
+    if (surface === CANVAS_SURFACE) {
+      return Canvas.getImageDataRegion(x, y, width, height);
+    }
+    const canvas = getSurfaceCanvas(surface);
+    if (!canvas) {
+      throw new Error(`History surface "${surface}" has no canvas`);
+    }
+    return readCanvas(canvas, x, y, width, height);
+  }
+
+  /**
+   * Surfaces the document has now: every layer canvas and mask, or the plain canvas
+   */
+  function listSurfaces(): string[] {
+    if (!useLayers) {
+      return [CANVAS_SURFACE];
+    }
+    return Layers.getAllLayers().flatMap((layer) => [
+      // Groups have no pixels of their own
+      ...(isGroupLayer(layer) ? [] : [layer.id]),
+      ...(layer.mask ? [getMaskSurface(layer.id)] : []),
+    ]);
+  }
+
+  /**
+   * Read the layer list and every layer canvas and mask (or the plain canvas)
+   */
+  function captureState(): DocumentState {
+    const surfaces = new Map<string, ImageData>();
+    let layers: LayerInfo[] = [];
+    let activeLayerId: string | null = null;
+
+    if (useLayers) {
+      const allLayers = Layers.getAllLayers();
+      layers = allLayers.map(getLayerInfo);
+      activeLayerId = Layers.getActiveLayerId();
+      for (const layer of allLayers) {
+        // Groups have no pixels of their own
+        if (!isGroupLayer(layer)) {
+          surfaces.set(layer.id, readCanvas(layer.canvas));
+        }
+        if (layer.mask) {
+          surfaces.set(getMaskSurface(layer.id), readCanvas(layer.mask));
+        }
       }
+    } else {
+      surfaces.set(CANVAS_SURFACE, Canvas.getImageData());
+    }
+
+    return {
+      size: { width: Canvas.getWidth(), height: Canvas.getHeight() },
+      layers,
+      activeLayerId,
+      surfaces,
+      tracked: readTrackedStates(),
+    };
+  }
+
+  function readTrackedStates(): Map<string, unknown> {
+    const values = new Map<string, unknown>();
+    for (const [key, state] of trackedStates) {
+      values.set(key, state.read());
+    }
+    return values;
+  }
 
-      // Validate history index before modifying
-      if (historyIndex < -1 || historyIndex >= history.length) {
-        logger.error('Invalid history index before save:', historyIndex, history.length);
-        // Reset to valid state
-        historyIndex = history.length > 0 ? history.length - 1 : -1;
+  /**
+   * Capture the changes since the current step as a history entry
+   * Only the tiles under the regions marked dirty or changed on Canvas are read and
+   * compared with the baseline; every surface is compared when nothing was marked, or when
+   * layers or masks were added or removed or the document was resized
+   * @param label - Action name; defaults to the name of the current tool
+   */
+  function captureEntry(label?: string): HistoryEntry | null {
+    const regions = Canvas.takeHistoryRegions();
+    let state: DocumentState;
+    let pixels: PixelDelta | undefined;
+    try {
+      const previous = baseline;
+      const reported = previous && regions.length > 0 ? captureRegions(previous, regions) : null;
+      if (reported) {
+        ({ state, pixels } = reported);
+      } else {
+        state = captureState();
       }
+    } catch (error) {
+      logger.error('Failed to read the document for history:', error);
+      // Don't save history if canvas data unavailable
+      return null;
+    }
 
-      // Remove any redo states
-      history = history.slice(0, historyIndex + 1);
+    const entry = createEntry(label, baseline, state, pixels);
+    if (pixels) {
+      // The baseline's surfaces are moved on in place rather than read again
+      applyPixelDelta(state.surfaces, pixels, 'redo');
+    }
+    baseline = state;
+    return entry;
+  }
 
-      // Validate layer state if present
-      if (useLayers && entry.layerState) {
-        if (!entry.layerState.layers || !Array.isArray(entry.layerState.layers)) {
-          logger.error('Invalid layer state in history entry: layers is not an array');
-          // Remove invalid layer state
-          entry.layerState = undefined;
-        }
+  /**
+   * Read and compare just the changed regions of the document
+   * @returns The document's state (sharing the baseline's surfaces, which the changed tiles
+   *   are still to be applied to) and those tiles, or null when its surfaces changed
+   */
+  function captureRegions(
+    previous: DocumentState,
+    regions: ChangedRegion[]
+  ): { state: DocumentState; pixels: PixelDelta } | null {
+    const size = { width: Canvas.getWidth(), height: Canvas.getHeight() };
+    const surfaces = listSurfaces();
+    if (
+      size.width !== previous.size.width ||
+      size.height !== previous.size.height ||
+      surfaces.length !== previous.surfaces.size ||
+      surfaces.some((surface) => !previous.surfaces.has(surface))
+    ) {
+      return null;
+    }
+
+    const pixels = diffSurfaceRegions(previous.surfaces, regions, size, readSurfaceRegion);
+    const state: DocumentState = {
+      size,
+      layers: useLayers ? Layers.getAllLayers().map(getLayerInfo) : [],
+      activeLayerId: useLayers ? Layers.getActiveLayerId() : null,
+      surfaces: previous.surfaces,
+      tracked: readTrackedStates(),
+    };
+    return { state, pixels };
+  }
+
+  /**
+   * History entry for the changes between two states of the document
+   * @param pixels - Changed tiles, when already found; otherwise the surfaces are compared
+   */
+  function createEntry(
+    label: string | undefined,
+    previous: DocumentState | null,
+    state: DocumentState,
+    pixels?: PixelDelta
+  ): HistoryEntry {
+    const tool = getCurrentTool();
+    const entry: HistoryEntry = {
+      label: label || (tool ? formatToolName(tool) : 'Edit'),
+      tool,
+      timestamp: Date.now(),
+      thumbnail: createThumbnail(),
+      pixels: pixels ?? (previous ? diffSurfaces(previous.surfaces, state.surfaces) : emptyDelta()),
+      layers: previous ? diffLayers(previous.layers, state.layers) : [],
+    };
+    if (previous && previous.activeLayerId !== state.activeLayerId) {
+      entry.activeLayer = { before: previous.activeLayerId, after: state.activeLayerId };
+    }
+    if (
+      previous &&
+      (previous.size.width !== state.size.width || previous.size.height !== state.size.height)
+    ) {
+      entry.size = { before: previous.size, after: state.size };
+    }
+    const tracked = previous ? diffTrackedStates(previous.tracked, state.tracked) : [];
+    if (tracked.length > 0) {
+      entry.tracked = tracked;
+    }
+    return entry;
+  }
+
+  function diffTrackedStates(
+    previous: Map<string, unknown>,
+    current: Map<string, unknown>
+  ): Array<{ key: string; before: unknown; after: unknown }> {
+    const changes: Array<{ key: string; before: unknown; after: unknown }> = [];
+    for (const [key, after] of current) {
+      // States tracked since the previous step have nothing to go back to
+      if (!previous.has(key)) continue;
+      const before = previous.get(key);
+      if (JSON.stringify(before) !== JSON.stringify(after)) {
+        changes.push({ key, before, after });
       }
+    }
+    return changes;
+  }
+
+  function emptyDelta(): PixelDelta {
+    return { surfaces: [], tiles: [] };
+  }
+
+  /**
+   * Add an entry after the current step, dropping redo states and the oldest steps
+   * beyond the history depth
+   */
+  function pushEntry(entry: HistoryEntry): void {
+    // Validate history index before modifying
+    if (historyIndex < -1 || historyIndex >= history.length) {
+      logger.error('Invalid history index before save:', historyIndex, history.length);
+      // Reset to valid state
+      historyIndex = history.length > 0 ? history.length - 1 : -1;
+    }
+
+    // Remove any redo states, or keep them as a branch
+    if (branching && historyIndex >= 0) {
+      addBranch(history[historyIndex]!, history.slice(historyIndex + 1));
+    }
+    history = history.slice(0, historyIndex + 1);
+    history.push(entry);
+    historyIndex = history.length - 1;
+    trimHistory();
+    spillOldEntries();
 
-      // Add new state
-      history.push(entry);
-
-      // Limit history size - cache to IndexedDB when memory limit reached
-      if (history.length >= maxMemoryHistory) {
-        // Cache oldest entry to IndexedDB before removing
-        const entryToCache = history[0];
-        // Calculate the actual history index (before removal, index 0 is at historyIndex - (history.length - 1))
-        // After removal, all indices shift down by 1, so we need to track the original index
-        const cacheIndex = historyIndex - (history.length - 1); // Original index of entry at position 0
-        if (entryToCache && projectId) {
-          // Store entry before removal
-          const cachedEntryData = entryToCache;
-          // Create cache operation promise
-          const cachePromise = (async () => {
-            try {
-              // OPTIMIZATION (Item 7): Use worker for compression to avoid blocking main thread
-              let arrayBuffer: ArrayBuffer;
-              try {
-                // Try using history worker for compression (better for pixel art)
-                if (WorkerManager.isHistoryWorkerAvailable()) {
-                  arrayBuffer = await WorkerManager.compressImageDataAsync(
-                    cachedEntryData.imageData
-                  );
-                } else {
-                  // Fallback: use imageUtils if worker not available
-                  arrayBuffer = await imageDataToArrayBuffer(
-                    cachedEntryData.imageData,
-                    'image/png'
-                  );
-                }
-              } catch (workerError) {
-                // Fallback to imageUtils if worker fails
-                logger.warn('History worker compression failed, using fallback:', workerError);
-                arrayBuffer = await imageDataToArrayBuffer(cachedEntryData.imageData, 'image/png');
-              }
-
-              const savedId = await indexedDBStorage.saveHistoryEntry(
-                projectId,
-                cacheIndex,
-                arrayBuffer
-              );
-              // If saveHistoryEntry returns null, it means it failed gracefully
-              // In that case, don't remove from memory to prevent data loss
-              if (!savedId) {
-                logger.warn('History entry cache failed, keeping in memory');
-                // Remove from pending ops
-                pendingCacheOps.delete(cacheIndex);
-                return;
-              }
-              // Mark as cached and remove from memory only after successful cache
-              cachedEntries.add(cacheIndex);
-              // Only remove from memory if entry is still at position 0 (hasn't been accessed)
-              if (history.length > 0 && history[0] === cachedEntryData) {
-                history.shift();
-                historyIndex--;
-              }
-              // Remove from pending ops
-              pendingCacheOps.delete(cacheIndex);
-            } catch (error) {
-              logger.error('Failed to cache history entry:', error);
-              // Don't remove from memory if cache fails to prevent data loss
-              // Remove from pending ops
-              pendingCacheOps.delete(cacheIndex);
+    // Emit event for history change
+    EventEmitter.emit('history:save', { ...getEventData(), step: toStep(entry) });
+  }
+
+  /**
+   * Drop steps beyond the history depth, oldest first
+   * The current step is always kept, so redo states go when it is older than the rest
+   */
+  function trimHistory(): void {
+    const excess = Math.min(history.length - maxHistory, historyIndex);
+    if (excess > 0) {
+      history.splice(0, excess);
+      historyIndex -= excess;
+      // Nothing comes before the oldest step, so its changes are never applied
+      const oldest = history[0]!;
+      oldest.pixels = emptyDelta();
+      oldest.spilled = undefined;
+      releaseRecord(oldest);
+      oldest.layers = [];
+      oldest.activeLayer = undefined;
+      oldest.size = undefined;
+    }
+    if (history.length > maxHistory) {
+      if (branching) {
+        addBranch(history[maxHistory - 1]!, history.slice(maxHistory));
+      }
+      history.length = maxHistory;
+    }
+    pruneBranches();
+    releaseDroppedEntries();
+  }
+
+  /**
+   * Keep undone steps as a branch starting after a step
+   */
+  function addBranch(fork: HistoryEntry, entries: HistoryEntry[]): void {
+    if (entries.length === 0) return;
+    branches.push({ id: `branch-${nextBranchId++}`, fork, entries });
+    if (branches.length > MAX_BRANCHES) {
+      branches.shift();
+    }
+    pruneBranches();
+    EventEmitter.emit('history:branches', { branches: getBranches(), branching });
+  }
+
+  /**
+   * Drop branches that start after a step no longer kept anywhere
+   */
+  function pruneBranches(): void {
+    let pruned = true;
+    while (pruned) {
+      const kept = new Set([...history, ...branches.flatMap((branch) => branch.entries)]);
+      const remaining = branches.filter((branch) => kept.has(branch.fork));
+      pruned = remaining.length !== branches.length;
+      branches = remaining;
+    }
+  }
+
+  /**
+   * Steps of a suspended stack, including those on its branches
+   */
+  function getStackEntries(stack: HistoryStack): HistoryEntry[] {
+    return [...stack.entries, ...stack.branches.flatMap((branch) => branch.entries)];
+  }
+
+  /**
+   * Delete the IndexedDB records of steps no longer kept in history, on any branch or in
+   * a suspended stack
+   */
+  function releaseDroppedEntries(): void {
+    if (storedEntries.size === 0) return;
+    const kept = new Set([
+      ...history,
+      ...branches.flatMap((branch) => branch.entries),
+      ...[...suspendedStacks].flatMap(getStackEntries),
+    ]);
+    for (const entry of storedEntries) {
+      if (!kept.has(entry)) {
+        releaseRecord(entry);
+      }
+    }
+  }
+
+  function releaseRecord(entry: HistoryEntry): void {
+    storedEntries.delete(entry);
+    const id = entry.cacheId;
+    if (!id) return;
+    entry.cacheId = undefined;
+    indexedDBStorage
+      .deleteHistoryEntry(id)
+      .catch((error) => logger.warn('Failed to delete cached history entry:', error));
+  }
+
+  /**
+   * Move the tiles of steps outside the memory window to IndexedDB
+   * The newest steps stay in memory
+   */
+  function spillOldEntries(): void {
+    if (!projectId) return;
+    const memoryStart = Math.max(0, history.length - maxMemoryHistory);
+    // Steps on other branches or set aside are not in use either
+    const idle = [
+      ...history.slice(0, memoryStart),
+      ...branches.flatMap((branch) => branch.entries),
+      ...[...suspendedStacks].flatMap(getStackEntries),
+    ];
+    for (const entry of idle) {
+      if (!entry.pixels || entry.pixels.tiles.length === 0 || pendingCacheOps.has(entry)) {
+        continue;
+      }
+      const cachePromise = spillEntry(entry).finally(() => pendingCacheOps.delete(entry));
+      pendingCacheOps.set(entry, cachePromise);
+    }
+  }
+
+  /**
+   * Store an image uncompressed
+   * Layout: format byte, width and height (uint32 LE), pixel data
+   */
+  function encodeRawImage(imageData: ImageData): ArrayBuffer {
+    const buffer = new ArrayBuffer(9 + imageData.data.length);
+    const view = new DataView(buffer);
+    view.setUint8(0, RAW_FORMAT);
+    view.setUint32(1, imageData.width, true);
+    view.setUint32(5, imageData.height, true);
+    new Uint8ClampedArray(buffer, 9).set(imageData.data);
+    return buffer;
+  }
+
+  function decodeRawImage(buffer: ArrayBuffer): ImageData {
+    const view = new DataView(buffer);
+    const width = view.getUint32(1, true);
+    const height = view.getUint32(5, true);
+    return new ImageData(new Uint8ClampedArray(buffer.slice(9)), width, height);
+  }
+
+  /**
+   * Compress an image losslessly, with the history worker when it is available
+   */
+  async function compressImage(imageData: ImageData): Promise<ArrayBuffer> {
+    // OPTIMIZATION (Item 7): Use worker for compression to avoid blocking main thread
+    try {
+      if (WorkerManager.isHistoryWorkerAvailable()) {
+        // The worker takes over the pixel buffer, so it gets a copy
+        const copy = new ImageData(
+          new Uint8ClampedArray(imageData.data),
+          imageData.width,
+          imageData.height
+        );
+        return await WorkerManager.compressImageDataAsync(copy);
+      }
+    } catch (workerError) {
+      // Fall back to storing the pixels as they are
+      logger.warn('History worker compression failed, using fallback:', workerError);
+    }
+    return encodeRawImage(imageData);
+  }
+
+  /**
+   * Decode an image stored by compressImage
+   */
+  async function decompressImage(arrayBuffer: ArrayBuffer): Promise<ImageData> {
+    if (arrayBuffer.byteLength < 9) {
+      throw new Error('Cached history image is truncated');
+    }
+    if (new DataView(arrayBuffer).getUint8(0) === RAW_FORMAT) {
+      return decodeRawImage(arrayBuffer);
+    }
+    // Deflated images can only be inflated by the worker that made them
+    return WorkerManager.decompressImageDataAsync(arrayBuffer);
+  }
+
+  /**
+   * Join compressed images into one record
+   * Layout: format byte, image count (uint32), byte length of each image (uint32), images
+   */
+  function packBundle(buffers: ArrayBuffer[]): ArrayBuffer {
+    const headerSize = 5 + buffers.length * 4;
+    const size = buffers.reduce((total, buffer) => total + buffer.byteLength, headerSize);
+    const bundle = new Uint8Array(size);
+    const view = new DataView(bundle.buffer);
+    view.setUint8(0, BUNDLE_FORMAT);
+    view.setUint32(1, buffers.length);
+    let offset = headerSize;
+    buffers.forEach((buffer, i) => {
+      view.setUint32(5 + i * 4, buffer.byteLength);
+      bundle.set(new Uint8Array(buffer), offset);
+      offset += buffer.byteLength;
+    });
+    return bundle.buffer;
+  }
+
+  function unpackBundle(bundle: ArrayBuffer): ArrayBuffer[] {
+    const view = new DataView(bundle);
+    const count = view.getUint32(1);
+    const buffers: ArrayBuffer[] = [];
+    let offset = 5 + count * 4;
+    for (let i = 0; i < count; i++) {
+      const length = view.getUint32(5 + i * 4);
+      buffers.push(bundle.slice(offset, offset + length));
+      offset += length;
+    }
+    return buffers;
+  }
+
+  /**
+   * Save an entry's tiles to IndexedDB, then release them from memory unless the entry
+   * came back into use meanwhile
+   */
+  async function spillEntry(entry: HistoryEntry): Promise<void> {
+    const pixels = entry.pixels;
+    if (!pixels || !projectId) return;
+
+    try {
+      // Entries loaded back from IndexedDB are already stored
+      if (!entry.cacheId) {
+        const buffers: ArrayBuffer[] = [];
+        for (const tile of pixels.tiles) {
+          for (const image of [tile.before, tile.after]) {
+            if (image) {
+              buffers.push(await compressImage(image));
             }
-          })();
-          // Track pending operation
-          pendingCacheOps.set(cacheIndex, cachePromise);
+          }
+        }
+        const savedId = await indexedDBStorage.saveHistoryEntry(
+          projectId,
+          nextCacheIndex++,
+          packBundle(buffers)
+        );
+        // If saveHistoryEntry returns null, it means it failed gracefully
+        // In that case, don't remove from memory to prevent data loss
+        if (!savedId) {
+          logger.warn('History entry cache failed, keeping in memory');
+          return;
+        }
+        entry.cacheId = savedId;
+        storedEntries.add(entry);
+        // The step may have been dropped, or become the oldest, while it was stored
+        if (entry.pixels !== pixels) {
+          releaseRecord(entry);
         } else {
-          // If no projectId, just remove from memory (no caching)
-          history.shift();
-          historyIndex--;
+          releaseDroppedEntries();
         }
+        if (!entry.cacheId) return;
       }
 
-      // Also limit total history (including cached)
-      if (history.length > maxHistory) {
-        history.shift();
-        historyIndex--;
+      // Steps on other branches (position -1) are released too
+      const position = history.indexOf(entry);
+      if (
+        (position !== -1 && position >= history.length - maxMemoryHistory) ||
+        entry.pixels !== pixels
+      ) {
+        return;
       }
+      // Images are numbered in the order they were stored
+      let next = 0;
+      const place = (image: ImageData | null | undefined) =>
+        image === undefined || image === null ? image : next++;
+      entry.spilled = {
+        surfaces: pixels.surfaces,
+        tiles: pixels.tiles.map(({ before, after, ...tile }) => ({
+          ...tile,
+          before: place(before),
+          after: place(after),
+        })),
+      };
+      entry.pixels = null;
+    } catch (error) {
+      logger.error('Failed to cache history entry:', error);
+      // Don't remove from memory if cache fails to prevent data loss
+    }
+  }
 
-      historyIndex = history.length - 1;
+  /**
+   * Load a spilled entry's tiles back from IndexedDB
+   * @returns Whether the entry's tiles are in memory
+   */
+  async function loadCachedEntry(entry: HistoryEntry): Promise<boolean> {
+    if (entry.pixels) return true;
+    const spilled = entry.spilled;
+    if (!entry.cacheId || !spilled) return false;
 
-      // Emit event for history change
-      EventEmitter.emit('history:save', {
-        index: historyIndex,
-        length: history.length,
-        canUndo: canUndo(),
-        canRedo: canRedo(),
-      });
+    try {
+      const arrayBuffer = await indexedDBStorage.loadHistoryEntry(entry.cacheId);
+      if (!arrayBuffer) {
+        logger.warn(`Failed to load cached history entry "${entry.label}"`);
+        return false;
+      }
+
+      const images: ImageData[] = [];
+      for (const buffer of unpackBundle(arrayBuffer)) {
+        images.push(await decompressImage(buffer));
+      }
+      const take = (index: number | null | undefined) => {
+        if (index === undefined || index === null) return index;
+        const image = images[index];
+        if (!image) {
+          throw new Error('Cached history entry is missing tiles');
+        }
+        return image;
+      };
+
+      entry.pixels = {
+        surfaces: spilled.surfaces,
+        tiles: spilled.tiles.map(({ before, after, ...tile }) => ({
+          ...tile,
+          before: take(before),
+          after: take(after),
+        })),
+      };
+      entry.spilled = undefined;
+      return true;
+    } catch (error) {
+      logger.error(`Error loading cached history entry "${entry.label}":`, error);
+      return false;
+    }
+  }
+
+  function getSurfaceCanvas(surface: string): HTMLCanvasElement | null {
+    const { layerId, mask } = parseSurface(surface);
+    const layer = Layers.getLayer(layerId);
+    return (mask ? layer?.mask : layer?.canvas) ?? null;
+  }
+
+  // Copy of a region of an image
+  function cropImage(image: ImageData, region: TileChange): ImageData {
+    const crop = new ImageData(region.width, region.height);
+    for (let row = 0; row < region.height; row++) {
+      const start = ((region.y + row) * image.width + region.x) * 4;
+      crop.data.set(image.data.subarray(start, start + region.width * 4), row * region.width * 4);
+    }
+    return crop;
+  }
+
+  /**
+   * Copy tiles of a surface (or all of it) from the baseline to the document
+   */
+  function writeSurface(surface: string, image: ImageData, tiles: TileChange[] | null): void {
+    if (surface === CANVAS_SURFACE) {
+      // Putting the baseline's pixels back is no change to report; earlier reports still are
+      const reported = Canvas.takeHistoryRegions();
+      if (!tiles) {
+        Canvas.putImageData(image);
+      } else {
+        for (const tile of tiles) {
+          Canvas.putImageData(cropImage(image, tile), tile.x, tile.y);
+        }
+      }
+      Canvas.takeHistoryRegions();
+      for (const region of reported) {
+        Canvas.markChangedRegion(region.x, region.y, region.width, region.height);
+      }
+      return;
+    }
+
+    const canvas = getSurfaceCanvas(surface);
+    if (!canvas) return;
+    if (canvas.width !== image.width || canvas.height !== image.height) {
+      logger.warn(`History surface "${surface}" does not match its canvas size, skipping`);
+      return;
+    }
+    const ctx = Layers.getCachedContext(canvas);
+    if (!ctx) {
+      throw new Error('Canvas context not available');
+    }
+    if (!tiles) {
+      ctx.putImageData(image, 0, 0);
+      return;
+    }
+    for (const tile of tiles) {
+      ctx.putImageData(image, 0, 0, tile.x, tile.y, tile.width, tile.height);
+    }
+  }
+
+  /**
+   * Move the document one step through an entry, keeping the baseline in step with it
+   */
+  function applyEntry(entry: HistoryEntry, direction: HistoryDirection): void {
+    const state = baseline;
+    const pixels = entry.pixels;
+    if (!state || !pixels) {
+      throw new Error('History entry is not loaded');
+    }
+    const side = direction === 'undo' ? 'before' : 'after';
+
+    // Image Size, Canvas Size and Trim change the document size
+    if (entry.size) {
+      state.size = entry.size[side];
+      Canvas.resize(state.size.width, state.size.height);
+    }
+    for (const change of entry.tracked ?? []) {
+      const value = change[side];
+      state.tracked.set(change.key, value);
+      trackedStates.get(change.key)?.write(value);
+    }
+    if (useLayers && (entry.layers.length > 0 || entry.activeLayer)) {
+      state.layers = applyLayerCommands(state.layers, entry.layers, direction);
+      if (entry.activeLayer) {
+        state.activeLayerId = entry.activeLayer[side];
+      }
+      Layers._restoreLayerList(state.layers, state.activeLayerId);
+    }
+
+    const touched = applyPixelDelta(state.surfaces, pixels, direction);
+    const rebuilt = new Set(pixels.surfaces.map((change) => change.surface));
+    for (const surface of touched) {
+      const image = state.surfaces.get(surface);
+      if (!image) continue;
+      const tiles = rebuilt.has(surface)
+        ? null
+        : pixels.tiles.filter((tile) => tile.surface === surface && tile[side] !== undefined);
+      writeSurface(surface, image, tiles);
+    }
+  }
+
+  /**
+   * Save current canvas state to history (internal, bypasses transaction grouping)
+   * OPTIMIZED: Defers expensive getImageData operation to avoid blocking main thread
+   */
+  function saveInternal(label?: string): void {
+    // OPTIMIZATION (Item 2): Defer expensive getImageData() call using requestIdleCallback
+    // This prevents blocking the main thread during drawing operations
+    const performSave = () => {
+      EventEmitter.emit('history:capture', getEventData());
+      const entry = captureEntry(label);
+      if (entry) {
+        pushEntry(entry);
+      }
     };
 
     // Use requestIdleCallback if available for better performance, otherwise use setTimeout
@@ -207,11 +985,12 @@ const History = (function () {
   /**
    * Save current canvas state to history with transaction grouping
    * Groups rapid consecutive actions (e.g., drawing strokes) into single undo units
+   * @param label - Name shown in the History panel; defaults to the current tool's name
    */
-  function save(): void {
+  function save(label?: string): void {
     // In test mode, save immediately without grouping
     if (testMode) {
-      saveInternal();
+      saveInternal(label);
       return;
     }
 
@@ -223,7 +1002,7 @@ const History = (function () {
 
     // Create a new save operation
     pendingSave = () => {
-      saveInternal();
+      saveInternal(label);
       pendingSave = null;
     };
 
@@ -249,8 +1028,9 @@ const History = (function () {
    * Force immediate save (bypasses transaction grouping)
    * Use when you need to ensure a history point is saved immediately
    * Ensures layers are rendered to main canvas before capturing state
+   * @param label - Name shown in the History panel; defaults to the current tool's name
    */
-  async function saveImmediate(): Promise<void> {
+  async function saveImmediate(label?: string): Promise<void> {
     // Clear grouping timer and pending save
     if (transactionGroupingTimer) {
       clearTimeout(transactionGroupingTimer);
@@ -258,115 +1038,19 @@ const History = (function () {
     }
     pendingSave = null;
 
+    // Listeners finish their edits (e.g. snapping pixels to an indexed palette) first
+    EventEmitter.emit('history:capture', getEventData());
+
     // If layers are enabled, ensure main canvas is updated before capturing state
     if (useLayers) {
       await Layers.renderSync();
     }
 
     // Save immediately (synchronously, no requestIdleCallback)
-    let imageData: ImageData;
-    try {
-      imageData = Canvas.getImageData();
-    } catch (error) {
-      logger.error('Failed to get canvas image data for history:', error);
-      // Don't save history if canvas data unavailable
-      return;
-    }
-    const entry: HistoryEntry = { imageData };
-
-    // If layers are enabled, also save layer state
-    if (useLayers) {
-      entry.layerState = Layers._createLayerSnapshot();
-    }
-
-    // Remove any redo states
-    history = history.slice(0, historyIndex + 1);
-
-    // Add new state
-    history.push(entry);
-
-    // Limit history size - cache to IndexedDB when memory limit reached
-    if (history.length >= maxMemoryHistory) {
-      // Cache oldest entry to IndexedDB before removing
-      const entryToCache = history[0];
-      // Calculate the actual history index (before removal, index 0 is at historyIndex - (history.length - 1))
-      // After removal, all indices shift down by 1, so we need to track the original index
-      const cacheIndex = historyIndex - (history.length - 1); // Original index of entry at position 0
-      if (entryToCache && projectId) {
-        // Store entry before removal
-        const cachedEntryData = entryToCache;
-        // Create cache operation promise (don't await - fire and forget for performance)
-        const cachePromise = (async () => {
-          try {
-            // OPTIMIZATION (Item 7): Use worker for compression to avoid blocking main thread
-            let arrayBuffer: ArrayBuffer;
-            try {
-              // Try using history worker for compression (better for pixel art)
-              if (WorkerManager.isHistoryWorkerAvailable()) {
-                arrayBuffer = await WorkerManager.compressImageDataAsync(cachedEntryData.imageData);
-              } else {
-                // Fallback: use imageUtils if worker not available
-                arrayBuffer = await imageDataToArrayBuffer(cachedEntryData.imageData, 'image/png');
-              }
-            } catch (workerError) {
-              // Fallback to imageUtils if worker fails
-              logger.warn('History worker compression failed, using fallback:', workerError);
-              arrayBuffer = await imageDataToArrayBuffer(cachedEntryData.imageData, 'image/png');
-            }
-
-            const savedId = await indexedDBStorage.saveHistoryEntry(
-              projectId,
-              cacheIndex,
-              arrayBuffer
-            );
-            // If saveHistoryEntry returns null, it means it failed gracefully
-            // In that case, don't remove from memory to prevent data loss
-            if (!savedId) {
-              logger.warn('History entry cache failed, keeping in memory');
-              // Remove from pending ops
-              pendingCacheOps.delete(cacheIndex);
-              return;
-            }
-            // Mark as cached and remove from memory only after successful cache
-            cachedEntries.add(cacheIndex);
-            // Only remove from memory if entry is still at position 0 (hasn't been accessed)
-            if (history.length > 0 && history[0] === cachedEntryData) {
-              history.shift();
-              historyIndex--;
-            }
-            // Remove from pending ops
-            pendingCacheOps.delete(cacheIndex);
-          } catch (error) {
-            logger.error('Failed to cache history entry:', error);
-            // Don't remove from memory if cache fails to prevent data loss
-            // Remove from pending ops
-            pendingCacheOps.delete(cacheIndex);
-          }
-        })();
-        // Track pending operation
-        pendingCacheOps.set(cacheIndex, cachePromise);
-      } else {
-        // If no projectId, just remove from memory (no caching)
-        history.shift();
-        historyIndex--;
-      }
-    }
-
-    // Also limit total history (including cached)
-    if (history.length > maxHistory) {
-      history.shift();
-      historyIndex--;
+    const entry = captureEntry(label);
+    if (entry) {
+      pushEntry(entry);
     }
-
-    historyIndex = history.length - 1;
-
-    // Emit event for history change
-    EventEmitter.emit('history:save', {
-      index: historyIndex,
-      length: history.length,
-      canUndo: canUndo(),
-      canRedo: canRedo(),
-    });
   }
 
   /**
@@ -381,140 +1065,59 @@ const History = (function () {
 
     // If layers are enabled, ensure main canvas is updated before capturing state
     if (useLayers) {
-      await Layers.renderSync();
-    }
-
-    // Save immediately (synchronously, no requestIdleCallback)
-    let imageData: ImageData;
-    try {
-      imageData = Canvas.getImageData();
-    } catch (error) {
-      logger.error('Failed to get canvas image data for initial history state:', error);
-      // Don't save history if canvas data unavailable
-      return;
-    }
-    const entry: HistoryEntry = { imageData };
-
-    // If layers are enabled, also save layer state
-    if (useLayers) {
-      entry.layerState = Layers._createLayerSnapshot();
-    }
-
-    // Initialize history with initial state
-    history = [entry];
-    historyIndex = 0;
-
-    // Emit event for history change
-    EventEmitter.emit('history:save', {
-      index: historyIndex,
-      length: history.length,
-      canUndo: canUndo(),
-      canRedo: canRedo(),
-    });
-  }
-
-  /**
-   * Load history entry from IndexedDB if cached
-   */
-  async function loadCachedEntry(targetIndex: number): Promise<HistoryEntry | null> {
-    if (!projectId || !cachedEntries.has(targetIndex)) {
-      return null;
-    }
-
-    try {
-      const arrayBuffer = await indexedDBStorage.loadHistoryEntryByIndex(projectId, targetIndex);
-      if (!arrayBuffer) {
-        logger.warn(`Failed to load cached history entry at index ${targetIndex}`);
-        return null;
-      }
+      await Layers.renderSync();
+    }
 
-      // OPTIMIZATION (Item 7): Try using history worker for decompression first
-      let imageData: ImageData;
-      try {
-        // Check if data is compressed (has format marker) or is PNG blob
-        if (arrayBuffer.byteLength >= 9) {
-          const view = new DataView(arrayBuffer);
-          const format = view.getUint8(0);
-          // Format 0 or 1 means our compressed format
-          if (format === 0 || format === 1) {
-            try {
-              // Try using history worker for decompression
-              if (WorkerManager.isHistoryWorkerAvailable()) {
-                imageData = await WorkerManager.decompressImageDataAsync(arrayBuffer);
-              } else {
-                // Fallback to image loading if worker not available
-                throw new Error('History worker not available');
-              }
-            } catch (decompressError) {
-              // Fallback to image loading if decompression fails
-              logger.warn('History worker decompression failed, using fallback:', decompressError);
-              const blob = new Blob([arrayBuffer], { type: 'image/png' });
-              imageData = await blobToImageData(blob);
-            }
-          } else {
-            // Not our format, use image loading
-            const blob = new Blob([arrayBuffer], { type: 'image/png' });
-            imageData = await blobToImageData(blob);
-          }
-        } else {
-          // Invalid buffer, try as PNG blob
-          const blob = new Blob([arrayBuffer], { type: 'image/png' });
-          imageData = await blobToImageData(blob);
-        }
-      } catch (workerError) {
-        // Fallback: load as image (for PNG blobs from old format or worker unavailable)
-        logger.warn('History decompression failed, using image fallback:', workerError);
-        const blob = new Blob([arrayBuffer], { type: 'image/png' });
-        imageData = await blobToImageData(blob);
-      }
+    // The initial state is the baseline for the first change, not a change itself
+    baseline = null;
+    const entry = captureEntry('Initial State');
+    if (!entry) return;
 
-      const entry: HistoryEntry = { imageData };
-      if (useLayers) {
-        // Note: Layer state is not cached in current implementation
-        // This would need to be enhanced to cache layer state as well
-      }
+    // Initialize history with initial state
+    history = [entry];
+    historyIndex = 0;
+    branches = [];
+    releaseDroppedEntries();
 
-      return entry;
-    } catch (error) {
-      logger.error(`Error loading cached history entry at index ${targetIndex}:`, error);
-      return null;
-    }
+    // Emit event for history change
+    EventEmitter.emit('history:save', { ...getEventData(), step: toStep(entry) });
   }
 
   /**
-   * Undo the last action
+   * Bring the document to a step by undoing or redoing every step in between, loading
+   * their tiles from IndexedDB when they were spilled
    */
-  async function undoAsync(): Promise<boolean> {
-    if (historyIndex > 0) {
-      const targetIndex = historyIndex - 1;
+  async function restoreStep(
+    targetIndex: number,
+    eventName: 'history:undo' | 'history:redo'
+  ): Promise<boolean> {
+    if (!history[targetIndex]) {
+      // Entry doesn't exist
+      logger.error('History entry not found at index:', targetIndex);
+      EventEmitter.emit('history:error', {
+        message: 'History entry not available. It may have been cleared.',
+        index: targetIndex,
+      });
+      return false;
+    }
 
+    const direction: HistoryDirection = targetIndex < historyIndex ? 'undo' : 'redo';
+    // Undoing a step reverts its own changes; redoing one applies them
+    const path =
+      direction === 'undo'
+        ? history.slice(targetIndex + 1, historyIndex + 1).reverse()
+        : history.slice(historyIndex + 1, targetIndex + 1);
+    const entries = history;
+    const startIndex = historyIndex;
+
+    for (const entry of path) {
       // Check if we need to wait for pending cache operations
-      const pendingOp = pendingCacheOps.get(targetIndex);
+      const pendingOp = pendingCacheOps.get(entry);
       if (pendingOp) {
         await pendingOp;
       }
-
-      // Validate index before accessing
-      if (targetIndex < 0 || targetIndex >= history.length) {
-        logger.error('History index out of bounds in undo:', targetIndex, history.length);
-        return false;
-      }
-
-      let entry = history[targetIndex];
-
-      // If entry not in memory, try loading from cache
-      if (!entry && cachedEntries.has(targetIndex)) {
-        const loadedEntry = await loadCachedEntry(targetIndex);
-        if (loadedEntry) {
-          entry = loadedEntry;
-          // Restore entry to memory for faster future access
-          history[targetIndex] = entry;
-          // Optionally, we could unmark as cached, but keeping it cached is fine
-        }
-      }
-
-      if (!entry) {
-        logger.error('History entry is null at index:', targetIndex);
+      if (!(await loadCachedEntry(entry))) {
+        logger.error('History entry could not be loaded:', history.indexOf(entry));
         // Show user-friendly error message
         EventEmitter.emit('history:error', {
           message: 'Unable to load history entry. The entry may have been lost.',
@@ -522,40 +1125,44 @@ const History = (function () {
         });
         return false;
       }
+    }
+    // Another save or jump while loading leaves the walk out of date
+    if (history !== entries || historyIndex !== startIndex || !baseline) {
+      logger.warn('History changed while restoring a step, ignoring it');
+      return false;
+    }
 
-      historyIndex = targetIndex;
-
-      // Validate layer state before restoration
-      if (useLayers && entry.layerState) {
-        if (!entry.layerState.layers || !Array.isArray(entry.layerState.layers)) {
-          logger.error('Invalid layer state in undoAsync entry, falling back to image data');
-          Canvas.putImageData(entry.imageData);
-        } else {
-          try {
-            Layers._restoreLayersFromState(entry.layerState);
-            // Wait for rendering to complete before emitting event
-            await Layers.renderSync();
-          } catch (error) {
-            logger.error('Failed to restore layer state in undoAsync:', error);
-            // Fall back to image data restoration
-            Canvas.putImageData(entry.imageData);
-          }
-        }
-      } else {
-        Canvas.putImageData(entry.imageData);
+    try {
+      for (const entry of path) {
+        applyEntry(entry, direction);
+        historyIndex = history.indexOf(entry) - (direction === 'undo' ? 1 : 0);
       }
-
-      // Emit event for history change after rendering completes
-      EventEmitter.emit('history:undo', {
-        index: historyIndex,
-        length: history.length,
-        canUndo: canUndo(),
-        canRedo: canRedo(),
+    } catch (error) {
+      logger.error('Failed to restore history step:', error);
+      // The baseline may be partly moved on, so read the document again
+      try {
+        baseline = captureState();
+      } catch {
+        baseline = null;
+      }
+      EventEmitter.emit('history:error', {
+        message: 'Unable to restore history step.',
+        index: targetIndex,
       });
-
-      return true;
+      return false;
+    } finally {
+      if (useLayers) {
+        // Wait for rendering to complete before emitting event
+        await Layers.renderSync();
+      }
     }
-    return false;
+
+    // Steps left outside the memory window go back to IndexedDB
+    spillOldEntries();
+
+    // Emit event for history change after rendering completes
+    EventEmitter.emit(eventName, getEventData());
+    return true;
   }
 
   /**
@@ -575,208 +1182,284 @@ const History = (function () {
     }
 
     // Validate history index bounds
-    if (historyIndex < 0 || historyIndex >= history.length) {
+    if (historyIndex >= history.length) {
       logger.error('Invalid history index in undo:', historyIndex, history.length);
       // Reset to valid state
       historyIndex = history.length > 0 ? history.length - 1 : -1;
       return false;
     }
 
-    const targetIndex = historyIndex - 1;
+    return restoreStep(historyIndex - 1, 'history:undo');
+  }
+
+  /**
+   * Redo the last undone action
+   * Now async to ensure rendering completes before returning
+   */
+  async function redo(): Promise<boolean> {
+    // Validate history state before redo
+    if (!isInitializedFlag) {
+      logger.error('History not initialized, cannot redo');
+      return false;
+    }
+
+    if (historyIndex >= history.length - 1) {
+      // Nothing to redo
+      return false;
+    }
 
-    // Validate target index
-    if (targetIndex < 0 || targetIndex >= history.length) {
-      logger.error('Invalid target index in undo:', targetIndex, history.length);
+    // Validate history index bounds
+    if (historyIndex < -1) {
+      logger.error('Invalid history index in redo:', historyIndex, history.length);
+      // Reset to valid state
+      historyIndex = history.length > 0 ? history.length - 1 : -1;
       return false;
     }
 
-    const entry = history[targetIndex];
+    return restoreStep(historyIndex + 1, 'history:redo');
+  }
 
-    if (entry) {
-      // Entry is in memory, restore immediately
-      historyIndex = targetIndex;
-
-      // Validate layer state before restoration
-      if (useLayers && entry.layerState) {
-        if (!entry.layerState.layers || !Array.isArray(entry.layerState.layers)) {
-          logger.error('Invalid layer state in undo entry, falling back to image data');
-          Canvas.putImageData(entry.imageData);
-        } else {
-          try {
-            Layers._restoreLayersFromState(entry.layerState);
-            // Wait for rendering to complete
-            await Layers.renderSync();
-          } catch (error) {
-            logger.error('Failed to restore layer state in undo:', error);
-            // Fall back to image data restoration
-            Canvas.putImageData(entry.imageData);
-          }
-        }
-      } else {
-        Canvas.putImageData(entry.imageData);
-      }
-      EventEmitter.emit('history:undo', {
-        index: historyIndex,
-        length: history.length,
-        canUndo: canUndo(),
-        canRedo: canRedo(),
-      });
-      return true;
-    } else if (cachedEntries.has(targetIndex)) {
-      // Entry is cached, load asynchronously
-      return await undoAsync();
-    } else {
-      // Entry doesn't exist
-      logger.error('History entry not found at index:', targetIndex);
-      EventEmitter.emit('history:error', {
-        message: 'History entry not available. It may have been cleared.',
-        index: targetIndex,
-      });
+  /**
+   * Jump straight to a step, as if undoing or redoing up to it
+   * Emits history:undo for earlier steps and history:redo for later ones
+   */
+  async function goTo(index: number): Promise<boolean> {
+    if (!isInitializedFlag) {
+      logger.error('History not initialized, cannot jump to a step');
+      return false;
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= history.length) {
+      logger.error('Invalid history step:', index, history.length);
+      return false;
+    }
+    if (index === historyIndex) {
       return false;
     }
+    return restoreStep(index, index < historyIndex ? 'history:undo' : 'history:redo');
   }
 
   /**
-   * Redo the last undone action
+   * Steps from oldest to newest, for the History panel
    */
-  async function redoAsync(): Promise<boolean> {
-    if (historyIndex < history.length - 1) {
-      const targetIndex = historyIndex + 1;
+  function getSteps(): HistoryStep[] {
+    return history.map(toStep);
+  }
 
-      // Check if we need to wait for pending cache operations
-      const pendingOp = pendingCacheOps.get(targetIndex);
-      if (pendingOp) {
-        await pendingOp;
-      }
+  function applyDepth(depth: number): void {
+    maxHistory = Math.max(MIN_HISTORY_DEPTH, Math.min(MAX_HISTORY_DEPTH, Math.round(depth)));
+    trimHistory();
+    spillOldEntries();
+    EventEmitter.emit('history:depth', { ...getEventData(), depth: maxHistory });
+  }
 
-      // Validate index before accessing
-      if (targetIndex < 0 || targetIndex >= history.length) {
-        logger.error('History index out of bounds in redo:', targetIndex, history.length);
-        return false;
-      }
+  /**
+   * Change how many steps are kept (5-200) and remember it for later sessions
+   * Only the newest steps stay in memory; the others are kept in IndexedDB
+   */
+  async function setMaxHistory(depth: number): Promise<void> {
+    if (!Number.isFinite(depth)) {
+      throw new Error('History depth must be a number');
+    }
+    applyDepth(depth);
+    await indexedDBStorage.saveSetting(DEPTH_SETTING_KEY, maxHistory);
+  }
 
-      let entry = history[targetIndex];
+  function getMaxHistory(): number {
+    return maxHistory;
+  }
 
-      // If entry not in memory, try loading from cache
-      if (!entry && cachedEntries.has(targetIndex)) {
-        const loadedEntry = await loadCachedEntry(targetIndex);
-        if (loadedEntry) {
-          entry = loadedEntry;
-          // Restore entry to memory for faster future access
-          history[targetIndex] = entry;
-        }
-      }
+  /**
+   * Branches of undone steps, for the History panel
+   */
+  function getBranches(): HistoryBranch[] {
+    return branches.map((branch) => ({
+      id: branch.id,
+      forkIndex: history.indexOf(branch.fork),
+      steps: branch.entries.map(toStep),
+    }));
+  }
 
-      if (!entry) {
-        logger.error('History entry is null at index:', targetIndex);
-        // Show user-friendly error message
-        EventEmitter.emit('history:error', {
-          message: 'Unable to load history entry. The entry may have been lost.',
-          index: targetIndex,
-        });
+  /**
+   * Turn branching mode on or off and remember it for later sessions
+   * Turning it off drops the branches kept so far
+   */
+  async function setBranching(enabled: boolean): Promise<void> {
+    branching = enabled;
+    if (!enabled) {
+      branches = [];
+      releaseDroppedEntries();
+    }
+    EventEmitter.emit('history:branches', { branches: getBranches(), branching });
+    await indexedDBStorage.saveSetting(BRANCHING_SETTING_KEY, enabled);
+  }
+
+  function isBranching(): boolean {
+    return branching;
+  }
+
+  /**
+   * Switch to a branch: go back to the step it starts after and redo its steps
+   * The steps after that step become a branch in its place
+   */
+  async function switchBranch(id: string): Promise<boolean> {
+    const branch = branches.find((candidate) => candidate.id === id);
+    if (!branch) {
+      throw new Error('History branch not found');
+    }
+    const forkIndex = history.indexOf(branch.fork);
+    if (forkIndex === -1) {
+      throw new Error('Switch to the branch this one starts from first');
+    }
+
+    if (forkIndex !== historyIndex) {
+      const eventName = forkIndex < historyIndex ? 'history:undo' : 'history:redo';
+      if (!(await restoreStep(forkIndex, eventName))) {
         return false;
       }
+    }
+    // Restoring may have waited on IndexedDB, so look the branch up again
+    if (!branches.includes(branch) || history[historyIndex] !== branch.fork) {
+      return false;
+    }
 
-      historyIndex = targetIndex;
+    const current = history.slice(historyIndex + 1);
+    branches = branches.filter((candidate) => candidate !== branch);
+    if (current.length > 0) {
+      branches.push({ id: branch.id, fork: branch.fork, entries: current });
+    }
+    history = [...history.slice(0, historyIndex + 1), ...branch.entries];
+    trimHistory();
+    EventEmitter.emit('history:branches', { branches: getBranches(), branching });
+    return restoreStep(history.length - 1, 'history:redo');
+  }
 
-      // Restore layer state if available
-      if (useLayers && entry.layerState) {
-        Layers._restoreLayersFromState(entry.layerState);
-        // Wait for rendering to complete before emitting event
-        await Layers.renderSync();
-      } else {
-        Canvas.putImageData(entry.imageData);
-      }
+  function getSnapshots(): HistorySnapshot[] {
+    return [...snapshotRecords].map(([id, record]) => ({
+      id,
+      name: record.name,
+      timestamp: record.timestamp,
+      thumbnail: record.thumbnail,
+    }));
+  }
 
-      // Emit event for history change after rendering completes
-      EventEmitter.emit('history:redo', {
-        index: historyIndex,
-        length: history.length,
-        canUndo: canUndo(),
-        canRedo: canRedo(),
-      });
+  /**
+   * Save the whole document as a named snapshot in IndexedDB
+   */
+  async function takeSnapshot(name: string): Promise<HistorySnapshot> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Snapshot name cannot be empty');
+    }
+    if (!isInitializedFlag || !projectId) {
+      throw new Error('History not initialized');
+    }
 
-      return true;
+    if (useLayers) {
+      await Layers.renderSync();
+    }
+    const state = captureState();
+    const buffers: ArrayBuffer[] = [];
+    for (const image of state.surfaces.values()) {
+      buffers.push(await compressImage(image));
+    }
+    const record: SnapshotRecord = {
+      name: trimmed,
+      timestamp: Date.now(),
+      thumbnail: createThumbnail(),
+      layered: useLayers,
+      size: state.size,
+      layers: state.layers,
+      activeLayerId: state.activeLayerId,
+      surfaces: [...state.surfaces.keys()],
+    };
+    const id = await indexedDBStorage.saveHistorySnapshot(projectId, record, packBundle(buffers));
+    if (!id) {
+      throw new Error('Failed to save snapshot. Browser storage may be unavailable.');
     }
-    return false;
+
+    snapshotRecords.set(id, record);
+    EventEmitter.emit('history:snapshots', { snapshots: getSnapshots() });
+    return getSnapshots().find((snapshot) => snapshot.id === id)!;
   }
 
   /**
-   * Redo the last undone action
-   * Now async to ensure rendering completes before returning
+   * Bring the document back to a snapshot, as a new step that can be undone
    */
-  async function redo(): Promise<boolean> {
-    // Validate history state before redo
-    if (!isInitializedFlag) {
-      logger.error('History not initialized, cannot redo');
-      return false;
+  async function restoreSnapshot(id: string): Promise<void> {
+    const record = snapshotRecords.get(id);
+    if (!record) {
+      throw new Error('Snapshot not found');
     }
-
-    if (historyIndex >= history.length - 1) {
-      // Nothing to redo
-      return false;
+    if (record.layered !== useLayers) {
+      throw new Error('Snapshot was taken with layers turned ' + (record.layered ? 'on' : 'off'));
     }
 
-    // Validate history index bounds
-    if (historyIndex < -1 || historyIndex >= history.length) {
-      logger.error('Invalid history index in redo:', historyIndex, history.length);
-      // Reset to valid state
-      historyIndex = history.length > 0 ? history.length - 1 : -1;
-      return false;
+    const bundle = await indexedDBStorage.loadHistoryEntry(id);
+    if (!bundle) {
+      throw new Error('Snapshot pixels could not be loaded from browser storage');
+    }
+    const buffers = unpackBundle(bundle);
+    if (buffers.length !== record.surfaces.length) {
+      throw new Error('Snapshot is missing pixels');
+    }
+    const surfaces = new Map<string, ImageData>();
+    for (let i = 0; i < buffers.length; i++) {
+      surfaces.set(record.surfaces[i]!, await decompressImage(buffers[i]!));
     }
 
-    const targetIndex = historyIndex + 1;
+    // Edits still waiting to be grouped become their own step first
+    if (pendingSave) {
+      await saveImmediate();
+    }
+    if (!baseline) {
+      throw new Error('History not initialized');
+    }
+    const target: DocumentState = {
+      size: record.size,
+      layers: record.layers,
+      activeLayerId: record.activeLayerId,
+      surfaces,
+      // Snapshots do not keep tracked states, so restoring one leaves them as they are
+      tracked: baseline.tracked,
+    };
+    const entry = createEntry(`Snapshot: ${record.name}`, baseline, target);
+    applyEntry(entry, 'redo');
+    if (useLayers) {
+      await Layers.renderSync();
+    }
+    entry.thumbnail = createThumbnail();
+    pushEntry(entry);
+  }
 
-    // Validate target index
-    if (targetIndex < 0 || targetIndex >= history.length) {
-      logger.error('Invalid target index in redo:', targetIndex, history.length);
-      return false;
+  /**
+   * Delete a snapshot from IndexedDB
+   */
+  async function deleteSnapshot(id: string): Promise<void> {
+    if (!snapshotRecords.has(id)) {
+      throw new Error('Snapshot not found');
     }
+    await indexedDBStorage.deleteHistoryEntry(id);
+    snapshotRecords.delete(id);
+    EventEmitter.emit('history:snapshots', { snapshots: getSnapshots() });
+  }
 
-    const entry = history[targetIndex];
+  /**
+   * Project whose IndexedDB records (spilled steps and snapshots) history uses
+   */
+  function getProjectId(): string | null {
+    return projectId;
+  }
 
-    if (entry) {
-      // Entry is in memory, restore immediately
-      historyIndex = targetIndex;
-
-      // Validate layer state before restoration
-      if (useLayers && entry.layerState) {
-        if (!entry.layerState.layers || !Array.isArray(entry.layerState.layers)) {
-          logger.error('Invalid layer state in redo entry, falling back to image data');
-          Canvas.putImageData(entry.imageData);
-        } else {
-          try {
-            Layers._restoreLayersFromState(entry.layerState);
-            // Wait for rendering to complete
-            await Layers.renderSync();
-          } catch (error) {
-            logger.error('Failed to restore layer state in redo:', error);
-            // Fall back to image data restoration
-            Canvas.putImageData(entry.imageData);
-          }
-        }
-      } else {
-        Canvas.putImageData(entry.imageData);
-      }
-      EventEmitter.emit('history:redo', {
-        index: historyIndex,
-        length: history.length,
-        canUndo: canUndo(),
-        canRedo: canRedo(),
-      });
-      return true;
-    } else if (cachedEntries.has(targetIndex)) {
-      // Entry is cached, load asynchronously
-      return await redoAsync();
-    } else {
-      // Entry doesn't exist
-      logger.error('History entry not found at index:', targetIndex);
-      EventEmitter.emit('history:error', {
-        message: 'History entry not available. It may have been cleared.',
-        index: targetIndex,
-      });
-      return false;
-    }
+  /**
+   * Switch to another project's records, e.g. after opening it from the project gallery
+   * Steps already spilled keep their records; the new project's snapshots are loaded
+   */
+  function setProjectId(id: string): void {
+    if (id === projectId) return;
+    projectId = id;
+    snapshotRecords.clear();
+    EventEmitter.emit('history:snapshots', { snapshots: getSnapshots() });
+    loadSnapshots(id).catch((error) => logger.warn('Failed to load history snapshots:', error));
   }
 
   /**
@@ -807,19 +1490,100 @@ const History = (function () {
   }
 
   /**
-   * Clear all history
+   * Clear all history, including suspended steps
    */
   function clear(): void {
     history = [];
     historyIndex = -1;
-    cachedEntries.clear();
+    baseline = null;
+    branches = [];
+    suspendedStacks.clear();
+    releaseDroppedEntries();
     pendingCacheOps.clear();
-    EventEmitter.emit('history:clear', {
+    EventEmitter.emit('history:clear', getEventData());
+  }
+
+  /**
+   * Set the steps aside, e.g. while another animation frame is edited; history stays
+   * empty until resume() or saveInitialState()
+   * Edits still waiting to be grouped become their own step first
+   * @returns The steps, or null when there are none
+   */
+  async function suspend(): Promise<HistoryStack | null> {
+    if (!isInitializedFlag) return null;
+    if (pendingSave) {
+      await saveImmediate();
+    }
+    if (!baseline || history.length === 0) {
+      return null;
+    }
+
+    const stack: HistoryStack = {
+      entries: history,
       index: historyIndex,
-      length: history.length,
-      canUndo: canUndo(),
-      canRedo: canRedo(),
-    });
+      branches,
+      size: baseline.size,
+      surfaces: [...baseline.surfaces.keys()],
+    };
+    suspendedStacks.add(stack);
+    history = [];
+    historyIndex = -1;
+    baseline = null;
+    branches = [];
+    spillOldEntries();
+    return stack;
+  }
+
+  /**
+   * Make suspended steps current again
+   * History starts over from the document instead when the stack is null, or when layers
+   * or masks were added or removed or the document was resized since it was set aside
+   */
+  async function resume(stack: HistoryStack | null): Promise<void> {
+    if (!isInitializedFlag) return;
+    if (stack) {
+      suspendedStacks.delete(stack);
+    }
+    const surfaces = listSurfaces();
+    if (
+      !stack ||
+      stack.size.width !== Canvas.getWidth() ||
+      stack.size.height !== Canvas.getHeight() ||
+      stack.surfaces.length !== surfaces.length ||
+      stack.surfaces.some((surface, i) => surface !== surfaces[i])
+    ) {
+      await saveInitialState();
+      return;
+    }
+
+    if (useLayers) {
+      await Layers.renderSync();
+    }
+    try {
+      baseline = captureState();
+    } catch (error) {
+      logger.error('Failed to read the document for history:', error);
+      await saveInitialState();
+      return;
+    }
+    // Loading the document is not a change to save
+    Canvas.takeHistoryRegions();
+    history = stack.entries;
+    historyIndex = stack.index;
+    branches = stack.branches;
+    trimHistory();
+    spillOldEntries();
+    EventEmitter.emit('history:resume', getEventData());
+    EventEmitter.emit('history:branches', { branches: getBranches(), branching });
+  }
+
+  /**
+   * Delete the IndexedDB records of suspended steps that will not be resumed
+   */
+  function discard(stack: HistoryStack | null): void {
+    if (stack && suspendedStacks.delete(stack)) {
+      releaseDroppedEntries();
+    }
   }
 
   /**
@@ -836,11 +1600,31 @@ const History = (function () {
     return history.length;
   }
 
+  /**
+   * Record another module's document state with every step
+   * Steps saved before it is tracked do not change it when undone
+   * @param key - Name the state is recorded under
+   */
+  function trackState(key: string, state: TrackedState): void {
+    trackedStates.set(key, state);
+    baseline?.tracked.set(key, state.read());
+  }
+
   /**
    * Set whether to use layers in history
+   * The baseline is read again so the next step compares like with like
    */
   function setLayersEnabled(enabled: boolean): void {
+    if (enabled === useLayers) return;
     useLayers = enabled;
+    if (baseline) {
+      try {
+        baseline = captureState();
+      } catch (error) {
+        logger.warn('Failed to read the document for history:', error);
+        baseline = null;
+      }
+    }
   }
 
   // Public API
@@ -851,13 +1635,34 @@ const History = (function () {
     saveInitialState, // Save initial state (for initialization)
     undo,
     redo,
+    goTo, // Jump to any step (History panel)
+    getSteps,
     canUndo,
     canRedo,
     isInitialized,
     clear,
+    // Steps of other animation frames
+    suspend,
+    resume,
+    discard,
     getIndex,
     getLength,
     setLayersEnabled,
+    trackState,
+    setMaxHistory,
+    getMaxHistory,
+    // Branching mode
+    setBranching,
+    isBranching,
+    getBranches,
+    switchBranch,
+    // Snapshots (kept in IndexedDB)
+    takeSnapshot,
+    restoreSnapshot,
+    deleteSnapshot,
+    getSnapshots,
+    getProjectId,
+    setProjectId,
     setTestMode, // Set test mode (disables transaction grouping)
     // Expose event emitter for components to subscribe
     on: EventEmitter.on.bind(EventEmitter),
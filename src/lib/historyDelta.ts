@@ -0,0 +1,408 @@
+/**
+ * History Deltas
+ * Steps are stored as the tiles of each layer (and mask) that changed, plus reversible
+ * commands for layer structure changes, instead of snapshots of the whole document
+ */
+
+import type { Layer } from './types';
+
+// Side of a square tile in surface pixels
+export const HISTORY_TILE_SIZE = 64;
+
+export type HistoryDirection = 'undo' | 'redo';
+
+export interface SurfaceSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Area of the document reported as changed, in document pixels
+ */
+export interface ChangedRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Pixels of one tile of a surface (a layer canvas, a layer mask or the plain canvas)
+ * before and after a step
+ * null is a fully transparent tile; a missing side is left alone in that direction
+ */
+export interface TileChange {
+  surface: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  before?: ImageData | null;
+  after?: ImageData | null;
+}
+
+/**
+ * Surface created, removed or resized by a step (null when it did not exist)
+ * Such surfaces are rebuilt from their tiles in full rather than patched
+ */
+export interface SurfaceChange {
+  surface: string;
+  before: SurfaceSize | null;
+  after: SurfaceSize | null;
+}
+
+export interface PixelDelta {
+  surfaces: SurfaceChange[];
+  tiles: TileChange[];
+}
+
+// Layer properties without its pixels
+export type LayerInfo = Omit<Layer, 'canvas' | 'mask'> & { hasMask: boolean };
+
+/**
+ * Reversible layer structure change
+ * Creating or deleting layers always changes the order, so an order command comes with them
+ */
+export type LayerCommand =
+  | { type: 'create'; layer: LayerInfo }
+  | { type: 'delete'; layer: LayerInfo }
+  | { type: 'update'; id: string; before: Partial<LayerInfo>; after: Partial<LayerInfo> }
+  | { type: 'order'; before: string[]; after: string[] };
+
+const MASK_SUFFIX = ':mask';
+
+/**
+ * Surface key of a layer's mask
+ */
+export function getMaskSurface(layerId: string): string {
+  return `${layerId}${MASK_SUFFIX}`;
+}
+
+/**
+ * Layer a surface belongs to, and whether it is the layer's mask
+ */
+export function parseSurface(surface: string): { layerId: string; mask: boolean } {
+  return surface.endsWith(MASK_SUFFIX)
+    ? { layerId: surface.slice(0, -MASK_SUFFIX.length), mask: true }
+    : { layerId: surface, mask: false };
+}
+
+/**
+ * Layer properties as recorded by history
+ */
+export function getLayerInfo(layer: Layer): LayerInfo {
+  const { canvas: _canvas, mask, ...info } = layer;
+  return { ...info, hasMask: !!mask };
+}
+
+/**
+ * Copy of a tile, or null when every pixel in it is transparent
+ */
+function readTile(
+  image: ImageData,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): ImageData | null {
+  const tile = new ImageData(width, height);
+  let opaque = false;
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * image.width + x) * 4;
+    const line = image.data.subarray(start, start + width * 4);
+    tile.data.set(line, row * width * 4);
+    for (let i = 3; i < line.length && !opaque; i += 4) {
+      opaque = line[i]! !== 0;
+    }
+  }
+  return opaque ? tile : null;
+}
+
+function tilesDiffer(
+  a: ImageData,
+  b: ImageData,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): boolean {
+  const pixelsA = new Uint32Array(a.data.buffer, a.data.byteOffset, a.width * a.height);
+  const pixelsB = new Uint32Array(b.data.buffer, b.data.byteOffset, b.width * b.height);
+  for (let row = y; row < y + height; row++) {
+    const start = row * a.width + x;
+    for (let i = start; i < start + width; i++) {
+      if (pixelsA[i] !== pixelsB[i]) return true;
+    }
+  }
+  return false;
+}
+
+// Whether a tile read on its own matches the same area of a surface
+function tileMatches(image: ImageData, tile: ImageData, x: number, y: number): boolean {
+  const pixels = new Uint32Array(
+    image.data.buffer,
+    image.data.byteOffset,
+    image.width * image.height
+  );
+  const tilePixels = new Uint32Array(
+    tile.data.buffer,
+    tile.data.byteOffset,
+    tile.width * tile.height
+  );
+  for (let row = 0; row < tile.height; row++) {
+    const start = (y + row) * image.width + x;
+    for (let i = 0; i < tile.width; i++) {
+      if (pixels[start + i] !== tilePixels[row * tile.width + i]) return false;
+    }
+  }
+  return true;
+}
+
+function forEachTile(
+  size: SurfaceSize,
+  tileSize: number,
+  callback: (x: number, y: number, width: number, height: number) => void
+): void {
+  for (let y = 0; y < size.height; y += tileSize) {
+    for (let x = 0; x < size.width; x += tileSize) {
+      callback(x, y, Math.min(tileSize, size.width - x), Math.min(tileSize, size.height - y));
+    }
+  }
+}
+
+/**
+ * Tiles that differ between two states of a document's surfaces
+ * Created and removed surfaces only keep their non-transparent tiles; resized surfaces
+ * keep every tile on both sides
+ */
+export function diffSurfaces(
+  before: Map<string, ImageData>,
+  after: Map<string, ImageData>,
+  tileSize = HISTORY_TILE_SIZE
+): PixelDelta {
+  const delta: PixelDelta = { surfaces: [], tiles: [] };
+  const surfaces = new Set([...before.keys(), ...after.keys()]);
+
+  for (const surface of surfaces) {
+    const previous = before.get(surface) ?? null;
+    const next = after.get(surface) ?? null;
+
+    if (previous && next && previous.width === next.width && previous.height === next.height) {
+      forEachTile(next, tileSize, (x, y, width, height) => {
+        if (tilesDiffer(previous, next, x, y, width, height)) {
+          delta.tiles.push({
+            surface,
+            x,
+            y,
+            width,
+            height,
+            before: readTile(previous, x, y, width, height),
+            after: readTile(next, x, y, width, height),
+          });
+        }
+      });
+      continue;
+    }
+
+    const sizeOf = (image: ImageData | null) =>
+      image ? { width: image.width, height: image.height } : null;
+    delta.surfaces.push({ surface, before: sizeOf(previous), after: sizeOf(next) });
+    // A resized surface is rebuilt over what Canvas.resize kept, so blank tiles count too
+    const resized = !!previous && !!next;
+    for (const [image, side] of [
+      [previous, 'before'],
+      [next, 'after'],
+    ] as const) {
+      if (!image) continue;
+      forEachTile(image, tileSize, (x, y, width, height) => {
+        const tile = readTile(image, x, y, width, height);
+        if (tile || resized) {
+          delta.tiles.push({ surface, x, y, width, height, [side]: tile });
+        }
+      });
+    }
+  }
+  return delta;
+}
+
+/**
+ * Tiles within changed regions that differ between a document's surfaces and their pixels now
+ * Only the tiles the regions touch are read; surfaces must keep their sizes (created, removed
+ * or resized ones need diffSurfaces)
+ * @param size - Document size the regions are measured in; surfaces at a device pixel ratio
+ *   are scaled to match
+ * @param read - Current pixels of an area of a surface
+ */
+export function diffSurfaceRegions(
+  surfaces: Map<string, ImageData>,
+  regions: ChangedRegion[],
+  size: SurfaceSize,
+  read: (surface: string, x: number, y: number, width: number, height: number) => ImageData,
+  tileSize = HISTORY_TILE_SIZE
+): PixelDelta {
+  const delta: PixelDelta = { surfaces: [], tiles: [] };
+
+  for (const [surface, image] of surfaces) {
+    const scaleX = image.width / size.width;
+    const scaleY = image.height / size.height;
+    const columns = Math.ceil(image.width / tileSize);
+    const rows = Math.ceil(image.height / tileSize);
+    const cells = new Set<number>();
+    for (const region of regions) {
+      const left = Math.max(0, Math.floor((region.x * scaleX) / tileSize));
+      const top = Math.max(0, Math.floor((region.y * scaleY) / tileSize));
+      const right = Math.min(columns, Math.ceil(((region.x + region.width) * scaleX) / tileSize));
+      const bottom = Math.min(rows, Math.ceil(((region.y + region.height) * scaleY) / tileSize));
+      for (let row = top; row < bottom; row++) {
+        for (let column = left; column < right; column++) {
+          cells.add(row * columns + column);
+        }
+      }
+    }
+
+    // In the order diffSurfaces lists them
+    for (const cell of [...cells].sort((a, b) => a - b)) {
+      const x = (cell % columns) * tileSize;
+      const y = Math.floor(cell / columns) * tileSize;
+      const width = Math.min(tileSize, image.width - x);
+      const height = Math.min(tileSize, image.height - y);
+      const current = read(surface, x, y, width, height);
+      if (!tileMatches(image, current, x, y)) {
+        delta.tiles.push({
+          surface,
+          x,
+          y,
+          width,
+          height,
+          before: readTile(image, x, y, width, height),
+          after: readTile(current, 0, 0, width, height),
+        });
+      }
+    }
+  }
+  return delta;
+}
+
+/**
+ * Apply a delta to a document's surfaces in one direction
+ * Changed surfaces are replaced by blank ones of their new size before their tiles go in
+ * @returns Surfaces whose pixels changed
+ */
+export function applyPixelDelta(
+  surfaces: Map<string, ImageData>,
+  delta: PixelDelta,
+  direction: HistoryDirection
+): Set<string> {
+  const side = direction === 'undo' ? 'before' : 'after';
+  const touched = new Set<string>();
+
+  for (const change of delta.surfaces) {
+    const size = change[side];
+    if (size) {
+      surfaces.set(change.surface, new ImageData(size.width, size.height));
+    } else {
+      surfaces.delete(change.surface);
+    }
+    touched.add(change.surface);
+  }
+
+  for (const tile of delta.tiles) {
+    const pixels = tile[side];
+    const target = surfaces.get(tile.surface);
+    if (pixels === undefined || !target) continue;
+    for (let row = 0; row < tile.height; row++) {
+      const start = ((tile.y + row) * target.width + tile.x) * 4;
+      if (pixels) {
+        target.data.set(
+          pixels.data.subarray(row * tile.width * 4, (row + 1) * tile.width * 4),
+          start
+        );
+      } else {
+        target.data.fill(0, start, start + tile.width * 4);
+      }
+    }
+    touched.add(tile.surface);
+  }
+  return touched;
+}
+
+/**
+ * Commands that turn one layer list into another
+ */
+export function diffLayers(before: LayerInfo[], after: LayerInfo[]): LayerCommand[] {
+  const commands: LayerCommand[] = [];
+  const previous = new Map(before.map((layer) => [layer.id, layer]));
+  const next = new Map(after.map((layer) => [layer.id, layer]));
+
+  for (const layer of before) {
+    if (!next.has(layer.id)) {
+      commands.push({ type: 'delete', layer });
+    }
+  }
+  for (const layer of after) {
+    const old = previous.get(layer.id);
+    if (!old) {
+      commands.push({ type: 'create', layer });
+      continue;
+    }
+    const changedBefore: Partial<LayerInfo> = {};
+    const changedAfter: Partial<LayerInfo> = {};
+    const keys = new Set([...Object.keys(old), ...Object.keys(layer)]) as Set<keyof LayerInfo>;
+    for (const key of keys) {
+      if (old[key] !== layer[key]) {
+        Object.assign(changedBefore, { [key]: old[key] });
+        Object.assign(changedAfter, { [key]: layer[key] });
+      }
+    }
+    if (Object.keys(changedAfter).length > 0) {
+      commands.push({ type: 'update', id: layer.id, before: changedBefore, after: changedAfter });
+    }
+  }
+
+  const beforeOrder = before.map((layer) => layer.id);
+  const afterOrder = after.map((layer) => layer.id);
+  if (beforeOrder.join('\n') !== afterOrder.join('\n')) {
+    commands.push({ type: 'order', before: beforeOrder, after: afterOrder });
+  }
+  return commands;
+}
+
+/**
+ * Run layer commands forwards (redo) or backwards (undo) over a layer list
+ */
+export function applyLayerCommands(
+  layers: LayerInfo[],
+  commands: LayerCommand[],
+  direction: HistoryDirection
+): LayerInfo[] {
+  const redo = direction === 'redo';
+  const byId = new Map(layers.map((layer) => [layer.id, layer]));
+  let order = layers.map((layer) => layer.id);
+
+  for (const command of commands) {
+    switch (command.type) {
+      case 'create':
+      case 'delete':
+        // Creating on redo and deleting on undo bring the layer (back) in
+        if ((command.type === 'create') === redo) {
+          byId.set(command.layer.id, command.layer);
+        }
+        break;
+      case 'update': {
+        const layer = byId.get(command.id);
+        if (layer) {
+          byId.set(command.id, { ...layer, ...(redo ? command.after : command.before) });
+        }
+        break;
+      }
+      case 'order':
+        order = redo ? command.after : command.before;
+        break;
+    }
+  }
+
+  return order.flatMap((id) => {
+    const layer = byId.get(id);
+    return layer ? [layer] : [];
+  });
+}
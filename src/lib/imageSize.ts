@@ -0,0 +1,175 @@
+/**
+ * Image Size
+ * Pixel operations behind the Image Size, Canvas Size and Trim commands: resampling
+ * an image to new dimensions, placing it on a larger or smaller canvas at an anchor,
+ * and finding the bounds of visible content
+ */
+
+import type { Rect, Size } from './viewportGeometry';
+import {
+  cropImageData,
+  getOpaqueBounds,
+  transformImage,
+  type Point,
+} from './tools/transformHelpers';
+
+export type ResampleFilter = 'nearest' | 'bilinear' | 'bicubic';
+
+// Where existing content stays when the canvas size changes
+export type CanvasAnchor =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right';
+
+// Anchors in reading order, as laid out in the 3x3 anchor picker
+export const CANVAS_ANCHORS: readonly CanvasAnchor[] = [
+  'top-left',
+  'top',
+  'top-right',
+  'left',
+  'center',
+  'right',
+  'bottom-left',
+  'bottom',
+  'bottom-right',
+];
+
+/**
+ * Offset of the old content inside the new canvas for an anchor
+ */
+export function getAnchorOffset(anchor: CanvasAnchor, from: Size, to: Size): Point {
+  const index = CANVAS_ANCHORS.indexOf(anchor);
+  const column = index % 3;
+  const row = Math.floor(index / 3);
+  return {
+    x: Math.round(((to.width - from.width) * column) / 2),
+    y: Math.round(((to.height - from.height) * row) / 2),
+  };
+}
+
+/**
+ * Check whether a size is a whole multiple of another in both directions
+ * (nearest neighbour then scales every pixel to an identical block)
+ */
+export function isIntegerScale(from: Size, to: Size): boolean {
+  return to.width % from.width === 0 && to.height % from.height === 0;
+}
+
+/**
+ * Resample an image to new dimensions
+ * @returns New image data; the input is left untouched
+ */
+export function resampleImageData(
+  source: ImageData,
+  width: number,
+  height: number,
+  filter: ResampleFilter
+): ImageData {
+  const quad: Point[] = [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ];
+  return transformImage(source, quad, width, height, filter);
+}
+
+/**
+ * Place an image on a canvas of a new size at an offset, cropping what falls outside
+ * @param fill - RGBA for the area the image does not cover; transparent when omitted
+ * @returns New image data; the input is left untouched
+ */
+export function placeImageData(
+  source: ImageData,
+  width: number,
+  height: number,
+  dx: number,
+  dy: number,
+  fill?: readonly [number, number, number, number]
+): ImageData {
+  const result = new ImageData(width, height);
+  if (fill && fill[3] > 0) {
+    for (let i = 0; i < result.data.length; i += 4) {
+      result.data.set(fill, i);
+    }
+  }
+
+  const left = Math.max(0, dx);
+  const right = Math.min(width, dx + source.width);
+  if (right <= left) return result;
+  for (let y = Math.max(0, dy); y < Math.min(height, dy + source.height); y++) {
+    const from = ((y - dy) * source.width + (left - dx)) * 4;
+    result.data.set(source.data.subarray(from, from + (right - left) * 4), (y * width + left) * 4);
+  }
+  return result;
+}
+
+/**
+ * Shift an image by whole pixels, wrapping what leaves one edge around to the opposite one
+ * @returns New image data; the input is left untouched
+ */
+export function wrapImageData(source: ImageData, dx: number, dy: number): ImageData {
+  const { width, height } = source;
+  const result = new ImageData(width, height);
+  const shiftX = ((dx % width) + width) % width;
+  const shiftY = ((dy % height) + height) % height;
+  for (let y = 0; y < height; y++) {
+    const row = source.data.subarray(y * width * 4, (y + 1) * width * 4);
+    const to = ((y + shiftY) % height) * width * 4;
+    // The row splits at the shift: its end moves to the start and the rest follows it
+    result.data.set(row.subarray((width - shiftX) * 4), to);
+    result.data.set(row.subarray(0, (width - shiftX) * 4), to + shiftX * 4);
+  }
+  return result;
+}
+
+/**
+ * Bounding box of the non-transparent pixels across several images of the same size
+ * @param regions - Optional area per image known to hold all of its content; only that
+ * area is scanned
+ * @returns Bounds, or null if every image is fully transparent
+ */
+export function getContentBounds(
+  images: ImageData[],
+  regions: (Rect | null | undefined)[] = []
+): Rect | null {
+  let bounds: Rect | null = null;
+  for (let i = 0; i < images.length; i++) {
+    const next = getRegionOpaqueBounds(images[i]!, regions[i]);
+    if (!next) continue;
+    if (!bounds) {
+      bounds = next;
+      continue;
+    }
+    const x = Math.min(bounds.x, next.x);
+    const y = Math.min(bounds.y, next.y);
+    bounds = {
+      x,
+      y,
+      width: Math.max(bounds.x + bounds.width, next.x + next.width) - x,
+      height: Math.max(bounds.y + bounds.height, next.y + next.height) - y,
+    };
+  }
+  return bounds;
+}
+
+// Opaque bounds of an image, scanning only a region of it when given
+function getRegionOpaqueBounds(image: ImageData, region?: Rect | null): Rect | null {
+  if (!region) return getOpaqueBounds(image);
+  const x = Math.max(0, Math.floor(region.x));
+  const y = Math.max(0, Math.floor(region.y));
+  const right = Math.min(image.width, Math.ceil(region.x + region.width));
+  const bottom = Math.min(image.height, Math.ceil(region.y + region.height));
+  if (right <= x || bottom <= y) return null;
+
+  const bounds = getOpaqueBounds(
+    cropImageData(image, { x, y, width: right - x, height: bottom - y })
+  );
+  return bounds && { ...bounds, x: bounds.x + x, y: bounds.y + y };
+}
@@ -0,0 +1,243 @@
+/**
+ * Image Size Actions Module
+ * Image Size (resample every layer), Canvas Size (grow or shrink around an anchor),
+ * Trim (crop to the visible content) and Offset (shift with wrap-around, for checking
+ * tile seams), each applied to every layer, mask and animation frame as a single
+ * history step
+ * The selection no longer lines up afterwards, so it is cleared
+ */
+
+import type { Layer } from './types';
+import type { Rect } from './viewportGeometry';
+import Canvas from './canvas';
+import Layers from './layers';
+import History from './history';
+import IndexedColor from './indexedColor';
+import PixelStudio from './app';
+import Timeline from './timeline';
+import { isGroupLayer } from './layerTree';
+import { hexToRgbaArray } from './colorUtils';
+import { MAX_CANVAS_SIZE } from './constants';
+import {
+  getAnchorOffset,
+  getContentBounds,
+  placeImageData,
+  resampleImageData,
+  wrapImageData,
+  type CanvasAnchor,
+  type ResampleFilter,
+} from './imageSize';
+
+// Masks reveal everything they did not cover before
+const MASK_REVEAL: readonly [number, number, number, number] = [255, 255, 255, 255];
+
+interface LayerPixels {
+  layer: Layer;
+  pixels: ImageData;
+  mask: ImageData | null;
+}
+
+interface DocumentChange {
+  label: string; // History step name
+  width: number;
+  height: number;
+  pixels: (imageData: ImageData, layerId: string) => ImageData;
+  mask: (imageData: ImageData) => ImageData;
+  // How far the content moved, for keeping image layer placement in step
+  offset?: { x: number; y: number };
+}
+
+const ImageSizeActions = (function () {
+  function validateSize(width: number, height: number): void {
+    const valid = (value: number) =>
+      Number.isInteger(value) && value >= 1 && value <= MAX_CANVAS_SIZE;
+    if (!valid(width) || !valid(height)) {
+      throw new Error(`Width and height must be whole numbers from 1 to ${MAX_CANVAS_SIZE}`);
+    }
+  }
+
+  function readLayers(): LayerPixels[] {
+    return Layers.getAllLayers()
+      .filter((layer) => !isGroupLayer(layer))
+      .map((layer) => {
+        const pixels = Layers.getImageData(layer.id);
+        if (!pixels) {
+          throw new Error(`Failed to read layer "${layer.name}"`);
+        }
+        const maskCtx = layer.mask ? Layers.getCachedContext(layer.mask) : null;
+        const mask =
+          layer.mask && maskCtx
+            ? maskCtx.getImageData(0, 0, layer.mask.width, layer.mask.height)
+            : null;
+        return { layer, pixels, mask };
+      });
+  }
+
+  /**
+   * Resize the document and replace every layer with its changed pixels
+   */
+  async function applyChange(change: DocumentChange): Promise<void> {
+    const layers = readLayers();
+    const results = layers.map(({ layer, pixels, mask }) => ({
+      layer,
+      pixels: change.pixels(pixels, layer.id),
+      mask: mask ? change.mask(mask) : null,
+    }));
+
+    if (change.width !== Canvas.getWidth() || change.height !== Canvas.getHeight()) {
+      Canvas.resize(change.width, change.height);
+    }
+    for (const { layer, pixels, mask } of results) {
+      Layers.putImageData(layer.id, pixels);
+      const current = Layers.getLayer(layer.id);
+      if (mask && current?.mask) {
+        Layers.getCachedContext(current.mask)?.putImageData(mask, 0, 0);
+      }
+      if (change.offset) {
+        Canvas.offsetImageLayer(layer.id, change.offset.x, change.offset.y);
+      }
+    }
+    Timeline.mapStoredCels(change.pixels);
+    PixelStudio.clearSelection();
+
+    await Canvas.triggerRender();
+    await History.saveImmediate(change.label);
+  }
+
+  /**
+   * Resample every layer to a new image size
+   * Indexed-color documents always use nearest neighbour so no colors outside the
+   * palette appear; whole-number upscales with nearest neighbour keep pixels square
+   */
+  async function resizeImage(
+    width: number,
+    height: number,
+    filter: ResampleFilter = 'nearest'
+  ): Promise<void> {
+    validateSize(width, height);
+    if (width === Canvas.getWidth() && height === Canvas.getHeight()) return;
+    const resampleFilter = IndexedColor.isEnabled() ? 'nearest' : filter;
+
+    await applyChange({
+      label: 'Image Size',
+      width,
+      height,
+      pixels: (imageData) => resampleImageData(imageData, width, height, resampleFilter),
+      mask: (imageData) => resampleImageData(imageData, width, height, resampleFilter),
+    });
+  }
+
+  /**
+   * Change the canvas size without scaling, keeping the content at an anchor
+   * @param fill - Hex color for the area added to the bottom layer; transparent if null
+   */
+  async function resizeCanvas(
+    width: number,
+    height: number,
+    anchor: CanvasAnchor = 'center',
+    fill: string | null = null
+  ): Promise<void> {
+    validateSize(width, height);
+    const from = { width: Canvas.getWidth(), height: Canvas.getHeight() };
+    if (width === from.width && height === from.height) return;
+
+    const offset = getAnchorOffset(anchor, from, { width, height });
+    const bottomLayer = Layers.getAllLayers().find((layer) => !isGroupLayer(layer));
+    const fillColor = fill ? hexToRgbaArray(fill, 255) : undefined;
+
+    await applyChange({
+      label: 'Canvas Size',
+      width,
+      height,
+      pixels: (imageData, layerId) =>
+        placeImageData(
+          imageData,
+          width,
+          height,
+          offset.x,
+          offset.y,
+          layerId === bottomLayer?.id ? fillColor : undefined
+        ),
+      mask: (imageData) =>
+        placeImageData(imageData, width, height, offset.x, offset.y, MASK_REVEAL),
+      offset,
+    });
+  }
+
+  /**
+   * Bounds of the content of every layer
+   * Tracked layer bounds only narrow the scan for non-transparent pixels: drawing tools
+   * do not report what they paint, so a layer tracked as empty may still have content
+   */
+  function getDocumentContentBounds(): Rect | null {
+    const layers = readLayers();
+    return getContentBounds(
+      layers.map(({ pixels }) => pixels),
+      layers.map(({ layer }) => Layers.getLayerBounds(layer.id))
+    );
+  }
+
+  /**
+   * Crop the canvas to the content of all layers
+   * @returns True if the canvas changed, false if it already fits the content
+   */
+  async function trimToContent(): Promise<boolean> {
+    const bounds = getDocumentContentBounds();
+    if (!bounds) {
+      throw new Error('Nothing to trim: every layer is empty');
+    }
+    if (bounds.width === Canvas.getWidth() && bounds.height === Canvas.getHeight()) {
+      return false;
+    }
+
+    const offset = { x: -bounds.x, y: -bounds.y };
+    await applyChange({
+      label: 'Trim',
+      width: bounds.width,
+      height: bounds.height,
+      pixels: (imageData) =>
+        placeImageData(imageData, bounds.width, bounds.height, offset.x, offset.y),
+      mask: (imageData) =>
+        placeImageData(imageData, bounds.width, bounds.height, offset.x, offset.y),
+      offset,
+    });
+    return true;
+  }
+
+  /**
+   * Shift the content of every layer, wrapping what leaves one edge to the opposite one
+   */
+  async function offsetWrapped(dx: number, dy: number): Promise<void> {
+    if (!Number.isInteger(dx) || !Number.isInteger(dy)) {
+      throw new Error('Offset must be whole pixels');
+    }
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    if (dx % width === 0 && dy % height === 0) return;
+
+    await applyChange({
+      label: 'Offset',
+      width,
+      height,
+      pixels: (imageData) => wrapImageData(imageData, dx, dy),
+      mask: (imageData) => wrapImageData(imageData, dx, dy),
+    });
+  }
+
+  /**
+   * Offset by half the canvas size, bringing the tile edges to the middle where seams show
+   */
+  async function offsetByHalf(): Promise<void> {
+    await offsetWrapped(Math.floor(Canvas.getWidth() / 2), Math.floor(Canvas.getHeight() / 2));
+  }
+
+  return {
+    resizeImage,
+    resizeCanvas,
+    trimToContent,
+    offsetWrapped,
+    offsetByHalf,
+  };
+})();
+
+export default ImageSizeActions;
@@ -103,6 +103,24 @@ export function createCanvasFromImageData(imageData: ImageData): HTMLCanvasEleme
   return canvas;
 }
 
+/**
+ * Shrink a canvas to a PNG data URL at most maxSize pixels on a side
+ * Pixel edges stay crisp (no smoothing)
+ * @returns Data URL, or null if the thumbnail could not be drawn
+ */
+export function createThumbnailDataURL(source: HTMLCanvasElement, maxSize: number): string | null {
+  if (typeof document === 'undefined') return null;
+  const scale = Math.min(1, maxSize / Math.max(source.width, source.height, 1));
+  const thumbnail = document.createElement('canvas');
+  thumbnail.width = Math.max(1, Math.round(source.width * scale));
+  thumbnail.height = Math.max(1, Math.round(source.height * scale));
+  const ctx = thumbnail.getContext('2d');
+  if (!ctx) return null;
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(source, 0, 0, thumbnail.width, thumbnail.height);
+  return thumbnail.toDataURL() || null;
+}
+
 /**
  * Convert ImageData to ArrayBuffer via Blob
  * Convenience function that combines imageDataToBlob and blob.arrayBuffer()
@@ -0,0 +1,389 @@
+/**
+ * Indexed Color Module
+ * Document-level indexed mode: every layer is backed by a buffer of palette indices
+ * and only palette colors can appear in the layer pixels. Index 0 is always transparent.
+ * Layer canvases stay RGBA for rendering; they are re-synced to the palette after edits.
+ */
+
+import type { PaletteColor } from './types';
+import Canvas from './canvas';
+import Layers from './layers';
+import History from './history';
+import Timeline from './timeline';
+import EventEmitter from './utils/eventEmitter';
+import { reduceColorNoise } from './cleanup/colorReducer';
+import { findNearestPaletteColor } from './cleanup/utils/colorDistance';
+import { hexToRgbaArray, rgbToHex } from './colorUtils';
+import { logger } from './utils/logger';
+
+export const MAX_PALETTE_SIZE = 256;
+export const TRANSPARENT_INDEX = 0;
+const ALPHA_THRESHOLD = 128;
+
+function packColor(r: number, g: number, b: number, a: number): number {
+  return ((r << 24) | (g << 16) | (b << 8) | a) >>> 0;
+}
+
+function buildLookup(palette: PaletteColor[]): Map<number, number> {
+  const lookup = new Map<number, number>();
+  palette.forEach((color, i) => {
+    const key = packColor(color.r, color.g, color.b, color.a);
+    if (!lookup.has(key)) lookup.set(key, i);
+  });
+  return lookup;
+}
+
+/**
+ * Map every pixel to a palette index and rewrite it with the palette color
+ * Exact matches keep their index; other pixels use the nearest opaque entry,
+ * or the transparent entry when their alpha is below 128
+ */
+export function quantizeToPalette(
+  imageData: ImageData,
+  palette: PaletteColor[]
+): { imageData: ImageData; indices: Uint8Array; changed: boolean } {
+  const lookup = buildLookup(palette);
+  const opaque = palette.slice(1);
+  const nearestCache = new Map<number, number>();
+  const { width, height, data } = imageData;
+  const result = new ImageData(width, height);
+  const indices = new Uint8Array(width * height);
+  let changed = false;
+
+  for (let p = 0; p < indices.length; p++) {
+    const i = p * 4;
+    const r = data[i]!;
+    const g = data[i + 1]!;
+    const b = data[i + 2]!;
+    const a = data[i + 3]!;
+    const key = packColor(r, g, b, a);
+
+    let index = lookup.get(key);
+    if (index === undefined) {
+      if (a < ALPHA_THRESHOLD || opaque.length === 0) {
+        index = TRANSPARENT_INDEX;
+      } else {
+        index = nearestCache.get(key);
+        if (index === undefined) {
+          index = findNearestPaletteColor(r, g, b, opaque).index + 1;
+          nearestCache.set(key, index);
+        }
+      }
+      changed = true;
+    }
+
+    const color = palette[index]!;
+    indices[p] = index;
+    result.data[i] = color.r;
+    result.data[i + 1] = color.g;
+    result.data[i + 2] = color.b;
+    result.data[i + 3] = color.a;
+  }
+
+  return { imageData: result, indices, changed };
+}
+
+/**
+ * Collect the distinct opaque colors of the images into a palette (transparent entry first)
+ * @returns The palette, or null if there are more colors than fit
+ */
+export function collectPalette(images: ImageData[]): PaletteColor[] | null {
+  const palette: PaletteColor[] = [{ r: 0, g: 0, b: 0, a: 0 }];
+  const seen = new Set<number>();
+  for (const image of images) {
+    const data = image.data;
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3]! < ALPHA_THRESHOLD) continue;
+      const key = packColor(data[i]!, data[i + 1]!, data[i + 2]!, data[i + 3]!);
+      if (seen.has(key)) continue;
+      if (palette.length >= MAX_PALETTE_SIZE) return null;
+      seen.add(key);
+      palette.push({ r: data[i]!, g: data[i + 1]!, b: data[i + 2]!, a: data[i + 3]! });
+    }
+  }
+  return palette;
+}
+
+const IndexedColor = (function () {
+  let enabled = false;
+  let palette: PaletteColor[] = [];
+  const layerIndices = new Map<string, Uint8Array>();
+  let listenersAttached = false;
+
+  function emitChange(): void {
+    EventEmitter.emit('indexed:change', { enabled, palette: getPalette() });
+  }
+
+  function attachListeners(): void {
+    if (listenersAttached) return;
+    listenersAttached = true;
+    // Tools that blend or anti-alias are snapped back to the palette before their step is saved
+    EventEmitter.on('history:capture', () => {
+      if (enabled) syncActiveLayer();
+    });
+    // Undo and redo write the palette back before these re-sync the layers to it
+    History.trackState('indexedPalette', {
+      read: () => (enabled ? getPalette() : null),
+      write: (value) => restorePalette(value as PaletteColor[] | null),
+    });
+    EventEmitter.on('history:undo', () => syncAllLayers());
+    EventEmitter.on('history:redo', () => syncAllLayers());
+    EventEmitter.on('timeline:change', () => syncAllLayers());
+    EventEmitter.on('layers:delete', (data: { deletedId?: string }) => {
+      if (data?.deletedId) layerIndices.delete(data.deletedId);
+    });
+  }
+
+  function isEnabled(): boolean {
+    return enabled;
+  }
+
+  function getPalette(): PaletteColor[] {
+    return palette.map((color) => ({ ...color }));
+  }
+
+  /**
+   * Put back the palette a history step recorded (null when indexed mode was off)
+   */
+  function restorePalette(value: PaletteColor[] | null): void {
+    if (!value) return;
+    const next = value.map((color) => ({ ...color }));
+    if (enabled) recolorStoredCels(palette, next);
+    palette = next;
+    layerIndices.clear();
+    emitChange();
+  }
+
+  /**
+   * Recolor the other animation frames for changed palette entries
+   * Their cels only store pixels, so colors are replaced by exact match
+   */
+  function recolorStoredCels(from: PaletteColor[], to: PaletteColor[]): void {
+    const replacements = new Map<number, PaletteColor>();
+    from.forEach((color, i) => {
+      const next = to[i];
+      if (i === TRANSPARENT_INDEX || !next) return;
+      const key = packColor(color.r, color.g, color.b, color.a);
+      if (key !== packColor(next.r, next.g, next.b, next.a) && !replacements.has(key)) {
+        replacements.set(key, next);
+      }
+    });
+    if (replacements.size === 0) return;
+
+    Timeline.mapStoredCels((imageData) => {
+      const data = imageData.data;
+      for (let i = 0; i < data.length; i += 4) {
+        const next = replacements.get(
+          packColor(data[i]!, data[i + 1]!, data[i + 2]!, data[i + 3]!)
+        );
+        if (next) data.set([next.r, next.g, next.b, next.a], i);
+      }
+      return imageData;
+    });
+  }
+
+  /**
+   * Re-map a layer's pixels to the palette and store its index buffer
+   */
+  function syncLayer(layerId: string): boolean {
+    if (!enabled || !Layers.isInitialized()) return false;
+    const imageData = Layers.getImageData(layerId);
+    if (!imageData) return false;
+    const result = quantizeToPalette(imageData, palette);
+    layerIndices.set(layerId, result.indices);
+    if (result.changed) {
+      Layers.putImageData(layerId, result.imageData);
+      Canvas.markChangedRegion(0, 0, Canvas.getWidth(), Canvas.getHeight());
+    }
+    return true;
+  }
+
+  function syncAllLayers(): void {
+    if (!enabled || !Layers.isInitialized()) return;
+    for (const layer of Layers.getAllLayers()) {
+      syncLayer(layer.id);
+    }
+  }
+
+  /**
+   * Sync the active layer; painting tools call this before saving history
+   */
+  function syncActiveLayer(): void {
+    const activeId = Layers.isInitialized() ? Layers.getActiveLayerId() : null;
+    if (activeId) syncLayer(activeId);
+  }
+
+  /**
+   * Get the palette index buffer of a layer (row-major, logical canvas size)
+   */
+  function getLayerIndices(layerId: string): Uint8Array | null {
+    if (!enabled) return null;
+    if (!layerIndices.has(layerId)) syncLayer(layerId);
+    return layerIndices.get(layerId) ?? null;
+  }
+
+  /**
+   * Build a palette from the document's colors, quantizing when there are too many
+   */
+  async function generatePalette(): Promise<PaletteColor[]> {
+    const images = Layers.getAllLayers()
+      .map((layer) => Layers.getImageData(layer.id))
+      .filter((image): image is ImageData => image !== null);
+    const exact = collectPalette(images);
+    if (exact) return exact;
+
+    // Stack the layers so k-means sees every layer at once
+    const { width, height } = images[0]!;
+    const stacked = new ImageData(width, height * images.length);
+    images.forEach((image, i) => stacked.data.set(image.data, i * width * height * 4));
+    const reduced = await reduceColorNoise(stacked, {
+      mode: 'quantize',
+      nColors: MAX_PALETTE_SIZE - 1,
+    });
+    return collectPalette([reduced]) ?? [{ r: 0, g: 0, b: 0, a: 0 }];
+  }
+
+  /**
+   * Switch the document to indexed mode
+   * @param initialPalette - Palette to use; generated from the document when omitted
+   * @throws Error if the palette has more than 256 entries
+   */
+  async function enable(initialPalette?: PaletteColor[]): Promise<void> {
+    attachListeners();
+    let next = initialPalette
+      ? initialPalette.map((color) => ({ ...color }))
+      : Layers.isInitialized()
+        ? await generatePalette()
+        : [];
+    if (next.length === 0 || next[0]!.a !== 0) {
+      next = [{ r: 0, g: 0, b: 0, a: 0 }, ...next];
+    }
+    if (next.length > MAX_PALETTE_SIZE) {
+      throw new Error(`Indexed palettes are limited to ${MAX_PALETTE_SIZE} colors`);
+    }
+
+    palette = next;
+    enabled = true;
+    layerIndices.clear();
+    syncAllLayers();
+    if (Layers.isInitialized()) {
+      Timeline.mapStoredCels((imageData) => quantizeToPalette(imageData, palette).imageData);
+      await Layers.renderSync();
+    }
+    emitChange();
+    logger.debug('[IndexedColor] Enabled indexed mode', { colors: palette.length });
+  }
+
+  /**
+   * Switch back to RGBA mode (pixels are kept as they are)
+   */
+  function disable(): void {
+    if (!enabled) return;
+    enabled = false;
+    layerIndices.clear();
+    emitChange();
+  }
+
+  /**
+   * Change a palette entry and recolor every pixel that uses it
+   * @throws Error for the transparent entry or an invalid index
+   */
+  async function setPaletteColor(index: number, color: PaletteColor): Promise<void> {
+    if (!enabled) return;
+    if (index === TRANSPARENT_INDEX) {
+      throw new Error('The transparent palette entry cannot be edited');
+    }
+    if (!palette[index]) {
+      throw new Error(`Palette index ${index} does not exist`);
+    }
+
+    // Index buffers must reflect the old palette before the entry changes
+    for (const layer of Layers.getAllLayers()) {
+      if (!layerIndices.has(layer.id)) syncLayer(layer.id);
+    }
+    const previous = getPalette();
+    palette[index] = { ...color };
+
+    for (const layer of Layers.getAllLayers()) {
+      const indices = layerIndices.get(layer.id);
+      const imageData = Layers.getImageData(layer.id);
+      if (!indices || !imageData || indices.length * 4 !== imageData.data.length) continue;
+      let touched = false;
+      for (let p = 0; p < indices.length; p++) {
+        if (indices[p] !== index) continue;
+        imageData.data.set([color.r, color.g, color.b, color.a], p * 4);
+        touched = true;
+      }
+      if (touched) Layers.putImageData(layer.id, imageData);
+    }
+
+    recolorStoredCels(previous, palette);
+
+    emitChange();
+    await Layers.renderSync();
+    await History.saveImmediate('Palette Color');
+  }
+
+  /**
+   * Append a color to the palette
+   * @returns The new index, or the existing index if the color is already present
+   * @throws Error if the palette is full
+   */
+  function addPaletteColor(color: PaletteColor): number {
+    const existing = palette.findIndex(
+      (c, i) =>
+        i !== TRANSPARENT_INDEX &&
+        c.r === color.r &&
+        c.g === color.g &&
+        c.b === color.b &&
+        c.a === color.a
+    );
+    if (existing !== -1) return existing;
+    if (palette.length >= MAX_PALETTE_SIZE) {
+      throw new Error(`Indexed palettes are limited to ${MAX_PALETTE_SIZE} colors`);
+    }
+    palette.push({ ...color });
+    emitChange();
+    return palette.length - 1;
+  }
+
+  /**
+   * Find the palette entry used to paint a color (nearest opaque entry)
+   */
+  function resolveColor(hex: string): { index: number; color: PaletteColor } {
+    const [r, g, b] = hexToRgbaArray(hex, 1);
+    const opaque = palette.slice(1);
+    if (opaque.length === 0) {
+      return { index: TRANSPARENT_INDEX, color: { ...palette[0]! } };
+    }
+    const exact = opaque.findIndex((c) => c.r === r && c.g === g && c.b === b && c.a === 255);
+    const index = exact !== -1 ? exact + 1 : findNearestPaletteColor(r, g, b, opaque).index + 1;
+    return { index, color: { ...palette[index]! } };
+  }
+
+  /**
+   * Convert a palette entry to a hex string (alpha is dropped)
+   */
+  function toHex(color: PaletteColor): string {
+    return rgbToHex(color.r, color.g, color.b);
+  }
+
+  return {
+    isEnabled,
+    getPalette,
+    enable,
+    disable,
+    setPaletteColor,
+    addPaletteColor,
+    resolveColor,
+    toHex,
+    syncLayer,
+    syncAllLayers,
+    syncActiveLayer,
+    getLayerIndices,
+    on: EventEmitter.on.bind(EventEmitter),
+    off: EventEmitter.off.bind(EventEmitter),
+  };
+})();
+
+export default IndexedColor;
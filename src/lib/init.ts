@@ -7,10 +7,12 @@ import type { AppState, CanvasElements } from './types';
 import StateManager from './stateManager';
 import Canvas from './canvas';
 import Layers from './layers';
+import Viewport from './viewport';
 import History from './history';
 import UI from './ui';
 import PixelStudio from './app';
 import WorkerManager from './workers/workerManager';
+import autoSave from './storage/autoSave';
 import { logger } from './utils/logger';
 
 export interface InitOptions {
@@ -37,6 +39,9 @@ export function initializeApp(
   // Initialize Canvas
   Canvas.init(canvasElements.canvas, canvasElements.selectionCanvas || undefined, enableLayers);
 
+  // Initialize Viewport (zoom and pan) for the document size
+  Viewport.init(Canvas.getWidth(), Canvas.getHeight());
+
   // Initialize Layers (if enabled)
   if (enableLayers) {
     // Use getMainContext() to get the main canvas context directly
@@ -112,8 +117,13 @@ export function initializeApp(
 
   // Save initial canvas state to history (non-critical if it fails)
   try {
-    History.save();
+    History.save('Initial State');
   } catch (error) {
     logger.error('Failed to save initial history state:', error);
   }
+
+  // Start autosave checkpoints and crash detection (non-critical if it fails)
+  autoSave.init().catch((error) => {
+    logger.error('Failed to initialize auto-save:', error);
+  });
 }
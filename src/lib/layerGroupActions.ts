@@ -0,0 +1,115 @@
+/**
+ * Layer Group Actions Module
+ * Creates, rearranges, merges and flattens layer groups, recording each change in history
+ */
+
+import type { Layer } from './types';
+import Canvas from './canvas';
+import Layers from './layers';
+import History from './history';
+import { isGroupLayer } from './layerTree';
+
+const LayerGroupActions = (function () {
+  function getGroup(id: string): Layer {
+    const layer = Layers.getLayer(id);
+    if (!layer) {
+      throw new Error('Layer not found');
+    }
+    if (!isGroupLayer(layer)) {
+      throw new Error(`Layer "${layer.name}" is not a group`);
+    }
+    return layer;
+  }
+
+  async function commit(label: string): Promise<void> {
+    await Canvas.triggerRender();
+    await History.saveImmediate(label);
+  }
+
+  /**
+   * Create a group above the active layer, or around the given layers
+   * @returns The new group
+   */
+  async function createGroup(memberIds: string[] = []): Promise<Layer> {
+    const groupCount = Layers.getAllLayers().filter(isGroupLayer).length;
+    const group = Layers.createGroup(`Group ${groupCount + 1}`, memberIds);
+    Layers.setActiveLayer(group.id);
+    await commit('New Group');
+    return group;
+  }
+
+  /**
+   * Move a layer next to another layer or into a group
+   */
+  async function moveLayer(
+    id: string,
+    targetId: string,
+    position: 'above' | 'below' | 'inside'
+  ): Promise<void> {
+    if (!Layers.moveLayer(id, targetId, position)) {
+      throw new Error('A group cannot be moved into itself');
+    }
+    await commit('Move Layer');
+  }
+
+  /**
+   * Switch a group between pass-through and isolated compositing
+   */
+  async function togglePassThrough(id: string): Promise<void> {
+    const group = getGroup(id);
+    Layers.updateLayer(id, { passThrough: !group.passThrough });
+    await commit('Pass Through');
+  }
+
+  /**
+   * Show or hide a group's members in the Layers panel
+   * Collapsing is a view setting, so no history entry
+   */
+  function toggleCollapsed(id: string): void {
+    const group = getGroup(id);
+    Layers.updateLayer(id, { collapsed: !group.collapsed });
+  }
+
+  /**
+   * Merge a group's visible members into one layer inside the group
+   */
+  async function mergeGroup(id: string): Promise<void> {
+    const group = getGroup(id);
+    if (Layers.isLayerLocked(id)) {
+      throw new Error('Cannot merge a locked group');
+    }
+    const merged = Layers.mergeGroup(id);
+    if (!merged) {
+      throw new Error(`Group "${group.name}" is empty or contains locked layers`);
+    }
+    Layers.setActiveLayer(merged.id);
+    await commit('Merge Group');
+  }
+
+  /**
+   * Replace a group with a single layer holding its composited members
+   */
+  async function flattenGroup(id: string): Promise<void> {
+    const group = getGroup(id);
+    if (Layers.isLayerLocked(id)) {
+      throw new Error('Cannot flatten a locked group');
+    }
+    const flattened = Layers.flattenGroup(id);
+    if (!flattened) {
+      throw new Error(`Group "${group.name}" is empty or contains locked layers`);
+    }
+    Layers.setActiveLayer(flattened.id);
+    await commit('Flatten Group');
+  }
+
+  return {
+    createGroup,
+    moveLayer,
+    togglePassThrough,
+    toggleCollapsed,
+    mergeGroup,
+    flattenGroup,
+  };
+})();
+
+export default LayerGroupActions;
@@ -0,0 +1,100 @@
+/**
+ * Layer Mask Helpers
+ * Layer masks are grayscale canvases at logical canvas size: white reveals the layer and
+ * black hides it. Mask values are luminance scaled by alpha, so erased (transparent)
+ * mask pixels hide the layer as well
+ */
+
+export const MASK_REVEAL = 255;
+
+/**
+ * Get the mask value (0-255) of a pixel in RGBA mask data
+ * @param pixel - Pixel index (not byte offset)
+ */
+export function maskValueAt(data: Uint8ClampedArray, pixel: number): number {
+  const i = pixel * 4;
+  const luminance = 0.299 * data[i]! + 0.587 * data[i + 1]! + 0.114 * data[i + 2]!;
+  return Math.round((luminance * data[i + 3]!) / 255);
+}
+
+/**
+ * Scale the alpha of every pixel by the mask
+ * @returns New image data; the input is left untouched
+ */
+export function applyMaskToImageData(image: ImageData, mask: ImageData): ImageData {
+  const result = new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+  const data = result.data;
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      // Pixels the mask does not cover stay revealed
+      if (x >= mask.width || y >= mask.height) continue;
+      const value = maskValueAt(mask.data, y * mask.width + x);
+      if (value === MASK_REVEAL) continue;
+      const alpha = (y * image.width + x) * 4 + 3;
+      data[alpha] = Math.round((data[alpha]! * value) / MASK_REVEAL);
+    }
+  }
+  return result;
+}
+
+/**
+ * Convert 8-bit coverage (such as a selection mask) to grayscale mask pixels
+ */
+export function coverageToMaskImageData(
+  coverage: Uint8Array,
+  width: number,
+  height: number
+): ImageData {
+  const image = new ImageData(width, height);
+  for (let i = 0; i < width * height; i++) {
+    const value = coverage[i] ?? 0;
+    image.data[i * 4] = value;
+    image.data[i * 4 + 1] = value;
+    image.data[i * 4 + 2] = value;
+    image.data[i * 4 + 3] = 255;
+  }
+  return image;
+}
+
+/**
+ * Create a mask canvas at logical size
+ * @param source - Initial mask pixels or a mask canvas to copy (defaults to revealing everything)
+ */
+export function createMaskCanvas(
+  width: number,
+  height: number,
+  source?: ImageData | HTMLCanvasElement
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Failed to create layer mask canvas context');
+  }
+
+  if (source instanceof ImageData) {
+    ctx.putImageData(source, 0, 0);
+  } else if (source) {
+    ctx.drawImage(source, 0, 0);
+  } else {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  return canvas;
+}
+
+/**
+ * Resize a mask canvas in place, anchored top-left
+ * Newly exposed areas reveal the layer
+ */
+export function resizeMaskCanvas(mask: HTMLCanvasElement, width: number, height: number): void {
+  const copy = createMaskCanvas(mask.width, mask.height, mask);
+  mask.width = width;
+  mask.height = height;
+  const ctx = mask.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(copy, 0, 0);
+}
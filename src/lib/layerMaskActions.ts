@@ -0,0 +1,111 @@
+/**
+ * Layer Mask Actions Module
+ * Adds, toggles, applies and deletes layer masks, recording each change in history
+ * Painting into a mask goes through the regular tools while mask editing is on
+ */
+
+import type { Layer } from './types';
+import Canvas from './canvas';
+import Layers from './layers';
+import History from './history';
+import StateManager from './stateManager';
+import { resolveSelectionMask } from './tools/selectionHelpers';
+
+const LayerMaskActions = (function () {
+  function getLayer(id: string): Layer {
+    const layer = Layers.getLayer(id);
+    if (!layer) {
+      throw new Error('Layer not found');
+    }
+    return layer;
+  }
+
+  function getMaskedLayer(id: string): Layer {
+    const layer = getLayer(id);
+    if (!layer.mask) {
+      throw new Error(`Layer "${layer.name}" has no mask`);
+    }
+    return layer;
+  }
+
+  async function commit(label: string): Promise<void> {
+    await Canvas.triggerRender();
+    await History.saveImmediate(label);
+  }
+
+  /**
+   * Add a mask to a layer
+   * Reveals the current selection when there is one, otherwise the whole layer
+   */
+  async function addMask(id: string): Promise<void> {
+    const layer = getLayer(id);
+    if (layer.mask) {
+      throw new Error(`Layer "${layer.name}" already has a mask`);
+    }
+    const coverage = resolveSelectionMask(
+      StateManager.getState(),
+      Canvas.getWidth(),
+      Canvas.getHeight()
+    );
+    if (!Layers.addLayerMask(id, coverage)) {
+      throw new Error('Failed to add layer mask');
+    }
+    await commit('Add Mask');
+  }
+
+  /**
+   * Enable or disable a layer's mask
+   */
+  async function toggleMask(id: string): Promise<void> {
+    const layer = getMaskedLayer(id);
+    Layers.setLayerMaskEnabled(id, layer.maskEnabled === false);
+    await commit('Toggle Mask');
+  }
+
+  /**
+   * Bake a layer's mask into its pixels and remove it
+   */
+  async function applyMask(id: string): Promise<void> {
+    const layer = getMaskedLayer(id);
+    if (layer.locked) {
+      throw new Error('Cannot apply the mask of a locked layer');
+    }
+    if (!Layers.applyLayerMask(id)) {
+      throw new Error('Failed to apply layer mask');
+    }
+    await commit('Apply Mask');
+  }
+
+  /**
+   * Discard a layer's mask, leaving its pixels untouched
+   */
+  async function deleteMask(id: string): Promise<void> {
+    getMaskedLayer(id);
+    Layers.deleteLayerMask(id);
+    await commit('Delete Mask');
+  }
+
+  /**
+   * Start or stop painting into a layer's mask
+   * Starting makes the layer active; the mode is not part of the document, so no history entry
+   */
+  function editMask(id: string, editing: boolean): void {
+    if (!editing) {
+      Layers.setMaskEditing(false);
+      return;
+    }
+    getMaskedLayer(id);
+    Layers.setActiveLayer(id);
+    Layers.setMaskEditing(true);
+  }
+
+  return {
+    addMask,
+    toggleMask,
+    applyMask,
+    deleteMask,
+    editMask,
+  };
+})();
+
+export default LayerMaskActions;
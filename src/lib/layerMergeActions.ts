@@ -0,0 +1,230 @@
+/**
+ * Layer Merge Actions Module
+ * Merge down, merge visible, merge selected and flatten image
+ * Layers are combined with their opacity and blend mode through applyBlendMode (on the blend
+ * worker when it is running) and every merge is recorded as one history step
+ */
+
+import type { Layer } from './types';
+import Canvas from './canvas';
+import Layers from './layers';
+import History from './history';
+import { applyBlendMode, type BlendMode } from './blendModes';
+import { buildLayerTree, getAncestors, isGroupLayer, type LayerNode } from './layerTree';
+import WorkerManager from './workers/workerManager';
+
+const LayerMergeActions = (function () {
+  function getLayer(id: string): Layer {
+    const layer = Layers.getLayer(id);
+    if (!layer) {
+      throw new Error('Layer not found');
+    }
+    return layer;
+  }
+
+  async function commit(label: string): Promise<void> {
+    await Canvas.triggerRender();
+    await History.saveImmediate(label);
+  }
+
+  /**
+   * Blend an overlay onto a base, off the main thread when possible
+   */
+  async function blend(
+    base: ImageData,
+    overlay: ImageData,
+    blendMode: string,
+    opacity: number
+  ): Promise<ImageData> {
+    if (WorkerManager.isAvailable()) {
+      // The worker takes ownership of the buffers, so send copies
+      return WorkerManager.applyBlendModeAsync(
+        new ImageData(new Uint8ClampedArray(base.data), base.width, base.height),
+        new ImageData(new Uint8ClampedArray(overlay.data), overlay.width, overlay.height),
+        blendMode as BlendMode,
+        opacity
+      );
+    }
+    return applyBlendMode(base, overlay, blendMode as BlendMode, opacity);
+  }
+
+  function getPixels(layer: Layer): ImageData {
+    const pixels = Layers.getCompositeImageData(layer.id);
+    if (!pixels) {
+      throw new Error(`Failed to read pixels for layer "${layer.name}"`);
+    }
+    return pixels;
+  }
+
+  /**
+   * Composite visible layer nodes onto a base, bottom to top
+   * Pass-through groups blend their members into the base; other groups are merged in isolation
+   */
+  async function compositeNodes(
+    base: ImageData,
+    nodes: LayerNode[],
+    opacityScale: number = 1
+  ): Promise<ImageData> {
+    let result = base;
+    for (const { layer, children } of nodes) {
+      if (!layer.visible) continue;
+      const opacity = layer.opacity * opacityScale;
+      if (!isGroupLayer(layer)) {
+        result = await blend(result, getPixels(layer), layer.blendMode, opacity);
+      } else if (layer.passThrough) {
+        result = await compositeNodes(result, children, opacity);
+      } else {
+        const group = await compositeNodes(new ImageData(base.width, base.height), children);
+        result = await blend(result, group, layer.blendMode, opacity);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get the pixel layers that end up in a composite of the given nodes
+   */
+  function getVisiblePixelLayers(nodes: LayerNode[]): Layer[] {
+    return nodes.flatMap(({ layer, children }) => {
+      if (!layer.visible) return [];
+      return isGroupLayer(layer) ? getVisiblePixelLayers(children) : [layer];
+    });
+  }
+
+  /**
+   * Merge the visible layers among a set of layers into one layer
+   * Hidden layers stay; groups are removed once nothing is left inside them
+   * @param ids Layers to merge, closed under group membership
+   */
+  async function mergeLayerSet(ids: Set<string>, name?: string): Promise<Layer> {
+    const layers = Layers.getAllLayers();
+    const tree = buildLayerTree(layers.filter((l) => ids.has(l.id)));
+    const merged = getVisiblePixelLayers(tree);
+    if (merged.length < 2) {
+      throw new Error('Select at least two visible layers to merge');
+    }
+
+    const removedIds = new Set(merged.map((l) => l.id));
+    // Innermost groups come first in list order, so emptied parents are seen after their children
+    for (const layer of layers) {
+      if (!ids.has(layer.id) || !isGroupLayer(layer)) continue;
+      const remaining = layers.some((l) => l.parentId === layer.id && !removedIds.has(l.id));
+      if (!remaining) removedIds.add(layer.id);
+    }
+    for (const id of removedIds) {
+      if (Layers.isLayerLocked(id)) {
+        throw new Error(`Cannot merge locked layer "${getLayer(id).name}"`);
+      }
+    }
+
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    const pixels = await compositeNodes(new ImageData(width, height), tree);
+
+    // The merged layer goes into the innermost group that was not composited into it
+    const top = merged[merged.length - 1]!;
+    const parent = getAncestors(layers, top.id).find((group) => !ids.has(group.id));
+    const layer = Layers.mergeLayers([...removedIds], pixels, name ?? top.name, parent?.id);
+    if (!layer) {
+      throw new Error('Failed to merge layers');
+    }
+    Layers.setSelectedLayers([]);
+    return layer;
+  }
+
+  /**
+   * Add every layer nested inside the given groups
+   */
+  function withGroupMembers(ids: string[]): Set<string> {
+    const layers = Layers.getAllLayers();
+    const result = new Set(ids);
+    for (const layer of layers) {
+      if (getAncestors(layers, layer.id).some((group) => result.has(group.id))) {
+        result.add(layer.id);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Merge a layer into the layer directly below it in the same group
+   * The result keeps the lower layer's name, opacity and blend mode
+   */
+  async function mergeDown(id: string): Promise<void> {
+    const upper = getLayer(id);
+    const siblings = Layers.getAllLayers().filter((l) => l.parentId === upper.parentId);
+    const lower = siblings[siblings.indexOf(upper) - 1];
+    if (!lower) {
+      throw new Error(`There is no layer below "${upper.name}" to merge into`);
+    }
+    if (isGroupLayer(upper) || isGroupLayer(lower)) {
+      throw new Error('Use Merge or Flatten on the group to merge layer groups');
+    }
+    if (!upper.visible) {
+      throw new Error('Cannot merge down a hidden layer');
+    }
+    if (Layers.isLayerLocked(upper.id) || Layers.isLayerLocked(lower.id)) {
+      throw new Error('Cannot merge locked layers');
+    }
+
+    // The mask and background of both layers are baked into the result
+    const pixels = await blend(getPixels(lower), getPixels(upper), upper.blendMode, upper.opacity);
+    Layers.updateLayer(lower.id, {
+      mask: undefined,
+      maskEnabled: undefined,
+      backgroundColor: undefined,
+    });
+    Layers.putImageData(lower.id, pixels);
+    Layers.deleteLayer(upper.id);
+    Layers.setActiveLayer(lower.id);
+    await commit('Merge Down');
+  }
+
+  /**
+   * Merge every visible layer into one; hidden layers are kept
+   */
+  async function mergeVisible(): Promise<void> {
+    const ids = new Set(Layers.getAllLayers().map((l) => l.id));
+    await mergeLayerSet(ids, 'Merged');
+    await commit('Merge Visible');
+  }
+
+  /**
+   * Merge the selected layers (and everything inside selected groups) into one
+   * The result takes the name and stack position of the topmost merged layer
+   */
+  async function mergeSelected(ids: string[]): Promise<void> {
+    await mergeLayerSet(withGroupMembers(ids));
+    await commit('Merge Selected');
+  }
+
+  /**
+   * Flatten the document into a single layer, discarding hidden layers
+   * Locked layers are flattened too
+   */
+  async function flattenImage(): Promise<void> {
+    const layers = Layers.getAllLayers();
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    const pixels = await compositeNodes(new ImageData(width, height), buildLayerTree(layers));
+    const layer = Layers.mergeLayers(
+      layers.map((l) => l.id),
+      pixels,
+      'Background'
+    );
+    if (!layer) {
+      throw new Error('Failed to flatten image');
+    }
+    Layers.setSelectedLayers([]);
+    await commit('Flatten Image');
+  }
+
+  return {
+    mergeDown,
+    mergeVisible,
+    mergeSelected,
+    flattenImage,
+  };
+})();
+
+export default LayerMergeActions;
@@ -0,0 +1,172 @@
+/**
+ * Layer Tree Helpers
+ * Layer groups live in the flat layer list next to pixel layers. Every layer may name its
+ * group through `parentId`; a group's members sit directly below the group entry
+ * (bottom to top: members, then the group), so each group and its contents form one
+ * contiguous block
+ */
+
+import type { Layer } from './types';
+
+export interface LayerNode {
+  layer: Layer;
+  children: LayerNode[]; // Bottom to top
+}
+
+/**
+ * Draw one pixel layer onto a context
+ * @param opacity - Layer opacity already multiplied by any pass-through group opacity
+ */
+export type DrawLayerCallback = (
+  ctx: CanvasRenderingContext2D,
+  layer: Layer,
+  opacity: number
+) => void;
+
+export function isGroupLayer(layer: Layer): boolean {
+  return layer.kind === 'group';
+}
+
+/**
+ * Map a layer blend mode to a canvas composite operation
+ * Every supported blend mode is also a canvas composite operation
+ */
+export function toCompositeOperation(blendMode: string): GlobalCompositeOperation {
+  return blendMode === 'normal' ? 'source-over' : (blendMode as GlobalCompositeOperation);
+}
+
+/**
+ * Get the group a layer belongs to, ignoring parents that are missing, not groups or cyclic
+ */
+function resolveParentId(byId: Map<string, Layer>, layer: Layer): string | null {
+  const visited = new Set<string>([layer.id]);
+  let parentId = layer.parentId;
+  while (parentId) {
+    const parent = byId.get(parentId);
+    if (!parent || !isGroupLayer(parent) || visited.has(parentId)) return null;
+    visited.add(parentId);
+    parentId = parent.parentId;
+  }
+  return layer.parentId ?? null;
+}
+
+/**
+ * Build the group hierarchy from the flat layer list
+ * Layers whose parent is invalid are treated as top-level
+ */
+export function buildLayerTree(layers: Layer[]): LayerNode[] {
+  const byId = new Map(layers.map((layer) => [layer.id, layer]));
+  const nodes = new Map(layers.map((layer) => [layer.id, { layer, children: [] } as LayerNode]));
+  const roots: LayerNode[] = [];
+
+  for (const layer of layers) {
+    const node = nodes.get(layer.id)!;
+    const parentId = resolveParentId(byId, layer);
+    if (parentId) {
+      nodes.get(parentId)!.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
+
+/**
+ * Get the IDs of every layer nested inside a group (at any depth)
+ */
+export function getDescendantIds(layers: Layer[], groupId: string): Set<string> {
+  const descendants = new Set<string>();
+  const byId = new Map(layers.map((layer) => [layer.id, layer]));
+  for (const layer of layers) {
+    let parentId = resolveParentId(byId, layer);
+    while (parentId) {
+      if (parentId === groupId) {
+        descendants.add(layer.id);
+        break;
+      }
+      parentId = resolveParentId(byId, byId.get(parentId)!);
+    }
+  }
+  return descendants;
+}
+
+/**
+ * Get a layer together with everything nested inside it, in list order
+ */
+export function getLayerBlock(layers: Layer[], id: string): Layer[] {
+  const descendants = getDescendantIds(layers, id);
+  return layers.filter((layer) => layer.id === id || descendants.has(layer.id));
+}
+
+/**
+ * Get the groups containing a layer, innermost first
+ */
+export function getAncestors(layers: Layer[], id: string): Layer[] {
+  const byId = new Map(layers.map((layer) => [layer.id, layer]));
+  const ancestors: Layer[] = [];
+  const layer = byId.get(id);
+  let parentId = layer ? resolveParentId(byId, layer) : null;
+  while (parentId) {
+    const parent = byId.get(parentId)!;
+    ancestors.push(parent);
+    parentId = resolveParentId(byId, parent);
+  }
+  return ancestors;
+}
+
+/**
+ * Rebuild the list so every group's members sit directly below it
+ */
+export function normalizeLayerOrder(layers: Layer[]): Layer[] {
+  const ordered: Layer[] = [];
+  const visit = (nodes: LayerNode[]) => {
+    for (const node of nodes) {
+      visit(node.children);
+      ordered.push(node.layer);
+    }
+  };
+  visit(buildLayerTree(layers));
+  return ordered;
+}
+
+/**
+ * Composite layer nodes onto a context with canvas composite operations
+ * Pass-through groups blend their members straight into the context with the group opacity
+ * applied; other groups are composited in isolation first and then blended as one layer
+ */
+export function compositeLayerTree(
+  ctx: CanvasRenderingContext2D,
+  nodes: LayerNode[],
+  width: number,
+  height: number,
+  drawLayer: DrawLayerCallback,
+  opacityScale: number = 1
+): void {
+  for (const { layer, children } of nodes) {
+    if (!layer.visible) continue;
+    const opacity = layer.opacity * opacityScale;
+
+    if (!isGroupLayer(layer)) {
+      drawLayer(ctx, layer, opacity);
+      continue;
+    }
+
+    if (layer.passThrough) {
+      compositeLayerTree(ctx, children, width, height, drawLayer, opacity);
+      continue;
+    }
+
+    const buffer = document.createElement('canvas');
+    buffer.width = width;
+    buffer.height = height;
+    const bufferCtx = buffer.getContext('2d');
+    if (!bufferCtx) continue;
+    compositeLayerTree(bufferCtx, children, width, height, drawLayer);
+
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.globalCompositeOperation = toCompositeOperation(layer.blendMode);
+    ctx.drawImage(buffer, 0, 0, width, height);
+    ctx.restore();
+  }
+}
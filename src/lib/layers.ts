@@ -4,18 +4,36 @@
  * Uses StateManager as single source of truth for layer state
  */
 
-import type { Layer, LayerState } from './types';
+import type { Layer, LayerState, OnionSkinOverlay } from './types';
+import type { LayerInfo } from './historyDelta';
 import Canvas from './canvas';
 import CanvasUtils from './canvasUtils';
 import StateManager from './stateManager';
+import Viewport from './viewport';
 import { isNativeBlendMode, type BlendMode } from './blendModes';
+import {
+  applyMaskToImageData,
+  coverageToMaskImageData,
+  createMaskCanvas,
+  maskValueAt,
+} from './layerMask';
+import {
+  buildLayerTree,
+  compositeLayerTree,
+  getAncestors,
+  getLayerBlock,
+  isGroupLayer,
+  normalizeLayerOrder,
+  toCompositeOperation,
+  type LayerNode,
+} from './layerTree';
 import EventEmitter from './utils/eventEmitter';
 import WorkerManager from './workers/workerManager';
 import { logger } from './utils/logger';
 
 const Layers = (function () {
-  // Maximum number of layers allowed (production limit)
-  const MAX_LAYERS = 10;
+  // Maximum number of layers allowed, groups included (production limit)
+  const MAX_LAYERS = 100;
 
   // Layer state is stored in StateManager, not here
   let mainCanvas: HTMLCanvasElement | null = null;
@@ -39,6 +57,17 @@ const Layers = (function () {
     string,
     { x: number; y: number; width: number; height: number } | null
   >();
+  // Onion skin overlays are supplied by the Timeline module (avoids a circular import)
+  let onionSkinProvider: (() => OnionSkinOverlay[]) | null = null;
+  let onionSkinSuppressed = false;
+  // Layer whose mask receives painting instead of its pixels (see getPaintCanvas)
+  let maskEditLayerId: string | null = null;
+  // Scratch canvas holding the masked copy of the layer being composited
+  let maskScratchCanvas: HTMLCanvasElement | null = null;
+  // Reusable composite canvases of top-level isolated groups, keyed by group ID
+  const groupBuffers = new Map<string, HTMLCanvasElement>();
+  // Layers picked in the Layers panel for multi-layer commands (the active layer is always one)
+  let selectedLayerIds: string[] = [];
 
   /**
    * Type guard: Check if context is valid CanvasRenderingContext2D
@@ -361,6 +390,7 @@ const Layers = (function () {
 
   /**
    * Delete a layer
+   * Deleting a group also deletes everything inside it
    */
   function deleteLayer(id: string): boolean {
     const layers = getLayers();
@@ -370,14 +400,20 @@ const Layers = (function () {
     // Don't allow deleting the last layer
     if (layers.length <= 1) return false;
 
-    const newLayers = layers.filter((l) => l.id !== id);
+    const removedIds = new Set(getLayerBlock(layers, id).map((l) => l.id));
+    const newLayers = layers.filter((l) => !removedIds.has(l.id));
+    // At least one pixel layer has to remain to draw on
+    if (!newLayers.some((l) => !isGroupLayer(l))) return false;
     StateManager.setLayers(newLayers);
 
     // OPTIMIZATION (Item 6): Remove layer bounds when layer is deleted
-    layerBounds.delete(id);
+    removedIds.forEach((removedId) => {
+      layerBounds.delete(removedId);
+      groupBuffers.delete(removedId);
+    });
 
     // If deleted layer was active, switch to another layer
-    if (getActiveLayerId() === id) {
+    if (removedIds.has(getActiveLayerId() ?? '')) {
       StateManager.setActiveLayerId(newLayers.length > 0 ? newLayers[0]!.id : null);
     }
 
@@ -412,6 +448,9 @@ const Layers = (function () {
     const layer = getLayer(id);
     if (!layer) return false;
     StateManager.setActiveLayerId(id);
+    if (maskEditLayerId && maskEditLayerId !== id) {
+      setMaskEditing(false);
+    }
 
     // Emit event for active layer change (StateManager already emitted layers:active)
     EventEmitter.emit('layers:active', {
@@ -458,8 +497,14 @@ const Layers = (function () {
           }
           return snapshot;
         })(),
+        // Masks are copied too so later mask painting cannot alter the snapshot
+        mask: layer.mask
+          ? createMaskCanvas(layer.mask.width, layer.mask.height, layer.mask)
+          : undefined,
       })),
       activeLayerId: getActiveLayerId(),
+      width: CanvasUtils.getWidth(),
+      height: CanvasUtils.getHeight(),
     };
   }
 
@@ -516,6 +561,7 @@ const Layers = (function () {
         }
         return canvas;
       })(),
+      mask: layer.mask ? createMaskCanvas(width, height, layer.mask) : undefined,
     }));
     StateManager.setLayers(layers);
     StateManager.setActiveLayerId(state.activeLayerId);
@@ -524,6 +570,29 @@ const Layers = (function () {
     // New canvases will be cached when first accessed via getCachedContext()
   }
 
+  /**
+   * Internal helper: Set the layer list from recorded layer properties (history deltas)
+   * Layers that still exist keep their canvases and masks; layers brought back get blank
+   * ones for History to fill in
+   */
+  function restoreLayerList(layers: LayerInfo[], activeLayerId: string | null): void {
+    const current = new Map(getLayers().map((layer) => [layer.id, layer]));
+    const width = CanvasUtils.getWidth();
+    const height = CanvasUtils.getHeight();
+
+    const restored = layers.map(({ hasMask, ...info }) => {
+      const existing = current.get(info.id);
+      const canvas = existing?.canvas ?? createLayerCanvas();
+      if (!canvas) {
+        throw new Error('Failed to create layer canvas');
+      }
+      const mask = hasMask ? (existing?.mask ?? createMaskCanvas(width, height)) : undefined;
+      return { ...info, canvas, mask };
+    });
+    StateManager.setLayers(restored);
+    StateManager.setActiveLayerId(activeLayerId);
+  }
+
   /**
    * Internal helper: Restore layers from AppState (for initialization)
    * Creates layers from state.layers array
@@ -535,9 +604,11 @@ const Layers = (function () {
       deleteLayer(layer.id);
     });
 
-    // Create layers from state
+    // Create layers from state (new IDs are generated, so group membership is remapped)
+    const idMap = new Map<string, string>();
     layers.forEach((layer) => {
       const newLayer = createLayer(layer.name, undefined, layer.backgroundColor);
+      idMap.set(layer.id, newLayer.id);
       // Update layer properties
       updateLayer(newLayer.id, {
         visible: layer.visible,
@@ -545,6 +616,13 @@ const Layers = (function () {
         opacity: layer.opacity,
         blendMode: layer.blendMode,
         backgroundColor: layer.backgroundColor,
+        mask: layer.mask
+          ? createMaskCanvas(CanvasUtils.getWidth(), CanvasUtils.getHeight(), layer.mask)
+          : undefined,
+        maskEnabled: layer.maskEnabled,
+        kind: layer.kind,
+        passThrough: layer.passThrough,
+        collapsed: layer.collapsed,
       });
       // Copy canvas content
       const ctx = getCachedContext(newLayer.canvas);
@@ -553,10 +631,15 @@ const Layers = (function () {
         ctx.drawImage(layer.canvas, 0, 0);
       }
     });
+    layers.forEach((layer) => {
+      if (layer.parentId && idMap.has(layer.parentId)) {
+        updateLayer(idMap.get(layer.id)!, { parentId: idMap.get(layer.parentId) });
+      }
+    });
 
     // Set active layer
     if (activeLayerId) {
-      setActiveLayer(activeLayerId);
+      setActiveLayer(idMap.get(activeLayerId) ?? activeLayerId);
     }
   }
 
@@ -606,23 +689,48 @@ const Layers = (function () {
     });
   }
 
+  /**
+   * Register the onion skin overlay provider (pass null to remove it)
+   */
+  function setOnionSkinProvider(provider: (() => OnionSkinOverlay[]) | null): void {
+    onionSkinProvider = provider;
+    renderLayers();
+  }
+
+  /**
+   * Render the main canvas without onion skin overlays while the callback runs
+   * Use this when reading the composite for export
+   */
+  async function withoutOnionSkin<T>(callback: () => T | Promise<T>): Promise<T> {
+    if (!onionSkinProvider) {
+      await renderLayersSync();
+      return callback();
+    }
+    onionSkinSuppressed = true;
+    try {
+      await renderLayersSync();
+      return await callback();
+    } finally {
+      onionSkinSuppressed = false;
+      renderLayers();
+    }
+  }
+
   /**
    * Calculate viewport bounds considering zoom and pan
-   * Returns viewport in canvas coordinates
+   * Returns the part of the document on screen, in canvas coordinates
+   * Falls back to the full canvas until the viewport has been measured
    */
   function getViewportBounds(): { x: number; y: number; width: number; height: number } {
-    const width = CanvasUtils.getWidth();
-    const height = CanvasUtils.getHeight();
-
-    // For now, viewport is the full canvas (no pan implemented yet)
-    // When pan is added, calculate based on scroll position and zoom
-    // Viewport in canvas coordinates (not screen coordinates)
-    // Zoom is available via StateManager.getState().zoom if needed for future pan calculations
+    const visible = Viewport.getVisibleBounds();
+    if (visible) {
+      return visible;
+    }
     return {
       x: 0,
       y: 0,
-      width: width,
-      height: height,
+      width: CanvasUtils.getWidth(),
+      height: CanvasUtils.getHeight(),
     };
   }
 
@@ -646,6 +754,11 @@ const Layers = (function () {
       return true;
     }
 
+    // Groups have no bounds of their own; their members are culled while compositing the group
+    if (isGroupLayer(layer)) {
+      return true;
+    }
+
     // const width = CanvasUtils.getWidth();
     // const height = CanvasUtils.getHeight();
 
@@ -708,6 +821,18 @@ const Layers = (function () {
     }
   }
 
+  /**
+   * Get the tracked content bounds of a layer
+   * @returns Bounds (may be larger than the content), null if the layer is known to be
+   * empty, or undefined if it is not tracked
+   */
+  function getLayerBounds(
+    layerId: string
+  ): { x: number; y: number; width: number; height: number } | null | undefined {
+    const bounds = layerBounds.get(layerId);
+    return bounds ? { ...bounds } : bounds;
+  }
+
   /**
    * OPTIMIZATION (Item 6): Clear layer bounds (when layer is cleared)
    */
@@ -808,21 +933,175 @@ const Layers = (function () {
     logger.warn('[Layers] doRenderLayers: Using fallback direct rendering to mainCtx');
     mainCtx.clearRect(0, 0, width, height);
     for (const layer of visibleLayers) {
-      if (layer.backgroundColor) {
+      if (layer.backgroundColor && !hasActiveMask(layer)) {
         mainCtx.fillStyle = layer.backgroundColor;
         mainCtx.fillRect(0, 0, width, height);
       }
+      const source = getLayerSource(layer, width, height);
       mainCtx.save();
       mainCtx.globalAlpha = layer.opacity;
       mainCtx.globalCompositeOperation =
         layer.blendMode === 'normal'
           ? 'source-over'
           : (layer.blendMode as GlobalCompositeOperation);
-      mainCtx.drawImage(layer.canvas, 0, 0);
+      mainCtx.drawImage(source, 0, 0);
       mainCtx.restore();
     }
   }
 
+  /**
+   * Check whether a layer's mask takes part in compositing
+   */
+  function hasActiveMask(layer: Layer): layer is Layer & { mask: HTMLCanvasElement } {
+    return !!layer.mask && layer.maskEnabled !== false;
+  }
+
+  /**
+   * Get the scratch context used to build masked layer copies
+   * Sized and scaled like the layer canvases
+   */
+  function getMaskScratchContext(width: number, height: number): CanvasRenderingContext2D | null {
+    const devicePixelRatio = CanvasUtils.getDevicePixelRatio();
+    const physicalWidth = width * devicePixelRatio;
+    const physicalHeight = height * devicePixelRatio;
+    if (
+      !maskScratchCanvas ||
+      maskScratchCanvas.width !== physicalWidth ||
+      maskScratchCanvas.height !== physicalHeight
+    ) {
+      maskScratchCanvas = document.createElement('canvas');
+      maskScratchCanvas.width = physicalWidth;
+      maskScratchCanvas.height = physicalHeight;
+      const ctx = getCachedContext(maskScratchCanvas);
+      if (ctx && devicePixelRatio > 1) {
+        ctx.scale(devicePixelRatio, devicePixelRatio);
+      }
+    }
+    return getCachedContext(maskScratchCanvas);
+  }
+
+  /**
+   * Get the pixels of a masked layer with its background color and mask applied
+   * Uses logical dimensions like getImageData
+   */
+  function getMaskedLayerData(
+    layer: Layer & { mask: HTMLCanvasElement },
+    width: number,
+    height: number
+  ): ImageData | null {
+    const ctx = getMaskScratchContext(width, height);
+    const maskCtx = getCachedContext(layer.mask);
+    if (!ctx || !maskCtx) return null;
+
+    // The background color belongs to the layer, so the mask hides it as well
+    ctx.clearRect(0, 0, width, height);
+    if (layer.backgroundColor) {
+      ctx.fillStyle = layer.backgroundColor;
+      ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(layer.canvas, 0, 0);
+    const pixels = ctx.getImageData(0, 0, width, height);
+    return applyMaskToImageData(
+      pixels,
+      maskCtx.getImageData(0, 0, layer.mask.width, layer.mask.height)
+    );
+  }
+
+  /**
+   * Get the layer pixels as they are composited (logical dimensions)
+   */
+  function getLayerPixels(layer: Layer, width: number, height: number): ImageData | null {
+    if (hasActiveMask(layer)) {
+      return getMaskedLayerData(layer, width, height);
+    }
+    const layerCtx = getCachedContext(layer.canvas);
+    return layerCtx ? layerCtx.getImageData(0, 0, width, height) : null;
+  }
+
+  /**
+   * Get the canvas to draw when compositing a layer
+   * Masked layers are drawn from a scratch copy with the mask applied
+   */
+  function getLayerSource(layer: Layer, width: number, height: number): HTMLCanvasElement {
+    if (!hasActiveMask(layer)) return layer.canvas;
+    const masked = getMaskedLayerData(layer, width, height);
+    const ctx = maskScratchCanvas ? getCachedContext(maskScratchCanvas) : null;
+    if (!masked || !ctx || !maskScratchCanvas) return layer.canvas;
+    ctx.putImageData(masked, 0, 0);
+    return maskScratchCanvas;
+  }
+
+  /**
+   * Draw one pixel layer into a group composite
+   */
+  function drawLayerInto(ctx: CanvasRenderingContext2D, layer: Layer, opacity: number): void {
+    const width = CanvasUtils.getWidth();
+    const height = CanvasUtils.getHeight();
+    if (layer.backgroundColor && !hasActiveMask(layer)) {
+      ctx.save();
+      ctx.fillStyle = layer.backgroundColor;
+      ctx.fillRect(0, 0, width, height);
+      ctx.restore();
+    }
+    const source = getLayerSource(layer, width, height);
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.globalCompositeOperation = toCompositeOperation(layer.blendMode);
+    ctx.drawImage(source, 0, 0, width, height);
+    ctx.restore();
+  }
+
+  /**
+   * Composite the members of an isolated group into its reusable logical-size canvas
+   */
+  function renderGroup(node: LayerNode, width: number, height: number): HTMLCanvasElement {
+    let buffer = groupBuffers.get(node.layer.id);
+    if (!buffer || buffer.width !== width || buffer.height !== height) {
+      buffer = document.createElement('canvas');
+      buffer.width = width;
+      buffer.height = height;
+      groupBuffers.set(node.layer.id, buffer);
+    }
+    const ctx = getCachedContext(buffer);
+    if (ctx) {
+      ctx.clearRect(0, 0, width, height);
+      compositeLayerTree(ctx, node.children, width, height, drawLayerInto);
+    }
+    return buffer;
+  }
+
+  /**
+   * Get the visible layers to composite, bottom to top
+   * Pass-through groups contribute their members with the group opacity applied;
+   * isolated groups are replaced by a layer holding their composited members
+   */
+  function getRenderLayers(width: number, height: number): Layer[] {
+    const renderLayers: Layer[] = [];
+    const collect = (nodes: LayerNode[], opacityScale: number) => {
+      for (const node of nodes) {
+        const { layer } = node;
+        if (!layer.visible) continue;
+        if (!isGroupLayer(layer)) {
+          renderLayers.push(
+            opacityScale === 1 ? layer : { ...layer, opacity: layer.opacity * opacityScale }
+          );
+        } else if (layer.passThrough) {
+          collect(node.children, layer.opacity * opacityScale);
+        } else if (typeof document !== 'undefined') {
+          renderLayers.push({
+            ...layer,
+            canvas: renderGroup(node, width, height),
+            opacity: layer.opacity * opacityScale,
+            backgroundColor: undefined,
+            mask: undefined,
+          });
+        }
+      }
+    };
+    collect(buildLayerTree(getLayers()), 1);
+    return renderLayers;
+  }
+
   /**
    * Internal function that performs the actual layer rendering
    * Uses OffscreenCanvas when available for better performance
@@ -868,8 +1147,9 @@ const Layers = (function () {
     // Clear target canvas (full clear for now, dirty regions will be used for drawing)
     targetCtx.clearRect(0, 0, width, height);
 
-    // Calculate viewport bounds for culling
-    const viewport = getViewportBounds();
+    // Cull against the whole document rather than getViewportBounds(): the composite is read
+    // back for export and history, so content scrolled out of view must still be drawn
+    const viewport = { x: 0, y: 0, width, height };
 
     // Create composite canvas for custom blend modes
     let compositeCanvas: HTMLCanvasElement | null = null;
@@ -878,7 +1158,8 @@ const Layers = (function () {
 
     const layers = getLayers();
     // Filter visible layers early for better performance
-    const visibleLayers = layers.filter((layer) => layer.visible);
+    // Groups are resolved into composited stand-ins (see getRenderLayers)
+    const visibleLayers = getRenderLayers(width, height);
 
     logger.debug('[Layers] doRenderLayers: Layer info', {
       totalLayers: layers.length,
@@ -978,8 +1259,8 @@ const Layers = (function () {
     for (const layer of layersToRender) {
       const blendMode = layer.blendMode as BlendMode;
 
-      // Draw layer background color first if set
-      if (layer.backgroundColor) {
+      // Draw layer background color first if set (masked layers include it in their source)
+      if (layer.backgroundColor && !hasActiveMask(layer)) {
         const drawTargetCtx = needsCustomBlending && compositeCtx ? compositeCtx : targetCtx;
         if (drawTargetCtx) {
           drawTargetCtx.save();
@@ -1008,20 +1289,17 @@ const Layers = (function () {
         if (!baseImageData) {
           // First layer - just copy it
           baseImageData = compositeCtx.createImageData(width, height);
-          const layerCtx = getCachedContext(layer.canvas);
-          if (layerCtx) {
-            // Layer context is scaled by DPR, so use logical dimensions
-            // getImageData works with the scaled coordinate system
-            const layerData = layerCtx.getImageData(0, 0, width, height);
+          // Layer context is scaled by DPR, so use logical dimensions
+          // getImageData works with the scaled coordinate system
+          const layerData = getLayerPixels(layer, width, height);
+          if (layerData) {
             baseImageData.data.set(layerData.data);
           }
         } else {
           // Blend with previous layers
-          const layerCtx = getCachedContext(layer.canvas);
-          if (layerCtx) {
-            // Layer context is scaled by DPR, so use logical dimensions
-            const overlayData = layerCtx.getImageData(0, 0, width, height);
-
+          // Layer context is scaled by DPR, so use logical dimensions
+          const overlayData = getLayerPixels(layer, width, height);
+          if (overlayData) {
             // Use worker - require it to be available, no fallbacks
             if (!WorkerManager.isAvailable()) {
               throw new Error(
@@ -1046,6 +1324,7 @@ const Layers = (function () {
 
         const drawTargetCtx = needsCustomBlending && compositeCtx ? compositeCtx : targetCtx;
         if (drawTargetCtx) {
+          const source = getLayerSource(layer, width, height);
           drawTargetCtx.save();
           drawTargetCtx.globalAlpha = layer.opacity;
           // Map 'normal' blend mode to 'source-over' for canvas composite operations
@@ -1066,7 +1345,7 @@ const Layers = (function () {
               drawTargetCtx.beginPath();
               drawTargetCtx.rect(x, y, w, h);
               drawTargetCtx.clip();
-              drawTargetCtx.drawImage(layer.canvas, 0, 0);
+              drawTargetCtx.drawImage(source, 0, 0);
               drawTargetCtx.restore();
               drawTargetCtx.save(); // Restore save state for next iteration
               drawTargetCtx.globalAlpha = layer.opacity;
@@ -1079,7 +1358,7 @@ const Layers = (function () {
             // Full canvas draw
             // Layer canvas and target context are both scaled by DPR, so use logical dimensions
             // drawImage automatically handles the scaling since both canvases have same DPR
-            drawTargetCtx.drawImage(layer.canvas, 0, 0);
+            drawTargetCtx.drawImage(source, 0, 0);
           }
 
           drawTargetCtx.restore();
@@ -1095,6 +1374,16 @@ const Layers = (function () {
       // No explicit cleanup needed as it's scoped to this function
     }
 
+    // Draw onion skin overlays of neighbouring animation frames above the layers
+    if (onionSkinProvider && !onionSkinSuppressed) {
+      for (const overlay of onionSkinProvider()) {
+        targetCtx.save();
+        targetCtx.globalAlpha = overlay.opacity;
+        targetCtx.drawImage(overlay.canvas, 0, 0, width, height);
+        targetCtx.restore();
+      }
+    }
+
     // Transfer from OffscreenCanvas to main canvas if using offscreen
     if (useOffscreen && offscreenCanvas && mainCtx && offscreenCtx) {
       try {
@@ -1242,13 +1531,14 @@ const Layers = (function () {
     const newImageData = newLayerCtx.createImageData(width, height);
     const newData = newImageData.data;
 
+    // Selection masks hold 0-255 coverage; partially selected pixels are split between layers
     for (let i = 0; i < selection.length; i++) {
       if (selection[i]) {
         const idx = i * 4;
         newData[idx] = data[idx]!;
         newData[idx + 1] = data[idx + 1]!;
         newData[idx + 2] = data[idx + 2]!;
-        newData[idx + 3] = data[idx + 3]!;
+        newData[idx + 3] = Math.round((data[idx + 3]! * selection[i]!) / 255);
       }
     }
 
@@ -1262,7 +1552,7 @@ const Layers = (function () {
     for (let i = 0; i < selection.length; i++) {
       if (selection[i]) {
         const idx = i * 4;
-        data[idx + 3] = 0; // Set alpha to 0 (transparent)
+        data[idx + 3] = Math.round((data[idx + 3]! * (255 - selection[i]!)) / 255);
       }
     }
 
@@ -1312,8 +1602,37 @@ const Layers = (function () {
     return true;
   }
 
+  /**
+   * Create a layer-sized canvas with DPR scaling, optionally copying another layer canvas
+   */
+  function createLayerCanvas(source?: HTMLCanvasElement): HTMLCanvasElement | null {
+    const width = CanvasUtils.getWidth();
+    const height = CanvasUtils.getHeight();
+    const devicePixelRatio = CanvasUtils.getDevicePixelRatio();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width * devicePixelRatio;
+    canvas.height = height * devicePixelRatio;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+
+    // Scale context to match device pixel ratio
+    if (devicePixelRatio > 1) {
+      ctx.scale(devicePixelRatio, devicePixelRatio);
+    }
+
+    // Draw the layer (both contexts are scaled, so this works correctly)
+    if (source) {
+      ctx.drawImage(source, 0, 0);
+    }
+    return canvas;
+  }
+
   /**
    * Duplicate a layer
+   * Duplicating a group copies everything inside it
    * Accounts for device pixel ratio for high-DPI displays
    * Enforces maximum layer limit (MAX_LAYERS)
    */
@@ -1323,7 +1642,8 @@ const Layers = (function () {
 
     // Check layer limit before duplicating (production requirement)
     const currentLayers = getLayers();
-    if (currentLayers.length >= MAX_LAYERS) {
+    const block = getLayerBlock(currentLayers, id);
+    if (currentLayers.length + block.length > MAX_LAYERS) {
       const errorMessage = `Maximum layer limit reached (${MAX_LAYERS} layers). Please delete a layer before duplicating.`;
       EventEmitter.emit('layers:error', {
         message: errorMessage,
@@ -1340,47 +1660,33 @@ const Layers = (function () {
       return null;
     }
 
-    const width = CanvasUtils.getWidth();
-    const height = CanvasUtils.getHeight();
-    const devicePixelRatio = CanvasUtils.getDevicePixelRatio();
-    const physicalWidth = width * devicePixelRatio;
-    const physicalHeight = height * devicePixelRatio;
-
-    const newLayerCanvas = document.createElement('canvas');
-    newLayerCanvas.width = physicalWidth;
-    newLayerCanvas.height = physicalHeight;
-    newLayerCanvas.style.width = `${width}px`;
-    newLayerCanvas.style.height = `${height}px`;
-    const newLayerCtx = newLayerCanvas.getContext('2d', { willReadFrequently: true });
-    if (!newLayerCtx) return null;
-
-    // Scale context to match device pixel ratio
-    if (devicePixelRatio > 1) {
-      newLayerCtx.scale(devicePixelRatio, devicePixelRatio);
+    // Copies get new IDs, so members are re-parented to the copied groups
+    const idMap = new Map(block.map((original) => [original.id, generateLayerId()]));
+    const copies: Layer[] = [];
+    for (const original of block) {
+      const canvas = createLayerCanvas(original.canvas);
+      if (!canvas) return null;
+      copies.push({
+        ...original,
+        id: idMap.get(original.id)!,
+        name: original.id === id ? `${original.name} Copy` : original.name,
+        canvas,
+        parentId: original.id === id ? original.parentId : idMap.get(original.parentId ?? ''),
+        mask: original.mask
+          ? createMaskCanvas(original.mask.width, original.mask.height, original.mask)
+          : undefined,
+      });
     }
 
-    // Draw the layer (both contexts are scaled, so this works correctly)
-    newLayerCtx.drawImage(layer.canvas, 0, 0);
-
-    const newLayer: Layer = {
-      id: generateLayerId(),
-      name: `${layer.name} Copy`,
-      canvas: newLayerCanvas,
-      visible: layer.visible,
-      locked: layer.locked,
-      opacity: layer.opacity,
-      blendMode: layer.blendMode,
-    };
-
-    // Add duplicate to layers in StateManager (insert after original)
+    // Add duplicate to layers in StateManager (insert above the original and its members)
     const layers = getLayers();
     const index = layers.findIndex((l) => l.id === id);
     const newLayers = [...layers];
-    newLayers.splice(index + 1, 0, newLayer);
+    newLayers.splice(index + 1, 0, ...copies);
     StateManager.setLayers(newLayers);
 
     renderLayers();
-    return newLayer;
+    return copies[copies.length - 1]!;
   }
 
   /**
@@ -1396,7 +1702,8 @@ const Layers = (function () {
     if (!layer) return false;
 
     newLayers.splice(toIndex, 0, layer);
-    StateManager.setLayers(newLayers);
+    // Keep group members directly below their group
+    StateManager.setLayers(normalizeLayerOrder(newLayers));
     renderLayers();
     return true;
   }
@@ -1440,14 +1747,14 @@ const Layers = (function () {
 
   /**
    * Clear a specific layer by ID
-   * Respects layer locking - will not clear locked layers
+   * Respects layer locking - will not clear locked layers or layers in locked groups
    */
   function clearLayer(id: string): boolean {
     const layer = getLayer(id);
-    if (!layer) return false;
+    if (!layer || isGroupLayer(layer)) return false;
 
     // Don't clear locked layers (professional standard)
-    if (layer.locked) return false;
+    if (isLayerLocked(id)) return false;
 
     const ctx = getCachedContext(layer.canvas);
     if (!ctx) return false;
@@ -1478,7 +1785,7 @@ const Layers = (function () {
 
     for (const layer of layers) {
       // Skip locked layers (professional apps prevent clearing locked layers)
-      if (layer.locked) continue;
+      if (isGroupLayer(layer) || isLayerLocked(layer.id)) continue;
 
       const ctx = getCachedContext(layer.canvas);
       if (ctx) {
@@ -1505,7 +1812,463 @@ const Layers = (function () {
   }
 
   /**
-   * Get maximum number of layers allowed
+   * Add a mask to a layer
+   * @param coverage Optional 8-bit coverage (e.g. the selection) to reveal; reveals everything by default
+   * @returns false if the layer does not exist, is a group or already has a mask
+   */
+  function addLayerMask(id: string, coverage?: Uint8Array | null): boolean {
+    const layer = getLayer(id);
+    if (!layer || isGroupLayer(layer) || layer.mask) return false;
+
+    const width = CanvasUtils.getWidth();
+    const height = CanvasUtils.getHeight();
+    const mask = createMaskCanvas(
+      width,
+      height,
+      coverage ? coverageToMaskImageData(coverage, width, height) : undefined
+    );
+    return updateLayer(id, { mask, maskEnabled: true });
+  }
+
+  /**
+   * Remove a layer's mask without changing its pixels
+   */
+  function deleteLayerMask(id: string): boolean {
+    const layer = getLayer(id);
+    if (!layer?.mask) return false;
+
+    if (maskEditLayerId === id) {
+      setMaskEditing(false);
+    }
+    return updateLayer(id, { mask: undefined, maskEnabled: undefined });
+  }
+
+  /**
+   * Enable or disable a layer's mask while keeping it
+   */
+  function setLayerMaskEnabled(id: string, enabled: boolean): boolean {
+    const layer = getLayer(id);
+    if (!layer?.mask) return false;
+    return updateLayer(id, { maskEnabled: enabled });
+  }
+
+  /**
+   * Bake a layer's mask into its pixels and remove the mask
+   * The background color is baked in too, since the mask hides it as well
+   * Respects layer locking
+   */
+  function applyLayerMask(id: string): boolean {
+    const layer = getLayer(id);
+    if (!layer?.mask || layer.locked) return false;
+
+    const width = CanvasUtils.getWidth();
+    const height = CanvasUtils.getHeight();
+    const layerCtx = getCachedContext(layer.canvas);
+    const masked = getMaskedLayerData({ ...layer, mask: layer.mask }, width, height);
+    if (!layerCtx || !masked) return false;
+
+    layerCtx.putImageData(masked, 0, 0);
+    updateLayerBounds(id, 0, 0, width, height);
+    if (maskEditLayerId === id) {
+      setMaskEditing(false);
+    }
+    return updateLayer(id, { mask: undefined, maskEnabled: undefined, backgroundColor: undefined });
+  }
+
+  /**
+   * Switch painting between the active layer's pixels and its mask
+   * @returns false if editing was requested but the active layer has no mask
+   */
+  function setMaskEditing(editing: boolean): boolean {
+    const activeLayerId = getActiveLayerId();
+    const layer = activeLayerId ? getLayer(activeLayerId) : undefined;
+    if (editing && !layer?.mask) return false;
+
+    const nextId = editing && layer ? layer.id : null;
+    if (nextId === maskEditLayerId) return true;
+    maskEditLayerId = nextId;
+
+    EventEmitter.emit('layers:maskEdit', {
+      layerId: nextId,
+      editing: nextId !== null,
+    });
+    return true;
+  }
+
+  /**
+   * Check whether painting currently goes to the active layer's mask
+   */
+  function isEditingMask(): boolean {
+    if (!maskEditLayerId || maskEditLayerId !== getActiveLayerId()) return false;
+    return !!getLayer(maskEditLayerId)?.mask;
+  }
+
+  /**
+   * Get the canvas that painting tools draw into for a layer
+   * This is the layer's mask while it is being edited, otherwise the layer canvas
+   */
+  function getPaintCanvas(layer: Layer): HTMLCanvasElement {
+    return layer.mask && layer.id === maskEditLayerId ? layer.mask : layer.canvas;
+  }
+
+  /**
+   * Get the pixels painting tools work on for a layer (logical dimensions)
+   * Returns the mask pixels while the layer's mask is being edited
+   */
+  function getPaintImageData(id: string): ImageData | null {
+    const layer = getLayer(id);
+    if (!layer) return null;
+    if (getPaintCanvas(layer) === layer.canvas) return getImageData(id);
+    return getMaskImageData(id);
+  }
+
+  /**
+   * Get the grayscale pixels of a layer's mask
+   */
+  function getMaskImageData(id: string): ImageData | null {
+    const layer = getLayer(id);
+    if (!layer?.mask) return null;
+    const ctx = getCachedContext(layer.mask);
+    return ctx ? ctx.getImageData(0, 0, layer.mask.width, layer.mask.height) : null;
+  }
+
+  /**
+   * Check whether a layer or any group containing it is locked
+   */
+  function isLayerLocked(id: string): boolean {
+    const layers = getLayers();
+    const layer = layers.find((l) => l.id === id);
+    if (!layer) return false;
+    return layer.locked || getAncestors(layers, id).some((group) => group.locked);
+  }
+
+  /**
+   * Find the topmost visible pixel layer showing a pixel at a point (logical coordinates)
+   * Layers inside hidden groups are skipped and masks are taken into account
+   */
+  function getLayerAt(x: number, y: number): Layer | null {
+    if (x < 0 || y < 0 || x >= CanvasUtils.getWidth() || y >= CanvasUtils.getHeight()) {
+      return null;
+    }
+    const layers = getLayers();
+    for (let i = layers.length - 1; i >= 0; i--) {
+      const layer = layers[i]!;
+      if (isGroupLayer(layer) || !layer.visible || layer.opacity <= 0) continue;
+      if (getAncestors(layers, layer.id).some((group) => !group.visible)) continue;
+      if (hasActiveMask(layer)) {
+        const maskCtx = getCachedContext(layer.mask);
+        if (!maskCtx || maskValueAt(maskCtx.getImageData(x, y, 1, 1).data, 0) === 0) continue;
+      }
+      if (layer.backgroundColor) return layer;
+      const ctx = getCachedContext(layer.canvas);
+      if (ctx && ctx.getImageData(x, y, 1, 1).data[3]! > 0) return layer;
+    }
+    return null;
+  }
+
+  /**
+   * Replace a layer and everything inside it with other layers at the same stack position
+   */
+  function replaceLayerBlock(id: string, replacement: Layer[]): void {
+    const layers = getLayers();
+    const removedIds = new Set(getLayerBlock(layers, id).map((l) => l.id));
+    replaceLayers(
+      removedIds,
+      replacement,
+      layers.findIndex((l) => removedIds.has(l.id))
+    );
+  }
+
+  /**
+   * Remove layers and insert others in their place
+   * @param index Position in the current list where the replacement goes
+   */
+  function replaceLayers(removedIds: Set<string>, replacement: Layer[], index: number): void {
+    const layers = getLayers();
+    const keptIds = new Set(replacement.map((l) => l.id));
+    const insertIndex = layers.slice(0, index).filter((l) => !removedIds.has(l.id)).length;
+    const newLayers = layers.filter((l) => !removedIds.has(l.id) && !keptIds.has(l.id));
+    newLayers.splice(insertIndex, 0, ...replacement);
+    StateManager.setLayers(normalizeLayerOrder(newLayers));
+
+    const activeLayerId = getActiveLayerId();
+    if (activeLayerId && !newLayers.some((l) => l.id === activeLayerId)) {
+      const fallback = replacement.find((l) => !isGroupLayer(l)) ?? replacement[0];
+      StateManager.setActiveLayerId(fallback ? fallback.id : null);
+    }
+    removedIds.forEach((removedId) => {
+      if (keptIds.has(removedId)) return;
+      layerBounds.delete(removedId);
+      groupBuffers.delete(removedId);
+      EventEmitter.emit('layers:delete', {
+        deletedId: removedId,
+        layers: getAllLayers(),
+        activeLayerId: getActiveLayerId(),
+      });
+    });
+  }
+
+  /**
+   * Create a layer group
+   * The group is placed above the topmost member (or the active layer when it has no members)
+   * and takes over that layer's parent; members with a different parent are left in place
+   * @param memberIds Layers and groups to move into the new group
+   * @throws Error if layer limit is reached
+   */
+  function createGroup(name: string, memberIds: string[] = []): Layer {
+    const layers = getLayers();
+    const requested = layers.filter((l) => memberIds.includes(l.id));
+    const anchor =
+      requested[requested.length - 1] ?? layers.find((l) => l.id === getActiveLayerId());
+    const parentId = anchor?.parentId;
+    const members = requested.filter((l) => l.parentId === parentId);
+
+    const created = createLayer(name);
+    const group: Layer = { ...created, kind: 'group', passThrough: false, collapsed: false };
+    if (parentId) group.parentId = parentId;
+
+    const memberIdSet = new Set(members.map((l) => l.id));
+    const movedIds = new Set(members.flatMap((l) => getLayerBlock(layers, l.id).map((m) => m.id)));
+    const moved = layers
+      .filter((l) => movedIds.has(l.id))
+      .map((l) => (memberIdSet.has(l.id) ? { ...l, parentId: group.id } : l));
+    // Place the group above the anchor; members below it keep their relative order
+    const anchorIndex = anchor ? layers.indexOf(anchor) : -1;
+    const newLayers: Layer[] = [];
+    layers.forEach((l, i) => {
+      if (!movedIds.has(l.id)) newLayers.push(l);
+      if (i === anchorIndex) newLayers.push(...moved, group);
+    });
+    if (anchorIndex === -1) newLayers.push(group);
+    StateManager.setLayers(newLayers);
+    renderLayers();
+
+    EventEmitter.emit('layers:update', {
+      layerId: group.id,
+      layer: group,
+      updates: { kind: 'group' },
+      layers: getAllLayers(),
+    });
+    return group;
+  }
+
+  /**
+   * Move a layer (with everything inside it) next to another layer or into a group
+   * @param position 'inside' puts the layer at the top of the target group
+   * @returns false if the target is invalid, e.g. a group being moved into itself
+   */
+  function moveLayer(
+    id: string,
+    targetId: string,
+    position: 'above' | 'below' | 'inside'
+  ): boolean {
+    const layers = getLayers();
+    const target = layers.find((l) => l.id === targetId);
+    if (!target || !layers.some((l) => l.id === id)) return false;
+    if (position === 'inside' && !isGroupLayer(target)) return false;
+
+    const block = getLayerBlock(layers, id);
+    const blockIds = new Set(block.map((l) => l.id));
+    if (blockIds.has(targetId)) return false;
+
+    const parentId = position === 'inside' ? targetId : target.parentId;
+    const moved = block.map((l) => (l.id === id ? { ...l, parentId } : l));
+    const rest = layers.filter((l) => !blockIds.has(l.id));
+    const targetIndex = rest.indexOf(target);
+    const insertIndex =
+      position === 'above'
+        ? targetIndex + 1
+        : position === 'inside'
+          ? targetIndex
+          : rest.indexOf(getLayerBlock(rest, targetId)[0]!);
+    rest.splice(insertIndex, 0, ...moved);
+    StateManager.setLayers(rest);
+    renderLayers();
+
+    EventEmitter.emit('layers:update', {
+      layerId: id,
+      layer: moved.find((l) => l.id === id),
+      updates: { parentId },
+      layers: getAllLayers(),
+    });
+    return true;
+  }
+
+  /**
+   * Find a layer in the group hierarchy
+   */
+  function findLayerNode(nodes: LayerNode[], id: string): LayerNode | null {
+    for (const node of nodes) {
+      if (node.layer.id === id) return node;
+      const found = findLayerNode(node.children, id);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  /**
+   * Composite the members of a group into a new pixel layer (not yet added to the stack)
+   */
+  function createGroupComposite(group: Layer, name: string): Layer | null {
+    const layers = getLayers();
+    if (getLayerBlock(layers, group.id).some((l) => isLayerLocked(l.id))) return null;
+    const node = findLayerNode(buildLayerTree(layers), group.id);
+    if (!node || node.children.length === 0 || typeof document === 'undefined') return null;
+
+    const width = CanvasUtils.getWidth();
+    const height = CanvasUtils.getHeight();
+    const buffer = document.createElement('canvas');
+    buffer.width = width;
+    buffer.height = height;
+    const bufferCtx = buffer.getContext('2d', { willReadFrequently: true });
+    const canvas = createLayerCanvas();
+    const ctx = canvas ? getCachedContext(canvas) : null;
+    if (!bufferCtx || !canvas || !ctx) return null;
+
+    compositeLayerTree(bufferCtx, node.children, width, height, drawLayerInto);
+    ctx.putImageData(bufferCtx.getImageData(0, 0, width, height), 0, 0);
+
+    const layer: Layer = {
+      id: generateLayerId(),
+      name,
+      canvas,
+      visible: true,
+      locked: false,
+      opacity: 1,
+      blendMode: 'normal',
+    };
+    layerBounds.set(layer.id, { x: 0, y: 0, width, height });
+    return layer;
+  }
+
+  /**
+   * Merge the visible members of a group into a single layer inside the group
+   * Respects layer locking
+   * @returns The merged layer, or null if the group is empty, locked or not a group
+   */
+  function mergeGroup(id: string): Layer | null {
+    const group = getLayer(id);
+    if (!group || !isGroupLayer(group)) return null;
+    const merged = createGroupComposite(group, `${group.name} Merged`);
+    if (!merged) return null;
+
+    merged.parentId = id;
+    replaceLayerBlock(id, [merged, group]);
+    renderLayers();
+    EventEmitter.emit('layers:update', {
+      layerId: id,
+      layer: group,
+      updates: {},
+      layers: getAllLayers(),
+    });
+    return merged;
+  }
+
+  /**
+   * Replace a group with a single layer holding its composited members
+   * The layer keeps the group's name, visibility, opacity and blend mode
+   * (pass-through groups become normal layers)
+   * Respects layer locking
+   * @returns The flattened layer, or null if the group is empty, locked or not a group
+   */
+  function flattenGroup(id: string): Layer | null {
+    const group = getLayer(id);
+    if (!group || !isGroupLayer(group)) return null;
+    const composite = createGroupComposite(group, group.name);
+    if (!composite) return null;
+
+    const flattened: Layer = {
+      ...composite,
+      visible: group.visible,
+      opacity: group.opacity,
+      blendMode: group.passThrough ? 'normal' : group.blendMode,
+    };
+    if (group.parentId) flattened.parentId = group.parentId;
+    replaceLayerBlock(id, [flattened]);
+    renderLayers();
+    EventEmitter.emit('layers:update', {
+      layerId: flattened.id,
+      layer: flattened,
+      updates: {},
+      layers: getAllLayers(),
+    });
+    return flattened;
+  }
+
+  /**
+   * Pick the layers that multi-layer commands such as Merge Selected work on
+   */
+  function setSelectedLayers(ids: string[]): void {
+    selectedLayerIds = ids.filter((id, i) => getLayer(id) && ids.indexOf(id) === i);
+    EventEmitter.emit('layers:selection', { layerIds: getSelectedLayerIds() });
+  }
+
+  /**
+   * Get the picked layers, falling back to the active layer
+   */
+  function getSelectedLayerIds(): string[] {
+    const ids = selectedLayerIds.filter((id) => getLayer(id));
+    const activeLayerId = getActiveLayerId();
+    if (activeLayerId && !ids.includes(activeLayerId)) ids.push(activeLayerId);
+    return ids;
+  }
+
+  /**
+   * Get a layer's pixels as they are composited: mask and background color applied
+   * Uses logical dimensions like getImageData
+   */
+  function getCompositeImageData(id: string): ImageData | null {
+    const layer = getLayer(id);
+    if (!layer || isGroupLayer(layer)) return null;
+    return getLayerPixels(layer, CanvasUtils.getWidth(), CanvasUtils.getHeight());
+  }
+
+  /**
+   * Replace layers with a single new layer holding already composited pixels
+   * The new layer takes the stack position of the topmost replaced layer
+   * @param ids Layers to remove (groups are only removed when listed themselves)
+   * @param parentId Group to put the new layer in, top level if absent
+   * @returns The new layer, or null if none of the layers exist
+   */
+  function mergeLayers(
+    ids: string[],
+    imageData: ImageData,
+    name: string,
+    parentId?: string
+  ): Layer | null {
+    const layers = getLayers();
+    const removedIds = new Set(ids);
+    const topIndex = layers.findLastIndex((l) => removedIds.has(l.id));
+    const canvas = topIndex === -1 ? null : createLayerCanvas();
+    const ctx = canvas ? getCachedContext(canvas) : null;
+    if (!canvas || !ctx) return null;
+    ctx.putImageData(imageData, 0, 0);
+
+    const merged: Layer = {
+      id: generateLayerId(),
+      name,
+      canvas,
+      visible: true,
+      locked: false,
+      opacity: 1,
+      blendMode: 'normal',
+    };
+    if (parentId) merged.parentId = parentId;
+    layerBounds.set(merged.id, { x: 0, y: 0, width: imageData.width, height: imageData.height });
+
+    replaceLayers(removedIds, [merged], topIndex + 1);
+    StateManager.setActiveLayerId(merged.id);
+    renderLayers();
+    EventEmitter.emit('layers:create', {
+      layer: merged,
+      layers: getAllLayers(),
+      activeLayerId: merged.id,
+    });
+    return merged;
+  }
+
+  /**
+   * Get the maximum number of layers allowed
    */
   function getMaxLayers(): number {
     return MAX_LAYERS;
@@ -1533,6 +2296,29 @@ const Layers = (function () {
     extractSelection: extractSelectionToLayer,
     resize,
     getMaxLayers,
+    getViewportBounds,
+    // Layer masks
+    addLayerMask,
+    deleteLayerMask,
+    setLayerMaskEnabled,
+    applyLayerMask,
+    setMaskEditing,
+    isEditingMask,
+    getPaintCanvas,
+    getPaintImageData,
+    getMaskImageData,
+    // Layer groups
+    createGroup,
+    moveLayer,
+    mergeGroup,
+    flattenGroup,
+    isLayerLocked,
+    getLayerAt,
+    // Merging
+    setSelectedLayers,
+    getSelectedLayerIds,
+    getCompositeImageData,
+    mergeLayers,
     // Long-form API (alternative naming for convenience)
     createLayer,
     deleteLayer,
@@ -1551,6 +2337,7 @@ const Layers = (function () {
     _createLayerSnapshot: createLayerSnapshot,
     _restoreLayersFromState: restoreLayersFromState,
     _restoreLayersFromAppState: restoreLayersFromAppState,
+    _restoreLayerList: restoreLayerList,
     // Expose context cache helpers
     getCachedContext,
     invalidateContextCache,
@@ -1559,8 +2346,12 @@ const Layers = (function () {
     off: EventEmitter.off.bind(EventEmitter),
     // OPTIMIZATION (Item 6): Expose bounds update function for drawing tools
     updateLayerBounds,
+    getLayerBounds,
     // Expose getActiveLayerId for testing
     getActiveLayerId,
+    // Onion skin hooks for the Timeline module
+    setOnionSkinProvider,
+    withoutOnionSkin,
   };
 })();
 
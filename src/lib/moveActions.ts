@@ -0,0 +1,237 @@
+/**
+ * Move Actions Module
+ * Translates the active layer (every layer inside it for groups) or, when there is a
+ * selection, the selected pixels of the active layer together with the selection
+ * A move previews on the layer pixels while it runs and is recorded as one history step
+ * Selected pixels float only for the length of a move; they are dropped back onto the
+ * layer when it is committed
+ */
+
+import type { Layer } from './types';
+import Canvas from './canvas';
+import Layers from './layers';
+import History from './history';
+import IndexedColor from './indexedColor';
+import SelectionMask from './selectionMask';
+import UI from './ui';
+import { getLayerBlock, isGroupLayer } from './layerTree';
+import {
+  dropFloating,
+  liftSelection,
+  translateImageData,
+  translateMask,
+} from './tools/moveHelpers';
+
+interface MoveTarget {
+  layerId: string;
+  canvas: HTMLCanvasElement;
+  original: ImageData;
+}
+
+interface MoveSession {
+  // Canvases shifted as a whole
+  targets: MoveTarget[];
+  // Selected pixels lifted off the active layer, with what they leave behind
+  floating: { target: MoveTarget; pixels: ImageData; remainder: ImageData } | null;
+  selectionMask: Uint8Array | null;
+  dx: number;
+  dy: number;
+}
+
+const MoveActions = (function () {
+  let session: MoveSession | null = null;
+
+  function readCanvas(layerId: string, canvas: HTMLCanvasElement): MoveTarget {
+    const ctx = Layers.getCachedContext(canvas);
+    if (!ctx) {
+      throw new Error('Failed to read layer pixels');
+    }
+    // Masks are read at their own size, layer canvases at logical size like Layers.getImageData
+    const isMask = Layers.getLayer(layerId)?.mask === canvas;
+    const width = isMask ? canvas.width : Canvas.getWidth();
+    const height = isMask ? canvas.height : Canvas.getHeight();
+    return { layerId, canvas, original: ctx.getImageData(0, 0, width, height) };
+  }
+
+  function writeCanvas(target: MoveTarget, imageData: ImageData): void {
+    Layers.getCachedContext(target.canvas)?.putImageData(imageData, 0, 0);
+  }
+
+  /**
+   * Canvases moved with a pixel layer: its mask moves along unless the mask is being
+   * edited, in which case only the mask moves
+   */
+  function getLayerCanvases(layer: Layer): HTMLCanvasElement[] {
+    const paintCanvas = Layers.getPaintCanvas(layer);
+    if (paintCanvas !== layer.canvas) return [paintCanvas];
+    return layer.mask ? [layer.canvas, layer.mask] : [layer.canvas];
+  }
+
+  function getActiveLayer(): Layer {
+    const activeId = Layers.getActiveLayerId();
+    const layer = activeId ? Layers.getLayer(activeId) : undefined;
+    if (!layer) {
+      throw new Error('No active layer to move');
+    }
+    if (Layers.isLayerLocked(layer.id)) {
+      throw new Error(`Layer "${layer.name}" is locked`);
+    }
+    return layer;
+  }
+
+  /**
+   * Start moving the active layer or the current selection
+   * Throws if there is nothing movable; does nothing while a move is already running
+   */
+  function begin(): void {
+    if (session) return;
+    const layer = getActiveLayer();
+    const selectionMask = SelectionMask.get();
+
+    if (selectionMask) {
+      if (isGroupLayer(layer)) {
+        throw new Error('Select a single layer to move selected pixels');
+      }
+      const target = readCanvas(layer.id, Layers.getPaintCanvas(layer));
+      const { floating, remainder } = liftSelection(target.original, selectionMask);
+      session = {
+        targets: [],
+        floating: { target, pixels: floating, remainder },
+        selectionMask,
+        dx: 0,
+        dy: 0,
+      };
+      return;
+    }
+
+    const layers = isGroupLayer(layer)
+      ? getLayerBlock(Layers.getAllLayers(), layer.id).filter((l) => !isGroupLayer(l))
+      : [layer];
+    const targets: MoveTarget[] = [];
+    for (const member of layers) {
+      if (Layers.isLayerLocked(member.id)) {
+        throw new Error(`Layer "${member.name}" is locked`);
+      }
+      for (const canvas of getLayerCanvases(member)) {
+        targets.push(readCanvas(member.id, canvas));
+      }
+    }
+    session = { targets, floating: null, selectionMask: null, dx: 0, dy: 0 };
+  }
+
+  /**
+   * Show the moved pixels at an offset from where the move started
+   */
+  function update(dx: number, dy: number): void {
+    if (!session) return;
+    session.dx = Math.round(dx);
+    session.dy = Math.round(dy);
+    const { floating, selectionMask } = session;
+
+    for (const target of session.targets) {
+      writeCanvas(target, translateImageData(target.original, session.dx, session.dy));
+    }
+    if (floating) {
+      writeCanvas(
+        floating.target,
+        dropFloating(floating.remainder, floating.pixels, session.dx, session.dy)
+      );
+    }
+    if (selectionMask) {
+      UI.showColorRangeOverlay(
+        translateMask(selectionMask, Canvas.getWidth(), Canvas.getHeight(), session.dx, session.dy)
+      );
+    }
+    Layers.renderLayers();
+  }
+
+  /**
+   * Finish the move as one history step
+   * @returns True if anything moved
+   */
+  async function commit(): Promise<boolean> {
+    const current = session;
+    session = null;
+    if (!current) return false;
+    const { dx, dy, selectionMask } = current;
+    if (dx === 0 && dy === 0) {
+      restore(current);
+      return false;
+    }
+
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    const movedIds = new Set(current.targets.map((target) => target.layerId));
+    if (current.floating) {
+      movedIds.add(current.floating.target.layerId);
+    }
+    for (const layerId of movedIds) {
+      Layers.updateLayerBounds(layerId, 0, 0, width, height);
+      // Selected pixels move within the layer, so only whole-layer moves shift the image
+      if (!current.floating) {
+        Canvas.offsetImageLayer(layerId, dx, dy);
+      }
+    }
+    if (selectionMask) {
+      SelectionMask.replace(translateMask(selectionMask, width, height, dx, dy));
+    }
+    if (IndexedColor.isEnabled()) {
+      IndexedColor.syncActiveLayer();
+    }
+
+    await Canvas.triggerRender();
+    await History.saveImmediate('Move');
+    return true;
+  }
+
+  /**
+   * Abandon the move and put the pixels back
+   */
+  function cancel(): void {
+    const current = session;
+    session = null;
+    if (current) {
+      restore(current);
+    }
+  }
+
+  function restore(current: MoveSession): void {
+    for (const target of current.targets) {
+      writeCanvas(target, target.original);
+    }
+    if (current.floating) {
+      writeCanvas(current.floating.target, current.floating.target.original);
+    }
+    if (current.selectionMask) {
+      UI.showColorRangeOverlay(current.selectionMask);
+    }
+    Layers.renderLayers();
+  }
+
+  function isMoving(): boolean {
+    return session !== null;
+  }
+
+  /**
+   * Move the active layer or selection by a fixed amount (arrow-key nudges)
+   * Ignored while a drag is in progress
+   * @returns True if anything moved
+   */
+  async function nudge(dx: number, dy: number): Promise<boolean> {
+    if (session) return false;
+    begin();
+    update(dx, dy);
+    return commit();
+  }
+
+  return {
+    begin,
+    update,
+    commit,
+    cancel,
+    isMoving,
+    nudge,
+  };
+})();
+
+export default MoveActions;
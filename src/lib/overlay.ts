@@ -0,0 +1,496 @@
+/**
+ * Overlay Module
+ * Pixel grid, tile grid, rulers, guides, symmetry axes and the free transform frame,
+ * drawn on a screen-size canvas above the document
+ * Nothing here touches layer pixels, so the overlay never shows up in exports or history
+ * Settings are persisted in the IndexedDB settings store; guides belong to the session
+ */
+
+import type { AppState, Guide, OverlaySettings } from './types';
+import Viewport from './viewport';
+import StateManager from './stateManager';
+import indexedDBStorage from './storage/indexedDB';
+import EventEmitter from './utils/eventEmitter';
+import { RULER_SIZE } from './constants';
+import { getGridLines, getRulerStep, snapToTargets } from './overlayGeometry';
+import { getTransformHandles, type Point } from './tools/transformHelpers';
+import { resolveSymmetry, type Symmetry } from './tools/brushHelpers';
+import { logger } from './utils/logger';
+
+const DEFAULT_SETTINGS: OverlaySettings = {
+  pixelGrid: true,
+  pixelGridMinZoom: 8,
+  tileGrid: false,
+  tileWidth: 16,
+  tileHeight: 16,
+  tileOffsetX: 0,
+  tileOffsetY: 0,
+  guides: true,
+  snapping: false,
+};
+
+// Snapping distance and guide hit area, in CSS pixels
+const SNAP_DISTANCE = 8;
+const GUIDE_HIT_DISTANCE = 4;
+// Size of the transform handles, in CSS pixels
+const TRANSFORM_HANDLE_SIZE = 7;
+// Minimum distance between labelled ruler ticks, in CSS pixels
+const RULER_LABEL_SPACING = 50;
+
+const PIXEL_GRID_COLOR = 'rgba(128, 128, 128, 0.45)';
+const TILE_GRID_COLOR = 'rgba(99, 102, 241, 0.8)';
+const GUIDE_COLOR = 'rgba(0, 200, 255, 0.9)';
+const SYMMETRY_COLOR = 'rgba(255, 80, 200, 0.9)';
+const TRANSFORM_FRAME_COLOR = 'rgba(255, 255, 255, 0.9)';
+const TRANSFORM_HANDLE_BORDER = 'rgba(0, 0, 0, 0.8)';
+const RULER_BACKGROUND = 'rgba(22, 22, 26, 0.9)';
+const RULER_FOREGROUND = 'rgba(255, 255, 255, 0.6)';
+
+const Overlay = (function () {
+  const SETTINGS_KEY = 'overlay' as const;
+  let settings: OverlaySettings = { ...DEFAULT_SETTINGS };
+  let guides: Guide[] = [];
+  let canvas: HTMLCanvasElement | null = null;
+  // Corners of the running free transform, in document pixels
+  let transformFrame: Point[] | null = null;
+  let loadPromise: Promise<void> | null = null;
+
+  function emitChange(): void {
+    EventEmitter.emit('overlay:change', { settings: getSettings(), guides: getGuides() });
+    render();
+  }
+
+  /**
+   * Attach the overlay canvas and redraw whenever the view changes
+   */
+  function init(overlayCanvas: HTMLCanvasElement): void {
+    canvas = overlayCanvas;
+    EventEmitter.off('viewport:change', render);
+    EventEmitter.on('viewport:change', render);
+    EventEmitter.off('state:update', handleStateUpdate);
+    EventEmitter.on('state:update', handleStateUpdate);
+    load().catch((error) => logger.error('Failed to load overlay settings:', error));
+    render();
+  }
+
+  /**
+   * Load saved settings from the settings store (runs once)
+   */
+  function load(): Promise<void> {
+    if (!loadPromise) {
+      loadPromise = (async () => {
+        try {
+          const stored = (await indexedDBStorage.loadSetting(
+            SETTINGS_KEY
+          )) as Partial<OverlaySettings> | null;
+          if (stored && typeof stored === 'object') {
+            settings = normalizeSettings({ ...DEFAULT_SETTINGS, ...stored });
+          }
+        } catch (error) {
+          logger.warn('Failed to load overlay settings, using defaults:', error);
+        }
+        emitChange();
+      })();
+    }
+    return loadPromise;
+  }
+
+  function normalizeSettings(next: OverlaySettings): OverlaySettings {
+    const toSize = (value: number) => Math.max(1, Math.min(4096, Math.round(value) || 1));
+    const toOffset = (value: number) => Math.round(value) || 0;
+    return {
+      ...next,
+      pixelGridMinZoom: Math.max(1, next.pixelGridMinZoom || DEFAULT_SETTINGS.pixelGridMinZoom),
+      tileWidth: toSize(next.tileWidth),
+      tileHeight: toSize(next.tileHeight),
+      tileOffsetX: toOffset(next.tileOffsetX),
+      tileOffsetY: toOffset(next.tileOffsetY),
+    };
+  }
+
+  function getSettings(): OverlaySettings {
+    return { ...settings };
+  }
+
+  /**
+   * Change overlay settings and persist them
+   */
+  async function updateSettings(updates: Partial<OverlaySettings>): Promise<void> {
+    settings = normalizeSettings({ ...settings, ...updates });
+    emitChange();
+    await indexedDBStorage.saveSetting(SETTINGS_KEY, settings);
+  }
+
+  function getGuides(): Guide[] {
+    return guides.map((guide) => ({ ...guide }));
+  }
+
+  function getGuideLimit(orientation: Guide['orientation']): number {
+    const size = Viewport.getDocumentSize();
+    return orientation === 'horizontal' ? size.height : size.width;
+  }
+
+  function clampGuidePosition(orientation: Guide['orientation'], position: number): number {
+    return Math.max(0, Math.min(getGuideLimit(orientation), Math.round(position)));
+  }
+
+  /**
+   * Add a guide at a document pixel boundary
+   */
+  function addGuide(orientation: Guide['orientation'], position: number): Guide {
+    const guide: Guide = {
+      id: `guide-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      orientation,
+      position: clampGuidePosition(orientation, position),
+    };
+    guides = [...guides, guide];
+    emitChange();
+    return { ...guide };
+  }
+
+  function moveGuide(id: string, position: number): void {
+    guides = guides.map((guide) =>
+      guide.id === id
+        ? { ...guide, position: clampGuidePosition(guide.orientation, position) }
+        : guide
+    );
+    emitChange();
+  }
+
+  function removeGuide(id: string): void {
+    guides = guides.filter((guide) => guide.id !== id);
+    emitChange();
+  }
+
+  function clearGuides(): void {
+    guides = [];
+    emitChange();
+  }
+
+  /**
+   * Find the guide under a point in viewport coordinates
+   */
+  function findGuideAt(x: number, y: number): Guide | null {
+    if (!settings.guides) return null;
+    const { zoom, panX, panY } = Viewport.getState();
+    const hit = guides.find((guide) => {
+      const screen =
+        guide.orientation === 'horizontal'
+          ? panY + guide.position * zoom
+          : panX + guide.position * zoom;
+      return Math.abs((guide.orientation === 'horizontal' ? y : x) - screen) <= GUIDE_HIT_DISTANCE;
+    });
+    return hit ? { ...hit } : null;
+  }
+
+  function getSnapTargets(orientation: Guide['orientation']): number[] {
+    const limit = getGuideLimit(orientation);
+    const targets = [0, limit];
+    if (settings.guides) {
+      targets.push(...guides.filter((g) => g.orientation === orientation).map((g) => g.position));
+    }
+    if (settings.tileGrid) {
+      const horizontal = orientation === 'horizontal';
+      const size = horizontal ? settings.tileHeight : settings.tileWidth;
+      const offset = horizontal ? settings.tileOffsetY : settings.tileOffsetX;
+      targets.push(...getGridLines(size, offset, 0, limit));
+    }
+    return targets;
+  }
+
+  /**
+   * Snap a document point to guides, tile grid lines and canvas edges when snapping is on
+   */
+  function snapPoint(x: number, y: number): { x: number; y: number } {
+    if (!settings.snapping) return { x, y };
+    const threshold = SNAP_DISTANCE / Viewport.getState().zoom;
+    return {
+      x: snapToTargets(x, getSnapTargets('vertical'), threshold),
+      y: snapToTargets(y, getSnapTargets('horizontal'), threshold),
+    };
+  }
+
+  /**
+   * Check whether the pixel grid is showing at the current zoom
+   */
+  function isPixelGridVisible(): boolean {
+    return settings.pixelGrid && Viewport.getState().zoom >= settings.pixelGridMinZoom;
+  }
+
+  // Lines are drawn on half pixels so 1px strokes stay crisp
+  function drawVerticalLine(ctx: CanvasRenderingContext2D, x: number, top: number, bottom: number) {
+    const screenX = Math.round(x) + 0.5;
+    ctx.moveTo(screenX, top);
+    ctx.lineTo(screenX, bottom);
+  }
+
+  function drawHorizontalLine(
+    ctx: CanvasRenderingContext2D,
+    y: number,
+    left: number,
+    right: number
+  ) {
+    const screenY = Math.round(y) + 0.5;
+    ctx.moveTo(left, screenY);
+    ctx.lineTo(right, screenY);
+  }
+
+  function drawGrid(
+    ctx: CanvasRenderingContext2D,
+    color: string,
+    columns: number[],
+    rows: number[],
+    bounds: { left: number; top: number; right: number; bottom: number }
+  ): void {
+    const { zoom, panX, panY } = Viewport.getState();
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    for (const column of columns) {
+      drawVerticalLine(ctx, panX + column * zoom, bounds.top, bounds.bottom);
+    }
+    for (const row of rows) {
+      drawHorizontalLine(ctx, panY + row * zoom, bounds.left, bounds.right);
+    }
+    ctx.stroke();
+  }
+
+  function drawRulers(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+    const { zoom, panX, panY } = Viewport.getState();
+    const step = getRulerStep(zoom, RULER_LABEL_SPACING);
+    const minorStep = Math.max(1, step / (step % 5 === 0 ? 5 : 2));
+
+    ctx.fillStyle = RULER_BACKGROUND;
+    ctx.fillRect(0, 0, width, RULER_SIZE);
+    ctx.fillRect(0, 0, RULER_SIZE, height);
+
+    ctx.strokeStyle = RULER_FOREGROUND;
+    ctx.fillStyle = RULER_FOREGROUND;
+    ctx.font = '9px sans-serif';
+    ctx.textBaseline = 'top';
+    ctx.beginPath();
+    const firstColumn = Math.floor(-panX / zoom / minorStep) * minorStep;
+    for (let x = firstColumn; panX + x * zoom <= width; x += minorStep) {
+      const screenX = panX + x * zoom;
+      if (screenX < RULER_SIZE) continue;
+      const major = x % step === 0;
+      drawVerticalLine(ctx, screenX, major ? 0 : RULER_SIZE - 4, RULER_SIZE);
+      if (major) ctx.fillText(String(x), Math.round(screenX) + 2, 1);
+    }
+    const firstRow = Math.floor(-panY / zoom / minorStep) * minorStep;
+    for (let y = firstRow; panY + y * zoom <= height; y += minorStep) {
+      const screenY = panY + y * zoom;
+      if (screenY < RULER_SIZE) continue;
+      const major = y % step === 0;
+      drawHorizontalLine(ctx, screenY, major ? 0 : RULER_SIZE - 4, RULER_SIZE);
+      if (major) {
+        ctx.save();
+        ctx.translate(1, Math.round(screenY) + 2);
+        ctx.rotate(Math.PI / 2);
+        ctx.fillText(String(y), 0, -RULER_SIZE + 2);
+        ctx.restore();
+      }
+    }
+    ctx.stroke();
+  }
+
+  // Symmetry settings live in the app state; redraw the axes when they change
+  function handleStateUpdate({ updates }: { updates: Partial<AppState> }): void {
+    if (
+      'symmetryMode' in updates ||
+      'symmetryAxisX' in updates ||
+      'symmetryAxisY' in updates ||
+      'symmetrySegments' in updates
+    ) {
+      render();
+    }
+  }
+
+  function getSymmetry(width: number, height: number): Symmetry | null {
+    if (!StateManager.isInitialized()) return null;
+    const symmetry = resolveSymmetry(StateManager.getState(), width, height);
+    return symmetry.mode === 'off' ? null : symmetry;
+  }
+
+  /**
+   * Dashed mirror axes, or spokes between the radial segments
+   */
+  function drawSymmetryAxes(
+    ctx: CanvasRenderingContext2D,
+    symmetry: Symmetry,
+    documentSize: { width: number; height: number }
+  ): void {
+    const { zoom, panX, panY } = Viewport.getState();
+    const centerX = panX + symmetry.axisX * zoom;
+    const centerY = panY + symmetry.axisY * zoom;
+    const left = panX;
+    const top = panY;
+    const right = panX + documentSize.width * zoom;
+    const bottom = panY + documentSize.height * zoom;
+
+    ctx.save();
+    ctx.strokeStyle = SYMMETRY_COLOR;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    if (symmetry.mode === 'horizontal' || symmetry.mode === 'both') {
+      drawVerticalLine(ctx, centerX, top, bottom);
+    }
+    if (symmetry.mode === 'vertical' || symmetry.mode === 'both') {
+      drawHorizontalLine(ctx, centerY, left, right);
+    }
+    if (symmetry.mode === 'radial') {
+      // Spokes long enough to reach every corner of the document
+      const length = Math.hypot(right - left, bottom - top);
+      for (let i = 0; i < symmetry.segments; i++) {
+        const angle = (Math.PI * 2 * i) / symmetry.segments - Math.PI / 2;
+        ctx.moveTo(centerX, centerY);
+        ctx.lineTo(centerX + Math.cos(angle) * length, centerY + Math.sin(angle) * length);
+      }
+    }
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  /**
+   * Show the frame and handles of a running free transform, or hide it with null
+   */
+  function setTransformFrame(corners: Point[] | null): void {
+    transformFrame = corners ? corners.map((corner) => ({ ...corner })) : null;
+    render();
+  }
+
+  function drawTransformFrame(
+    ctx: CanvasRenderingContext2D,
+    corners: Point[],
+    zoom: number,
+    panX: number,
+    panY: number
+  ): void {
+    const toScreen = (point: Point) => ({ x: panX + point.x * zoom, y: panY + point.y * zoom });
+    ctx.strokeStyle = TRANSFORM_FRAME_COLOR;
+    ctx.beginPath();
+    corners.forEach((corner, i) => {
+      const screen = toScreen(corner);
+      if (i === 0) {
+        ctx.moveTo(screen.x, screen.y);
+      } else {
+        ctx.lineTo(screen.x, screen.y);
+      }
+    });
+    ctx.closePath();
+    ctx.stroke();
+
+    const half = TRANSFORM_HANDLE_SIZE / 2;
+    ctx.fillStyle = TRANSFORM_FRAME_COLOR;
+    ctx.strokeStyle = TRANSFORM_HANDLE_BORDER;
+    for (const handle of getTransformHandles(corners)) {
+      const screen = toScreen(handle);
+      const left = Math.round(screen.x - half) + 0.5;
+      const top = Math.round(screen.y - half) + 0.5;
+      ctx.fillRect(left, top, TRANSFORM_HANDLE_SIZE, TRANSFORM_HANDLE_SIZE);
+      ctx.strokeRect(left, top, TRANSFORM_HANDLE_SIZE, TRANSFORM_HANDLE_SIZE);
+    }
+  }
+
+  /**
+   * Redraw the overlay for the current view
+   */
+  function render(): void {
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const { width, height } = Viewport.getViewportSize();
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.lineWidth = 1;
+
+    const visible = Viewport.getVisibleBounds();
+    if (!visible) return;
+
+    const { zoom, panX, panY } = Viewport.getState();
+    const documentSize = Viewport.getDocumentSize();
+    const bounds = {
+      left: panX + visible.x * zoom,
+      top: panY + visible.y * zoom,
+      right: panX + (visible.x + visible.width) * zoom,
+      bottom: panY + (visible.y + visible.height) * zoom,
+    };
+    const columnRange = [visible.x, visible.x + visible.width] as const;
+    const rowRange = [visible.y, visible.y + visible.height] as const;
+
+    if (isPixelGridVisible()) {
+      drawGrid(
+        ctx,
+        PIXEL_GRID_COLOR,
+        getGridLines(1, 0, ...columnRange),
+        getGridLines(1, 0, ...rowRange),
+        bounds
+      );
+    }
+
+    if (settings.tileGrid) {
+      drawGrid(
+        ctx,
+        TILE_GRID_COLOR,
+        getGridLines(settings.tileWidth, settings.tileOffsetX, ...columnRange),
+        getGridLines(settings.tileHeight, settings.tileOffsetY, ...rowRange),
+        bounds
+      );
+    }
+
+    const symmetry = getSymmetry(documentSize.width, documentSize.height);
+    if (symmetry) {
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(bounds.left, bounds.top, bounds.right - bounds.left, bounds.bottom - bounds.top);
+      ctx.clip();
+      drawSymmetryAxes(ctx, symmetry, documentSize);
+      ctx.restore();
+    }
+
+    if (transformFrame) {
+      drawTransformFrame(ctx, transformFrame, zoom, panX, panY);
+    }
+
+    if (settings.guides) {
+      ctx.strokeStyle = GUIDE_COLOR;
+      ctx.beginPath();
+      for (const guide of guides) {
+        if (guide.orientation === 'horizontal' && guide.position <= documentSize.height) {
+          drawHorizontalLine(ctx, panY + guide.position * zoom, 0, width);
+        } else if (guide.orientation === 'vertical' && guide.position <= documentSize.width) {
+          drawVerticalLine(ctx, panX + guide.position * zoom, 0, height);
+        }
+      }
+      ctx.stroke();
+      drawRulers(ctx, width, height);
+    }
+  }
+
+  return {
+    init,
+    load,
+    getSettings,
+    updateSettings,
+    getGuides,
+    addGuide,
+    moveGuide,
+    removeGuide,
+    clearGuides,
+    findGuideAt,
+    snapPoint,
+    isPixelGridVisible,
+    setTransformFrame,
+    render,
+    // Expose event emitter for components to subscribe
+    on: EventEmitter.on.bind(EventEmitter),
+    off: EventEmitter.off.bind(EventEmitter),
+  };
+})();
+
+export default Overlay;
@@ -0,0 +1,48 @@
+/**
+ * Overlay Geometry
+ * Grid line placement, ruler spacing and snapping for the canvas overlay
+ * All positions are in document pixels
+ */
+
+// Ruler tick spacings, in document pixels
+const RULER_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000] as const;
+
+/**
+ * Get the positions of grid lines spaced `size` apart (shifted by `offset`) within [from, to]
+ */
+export function getGridLines(size: number, offset: number, from: number, to: number): number[] {
+  if (size < 1) return [];
+  const lines: number[] = [];
+  // Offsets larger than the cell size repeat, so start from the first line at or after `from`
+  const first = from + ((((offset - from) % size) + size) % size);
+  for (let position = first; position <= to; position += size) {
+    lines.push(position);
+  }
+  return lines;
+}
+
+/**
+ * Snap a value to the nearest target within a threshold; ties go to the earlier target
+ * @returns The nearest target, or the value itself when none is close enough
+ */
+export function snapToTargets(value: number, targets: number[], threshold: number): number {
+  let snapped = value;
+  let bestDistance = Infinity;
+  for (const target of targets) {
+    const distance = Math.abs(target - value);
+    if (distance <= threshold && distance < bestDistance) {
+      snapped = target;
+      bestDistance = distance;
+    }
+  }
+  return snapped;
+}
+
+/**
+ * Get the smallest ruler tick spacing that keeps ticks at least `minSpacing` CSS pixels apart
+ */
+export function getRulerStep(zoom: number, minSpacing: number): number {
+  return (
+    RULER_STEPS.find((step) => step * zoom >= minSpacing) ?? RULER_STEPS[RULER_STEPS.length - 1]!
+  );
+}
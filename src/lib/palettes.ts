@@ -0,0 +1,222 @@
+/**
+ * Palettes Module
+ * Named, user-editable swatch palettes persisted in the IndexedDB settings store
+ */
+
+import type { NamedPalette } from './types';
+import indexedDBStorage from './storage/indexedDB';
+import EventEmitter from './utils/eventEmitter';
+import { reduceColorNoise } from './cleanup/colorReducer';
+import { extractUniqueColors } from './cleanup/utils/colorDistance';
+import { isValidHex, rgbToHex } from './colorUtils';
+import { MAX_PALETTE_COLORS, type ParsedPalette } from './formats/palette';
+import { logger } from './utils/logger';
+
+const DEFAULT_PALETTE: NamedPalette = {
+  id: 'default',
+  name: 'Default',
+  colors: [
+    '#000000',
+    '#FFFFFF',
+    '#FF0000',
+    '#00FF00',
+    '#0000FF',
+    '#FFFF00',
+    '#FF00FF',
+    '#00FFFF',
+    '#808080',
+    '#FFA500',
+    '#800080',
+    '#FFC0CB',
+    '#A52A2A',
+    '#000080',
+    '#008000',
+    '#800000',
+    '#FFD700',
+    '#C0C0C0',
+    '#FF6347',
+    '#40E0D0',
+    '#EE82EE',
+    '#90EE90',
+    '#F0E68C',
+    '#DDA0DD',
+  ],
+};
+
+interface StoredPalettes {
+  palettes: NamedPalette[];
+  activeId: string;
+}
+
+/**
+ * Build a palette from the most common colors of an image
+ * Images with more colors than requested are quantized (k-means) first
+ */
+export async function generatePaletteFromImage(
+  imageData: ImageData,
+  maxColors = 16
+): Promise<string[]> {
+  const limit = Math.max(1, Math.min(MAX_PALETTE_COLORS, Math.round(maxColors)));
+  let colors = extractUniqueColors(imageData);
+  if (colors.length > limit) {
+    const quantized = await reduceColorNoise(imageData, { mode: 'quantize', nColors: limit });
+    colors = extractUniqueColors(quantized);
+  }
+  const hexes = colors.map((c) => rgbToHex(c.r, c.g, c.b).toUpperCase());
+  return [...new Set(hexes)].slice(0, limit);
+}
+
+const Palettes = (function () {
+  const SETTINGS_KEY = 'palettes' as const;
+  let palettes: NamedPalette[] = [clonePalette(DEFAULT_PALETTE)];
+  let activeId = DEFAULT_PALETTE.id;
+  let loadPromise: Promise<void> | null = null;
+
+  function clonePalette(palette: NamedPalette): NamedPalette {
+    return { ...palette, colors: [...palette.colors] };
+  }
+
+  function normalizeColors(colors: string[]): string[] {
+    return colors
+      .filter(isValidHex)
+      .map((hex) => hex.toUpperCase())
+      .slice(0, MAX_PALETTE_COLORS);
+  }
+
+  function emitChange(): void {
+    EventEmitter.emit('palettes:change', { palettes: getAll(), activeId });
+  }
+
+  /**
+   * Persist palettes (failures are logged; the in-memory state stays authoritative)
+   */
+  async function persist(): Promise<void> {
+    const stored: StoredPalettes = { palettes, activeId };
+    await indexedDBStorage.saveSetting(SETTINGS_KEY, stored);
+  }
+
+  function commit(): Promise<void> {
+    emitChange();
+    return persist();
+  }
+
+  /**
+   * Load saved palettes from the settings store (runs once)
+   */
+  function load(): Promise<void> {
+    if (!loadPromise) {
+      loadPromise = (async () => {
+        try {
+          const stored = (await indexedDBStorage.loadSetting(
+            SETTINGS_KEY
+          )) as StoredPalettes | null;
+          if (stored && Array.isArray(stored.palettes) && stored.palettes.length > 0) {
+            palettes = stored.palettes.map((p) => ({
+              id: String(p.id),
+              name: String(p.name),
+              colors: normalizeColors(Array.isArray(p.colors) ? p.colors : []),
+            }));
+            activeId = palettes.some((p) => p.id === stored.activeId)
+              ? stored.activeId
+              : palettes[0]!.id;
+          }
+        } catch (error) {
+          logger.warn('Failed to load palettes, using defaults:', error);
+        }
+        emitChange();
+      })();
+    }
+    return loadPromise;
+  }
+
+  /**
+   * Get all palettes (returns copies)
+   */
+  function getAll(): NamedPalette[] {
+    return palettes.map(clonePalette);
+  }
+
+  function getActive(): NamedPalette {
+    const palette = palettes.find((p) => p.id === activeId) ?? palettes[0]!;
+    return clonePalette(palette);
+  }
+
+  function getActiveId(): string {
+    return activeId;
+  }
+
+  async function setActive(id: string): Promise<void> {
+    if (!palettes.some((p) => p.id === id) || id === activeId) return;
+    activeId = id;
+    await commit();
+  }
+
+  /**
+   * Create a palette and make it active
+   * @returns The new palette ID
+   */
+  async function create(palette: ParsedPalette): Promise<string> {
+    const id = `palette-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+    palettes = [
+      ...palettes,
+      {
+        id,
+        name: palette.name.trim() || 'Untitled Palette',
+        colors: normalizeColors(palette.colors),
+      },
+    ];
+    activeId = id;
+    await commit();
+    return id;
+  }
+
+  /**
+   * Apply an edit to a palette's name or colors
+   */
+  async function update(
+    id: string,
+    changes: Partial<Pick<NamedPalette, 'name' | 'colors'>>
+  ): Promise<void> {
+    const index = palettes.findIndex((p) => p.id === id);
+    if (index === -1) return;
+    const current = palettes[index]!;
+    palettes = palettes.map((p, i) =>
+      i === index
+        ? {
+            ...current,
+            name: changes.name !== undefined ? changes.name.trim() || current.name : current.name,
+            colors: changes.colors ? normalizeColors(changes.colors) : current.colors,
+          }
+        : p
+    );
+    await commit();
+  }
+
+  /**
+   * Delete a palette (the last remaining palette cannot be deleted)
+   */
+  async function remove(id: string): Promise<boolean> {
+    if (palettes.length <= 1 || !palettes.some((p) => p.id === id)) return false;
+    palettes = palettes.filter((p) => p.id !== id);
+    if (activeId === id) {
+      activeId = palettes[0]!.id;
+    }
+    await commit();
+    return true;
+  }
+
+  return {
+    load,
+    getAll,
+    getActive,
+    getActiveId,
+    setActive,
+    create,
+    update,
+    remove,
+    on: EventEmitter.on.bind(EventEmitter),
+    off: EventEmitter.off.bind(EventEmitter),
+  };
+})();
+
+export default Palettes;
@@ -0,0 +1,168 @@
+/**
+ * Path Actions Module
+ * Handles actions on stored vector paths (stroke, fill, selection conversion)
+ */
+
+import type { VectorPath } from './types';
+import Canvas from './canvas';
+import History from './history';
+import PixelStudio from './app';
+import PathStore from './pathStore';
+import StateManager from './stateManager';
+import IndexedColor from './indexedColor';
+import SelectionMask from './selectionMask';
+import { hexToRgbaArray } from './colorUtils';
+import { flattenPath, rasterizePath, maskEdges, contourToPath } from './pathGeometry';
+import { traceContour } from './cleanup/utils/contourTrace';
+
+const PathActions = (function () {
+  function getPath(id: string): VectorPath {
+    const path = PathStore.get(id);
+    if (!path) {
+      throw new Error('Path not found');
+    }
+    return path;
+  }
+
+  /**
+   * Generate unique path ID
+   */
+  function generatePathId(): string {
+    return `path_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+
+  async function commitDrawing(label: string): Promise<void> {
+    if (IndexedColor.isEnabled()) {
+      IndexedColor.syncActiveLayer();
+    }
+    await Canvas.triggerRender();
+    await History.saveImmediate(label);
+  }
+
+  /**
+   * Stroke a path with the current brush through the pencil stamping pipeline
+   */
+  async function strokePath(id: string): Promise<void> {
+    const path = getPath(id);
+    const pencil = PixelStudio.getTool('pencil');
+    if (!pencil || typeof pencil.strokePoints !== 'function') {
+      throw new Error('Pencil tool is not available');
+    }
+
+    const points = flattenPath(path);
+    if (points.length === 0) return;
+    if (path.closed) {
+      points.push(points[0]!);
+    }
+    (pencil.strokePoints as (points: { x: number; y: number }[]) => void)(points);
+    await commitDrawing('Stroke Path');
+  }
+
+  /**
+   * Fill the inside of a path with the foreground color (open paths are closed implicitly)
+   */
+  async function fillPath(id: string): Promise<void> {
+    const path = getPath(id);
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    const mask = rasterizePath(path, width, height);
+
+    const state = StateManager.getState();
+    let [r, g, b, a] = hexToRgbaArray(state.currentColor, state.currentAlpha);
+    const replace = IndexedColor.isEnabled();
+    if (replace) {
+      // Indexed documents only hold palette colors, so pixels are replaced rather than blended
+      const { color } = IndexedColor.resolveColor(state.currentColor);
+      ({ r, g, b, a } = color);
+    }
+
+    const imageData = Canvas.getImageData();
+    const data = imageData.data;
+    const srcAlpha = a / 255;
+    for (let i = 0; i < mask.length; i++) {
+      if (!mask[i]) continue;
+      const idx = i * 4;
+      if (replace || srcAlpha >= 1) {
+        data[idx] = r;
+        data[idx + 1] = g;
+        data[idx + 2] = b;
+        data[idx + 3] = a;
+        continue;
+      }
+      // Source-over compositing
+      const dstAlpha = data[idx + 3]! / 255;
+      const outAlpha = srcAlpha + dstAlpha * (1 - srcAlpha);
+      if (outAlpha === 0) continue;
+      for (let c = 0; c < 3; c++) {
+        const src = [r, g, b][c]!;
+        data[idx + c] = Math.round(
+          (src * srcAlpha + data[idx + c]! * dstAlpha * (1 - srcAlpha)) / outAlpha
+        );
+      }
+      data[idx + 3] = Math.round(outAlpha * 255);
+    }
+
+    Canvas.putImageData(imageData);
+    await commitDrawing('Fill Path');
+  }
+
+  /**
+   * Load a path as a selection, combined with the current selection mode
+   */
+  function pathToSelection(id: string): void {
+    const path = getPath(id);
+    if (flattenPath(path).length < 3) {
+      throw new Error('A path needs at least three points to become a selection');
+    }
+    SelectionMask.apply(rasterizePath(path, Canvas.getWidth(), Canvas.getHeight()));
+  }
+
+  /**
+   * Trace the outline of the current selection into new paths (one per contour)
+   * @returns IDs of the created paths
+   */
+  function selectionToPath(): string[] {
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    const mask = SelectionMask.get();
+    if (!mask) {
+      throw new Error('Make a selection first');
+    }
+
+    // traceContour always starts from the first edge pixel, so traced pixels are cleared
+    // before looking for the next contour
+    const edges = maskEdges(mask, width, height);
+    const created: string[] = [];
+    let start = edges.indexOf(1);
+    while (start !== -1) {
+      const contour = traceContour(edges, width, height, start % width, Math.floor(start / width));
+      edges[start] = 0;
+      if (contour) {
+        for (const point of contour.points) {
+          edges[point.y * width + point.x] = 0;
+        }
+        const index = PathStore.getAll().length + 1;
+        const path = contourToPath(contour.points, generatePathId(), `Selection Path ${index}`);
+        if (path) {
+          PathStore.upsert(path);
+          created.push(path.id);
+        }
+      }
+      start = edges.indexOf(1, start);
+    }
+
+    if (created.length === 0) {
+      throw new Error('The selection is too small to trace');
+    }
+    return created;
+  }
+
+  return {
+    strokePath,
+    fillPath,
+    pathToSelection,
+    selectionToPath,
+  };
+})();
+
+export default PathActions;
@@ -0,0 +1,237 @@
+/**
+ * Path Geometry
+ * Flattening, rasterization and contour fitting for vector paths
+ * A segment between two anchors is a cubic Bézier using the first anchor's outHandle
+ * and the second anchor's inHandle (a missing handle sits on its anchor)
+ */
+
+import type { PathAnchor, VectorPath } from './types';
+import type { Point } from './cleanup/utils/contourTrace';
+import { MASK_SELECTED } from './tools/selectionHelpers';
+
+const MIN_SEGMENT_STEPS = 4;
+const MAX_SEGMENT_STEPS = 64;
+// Partially selected (feathered) pixels count as selected from half coverage up
+const HALF_SELECTED = 128;
+
+function cubicPoint(p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point {
+  const mt = 1 - t;
+  const a = mt * mt * mt;
+  const b = 3 * mt * mt * t;
+  const c = 3 * mt * t * t;
+  const d = t * t * t;
+  return {
+    x: a * p0.x + b * p1.x + c * p2.x + d * p3.x,
+    y: a * p0.y + b * p1.y + c * p2.y + d * p3.y,
+  };
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+/**
+ * Get the segments of a path as [start, control1, control2, end] tuples
+ */
+export function getPathSegments(path: VectorPath): [Point, Point, Point, Point][] {
+  const { anchors } = path;
+  const segments: [Point, Point, Point, Point][] = [];
+  const count = path.closed ? anchors.length : anchors.length - 1;
+  for (let i = 0; i < count; i++) {
+    const from: PathAnchor = anchors[i]!;
+    const to: PathAnchor = anchors[(i + 1) % anchors.length]!;
+    segments.push([
+      { x: from.x, y: from.y },
+      from.outHandle ?? { x: from.x, y: from.y },
+      to.inHandle ?? { x: to.x, y: to.y },
+      { x: to.x, y: to.y },
+    ]);
+  }
+  return segments;
+}
+
+/**
+ * Convert a path to a polyline
+ * Curved segments are subdivided roughly every 2px; a closed path does not repeat its first point
+ */
+export function flattenPath(path: VectorPath): Point[] {
+  if (path.anchors.length === 0) return [];
+  const first = path.anchors[0]!;
+  const points: Point[] = [{ x: first.x, y: first.y }];
+
+  for (const [p0, p1, p2, p3] of getPathSegments(path)) {
+    const straight = p1.x === p0.x && p1.y === p0.y && p2.x === p3.x && p2.y === p3.y;
+    if (straight) {
+      points.push(p3);
+      continue;
+    }
+    const hullLength = distance(p0, p1) + distance(p1, p2) + distance(p2, p3);
+    const steps = Math.max(
+      MIN_SEGMENT_STEPS,
+      Math.min(MAX_SEGMENT_STEPS, Math.ceil(hullLength / 2))
+    );
+    for (let s = 1; s <= steps; s++) {
+      points.push(cubicPoint(p0, p1, p2, p3, s / steps));
+    }
+  }
+
+  if (path.closed && points.length > 1) {
+    const last = points[points.length - 1]!;
+    if (last.x === first.x && last.y === first.y) points.pop();
+  }
+  return points;
+}
+
+/**
+ * Mark the pixels whose centers lie exactly on a line segment
+ */
+const ON_LINE_EPSILON = 1e-6;
+
+function markSegmentCenters(
+  a: Point,
+  b: Point,
+  mask: Uint8Array,
+  width: number,
+  height: number
+): void {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const horizontal = Math.abs(dx) >= Math.abs(dy);
+  const major = horizontal ? dx : dy;
+  const from = horizontal ? Math.min(a.x, b.x) : Math.min(a.y, b.y);
+  const to = horizontal ? Math.max(a.x, b.x) : Math.max(a.y, b.y);
+
+  for (let m = Math.ceil(from - 0.5); m <= Math.floor(to - 0.5); m++) {
+    const t = major === 0 ? 0 : (m + 0.5 - (horizontal ? a.x : a.y)) / major;
+    const minor = (horizontal ? a.y + t * dy : a.x + t * dx) - 0.5;
+    const n = Math.round(minor);
+    if (Math.abs(minor - n) > ON_LINE_EPSILON) continue;
+    const x = horizontal ? m : n;
+    const y = horizontal ? n : m;
+    if (x >= 0 && x < width && y >= 0 && y < height) {
+      mask[y * width + x] = MASK_SELECTED;
+    }
+  }
+}
+
+/**
+ * Rasterize a closed polygon into a selection mask (255 = inside)
+ * Pixels are inside when their center is inside the polygon (even-odd rule) or on its outline,
+ * so a path traced through pixel centers rasterizes back to the same pixels
+ */
+export function rasterizePolygon(points: Point[], width: number, height: number): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  if (points.length < 3) return mask;
+
+  for (let y = 0; y < height; y++) {
+    const cy = y + 0.5;
+    const crossings: number[] = [];
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+      const a = points[i]!;
+      const b = points[j]!;
+      if (a.y > cy !== b.y > cy) {
+        crossings.push(a.x + ((cy - a.y) * (b.x - a.x)) / (b.y - a.y));
+      }
+    }
+    crossings.sort((p, q) => p - q);
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      const start = Math.max(0, Math.ceil(crossings[k]! - 0.5));
+      const end = Math.min(width - 1, Math.floor(crossings[k + 1]! - 0.5));
+      for (let x = start; x <= end; x++) {
+        mask[y * width + x] = MASK_SELECTED;
+      }
+    }
+  }
+
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    markSegmentCenters(points[j]!, points[i]!, mask, width, height);
+  }
+  return mask;
+}
+
+/**
+ * Rasterize a path (open paths are closed implicitly) into a mask
+ */
+export function rasterizePath(path: VectorPath, width: number, height: number): Uint8Array {
+  return rasterizePolygon(flattenPath({ ...path, closed: true }), width, height);
+}
+
+function perpendicularDistance(point: Point, start: Point, end: Point): number {
+  const length = distance(start, end);
+  if (length === 0) return distance(point, start);
+  return (
+    Math.abs((end.x - start.x) * (start.y - point.y) - (start.x - point.x) * (end.y - start.y)) /
+    length
+  );
+}
+
+/**
+ * Reduce a polyline with the Ramer-Douglas-Peucker algorithm
+ */
+export function simplifyPolyline(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 2) return [...points];
+
+  let maxDistance = 0;
+  let index = 0;
+  const last = points.length - 1;
+  for (let i = 1; i < last; i++) {
+    const d = perpendicularDistance(points[i]!, points[0]!, points[last]!);
+    if (d > maxDistance) {
+      maxDistance = d;
+      index = i;
+    }
+  }
+
+  if (maxDistance <= tolerance) {
+    return [points[0]!, points[last]!];
+  }
+  const left = simplifyPolyline(points.slice(0, index + 1), tolerance);
+  const right = simplifyPolyline(points.slice(index), tolerance);
+  return [...left.slice(0, -1), ...right];
+}
+
+/**
+ * Build a mask edge map (1 = selected pixel touching an unselected pixel or the canvas border)
+ * Pixels count as selected from half coverage up
+ */
+export function maskEdges(mask: Uint8Array, width: number, height: number): Uint8Array {
+  const edges = new Uint8Array(width * height);
+  const selected = (x: number, y: number) =>
+    x >= 0 && x < width && y >= 0 && y < height && mask[y * width + x]! >= HALF_SELECTED;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!selected(x, y)) continue;
+      if (
+        !selected(x - 1, y) ||
+        !selected(x + 1, y) ||
+        !selected(x, y - 1) ||
+        !selected(x, y + 1)
+      ) {
+        edges[y * width + x] = 1;
+      }
+    }
+  }
+  return edges;
+}
+
+/**
+ * Convert a traced contour (pixel coordinates) to a closed straight-segment path
+ * Anchors sit on pixel centers; collinear runs are merged
+ */
+export function contourToPath(
+  points: Point[],
+  id: string,
+  name: string,
+  tolerance = 0.75
+): VectorPath | null {
+  const centers = points.map((p) => ({ x: p.x + 0.5, y: p.y + 0.5 }));
+  const simplified = simplifyPolyline([...centers, centers[0]!], tolerance).slice(0, -1);
+  if (simplified.length < 3) return null;
+  return {
+    id,
+    name,
+    anchors: simplified.map((p) => ({ x: p.x, y: p.y })),
+    closed: true,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Path Store Module
+ * Holds the vector paths that belong to the current document
+ * Paths are plain data (no canvas references) so they can be serialized with the project
+ */
+
+import type { VectorPath } from './types';
+import EventEmitter from './utils/eventEmitter';
+
+const PathStore = (function () {
+  let paths: VectorPath[] = [];
+
+  /**
+   * Deep copy a path so callers never mutate stored anchors
+   */
+  function clonePath(path: VectorPath): VectorPath {
+    return {
+      ...path,
+      anchors: path.anchors.map((anchor) => ({
+        x: anchor.x,
+        y: anchor.y,
+        ...(anchor.inHandle ? { inHandle: { ...anchor.inHandle } } : {}),
+        ...(anchor.outHandle ? { outHandle: { ...anchor.outHandle } } : {}),
+      })),
+    };
+  }
+
+  function emitChange(): void {
+    EventEmitter.emit('paths:change', { paths: getAll() });
+  }
+
+  /**
+   * Get all paths (returns copies)
+   */
+  function getAll(): VectorPath[] {
+    return paths.map(clonePath);
+  }
+
+  /**
+   * Get a path by ID
+   */
+  function get(id: string): VectorPath | undefined {
+    const path = paths.find((p) => p.id === id);
+    return path ? clonePath(path) : undefined;
+  }
+
+  /**
+   * Add a path, or replace the stored path with the same ID
+   */
+  function upsert(path: VectorPath): void {
+    const index = paths.findIndex((p) => p.id === path.id);
+    if (index === -1) {
+      paths = [...paths, clonePath(path)];
+    } else {
+      paths = paths.map((p, i) => (i === index ? clonePath(path) : p));
+    }
+    emitChange();
+  }
+
+  /**
+   * Remove a path by ID
+   */
+  function remove(id: string): boolean {
+    const next = paths.filter((p) => p.id !== id);
+    if (next.length === paths.length) return false;
+    paths = next;
+    emitChange();
+    return true;
+  }
+
+  /**
+   * Replace every path (used when opening a document)
+   */
+  function setAll(newPaths: VectorPath[]): void {
+    paths = newPaths.map(clonePath);
+    emitChange();
+  }
+
+  /**
+   * Remove all paths
+   */
+  function clear(): void {
+    paths = [];
+    emitChange();
+  }
+
+  return {
+    getAll,
+    get,
+    upsert,
+    remove,
+    setAll,
+    clear,
+    on: EventEmitter.on.bind(EventEmitter),
+    off: EventEmitter.off.bind(EventEmitter),
+  };
+})();
+
+export default PathStore;
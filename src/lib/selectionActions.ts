@@ -7,47 +7,38 @@ import Canvas from './canvas';
 import Layers from './layers';
 import History from './history';
 import PixelStudio from './app';
+import IndexedColor from './indexedColor';
+import { MASK_SELECTED, getMaskBounds, resolveSelectionMask } from './tools/selectionHelpers';
 
 const SelectionActions = (function () {
   /**
    * Delete selected pixels
+   * Partially selected pixels keep the unselected share of their alpha
    */
   function deleteSelection(): boolean {
     const state = PixelStudio.getState();
     if (!state) return false;
 
-    if (state.colorRangeSelection) {
-      // Delete pixels in color range selection
-      const imageData = Canvas.getImageData();
-      const data = imageData.data;
-      const selection = state.colorRangeSelection;
-
-      for (let i = 0; i < selection.length; i++) {
-        if (selection[i]) {
-          const idx = i * 4;
-          data[idx + 3] = 0; // Set alpha to 0 (transparent)
-        }
-      }
+    const mask = resolveSelectionMask(state, Canvas.getWidth(), Canvas.getHeight());
+    if (!mask) return false;
 
-      Canvas.putImageData(imageData);
-      PixelStudio.clearSelection();
-      History.save();
-      return true;
-    } else if (state.selection) {
-      // Delete rectangular selection
-      const ctx = Canvas.getContext();
-      ctx.clearRect(
-        state.selection.x,
-        state.selection.y,
-        state.selection.width,
-        state.selection.height
-      );
-      PixelStudio.clearSelection();
-      History.save();
-      return true;
+    const imageData = Canvas.getImageData();
+    const data = imageData.data;
+    for (let i = 0; i < mask.length; i++) {
+      const coverage = mask[i]!;
+      if (coverage) {
+        const idx = i * 4 + 3;
+        data[idx] = Math.round((data[idx]! * (MASK_SELECTED - coverage)) / MASK_SELECTED);
+      }
     }
 
-    return false;
+    Canvas.putImageData(imageData);
+    if (IndexedColor.isEnabled()) {
+      IndexedColor.syncActiveLayer();
+    }
+    PixelStudio.clearSelection();
+    History.save('Delete');
+    return true;
   }
 
   /**
@@ -88,80 +79,19 @@ const SelectionActions = (function () {
       Layers.render();
     }
 
-    if (state.colorRangeSelection) {
-      // Extract pixel-based selection
-      const selection = state.colorRangeSelection;
-      const bounds = state.selection;
-
-      if (!bounds) {
-        // Calculate bounds from selection
-        const width = Canvas.getWidth();
-        const height = Canvas.getHeight();
-        let minX = width;
-        let minY = height;
-        let maxX = 0;
-        let maxY = 0;
-
-        for (let i = 0; i < selection.length; i++) {
-          if (selection[i]) {
-            const x = i % width;
-            const y = Math.floor(i / width);
-            minX = Math.min(minX, x);
-            minY = Math.min(minY, y);
-            maxX = Math.max(maxX, x);
-            maxY = Math.max(maxY, y);
-          }
-        }
-
-        const calculatedBounds = {
-          x: minX,
-          y: minY,
-          width: maxX - minX + 1,
-          height: maxY - minY + 1,
-        };
-
-        const newLayer = Layers.extractSelection(selection, calculatedBounds);
-        if (newLayer) {
-          PixelStudio.clearSelection();
-          History.save();
-          // State automatically updated via StateManager from Layers module
-          return true;
-        }
-      } else {
-        const newLayer = Layers.extractSelection(selection, bounds);
-        if (newLayer) {
-          PixelStudio.clearSelection();
-          History.save();
-          // State automatically updated via StateManager from Layers module
-          return true;
-        }
-      }
-    } else if (state.selection) {
-      // Extract rectangular selection
-      const width = Canvas.getWidth();
-      const height = Canvas.getHeight();
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    const mask = resolveSelectionMask(state, width, height);
+    const bounds = mask ? getMaskBounds(mask, width, height) : null;
+    if (!mask || !bounds) return false;
 
-      // Create selection mask
-      const selection = new Uint8Array(width * height);
-      const { x, y, width: selWidth, height: selHeight } = state.selection;
-
-      for (let py = y; py < y + selHeight && py < height; py++) {
-        for (let px = x; px < x + selWidth && px < width; px++) {
-          const idx = py * width + px;
-          selection[idx] = 1;
-        }
-      }
-
-      const newLayer = Layers.extractSelection(selection, state.selection);
-      if (newLayer) {
-        PixelStudio.clearSelection();
-        History.save();
-        // State automatically updated via StateManager from Layers module
-        return true;
-      }
-    }
+    const newLayer = Layers.extractSelection(mask, bounds);
+    if (!newLayer) return false;
 
-    return false;
+    PixelStudio.clearSelection();
+    History.save('Extract to Layer');
+    // State automatically updated via StateManager from Layers module
+    return true;
   }
 
   // Public API
@@ -0,0 +1,79 @@
+/**
+ * Selection Mask Module
+ * Single entry point for committing selections: every selection tool builds an 8-bit mask
+ * and hands it here to be feathered, combined with the current selection mode and displayed
+ */
+
+import Canvas from './canvas';
+import PixelStudio from './app';
+import StateManager from './stateManager';
+import UI from './ui';
+import {
+  combineSelections,
+  featherSelection,
+  getMaskBounds,
+  resolveSelectionMask,
+} from './tools/selectionHelpers';
+
+const SelectionMask = (function () {
+  /**
+   * Get the current selection as a mask
+   * @returns Mask, or null if there is no selection
+   */
+  function get(): Uint8Array | null {
+    return resolveSelectionMask(StateManager.getState(), Canvas.getWidth(), Canvas.getHeight());
+  }
+
+  /**
+   * Commit a new selection shape
+   * Applies the feather radius and combines with the existing selection using the
+   * current selection mode; an empty result clears the selection
+   * @param options.feather - Set false for shapes that must not be feathered again
+   * @returns True if anything is selected afterwards
+   */
+  function apply(shape: Uint8Array, options: { feather?: boolean } = {}): boolean {
+    const state = StateManager.getState();
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    const mode = state.selectionMode || 'replace';
+
+    const feathered =
+      options.feather !== false && state.selectionFeather > 0
+        ? featherSelection(shape, state.selectionFeather, width, height)
+        : shape;
+    return replace(combineSelections(state.selectionMask, feathered, mode, width, height));
+  }
+
+  /**
+   * Replace the selection with a mask as is, without feathering or combining
+   * (e.g. after the selected pixels were moved); an empty mask clears the selection
+   * @returns True if anything is selected afterwards
+   */
+  function replace(mask: Uint8Array): boolean {
+    const state = StateManager.getState();
+    const bounds = getMaskBounds(mask, Canvas.getWidth(), Canvas.getHeight());
+
+    if (!bounds) {
+      PixelStudio.clearSelection();
+      return false;
+    }
+
+    StateManager.setSelection({
+      ...bounds,
+      mode: state.selectionMode || 'replace',
+      feather: state.selectionFeather,
+      antiAlias: state.selectionAntiAlias,
+    });
+    StateManager.setSelectionMask(mask);
+    UI.showColorRangeOverlay(mask);
+    return true;
+  }
+
+  return {
+    get,
+    apply,
+    replace,
+  };
+})();
+
+export default SelectionMask;
@@ -4,9 +4,11 @@
  * Emits events on changes and integrates with React
  */
 
-import type { AppState, PressureCurveType } from './types';
+import type { AppState, PressureCurveType, SymmetryMode } from './types';
 import EventEmitter from './utils/eventEmitter';
+import { MAX_ZOOM, MIN_ZOOM } from './constants';
 import { logger } from './utils/logger';
+import { parseDitherPattern } from './dither';
 
 const StateManager = (function () {
   // Single source of truth
@@ -22,9 +24,7 @@ const StateManager = (function () {
       ...initialState,
       layers: initialState.layers ? [...initialState.layers] : [],
       selection: initialState.selection ? { ...initialState.selection } : null,
-      colorRangeSelection: initialState.colorRangeSelection
-        ? new Uint8Array(initialState.colorRangeSelection)
-        : null,
+      selectionMask: initialState.selectionMask ? new Uint8Array(initialState.selectionMask) : null,
     };
   }
 
@@ -72,7 +72,7 @@ const StateManager = (function () {
     const hasNestedChanges =
       updates.layers !== undefined ||
       updates.selection !== undefined ||
-      updates.colorRangeSelection !== undefined;
+      updates.selectionMask !== undefined;
 
     // If no nested changes and only simple property updates, use shallow copy
     if (!hasNestedChanges && Object.keys(updates).length > 0) {
@@ -88,18 +88,16 @@ const StateManager = (function () {
         ...(updates.selection !== undefined
           ? { selection: updates.selection ? { ...updates.selection } : null }
           : {}), // Keep reference if unchanged
-        // Only copy colorRangeSelection if it's being updated
-        ...(updates.colorRangeSelection !== undefined
+        // Only copy selectionMask if it's being updated
+        ...(updates.selectionMask !== undefined
           ? {
-              colorRangeSelection: updates.colorRangeSelection
-                ? new Uint8Array(updates.colorRangeSelection)
-                : null,
+              selectionMask: updates.selectionMask ? new Uint8Array(updates.selectionMask) : null,
             }
           : {}), // Keep reference if unchanged
         // Apply all other updates (non-nested objects)
         ...Object.fromEntries(
           Object.entries(updates).filter(
-            ([key]) => key !== 'layers' && key !== 'selection' && key !== 'colorRangeSelection'
+            ([key]) => key !== 'layers' && key !== 'selection' && key !== 'selectionMask'
           )
         ),
       };
@@ -136,6 +134,13 @@ const StateManager = (function () {
     EventEmitter.emit('state:colorChange', { color });
   }
 
+  function setBackgroundColor(color: string): void {
+    if (!/^#[0-9A-Fa-f]{6}$/.test(color)) {
+      throw new Error('Invalid color format. Expected hex color (e.g., #ff0000)');
+    }
+    updateState({ backgroundColor: color });
+  }
+
   function setAlpha(alpha: number): void {
     const clamped = Math.max(0, Math.min(1, alpha));
     updateState({ currentAlpha: clamped });
@@ -175,6 +180,22 @@ const StateManager = (function () {
     updateState({ brushTexture: texture });
   }
 
+  function setDitherDensity(density: number): void {
+    const clamped = Math.max(0, Math.min(100, density));
+    updateState({ ditherDensity: clamped });
+  }
+
+  function setDitherPattern(pattern: string): void {
+    if (!parseDitherPattern(pattern)) {
+      throw new Error('Invalid dither pattern. Expected rows of 0 and 1 (e.g., 10/01), up to 8x8');
+    }
+    updateState({ ditherPattern: pattern });
+  }
+
+  function setGradientDither(enabled: boolean): void {
+    updateState({ gradientDither: enabled });
+  }
+
   function setBrushScatter(scatter: number): void {
     const clamped = Math.max(0, Math.min(100, scatter));
     updateState({ brushScatter: clamped });
@@ -215,13 +236,17 @@ const StateManager = (function () {
     updateState({ stabilizerStrength: clamped });
   }
 
+  function setPixelPerfect(enabled: boolean): void {
+    updateState({ pixelPerfect: enabled });
+  }
+
   function setTolerance(tolerance: number): void {
     const clamped = Math.max(0, Math.min(255, tolerance));
     updateState({ tolerance: clamped });
   }
 
   function setZoom(zoom: number): void {
-    const clamped = Math.max(0.25, Math.min(4, zoom));
+    const clamped = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
     updateState({ zoom: clamped });
   }
 
@@ -234,12 +259,12 @@ const StateManager = (function () {
     });
   }
 
-  function setColorRangeSelection(selection: Uint8Array | null): void {
+  function setSelectionMask(mask: Uint8Array | null): void {
     updateState({
-      colorRangeSelection: selection ? new Uint8Array(selection) : null,
+      selectionMask: mask ? new Uint8Array(mask) : null,
     });
     EventEmitter.emit('app:selectionChange', {
-      hasSelection: !!selection,
+      hasSelection: !!mask,
     });
   }
 
@@ -256,6 +281,52 @@ const StateManager = (function () {
     updateState({ selectionAntiAlias: antiAlias });
   }
 
+  function setMoveAutoSelect(autoSelect: boolean): void {
+    updateState({ moveAutoSelect: autoSelect });
+  }
+
+  function setSymmetryMode(mode: SymmetryMode): void {
+    updateState({ symmetryMode: mode });
+  }
+
+  /**
+   * Move the symmetry axes (null centers an axis on the canvas)
+   * Positions snap to half pixels so mirrored pixels line up exactly
+   */
+  function setSymmetryAxis(x: number | null, y: number | null): void {
+    const snap = (value: number | null) => (value === null ? null : Math.round(value * 2) / 2);
+    updateState({ symmetryAxisX: snap(x), symmetryAxisY: snap(y) });
+  }
+
+  function setSymmetrySegments(segments: number): void {
+    const clamped = Math.max(2, Math.min(16, Math.round(segments)));
+    updateState({ symmetrySegments: clamped });
+  }
+
+  function setTileMode(enabled: boolean): void {
+    updateState({ tileMode: enabled });
+  }
+
+  function setShapeStyle(style: AppState['shapeStyle']): void {
+    updateState({ shapeStyle: style });
+  }
+
+  function setShapeFillColor(color: string): void {
+    if (!/^#[0-9A-Fa-f]{6}$/.test(color)) {
+      throw new Error('Invalid color format. Expected hex color (e.g., #ff0000)');
+    }
+    updateState({ shapeFillColor: color });
+  }
+
+  function setShapeAntiAlias(enabled: boolean): void {
+    updateState({ shapeAntiAlias: enabled });
+  }
+
+  function setShapeSides(sides: number): void {
+    const clamped = Math.max(3, Math.min(12, Math.round(sides)));
+    updateState({ shapeSides: clamped });
+  }
+
   function setLayers(layers: AppState['layers']): void {
     // Validate layer structure
     if (!Array.isArray(layers)) {
@@ -291,6 +362,7 @@ const StateManager = (function () {
     // Specific setters
     setCurrentTool,
     setColor,
+    setBackgroundColor,
     setAlpha,
     setBrushSize,
     setBrushHardness,
@@ -299,6 +371,9 @@ const StateManager = (function () {
     setBrushSpacing,
     setBrushJitter,
     setBrushTexture,
+    setDitherDensity,
+    setDitherPattern,
+    setGradientDither,
     setBrushScatter,
     setBrushAngle,
     setBrushRoundness,
@@ -308,13 +383,23 @@ const StateManager = (function () {
     setPressureFlow,
     setPressureCurve,
     setStabilizerStrength,
+    setPixelPerfect,
     setTolerance,
     setZoom,
     setSelection,
-    setColorRangeSelection,
+    setSelectionMask,
     setSelectionMode,
     setSelectionFeather,
     setSelectionAntiAlias,
+    setMoveAutoSelect,
+    setSymmetryMode,
+    setSymmetryAxis,
+    setSymmetrySegments,
+    setTileMode,
+    setShapeStyle,
+    setShapeFillColor,
+    setShapeAntiAlias,
+    setShapeSides,
     setLayers,
     setActiveLayerId,
   };
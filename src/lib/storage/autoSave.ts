@@ -1,52 +1,189 @@
 /**
  * Auto-Save Module
- * Automatically saves project state to IndexedDB
+ * Automatically saves the document to IndexedDB as timestamped checkpoints per project,
+ * thinned out as they age, and offers the latest one after an unclean shutdown
  */
 
 import indexedDBStorage from './indexedDB';
+import { saveProjectFile } from './projectFile';
+import {
+  SESSION_LOCK_PREFIX,
+  SESSION_STALE_AFTER,
+  hasWebLocks,
+  querySessionLocks,
+  readSessionMarkers,
+  updateSessionMarkers,
+  type SessionMarker,
+} from './sessions';
+import projectManager from './projectManager';
 import PixelStudio from '../app';
+import Canvas from '../canvas';
 import History from '../history';
-import type { AppState } from '../types';
+import { createThumbnailDataURL } from '../imageUtils';
 import { logger } from '../utils/logger';
-import { AUTO_SAVE_INTERVAL, MIN_SAVE_INTERVAL } from '../constants';
+import { AUTO_SAVE_INTERVAL } from '../constants';
+
 const SIGNIFICANT_CHANGE_EVENTS = [
   'history:save',
+  'history:undo',
+  'history:redo',
   'layers:create',
   'layers:delete',
   'layers:update',
 ];
 
+// Recent checkpoints kept per project
+export const DEFAULT_CHECKPOINT_RETENTION = 10;
+export const MIN_CHECKPOINT_RETENTION = 1;
+export const MAX_CHECKPOINT_RETENTION = 50;
+
+// Beyond the recent ones, the newest checkpoint of each hour is kept for a day and the
+// newest of each day for a month
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const HOURLY_CHECKPOINTS_AGE = DAY;
+const DAILY_CHECKPOINTS_AGE = 30 * DAY;
+
+const THUMBNAIL_SIZE = 48;
+
+/**
+ * Autosaved version of a document
+ */
+export interface Checkpoint {
+  id: string;
+  projectId: string;
+  name: string; // Project name when it was saved
+  timestamp: number;
+  width: number | null;
+  height: number | null;
+  thumbnail: string | null;
+}
+
+interface CheckpointMeta {
+  width: number;
+  height: number;
+  thumbnail: string | null;
+}
+
+function toCheckpoint(record: {
+  id: string;
+  projectId: string;
+  name: string;
+  timestamp: number;
+  meta?: unknown;
+}): Checkpoint {
+  const meta = (record.meta ?? {}) as Partial<CheckpointMeta>;
+  return {
+    id: record.id,
+    projectId: record.projectId,
+    name: record.name,
+    timestamp: record.timestamp,
+    width: typeof meta.width === 'number' ? meta.width : null,
+    height: typeof meta.height === 'number' ? meta.height : null,
+    thumbnail: typeof meta.thumbnail === 'string' ? meta.thumbnail : null,
+  };
+}
+
+/**
+ * Checkpoints to delete: all but the newest `keep`, and of the older ones, those that are not
+ * the newest of their hour (within a day) or of their day (within a month)
+ */
+export function selectExpiredCheckpoints<T extends { timestamp: number }>(
+  checkpoints: T[],
+  keep: number,
+  now: number = Date.now()
+): T[] {
+  const newestFirst = [...checkpoints].sort((a, b) => b.timestamp - a.timestamp);
+  const coveredPeriods = new Set<string>();
+  return newestFirst.filter((checkpoint, index) => {
+    const age = now - checkpoint.timestamp;
+    const period =
+      age < HOURLY_CHECKPOINTS_AGE
+        ? `hour-${Math.floor(checkpoint.timestamp / HOUR)}`
+        : age < DAILY_CHECKPOINTS_AGE
+          ? `day-${Math.floor(checkpoint.timestamp / DAY)}`
+          : null;
+    const covered = period === null || coveredPeriods.has(period);
+    if (period) {
+      coveredPeriods.add(period);
+    }
+    return index >= keep && covered;
+  });
+}
+
+function generateSessionId(): string {
+  return `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
 class AutoSave {
-  private projectId: string | null = null;
+  private started = false;
   private autoSaveTimer: NodeJS.Timeout | null = null;
-  private lastSaveTime = 0;
-  private isSaving = false;
   private savePromise: Promise<void> | null = null;
   private historyListeners: Array<{ event: string; handler: () => void }> = [];
   private layerListeners: Array<{ event: string; handler: () => void }> = [];
+  // Changed since the last checkpoint
+  private dirty = false;
+  // History step the last checkpoint was saved at, and whether layers changed outside history
+  // since, so undoing back to a checkpoint does not save it again
+  private savedHistoryStep: string | null = null;
+  private layersChanged = false;
+  // Replacing the document with a checkpoint, whose events are not edits
+  private restoring = false;
+  private retention = DEFAULT_CHECKPOINT_RETENTION;
+  // This tab's session, kept across restarts of auto-save
+  private readonly sessionId = generateSessionId();
+  private sessionStartedAt = 0;
+  private releaseSessionLock: (() => void) | null = null;
+  // Sessions that ended without shutting down cleanly
+  private crashedSessions: Array<{ id: string; projectId: string }> = [];
+  private readyPromise: Promise<void>;
+  private markReady: () => void = () => {};
+
+  constructor() {
+    this.readyPromise = new Promise((resolve) => {
+      this.markReady = resolve;
+    });
+  }
 
   /**
-   * Initialize auto-save for a project
+   * Initialize auto-save for the document
+   * Detects sessions that did not shut down cleanly before marking this one as running;
+   * sessions still running in other tabs are left alone
    */
-  async init(projectId: string): Promise<void> {
+  async init(): Promise<void> {
     // Cleanup existing listeners and timers if already initialized
     // This prevents listener accumulation if init() is called multiple times
-    if (this.projectId !== null) {
-      this.cleanupChangeListeners();
-      if (this.autoSaveTimer) {
-        clearInterval(this.autoSaveTimer);
-        this.autoSaveTimer = null;
-      }
+    const restarting = this.started;
+    if (restarting) {
+      this.stop();
+    }
+    this.started = true;
+    this.sessionStartedAt = Date.now();
+    // Held before this session is listed, so other tabs never see it listed without its lock
+    await this.holdSessionLock();
+    if (!restarting) {
+      this.crashedSessions = await this.findCrashedSessions();
+    }
+    this.updateSessionMarker();
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.handlePageHide);
+      window.addEventListener('pageshow', this.handlePageShow);
     }
 
-    this.projectId = projectId;
-    await indexedDBStorage.init();
+    try {
+      this.retention = this.clampRetention(
+        (await indexedDBStorage.loadSetting('autosaveRetention')) as number | null
+      );
+    } catch (error) {
+      logger.warn('Failed to load autosave settings:', error);
+    }
 
     // Start auto-save timer
     this.startAutoSave();
 
     // Listen for significant changes to trigger immediate save
     this.setupChangeListeners();
+    this.markReady();
   }
 
   /**
@@ -58,10 +195,122 @@ class AutoSave {
     }
 
     this.autoSaveTimer = setInterval(() => {
-      this.save();
+      if (this.dirty) {
+        this.save();
+      } else {
+        // Shows other tabs without Web Locks that this session still runs
+        this.updateSessionMarker();
+      }
     }, AUTO_SAVE_INTERVAL);
   }
 
+  /**
+   * Handle a change to the document
+   * Saved by the timer, so checkpoints are at least AUTO_SAVE_INTERVAL apart
+   */
+  private handleChange = (): void => {
+    // A document with only its initial step has no edits to keep
+    if (this.restoring || History.getLength() <= 1) return;
+    this.dirty = true;
+  };
+
+  // Layer properties such as visibility change without a history step
+  private handleLayerChange = (): void => {
+    if (this.restoring) return;
+    this.layersChanged = true;
+    this.handleChange();
+  };
+
+  private getHistoryStep(): string {
+    const index = History.getIndex();
+    return `${index}@${History.getSteps()[index]?.timestamp ?? 0}`;
+  }
+
+  // Leaving the page normally ends the session cleanly
+  private handlePageHide = (): void => {
+    this.removeSessionMarker();
+  };
+
+  // Coming back from the back/forward cache resumes it
+  private handlePageShow = (event: PageTransitionEvent): void => {
+    if (event.persisted) {
+      this.updateSessionMarker();
+    }
+  };
+
+  private updateSessionMarker(): void {
+    const marker: SessionMarker = {
+      projectId: History.getProjectId(),
+      startedAt: this.sessionStartedAt,
+      updatedAt: Date.now(),
+    };
+    updateSessionMarkers((markers) => {
+      markers[this.sessionId] = marker;
+    });
+  }
+
+  private removeSessionMarker(): void {
+    updateSessionMarkers((markers) => {
+      delete markers[this.sessionId];
+    });
+  }
+
+  /**
+   * Hold this session's Web Lock until auto-save stops; resolves once it is held
+   */
+  private async holdSessionLock(): Promise<void> {
+    if (!hasWebLocks() || this.releaseSessionLock) {
+      return;
+    }
+    await new Promise<void>((held) => {
+      navigator.locks
+        .request(
+          SESSION_LOCK_PREFIX + this.sessionId,
+          () =>
+            new Promise<void>((release) => {
+              this.releaseSessionLock = release;
+              held();
+            })
+        )
+        .catch((error) => {
+          logger.warn('Failed to lock session:', error);
+          held();
+        });
+    });
+  }
+
+  /**
+   * Listed sessions of other tabs that are no longer running, with a project to recover
+   */
+  private async findCrashedSessions(): Promise<Array<{ id: string; projectId: string }>> {
+    const locks = await querySessionLocks();
+    const now = Date.now();
+    const crashed: Array<{ id: string; projectId: string }> = [];
+    for (const [id, marker] of Object.entries(readSessionMarkers())) {
+      const running = locks
+        ? locks.has(SESSION_LOCK_PREFIX + id)
+        : now - (marker.updatedAt ?? marker.startedAt) < SESSION_STALE_AFTER;
+      if (id === this.sessionId || running) {
+        continue;
+      }
+      if (marker.projectId) {
+        crashed.push({ id, projectId: marker.projectId });
+      } else {
+        this.forgetSessions([id]);
+      }
+    }
+    return crashed;
+  }
+
+  // Crashed sessions are forgotten once handled, so no other tab offers them again
+  private forgetSessions(ids: string[]): void {
+    updateSessionMarkers((markers) => {
+      for (const id of ids) {
+        delete markers[id];
+      }
+    });
+  }
+
   /**
    * Setup listeners for significant changes
    */
@@ -70,14 +319,8 @@ class AutoSave {
     if (History.on) {
       for (const event of SIGNIFICANT_CHANGE_EVENTS) {
         if (event.startsWith('history:')) {
-          const handler = () => {
-            // Debounce: only save if last save was more than MIN_SAVE_INTERVAL ago
-            if (Date.now() - this.lastSaveTime > MIN_SAVE_INTERVAL) {
-              this.save();
-            }
-          };
-          History.on(event, handler);
-          this.historyListeners.push({ event, handler });
+          History.on(event, this.handleChange);
+          this.historyListeners.push({ event, handler: this.handleChange });
         }
       }
     }
@@ -87,14 +330,8 @@ class AutoSave {
     if (layersModule && layersModule.on) {
       for (const event of SIGNIFICANT_CHANGE_EVENTS) {
         if (event.startsWith('layers:')) {
-          const handler = () => {
-            // Debounce: only save if last save was more than MIN_SAVE_INTERVAL ago
-            if (Date.now() - this.lastSaveTime > MIN_SAVE_INTERVAL) {
-              this.save();
-            }
-          };
-          layersModule.on(event, handler);
-          this.layerListeners.push({ event, handler });
+          layersModule.on(event, this.handleLayerChange);
+          this.layerListeners.push({ event, handler: this.handleLayerChange });
         }
       }
     }
@@ -123,11 +360,11 @@ class AutoSave {
   }
 
   /**
-   * Save current project state
+   * Save the document as a new checkpoint of its project, if it changed since the last one
    * Prevents race conditions by queueing saves and ensuring only one save operation runs at a time
    */
   async save(): Promise<void> {
-    if (!this.projectId) {
+    if (!this.started) {
       return;
     }
 
@@ -136,75 +373,188 @@ class AutoSave {
     if (this.savePromise) {
       return this.savePromise;
     }
+    if (!this.dirty) {
+      return;
+    }
 
-    // Create new save promise
-    this.savePromise = (async () => {
-      // Double-check isSaving flag after promise creation
-      if (this.isSaving) {
+    // Cleared once settled, even when the save finishes without awaiting anything
+    this.savePromise = this.saveCheckpoint().finally(() => {
+      this.savePromise = null;
+    });
+    return this.savePromise;
+  }
+
+  private async saveCheckpoint(): Promise<void> {
+    const historyStep = this.getHistoryStep();
+    // Edits made while this save runs need a checkpoint of their own
+    this.dirty = false;
+    if (!this.layersChanged && historyStep === this.savedHistoryStep) {
+      // Undone or redone back to where the last checkpoint was saved
+      return;
+    }
+    this.layersChanged = false;
+
+    try {
+      const projectId = History.getProjectId();
+      if (!projectId) {
         return;
       }
 
-      this.isSaving = true;
-
-      try {
-        const state = PixelStudio.getState();
-        if (!state) {
-          return;
-        }
+      const name = projectManager.getCurrentName();
+      const data = await (await saveProjectFile(name)).arrayBuffer();
+      const meta: CheckpointMeta = {
+        width: Canvas.getWidth(),
+        height: Canvas.getHeight(),
+        thumbnail: this.createThumbnail(),
+      };
 
-        // Serialize project data
-        const projectData = {
-          state: state as AppState,
-          historyIndex: History.getIndex(),
-          historyLength: History.getLength(),
-        };
-
-        // Save to IndexedDB
-        await indexedDBStorage.saveProject(
-          this.projectId!,
-          'Untitled Project', // Could be made configurable
-          projectData
-        );
-
-        this.lastSaveTime = Date.now();
-      } catch (error) {
-        logger.error('Auto-save failed:', error);
-      } finally {
-        this.isSaving = false;
-        this.savePromise = null;
+      const id = await indexedDBStorage.saveCheckpoint(projectId, name, data, meta);
+      if (!id) {
+        this.markUnsaved();
+        return;
       }
-    })();
+      this.savedHistoryStep = historyStep;
+      await this.pruneCheckpoints(projectId);
 
-    return this.savePromise;
+      this.updateSessionMarker();
+    } catch (error) {
+      this.markUnsaved();
+      logger.error('Auto-save failed:', error);
+    }
+  }
+
+  // A failed save is retried on the next tick, whatever changed
+  private markUnsaved(): void {
+    this.dirty = true;
+    this.layersChanged = true;
+  }
+
+  private async pruneCheckpoints(projectId: string): Promise<void> {
+    const checkpoints = await indexedDBStorage.listCheckpoints(projectId);
+    const expired = selectExpiredCheckpoints(checkpoints, this.retention);
+    await indexedDBStorage.deleteCheckpoints(expired.map((checkpoint) => checkpoint.id));
+  }
+
+  /**
+   * Checkpoints of the open document's project, newest first
+   */
+  async listCheckpoints(): Promise<Checkpoint[]> {
+    const projectId = History.getProjectId();
+    if (!projectId) {
+      return [];
+    }
+    return (await indexedDBStorage.listCheckpoints(projectId)).map(toCheckpoint);
   }
 
   /**
-   * Load project state
+   * Replace the document with a checkpoint
+   * Unsaved changes are saved as a checkpoint first, so reverting can itself be reverted
    */
-  async load(
-    projectId: string
-  ): Promise<{ state: AppState; historyIndex: number; historyLength: number } | null> {
+  async revert(checkpointId: string): Promise<void> {
+    const checkpoint = await indexedDBStorage.loadCheckpoint(checkpointId);
+    if (!checkpoint) {
+      throw new Error('Version not found');
+    }
+
+    await this.save();
+    this.restoring = true;
     try {
-      const project = await indexedDBStorage.loadProject(projectId);
-      if (!project) {
-        return null;
+      await projectManager.restoreVersion(
+        checkpoint.projectId,
+        checkpoint.name,
+        new Blob([checkpoint.data])
+      );
+    } finally {
+      this.restoring = false;
+    }
+    this.dirty = false;
+    this.layersChanged = false;
+    this.savedHistoryStep = this.getHistoryStep();
+    this.updateSessionMarker();
+    logger.debug('[AutoSave] Reverted to checkpoint', { id: checkpointId });
+  }
+
+  /**
+   * Latest checkpoint of the sessions that ended without shutting down cleanly
+   * Resolves once auto-save is initialized
+   */
+  async getRecoveryCheckpoint(): Promise<Checkpoint | null> {
+    await this.readyPromise;
+    let latest: Checkpoint | null = null;
+    const projectIds = new Set(this.crashedSessions.map((session) => session.projectId));
+    for (const projectId of projectIds) {
+      const [newest] = await indexedDBStorage.listCheckpoints(projectId);
+      if (newest && (!latest || newest.timestamp > latest.timestamp)) {
+        latest = toCheckpoint(newest);
       }
+    }
+    if (!latest) {
+      // Nothing was autosaved before they crashed
+      this.dismissRecovery();
+    }
+    return latest;
+  }
 
-      const projectData = project.data as {
-        state: AppState;
-        historyIndex: number;
-        historyLength: number;
-      };
+  /**
+   * Restore the latest checkpoint of the sessions that did not shut down cleanly
+   */
+  async recover(): Promise<void> {
+    const checkpoint = await this.getRecoveryCheckpoint();
+    if (!checkpoint) {
+      throw new Error('Nothing to recover');
+    }
+    await this.revert(checkpoint.id);
+    this.dismissRecovery();
+  }
+
+  /**
+   * Decline recovery; the checkpoints stay until history is cleaned up in the project gallery
+   */
+  dismissRecovery(): void {
+    this.forgetSessions(this.crashedSessions.map((session) => session.id));
+    this.crashedSessions = [];
+  }
+
+  /**
+   * Get number of recent checkpoints kept per project
+   */
+  getRetention(): number {
+    return this.retention;
+  }
 
-      return projectData;
+  /**
+   * Set number of recent checkpoints kept per project and drop the open project's extra ones
+   */
+  async setRetention(count: number): Promise<void> {
+    this.retention = this.clampRetention(count);
+    await indexedDBStorage.saveSetting('autosaveRetention', this.retention);
+    const projectId = History.getProjectId();
+    if (projectId) {
+      await this.pruneCheckpoints(projectId);
+    }
+  }
+
+  private clampRetention(count: number | null): number {
+    if (typeof count !== 'number' || !Number.isFinite(count)) {
+      return DEFAULT_CHECKPOINT_RETENTION;
+    }
+    return Math.min(
+      MAX_CHECKPOINT_RETENTION,
+      Math.max(MIN_CHECKPOINT_RETENTION, Math.round(count))
+    );
+  }
+
+  private createThumbnail(): string | null {
+    try {
+      return createThumbnailDataURL(Canvas.getCanvas(), THUMBNAIL_SIZE);
     } catch (error) {
-      logger.error('Failed to load project:', error);
+      logger.warn('Failed to create checkpoint thumbnail:', error);
       return null;
     }
   }
 
   /**
-   * Stop auto-save
+   * Stop auto-save and end the session cleanly
    */
   stop(): void {
     if (this.autoSaveTimer) {
@@ -212,14 +562,17 @@ class AutoSave {
       this.autoSaveTimer = null;
     }
     this.cleanupChangeListeners(); // Cleanup event listeners
-    this.projectId = null;
-  }
-
-  /**
-   * Get last save time
-   */
-  getLastSaveTime(): number {
-    return this.lastSaveTime;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.handlePageHide);
+      window.removeEventListener('pageshow', this.handlePageShow);
+    }
+    this.removeSessionMarker();
+    this.releaseSessionLock?.();
+    this.releaseSessionLock = null;
+    this.started = false;
+    this.dirty = false;
+    this.layersChanged = false;
+    this.savedHistoryStep = null;
   }
 }
 
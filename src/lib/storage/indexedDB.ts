@@ -6,7 +6,7 @@
 import { logger } from '../utils/logger';
 
 const DB_NAME = 'PixelStudioDB';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 
 interface DBSchema {
   projects: {
@@ -15,6 +15,7 @@ interface DBSchema {
       id: string;
       name: string;
       data: unknown; // Project state
+      meta?: unknown; // Details shown in the project gallery (size, thumbnail)
       createdAt: number;
       updatedAt: number;
     };
@@ -27,6 +28,18 @@ interface DBSchema {
       index: number;
       compressed: ArrayBuffer;
       timestamp: number;
+      snapshot?: unknown; // Details of a named snapshot (spilled steps have none)
+    };
+  };
+  checkpoints: {
+    key: string; // checkpoint ID
+    value: {
+      id: string;
+      projectId: string;
+      name: string; // Project name when the checkpoint was taken
+      data: ArrayBuffer; // Document as a .pxs project file
+      meta?: unknown; // Details shown in the version list (size, thumbnail)
+      timestamp: number;
     };
   };
   settings: {
@@ -92,6 +105,12 @@ class IndexedDBStorage {
         if (!db.objectStoreNames.contains('settings')) {
           db.createObjectStore('settings', { keyPath: 'key' });
         }
+
+        // Added in version 2
+        if (!db.objectStoreNames.contains('checkpoints')) {
+          const checkpointStore = db.createObjectStore('checkpoints', { keyPath: 'id' });
+          checkpointStore.createIndex('projectId', 'projectId', { unique: false });
+        }
       };
     });
 
@@ -100,38 +119,97 @@ class IndexedDBStorage {
 
   /**
    * Save project data
+   * An existing project keeps its creation time
+   * @returns Whether the project was saved
    */
-  async saveProject(projectId: string, name: string, data: unknown): Promise<void> {
+  async saveProject(
+    projectId: string,
+    name: string,
+    data: unknown,
+    meta?: unknown
+  ): Promise<boolean> {
     try {
       await this.init();
     } catch (error) {
       logger.warn('IndexedDB initialization failed, project save skipped:', error);
-      return; // Degrade gracefully
+      return false; // Degrade gracefully
     }
 
     if (!this.db) {
       logger.warn('Database not available, project save skipped');
-      return; // Degrade gracefully instead of throwing
+      return false; // Degrade gracefully instead of throwing
     }
 
     return new Promise((resolve) => {
       const transaction = this.db!.transaction(['projects'], 'readwrite');
       const store = transaction.objectStore('projects');
+      const existingRequest = store.get(projectId);
+
+      existingRequest.onsuccess = () => {
+        const existing = existingRequest.result as DBSchema['projects']['value'] | undefined;
+        const project = {
+          id: projectId,
+          name,
+          data,
+          ...(meta !== undefined ? { meta } : {}),
+          createdAt: existing?.createdAt ?? Date.now(),
+          updatedAt: Date.now(),
+        };
 
-      const project = {
-        id: projectId,
-        name,
-        data,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
+        const request = store.put(project);
+
+        request.onsuccess = () => resolve(true);
+        request.onerror = () => {
+          logger.warn('Failed to save project, operation skipped:', request.error);
+          resolve(false); // Resolve gracefully instead of rejecting
+        };
       };
+      existingRequest.onerror = () => {
+        logger.warn('Failed to save project, operation skipped:', existingRequest.error);
+        resolve(false); // Resolve gracefully instead of rejecting
+      };
+    });
+  }
 
-      const request = store.put(project);
+  /**
+   * Rename a project without touching its data
+   * @returns Whether the project was found and renamed
+   */
+  async renameProject(projectId: string, name: string): Promise<boolean> {
+    try {
+      await this.init();
+    } catch (error) {
+      logger.warn('IndexedDB initialization failed, project rename skipped:', error);
+      return false; // Degrade gracefully
+    }
+
+    if (!this.db) {
+      logger.warn('Database not available, project rename skipped');
+      return false; // Degrade gracefully instead of throwing
+    }
+
+    return new Promise((resolve) => {
+      const transaction = this.db!.transaction(['projects'], 'readwrite');
+      const store = transaction.objectStore('projects');
+      const request = store.get(projectId);
+
+      request.onsuccess = () => {
+        const project = request.result as DBSchema['projects']['value'] | undefined;
+        if (!project) {
+          resolve(false);
+          return;
+        }
+        const putRequest = store.put({ ...project, name, updatedAt: Date.now() });
+        putRequest.onsuccess = () => resolve(true);
+        putRequest.onerror = () => {
+          logger.warn('Failed to rename project, operation skipped:', putRequest.error);
+          resolve(false); // Resolve gracefully instead of rejecting
+        };
+      };
 
-      request.onsuccess = () => resolve();
       request.onerror = () => {
-        logger.warn('Failed to save project, operation skipped:', request.error);
-        resolve(); // Resolve gracefully instead of rejecting
+        logger.warn('Failed to rename project, operation skipped:', request.error);
+        resolve(false); // Resolve gracefully instead of rejecting
       };
     });
   }
@@ -139,7 +217,9 @@ class IndexedDBStorage {
   /**
    * Load project data
    */
-  async loadProject(projectId: string): Promise<{ name: string; data: unknown } | null> {
+  async loadProject(
+    projectId: string
+  ): Promise<{ name: string; data: unknown; meta?: unknown } | null> {
     try {
       await this.init();
     } catch (error) {
@@ -163,6 +243,7 @@ class IndexedDBStorage {
           resolve({
             name: result.name,
             data: result.data,
+            meta: result.meta,
           });
         } else {
           resolve(null);
@@ -179,7 +260,9 @@ class IndexedDBStorage {
   /**
    * List all projects
    */
-  async listProjects(): Promise<Array<{ id: string; name: string; updatedAt: number }>> {
+  async listProjects(): Promise<
+    Array<{ id: string; name: string; createdAt: number; updatedAt: number; meta?: unknown }>
+  > {
     try {
       await this.init();
     } catch (error) {
@@ -202,7 +285,9 @@ class IndexedDBStorage {
         const results = request.result.map((project: DBSchema['projects']['value']) => ({
           id: project.id,
           name: project.name,
+          createdAt: project.createdAt,
           updatedAt: project.updatedAt,
+          meta: project.meta,
         }));
         resolve(results);
       };
@@ -336,6 +421,162 @@ class IndexedDBStorage {
     });
   }
 
+  /**
+   * Delete history entries and snapshots of projects that are not kept
+   * Cleans up after sessions that were never saved as projects; checkpoints are not touched
+   * @param keepProjectIds - Stored projects and the projects of listed sessions
+   * @returns Number of records deleted
+   */
+  async deleteOrphanedHistory(keepProjectIds: string[]): Promise<number> {
+    try {
+      await this.init();
+    } catch (error) {
+      logger.warn('IndexedDB initialization failed, history cleanup skipped:', error);
+      return 0; // Degrade gracefully
+    }
+
+    if (!this.db) {
+      logger.warn('Database not available, history cleanup skipped');
+      return 0; // Degrade gracefully instead of throwing
+    }
+
+    const keep = new Set(keepProjectIds);
+    return new Promise((resolve) => {
+      const transaction = this.db!.transaction(['history'], 'readwrite');
+      const request = transaction.objectStore('history').openCursor();
+      let deleted = 0;
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const record = cursor.value as { projectId: string };
+        if (!keep.has(record.projectId)) {
+          cursor.delete();
+          deleted++;
+        }
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve(deleted);
+      transaction.onerror = () => {
+        logger.warn('Failed to clean up history, operation skipped:', transaction.error);
+        resolve(0); // Resolve gracefully instead of rejecting
+      };
+    });
+  }
+
+  /**
+   * Save a named history snapshot next to the project's history entries
+   */
+  async saveHistorySnapshot(
+    projectId: string,
+    snapshot: unknown,
+    compressed: ArrayBuffer
+  ): Promise<string | null> {
+    try {
+      await this.init();
+    } catch (error) {
+      logger.warn('IndexedDB initialization failed, history snapshot save skipped:', error);
+      return null; // Degrade gracefully
+    }
+
+    if (!this.db) {
+      logger.warn('Database not available, history snapshot save skipped');
+      return null; // Degrade gracefully instead of throwing
+    }
+
+    return new Promise((resolve) => {
+      const transaction = this.db!.transaction(['history'], 'readwrite');
+      const store = transaction.objectStore('history');
+
+      const entryId = `snapshot-${projectId}-${Date.now()}`;
+      const entry = {
+        id: entryId,
+        projectId,
+        index: -1,
+        compressed,
+        timestamp: Date.now(),
+        snapshot,
+      };
+
+      const request = store.put(entry);
+
+      request.onsuccess = () => resolve(entryId);
+      request.onerror = () => {
+        logger.warn('Failed to save history snapshot, operation skipped:', request.error);
+        resolve(null); // Resolve gracefully instead of rejecting
+      };
+    });
+  }
+
+  /**
+   * List a project's history snapshots (details only), oldest first
+   */
+  async listHistorySnapshots(
+    projectId: string
+  ): Promise<Array<{ id: string; snapshot: unknown; timestamp: number }>> {
+    try {
+      await this.init();
+    } catch (error) {
+      logger.warn('IndexedDB initialization failed, history snapshot list skipped:', error);
+      return []; // Degrade gracefully
+    }
+
+    if (!this.db) {
+      logger.warn('Database not available, history snapshot list skipped');
+      return []; // Degrade gracefully instead of throwing
+    }
+
+    return new Promise((resolve) => {
+      const transaction = this.db!.transaction(['history'], 'readonly');
+      const store = transaction.objectStore('history');
+      const request = store.index('projectId').getAll(projectId);
+
+      request.onsuccess = () => {
+        const results = request.result as DBSchema['history']['value'][];
+        resolve(
+          results
+            .filter((result) => result.snapshot !== undefined)
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .map(({ id, snapshot, timestamp }) => ({ id, snapshot, timestamp }))
+        );
+      };
+
+      request.onerror = () => {
+        logger.warn('Failed to list history snapshots, operation skipped:', request.error);
+        resolve([]); // Resolve gracefully instead of rejecting
+      };
+    });
+  }
+
+  /**
+   * Delete one history entry or snapshot
+   */
+  async deleteHistoryEntry(entryId: string): Promise<void> {
+    try {
+      await this.init();
+    } catch (error) {
+      logger.warn('IndexedDB initialization failed, history entry delete skipped:', error);
+      return; // Degrade gracefully
+    }
+
+    if (!this.db) {
+      logger.warn('Database not available, history entry delete skipped');
+      return; // Degrade gracefully instead of throwing
+    }
+
+    return new Promise((resolve) => {
+      const transaction = this.db!.transaction(['history'], 'readwrite');
+      const request = transaction.objectStore('history').delete(entryId);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => {
+        logger.warn('Failed to delete history entry, operation skipped:', request.error);
+        resolve(); // Resolve gracefully instead of rejecting
+      };
+    });
+  }
+
   /**
    * Clear history entries for a project
    */
@@ -375,6 +616,175 @@ class IndexedDBStorage {
     });
   }
 
+  /**
+   * Save an autosave checkpoint of a project
+   * Each checkpoint is a record of its own, so a save that never completes leaves the
+   * earlier ones intact
+   */
+  async saveCheckpoint(
+    projectId: string,
+    name: string,
+    data: ArrayBuffer,
+    meta?: unknown
+  ): Promise<string | null> {
+    try {
+      await this.init();
+    } catch (error) {
+      logger.warn('IndexedDB initialization failed, checkpoint save skipped:', error);
+      return null; // Degrade gracefully
+    }
+
+    if (!this.db) {
+      logger.warn('Database not available, checkpoint save skipped');
+      return null; // Degrade gracefully instead of throwing
+    }
+
+    return new Promise((resolve) => {
+      const transaction = this.db!.transaction(['checkpoints'], 'readwrite');
+      const store = transaction.objectStore('checkpoints');
+
+      const timestamp = Date.now();
+      const checkpointId = `checkpoint-${projectId}-${timestamp}`;
+      const checkpoint = {
+        id: checkpointId,
+        projectId,
+        name,
+        data,
+        ...(meta !== undefined ? { meta } : {}),
+        timestamp,
+      };
+
+      store.put(checkpoint);
+
+      // Resolve once the record is committed, not merely queued
+      transaction.oncomplete = () => resolve(checkpointId);
+      transaction.onerror = () => {
+        logger.warn('Failed to save checkpoint, operation skipped:', transaction.error);
+        resolve(null); // Resolve gracefully instead of rejecting
+      };
+    });
+  }
+
+  /**
+   * List a project's autosave checkpoints (details only), newest first
+   */
+  async listCheckpoints(
+    projectId: string
+  ): Promise<
+    Array<{ id: string; projectId: string; name: string; timestamp: number; meta?: unknown }>
+  > {
+    try {
+      await this.init();
+    } catch (error) {
+      logger.warn('IndexedDB initialization failed, checkpoint list skipped:', error);
+      return []; // Degrade gracefully
+    }
+
+    if (!this.db) {
+      logger.warn('Database not available, checkpoint list skipped');
+      return []; // Degrade gracefully instead of throwing
+    }
+
+    return new Promise((resolve) => {
+      const transaction = this.db!.transaction(['checkpoints'], 'readonly');
+      const request = transaction
+        .objectStore('checkpoints')
+        .index('projectId')
+        .openCursor(IDBKeyRange.only(projectId));
+      const results: Array<{
+        id: string;
+        projectId: string;
+        name: string;
+        timestamp: number;
+        meta?: unknown;
+      }> = [];
+
+      // Walk with a cursor so the documents themselves are not collected
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(results.sort((a, b) => b.timestamp - a.timestamp));
+          return;
+        }
+        const { id, name, timestamp, meta } = cursor.value as DBSchema['checkpoints']['value'];
+        results.push({ id, projectId, name, timestamp, meta });
+        cursor.continue();
+      };
+
+      request.onerror = () => {
+        logger.warn('Failed to list checkpoints, operation skipped:', request.error);
+        resolve([]); // Resolve gracefully instead of rejecting
+      };
+    });
+  }
+
+  /**
+   * Load an autosave checkpoint by ID
+   */
+  async loadCheckpoint(
+    checkpointId: string
+  ): Promise<{ projectId: string; name: string; data: ArrayBuffer; timestamp: number } | null> {
+    try {
+      await this.init();
+    } catch (error) {
+      logger.warn('IndexedDB initialization failed, checkpoint load skipped:', error);
+      return null; // Degrade gracefully
+    }
+
+    if (!this.db) {
+      logger.warn('Database not available, checkpoint load skipped');
+      return null; // Degrade gracefully instead of throwing
+    }
+
+    return new Promise((resolve) => {
+      const transaction = this.db!.transaction(['checkpoints'], 'readonly');
+      const request = transaction.objectStore('checkpoints').get(checkpointId);
+
+      request.onsuccess = () => {
+        const result = request.result as DBSchema['checkpoints']['value'] | undefined;
+        if (result) {
+          resolve({
+            projectId: result.projectId,
+            name: result.name,
+            data: result.data,
+            timestamp: result.timestamp,
+          });
+        } else {
+          resolve(null);
+        }
+      };
+
+      request.onerror = () => {
+        logger.warn('Failed to load checkpoint, operation skipped:', request.error);
+        resolve(null); // Resolve gracefully instead of rejecting
+      };
+    });
+  }
+
+  /**
+   * Delete autosave checkpoints
+   * @returns Number of checkpoints deleted
+   */
+  async deleteCheckpoints(ids: string[]): Promise<number> {
+    if (ids.length === 0 || !this.db) {
+      return 0;
+    }
+
+    return new Promise((resolve) => {
+      const transaction = this.db!.transaction(['checkpoints'], 'readwrite');
+      const store = transaction.objectStore('checkpoints');
+      for (const id of ids) {
+        store.delete(id);
+      }
+
+      transaction.oncomplete = () => resolve(ids.length);
+      transaction.onerror = () => {
+        logger.warn('Failed to delete checkpoints, operation skipped:', transaction.error);
+        resolve(0); // Resolve gracefully instead of rejecting
+      };
+    });
+  }
+
   /**
    * Save setting
    */
@@ -460,10 +870,11 @@ class IndexedDBStorage {
     }
 
     return new Promise((resolve) => {
-      const transaction = this.db!.transaction(['projects', 'history'], 'readwrite');
+      const transaction = this.db!.transaction(['projects', 'history', 'checkpoints'], 'readwrite');
       const projectStore = transaction.objectStore('projects');
       const historyStore = transaction.objectStore('history');
       const historyIndex = historyStore.index('projectId');
+      const checkpointStore = transaction.objectStore('checkpoints');
 
       // Delete project
       projectStore.delete(projectId);
@@ -478,6 +889,18 @@ class IndexedDBStorage {
         }
       };
 
+      // Delete autosave checkpoints
+      const deleteCheckpointsRequest = checkpointStore
+        .index('projectId')
+        .openKeyCursor(IDBKeyRange.only(projectId));
+      deleteCheckpointsRequest.onsuccess = () => {
+        const cursor = deleteCheckpointsRequest.result;
+        if (cursor) {
+          checkpointStore.delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+
       transaction.oncomplete = () => resolve();
       transaction.onerror = () => {
         logger.warn('Failed to delete project, operation skipped:', transaction.error);
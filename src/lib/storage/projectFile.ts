@@ -0,0 +1,398 @@
+/**
+ * Project File Module
+ * Native layered project format (.pxs) for moving documents between machines
+ *
+ * Binary layout (all integers little-endian):
+ *   magic     4 bytes  'PXSF'
+ *   version   uint32
+ *   manifest  uint32 byte length + UTF-8 JSON (ProjectManifest)
+ *   chunks    uint32 count, then per chunk: uint32 byte length + bytes
+ *
+ * Layer pixels and the cels of animation frames are stored as PNG chunks (lossless,
+ * already deflate-compressed); every other document property lives in the JSON manifest.
+ */
+
+import type { AnimationFrameCels, PaletteColor, VectorPath } from '../types';
+import { captureDocument, replaceDocument, type DocumentLayer } from '../formats/document';
+import { imageDataToBlob, blobToImageData } from '../imageUtils';
+import { MAX_CANVAS_SIZE } from '../constants';
+import { logger } from '../utils/logger';
+
+export const PROJECT_FILE_EXTENSION = '.pxs';
+export const PROJECT_FILE_MIME_TYPE = 'application/x-pixel-studio';
+export const PROJECT_FILE_VERSION = 1;
+
+const MAGIC = [0x50, 0x58, 0x53, 0x46]; // 'PXSF'
+
+export interface ProjectLayerRecord {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number;
+  blendMode: string;
+  backgroundColor?: string;
+  chunk: number; // Index of the PNG chunk holding the layer pixels
+  maskChunk?: number; // Index of the PNG chunk holding the layer mask, absent without a mask
+  maskEnabled?: boolean;
+  kind?: 'pixel' | 'group';
+  parentId?: string; // ID of the containing group, absent at the top level
+  passThrough?: boolean;
+  collapsed?: boolean;
+}
+
+export interface ProjectImageLayerRecord {
+  layerId: string;
+  offsetX: number;
+  offsetY: number;
+  width: number;
+  height: number;
+}
+
+export interface ProjectFrameRecord {
+  id: string;
+  duration: number; // Milliseconds
+  // Layer ID -> index of the PNG chunk holding the frame's pixels; the current frame's
+  // cels are the layer chunks
+  cels: Record<string, number>;
+}
+
+export interface ProjectManifest {
+  version: number;
+  name: string;
+  width: number;
+  height: number;
+  activeLayerId: string | null;
+  layers: ProjectLayerRecord[]; // Bottom to top, same order as Layers.getAllLayers()
+  imageLayer: ProjectImageLayerRecord | null;
+  paths: VectorPath[];
+  palette?: PaletteColor[] | null; // Indexed-color palette, absent for RGBA documents
+  frames?: ProjectFrameRecord[]; // Animation frames, absent in files saved before frames
+  currentFrame?: number; // Frame the layer chunks hold
+  savedAt: number;
+}
+
+export interface UnpackedProjectFile {
+  manifest: ProjectManifest;
+  chunks: Uint8Array<ArrayBuffer>[];
+}
+
+/**
+ * Check whether a buffer starts with the .pxs magic bytes
+ */
+export function isProjectFile(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < MAGIC.length) return false;
+  const bytes = new Uint8Array(buffer, 0, MAGIC.length);
+  return MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Pack a manifest and its binary chunks into a single .pxs buffer
+ */
+export function packProjectFile(
+  manifest: ProjectManifest,
+  chunks: Uint8Array[]
+): Uint8Array<ArrayBuffer> {
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const chunksLength = chunks.reduce((total, chunk) => total + 4 + chunk.byteLength, 0);
+  const totalLength = MAGIC.length + 4 + 4 + manifestBytes.byteLength + 4 + chunksLength;
+
+  const output = new Uint8Array(totalLength);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+
+  output.set(MAGIC, offset);
+  offset += MAGIC.length;
+  view.setUint32(offset, PROJECT_FILE_VERSION, true);
+  offset += 4;
+  view.setUint32(offset, manifestBytes.byteLength, true);
+  offset += 4;
+  output.set(manifestBytes, offset);
+  offset += manifestBytes.byteLength;
+  view.setUint32(offset, chunks.length, true);
+  offset += 4;
+
+  for (const chunk of chunks) {
+    view.setUint32(offset, chunk.byteLength, true);
+    offset += 4;
+    output.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return output;
+}
+
+/**
+ * Unpack a .pxs buffer into its manifest and binary chunks
+ * @throws Error if the buffer is not a valid project file
+ */
+export function unpackProjectFile(buffer: ArrayBuffer): UnpackedProjectFile {
+  if (!isProjectFile(buffer)) {
+    throw new Error('Not a Pixel Studio project file');
+  }
+
+  const view = new DataView(buffer);
+  let offset = MAGIC.length;
+
+  const readUint32 = (): number => {
+    if (offset + 4 > buffer.byteLength) {
+      throw new Error('Project file is truncated');
+    }
+    const value = view.getUint32(offset, true);
+    offset += 4;
+    return value;
+  };
+
+  const readBytes = (length: number): Uint8Array<ArrayBuffer> => {
+    if (offset + length > buffer.byteLength) {
+      throw new Error('Project file is truncated');
+    }
+    const bytes = new Uint8Array(buffer.slice(offset, offset + length));
+    offset += length;
+    return bytes;
+  };
+
+  const version = readUint32();
+  if (version > PROJECT_FILE_VERSION) {
+    throw new Error(
+      `Project file version ${version} is newer than supported version ${PROJECT_FILE_VERSION}`
+    );
+  }
+
+  let manifest: ProjectManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(readBytes(readUint32()))) as ProjectManifest;
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Project file is truncated') {
+      throw error;
+    }
+    throw new Error('Project file manifest is corrupted');
+  }
+
+  const chunkCount = readUint32();
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  for (let i = 0; i < chunkCount; i++) {
+    chunks.push(readBytes(readUint32()));
+  }
+
+  validateManifest(manifest, chunks.length);
+  return { manifest, chunks };
+}
+
+/**
+ * Validate manifest structure before touching the document
+ */
+function validateManifest(manifest: ProjectManifest, chunkCount: number): void {
+  if (!manifest || typeof manifest !== 'object' || !Array.isArray(manifest.layers)) {
+    throw new Error('Project file manifest is corrupted');
+  }
+  const { width, height } = manifest;
+  if (
+    !Number.isInteger(width) ||
+    !Number.isInteger(height) ||
+    width < 1 ||
+    height < 1 ||
+    width > MAX_CANVAS_SIZE ||
+    height > MAX_CANVAS_SIZE
+  ) {
+    throw new Error(`Invalid canvas size in project file: ${width}x${height}`);
+  }
+  if (manifest.layers.length === 0) {
+    throw new Error('Project file contains no layers');
+  }
+  for (const layer of manifest.layers) {
+    if (typeof layer.id !== 'string' || !Number.isInteger(layer.chunk)) {
+      throw new Error('Project file layer record is corrupted');
+    }
+    if (layer.chunk < 0 || layer.chunk >= chunkCount) {
+      throw new Error(`Missing pixel data for layer "${layer.name}"`);
+    }
+    if (
+      layer.maskChunk !== undefined &&
+      (!Number.isInteger(layer.maskChunk) || layer.maskChunk < 0 || layer.maskChunk >= chunkCount)
+    ) {
+      throw new Error(`Missing mask data for layer "${layer.name}"`);
+    }
+  }
+  if (manifest.frames === undefined) return;
+  if (!Array.isArray(manifest.frames) || manifest.frames.length === 0) {
+    throw new Error('Project file frame list is corrupted');
+  }
+  manifest.frames.forEach((frame, i) => {
+    if (
+      typeof frame?.id !== 'string' ||
+      typeof frame.duration !== 'number' ||
+      typeof frame.cels !== 'object' ||
+      frame.cels === null
+    ) {
+      throw new Error('Project file frame record is corrupted');
+    }
+    for (const chunk of Object.values(frame.cels)) {
+      if (!Number.isInteger(chunk) || chunk < 0 || chunk >= chunkCount) {
+        throw new Error(`Missing pixel data for frame ${i + 1}`);
+      }
+    }
+  });
+  const { currentFrame } = manifest;
+  if (
+    currentFrame !== undefined &&
+    (!Number.isInteger(currentFrame) || currentFrame < 0 || currentFrame >= manifest.frames.length)
+  ) {
+    throw new Error('Project file frame list is corrupted');
+  }
+}
+
+/**
+ * Serialize the current document into a .pxs blob
+ * @param name Project name stored in the manifest
+ */
+export async function saveProjectFile(name: string): Promise<Blob> {
+  const doc = captureDocument();
+  const chunks: Uint8Array[] = [];
+  const layerRecords: ProjectLayerRecord[] = [];
+
+  for (const layer of doc.layers) {
+    const png = await imageDataToBlob(layer.imageData, 'image/png');
+    chunks.push(new Uint8Array(await png.arrayBuffer()));
+    const chunk = chunks.length - 1;
+    let maskChunk: number | undefined;
+    if (layer.mask) {
+      const maskPng = await imageDataToBlob(layer.mask, 'image/png');
+      chunks.push(new Uint8Array(await maskPng.arrayBuffer()));
+      maskChunk = chunks.length - 1;
+    }
+    layerRecords.push(toLayerRecord(layer, chunk, maskChunk));
+  }
+
+  const currentFrame = doc.currentFrame ?? 0;
+  const frameRecords: ProjectFrameRecord[] = [];
+  for (const [i, frame] of (doc.frames ?? []).entries()) {
+    const cels: Record<string, number> = {};
+    if (i === currentFrame) {
+      // The layers hold the current frame, so its cels are the layer chunks
+      layerRecords.forEach((record) => {
+        if (record.kind !== 'group') cels[record.id] = record.chunk;
+      });
+    } else {
+      for (const [layerId, cel] of frame.cels) {
+        const png = await imageDataToBlob(cel, 'image/png');
+        chunks.push(new Uint8Array(await png.arrayBuffer()));
+        cels[layerId] = chunks.length - 1;
+      }
+    }
+    frameRecords.push({ id: frame.id, duration: frame.duration, cels });
+  }
+
+  const manifest: ProjectManifest = {
+    version: PROJECT_FILE_VERSION,
+    name,
+    width: doc.width,
+    height: doc.height,
+    activeLayerId: doc.activeLayerId ?? null,
+    layers: layerRecords,
+    imageLayer: doc.imageLayer ?? null,
+    paths: doc.paths ?? [],
+    palette: doc.palette ?? null,
+    ...(frameRecords.length > 0 ? { frames: frameRecords, currentFrame } : {}),
+    savedAt: Date.now(),
+  };
+
+  const bytes = packProjectFile(manifest, chunks);
+  logger.debug('[ProjectFile] Saved project', {
+    name,
+    layers: layerRecords.length,
+    frames: frameRecords.length,
+    bytes: bytes.byteLength,
+  });
+  return new Blob([bytes], { type: PROJECT_FILE_MIME_TYPE });
+}
+
+function toLayerRecord(
+  layer: DocumentLayer,
+  chunk: number,
+  maskChunk?: number
+): ProjectLayerRecord {
+  return {
+    id: layer.id ?? '',
+    name: layer.name,
+    visible: layer.visible,
+    locked: layer.locked,
+    opacity: layer.opacity,
+    blendMode: layer.blendMode,
+    ...(layer.backgroundColor ? { backgroundColor: layer.backgroundColor } : {}),
+    chunk,
+    ...(maskChunk !== undefined ? { maskChunk, maskEnabled: layer.maskEnabled !== false } : {}),
+    ...(layer.kind === 'group'
+      ? { kind: layer.kind, passThrough: !!layer.passThrough, collapsed: !!layer.collapsed }
+      : {}),
+    ...(layer.parentId ? { parentId: layer.parentId } : {}),
+  };
+}
+
+/**
+ * Replace the current document with the contents of a .pxs file
+ * Resets history so the opened document becomes the initial undo state
+ * @returns The manifest of the opened project
+ */
+export async function openProjectFile(file: Blob): Promise<ProjectManifest> {
+  const { manifest, chunks } = unpackProjectFile(await file.arrayBuffer());
+
+  // Decode every layer before mutating the document so a bad chunk leaves it untouched
+  const decoded = await Promise.all(
+    manifest.layers.map((record) =>
+      blobToImageData(new Blob([chunks[record.chunk]!], { type: 'image/png' }))
+    )
+  );
+  const masks = await Promise.all(
+    manifest.layers.map((record) =>
+      record.maskChunk !== undefined
+        ? blobToImageData(new Blob([chunks[record.maskChunk]!], { type: 'image/png' }))
+        : undefined
+    )
+  );
+  // Other frames' cels too; the current frame's are the layers themselves
+  const currentFrame = manifest.currentFrame ?? 0;
+  const frames: AnimationFrameCels[] = [];
+  for (const [i, record] of (manifest.frames ?? []).entries()) {
+    const cels = new Map<string, ImageData>();
+    if (i !== currentFrame) {
+      for (const [layerId, chunk] of Object.entries(record.cels)) {
+        cels.set(layerId, await blobToImageData(new Blob([chunks[chunk]!], { type: 'image/png' })));
+      }
+    }
+    frames.push({ id: record.id, duration: record.duration, cels });
+  }
+
+  await replaceDocument({
+    width: manifest.width,
+    height: manifest.height,
+    layers: manifest.layers.map((record, i) => ({
+      id: record.id || undefined,
+      name: record.name,
+      imageData: decoded[i]!,
+      visible: record.visible,
+      locked: record.locked,
+      opacity: record.opacity,
+      blendMode: record.blendMode,
+      backgroundColor: record.backgroundColor,
+      ...(masks[i] ? { mask: masks[i], maskEnabled: record.maskEnabled !== false } : {}),
+      kind: record.kind,
+      parentId: record.parentId,
+      passThrough: record.passThrough,
+      collapsed: record.collapsed,
+    })),
+    activeLayerId: manifest.activeLayerId,
+    imageLayer: manifest.imageLayer,
+    paths: Array.isArray(manifest.paths) ? manifest.paths : [],
+    palette: Array.isArray(manifest.palette) ? manifest.palette : null,
+    frames,
+    currentFrame,
+  });
+
+  logger.debug('[ProjectFile] Opened project', {
+    name: manifest.name,
+    layers: manifest.layers.length,
+    frames: frames.length,
+  });
+  return manifest;
+}
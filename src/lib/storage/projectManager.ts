@@ -0,0 +1,341 @@
+/**
+ * Project Manager Module
+ * Keeps documents as projects in IndexedDB for the project gallery: save, open, rename,
+ * duplicate, delete and new from template, plus storage usage and history cleanup
+ * Projects are stored as .pxs project files, so they open exactly like saved files
+ */
+
+import indexedDBStorage from './indexedDB';
+import { saveProjectFile, openProjectFile, isProjectFile } from './projectFile';
+import { listSessionProjectIds } from './sessions';
+import { replaceDocument } from '../formats/document';
+import Canvas from '../canvas';
+import History from '../history';
+import { hexToRgbaArray } from '../colorUtils';
+import { createThumbnailDataURL } from '../imageUtils';
+import { logger } from '../utils/logger';
+
+/**
+ * Project as listed in the gallery
+ */
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  width: number | null; // Canvas size, null for records saved without gallery details
+  height: number | null;
+  thumbnail: string | null; // PNG data URL, at most 96px on a side
+}
+
+/**
+ * Starting point for a new project
+ */
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  background: string | null; // Hex fill of the background layer, null for transparent
+}
+
+export interface StorageUsage {
+  usage: number; // Bytes used by this site
+  quota: number; // Bytes the browser allows this site
+}
+
+export const PROJECT_TEMPLATES: ProjectTemplate[] = [
+  { id: 'sprite-16', name: 'Sprite 16×16', width: 16, height: 16, background: null },
+  { id: 'sprite-32', name: 'Sprite 32×32', width: 32, height: 32, background: null },
+  { id: 'sprite-64', name: 'Sprite 64×64', width: 64, height: 64, background: null },
+  { id: 'icon-128', name: 'Icon 128×128', width: 128, height: 128, background: null },
+  { id: 'tileset-256', name: 'Tileset 256×256', width: 256, height: 256, background: null },
+  { id: 'scene-320', name: 'Scene 320×180', width: 320, height: 180, background: '#ffffff' },
+  { id: 'canvas-512', name: 'Canvas 512×512', width: 512, height: 512, background: '#ffffff' },
+];
+
+export const DEFAULT_PROJECT_NAME = 'Untitled Project';
+const THUMBNAIL_SIZE = 96;
+
+// Document as stored in the projects store
+interface StoredProjectData {
+  format: 'pxs';
+  file: ArrayBuffer;
+}
+
+interface StoredProjectMeta {
+  width: number;
+  height: number;
+  thumbnail: string | null;
+}
+
+function isStoredProjectData(data: unknown): data is StoredProjectData {
+  const stored = data as StoredProjectData | null;
+  return (
+    typeof stored === 'object' &&
+    stored !== null &&
+    stored.format === 'pxs' &&
+    stored.file instanceof ArrayBuffer &&
+    isProjectFile(stored.file)
+  );
+}
+
+function toSummary(project: {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  meta?: unknown;
+}): ProjectSummary {
+  const meta = (project.meta ?? {}) as Partial<StoredProjectMeta>;
+  return {
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    width: typeof meta.width === 'number' ? meta.width : null,
+    height: typeof meta.height === 'number' ? meta.height : null,
+    thumbnail: typeof meta.thumbnail === 'string' ? meta.thumbnail : null,
+  };
+}
+
+function generateProjectId(): string {
+  return `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+class ProjectManager {
+  // Stored project the document belongs to, null until the document is first saved
+  private currentId: string | null = null;
+  private currentName = DEFAULT_PROJECT_NAME;
+
+  getCurrentProjectId(): string | null {
+    return this.currentId;
+  }
+
+  getCurrentName(): string {
+    return this.currentName;
+  }
+
+  /**
+   * Treat the document as a new, unsaved project, e.g. after opening a file
+   * Saving it then adds a project instead of overwriting the one open before
+   */
+  detach(name: string = DEFAULT_PROJECT_NAME): void {
+    this.currentId = null;
+    this.currentName = name;
+    History.setProjectId(generateProjectId());
+  }
+
+  /**
+   * Stored projects, most recently modified first
+   */
+  async list(): Promise<ProjectSummary[]> {
+    const projects = await indexedDBStorage.listProjects();
+    return projects.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Save the document as the current project
+   * A document not saved before becomes a project under the ID its history already uses,
+   * so its snapshots stay with it
+   */
+  async save(name: string = this.currentName): Promise<void> {
+    const projectName = name.trim() || DEFAULT_PROJECT_NAME;
+    const id = this.currentId ?? History.getProjectId() ?? generateProjectId();
+
+    const file = await (await saveProjectFile(projectName)).arrayBuffer();
+    const data: StoredProjectData = { format: 'pxs', file };
+    const meta: StoredProjectMeta = {
+      width: Canvas.getWidth(),
+      height: Canvas.getHeight(),
+      thumbnail: this.createThumbnail(),
+    };
+    if (!(await indexedDBStorage.saveProject(id, projectName, data, meta))) {
+      throw new Error('Failed to save project. Browser storage may be full or unavailable.');
+    }
+
+    this.currentId = id;
+    this.currentName = projectName;
+    History.setProjectId(id);
+    logger.debug('[ProjectManager] Saved project', { id, bytes: file.byteLength });
+  }
+
+  /**
+   * Replace the document with a stored project
+   */
+  async open(id: string): Promise<void> {
+    const project = await indexedDBStorage.loadProject(id);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+    const data = project.data;
+    if (!isStoredProjectData(data)) {
+      throw new Error(`Project "${project.name}" was not saved by the project gallery`);
+    }
+
+    await this.withHistoryProject(id, () => openProjectFile(new Blob([data.file])));
+    this.currentId = id;
+    this.currentName = project.name;
+  }
+
+  /**
+   * Replace the document with an earlier version of a project (an autosave checkpoint)
+   * The document stays that project, whether or not it was ever saved to the gallery
+   */
+  async restoreVersion(projectId: string, name: string, file: Blob): Promise<void> {
+    const stored = await indexedDBStorage.loadProject(projectId);
+    await this.withHistoryProject(projectId, () => openProjectFile(file));
+    this.currentId = stored ? projectId : null;
+    this.currentName = stored?.name ?? name;
+  }
+
+  /**
+   * Rename a stored project
+   */
+  async rename(id: string, name: string): Promise<void> {
+    const projectName = name.trim();
+    if (!projectName) {
+      throw new Error('Project name cannot be empty');
+    }
+    if (!(await indexedDBStorage.renameProject(id, projectName))) {
+      throw new Error('Project not found');
+    }
+    if (id === this.currentId) {
+      this.currentName = projectName;
+    }
+  }
+
+  /**
+   * Copy a stored project under a new name (its history snapshots stay with the original)
+   * @returns ID of the copy
+   */
+  async duplicate(id: string): Promise<string> {
+    const project = await indexedDBStorage.loadProject(id);
+    if (!project) {
+      throw new Error('Project not found');
+    }
+    const copyId = generateProjectId();
+    const saved = await indexedDBStorage.saveProject(
+      copyId,
+      `${project.name} copy`,
+      project.data,
+      project.meta
+    );
+    if (!saved) {
+      throw new Error('Failed to duplicate project. Browser storage may be full or unavailable.');
+    }
+    return copyId;
+  }
+
+  /**
+   * Delete a stored project with its history records and snapshots
+   * The open project cannot be deleted, since its undo steps live in those records
+   */
+  async delete(id: string): Promise<void> {
+    if (id === this.currentId) {
+      throw new Error('The open project cannot be deleted. Open or create another one first.');
+    }
+    await indexedDBStorage.deleteProject(id);
+  }
+
+  /**
+   * Start a new project from a template and save it to the gallery
+   */
+  async createFromTemplate(templateId: string, name?: string): Promise<void> {
+    const template = PROJECT_TEMPLATES.find((candidate) => candidate.id === templateId);
+    if (!template) {
+      throw new Error(`Unknown project template: ${templateId}`);
+    }
+
+    const background = new ImageData(template.width, template.height);
+    if (template.background) {
+      const rgba = hexToRgbaArray(template.background, 1);
+      for (let i = 0; i < background.data.length; i += 4) {
+        background.data.set(rgba, i);
+      }
+    }
+
+    const id = generateProjectId();
+    await this.withHistoryProject(id, () =>
+      replaceDocument({
+        width: template.width,
+        height: template.height,
+        layers: [
+          {
+            name: 'Background',
+            imageData: background,
+            visible: true,
+            locked: false,
+            opacity: 1,
+            blendMode: 'normal',
+          },
+        ],
+      })
+    );
+    this.currentId = id;
+    await this.save(name ?? template.name);
+  }
+
+  /**
+   * Space used by this site and the browser's limit, when the browser reports them
+   */
+  async getStorageUsage(): Promise<StorageUsage | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return null;
+    }
+    try {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      return { usage, quota };
+    } catch (error) {
+      logger.warn('[ProjectManager] Failed to estimate storage:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete history records (spilled undo steps and snapshots) that belong to no stored project,
+   * not to the document currently open and not to a session of another tab, running or waiting
+   * to be recovered; autosave checkpoints are left to their own retention
+   * @returns Number of records deleted
+   */
+  async cleanUpHistory(): Promise<number> {
+    const keep = (await indexedDBStorage.listProjects()).map((project) => project.id);
+    const currentHistoryId = History.getProjectId();
+    if (currentHistoryId) {
+      keep.push(currentHistoryId);
+    }
+    keep.push(...listSessionProjectIds());
+    return indexedDBStorage.deleteOrphanedHistory([...new Set(keep)]);
+  }
+
+  /**
+   * Replace the document with history already using a project's records, so the new
+   * document's first steps and snapshots belong to it; switches back if replacing fails
+   */
+  private async withHistoryProject(id: string, replace: () => Promise<unknown>): Promise<void> {
+    const previousId = History.getProjectId();
+    History.setProjectId(id);
+    try {
+      await replace();
+    } catch (error) {
+      if (previousId) {
+        History.setProjectId(previousId);
+      }
+      throw error;
+    }
+  }
+
+  private createThumbnail(): string | null {
+    try {
+      return createThumbnailDataURL(Canvas.getCanvas(), THUMBNAIL_SIZE);
+    } catch (error) {
+      logger.warn('[ProjectManager] Failed to create project thumbnail:', error);
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+const projectManager = new ProjectManager();
+
+export default projectManager;
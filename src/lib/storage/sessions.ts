@@ -0,0 +1,79 @@
+/**
+ * Session markers
+ * Every tab running the editor lists its session in localStorage, with the project its history
+ * and checkpoints belong to, and holds a Web Lock while it runs
+ */
+
+import { logger } from '../utils/logger';
+
+// Sessions running in any tab, keyed by session ID; a tab that crashes leaves its entry behind
+export const SESSIONS_KEY = 'pixel-studio-sessions';
+// Web Lock a session holds while it runs, which the browser releases when its tab goes away
+export const SESSION_LOCK_PREFIX = 'pixel-studio-session:';
+// Without Web Locks, a session counts as running while it refreshed its entry this recently
+// (timers in background tabs may fire only once a minute)
+export const SESSION_STALE_AFTER = 5 * 60 * 1000;
+
+export interface SessionMarker {
+  projectId: string | null;
+  startedAt: number;
+  updatedAt: number;
+}
+
+export type SessionMarkers = Record<string, SessionMarker>;
+
+export function readSessionMarkers(): SessionMarkers {
+  try {
+    const stored = localStorage.getItem(SESSIONS_KEY);
+    return stored ? (JSON.parse(stored) as SessionMarkers) : {};
+  } catch (error) {
+    logger.warn('Failed to read session markers:', error);
+    return {};
+  }
+}
+
+/**
+ * Update the session markers, re-reading them first since other tabs write them too
+ */
+export function updateSessionMarkers(update: (markers: SessionMarkers) => void): void {
+  const markers = readSessionMarkers();
+  update(markers);
+  try {
+    if (Object.keys(markers).length > 0) {
+      localStorage.setItem(SESSIONS_KEY, JSON.stringify(markers));
+    } else {
+      localStorage.removeItem(SESSIONS_KEY);
+    }
+  } catch (error) {
+    logger.warn('Failed to write session markers:', error);
+  }
+}
+
+export function hasWebLocks(): boolean {
+  return typeof navigator !== 'undefined' && !!navigator.locks;
+}
+
+/**
+ * Names of the session locks held by running tabs, null when the browser has no Web Locks
+ */
+export async function querySessionLocks(): Promise<Set<string> | null> {
+  if (!hasWebLocks()) {
+    return null;
+  }
+  try {
+    const { held = [] } = await navigator.locks.query();
+    return new Set(held.map((lock) => lock.name ?? ''));
+  } catch (error) {
+    logger.warn('Failed to query session locks:', error);
+    return null;
+  }
+}
+
+/**
+ * Projects of every listed session, running in a tab or crashed and not yet recovered
+ */
+export function listSessionProjectIds(): string[] {
+  return Object.values(readSessionMarkers())
+    .map((marker) => marker.projectId)
+    .filter((projectId): projectId is string => !!projectId);
+}
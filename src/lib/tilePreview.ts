@@ -0,0 +1,78 @@
+/**
+ * Tile Preview Module
+ * In tile mode, shows the canvas repeated 3×3 so seams can be checked while painting
+ * The copies are drawn on a canvas behind the document and never show up in exports or history
+ */
+
+import type { AppState } from './types';
+import Canvas from './canvas';
+import StateManager from './stateManager';
+import EventEmitter from './utils/eventEmitter';
+
+const TilePreview = (function () {
+  let canvas: HTMLCanvasElement | null = null;
+
+  /**
+   * Attach the preview canvas and redraw whenever the document is rendered or resized
+   */
+  function init(previewCanvas: HTMLCanvasElement): void {
+    canvas = previewCanvas;
+    EventEmitter.off('layers:render', render);
+    EventEmitter.on('layers:render', render);
+    EventEmitter.off('canvas:resize', render);
+    EventEmitter.on('canvas:resize', render);
+    EventEmitter.off('state:update', handleStateUpdate);
+    EventEmitter.on('state:update', handleStateUpdate);
+    render();
+  }
+
+  function handleStateUpdate({ updates }: { updates: Partial<AppState> }): void {
+    if ('tileMode' in updates) {
+      render();
+    }
+  }
+
+  function isEnabled(): boolean {
+    return StateManager.isInitialized() && StateManager.getState().tileMode;
+  }
+
+  /**
+   * Draw the eight copies around the document; the middle stays empty as the document
+   * itself sits on top of it
+   */
+  function render(): void {
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    if (!isEnabled() || !Canvas.isInitialized()) {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    if (canvas.width !== width * 3 || canvas.height !== height * 3) {
+      canvas.width = width * 3;
+      canvas.height = height * 3;
+    }
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingEnabled = false;
+
+    const source = Canvas.getCanvas();
+    for (let row = 0; row < 3; row++) {
+      for (let column = 0; column < 3; column++) {
+        if (row === 1 && column === 1) continue;
+        ctx.drawImage(source, column * width, row * height, width, height);
+      }
+    }
+  }
+
+  return {
+    init,
+    render,
+    isEnabled,
+  };
+})();
+
+export default TilePreview;
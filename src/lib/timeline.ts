@@ -0,0 +1,585 @@
+/**
+ * Timeline Module
+ * Animation frames on top of the layer system
+ * Each frame holds one cel (ImageData) per layer; the current frame's cels live
+ * in the layer canvases and are committed back when switching frames
+ * Each frame keeps its own undo steps, set aside in History while another frame is edited
+ */
+
+import type {
+  AnimationFrame,
+  AnimationFrameCels,
+  Layer,
+  OnionSkinOverlay,
+  OnionSkinSettings,
+} from './types';
+import Layers from './layers';
+import History, { type HistoryStack } from './history';
+import CanvasUtils from './canvasUtils';
+import EventEmitter from './utils/eventEmitter';
+import { createCanvasFromImageData } from './imageUtils';
+import { applyMaskToImageData } from './layerMask';
+import {
+  buildLayerTree,
+  compositeLayerTree,
+  isGroupLayer,
+  toCompositeOperation,
+} from './layerTree';
+import { logger } from './utils/logger';
+
+interface FrameRecord {
+  id: string;
+  duration: number;
+  cels: Map<string, ImageData>; // Layer ID -> pixels (stale for the current frame)
+  history: HistoryStack | null; // Undo steps while the frame is not current
+}
+
+const Timeline = (function () {
+  const DEFAULT_FRAME_DURATION = 100;
+  const MIN_FRAME_DURATION = 10;
+  const MAX_FRAME_DURATION = 10000;
+  const MAX_FRAMES = 256;
+  const MAX_ONION_SKIN_FRAMES = 5;
+  const PREVIOUS_TINT = 'rgba(255, 64, 64, 0.6)';
+  const NEXT_TINT = 'rgba(64, 128, 255, 0.6)';
+
+  let frames: FrameRecord[] = [];
+  let currentIndex = 0;
+  let onionSkin: OnionSkinSettings = {
+    enabled: false,
+    previous: 1,
+    next: 1,
+    opacity: 0.4,
+    tint: true,
+  };
+  // Composites of non-current frames, invalidated whenever cels or layer properties change
+  const compositeCache = new Map<string, ImageData>();
+  const overlayCache = new Map<string, HTMLCanvasElement>();
+  let playing = false;
+  let playbackIndex = 0;
+  let playbackTimer: ReturnType<typeof setTimeout> | null = null;
+  let listenersAttached = false;
+
+  /**
+   * Generate unique frame ID
+   */
+  function generateFrameId(): string {
+    return `frame-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+  }
+
+  /**
+   * Make sure there is always at least one frame (the layers as they are)
+   */
+  function ensureFrames(): void {
+    if (frames.length === 0) {
+      frames = [
+        {
+          id: generateFrameId(),
+          duration: DEFAULT_FRAME_DURATION,
+          cels: new Map(),
+          history: null,
+        },
+      ];
+      currentIndex = 0;
+    }
+    if (!listenersAttached) {
+      listenersAttached = true;
+      // Layer visibility, opacity and blend mode apply to every frame
+      EventEmitter.on('layers:update', invalidateCaches);
+      EventEmitter.on('layers:create', invalidateCaches);
+      EventEmitter.on('layers:delete', handleLayerDeleted);
+    }
+  }
+
+  function invalidateCaches(): void {
+    compositeCache.clear();
+    overlayCache.clear();
+  }
+
+  function handleLayerDeleted(data: { deletedId?: string }): void {
+    const id = data?.deletedId;
+    if (id) {
+      for (const frame of frames) {
+        frame.cels.delete(id);
+      }
+    }
+    invalidateCaches();
+  }
+
+  function emitChange(): void {
+    // Frame order and neighbours may have changed
+    if (onionSkin.enabled && Layers.isInitialized()) {
+      Layers.renderLayers();
+    }
+    EventEmitter.emit('timeline:change', {
+      frames: getFrames(),
+      currentIndex,
+    });
+  }
+
+  function clampIndex(index: number): number {
+    return Math.max(0, Math.min(frames.length - 1, index));
+  }
+
+  function clampDuration(duration: number): number {
+    if (!Number.isFinite(duration)) return DEFAULT_FRAME_DURATION;
+    return Math.round(Math.max(MIN_FRAME_DURATION, Math.min(MAX_FRAME_DURATION, duration)));
+  }
+
+  /**
+   * Copy the live layer pixels into the current frame's cels
+   */
+  function commitCurrentFrame(): void {
+    ensureFrames();
+    if (!Layers.isInitialized()) return;
+    const frame = frames[currentIndex]!;
+    frame.cels.clear();
+    for (const layer of Layers.getAllLayers()) {
+      // Groups hold no pixels, so they have no cels
+      if (isGroupLayer(layer)) continue;
+      const imageData = Layers.getImageData(layer.id);
+      if (imageData) {
+        frame.cels.set(layer.id, imageData);
+      }
+    }
+    compositeCache.delete(frame.id);
+    overlayCache.clear();
+  }
+
+  /**
+   * Load a frame's cels into the layer canvases (layers without a cel are cleared)
+   */
+  function loadFrame(index: number): void {
+    const frame = frames[index]!;
+    const width = CanvasUtils.getWidth();
+    const height = CanvasUtils.getHeight();
+    for (const layer of Layers.getAllLayers()) {
+      if (isGroupLayer(layer)) continue;
+      Layers.putImageData(layer.id, frame.cels.get(layer.id) ?? new ImageData(width, height));
+    }
+  }
+
+  /**
+   * Set the current frame's undo steps aside and copy its pixels into its cels
+   */
+  async function leaveCurrentFrame(): Promise<void> {
+    ensureFrames();
+    if (Layers.isInitialized()) {
+      frames[currentIndex]!.history = await History.suspend();
+    }
+    commitCurrentFrame();
+  }
+
+  /**
+   * Switch the editable frame, bringing back the undo steps it had when it was left
+   * (a new frame starts with its own history)
+   */
+  async function switchToFrame(index: number): Promise<void> {
+    currentIndex = index;
+    if (Layers.isInitialized()) {
+      const frame = frames[index]!;
+      loadFrame(index);
+      await Layers.renderSync();
+      const steps = frame.history;
+      frame.history = null;
+      await History.resume(steps);
+    }
+    emitChange();
+  }
+
+  /**
+   * Get all frames (ID and duration)
+   */
+  function getFrames(): AnimationFrame[] {
+    ensureFrames();
+    return frames.map((frame) => ({ id: frame.id, duration: frame.duration }));
+  }
+
+  function getFrameCount(): number {
+    ensureFrames();
+    return frames.length;
+  }
+
+  function getCurrentIndex(): number {
+    ensureFrames();
+    return currentIndex;
+  }
+
+  /**
+   * Make a frame the editable frame
+   */
+  async function goToFrame(index: number): Promise<boolean> {
+    ensureFrames();
+    if (index < 0 || index >= frames.length) return false;
+    if (index === currentIndex) return true;
+    await leaveCurrentFrame();
+    await switchToFrame(index);
+    return true;
+  }
+
+  /**
+   * Insert a new frame after the current one and switch to it
+   * @param duplicate - Copy the current frame's cels instead of starting empty
+   * @throws Error if the frame limit is reached
+   */
+  async function addFrame(duplicate: boolean = false): Promise<AnimationFrame> {
+    ensureFrames();
+    if (frames.length >= MAX_FRAMES) {
+      throw new Error(`Maximum frame limit reached (${MAX_FRAMES} frames)`);
+    }
+    await leaveCurrentFrame();
+    const source = frames[currentIndex]!;
+    const frame: FrameRecord = {
+      id: generateFrameId(),
+      duration: source.duration,
+      cels: new Map(),
+      history: null,
+    };
+    if (duplicate) {
+      for (const [layerId, imageData] of source.cels) {
+        frame.cels.set(
+          layerId,
+          new ImageData(new Uint8ClampedArray(imageData.data), imageData.width, imageData.height)
+        );
+      }
+    }
+    frames.splice(currentIndex + 1, 0, frame);
+    await switchToFrame(currentIndex + 1);
+    return { id: frame.id, duration: frame.duration };
+  }
+
+  /**
+   * Duplicate the current frame (inserted after it)
+   */
+  async function duplicateFrame(): Promise<AnimationFrame> {
+    return addFrame(true);
+  }
+
+  /**
+   * Delete a frame; the last remaining frame cannot be deleted
+   */
+  async function deleteFrame(index: number): Promise<boolean> {
+    ensureFrames();
+    if (frames.length <= 1 || index < 0 || index >= frames.length) return false;
+    stop();
+    if (index === currentIndex && Layers.isInitialized()) {
+      frames[index]!.history = await History.suspend();
+    }
+    const [removed] = frames.splice(index, 1);
+    History.discard(removed!.history);
+    compositeCache.delete(removed!.id);
+    overlayCache.clear();
+
+    if (index === currentIndex) {
+      await switchToFrame(clampIndex(index));
+    } else {
+      if (index < currentIndex) currentIndex--;
+      emitChange();
+    }
+    return true;
+  }
+
+  /**
+   * Move a frame to a new position
+   */
+  function moveFrame(fromIndex: number, toIndex: number): boolean {
+    ensureFrames();
+    if (
+      fromIndex < 0 ||
+      fromIndex >= frames.length ||
+      toIndex < 0 ||
+      toIndex >= frames.length ||
+      fromIndex === toIndex
+    ) {
+      return false;
+    }
+    const currentId = frames[currentIndex]!.id;
+    const [frame] = frames.splice(fromIndex, 1);
+    frames.splice(toIndex, 0, frame!);
+    currentIndex = frames.findIndex((f) => f.id === currentId);
+    overlayCache.clear();
+    emitChange();
+    return true;
+  }
+
+  /**
+   * Set how long a frame is shown, in milliseconds
+   */
+  function setFrameDuration(index: number, duration: number): boolean {
+    ensureFrames();
+    const frame = frames[index];
+    if (!frame) return false;
+    frame.duration = clampDuration(duration);
+    emitChange();
+    return true;
+  }
+
+  /**
+   * Composite all visible layers of a frame at logical size
+   * The current frame is read from the live layer canvases
+   */
+  function renderFrame(index: number): ImageData {
+    ensureFrames();
+    const frame = frames[clampIndex(index)]!;
+    const isCurrent = frame === frames[currentIndex];
+    if (!isCurrent) {
+      const cached = compositeCache.get(frame.id);
+      if (cached) return cached;
+    }
+
+    const width = CanvasUtils.getWidth();
+    const height = CanvasUtils.getHeight();
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('Failed to get canvas context');
+    }
+
+    const drawCel = (target: CanvasRenderingContext2D, layer: Layer, opacity: number) => {
+      const mask = layer.maskEnabled !== false ? Layers.getMaskImageData(layer.id) : null;
+      target.save();
+      if (layer.backgroundColor && !mask) {
+        target.fillStyle = layer.backgroundColor;
+        target.fillRect(0, 0, width, height);
+      }
+      let cel = isCurrent ? Layers.getImageData(layer.id) : frame.cels.get(layer.id);
+      if (cel && mask) {
+        // The mask hides the layer background as well as its pixels
+        const celCtx = createCanvasFromImageData(cel).getContext('2d');
+        if (celCtx && layer.backgroundColor) {
+          celCtx.globalCompositeOperation = 'destination-over';
+          celCtx.fillStyle = layer.backgroundColor;
+          celCtx.fillRect(0, 0, width, height);
+          cel = celCtx.getImageData(0, 0, width, height);
+        }
+        cel = applyMaskToImageData(cel, mask);
+      }
+      if (cel) {
+        target.globalAlpha = opacity;
+        target.globalCompositeOperation = toCompositeOperation(layer.blendMode);
+        target.drawImage(createCanvasFromImageData(cel), 0, 0);
+      }
+      target.restore();
+    };
+    compositeLayerTree(ctx, buildLayerTree(Layers.getAllLayers()), width, height, drawCel);
+
+    const composite = ctx.getImageData(0, 0, width, height);
+    if (!isCurrent) {
+      compositeCache.set(frame.id, composite);
+    }
+    return composite;
+  }
+
+  /**
+   * Apply a pixel transform to the stored cels of every frame except the current one
+   * (the current frame lives in the layer canvases)
+   */
+  function mapStoredCels(transform: (imageData: ImageData, layerId: string) => ImageData): void {
+    ensureFrames();
+    frames.forEach((frame, i) => {
+      if (i === currentIndex) return;
+      for (const [layerId, imageData] of frame.cels) {
+        frame.cels.set(layerId, transform(imageData, layerId));
+      }
+    });
+    invalidateCaches();
+  }
+
+  /**
+   * Composite every frame in order (for export)
+   */
+  function renderAllFrames(): { imageData: ImageData; duration: number }[] {
+    ensureFrames();
+    return frames.map((frame, i) => ({ imageData: renderFrame(i), duration: frame.duration }));
+  }
+
+  /**
+   * Build a (optionally tinted) overlay canvas for a neighbouring frame
+   */
+  function getOverlayCanvas(index: number, tint: string | null): HTMLCanvasElement {
+    const frame = frames[index]!;
+    const key = `${frame.id}:${tint ?? 'none'}`;
+    const cached = overlayCache.get(key);
+    if (cached) return cached;
+
+    const canvas = createCanvasFromImageData(renderFrame(index));
+    if (tint) {
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        ctx.globalCompositeOperation = 'source-atop';
+        ctx.fillStyle = tint;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+    }
+    overlayCache.set(key, canvas);
+    return canvas;
+  }
+
+  /**
+   * Onion skin overlays for the render pipeline; opacity fades with distance
+   */
+  function getOnionSkinOverlays(): OnionSkinOverlay[] {
+    if (!onionSkin.enabled || playing || frames.length <= 1) return [];
+    const overlays: OnionSkinOverlay[] = [];
+    const addOverlays = (count: number, step: number, tint: string): void => {
+      for (let distance = count; distance >= 1; distance--) {
+        const index = currentIndex + step * distance;
+        if (index < 0 || index >= frames.length) continue;
+        overlays.push({
+          canvas: getOverlayCanvas(index, onionSkin.tint ? tint : null),
+          opacity: onionSkin.opacity / distance,
+        });
+      }
+    };
+    try {
+      addOverlays(onionSkin.previous, -1, PREVIOUS_TINT);
+      addOverlays(onionSkin.next, 1, NEXT_TINT);
+    } catch (error) {
+      logger.error('[Timeline] Failed to build onion skin overlays:', error);
+      return [];
+    }
+    return overlays;
+  }
+
+  function getOnionSkin(): OnionSkinSettings {
+    return { ...onionSkin };
+  }
+
+  /**
+   * Update onion skin settings and re-render
+   */
+  function setOnionSkin(settings: Partial<OnionSkinSettings>): void {
+    ensureFrames();
+    const clampCount = (value: number) =>
+      Number.isFinite(value) ? Math.max(0, Math.min(MAX_ONION_SKIN_FRAMES, Math.round(value))) : 0;
+    onionSkin = {
+      ...onionSkin,
+      ...settings,
+    };
+    onionSkin.previous = clampCount(onionSkin.previous);
+    onionSkin.next = clampCount(onionSkin.next);
+    onionSkin.opacity = Math.max(0, Math.min(1, onionSkin.opacity));
+
+    Layers.setOnionSkinProvider(onionSkin.enabled ? getOnionSkinOverlays : null);
+    EventEmitter.emit('timeline:onion-skin', getOnionSkin());
+  }
+
+  function scheduleNextPlaybackFrame(): void {
+    const frame = frames[playbackIndex];
+    if (!playing || !frame) return;
+    playbackTimer = setTimeout(() => {
+      playbackIndex = (playbackIndex + 1) % frames.length;
+      EventEmitter.emit('timeline:playback', { playing: true, frameIndex: playbackIndex });
+      scheduleNextPlaybackFrame();
+    }, frame.duration);
+  }
+
+  /**
+   * Start looping playback preview from the current frame
+   * Playback does not touch the layers; listeners render frames via renderFrame()
+   */
+  function play(): void {
+    ensureFrames();
+    if (playing) return;
+    commitCurrentFrame();
+    playing = true;
+    playbackIndex = currentIndex;
+    EventEmitter.emit('timeline:playback', { playing: true, frameIndex: playbackIndex });
+    scheduleNextPlaybackFrame();
+  }
+
+  /**
+   * Stop playback preview
+   */
+  function stop(): void {
+    if (!playing) return;
+    playing = false;
+    if (playbackTimer) {
+      clearTimeout(playbackTimer);
+      playbackTimer = null;
+    }
+    EventEmitter.emit('timeline:playback', { playing: false, frameIndex: currentIndex });
+  }
+
+  function isPlaying(): boolean {
+    return playing;
+  }
+
+  /**
+   * Every frame with its cels, the current frame's read from the layers (for saving)
+   */
+  function getFrameCels(): AnimationFrameCels[] {
+    commitCurrentFrame();
+    return frames.map((frame) => ({
+      id: frame.id,
+      duration: frame.duration,
+      cels: new Map(frame.cels),
+    }));
+  }
+
+  /**
+   * Replace every frame, e.g. when a document is opened
+   * The layers already hold the current frame's pixels, so its cels are not loaded
+   * @param current - Index of the current frame
+   */
+  function restoreFrames(records: AnimationFrameCels[], current: number): void {
+    stop();
+    for (const frame of frames) {
+      History.discard(frame.history);
+    }
+    const usedIds = new Set<string>();
+    frames = records.slice(0, MAX_FRAMES).map((record) => {
+      const id = record.id && !usedIds.has(record.id) ? record.id : generateFrameId();
+      usedIds.add(id);
+      return {
+        id,
+        duration: clampDuration(record.duration),
+        cels: new Map(record.cels),
+        history: null,
+      };
+    });
+    currentIndex = 0;
+    invalidateCaches();
+    ensureFrames();
+    currentIndex = clampIndex(current);
+    emitChange();
+  }
+
+  /**
+   * Discard all frames, keeping the layers as a single frame
+   * Called when a document without frames is opened or replaced
+   */
+  function reset(): void {
+    restoreFrames([], 0);
+  }
+
+  return {
+    getFrames,
+    getFrameCount,
+    getCurrentIndex,
+    goToFrame,
+    addFrame,
+    duplicateFrame,
+    deleteFrame,
+    moveFrame,
+    setFrameDuration,
+    commitCurrentFrame,
+    mapStoredCels,
+    renderFrame,
+    renderAllFrames,
+    getOnionSkin,
+    setOnionSkin,
+    play,
+    stop,
+    isPlaying,
+    getFrameCels,
+    restoreFrames,
+    reset,
+    on: EventEmitter.on.bind(EventEmitter),
+    off: EventEmitter.off.bind(EventEmitter),
+  };
+})();
+
+export default Timeline;
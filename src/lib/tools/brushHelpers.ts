@@ -4,7 +4,8 @@
  * Inspired by Procreate and GIMP brush systems
  */
 
-import type { PressureCurveType } from '../types';
+import type { AppState, PressureCurveType, SymmetryMode } from '../types';
+import { createBayerPattern, parseDitherPattern, type DitherPattern } from '../dither';
 
 // Brush texture patterns for enhanced brush realism
 export const BRUSH_TEXTURES = {
@@ -14,10 +15,43 @@ export const BRUSH_TEXTURES = {
   rough: 'rough',
   smooth: 'smooth',
   custom: 'custom',
+  bayer2: 'bayer2',
+  bayer4: 'bayer4',
+  bayer8: 'bayer8',
+  dither: 'dither',
 } as const;
 
 export type BrushTexture = (typeof BRUSH_TEXTURES)[keyof typeof BRUSH_TEXTURES] | null;
 
+// Dither textures and the Bayer matrix size behind each; 'dither' uses the custom pattern
+const DITHER_TEXTURES = new Map<string, number | null>([
+  [BRUSH_TEXTURES.bayer2, 2],
+  [BRUSH_TEXTURES.bayer4, 4],
+  [BRUSH_TEXTURES.bayer8, 8],
+  [BRUSH_TEXTURES.dither, null],
+]);
+
+/**
+ * Whether a texture paints a dither pattern of the current and background colors
+ */
+export function isDitherTexture(texture: string | null): boolean {
+  return texture !== null && DITHER_TEXTURES.has(texture);
+}
+
+/**
+ * Dither pattern a brush texture paints
+ * @param customPattern - Rows of 0 and 1 used by the custom 'dither' texture
+ * @returns Pattern, or null when the texture does not dither
+ */
+export function getBrushDitherPattern(
+  texture: string | null,
+  customPattern: string
+): DitherPattern | null {
+  if (texture === null || !DITHER_TEXTURES.has(texture)) return null;
+  const size = DITHER_TEXTURES.get(texture);
+  return size ? createBayerPattern(size) : parseDitherPattern(customPattern);
+}
+
 /**
  * Apply pressure curve to a pressure value
  */
@@ -158,6 +192,95 @@ export function applyScatter(
   return points;
 }
 
+/**
+ * Symmetry settings with both axes resolved to document coordinates
+ */
+export interface Symmetry {
+  mode: SymmetryMode;
+  axisX: number;
+  axisY: number;
+  segments: number;
+}
+
+// Symmetry that leaves every stamp alone
+export const NO_SYMMETRY: Symmetry = { mode: 'off', axisX: 0, axisY: 0, segments: 2 };
+
+type SymmetryState = Pick<
+  AppState,
+  'symmetryMode' | 'symmetryAxisX' | 'symmetryAxisY' | 'symmetrySegments'
+>;
+
+/**
+ * Resolve the symmetry settings for a canvas size (unset axes sit at the center)
+ */
+export function resolveSymmetry(state: SymmetryState, width: number, height: number): Symmetry {
+  return {
+    mode: state.symmetryMode ?? 'off',
+    axisX: state.symmetryAxisX ?? width / 2,
+    axisY: state.symmetryAxisY ?? height / 2,
+    segments: Math.max(2, Math.round(state.symmetrySegments ?? 2)),
+  };
+}
+
+/**
+ * Mappings from a point to each of its symmetric copies, the first being the point itself
+ * Horizontal symmetry mirrors across the vertical axis, vertical across the horizontal one,
+ * and radial rotates in equal steps around the crossing of both axes
+ */
+export function getSymmetryTransforms(
+  symmetry: Symmetry
+): Array<(point: { x: number; y: number }) => { x: number; y: number }> {
+  const { axisX, axisY } = symmetry;
+  const identity = (point: { x: number; y: number }) => ({ x: point.x, y: point.y });
+  const mirrorX = (point: { x: number; y: number }) => ({ x: 2 * axisX - point.x, y: point.y });
+  const mirrorY = (point: { x: number; y: number }) => ({ x: point.x, y: 2 * axisY - point.y });
+
+  switch (symmetry.mode) {
+    case 'horizontal':
+      return [identity, mirrorX];
+    case 'vertical':
+      return [identity, mirrorY];
+    case 'both':
+      return [identity, mirrorX, mirrorY, (point) => mirrorX(mirrorY(point))];
+    case 'radial': {
+      const transforms = [identity];
+      for (let i = 1; i < symmetry.segments; i++) {
+        const angle = (Math.PI * 2 * i) / symmetry.segments;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        transforms.push((point) => {
+          const dx = point.x - axisX;
+          const dy = point.y - axisY;
+          return { x: axisX + dx * cos - dy * sin, y: axisY + dx * sin + dy * cos };
+        });
+      }
+      return transforms;
+    }
+    default:
+      return [identity];
+  }
+}
+
+/**
+ * Positions of a stamp and its symmetric copies
+ * Copies landing on an earlier one (a stamp on the axis) are skipped so they do not
+ * paint twice; pass the stamp center so mirrored pixels line up with the originals
+ */
+export function getSymmetryPoints(
+  x: number,
+  y: number,
+  symmetry: Symmetry
+): Array<{ x: number; y: number }> {
+  const points: Array<{ x: number; y: number }> = [];
+  for (const transform of getSymmetryTransforms(symmetry)) {
+    const point = transform({ x, y });
+    if (!points.some((p) => Math.abs(p.x - point.x) < 1e-6 && Math.abs(p.y - point.y) < 1e-6)) {
+      points.push(point);
+    }
+  }
+  return points;
+}
+
 /**
  * Apply brush texture blending (mix brush color with texture)
  */
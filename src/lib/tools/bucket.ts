@@ -7,9 +7,14 @@ import type { Tool, BucketToolState } from '../types';
 import { logger } from '../utils/logger';
 import Canvas from '../canvas';
 import History from '../history';
+import IndexedColor from '../indexedColor';
 import PixelStudio from '../app';
+import StateManager from '../stateManager';
 import { hexToRgbaArray } from '../colorUtils';
 import { createGapCloser } from './gapCloser';
+import { createSelectionClip } from './selectionClip';
+import { getSymmetryPoints, resolveSymmetry } from './brushHelpers';
+import { resolveTileWrap, wrapPoint, type TileWrap } from './tileWrap';
 import EventEmitter from '../utils/eventEmitter';
 
 (function () {
@@ -33,7 +38,17 @@ import EventEmitter from '../utils/eventEmitter';
       if (!toolState) return;
       const x = Math.floor(coords.x);
       const y = Math.floor(coords.y);
-      await floodFill(x, y);
+      // Mirror the clicked pixel's center so each copy seeds the matching pixel
+      const symmetry = resolveSymmetry(
+        StateManager.getState(),
+        Canvas.getWidth(),
+        Canvas.getHeight()
+      );
+      const seeds = getSymmetryPoints(x + 0.5, y + 0.5, symmetry).map((point) => ({
+        x: Math.floor(point.x),
+        y: Math.floor(point.y),
+      }));
+      await floodFill(seeds);
     },
 
     onPointerMove(_coords, _e) {
@@ -67,29 +82,22 @@ import EventEmitter from '../utils/eventEmitter';
     return Math.sqrt(dr * dr + dg * dg + db * db + da * da);
   }
 
-  async function floodFill(startX: number, startY: number): Promise<void> {
-    if (!toolState) return;
-
-    const width = Canvas.getWidth();
-    const height = Canvas.getHeight();
-
-    if (startX < 0 || startX >= width || startY < 0 || startY >= height) {
-      return;
-    }
-
-    let imageData: ImageData;
-    try {
-      imageData = Canvas.getImageData();
-    } catch (error) {
-      logger.error('Failed to get image data for bucket tool:', error);
-      EventEmitter.emit('tool:error', {
-        tool: 'bucket',
-        operation: 'getImageData',
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-      return;
-    }
-    const data = imageData.data;
+  /**
+   * Flood fill from a pixel into the image data
+   * @param tile - Tile the image wraps around; the fill then spreads across the edges
+   * @returns False if the pixel already matches the fill color
+   */
+  function fillFrom(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    startX: number,
+    startY: number,
+    fillColor: [number, number, number, number],
+    tolerance: number,
+    tile: TileWrap | null
+  ): boolean {
+    if (!toolState) return false;
 
     const startIdx = (startY * width + startX) * 4;
     const startR = data[startIdx]!;
@@ -97,9 +105,6 @@ import EventEmitter from '../utils/eventEmitter';
     const startB = data[startIdx + 2]!;
     const startA = data[startIdx + 3]!;
 
-    const state = toolState.state;
-    const fillColor = hexToRgbaArray(state.currentColor, state.currentAlpha);
-
     // Don't fill if clicking on same color (using color distance)
     const initialDistance = colorDistance(
       startR,
@@ -111,13 +116,13 @@ import EventEmitter from '../utils/eventEmitter';
       fillColor[2],
       fillColor[3]
     );
-    if (initialDistance <= state.tolerance) {
-      return;
+    if (initialDistance <= tolerance) {
+      return false;
     }
 
     // Convert tolerance to color distance (approximate)
     // Tolerance is 0-255, scale it appropriately for distance calculation
-    const toleranceDistance = state.tolerance * 1.5; // Scale factor for better matching
+    const toleranceDistance = tolerance * 1.5; // Scale factor for better matching
 
     const stack: [number, number][] = [[startX, startY]];
     const visited = new Set<string>();
@@ -156,7 +161,9 @@ import EventEmitter from '../utils/eventEmitter';
       ];
 
       // Process neighbors
-      for (const [nx, ny] of neighbors) {
+      for (const [neighborX, neighborY] of neighbors) {
+        // In tile mode the image is toroidal: a neighbor past one edge is on the opposite one
+        const { x: nx, y: ny } = wrapPoint(neighborX, neighborY, tile);
         if (nx < 0 || nx >= width || ny < 0 || ny >= height) {
           continue; // Skip out of bounds
         }
@@ -175,7 +182,7 @@ import EventEmitter from '../utils/eventEmitter';
           // Check gap closer: if gap is small and colors are similar, bridge the gap
           const gapDistance = colorDistance(r, g, b, a, nr, ng, nb, na);
           if (
-            toolState.gapCloser.shouldCloseGap(x, y, nx, ny) &&
+            toolState.gapCloser.shouldCloseGap(x, y, neighborX, neighborY) &&
             gapDistance <= toleranceDistance * 0.5
           ) {
             stack.push([nx, ny]);
@@ -183,8 +190,68 @@ import EventEmitter from '../utils/eventEmitter';
         }
       }
     }
+    return true;
+  }
+
+  /**
+   * Fill the pixels of one or more seeds (the clicked pixel and its symmetric copies)
+   * Every seed fills the same image data, so all of them land in one history step
+   */
+  async function floodFill(seeds: { x: number; y: number }[]): Promise<void> {
+    if (!toolState) return;
+
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    // Seeds past an edge wrap onto the canvas in tile mode and are dropped otherwise
+    const tile = resolveTileWrap(StateManager.getState(), width, height);
+    const inside = seeds
+      .map(({ x, y }) => wrapPoint(x, y, tile))
+      .filter(({ x, y }) => x >= 0 && x < width && y >= 0 && y < height);
+    if (inside.length === 0) {
+      return;
+    }
+
+    let imageData: ImageData;
+    try {
+      imageData = Canvas.getImageData();
+    } catch (error) {
+      logger.error('Failed to get image data for bucket tool:', error);
+      EventEmitter.emit('tool:error', {
+        tool: 'bucket',
+        operation: 'getImageData',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return;
+    }
+    // Pixels outside the selection are restored after the fill
+    const clip = createSelectionClip();
+
+    const state = toolState.state;
+    // Indexed documents fill with the nearest palette entry and only across the same index
+    const indexed = IndexedColor.isEnabled();
+    let fillColor = hexToRgbaArray(state.currentColor, state.currentAlpha);
+    if (indexed) {
+      const { color } = IndexedColor.resolveColor(state.currentColor);
+      fillColor = [color.r, color.g, color.b, color.a];
+    }
+    const tolerance = indexed ? 0 : state.tolerance;
+
+    let filled = false;
+    for (const seed of inside) {
+      // A later seed inside an area an earlier one already filled is skipped here
+      if (fillFrom(imageData.data, width, height, seed.x, seed.y, fillColor, tolerance, tile)) {
+        filled = true;
+      }
+    }
+    if (!filled) {
+      return;
+    }
 
     Canvas.putImageData(imageData);
+    clip?.apply();
+    if (indexed) {
+      IndexedColor.syncActiveLayer();
+    }
     await Canvas.triggerRender();
     await History.saveImmediate();
   }
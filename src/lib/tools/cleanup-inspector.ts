@@ -6,6 +6,7 @@
 import type { Tool, AppState, CanvasElements } from '../types';
 import Canvas from '../canvas';
 import PixelStudio from '../app';
+import Overlay from '../overlay';
 import { findConnectedComponents } from '../cleanup/utils/connectedComponents';
 import { sobelEdgeDetection } from '../cleanup/utils/contourTrace';
 import { extractUniqueColors } from '../cleanup/utils/colorDistance';
@@ -16,7 +17,6 @@ type HighlightMode = 'stray' | 'jaggies' | 'color-noise' | 'fuzzy-edges' | 'thic
 (function () {
   let toolState: { state: AppState; elements: CanvasElements } | null = null;
   let highlightMode: HighlightMode = 'none';
-  let showGrid = false;
   let comparisonMode = false;
   let originalImageData: ImageData | null = null;
   let overlayCanvas: HTMLCanvasElement | null = null;
@@ -28,7 +28,6 @@ type HighlightMode = 'stray' | 'jaggies' | 'color-noise' | 'fuzzy-edges' | 'thic
     init(state, elements) {
       toolState = { state, elements };
       highlightMode = 'none';
-      showGrid = false;
       comparisonMode = false;
 
       // Create overlay canvas for highlights
@@ -66,11 +65,12 @@ type HighlightMode = 'stray' | 'jaggies' | 'color-noise' | 'fuzzy-edges' | 'thic
     },
 
     /**
-     * Toggle grid overlay
+     * Toggle the viewport pixel grid
      */
     toggleGrid(): void {
-      showGrid = !showGrid;
-      updateHighlights();
+      Overlay.updateSettings({ pixelGrid: !Overlay.getSettings().pixelGrid }).catch((error) => {
+        logger.error('Failed to toggle pixel grid:', error);
+      });
     },
 
     /**
@@ -110,26 +110,6 @@ type HighlightMode = 'stray' | 'jaggies' | 'color-noise' | 'fuzzy-edges' | 'thic
       overlayCanvas.height = height;
       overlayCtx.clearRect(0, 0, width, height);
 
-      // Draw grid if enabled
-      if (showGrid) {
-        overlayCtx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
-        overlayCtx.lineWidth = 0.5;
-
-        for (let x = 0; x <= width; x++) {
-          overlayCtx.beginPath();
-          overlayCtx.moveTo(x, 0);
-          overlayCtx.lineTo(x, height);
-          overlayCtx.stroke();
-        }
-
-        for (let y = 0; y <= height; y++) {
-          overlayCtx.beginPath();
-          overlayCtx.moveTo(0, y);
-          overlayCtx.lineTo(width, y);
-          overlayCtx.stroke();
-        }
-      }
-
       // Draw highlights based on mode
       switch (highlightMode) {
         case 'stray':
@@ -7,6 +7,7 @@ import type { Tool, CloneToolState } from '../types';
 import Canvas from '../canvas';
 import History from '../history';
 import PixelStudio from '../app';
+import StateManager from '../stateManager';
 import { createStabilizer } from './stabilizer';
 import { logger } from '../utils/logger';
 import {
@@ -16,10 +17,13 @@ import {
   calculateBrushFlow,
   calculateSpacing,
 } from './brushHelpers';
+import { readWrappedRegion, resolveTileWrap, writeWrappedRegion, type TileWrap } from './tileWrap';
 import EventEmitter from '../utils/eventEmitter';
 
 (function () {
   let toolState: CloneToolState | null = null;
+  // Tile the current stroke wraps around, null when it stops at the edges
+  let tile: TileWrap | null = null;
 
   const CloneTool: Tool = {
     name: 'clone',
@@ -80,6 +84,7 @@ import EventEmitter from '../utils/eventEmitter';
       toolState.lastStampY = y;
       toolState.distanceSinceLastStamp = 0;
       toolState.isDrawing = true;
+      tile = resolveTileWrap(StateManager.getState(), Canvas.getWidth(), Canvas.getHeight());
 
       // Calculate initial offset
       toolState.offsetX = x - toolState.sourceX;
@@ -156,15 +161,19 @@ import EventEmitter from '../utils/eventEmitter';
     const width = Canvas.getWidth();
     const height = Canvas.getHeight();
 
-    const sourceStartX = Math.max(0, Math.floor(sourceX - radius));
-    const sourceStartY = Math.max(0, Math.floor(sourceY - radius));
-    const sourceEndX = Math.min(width, Math.floor(sourceX + radius));
-    const sourceEndY = Math.min(height, Math.floor(sourceY + radius));
+    // In tile mode neither area is clipped; pixels past an edge wrap to the other side
+    const clampX = (value: number) => (tile ? value : Math.max(0, Math.min(width, value)));
+    const clampY = (value: number) => (tile ? value : Math.max(0, Math.min(height, value)));
 
-    const destStartX = Math.max(0, Math.floor(x - radius));
-    const destStartY = Math.max(0, Math.floor(y - radius));
-    const destEndX = Math.min(width, Math.floor(x + radius));
-    const destEndY = Math.min(height, Math.floor(y + radius));
+    const sourceStartX = clampX(Math.floor(sourceX - radius));
+    const sourceStartY = clampY(Math.floor(sourceY - radius));
+    const sourceEndX = clampX(Math.floor(sourceX + radius));
+    const sourceEndY = clampY(Math.floor(sourceY + radius));
+
+    const destStartX = clampX(Math.floor(x - radius));
+    const destStartY = clampY(Math.floor(y - radius));
+    const destEndX = clampX(Math.floor(x + radius));
+    const destEndY = clampY(Math.floor(y + radius));
 
     const sourceWidth = sourceEndX - sourceStartX;
     const sourceHeight = sourceEndY - sourceStartY;
@@ -177,13 +186,14 @@ import EventEmitter from '../utils/eventEmitter';
     let sourceImageData: ImageData;
     let destImageData: ImageData;
     try {
-      sourceImageData = Canvas.getImageDataRegion(
+      sourceImageData = readWrappedRegion(
         sourceStartX,
         sourceStartY,
         sourceWidth,
-        sourceHeight
+        sourceHeight,
+        tile
       );
-      destImageData = Canvas.getImageDataRegion(destStartX, destStartY, destWidth, destHeight);
+      destImageData = readWrappedRegion(destStartX, destStartY, destWidth, destHeight, tile);
     } catch (error) {
       logger.error('Failed to get image data region for clone tool:', error);
       EventEmitter.emit('tool:error', {
@@ -205,7 +215,7 @@ import EventEmitter from '../utils/eventEmitter';
       }
     }
 
-    Canvas.putImageData(destImageData, destStartX, destStartY);
+    writeWrappedRegion(destImageData, destStartX, destStartY, tile);
 
     // Update offset for next stamp
     toolState.offsetX = x - toolState.sourceX;
@@ -7,9 +7,9 @@ import type { Tool, BaseToolState } from '../types';
 import { logger } from '../utils/logger';
 import Canvas from '../canvas';
 import PixelStudio from '../app';
-import UI from '../ui';
-import StateManager from '../stateManager';
+import SelectionMask from '../selectionMask';
 import EventEmitter from '../utils/eventEmitter';
+import { MASK_SELECTED } from './selectionHelpers';
 
 (function () {
   let toolState: BaseToolState | null = null;
@@ -75,11 +75,6 @@ import EventEmitter from '../utils/eventEmitter';
     const targetA = data[startIdx + 3]!;
 
     const selected = new Uint8Array(width * height);
-    let minX = width,
-      maxX = 0,
-      minY = height,
-      maxY = 0;
-    let hasSelection = false;
 
     // Scan entire canvas for matching colors
     for (let y = 0; y < height; y++) {
@@ -96,31 +91,12 @@ import EventEmitter from '../utils/eventEmitter';
           Math.abs(b - targetB) <= state.tolerance &&
           Math.abs(a - targetA) <= state.tolerance
         ) {
-          selected[y * width + x] = 1;
-          minX = Math.min(minX, x);
-          maxX = Math.max(maxX, x);
-          minY = Math.min(minY, y);
-          maxY = Math.max(maxY, y);
-          hasSelection = true;
+          selected[y * width + x] = MASK_SELECTED;
         }
       }
     }
 
-    if (hasSelection) {
-      // Store selection
-      const selection = {
-        x: minX,
-        y: minY,
-        width: maxX - minX + 1,
-        height: maxY - minY + 1,
-      };
-      StateManager.setSelection(selection);
-      StateManager.setColorRangeSelection(selected);
-
-      // Show selection
-      UI.showSelection(selection);
-      UI.showColorRangeOverlay(selected);
-    }
+    SelectionMask.apply(selected);
   }
 
   // Register the tool
@@ -9,6 +9,7 @@ import Canvas from '../canvas';
 import History from '../history';
 import PixelStudio from '../app';
 import UI from '../ui';
+import Overlay from '../overlay';
 import { logger } from '../utils/logger';
 
 (function () {
@@ -49,8 +50,9 @@ import { logger } from '../utils/logger';
 
       // Start cropping
       isCropping = true;
-      startX = coords.x;
-      startY = coords.y;
+      const start = Overlay.snapPoint(coords.x, coords.y);
+      startX = start.x;
+      startY = start.y;
 
       // Initialize crop rectangle
       cropRect.x = startX;
@@ -68,8 +70,7 @@ import { logger } from '../utils/logger';
       if (!toolState || !isCropping) return;
 
       // Update crop rectangle
-      const currentX = coords.x;
-      const currentY = coords.y;
+      const { x: currentX, y: currentY } = Overlay.snapPoint(coords.x, coords.y);
 
       // Calculate rectangle from start point to current point
       cropRect.x = Math.min(startX, currentX);
@@ -10,6 +10,8 @@ import History from '../history';
 import PixelStudio from '../app';
 import StateManager from '../stateManager';
 import { createStabilizer } from './stabilizer';
+import { createSelectionClip, strokeRegion, type SelectionClip } from './selectionClip';
+import { getTileOffsets, getTilePoints, resolveTileWrap, type TileWrap } from './tileWrap';
 import { logger } from '../utils/logger';
 import {
   getPressure,
@@ -18,11 +20,21 @@ import {
   calculateBrushFlow,
   calculateSpacing,
   applyJitter,
+  getSymmetryPoints,
+  getSymmetryTransforms,
+  resolveSymmetry,
+  NO_SYMMETRY,
+  type Symmetry,
 } from './brushHelpers';
 import { rafThrottle } from '../utils/debounce';
 
 (function () {
   let toolState: DrawingToolState | null = null;
+  let clip: SelectionClip | null = null;
+  // Symmetry of the current stroke, read when it starts
+  let symmetry: Symmetry = NO_SYMMETRY;
+  // Tile the current stroke wraps around, null when it stops at the edges
+  let tile: TileWrap | null = null;
   let antiEraseMode = false; // Toggle for anti-erase mode (Alt key)
   let hardEdgeMode = false; // Toggle for hard edge mode
 
@@ -89,7 +101,11 @@ import { rafThrottle } from '../utils/debounce';
       toolState.lastStampY = y;
       toolState.distanceSinceLastStamp = 0;
       toolState.isDrawing = true;
+      symmetry = resolveSymmetry(StateManager.getState(), Canvas.getWidth(), Canvas.getHeight());
+      tile = resolveTileWrap(StateManager.getState(), Canvas.getWidth(), Canvas.getHeight());
+      clip = createSelectionClip();
       eraseDot(x, y, e);
+      finishSegment(x, y, x, y);
     },
 
     onPointerMove(coords, e) {
@@ -119,6 +135,7 @@ import { rafThrottle } from '../utils/debounce';
       const lastX = toolState.lastX;
       const lastY = toolState.lastY;
       eraseLineWithSpacing(lastX, lastY, smoothedX, smoothedY, e);
+      finishSegment(lastX, lastY, smoothedX, smoothedY);
       toolState.lastX = smoothedX;
       toolState.lastY = smoothedY;
     },
@@ -129,12 +146,40 @@ import { rafThrottle } from '../utils/debounce';
         toolState.stabilizer.reset();
         toolState.distanceSinceLastStamp = 0;
         antiEraseMode = false; // Reset anti-erase mode
+        clip?.apply();
+        clip = null;
         await Canvas.triggerRender();
         await History.saveImmediate();
       }
     },
   };
 
+  /**
+   * Distance an eraser stamp can land from the stroke
+   */
+  function eraserReach(): number {
+    if (!toolState) return 0;
+    const { brushSize, brushJitter } = toolState.state;
+    return brushSize * (1 + (brushJitter ?? 0) / 100) + 2;
+  }
+
+  /**
+   * Report the area around a stroke segment and its symmetric and wrapped copies as changed,
+   * restoring unselected pixels there
+   */
+  function finishSegment(x1: number, y1: number, x2: number, y2: number): void {
+    for (const transform of getSymmetryTransforms(symmetry)) {
+      const from = transform({ x: x1, y: y1 });
+      const to = transform({ x: x2, y: y2 });
+      const region = strokeRegion(from.x, from.y, to.x, to.y, eraserReach());
+      for (const offset of getTileOffsets(region, tile)) {
+        const area = { ...region, x: region.x + offset.x, y: region.y + offset.y };
+        Canvas.markChangedRegion(area.x, area.y, area.width, area.height);
+        clip?.apply(area);
+      }
+    }
+  }
+
   /**
    * Create brush mask with hardness support
    * Reuses the same logic as pencil tool for consistency
@@ -288,6 +333,28 @@ import { rafThrottle } from '../utils/debounce';
     // Determine composite operation based on mode
     const compositeOp = antiEraseMode ? 'destination-over' : 'destination-out';
 
+    // Stamps are centered on the top-left corner of their pixel, so that corner is mirrored
+    for (const point of getSymmetryPoints(finalX, finalY, symmetry)) {
+      const stampX = Math.round(point.x);
+      const stampY = Math.round(point.y);
+      for (const stamp of getTilePoints(stampX, stampY, size / 2 + 1, tile)) {
+        eraseStamp(ctx, stamp.x, stamp.y, size, hardness, erasingStrength, compositeOp);
+      }
+    }
+  }
+
+  /**
+   * Erase a single stamp centered at whole-pixel coordinates
+   */
+  function eraseStamp(
+    ctx: CanvasRenderingContext2D,
+    finalX: number,
+    finalY: number,
+    size: number,
+    hardness: number,
+    erasingStrength: number,
+    compositeOp: GlobalCompositeOperation
+  ): void {
     // For small brushes or 100% hardness, use simple circle for performance
     if (size <= 2 || hardness >= 100) {
       ctx.beginPath();
@@ -7,9 +7,13 @@ import type { Tool, BaseToolState } from '../types';
 import { logger } from '../utils/logger';
 import Canvas from '../canvas';
 import History from '../history';
+import IndexedColor from '../indexedColor';
+import { createSelectionClip } from './selectionClip';
 import PixelStudio from '../app';
 import { hexToRgbaArray } from '../colorUtils';
 import EventEmitter from '../utils/eventEmitter';
+import StateManager from '../stateManager';
+import { createBayerPattern, isDitherOn } from '../dither';
 
 (function () {
   let toolState: BaseToolState | null = null;
@@ -19,6 +23,9 @@ import EventEmitter from '../utils/eventEmitter';
   let endX = 0;
   let endY = 0;
 
+  // Ordered pattern used to dither gradients
+  const BAYER_4X4 = createBayerPattern(4);
+
   const GradientTool: Tool = {
     name: 'gradient',
 
@@ -48,7 +55,18 @@ import EventEmitter from '../utils/eventEmitter';
     async onPointerUp(_e) {
       if (!isDrawing) return;
       isDrawing = false;
-      drawGradient(startX, startY, endX, endY);
+      const clip = createSelectionClip();
+      if (IndexedColor.isEnabled()) {
+        drawDitheredGradient(startX, startY, endX, endY);
+        clip?.apply();
+        IndexedColor.syncActiveLayer();
+      } else if (StateManager.getState().gradientDither) {
+        drawDitheredGradient(startX, startY, endX, endY);
+        clip?.apply();
+      } else {
+        drawGradient(startX, startY, endX, endY);
+        clip?.apply();
+      }
       await Canvas.triggerRender();
       await History.saveImmediate();
     },
@@ -94,18 +112,59 @@ import EventEmitter from '../utils/eventEmitter';
 
     ctx.fillStyle = gradient;
 
-    // Respect selection bounds if there's an active selection
-    if (state.selection) {
-      ctx.save();
-      ctx.beginPath();
-      ctx.rect(state.selection.x, state.selection.y, state.selection.width, state.selection.height);
-      ctx.clip();
-      ctx.fillRect(0, 0, width, height);
-      ctx.restore();
-    } else {
-      // Fill entire canvas (or active layer when layers are enabled)
-      ctx.fillRect(0, 0, width, height);
+    // Fill the selection bounds (the selection clip restores unselected pixels afterwards)
+    const bounds = state.selection ?? { x: 0, y: 0, width, height };
+    ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    Canvas.markChangedRegion(bounds.x, bounds.y, bounds.width, bounds.height);
+  }
+
+  /**
+   * Dithered gradient from the color to transparent
+   * Pixels are either set to the opaque color or left untouched, so no new colors appear;
+   * indexed documents use the nearest palette entry
+   */
+  function drawDitheredGradient(x1: number, y1: number, x2: number, y2: number): void {
+    if (!toolState) return;
+    const state = toolState.state;
+
+    let imageData: ImageData;
+    try {
+      imageData = Canvas.getImageData();
+    } catch (error) {
+      logger.error('Failed to get image data for gradient tool:', error);
+      EventEmitter.emit('tool:error', {
+        tool: 'gradient',
+        operation: 'getImageData',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return;
+    }
+
+    const [r, g, b] = hexToRgbaArray(state.currentColor, 1);
+    const color = IndexedColor.isEnabled()
+      ? IndexedColor.resolveColor(state.currentColor).color
+      : { r, g, b, a: 255 };
+    const { width, height, data } = imageData;
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lengthSq = dx * dx + dy * dy;
+
+    const bounds = state.selection ?? { x: 0, y: 0, width, height };
+    const left = Math.max(0, Math.floor(bounds.x));
+    const top = Math.max(0, Math.floor(bounds.y));
+    const right = Math.min(width, Math.ceil(bounds.x + bounds.width));
+    const bottom = Math.min(height, Math.ceil(bounds.y + bounds.height));
+
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        const t = lengthSq === 0 ? 0 : ((x + 0.5 - x1) * dx + (y + 0.5 - y1) * dy) / lengthSq;
+        const coverage = (1 - Math.min(1, Math.max(0, t))) * state.currentAlpha;
+        if (!isDitherOn(BAYER_4X4, x, y, coverage)) continue;
+        data.set([color.r, color.g, color.b, color.a], (y * width + x) * 4);
+      }
     }
+
+    Canvas.putImageData(imageData);
   }
 
   PixelStudio.registerTool('gradient', GradientTool);
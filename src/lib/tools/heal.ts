@@ -8,6 +8,7 @@ import type { Tool, CloneToolState } from '../types';
 import Canvas from '../canvas';
 import History from '../history';
 import PixelStudio from '../app';
+import StateManager from '../stateManager';
 import { createStabilizer } from './stabilizer';
 import { logger } from '../utils/logger';
 import {
@@ -17,10 +18,13 @@ import {
   calculateBrushFlow,
   calculateSpacing,
 } from './brushHelpers';
+import { readWrappedRegion, resolveTileWrap, writeWrappedRegion, type TileWrap } from './tileWrap';
 import { rafThrottle } from '../utils/debounce';
 
 (function () {
   let toolState: CloneToolState | null = null;
+  // Tile the current stroke wraps around, null when it stops at the edges
+  let tile: TileWrap | null = null;
 
   const HealTool: Tool = {
     name: 'heal',
@@ -81,6 +85,7 @@ import { rafThrottle } from '../utils/debounce';
       toolState.lastStampY = y;
       toolState.distanceSinceLastStamp = 0;
       toolState.isDrawing = true;
+      tile = resolveTileWrap(StateManager.getState(), Canvas.getWidth(), Canvas.getHeight());
 
       // Calculate initial offset
       toolState.offsetX = x - toolState.sourceX;
@@ -158,15 +163,21 @@ import { rafThrottle } from '../utils/debounce';
     const destX = Math.floor(x);
     const destY = Math.floor(y);
 
-    const sourceStartX = Math.max(0, sourceX - radius);
-    const sourceStartY = Math.max(0, sourceY - radius);
-    const sourceEndX = Math.min(Canvas.getWidth(), sourceX + radius);
-    const sourceEndY = Math.min(Canvas.getHeight(), sourceY + radius);
+    // In tile mode neither area is clipped; pixels past an edge wrap to the other side
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    const clampX = (value: number) => (tile ? value : Math.max(0, Math.min(width, value)));
+    const clampY = (value: number) => (tile ? value : Math.max(0, Math.min(height, value)));
 
-    const destStartX = Math.max(0, destX - radius);
-    const destStartY = Math.max(0, destY - radius);
-    const destEndX = Math.min(Canvas.getWidth(), destX + radius);
-    const destEndY = Math.min(Canvas.getHeight(), destY + radius);
+    const sourceStartX = clampX(sourceX - radius);
+    const sourceStartY = clampY(sourceY - radius);
+    const sourceEndX = clampX(sourceX + radius);
+    const sourceEndY = clampY(sourceY + radius);
+
+    const destStartX = clampX(destX - radius);
+    const destStartY = clampY(destY - radius);
+    const destEndX = clampX(destX + radius);
+    const destEndY = clampY(destY + radius);
 
     if (
       sourceEndX - sourceStartX <= 0 ||
@@ -182,17 +193,19 @@ import { rafThrottle } from '../utils/debounce';
     let destImageData: ImageData;
 
     try {
-      sourceImageData = Canvas.getImageDataRegion(
+      sourceImageData = readWrappedRegion(
         sourceStartX,
         sourceStartY,
         sourceEndX - sourceStartX,
-        sourceEndY - sourceStartY
+        sourceEndY - sourceStartY,
+        tile
       );
-      destImageData = Canvas.getImageDataRegion(
+      destImageData = readWrappedRegion(
         destStartX,
         destStartY,
         destEndX - destStartX,
-        destEndY - destStartY
+        destEndY - destStartY,
+        tile
       );
     } catch (error) {
       logger.error('Failed to get image data region for heal tool:', error);
@@ -203,7 +216,7 @@ import { rafThrottle } from '../utils/debounce';
     const healedData = applyHealingAlgorithm(sourceImageData, destImageData, finalOpacity);
 
     // Put healed data back to canvas
-    Canvas.putImageData(healedData, destStartX, destStartY);
+    writeWrappedRegion(healedData, destStartX, destStartY, tile);
 
     // Update offset for next stamp
     toolState.offsetX = x - toolState.sourceX;
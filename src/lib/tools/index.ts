@@ -19,10 +19,10 @@ import './blur';
 import './sharpen';
 import './gradient';
 import './move';
+import './shapes';
 
 // New professional-grade tools
-import './rotate';
-import './scale';
+import './transform';
 import './crop';
 import './intelligent-scissors';
 import './heal';
@@ -38,6 +38,7 @@ import './cleanup-outline';
 import './cleanup-logo';
 import './cleanup-inspector';
 
-// Stabilizer and GapCloser are utility modules, not tools
+// Stabilizer, GapCloser and PixelPerfectPath are utility modules, not tools
 export { createStabilizer } from './stabilizer';
 export { createGapCloser } from './gapCloser';
+export { createPixelPerfectPath } from './pixelPerfect';
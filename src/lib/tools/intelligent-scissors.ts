@@ -7,8 +7,8 @@
 import type { Tool, BaseToolState } from '../types';
 import Canvas from '../canvas';
 import PixelStudio from '../app';
-import UI from '../ui';
-import StateManager from '../stateManager';
+import SelectionMask from '../selectionMask';
+import { createPolygonMask } from './selectionHelpers';
 import { logger } from '../utils/logger';
 
 (function () {
@@ -314,12 +314,9 @@ import { logger } from '../utils/logger';
   function closePath(): void {
     if (pathPoints.length < 3) return;
 
-    // Convert path to selection mask
-    const selectionMask = createPathMask(pathPoints);
-
-    // Apply selection
-    StateManager.setColorRangeSelection(selectionMask);
-    UI.showColorRangeOverlay(selectionMask);
+    // Convert path to selection mask and apply it with the current selection mode
+    const antiAlias = toolState?.state.selectionAntiAlias;
+    SelectionMask.apply(createPolygonMask(pathPoints, canvasWidth, canvasHeight, antiAlias));
 
     // Reset for next selection
     resetScissors();
@@ -327,80 +324,6 @@ import { logger } from '../utils/logger';
     logger.log('Closed intelligent scissors path');
   }
 
-  /**
-   * Create selection mask from path points
-   */
-  function createPathMask(points: Array<{ x: number; y: number }>): Uint8Array {
-    const width = canvasWidth;
-    const height = canvasHeight;
-    const mask = new Uint8Array(width * height);
-
-    if (points.length < 3) return mask;
-
-    // Simple flood fill inside the path
-    // This is a basic implementation - a more robust version would use proper polygon filling
-    const bounds = getPathBounds(points);
-
-    for (let y = bounds.minY; y <= bounds.maxY; y++) {
-      for (let x = bounds.minX; x <= bounds.maxX; x++) {
-        if (isPointInPath(x, y, points)) {
-          mask[y * width + x] = 1;
-        }
-      }
-    }
-
-    return mask;
-  }
-
-  /**
-   * Get bounding box of path points
-   */
-  function getPathBounds(points: Array<{ x: number; y: number }>): {
-    minX: number;
-    maxX: number;
-    minY: number;
-    maxY: number;
-  } {
-    let minX = Infinity,
-      maxX = -Infinity,
-      minY = Infinity,
-      maxY = -Infinity;
-
-    for (const point of points) {
-      minX = Math.min(minX, point.x);
-      maxX = Math.max(maxX, point.x);
-      minY = Math.min(minY, point.y);
-      maxY = Math.max(maxY, point.y);
-    }
-
-    return {
-      minX: Math.floor(minX),
-      maxX: Math.ceil(maxX),
-      minY: Math.floor(minY),
-      maxY: Math.ceil(maxY),
-    };
-  }
-
-  /**
-   * Check if point is inside closed path using ray casting algorithm
-   */
-  function isPointInPath(x: number, y: number, points: Array<{ x: number; y: number }>): boolean {
-    let inside = false;
-
-    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
-      const xi = points[i]!.x;
-      const yi = points[i]!.y;
-      const xj = points[j]!.x;
-      const yj = points[j]!.y;
-
-      if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
-        inside = !inside;
-      }
-    }
-
-    return inside;
-  }
-
   /**
    * Calculate distance between two points
    */
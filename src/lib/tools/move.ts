@@ -1,46 +1,67 @@
 /**
  * Move Tool
- * Moves image layers
+ * Moves the active layer, or the selected pixels when there is a selection
+ * With auto-select on (or Ctrl/Cmd held) a click first activates the layer under the cursor
  */
 
-import type { Tool } from '../types';
-import Canvas from '../canvas';
+import type { Tool, BaseToolState } from '../types';
 import PixelStudio from '../app';
+import Layers from '../layers';
+import StateManager from '../stateManager';
+import MoveActions from '../moveActions';
+import Overlay from '../overlay';
+import { logger } from '../utils/logger';
 
 (function () {
-  let isDragging = false;
+  let toolState: BaseToolState | null = null;
   let dragStartX = 0;
   let dragStartY = 0;
+  // Point that snaps while dragging: the selection's corner, or the pointer itself
+  let anchorX = 0;
+  let anchorY = 0;
 
   const MoveTool: Tool = {
     name: 'move',
 
-    init(_state, _elements) {
-      isDragging = false;
-      dragStartX = 0;
-      dragStartY = 0;
+    init(state, elements) {
+      toolState = { state, elements };
     },
 
-    onPointerDown(coords, _e) {
-      const imageLayer = Canvas.getImageLayer();
-      if (imageLayer) {
-        isDragging = true;
-        const offset = Canvas.getImageOffset();
-        dragStartX = coords.x - offset.x;
-        dragStartY = coords.y - offset.y;
+    onPointerDown(coords, e) {
+      if (!toolState) return;
+      const state = StateManager.getState();
+
+      if (state.moveAutoSelect !== (e.ctrlKey || e.metaKey)) {
+        const layer = Layers.getLayerAt(coords.x, coords.y);
+        if (layer && layer.id !== Layers.getActiveLayerId()) {
+          Layers.setActiveLayer(layer.id);
+        }
+      }
+
+      try {
+        MoveActions.begin();
+      } catch (error) {
+        logger.warn('Move:', error instanceof Error ? error.message : error);
+        return;
       }
+      dragStartX = coords.x;
+      dragStartY = coords.y;
+      anchorX = state.selection ? state.selection.x : coords.x;
+      anchorY = state.selection ? state.selection.y : coords.y;
     },
 
     onPointerMove(coords, _e) {
-      if (isDragging) {
-        const offsetX = coords.x - dragStartX;
-        const offsetY = coords.y - dragStartY;
-        Canvas.setImageOffset(offsetX, offsetY);
-      }
+      if (!MoveActions.isMoving()) return;
+      const snapped = Overlay.snapPoint(
+        anchorX + coords.x - dragStartX,
+        anchorY + coords.y - dragStartY
+      );
+      MoveActions.update(snapped.x - anchorX, snapped.y - anchorY);
     },
 
-    onPointerUp(_e) {
-      isDragging = false;
+    async onPointerUp(_e) {
+      if (!MoveActions.isMoving()) return;
+      await MoveActions.commit();
     },
   };
 
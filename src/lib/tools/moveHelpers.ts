@@ -0,0 +1,103 @@
+/**
+ * Move Helpers
+ * Pixel operations behind the Move tool: shifting whole images and selection masks,
+ * lifting selected pixels off a layer and dropping them back at an offset
+ * Pixels shifted past the canvas edge are dropped; vacated pixels become transparent
+ */
+
+import { MASK_SELECTED } from './selectionHelpers';
+
+/**
+ * Shift image pixels by a whole-pixel offset
+ * @returns New image data; the input is left untouched
+ */
+export function translateImageData(source: ImageData, dx: number, dy: number): ImageData {
+  const { width, height } = source;
+  const result = new ImageData(width, height);
+  const rowStart = Math.max(0, -dx);
+  const rowEnd = Math.min(width, width - dx);
+  if (rowEnd <= rowStart) return result;
+
+  for (let y = Math.max(0, -dy); y < Math.min(height, height - dy); y++) {
+    const from = (y * width + rowStart) * 4;
+    const to = from + (rowEnd - rowStart) * 4;
+    result.data.set(source.data.subarray(from, to), ((y + dy) * width + rowStart + dx) * 4);
+  }
+  return result;
+}
+
+/**
+ * Shift a selection mask by a whole-pixel offset
+ */
+export function translateMask(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  dx: number,
+  dy: number
+): Uint8Array {
+  const result = new Uint8Array(width * height);
+  const rowStart = Math.max(0, -dx);
+  const rowEnd = Math.min(width, width - dx);
+  if (rowEnd <= rowStart) return result;
+
+  for (let y = Math.max(0, -dy); y < Math.min(height, height - dy); y++) {
+    const from = y * width + rowStart;
+    result.set(mask.subarray(from, from + rowEnd - rowStart), (y + dy) * width + rowStart + dx);
+  }
+  return result;
+}
+
+/**
+ * Split an image into the selected pixels and what stays behind
+ * Partially selected pixels are shared between both by their coverage, like extracting
+ * a selection to a layer
+ */
+export function liftSelection(
+  source: ImageData,
+  mask: Uint8Array
+): { floating: ImageData; remainder: ImageData } {
+  const floating = new ImageData(source.width, source.height);
+  const remainder = new ImageData(new Uint8ClampedArray(source.data), source.width, source.height);
+  for (let i = 0; i < mask.length; i++) {
+    const coverage = mask[i]!;
+    if (!coverage) continue;
+    const idx = i * 4;
+    const alpha = source.data[idx + 3]!;
+    floating.data[idx] = source.data[idx]!;
+    floating.data[idx + 1] = source.data[idx + 1]!;
+    floating.data[idx + 2] = source.data[idx + 2]!;
+    floating.data[idx + 3] = Math.round((alpha * coverage) / MASK_SELECTED);
+    remainder.data[idx + 3] = Math.round((alpha * (MASK_SELECTED - coverage)) / MASK_SELECTED);
+  }
+  return { floating, remainder };
+}
+
+/**
+ * Draw floating pixels over a base image at an offset (source-over, straight alpha)
+ * @returns New image data; the inputs are left untouched
+ */
+export function dropFloating(
+  base: ImageData,
+  floating: ImageData,
+  dx: number,
+  dy: number
+): ImageData {
+  const result = new ImageData(new Uint8ClampedArray(base.data), base.width, base.height);
+  const shifted = translateImageData(floating, dx, dy);
+  const data = result.data;
+  const top = shifted.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const topAlpha = top[i + 3]! / 255;
+    if (topAlpha === 0) continue;
+    const baseAlpha = data[i + 3]! / 255;
+    const alpha = topAlpha + baseAlpha * (1 - topAlpha);
+    for (let c = 0; c < 3; c++) {
+      data[i + c] = Math.round(
+        (top[i + c]! * topAlpha + data[i + c]! * baseAlpha * (1 - topAlpha)) / alpha
+      );
+    }
+    data[i + 3] = Math.round(alpha * 255);
+  }
+  return result;
+}
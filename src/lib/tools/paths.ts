@@ -4,35 +4,22 @@
  * Based on GIMP's Paths tool implementation
  */
 
-import type { Tool, BaseToolState } from '../types';
+import type { Tool, BaseToolState, VectorPath, PathAnchor } from '../types';
 import Canvas from '../canvas';
 import PixelStudio from '../app';
+import PathStore from '../pathStore';
 import { logger } from '../utils/logger';
 
 (function () {
   let toolState: BaseToolState | null = null;
 
   // Path state
-  let currentPath: Path | null = null;
+  let currentPath: VectorPath | null = null;
   let selectedAnchorIndex = -1;
   let selectedHandleIndex = -1;
   let isDragging = false;
   let dragOffset = { x: 0, y: 0 };
 
-  // Path data structure
-  interface Path {
-    id: string;
-    anchors: Anchor[];
-    closed: boolean;
-  }
-
-  interface Anchor {
-    x: number;
-    y: number;
-    inHandle?: { x: number; y: number };
-    outHandle?: { x: number; y: number };
-  }
-
   const PathsTool: Tool = {
     name: 'paths',
 
@@ -106,6 +93,10 @@ import { logger } from '../utils/logger';
     },
 
     onPointerUp(_e) {
+      if (isDragging && currentPath) {
+        // Persist edited anchors so the document keeps the path
+        PathStore.upsert(currentPath);
+      }
       isDragging = false;
     },
   };
@@ -118,13 +109,14 @@ import { logger } from '../utils/logger';
       // Create new path
       currentPath = {
         id: generatePathId(),
+        name: `Path ${PathStore.getAll().length + 1}`,
         anchors: [],
         closed: false,
       };
     }
 
     // Add new anchor
-    const newAnchor: Anchor = { x, y };
+    const newAnchor: PathAnchor = { x, y };
 
     // If this is the second point or later, create handles for smooth curve
     if (currentPath.anchors.length >= 1) {
@@ -153,6 +145,7 @@ import { logger } from '../utils/logger';
     currentPath.anchors.push(newAnchor);
     selectedAnchorIndex = currentPath.anchors.length - 1;
     selectedHandleIndex = -1;
+    PathStore.upsert(currentPath);
 
     logger.log('Added anchor point at:', x, y);
     Canvas.triggerRender();
@@ -258,6 +251,16 @@ import { logger } from '../utils/logger';
     return `path_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  // Drop the path being edited if the document no longer contains it (e.g. a project was opened)
+  PathStore.on<{ paths: VectorPath[] }>('paths:change', ({ paths }) => {
+    if (currentPath && !paths.some((p) => p.id === currentPath!.id)) {
+      currentPath = null;
+      selectedAnchorIndex = -1;
+      selectedHandleIndex = -1;
+      isDragging = false;
+    }
+  });
+
   // Register the tool
   PixelStudio.registerTool('paths', PathsTool);
 })();
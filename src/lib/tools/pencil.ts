@@ -8,8 +8,12 @@ import Canvas from '../canvas';
 import History from '../history';
 import PixelStudio from '../app';
 import StateManager from '../stateManager';
+import IndexedColor from '../indexedColor';
 import { hexToRgba } from '../colorUtils';
 import { createStabilizer } from './stabilizer';
+import { createPixelPerfectPath, type PixelPerfectPath } from './pixelPerfect';
+import { createSelectionClip, strokeRegion, type SelectionClip } from './selectionClip';
+import { getTileOffsets, getTilePoints, resolveTileWrap, type TileWrap } from './tileWrap';
 import { logger } from '../utils/logger';
 import {
   getPressure,
@@ -21,12 +25,30 @@ import {
   applyScatter,
   applyTextureBlending,
   generateBrushTexture,
+  getBrushDitherPattern,
+  getSymmetryPoints,
+  getSymmetryTransforms,
+  isDitherTexture,
+  resolveSymmetry,
+  NO_SYMMETRY,
   type BrushTexture,
+  type Symmetry,
 } from './brushHelpers';
 import { rafThrottle } from '../utils/debounce';
+import { isDitherOn, type DitherPattern } from '../dither';
 
 (function () {
   let toolState: DrawingToolState | null = null;
+  let clip: SelectionClip | null = null;
+  // Symmetry of the current stroke, read when it starts
+  let symmetry: Symmetry = NO_SYMMETRY;
+  // Tile the current stroke wraps around, null when it stops at the edges
+  let tile: TileWrap | null = null;
+  // Pixel-perfect path of the current stroke, null when stamps are spaced freely
+  let pixelPerfect: PixelPerfectPath | null = null;
+  const perfectPath = createPixelPerfectPath();
+  // Layer pixels under the current pixel-perfect stroke, and how many stroke pixels cover each
+  const strokePixels = new Map<string, { original: ImageData; count: number }>();
 
   // Throttled render for real-time feedback during drawing
   const throttledRender = rafThrottle(() => Canvas.triggerRender());
@@ -75,7 +97,20 @@ import { rafThrottle } from '../utils/debounce';
       toolState.lastStampY = y;
       toolState.distanceSinceLastStamp = 0;
       toolState.isDrawing = true;
-      drawDot(x, y, e);
+      symmetry = resolveSymmetry(StateManager.getState(), Canvas.getWidth(), Canvas.getHeight());
+      tile = resolveTileWrap(StateManager.getState(), Canvas.getWidth(), Canvas.getHeight());
+      clip = createSelectionClip();
+      // Pixel-perfect strokes only make sense for single-pixel brushes
+      const { pixelPerfect: perfect, brushSize } = StateManager.getState();
+      pixelPerfect = perfect && brushSize === 1 ? perfectPath : null;
+      perfectPath.reset();
+      strokePixels.clear();
+      if (pixelPerfect) {
+        extendPixelPerfect(x, y);
+      } else {
+        drawDot(x, y, e);
+      }
+      finishSegment(x, y, x, y);
     },
 
     onPointerMove(coords, e) {
@@ -91,7 +126,12 @@ import { rafThrottle } from '../utils/debounce';
       const smoothed = toolState.stabilizer.processPoint(preciseCoords.x, preciseCoords.y);
       const lastX = toolState.lastX;
       const lastY = toolState.lastY;
-      drawLineWithSpacing(lastX, lastY, smoothed.x, smoothed.y, e);
+      if (pixelPerfect) {
+        extendPixelPerfect(smoothed.x, smoothed.y);
+      } else {
+        drawLineWithSpacing(lastX, lastY, smoothed.x, smoothed.y, e);
+      }
+      finishSegment(lastX, lastY, smoothed.x, smoothed.y);
       toolState.lastX = smoothed.x;
       toolState.lastY = smoothed.y;
     },
@@ -101,12 +141,74 @@ import { rafThrottle } from '../utils/debounce';
         toolState.isDrawing = false;
         toolState.stabilizer.reset();
         toolState.distanceSinceLastStamp = 0;
+        pixelPerfect = null;
+        strokePixels.clear();
+        // Catch anything scattered beyond the per-segment regions
+        clip?.apply();
+        clip = null;
+        if (IndexedColor.isEnabled()) {
+          IndexedColor.syncActiveLayer();
+        }
         await Canvas.triggerRender();
         await History.saveImmediate();
       }
     },
+
+    /**
+     * Stamp a polyline with the current brush settings (used to stroke vector paths)
+     * Pressure is fixed at full strength; the caller renders and saves history
+     */
+    strokePoints(points: { x: number; y: number }[]): void {
+      if (!toolState || points.length === 0) return;
+      toolState.state = StateManager.getState();
+      toolState.currentPressure = 1;
+      toolState.distanceSinceLastStamp = 0;
+      // Paths are stroked exactly as drawn
+      symmetry = NO_SYMMETRY;
+      tile = null;
+      clip = createSelectionClip();
+
+      const first = points[0]!;
+      drawDot(first.x, first.y);
+      finishSegment(first.x, first.y, first.x, first.y);
+      for (let i = 1; i < points.length; i++) {
+        const from = points[i - 1]!;
+        const to = points[i]!;
+        drawLineWithSpacing(from.x, from.y, to.x, to.y);
+        finishSegment(from.x, from.y, to.x, to.y);
+      }
+      toolState.distanceSinceLastStamp = 0;
+      clip?.apply();
+      clip = null;
+    },
   };
 
+  /**
+   * Distance a stamp can land from the stroke (brush radius plus jitter and scatter offsets)
+   */
+  function brushReach(): number {
+    if (!toolState) return 0;
+    const { brushSize, brushJitter, brushScatter } = toolState.state;
+    return brushSize * (1 + ((brushJitter ?? 0) + (brushScatter ?? 0)) / 100) + 2;
+  }
+
+  /**
+   * Report the area around a stroke segment and its symmetric and wrapped copies as changed,
+   * restoring unselected pixels there
+   */
+  function finishSegment(x1: number, y1: number, x2: number, y2: number): void {
+    for (const transform of getSymmetryTransforms(symmetry)) {
+      const from = transform({ x: x1, y: y1 });
+      const to = transform({ x: x2, y: y2 });
+      const region = strokeRegion(from.x, from.y, to.x, to.y, brushReach());
+      for (const offset of getTileOffsets(region, tile)) {
+        const area = { ...region, x: region.x + offset.x, y: region.y + offset.y };
+        Canvas.markChangedRegion(area.x, area.y, area.width, area.height);
+        clip?.apply(area);
+      }
+    }
+  }
+
   /**
    * Create brush mask with hardness support
    * Includes cache size limit to prevent memory issues
@@ -226,6 +328,104 @@ import { rafThrottle } from '../utils/debounce';
     return stampCanvas;
   }
 
+  /**
+   * Rows of pixels an aliased disc covers, centered on pixel (x, y)
+   */
+  function getStampRuns(
+    x: number,
+    y: number,
+    size: number
+  ): Array<{ x: number; y: number; length: number }> {
+    const runs: Array<{ x: number; y: number; length: number }> = [];
+    const radius = Math.max(0.5, size / 2);
+    const centerX = x + 0.5;
+    const centerY = y + 0.5;
+    const left = Math.floor(centerX - radius);
+    const right = Math.ceil(centerX + radius);
+
+    for (let py = Math.floor(centerY - radius); py < Math.ceil(centerY + radius); py++) {
+      // Collect the run of pixels whose centers fall inside the circle
+      const dy = py + 0.5 - centerY;
+      let runStart = -1;
+      for (let px = left; px <= right; px++) {
+        const dx = px + 0.5 - centerX;
+        const inside = px < right && dx * dx + dy * dy <= radius * radius;
+        if (inside && runStart === -1) {
+          runStart = px;
+        } else if (!inside && runStart !== -1) {
+          runs.push({ x: runStart, y: py, length: px - runStart });
+          runStart = -1;
+        }
+      }
+    }
+    return runs;
+  }
+
+  /**
+   * Draw an aliased disc in the nearest palette color (indexed documents)
+   * Pixels are replaced rather than blended so only palette entries are written
+   */
+  function drawIndexedStamp(
+    x: number,
+    y: number,
+    size: number,
+    hex: string,
+    ctx: CanvasRenderingContext2D
+  ): void {
+    const { color } = IndexedColor.resolveColor(hex);
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a / 255})`;
+    for (const run of getStampRuns(x, y, size)) {
+      ctx.clearRect(run.x, run.y, run.length, 1);
+      ctx.fillRect(run.x, run.y, run.length, 1);
+    }
+  }
+
+  /**
+   * Draw an aliased disc dithered between the current and background colors
+   * The pattern is anchored to the document, so overlapping stamps line up; indexed
+   * documents replace pixels with the nearest palette entries
+   */
+  function drawDitherStamp(
+    x: number,
+    y: number,
+    size: number,
+    opacity: number,
+    pattern: DitherPattern,
+    state: AppState,
+    ctx: CanvasRenderingContext2D
+  ): void {
+    const indexed = IndexedColor.isEnabled();
+    const toStyle = (hex: string) => {
+      if (!indexed) return hexToRgba(hex, state.currentAlpha * opacity);
+      const { color } = IndexedColor.resolveColor(hex);
+      return `rgba(${color.r}, ${color.g}, ${color.b}, ${color.a / 255})`;
+    };
+    const foreground = toStyle(state.currentColor);
+    const background = toStyle(state.backgroundColor);
+    const density = state.ditherDensity / 100;
+
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.globalAlpha = 1;
+    for (const run of getStampRuns(x, y, size)) {
+      // Fill stretches of pixels that get the same color at once
+      let start = run.x;
+      let on = isDitherOn(pattern, start, run.y, density);
+      for (let px = run.x + 1; px <= run.x + run.length; px++) {
+        const next = px < run.x + run.length && isDitherOn(pattern, px, run.y, density);
+        if (px < run.x + run.length && next === on) continue;
+        ctx.fillStyle = on ? foreground : background;
+        if (indexed) {
+          ctx.clearRect(start, run.y, px - start, 1);
+        }
+        ctx.fillRect(start, run.y, px - start, 1);
+        start = px;
+        on = next;
+      }
+    }
+  }
+
   /**
    * Draw a single brush stamp with all advanced features (texture, scatter, etc.)
    */
@@ -262,6 +462,17 @@ import { rafThrottle } from '../utils/debounce';
     // Calculate pressure internally for brush dynamics (reserved for future use)
     // const brushPressure = toolState?.currentPressure ?? 0.5;
 
+    const ditherPattern = getBrushDitherPattern(state.brushTexture, currentState.ditherPattern);
+    if (ditherPattern) {
+      drawDitherStamp(finalX, finalY, size, opacity, ditherPattern, currentState, ctx);
+      return;
+    }
+
+    if (IndexedColor.isEnabled()) {
+      drawIndexedStamp(finalX, finalY, size, currentState.currentColor, ctx);
+      return;
+    }
+
     const color = hexToRgba(currentState.currentColor, currentState.currentAlpha * opacity);
 
     // For small brushes or 100% hardness, use simple circle for performance
@@ -380,7 +591,137 @@ import { rafThrottle } from '../utils/debounce';
     ctx.drawImage(tempCanvas, drawX, drawY);
   }
 
-  function drawDot(x: number, y: number, _e: PointerEvent): void {
+  /**
+   * Draw a brush stamp and its symmetric copies, each wrapped around the edges in tile mode
+   * Indexed and dither stamps are centered on pixel (x, y) and brush stamps on its top-left corner;
+   * the center is mirrored and the copies snapped back to whole pixels
+   */
+  function drawSymmetricStamps(
+    x: number,
+    y: number,
+    size: number,
+    opacity: number,
+    hardness: number,
+    state: AppState,
+    ctx: CanvasRenderingContext2D
+  ): void {
+    const aliased = IndexedColor.isEnabled() || isDitherTexture(state.brushTexture);
+    const offset = aliased ? 0.5 : 0;
+    for (const point of getSymmetryPoints(x + offset, y + offset, symmetry)) {
+      const stampX = Math.round(point.x - offset);
+      const stampY = Math.round(point.y - offset);
+      for (const stamp of getTilePoints(stampX, stampY, size / 2 + 1, tile)) {
+        drawSingleBrushStamp(stamp.x, stamp.y, size, opacity, hardness, state, ctx);
+      }
+    }
+  }
+
+  /**
+   * Pixels a stroke pixel paints: its symmetric copies, wrapped around the edges in tile mode
+   */
+  function getPixelPositions(x: number, y: number): { x: number; y: number }[] {
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    const positions = new Map<string, { x: number; y: number }>();
+    for (const point of getSymmetryPoints(x + 0.5, y + 0.5, symmetry)) {
+      const pixelX = Math.round(point.x - 0.5);
+      const pixelY = Math.round(point.y - 0.5);
+      for (const position of getTilePoints(pixelX, pixelY, 1, tile)) {
+        if (position.x >= 0 && position.y >= 0 && position.x < width && position.y < height) {
+          positions.set(`${position.x},${position.y}`, position);
+        }
+      }
+    }
+    return [...positions.values()];
+  }
+
+  /**
+   * Paint a single pixel of a pixel-perfect stroke, keeping the pixel it covers
+   * Pixels the stroke already covers are not painted again, so translucent colors stay even
+   */
+  function paintPixel(x: number, y: number, ctx: CanvasRenderingContext2D): void {
+    if (!toolState) return;
+    const key = `${x},${y}`;
+    const painted = strokePixels.get(key);
+    if (painted) {
+      painted.count++;
+      return;
+    }
+    strokePixels.set(key, { original: Canvas.getImageDataRegion(x, y, 1, 1), count: 1 });
+
+    const { currentColor, currentAlpha } = StateManager.getState();
+    if (IndexedColor.isEnabled()) {
+      drawIndexedStamp(x, y, 1, currentColor, ctx);
+      return;
+    }
+    const state = toolState.state;
+    const pressure = toolState.currentPressure;
+    const opacity = calculateBrushOpacity(
+      (state.brushOpacity ?? 100) / 100,
+      pressure,
+      state.pressureEnabled ?? false,
+      state.pressureOpacity ?? false,
+      state.pressureCurve ?? 'linear'
+    );
+    const flow = calculateBrushFlow(
+      (state.brushFlow ?? 100) / 100,
+      pressure,
+      state.pressureEnabled ?? false,
+      state.pressureFlow ?? false,
+      state.pressureCurve ?? 'linear'
+    );
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = hexToRgba(currentColor, currentAlpha * opacity * flow);
+    ctx.fillRect(x, y, 1, 1);
+  }
+
+  /**
+   * Put back the layer pixel under a stroke pixel once no stroke pixel covers it any more
+   */
+  function restorePixel(x: number, y: number): void {
+    const key = `${x},${y}`;
+    const painted = strokePixels.get(key);
+    if (!painted) return;
+    painted.count--;
+    if (painted.count > 0) return;
+    strokePixels.delete(key);
+    Canvas.putImageData(painted.original, x, y);
+  }
+
+  /**
+   * Continue a pixel-perfect stroke to a point: paint the new pixels and restore the ones
+   * that turned into the corner of an L-shaped step
+   * Spacing, jitter and scatter do not apply, every pixel of the path is painted once
+   */
+  function extendPixelPerfect(x: number, y: number): void {
+    if (!pixelPerfect) return;
+
+    let ctx: CanvasRenderingContext2D;
+    try {
+      ctx = Canvas.getContext();
+    } catch (error) {
+      logger.error('Failed to get canvas context for pixel-perfect drawing:', error);
+      return;
+    }
+
+    const { added, removed } = pixelPerfect.extend(Math.floor(x), Math.floor(y));
+    for (const pixel of removed) {
+      for (const position of getPixelPositions(pixel.x, pixel.y)) {
+        restorePixel(position.x, position.y);
+      }
+    }
+    for (const pixel of added) {
+      for (const position of getPixelPositions(pixel.x, pixel.y)) {
+        paintPixel(position.x, position.y, ctx);
+      }
+    }
+    if (added.length > 0 || removed.length > 0) {
+      throttledRender();
+    }
+  }
+
+  function drawDot(x: number, y: number, _e?: PointerEvent): void {
     if (!toolState) return;
 
     let ctx: CanvasRenderingContext2D;
@@ -444,15 +785,7 @@ import { rafThrottle } from '../utils/debounce';
 
     // Draw multiple scattered points
     for (const scatterPoint of scatterPoints) {
-      drawSingleBrushStamp(
-        scatterPoint.x,
-        scatterPoint.y,
-        size,
-        finalOpacity,
-        hardness,
-        state,
-        ctx
-      );
+      drawSymmetricStamps(scatterPoint.x, scatterPoint.y, size, finalOpacity, hardness, state, ctx);
     }
   }
 
@@ -461,7 +794,7 @@ import { rafThrottle } from '../utils/debounce';
     y1: number,
     x2: number,
     y2: number,
-    _e: PointerEvent
+    _e?: PointerEvent
   ): void {
     if (!toolState) return;
 
@@ -519,7 +852,7 @@ import { rafThrottle } from '../utils/debounce';
         const t = (stepSize * i) / dist;
         const x = Math.floor(x1 + (x2 - x1) * t);
         const y = Math.floor(y1 + (y2 - y1) * t);
-        drawSingleBrushStamp(x, y, size, finalOpacity, hardness, state, ctx);
+        drawSymmetricStamps(x, y, size, finalOpacity, hardness, state, ctx);
       }
 
       toolState.distanceSinceLastStamp = 0;
@@ -536,7 +869,7 @@ import { rafThrottle } from '../utils/debounce';
           const t = i / steps;
           const x = Math.floor(x1 + (x2 - x1) * t);
           const y = Math.floor(y1 + (y2 - y1) * t);
-          drawSingleBrushStamp(x, y, size, finalOpacity, hardness, state, ctx);
+          drawSymmetricStamps(x, y, size, finalOpacity, hardness, state, ctx);
         }
 
         // Trigger throttled render for real-time feedback
@@ -0,0 +1,62 @@
+/**
+ * Pixel Perfect Module
+ * Follows a 1px stroke pixel by pixel and drops the corner of every L-shaped step, so
+ * diagonals come out as clean staircases (as in Aseprite's pixel-perfect mode)
+ */
+
+import { getLinePixels } from './shapeHelpers';
+
+export interface PixelPerfectPath {
+  /**
+   * Continue the stroke to a pixel through the pixels of a Bresenham line
+   * @returns Pixels to paint, and earlier pixels that became corners and must be restored
+   */
+  extend(
+    x: number,
+    y: number
+  ): { added: { x: number; y: number }[]; removed: { x: number; y: number }[] };
+  reset(): void;
+}
+
+export function createPixelPerfectPath(): PixelPerfectPath {
+  let pixels: { x: number; y: number }[] = [];
+
+  return {
+    extend(x: number, y: number) {
+      const added: { x: number; y: number }[] = [];
+      const removed: { x: number; y: number }[] = [];
+      const last = pixels[pixels.length - 1];
+      const line = last ? getLinePixels(last, { x, y }).slice(1) : [{ x, y }];
+
+      for (const pixel of line) {
+        pixels.push(pixel);
+        added.push(pixel);
+        if (pixels.length < 3) continue;
+
+        const a = pixels[pixels.length - 3]!;
+        const b = pixels[pixels.length - 2]!;
+        const c = pixel;
+        // b is a corner when it turns between a horizontal and a vertical step
+        const corner =
+          ((a.x === b.x && b.y === c.y) || (a.y === b.y && b.x === c.x)) &&
+          a.x !== c.x &&
+          a.y !== c.y;
+        if (!corner) continue;
+
+        pixels.splice(pixels.length - 2, 1);
+        const index = added.indexOf(b);
+        if (index !== -1) {
+          // Painted in this same step, so it never needs to reach the canvas
+          added.splice(index, 1);
+        } else {
+          removed.push(b);
+        }
+      }
+      return { added, removed };
+    },
+
+    reset() {
+      pixels = [];
+    },
+  };
+}
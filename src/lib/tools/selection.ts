@@ -8,7 +8,9 @@ import PixelStudio from '../app';
 import UI from '../ui';
 import Canvas from '../canvas';
 import StateManager from '../stateManager';
-import { createRectangularMask, combineSelections } from './selectionHelpers';
+import SelectionMask from '../selectionMask';
+import Overlay from '../overlay';
+import { createRectangularMask } from './selectionHelpers';
 import { logger } from '../utils/logger';
 
 (function () {
@@ -26,8 +28,7 @@ import { logger } from '../utils/logger';
 
     onPointerDown(coords, _e) {
       if (!toolState) return;
-      const x = coords.x;
-      const y = coords.y;
+      const { x, y } = Overlay.snapPoint(coords.x, coords.y);
       startSelection(x, y);
     },
 
@@ -35,7 +36,8 @@ import { logger } from '../utils/logger';
       if (!toolState) return;
       const state = toolState.state;
       if (state.selection) {
-        updateSelection(coords.x, coords.y);
+        const { x, y } = Overlay.snapPoint(coords.x, coords.y);
+        updateSelection(x, y);
       }
     },
 
@@ -65,7 +67,7 @@ import { logger } from '../utils/logger';
     const mode = appState.selectionMode || 'replace';
 
     // If mode is not replace, keep existing selection
-    if (mode === 'replace' || !currentState.colorRangeSelection) {
+    if (mode === 'replace' || !currentState.selectionMask) {
       StateManager.setSelection({
         x,
         y,
@@ -75,7 +77,7 @@ import { logger } from '../utils/logger';
         startY: y,
         mode,
       });
-      StateManager.setColorRangeSelection(null);
+      StateManager.setSelectionMask(null);
     } else {
       // Start new selection but will combine later
       StateManager.setSelection({
@@ -87,9 +89,9 @@ import { logger } from '../utils/logger';
         startY: y,
         mode,
       });
-      // Keep existing colorRangeSelection for combining
-      if (currentState.colorRangeSelection) {
-        StateManager.setColorRangeSelection(currentState.colorRangeSelection);
+      // Keep existing selectionMask for combining
+      if (currentState.selectionMask) {
+        StateManager.setSelectionMask(currentState.selectionMask);
       }
     }
 
@@ -139,67 +141,16 @@ import { logger } from '../utils/logger';
     const selection = state.selection;
     if (!selection) return;
 
-    const width = Canvas.getWidth();
-    const height = Canvas.getHeight();
-    const mode = state.selectionMode || 'replace';
-
-    // Create mask for this selection
-    const newMask = createRectangularMask(
+    // Feathering is applied once when the mask is committed
+    const mask = createRectangularMask(
       selection.x,
       selection.y,
       selection.width,
       selection.height,
-      width,
-      height,
-      state.selectionFeather,
-      state.selectionAntiAlias
+      Canvas.getWidth(),
+      Canvas.getHeight()
     );
-
-    // Combine with existing selection if needed
-    const finalMask = combineSelections(state.colorRangeSelection, newMask, mode, width, height);
-
-    // Update selection bounds
-    let minX = width;
-    let maxX = 0;
-    let minY = height;
-    let maxY = 0;
-    let hasSelection = false;
-
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const idx = y * width + x;
-        if (finalMask[idx]! > 0) {
-          minX = Math.min(minX, x);
-          maxX = Math.max(maxX, x);
-          minY = Math.min(minY, y);
-          maxY = Math.max(maxY, y);
-          hasSelection = true;
-        }
-      }
-    }
-
-    if (hasSelection) {
-      let currentState;
-      try {
-        currentState = StateManager.getState();
-      } catch (error) {
-        logger.error('StateManager not initialized in finalizeSelection:', error);
-        return; // Can't proceed without state
-      }
-      StateManager.setSelection({
-        x: minX,
-        y: minY,
-        width: maxX - minX + 1,
-        height: maxY - minY + 1,
-        mode,
-        feather: currentState.selectionFeather,
-        antiAlias: currentState.selectionAntiAlias,
-      });
-      StateManager.setColorRangeSelection(finalMask);
-      UI.showColorRangeOverlay(finalMask);
-    } else {
-      PixelStudio.clearSelection();
-    }
+    SelectionMask.apply(mask);
   }
 
   // Register the tool
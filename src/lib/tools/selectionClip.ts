@@ -0,0 +1,100 @@
+/**
+ * Selection Clip Module
+ * Confines paint tool changes to the selection mask
+ * The active layer is captured when a stroke starts; changed pixels are blended back toward
+ * the captured ones by their unselected share, so feathered edges fade the paint out
+ */
+
+import Canvas from '../canvas';
+import StateManager from '../stateManager';
+import IndexedColor from '../indexedColor';
+import { MASK_SELECTED, resolveSelectionMask } from './selectionHelpers';
+
+export interface ClipRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SelectionClip {
+  /**
+   * Restore the unselected part of every change made since the clip was created
+   * @param region - Only process this area (defaults to the whole canvas)
+   */
+  apply(region?: ClipRegion): void;
+}
+
+/**
+ * Start clipping paint to the current selection
+ * @returns Clip, or null when nothing is selected (paint is unrestricted)
+ */
+export function createSelectionClip(): SelectionClip | null {
+  const width = Canvas.getWidth();
+  const height = Canvas.getHeight();
+  const mask = resolveSelectionMask(StateManager.getState(), width, height);
+  if (!mask) return null;
+
+  const before = Canvas.getImageData().data;
+  // Indexed documents cannot hold blended colors, so coverage is thresholded
+  const threshold = IndexedColor.isEnabled();
+
+  return {
+    apply(region?: ClipRegion) {
+      const left = Math.max(0, Math.floor(region?.x ?? 0));
+      const top = Math.max(0, Math.floor(region?.y ?? 0));
+      const right = Math.min(width, Math.ceil(region ? region.x + region.width : width));
+      const bottom = Math.min(height, Math.ceil(region ? region.y + region.height : height));
+      if (right <= left || bottom <= top) return;
+
+      const current = Canvas.getImageDataRegion(left, top, right - left, bottom - top);
+      const data = current.data;
+      let changed = false;
+
+      for (let y = top; y < bottom; y++) {
+        for (let x = left; x < right; x++) {
+          const coverage = mask[y * width + x]!;
+          if (coverage === MASK_SELECTED || (threshold && coverage >= MASK_SELECTED / 2)) {
+            continue;
+          }
+          const weight = threshold ? 0 : coverage / MASK_SELECTED;
+          const src = (y * width + x) * 4;
+          const dst = ((y - top) * current.width + (x - left)) * 4;
+          for (let c = 0; c < 4; c++) {
+            const original = before[src + c]!;
+            const value = Math.round(original + (data[dst + c]! - original) * weight);
+            if (value !== data[dst + c]) {
+              data[dst + c] = value;
+              changed = true;
+            }
+          }
+        }
+      }
+
+      if (changed) {
+        Canvas.putImageData(current, left, top);
+      }
+    },
+  };
+}
+
+/**
+ * Get the area a brush stroke segment can touch
+ * @param margin - Distance the brush can reach from the segment (size, scatter and jitter)
+ */
+export function strokeRegion(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  margin: number
+): ClipRegion {
+  const x = Math.min(x1, x2) - margin;
+  const y = Math.min(y1, y2) - margin;
+  return {
+    x,
+    y,
+    width: Math.abs(x2 - x1) + margin * 2,
+    height: Math.abs(y2 - y1) + margin * 2,
+  };
+}
@@ -1,9 +1,16 @@
 /**
  * Selection Helpers
  * Utility functions for selection mode operations
+ * Selection masks hold 8-bit coverage per pixel: 0 = unselected, 255 = fully selected,
+ * values in between come from feathering and anti-aliasing
  */
 
-import type { SelectionMode } from '../types';
+import type { Selection, SelectionMode } from '../types';
+
+export const MASK_SELECTED = 255;
+
+// Samples per axis when computing anti-aliased polygon coverage
+const ANTI_ALIAS_SAMPLES = 4;
 
 /**
  * Combine two selection masks based on mode
@@ -33,8 +40,8 @@ export function combineSelections(
         result[i] = Math.max(existingVal, newVal);
         break;
       case 'subtract':
-        // Subtract: existing minus new
-        result[i] = Math.max(0, existingVal - newVal);
+        // Subtract: existing scaled by the unselected part of new
+        result[i] = Math.round((existingVal * (MASK_SELECTED - newVal)) / MASK_SELECTED);
         break;
       case 'intersect':
         // Intersection: min of both
@@ -71,7 +78,7 @@ export function createRectangularMask(
   for (let py = startY; py < endY; py++) {
     for (let px = startX; px < endX; px++) {
       const idx = py * canvasWidth + px;
-      mask[idx] = 1;
+      mask[idx] = MASK_SELECTED;
     }
   }
 
@@ -119,10 +126,118 @@ export function featherSelection(
       }
 
       const idx = y * width + x;
-      // Store as 0-255 value in Uint8Array (not 0-1 fractional)
-      feathered[idx] = weightSum > 0 ? Math.round((sum / weightSum) * 255) : 0;
+      feathered[idx] = weightSum > 0 ? Math.round(sum / weightSum) : 0;
     }
   }
 
   return feathered;
 }
+
+/**
+ * Even-odd test of a point against a polygon
+ */
+export function pointInPolygon(x: number, y: number, polygon: { x: number; y: number }[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const xi = polygon[i]!.x;
+    const yi = polygon[i]!.y;
+    const xj = polygon[j]!.x;
+    const yj = polygon[j]!.y;
+
+    const intersect = yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi;
+    if (intersect) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Create selection mask from a closed polygon (lasso, polygon and magnetic tools)
+ * Pixels are selected when their center is inside; with anti-aliasing the coverage
+ * of a 4x4 sample grid is stored instead
+ */
+export function createPolygonMask(
+  points: { x: number; y: number }[],
+  canvasWidth: number,
+  canvasHeight: number,
+  antiAlias?: boolean
+): Uint8Array {
+  const mask = new Uint8Array(canvasWidth * canvasHeight);
+  if (points.length < 3) return mask;
+
+  let minX = canvasWidth;
+  let maxX = 0;
+  let minY = canvasHeight;
+  let maxY = 0;
+  for (const point of points) {
+    minX = Math.min(minX, Math.floor(point.x));
+    maxX = Math.max(maxX, Math.ceil(point.x));
+    minY = Math.min(minY, Math.floor(point.y));
+    maxY = Math.max(maxY, Math.ceil(point.y));
+  }
+  minX = Math.max(0, minX);
+  maxX = Math.min(canvasWidth - 1, maxX);
+  minY = Math.max(0, minY);
+  maxY = Math.min(canvasHeight - 1, maxY);
+
+  const samples = antiAlias ? ANTI_ALIAS_SAMPLES : 1;
+  const total = samples * samples;
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      let covered = 0;
+      for (let sy = 0; sy < samples; sy++) {
+        for (let sx = 0; sx < samples; sx++) {
+          if (pointInPolygon(x + (sx + 0.5) / samples, y + (sy + 0.5) / samples, points)) {
+            covered++;
+          }
+        }
+      }
+      mask[y * canvasWidth + x] = Math.round((covered / total) * MASK_SELECTED);
+    }
+  }
+
+  return mask;
+}
+
+/**
+ * Get the bounding box of the selected pixels
+ * @returns Bounds, or null if nothing is selected
+ */
+export function getMaskBounds(
+  mask: Uint8Array,
+  width: number,
+  height: number
+): Pick<Selection, 'x' | 'y' | 'width' | 'height'> | null {
+  let minX = width;
+  let maxX = -1;
+  let minY = height;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]! > 0) {
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+  }
+
+  if (maxX === -1) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Get the selection as a mask, building one from the bounds when only a rectangle is set
+ * @returns Mask, or null if there is no selection
+ */
+export function resolveSelectionMask(
+  state: { selection: Selection | null; selectionMask: Uint8Array | null },
+  width: number,
+  height: number
+): Uint8Array | null {
+  if (state.selectionMask) return state.selectionMask;
+  if (!state.selection) return null;
+  const { x, y, width: selWidth, height: selHeight } = state.selection;
+  return createRectangularMask(x, y, selWidth, selHeight, width, height);
+}
@@ -0,0 +1,554 @@
+/**
+ * Shape Helpers
+ * Rasterizes the line, rectangle, ellipse and regular polygon tools into coverage masks
+ * Aliased shapes use integer Bresenham-style algorithms so every edge is a clean one-pixel
+ * staircase; anti-aliased shapes are supersampled
+ * Shapes are given by the pixels their drag started and ended on
+ */
+
+import type { ShapeStyle } from '../types';
+import type { Point } from './transformHelpers';
+import { pointInPolygon } from './selectionHelpers';
+
+export type ShapeKind = 'line' | 'rectangle' | 'ellipse' | 'polygon';
+
+/**
+ * Coverage of a shape over an area of the document, 0 (outside) to 255 (covered)
+ */
+export interface ShapeMask {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface ShapeOptions {
+  style: ShapeStyle;
+  lineWidth: number;
+  antiAlias: boolean;
+  // Corners of a regular polygon
+  sides: number;
+}
+
+export interface ShapeMasks {
+  fill: ShapeMask | null;
+  outline: ShapeMask | null;
+}
+
+// Samples per pixel side for anti-aliased edges
+const ANTI_ALIAS_SAMPLES = 4;
+// Shift snaps lines and polygon rotation to steps of these angles
+const LINE_SNAP_ANGLE = Math.PI / 4;
+const POLYGON_SNAP_ANGLE = Math.PI / 12;
+
+function createMask(left: number, top: number, right: number, bottom: number): ShapeMask {
+  const width = Math.max(0, right - left);
+  const height = Math.max(0, bottom - top);
+  return { x: left, y: top, width, height, data: new Uint8Array(width * height) };
+}
+
+function plot(mask: ShapeMask, x: number, y: number, value = 255): void {
+  const px = x - mask.x;
+  const py = y - mask.y;
+  if (px < 0 || py < 0 || px >= mask.width || py >= mask.height) return;
+  const index = py * mask.width + px;
+  mask.data[index] = Math.max(mask.data[index]!, value);
+}
+
+function isSet(mask: ShapeMask, x: number, y: number): boolean {
+  const px = x - mask.x;
+  const py = y - mask.y;
+  if (px < 0 || py < 0 || px >= mask.width || py >= mask.height) return false;
+  return mask.data[py * mask.width + px]! > 0;
+}
+
+/**
+ * Coverage of each pixel in an area by a shape given as a point test
+ * @param samples - Samples per pixel side; 1 tests only the pixel center
+ */
+function sampleMask(
+  left: number,
+  top: number,
+  right: number,
+  bottom: number,
+  samples: number,
+  inside: (x: number, y: number) => boolean
+): ShapeMask {
+  const mask = createMask(left, top, right, bottom);
+  const total = samples * samples;
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      let covered = 0;
+      for (let sy = 0; sy < samples; sy++) {
+        for (let sx = 0; sx < samples; sx++) {
+          if (inside(x + (sx + 0.5) / samples, y + (sy + 0.5) / samples)) {
+            covered++;
+          }
+        }
+      }
+      mask.data[(y - top) * mask.width + (x - left)] = Math.round((covered / total) * 255);
+    }
+  }
+  return mask;
+}
+
+/**
+ * Pixels of a Bresenham line between two pixels, both included
+ */
+export function getLinePixels(from: Point, to: Point): Point[] {
+  const pixels: Point[] = [];
+  let x = from.x;
+  let y = from.y;
+  const dx = Math.abs(to.x - x);
+  const dy = -Math.abs(to.y - y);
+  const stepX = x < to.x ? 1 : -1;
+  const stepY = y < to.y ? 1 : -1;
+  let error = dx + dy;
+  for (;;) {
+    pixels.push({ x, y });
+    if (x === to.x && y === to.y) break;
+    const doubled = 2 * error;
+    if (doubled >= dy) {
+      error += dy;
+      x += stepX;
+    }
+    if (doubled <= dx) {
+      error += dx;
+      y += stepY;
+    }
+  }
+  return pixels;
+}
+
+/**
+ * Pixels of an ellipse filling a box of pixels (corners included), one pixel wide
+ * Midpoint algorithm working in integers, so even and odd sizes are both symmetric
+ */
+export function getEllipsePixels(from: Point, to: Point): Point[] {
+  const pixels: Point[] = [];
+  let x0 = Math.min(from.x, to.x);
+  let x1 = Math.max(from.x, to.x);
+  let y0 = Math.min(from.y, to.y);
+  const a = x1 - x0;
+  const b = Math.max(from.y, to.y) - y0;
+  const oddHeight = b & 1;
+  let dx = 4 * (1 - a) * b * b;
+  let dy = 4 * (oddHeight + 1) * a * a;
+  let error = dx + dy + oddHeight * a * a;
+
+  y0 += (b + 1) >> 1;
+  let y1 = y0 - oddHeight;
+  const stepA = 8 * a * a;
+  const stepB = 8 * b * b;
+
+  do {
+    pixels.push({ x: x1, y: y0 }, { x: x0, y: y0 }, { x: x0, y: y1 }, { x: x1, y: y1 });
+    const doubled = 2 * error;
+    if (doubled <= dy) {
+      y0++;
+      y1--;
+      dy += stepA;
+      error += dy;
+    }
+    if (doubled >= dx || 2 * error > dy) {
+      x0++;
+      x1--;
+      dx += stepB;
+      error += dx;
+    }
+  } while (x0 <= x1);
+
+  // Very flat ellipses stop early; finish their tips
+  while (y0 - y1 <= b) {
+    pixels.push({ x: x0 - 1, y: y0 }, { x: x1 + 1, y: y0 });
+    pixels.push({ x: x0 - 1, y: y1 }, { x: x1 + 1, y: y1 });
+    y0++;
+    y1--;
+  }
+  return pixels;
+}
+
+/**
+ * Corners of a regular polygon around a center, the first one pointing at `corner`
+ */
+export function getPolygonVertices(center: Point, corner: Point, sides: number): Point[] {
+  const radius = Math.hypot(corner.x - center.x, corner.y - center.y);
+  const start = Math.atan2(corner.y - center.y, corner.x - center.x);
+  const vertices: Point[] = [];
+  for (let i = 0; i < sides; i++) {
+    const angle = start + (Math.PI * 2 * i) / sides;
+    vertices.push({
+      x: center.x + Math.cos(angle) * radius,
+      y: center.y + Math.sin(angle) * radius,
+    });
+  }
+  return vertices;
+}
+
+/**
+ * Apply Shift constraints to the end pixel of a drag
+ * Lines snap to 45° steps, rectangles and ellipses become squares and circles, and
+ * polygons snap their rotation to 15° steps
+ */
+export function constrainShapeEnd(kind: ShapeKind, start: Point, end: Point): Point {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  if (kind === 'rectangle' || kind === 'ellipse') {
+    const size = Math.max(Math.abs(dx), Math.abs(dy));
+    return { x: start.x + (dx < 0 ? -size : size), y: start.y + (dy < 0 ? -size : size) };
+  }
+  const step = kind === 'line' ? LINE_SNAP_ANGLE : POLYGON_SNAP_ANGLE;
+  const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+  const length = Math.hypot(dx, dy);
+  return {
+    x: start.x + Math.round(Math.cos(angle) * length),
+    y: start.y + Math.round(Math.sin(angle) * length),
+  };
+}
+
+// Pixels a round pen of a given width covers around the pixel it is centered on
+function getPenOffsets(lineWidth: number): Point[] {
+  const radius = Math.max(0.5, lineWidth / 2);
+  const reach = Math.ceil(radius);
+  const offsets: Point[] = [];
+  for (let y = -reach; y <= reach; y++) {
+    for (let x = -reach; x <= reach; x++) {
+      if (x * x + y * y <= radius * radius) {
+        offsets.push({ x, y });
+      }
+    }
+  }
+  return offsets;
+}
+
+// Stroke a pixel path with a round pen
+function penMask(pixels: Point[], lineWidth: number): ShapeMask {
+  const reach = Math.ceil(lineWidth / 2);
+  const xs = pixels.map((p) => p.x);
+  const ys = pixels.map((p) => p.y);
+  const mask = createMask(
+    Math.min(...xs) - reach,
+    Math.min(...ys) - reach,
+    Math.max(...xs) + reach + 1,
+    Math.max(...ys) + reach + 1
+  );
+  const offsets = getPenOffsets(lineWidth);
+  for (const pixel of pixels) {
+    for (const offset of offsets) {
+      plot(mask, pixel.x + offset.x, pixel.y + offset.y);
+    }
+  }
+  return mask;
+}
+
+// Distance from a point to a line segment
+function distanceToSegment(x: number, y: number, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lengthSq));
+  return Math.hypot(x - (a.x + t * dx), y - (a.y + t * dy));
+}
+
+// Anti-aliased stroke along segments between points, reaching half the width either side
+function sampleStroke(points: Point[], closed: boolean, lineWidth: number): ShapeMask {
+  const half = Math.max(0.5, lineWidth / 2);
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const segments: [Point, Point][] = [];
+  for (let i = 0; i < points.length - (closed ? 0 : 1); i++) {
+    segments.push([points[i]!, points[(i + 1) % points.length]!]);
+  }
+  if (segments.length === 0) {
+    segments.push([points[0]!, points[0]!]);
+  }
+  return sampleMask(
+    Math.floor(Math.min(...xs) - half),
+    Math.floor(Math.min(...ys) - half),
+    Math.ceil(Math.max(...xs) + half),
+    Math.ceil(Math.max(...ys) + half),
+    ANTI_ALIAS_SAMPLES,
+    (x, y) => segments.some(([a, b]) => distanceToSegment(x, y, a, b) <= half)
+  );
+}
+
+// Fill the span between the leftmost and rightmost set pixel of every row
+function fillRows(outline: ShapeMask): ShapeMask {
+  const mask = createMask(
+    outline.x,
+    outline.y,
+    outline.x + outline.width,
+    outline.y + outline.height
+  );
+  for (let row = 0; row < outline.height; row++) {
+    let first = -1;
+    let last = -1;
+    for (let column = 0; column < outline.width; column++) {
+      if (outline.data[row * outline.width + column]! > 0) {
+        if (first === -1) first = column;
+        last = column;
+      }
+    }
+    if (first !== -1) {
+      mask.data.fill(255, row * mask.width + first, row * mask.width + last + 1);
+    }
+  }
+  return mask;
+}
+
+function rasterizeLine(start: Point, end: Point, options: ShapeOptions): ShapeMasks {
+  if (options.antiAlias) {
+    const from = { x: start.x + 0.5, y: start.y + 0.5 };
+    const to = { x: end.x + 0.5, y: end.y + 0.5 };
+    return { fill: null, outline: sampleStroke([from, to], false, options.lineWidth) };
+  }
+  return { fill: null, outline: penMask(getLinePixels(start, end), options.lineWidth) };
+}
+
+/**
+ * Rectangles are pixel aligned, so anti-aliasing leaves them unchanged
+ * The outline is drawn inside the dragged box
+ */
+function rasterizeRectangle(start: Point, end: Point, options: ShapeOptions): ShapeMasks {
+  const left = Math.min(start.x, end.x);
+  const top = Math.min(start.y, end.y);
+  const right = Math.max(start.x, end.x) + 1;
+  const bottom = Math.max(start.y, end.y) + 1;
+  const width = Math.max(1, Math.round(options.lineWidth));
+
+  const fill = createMask(left, top, right, bottom);
+  fill.data.fill(255);
+  const outline = createMask(left, top, right, bottom);
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const inset = Math.min(x - left, right - 1 - x, y - top, bottom - 1 - y);
+      if (inset < width) {
+        plot(outline, x, y);
+      }
+    }
+  }
+  return pick(options.style, fill, outline);
+}
+
+// One pixel wide ellipse filling a box of pixels
+function ellipseMask(from: Point, to: Point): ShapeMask {
+  const mask = createMask(
+    Math.min(from.x, to.x),
+    Math.min(from.y, to.y),
+    Math.max(from.x, to.x) + 1,
+    Math.max(from.y, to.y) + 1
+  );
+  for (const pixel of getEllipsePixels(from, to)) {
+    plot(mask, pixel.x, pixel.y);
+  }
+  return mask;
+}
+
+/**
+ * The ellipse fills the dragged box; its outline is drawn inside it
+ */
+function rasterizeEllipse(start: Point, end: Point, options: ShapeOptions): ShapeMasks {
+  const left = Math.min(start.x, end.x);
+  const top = Math.min(start.y, end.y);
+  const right = Math.max(start.x, end.x) + 1;
+  const bottom = Math.max(start.y, end.y) + 1;
+  const width = Math.max(1, Math.round(options.lineWidth));
+
+  if (options.antiAlias) {
+    const cx = (left + right) / 2;
+    const cy = (top + bottom) / 2;
+    const rx = (right - left) / 2;
+    const ry = (bottom - top) / 2;
+    const insideEllipse = (x: number, y: number, radiusX: number, radiusY: number) =>
+      radiusX > 0 && radiusY > 0 && ((x - cx) / radiusX) ** 2 + ((y - cy) / radiusY) ** 2 <= 1;
+    const fill = sampleMask(left, top, right, bottom, ANTI_ALIAS_SAMPLES, (x, y) =>
+      insideEllipse(x, y, rx, ry)
+    );
+    const outline = sampleMask(
+      left,
+      top,
+      right,
+      bottom,
+      ANTI_ALIAS_SAMPLES,
+      (x, y) => insideEllipse(x, y, rx, ry) && !insideEllipse(x, y, rx - width, ry - width)
+    );
+    return pick(options.style, fill, outline);
+  }
+
+  const boundary = ellipseMask(start, end);
+  const fill = fillRows(boundary);
+  const outline = boundary;
+  if (width > 1) {
+    // Thick outlines are the ellipse minus a smaller one inset by the line width
+    const innerStart = { x: left + width, y: top + width };
+    const innerEnd = { x: right - 1 - width, y: bottom - 1 - width };
+    const hole =
+      innerStart.x <= innerEnd.x && innerStart.y <= innerEnd.y
+        ? fillRows(ellipseMask(innerStart, innerEnd))
+        : null;
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        if (isSet(fill, x, y) && !(hole && isSet(hole, x, y))) {
+          plot(outline, x, y);
+        }
+      }
+    }
+  }
+  return pick(options.style, fill, outline);
+}
+
+/**
+ * The polygon is centered on the start pixel with its first corner on the end pixel;
+ * its outline is centered on the edges
+ */
+function rasterizePolygon(start: Point, end: Point, options: ShapeOptions): ShapeMasks {
+  const sides = Math.max(3, Math.round(options.sides));
+  const vertices = getPolygonVertices(
+    { x: start.x + 0.5, y: start.y + 0.5 },
+    { x: end.x + 0.5, y: end.y + 0.5 },
+    sides
+  );
+  const xs = vertices.map((p) => p.x);
+  const ys = vertices.map((p) => p.y);
+  const fill = sampleMask(
+    Math.floor(Math.min(...xs)),
+    Math.floor(Math.min(...ys)),
+    Math.ceil(Math.max(...xs)),
+    Math.ceil(Math.max(...ys)),
+    options.antiAlias ? ANTI_ALIAS_SAMPLES : 1,
+    (x, y) => pointInPolygon(x, y, vertices)
+  );
+
+  let outline: ShapeMask;
+  if (options.antiAlias) {
+    outline = sampleStroke(vertices, true, options.lineWidth);
+  } else {
+    const corners = vertices.map((p) => ({ x: Math.floor(p.x), y: Math.floor(p.y) }));
+    const pixels = corners.flatMap((corner, i) =>
+      getLinePixels(corner, corners[(i + 1) % corners.length]!)
+    );
+    outline = penMask(pixels, options.lineWidth);
+  }
+  return pick(options.style, fill, outline);
+}
+
+function pick(style: ShapeStyle, fill: ShapeMask, outline: ShapeMask): ShapeMasks {
+  return {
+    fill: style === 'outline' ? null : fill,
+    outline: style === 'fill' ? null : outline,
+  };
+}
+
+/**
+ * Rasterize a shape dragged from one pixel to another
+ * Lines have no inside, so they are always drawn as an outline
+ */
+export function rasterizeShape(
+  kind: ShapeKind,
+  start: Point,
+  end: Point,
+  options: ShapeOptions
+): ShapeMasks {
+  switch (kind) {
+    case 'line':
+      return rasterizeLine(start, end, options);
+    case 'rectangle':
+      return rasterizeRectangle(start, end, options);
+    case 'ellipse':
+      return rasterizeEllipse(start, end, options);
+    case 'polygon':
+      return rasterizePolygon(start, end, options);
+  }
+}
+
+/**
+ * Paint shape masks in their colors, fill first and the outline over it
+ * @param replace - Write covered pixels outright instead of blending (indexed documents);
+ * only pixels at least half covered are written
+ * @returns Painted image with its position, or null when nothing is covered
+ */
+export function renderShape(
+  masks: ShapeMasks,
+  colors: { fill: readonly number[]; outline: readonly number[] },
+  replace = false
+): { x: number; y: number; image: ImageData } | null {
+  const layers = [
+    { mask: masks.fill, color: colors.fill },
+    { mask: masks.outline, color: colors.outline },
+  ].filter((layer): layer is { mask: ShapeMask; color: readonly number[] } =>
+    Boolean(layer.mask && layer.mask.width > 0 && layer.mask.height > 0)
+  );
+  if (layers.length === 0) return null;
+
+  const left = Math.min(...layers.map(({ mask }) => mask.x));
+  const top = Math.min(...layers.map(({ mask }) => mask.y));
+  const right = Math.max(...layers.map(({ mask }) => mask.x + mask.width));
+  const bottom = Math.max(...layers.map(({ mask }) => mask.y + mask.height));
+  const image = new ImageData(right - left, bottom - top);
+  const data = image.data;
+
+  for (const { mask, color } of layers) {
+    for (let my = 0; my < mask.height; my++) {
+      for (let mx = 0; mx < mask.width; mx++) {
+        const coverage = mask.data[my * mask.width + mx]! / 255;
+        if (coverage === 0 || (replace && coverage < 0.5)) continue;
+        const i = ((mask.y + my - top) * image.width + (mask.x + mx - left)) * 4;
+        blendPixel(data, i, color, replace ? 1 : coverage, replace);
+      }
+    }
+  }
+  return { x: left, y: top, image };
+}
+
+/**
+ * Composite a rendered shape onto image data covering the same area or more
+ * @param targetX - Document position of the target's top-left pixel
+ */
+export function compositeShape(
+  target: ImageData,
+  targetX: number,
+  targetY: number,
+  shape: { x: number; y: number; image: ImageData },
+  replace = false
+): void {
+  const { image } = shape;
+  for (let sy = 0; sy < image.height; sy++) {
+    const ty = shape.y + sy - targetY;
+    if (ty < 0 || ty >= target.height) continue;
+    for (let sx = 0; sx < image.width; sx++) {
+      const tx = shape.x + sx - targetX;
+      if (tx < 0 || tx >= target.width) continue;
+      const from = (sy * image.width + sx) * 4;
+      if (image.data[from + 3] === 0) continue;
+      const color = image.data.subarray(from, from + 4);
+      blendPixel(target.data, (ty * target.width + tx) * 4, color, 1, replace);
+    }
+  }
+}
+
+// Source-over blend of a color at a coverage, or an outright write
+function blendPixel(
+  data: Uint8ClampedArray,
+  i: number,
+  color: ArrayLike<number>,
+  coverage: number,
+  replace: boolean
+): void {
+  if (replace) {
+    data[i] = color[0]!;
+    data[i + 1] = color[1]!;
+    data[i + 2] = color[2]!;
+    data[i + 3] = color[3]!;
+    return;
+  }
+  const srcA = (color[3]! / 255) * coverage;
+  const dstA = data[i + 3]! / 255;
+  const outA = srcA + dstA * (1 - srcA);
+  if (outA === 0) return;
+  for (let c = 0; c < 3; c++) {
+    data[i + c] = Math.round((color[c]! * srcA + data[i + c]! * dstA * (1 - srcA)) / outA);
+  }
+  data[i + 3] = Math.round(outA * 255);
+}
@@ -0,0 +1,152 @@
+/**
+ * Shape Tools
+ * Line, rectangle, ellipse and regular polygon tools
+ * The shape is previewed on the selection canvas while dragging and painted onto the
+ * active layer on release; Shift constrains angles and proportions
+ */
+
+import type { Tool, BaseToolState, AppState } from '../types';
+import { logger } from '../utils/logger';
+import Canvas from '../canvas';
+import History from '../history';
+import IndexedColor from '../indexedColor';
+import PixelStudio from '../app';
+import StateManager from '../stateManager';
+import { hexToRgbaArray } from '../colorUtils';
+import { createSelectionClip } from './selectionClip';
+import {
+  compositeShape,
+  constrainShapeEnd,
+  rasterizeShape,
+  renderShape,
+  type ShapeKind,
+} from './shapeHelpers';
+import type { Point } from './transformHelpers';
+import EventEmitter from '../utils/eventEmitter';
+
+function createShapeTool(name: string, kind: ShapeKind): Tool {
+  let toolState: BaseToolState | null = null;
+  let isDrawing = false;
+  let start: Point = { x: 0, y: 0 };
+  let end: Point = { x: 0, y: 0 };
+  // Settings captured when the drag starts
+  let settings: AppState | null = null;
+
+  /**
+   * Render the shape between the drag's end points in the current colors
+   */
+  function render(state: AppState) {
+    const masks = rasterizeShape(kind, start, end, {
+      style: state.shapeStyle,
+      lineWidth: state.brushSize,
+      antiAlias: state.shapeAntiAlias,
+      sides: state.shapeSides,
+    });
+    // Indexed documents paint the nearest palette entries without blending
+    const indexed = IndexedColor.isEnabled();
+    const fillHex = state.shapeStyle === 'both' ? state.shapeFillColor : state.currentColor;
+    let outline = hexToRgbaArray(state.currentColor, state.currentAlpha);
+    let fill = hexToRgbaArray(fillHex, state.currentAlpha);
+    if (indexed) {
+      const outlineColor = IndexedColor.resolveColor(state.currentColor).color;
+      const fillColor = IndexedColor.resolveColor(fillHex).color;
+      outline = [outlineColor.r, outlineColor.g, outlineColor.b, outlineColor.a];
+      fill = [fillColor.r, fillColor.g, fillColor.b, fillColor.a];
+    }
+    return { shape: renderShape(masks, { fill, outline }, indexed), indexed };
+  }
+
+  function drawPreview(): void {
+    const ctx = Canvas.getSelectionContext();
+    if (!ctx || !settings) return;
+    Canvas.clearSelectionCanvas();
+
+    const { shape } = render(settings);
+    if (!shape) return;
+    // Drawn through a canvas so the preview follows the selection canvas's pixel ratio
+    const patch = document.createElement('canvas');
+    patch.width = shape.image.width;
+    patch.height = shape.image.height;
+    patch.getContext('2d')?.putImageData(shape.image, 0, 0);
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(patch, shape.x, shape.y);
+  }
+
+  async function commit(): Promise<void> {
+    if (!settings) return;
+    const { shape, indexed } = render(settings);
+    if (!shape) return;
+
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    const left = Math.max(0, shape.x);
+    const top = Math.max(0, shape.y);
+    const right = Math.min(width, shape.x + shape.image.width);
+    const bottom = Math.min(height, shape.y + shape.image.height);
+    if (right <= left || bottom <= top) return;
+
+    // Pixels outside the selection are restored after painting
+    const clip = createSelectionClip();
+    let imageData: ImageData;
+    try {
+      imageData = Canvas.getImageDataRegion(left, top, right - left, bottom - top);
+    } catch (error) {
+      logger.error(`Failed to get image data for ${name} tool:`, error);
+      EventEmitter.emit('tool:error', {
+        tool: name,
+        operation: 'getImageData',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return;
+    }
+    compositeShape(imageData, left, top, shape, indexed);
+    Canvas.putImageData(imageData, left, top);
+    clip?.apply({ x: left, y: top, width: right - left, height: bottom - top });
+    if (indexed) {
+      IndexedColor.syncActiveLayer();
+    }
+    await Canvas.triggerRender();
+    await History.saveImmediate();
+  }
+
+  return {
+    name,
+
+    init(state, elements) {
+      toolState = { state, elements };
+      isDrawing = false;
+      settings = null;
+    },
+
+    onPointerDown(coords, _e) {
+      if (!toolState) return;
+      isDrawing = true;
+      start = { x: Math.floor(coords.x), y: Math.floor(coords.y) };
+      end = start;
+      settings = StateManager.getState();
+      drawPreview();
+    },
+
+    onPointerMove(coords, e) {
+      if (!isDrawing) return;
+      const point = { x: Math.floor(coords.x), y: Math.floor(coords.y) };
+      end = e.shiftKey ? constrainShapeEnd(kind, start, point) : point;
+      drawPreview();
+    },
+
+    async onPointerUp(_e) {
+      if (!isDrawing) return;
+      isDrawing = false;
+      Canvas.clearSelectionCanvas();
+      await commit();
+      settings = null;
+    },
+  };
+}
+
+(function () {
+  PixelStudio.registerTool('line', createShapeTool('line', 'line'));
+  PixelStudio.registerTool('rectangle', createShapeTool('rectangle', 'rectangle'));
+  PixelStudio.registerTool('ellipse', createShapeTool('ellipse', 'ellipse'));
+  PixelStudio.registerTool('regular-polygon', createShapeTool('regular-polygon', 'polygon'));
+})();
@@ -8,12 +8,23 @@ import { logger } from '../utils/logger';
 import Canvas from '../canvas';
 import History from '../history';
 import PixelStudio from '../app';
+import StateManager from '../stateManager';
 import { createStabilizer } from './stabilizer';
-import { getPressure, calculateBrushSize, calculateSpacing } from './brushHelpers';
+import {
+  getPressure,
+  calculateBrushSize,
+  calculateSpacing,
+  getSymmetryPoints,
+  resolveSymmetry,
+  NO_SYMMETRY,
+  type Symmetry,
+} from './brushHelpers';
 import EventEmitter from '../utils/eventEmitter';
 
 (function () {
   let toolState: DrawingToolState | null = null;
+  // Symmetry of the current stroke, read when it starts
+  let symmetry: Symmetry = NO_SYMMETRY;
 
   const SharpenTool: Tool = {
     name: 'sharpen',
@@ -46,7 +57,8 @@ import EventEmitter from '../utils/eventEmitter';
       toolState.lastX = smoothed.x;
       toolState.lastY = smoothed.y;
       toolState.isDrawing = true;
-      sharpenDot(smoothed.x, smoothed.y, e);
+      symmetry = resolveSymmetry(StateManager.getState(), Canvas.getWidth(), Canvas.getHeight());
+      symmetricDots(smoothed.x, smoothed.y, e);
     },
 
     onPointerMove(coords, e) {
@@ -85,7 +97,17 @@ import EventEmitter from '../utils/eventEmitter';
     const steps = Math.max(1, Math.ceil(dist / Math.max(1, spacing)));
     for (let i = 0; i <= steps; i++) {
       const t = i / steps;
-      sharpenDot(x1 + (x2 - x1) * t, y1 + (y2 - y1) * t, e);
+      symmetricDots(x1 + (x2 - x1) * t, y1 + (y2 - y1) * t, e);
+    }
+  }
+
+  /**
+   * Apply the brush at a point and its symmetric copies
+   * Pixel (x, y) is compared against the dot center, so the center sits at x + 0.5
+   */
+  function symmetricDots(x: number, y: number, e: PointerEvent): void {
+    for (const point of getSymmetryPoints(x + 0.5, y + 0.5, symmetry)) {
+      sharpenDot(point.x - 0.5, point.y - 0.5, e);
     }
   }
 
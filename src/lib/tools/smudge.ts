@@ -8,12 +8,30 @@ import { logger } from '../utils/logger';
 import Canvas from '../canvas';
 import History from '../history';
 import PixelStudio from '../app';
+import StateManager from '../stateManager';
 import { createStabilizer } from './stabilizer';
-import { getPressure, calculateBrushSize, calculateSpacing } from './brushHelpers';
+import {
+  getPressure,
+  calculateBrushSize,
+  calculateSpacing,
+  getSymmetryTransforms,
+  resolveSymmetry,
+} from './brushHelpers';
+import {
+  readWrappedRegion,
+  resolveTileWrap,
+  wrapPoint,
+  writeWrappedRegion,
+  type TileWrap,
+} from './tileWrap';
 import EventEmitter from '../utils/eventEmitter';
 
 (function () {
   let toolState: SmudgeToolState | null = null;
+  // Symmetric copies of the current stroke, read when it starts
+  let symmetryTransforms: ReturnType<typeof getSymmetryTransforms> = [];
+  // Tile the current stroke wraps around, null when it stops at the edges
+  let tile: TileWrap | null = null;
 
   const SmudgeTool: Tool = {
     name: 'smudge',
@@ -35,7 +53,7 @@ import EventEmitter from '../utils/eventEmitter';
         lastStampX: 0,
         lastStampY: 0,
         currentPressure: 0.5,
-        lastColor: new Uint8Array(4),
+        lastColors: [],
       };
     },
 
@@ -50,7 +68,7 @@ import EventEmitter from '../utils/eventEmitter';
       toolState.lastY = y;
       toolState.isDrawing = true;
 
-      // Sample initial color
+      // Sample the initial color under each symmetric copy
       let imageData: ImageData;
       try {
         imageData = Canvas.getImageData();
@@ -64,13 +82,19 @@ import EventEmitter from '../utils/eventEmitter';
         return;
       }
       const width = Canvas.getWidth();
-      const idx = (Math.floor(y) * width + Math.floor(x)) * 4;
-      if (idx >= 0 && idx < imageData.data.length) {
-        toolState.lastColor[0] = imageData.data[idx]!;
-        toolState.lastColor[1] = imageData.data[idx + 1]!;
-        toolState.lastColor[2] = imageData.data[idx + 2]!;
-        toolState.lastColor[3] = imageData.data[idx + 3]!;
-      }
+      const symmetry = resolveSymmetry(StateManager.getState(), width, Canvas.getHeight());
+      symmetryTransforms = getSymmetryTransforms(symmetry);
+      tile = resolveTileWrap(StateManager.getState(), width, Canvas.getHeight());
+      toolState.lastColors = symmetryTransforms.map((transform) => {
+        const center = transform({ x: x + 0.5, y: y + 0.5 });
+        const point = wrapPoint(Math.floor(center.x - 0.5), Math.floor(center.y - 0.5), tile);
+        const idx = (point.y * width + point.x) * 4;
+        const color = new Uint8Array(4);
+        if (idx >= 0 && idx < imageData.data.length) {
+          color.set(imageData.data.subarray(idx, idx + 4));
+        }
+        return color;
+      });
     },
 
     onPointerMove(coords, e) {
@@ -112,11 +136,30 @@ import EventEmitter from '../utils/eventEmitter';
       const t = i / steps;
       const x = x1 + (x2 - x1) * t;
       const y = y1 + (y2 - y1) * t;
-      smudgeDot(x, y);
+      smudgeSymmetricDots(x, y);
     }
   }
 
-  function smudgeDot(x: number, y: number): void {
+  /**
+   * Smudge at a point and its symmetric copies, each carrying its own picked-up color
+   * Pixel (x, y) is compared against the dot center, so the center sits at x + 0.5
+   */
+  function smudgeSymmetricDots(x: number, y: number): void {
+    if (!toolState) return;
+    const centers: { x: number; y: number }[] = [];
+    symmetryTransforms.forEach((transform, i) => {
+      const center = transform({ x: x + 0.5, y: y + 0.5 });
+      const color = toolState?.lastColors[i];
+      // A copy on the axis lands on an earlier one and would smudge the same spot twice
+      if (!color || centers.some((c) => Math.hypot(c.x - center.x, c.y - center.y) < 1e-6)) {
+        return;
+      }
+      centers.push(center);
+      smudgeDot(center.x - 0.5, center.y - 0.5, color);
+    });
+  }
+
+  function smudgeDot(x: number, y: number, lastColor: Uint8Array): void {
     if (!toolState) return;
     const state = toolState.state;
 
@@ -133,14 +176,15 @@ import EventEmitter from '../utils/eventEmitter';
     const width = Canvas.getWidth();
     const height = Canvas.getHeight();
 
-    const startX = Math.max(0, Math.floor(x - radius));
-    const startY = Math.max(0, Math.floor(y - radius));
-    const endX = Math.min(width, Math.floor(x + radius));
-    const endY = Math.min(height, Math.floor(y + radius));
+    // In tile mode the brush area is not clipped; pixels past an edge wrap to the other side
+    const startX = tile ? Math.floor(x - radius) : Math.max(0, Math.floor(x - radius));
+    const startY = tile ? Math.floor(y - radius) : Math.max(0, Math.floor(y - radius));
+    const endX = tile ? Math.floor(x + radius) : Math.min(width, Math.floor(x + radius));
+    const endY = tile ? Math.floor(y + radius) : Math.min(height, Math.floor(y + radius));
 
     let imageData: ImageData;
     try {
-      imageData = Canvas.getImageDataRegion(startX, startY, endX - startX, endY - startY);
+      imageData = readWrappedRegion(startX, startY, endX - startX, endY - startY, tile);
     } catch (error) {
       logger.error('Failed to get image data region for smudge tool:', error);
       EventEmitter.emit('tool:error', {
@@ -165,23 +209,19 @@ import EventEmitter from '../utils/eventEmitter';
           const blend = weight * strength;
 
           // Blend with last color
-          data[idx] = Math.round(data[idx]! * (1 - blend) + toolState.lastColor[0]! * blend);
-          data[idx + 1] = Math.round(
-            data[idx + 1]! * (1 - blend) + toolState.lastColor[1]! * blend
-          );
-          data[idx + 2] = Math.round(
-            data[idx + 2]! * (1 - blend) + toolState.lastColor[2]! * blend
-          );
+          data[idx] = Math.round(data[idx]! * (1 - blend) + lastColor[0]! * blend);
+          data[idx + 1] = Math.round(data[idx + 1]! * (1 - blend) + lastColor[1]! * blend);
+          data[idx + 2] = Math.round(data[idx + 2]! * (1 - blend) + lastColor[2]! * blend);
 
           // Update last color (weighted average)
-          toolState.lastColor[0] = Math.round(toolState.lastColor[0]! * 0.7 + data[idx]! * 0.3);
-          toolState.lastColor[1] = Math.round(toolState.lastColor[1]! * 0.7 + data[idx + 1]! * 0.3);
-          toolState.lastColor[2] = Math.round(toolState.lastColor[2]! * 0.7 + data[idx + 2]! * 0.3);
+          lastColor[0] = Math.round(lastColor[0]! * 0.7 + data[idx]! * 0.3);
+          lastColor[1] = Math.round(lastColor[1]! * 0.7 + data[idx + 1]! * 0.3);
+          lastColor[2] = Math.round(lastColor[2]! * 0.7 + data[idx + 2]! * 0.3);
         }
       }
     }
 
-    Canvas.putImageData(imageData, startX, startY);
+    writeWrappedRegion(imageData, startX, startY, tile);
   }
 
   // Register the tool
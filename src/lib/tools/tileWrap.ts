@@ -0,0 +1,144 @@
+/**
+ * Tile Wrap Module
+ * Wraps paint around the canvas edges in tile mode, so strokes leaving one side continue
+ * on the opposite one and the canvas stays seamless when repeated
+ */
+
+import type { AppState } from '../types';
+import Canvas from '../canvas';
+import { placeImageData } from '../imageSize';
+import type { ClipRegion } from './selectionClip';
+
+/**
+ * Size of the tile paint wraps around (the whole canvas)
+ */
+export interface TileWrap {
+  width: number;
+  height: number;
+}
+
+/**
+ * Resolve tile wrapping for a canvas size
+ * @returns Tile, or null when tile mode is off (paint stops at the edges)
+ */
+export function resolveTileWrap(
+  state: Pick<AppState, 'tileMode'>,
+  width: number,
+  height: number
+): TileWrap | null {
+  return state.tileMode ? { width, height } : null;
+}
+
+/**
+ * Move a point onto the canvas by whole tiles; without a tile it is left where it is
+ */
+export function wrapPoint(x: number, y: number, tile: TileWrap | null): { x: number; y: number } {
+  if (!tile) return { x, y };
+  return {
+    x: ((x % tile.width) + tile.width) % tile.width,
+    y: ((y % tile.height) + tile.height) % tile.height,
+  };
+}
+
+// Whole-tile shifts that move part of the span [start, start + size) onto [0, length)
+function getTileShifts(start: number, size: number, length: number): number[] {
+  const shifts: number[] = [];
+  const first = Math.floor((-start - size) / length) + 1;
+  const last = Math.ceil((length - start) / length) - 1;
+  for (let k = first; k <= last; k++) {
+    shifts.push(k * length);
+  }
+  return shifts;
+}
+
+/**
+ * Offsets by whole tiles that bring an area (partly) onto the canvas
+ * Without a tile only the area itself is returned, wherever it lies
+ */
+export function getTileOffsets(
+  region: ClipRegion,
+  tile: TileWrap | null
+): Array<{ x: number; y: number }> {
+  if (!tile) return [{ x: 0, y: 0 }];
+  const offsets: Array<{ x: number; y: number }> = [];
+  for (const y of getTileShifts(region.y, region.height, tile.height)) {
+    for (const x of getTileShifts(region.x, region.width, tile.width)) {
+      offsets.push({ x, y });
+    }
+  }
+  return offsets;
+}
+
+/**
+ * Positions to paint a stamp at so it wraps around the canvas edges
+ * @param reach - Distance the stamp paints from its position
+ */
+export function getTilePoints(
+  x: number,
+  y: number,
+  reach: number,
+  tile: TileWrap | null
+): Array<{ x: number; y: number }> {
+  const region = { x: x - reach, y: y - reach, width: reach * 2, height: reach * 2 };
+  return getTileOffsets(region, tile).map((offset) => ({ x: x + offset.x, y: y + offset.y }));
+}
+
+/**
+ * Read an area of the active layer, taking pixels past the edges from the opposite side
+ * Without a tile the area is read directly
+ */
+export function readWrappedRegion(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  tile: TileWrap | null
+): ImageData {
+  if (!tile) return Canvas.getImageDataRegion(x, y, width, height);
+  const result = new ImageData(width, height);
+  for (const offset of getTileOffsets({ x, y, width, height }, tile)) {
+    const left = Math.max(0, x + offset.x);
+    const top = Math.max(0, y + offset.y);
+    const right = Math.min(tile.width, x + offset.x + width);
+    const bottom = Math.min(tile.height, y + offset.y + height);
+    const piece = Canvas.getImageDataRegion(left, top, right - left, bottom - top);
+    const dx = left - offset.x - x;
+    for (let row = 0; row < piece.height; row++) {
+      const from = row * piece.width * 4;
+      const to = ((top - offset.y - y + row) * width + dx) * 4;
+      result.data.set(piece.data.subarray(from, from + piece.width * 4), to);
+    }
+  }
+  return result;
+}
+
+/**
+ * Write an area to the active layer, wrapping what falls past the edges to the opposite side
+ * Without a tile the area is written directly
+ */
+export function writeWrappedRegion(
+  imageData: ImageData,
+  x: number,
+  y: number,
+  tile: TileWrap | null
+): void {
+  if (!tile) {
+    Canvas.putImageData(imageData, x, y);
+    return;
+  }
+  const region = { x, y, width: imageData.width, height: imageData.height };
+  for (const offset of getTileOffsets(region, tile)) {
+    const left = Math.max(0, x + offset.x);
+    const top = Math.max(0, y + offset.y);
+    const right = Math.min(tile.width, x + offset.x + imageData.width);
+    const bottom = Math.min(tile.height, y + offset.y + imageData.height);
+    const piece = placeImageData(
+      imageData,
+      right - left,
+      bottom - top,
+      x + offset.x - left,
+      y + offset.y - top
+    );
+    Canvas.putImageData(piece, left, top);
+  }
+}
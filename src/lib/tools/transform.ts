@@ -0,0 +1,158 @@
+/**
+ * Transform Tool
+ * Free transform of the selection, or of the active layer when nothing is selected
+ * Drag inside the frame to move, a corner or edge to scale (Shift keeps proportions)
+ * and outside the frame to rotate (Shift snaps to 15°); with Ctrl/Cmd held corners
+ * distort for perspective and edges skew
+ * Enter applies the transform and Escape cancels it; switching tools applies it
+ */
+
+import type { Tool, BaseToolState } from '../types';
+import PixelStudio from '../app';
+import Viewport from '../viewport';
+import TransformActions from '../transformActions';
+import { logger } from '../utils/logger';
+import {
+  getTransformCorners,
+  getTransformHandles,
+  isPointInQuad,
+  moveCorner,
+  scaleFromHandle,
+  skewFromHandle,
+  type Point,
+  type TransformParams,
+} from './transformHelpers';
+
+type DragMode = 'move' | 'scale' | 'skew' | 'perspective' | 'rotate';
+
+interface TransformDrag {
+  mode: DragMode;
+  handle: number;
+  start: Point;
+  startParams: TransformParams;
+}
+
+(function () {
+  let toolState: BaseToolState | null = null;
+  let drag: TransformDrag | null = null;
+
+  // Handle hit area, in CSS pixels
+  const HANDLE_HIT_DISTANCE = 6;
+  const ROTATION_SNAP = 15;
+
+  function beginTransform(): boolean {
+    try {
+      TransformActions.begin();
+      return true;
+    } catch (error) {
+      logger.warn('Transform:', error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  function applyTransform(): void {
+    TransformActions.commit().catch((error) => {
+      logger.warn('Transform:', error instanceof Error ? error.message : error);
+    });
+  }
+
+  /**
+   * Find the handle under a document point
+   * @returns Handle index (corners 0-3, edges 4-7), or -1
+   */
+  function findHandle(corners: Point[], point: Point): number {
+    const tolerance = HANDLE_HIT_DISTANCE / Viewport.getState().zoom;
+    return getTransformHandles(corners).findIndex(
+      (handle) =>
+        Math.abs(handle.x - point.x) <= tolerance && Math.abs(handle.y - point.y) <= tolerance
+    );
+  }
+
+  function getDragMode(handle: number, corners: Point[], point: Point, distort: boolean): DragMode {
+    if (handle >= 4) return distort ? 'skew' : 'scale';
+    if (handle >= 0) return distort ? 'perspective' : 'scale';
+    return isPointInQuad(corners, point) ? 'move' : 'rotate';
+  }
+
+  function getAngle(center: Point, point: Point): number {
+    return (Math.atan2(point.y - center.y, point.x - center.x) * 180) / Math.PI;
+  }
+
+  const TransformTool: Tool = {
+    name: 'transform',
+
+    init(state, elements) {
+      toolState = { state, elements };
+    },
+
+    onPointerDown(coords, e) {
+      if (!toolState) return;
+      if (!TransformActions.isTransforming() && !beginTransform()) return;
+
+      const box = TransformActions.getBox();
+      const params = TransformActions.getParams();
+      if (!box || !params) return;
+      const corners = getTransformCorners(box, params);
+      const handle = findHandle(corners, coords);
+      drag = {
+        mode: getDragMode(handle, corners, coords, e.ctrlKey || e.metaKey),
+        handle,
+        start: { x: coords.x, y: coords.y },
+        startParams: params,
+      };
+    },
+
+    onPointerMove(coords, e) {
+      const box = TransformActions.getBox();
+      if (!drag || !box) return;
+      const { startParams, start, handle } = drag;
+
+      switch (drag.mode) {
+        case 'move':
+          // Whole-pixel steps keep unscaled pixels on the grid
+          TransformActions.update({
+            centerX: startParams.centerX + Math.round(coords.x - start.x),
+            centerY: startParams.centerY + Math.round(coords.y - start.y),
+          });
+          break;
+        case 'scale':
+          TransformActions.update(scaleFromHandle(box, startParams, handle, coords, e.shiftKey));
+          break;
+        case 'skew':
+          TransformActions.update(skewFromHandle(box, startParams, handle, coords));
+          break;
+        case 'perspective':
+          TransformActions.update(moveCorner(box, startParams, handle, coords));
+          break;
+        case 'rotate': {
+          const center = { x: startParams.centerX, y: startParams.centerY };
+          let rotation = startParams.rotation + getAngle(center, coords) - getAngle(center, start);
+          if (e.shiftKey) {
+            rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP;
+          }
+          TransformActions.update({ rotation: ((rotation % 360) + 360) % 360 });
+          break;
+        }
+      }
+    },
+
+    onPointerUp(_e) {
+      drag = null;
+    },
+  };
+
+  // Start transforming when the tool is picked and apply when leaving it
+  PixelStudio.on('app:toolChange', (data: { tool: string; previousTool: string }) => {
+    if (data.tool === 'transform' && data.previousTool !== 'transform') {
+      beginTransform();
+    } else if (data.previousTool === 'transform' && data.tool !== 'transform') {
+      drag = null;
+      if (TransformActions.isTransforming()) {
+        applyTransform();
+      }
+    }
+  });
+
+  // Register the tool
+  PixelStudio.registerTool('transform', TransformTool);
+})();
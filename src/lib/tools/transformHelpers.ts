@@ -0,0 +1,582 @@
+/**
+ * Transform Helpers
+ * Geometry and resampling behind the Transform tool
+ * A transform maps a source box onto a quad: an affine part (scale, skew, rotation and
+ * flips about the box center) plus optional corner offsets for perspective
+ * Output pixels are mapped back into the source and sampled with the chosen interpolation
+ */
+
+import type { Rect } from '../viewportGeometry';
+import { getMaskBounds } from './selectionHelpers';
+
+export type TransformInterpolation = 'nearest' | 'bilinear' | 'bicubic' | 'rotsprite';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface TransformParams {
+  // Position of the box center, in document pixels
+  centerX: number;
+  centerY: number;
+  // Scale factors; negative values flip
+  scaleX: number;
+  scaleY: number;
+  // Angles in degrees
+  rotation: number;
+  skewX: number;
+  skewY: number;
+  // Perspective: corner offsets from where the affine part puts them
+  // (top-left, top-right, bottom-right, bottom-left)
+  cornerOffsets: Point[];
+}
+
+// Largest intermediate image RotSprite may upscale to, in pixels
+const ROTSPRITE_MAX_PIXELS = 16_000_000;
+// Skew is limited short of 90° where the box collapses
+export const MAX_SKEW = 85;
+
+/**
+ * Start a transform that leaves the box where it is
+ */
+export function createTransformParams(box: Rect): TransformParams {
+  return {
+    centerX: box.x + box.width / 2,
+    centerY: box.y + box.height / 2,
+    scaleX: 1,
+    scaleY: 1,
+    rotation: 0,
+    skewX: 0,
+    skewY: 0,
+    cornerOffsets: [0, 1, 2, 3].map(() => ({ x: 0, y: 0 })),
+  };
+}
+
+/**
+ * Check whether a transform would leave the box unchanged
+ */
+export function isIdentityTransform(box: Rect, params: TransformParams): boolean {
+  const start = createTransformParams(box);
+  return (
+    params.centerX === start.centerX &&
+    params.centerY === start.centerY &&
+    params.scaleX === 1 &&
+    params.scaleY === 1 &&
+    params.rotation % 360 === 0 &&
+    params.skewX === 0 &&
+    params.skewY === 0 &&
+    params.cornerOffsets.every((offset) => offset.x === 0 && offset.y === 0)
+  );
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Linear part of the affine transform: rotation · skew · scale, as [a, b, c, d]
+ * with x' = a·x + b·y and y' = c·x + d·y
+ */
+function getLinearMatrix(params: TransformParams): [number, number, number, number] {
+  const cos = Math.cos(toRadians(params.rotation));
+  const sin = Math.sin(toRadians(params.rotation));
+  const skewX = Math.tan(toRadians(params.skewX));
+  const skewY = Math.tan(toRadians(params.skewY));
+  const { scaleX, scaleY } = params;
+  return [
+    (cos - sin * skewY) * scaleX,
+    (cos * skewX - sin) * scaleY,
+    (sin + cos * skewY) * scaleX,
+    (sin * skewX + cos) * scaleY,
+  ];
+}
+
+/**
+ * Rotate a document point into the box's unrotated frame, relative to its center
+ */
+function toRotatedFrame(params: TransformParams, point: Point): Point {
+  const cos = Math.cos(toRadians(params.rotation));
+  const sin = Math.sin(toRadians(params.rotation));
+  const dx = point.x - params.centerX;
+  const dy = point.y - params.centerY;
+  return { x: cos * dx + sin * dy, y: -sin * dx + cos * dy };
+}
+
+/**
+ * Corners of the transformed box (top-left, top-right, bottom-right, bottom-left)
+ */
+export function getTransformCorners(box: Rect, params: TransformParams): Point[] {
+  const [a, b, c, d] = getLinearMatrix(params);
+  const halfWidth = box.width / 2;
+  const halfHeight = box.height / 2;
+  const local: Point[] = [
+    { x: -halfWidth, y: -halfHeight },
+    { x: halfWidth, y: -halfHeight },
+    { x: halfWidth, y: halfHeight },
+    { x: -halfWidth, y: halfHeight },
+  ];
+  return local.map((point, i) => ({
+    x: params.centerX + a * point.x + b * point.y + (params.cornerOffsets[i]?.x ?? 0),
+    y: params.centerY + c * point.x + d * point.y + (params.cornerOffsets[i]?.y ?? 0),
+  }));
+}
+
+/**
+ * Handle positions: the four corners followed by the four edge midpoints
+ */
+export function getTransformHandles(corners: Point[]): Point[] {
+  const midpoints = corners.map((corner, i) => {
+    const next = corners[(i + 1) % corners.length]!;
+    return { x: (corner.x + next.x) / 2, y: (corner.y + next.y) / 2 };
+  });
+  return [...corners, ...midpoints];
+}
+
+/**
+ * Check whether a point lies inside a quad (even-odd rule)
+ */
+export function isPointInQuad(quad: Point[], point: Point): boolean {
+  let inside = false;
+  for (let i = 0, j = quad.length - 1; i < quad.length; j = i++) {
+    const a = quad[i]!;
+    const b = quad[j]!;
+    if (a.y > point.y !== b.y > point.y) {
+      const crossX = ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+      if (point.x < crossX) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Scale by dragging a handle while the opposite corner or edge stays put
+ * @param keepAspect - Scale both axes by the same amount (corner handles only)
+ */
+export function scaleFromHandle(
+  box: Rect,
+  params: TransformParams,
+  handle: number,
+  point: Point,
+  keepAspect = false
+): TransformParams {
+  // Direction of the handle from the box center in unscaled units: -1, 0 or 1 per axis
+  const directions: Point[] = [
+    { x: -1, y: -1 },
+    { x: 1, y: -1 },
+    { x: 1, y: 1 },
+    { x: -1, y: 1 },
+    { x: 0, y: -1 },
+    { x: 1, y: 0 },
+    { x: 0, y: 1 },
+    { x: -1, y: 0 },
+  ];
+  const direction = directions[handle];
+  if (!direction) return params;
+
+  const [a, b, c, d] = getLinearMatrix({ ...params, scaleX: 1, scaleY: 1 });
+  const determinant = a * d - b * c;
+  if (Math.abs(determinant) < 1e-9) return params;
+
+  // Anchor: the point opposite the handle, fixed in document space
+  const [sa, sb, sc, sd] = getLinearMatrix(params);
+  const anchorLocal = {
+    x: (-direction.x * box.width) / 2,
+    y: (-direction.y * box.height) / 2,
+  };
+  const anchor = {
+    x: params.centerX + sa * anchorLocal.x + sb * anchorLocal.y,
+    y: params.centerY + sc * anchorLocal.x + sd * anchorLocal.y,
+  };
+
+  // Pointer offset from the anchor in the unscaled frame
+  const dx = point.x - anchor.x;
+  const dy = point.y - anchor.y;
+  const localX = (d * dx - b * dy) / determinant;
+  const localY = (-c * dx + a * dy) / determinant;
+
+  const minScaleX = 1 / box.width;
+  const minScaleY = 1 / box.height;
+  const clampScale = (value: number, min: number) =>
+    Math.abs(value) < min ? (value < 0 ? -min : min) : value;
+
+  let scaleX = direction.x
+    ? clampScale(localX / (direction.x * box.width), minScaleX)
+    : params.scaleX;
+  let scaleY = direction.y
+    ? clampScale(localY / (direction.y * box.height), minScaleY)
+    : params.scaleY;
+  if (keepAspect && direction.x && direction.y) {
+    const uniform = Math.max(Math.abs(scaleX), Math.abs(scaleY));
+    scaleX = Math.sign(scaleX) * uniform;
+    scaleY = Math.sign(scaleY) * uniform;
+  }
+
+  // Re-center so the anchor stays where it was
+  const next = { ...params, scaleX, scaleY };
+  const [na, nb, nc, nd] = getLinearMatrix(next);
+  return {
+    ...next,
+    centerX: anchor.x - (na * anchorLocal.x + nb * anchorLocal.y),
+    centerY: anchor.y - (nc * anchorLocal.x + nd * anchorLocal.y),
+  };
+}
+
+/**
+ * Skew by dragging an edge handle along its edge
+ */
+export function skewFromHandle(
+  box: Rect,
+  params: TransformParams,
+  handle: number,
+  point: Point
+): TransformParams {
+  const local = toRotatedFrame(params, point);
+  const clampSkew = (tangent: number) =>
+    Math.max(-MAX_SKEW, Math.min(MAX_SKEW, (Math.atan(tangent) * 180) / Math.PI));
+
+  // Top and bottom edges slide horizontally, left and right edges vertically
+  if (handle === 4 || handle === 6) {
+    const edgeY = ((handle === 4 ? -1 : 1) * box.height * params.scaleY) / 2;
+    if (Math.abs(edgeY) < 1e-9) return params;
+    return { ...params, skewX: clampSkew(local.x / edgeY) };
+  }
+  if (handle === 5 || handle === 7) {
+    const edgeX = ((handle === 7 ? -1 : 1) * box.width * params.scaleX) / 2;
+    if (Math.abs(edgeX) < 1e-9) return params;
+    return { ...params, skewY: clampSkew(local.y / edgeX) };
+  }
+  return params;
+}
+
+/**
+ * Move a single corner for perspective, keeping the affine part as it is
+ */
+export function moveCorner(
+  box: Rect,
+  params: TransformParams,
+  corner: number,
+  point: Point
+): TransformParams {
+  const offsets = params.cornerOffsets.map((offset) => ({ ...offset }));
+  const current = getTransformCorners(box, params)[corner];
+  const offset = offsets[corner];
+  if (!current || !offset) return params;
+  offsets[corner] = { x: offset.x + point.x - current.x, y: offset.y + point.y - current.y };
+  return { ...params, cornerOffsets: offsets };
+}
+
+/**
+ * Projective mapping from the unit square onto a quad, as a row-major 3x3 matrix
+ * (Heckbert's square-to-quad); parallelograms reduce to an affine matrix
+ */
+export function getSquareToQuad(quad: Point[]): number[] {
+  const [p0, p1, p2, p3] = quad as [Point, Point, Point, Point];
+  const sumX = p0.x - p1.x + p2.x - p3.x;
+  const sumY = p0.y - p1.y + p2.y - p3.y;
+
+  if (Math.abs(sumX) < 1e-9 && Math.abs(sumY) < 1e-9) {
+    return [p1.x - p0.x, p3.x - p0.x, p0.x, p1.y - p0.y, p3.y - p0.y, p0.y, 0, 0, 1];
+  }
+
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const determinant = dx1 * dy2 - dx2 * dy1;
+  const g = determinant ? (sumX * dy2 - dx2 * sumY) / determinant : 0;
+  const h = determinant ? (dx1 * sumY - sumX * dy1) / determinant : 0;
+  return [
+    p1.x - p0.x + g * p1.x,
+    p3.x - p0.x + h * p3.x,
+    p0.x,
+    p1.y - p0.y + g * p1.y,
+    p3.y - p0.y + h * p3.y,
+    p0.y,
+    g,
+    h,
+    1,
+  ];
+}
+
+/**
+ * Invert a row-major 3x3 matrix
+ * @returns Inverse, or null if the matrix is singular
+ */
+export function invertMatrix3(m: number[]): number[] | null {
+  const [a, b, c, d, e, f, g, h, i] = m as [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+  ];
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const determinant = a * A + b * B + c * C;
+  if (Math.abs(determinant) < 1e-12) return null;
+  const inv = 1 / determinant;
+  return [
+    A * inv,
+    -(b * i - c * h) * inv,
+    (b * f - c * e) * inv,
+    B * inv,
+    (a * i - c * g) * inv,
+    -(a * f - c * d) * inv,
+    C * inv,
+    -(a * h - b * g) * inv,
+    (a * e - b * d) * inv,
+  ];
+}
+
+/**
+ * Upscale an image 2x with Scale2x (EPX), which keeps pixel art edges sharp instead of
+ * blurring or blocking them
+ */
+export function scale2x(source: ImageData): ImageData {
+  const { width, height } = source;
+  const pixels = new Uint32Array(
+    source.data.buffer,
+    source.data.byteOffset,
+    source.data.byteLength / 4
+  );
+  const result = new ImageData(width * 2, height * 2);
+  const out = new Uint32Array(result.data.buffer);
+  const outWidth = width * 2;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = pixels[y * width + x]!;
+      const above = y > 0 ? pixels[(y - 1) * width + x]! : p;
+      const below = y < height - 1 ? pixels[(y + 1) * width + x]! : p;
+      const left = x > 0 ? pixels[y * width + x - 1]! : p;
+      const right = x < width - 1 ? pixels[y * width + x + 1]! : p;
+      const i = y * 2 * outWidth + x * 2;
+      out[i] = left === above && left !== below && above !== right ? above : p;
+      out[i + 1] = above === right && above !== left && right !== below ? right : p;
+      out[i + outWidth] = below === left && below !== right && left !== above ? left : p;
+      out[i + outWidth + 1] = right === below && right !== above && below !== left ? below : p;
+    }
+  }
+  return result;
+}
+
+/**
+ * Upscale factor RotSprite uses for an image: 8x, or less for images too large for it
+ */
+export function getRotSpriteFactor(width: number, height: number): number {
+  for (const factor of [8, 4, 2]) {
+    if (width * height * factor * factor <= ROTSPRITE_MAX_PIXELS) return factor;
+  }
+  return 1;
+}
+
+function copyPixel(source: ImageData, x: number, y: number, out: Uint8ClampedArray, o: number) {
+  if (x < 0 || y < 0 || x >= source.width || y >= source.height) return;
+  const i = (y * source.width + x) * 4;
+  out[o] = source.data[i]!;
+  out[o + 1] = source.data[i + 1]!;
+  out[o + 2] = source.data[i + 2]!;
+  out[o + 3] = source.data[i + 3]!;
+}
+
+function triangleKernel(distance: number): number {
+  return Math.max(0, 1 - Math.abs(distance));
+}
+
+// Catmull-Rom cubic (a = -0.5)
+function cubicKernel(distance: number): number {
+  const t = Math.abs(distance);
+  if (t <= 1) return 1.5 * t * t * t - 2.5 * t * t + 1;
+  if (t < 2) return -0.5 * t * t * t + 2.5 * t * t - 4 * t + 2;
+  return 0;
+}
+
+/**
+ * Filtered sample with premultiplied alpha so transparent pixels don't bleed color;
+ * taps outside the source count as transparent
+ */
+function sampleFiltered(
+  source: ImageData,
+  x: number,
+  y: number,
+  out: Uint8ClampedArray,
+  o: number,
+  kernel: (distance: number) => number,
+  radius: number
+): void {
+  const fx = x - 0.5;
+  const fy = y - 0.5;
+  const baseX = Math.floor(fx);
+  const baseY = Math.floor(fy);
+  let red = 0;
+  let green = 0;
+  let blue = 0;
+  let alpha = 0;
+
+  for (let ty = baseY - radius + 1; ty <= baseY + radius; ty++) {
+    if (ty < 0 || ty >= source.height) continue;
+    const weightY = kernel(fy - ty);
+    if (!weightY) continue;
+    for (let tx = baseX - radius + 1; tx <= baseX + radius; tx++) {
+      if (tx < 0 || tx >= source.width) continue;
+      const weight = weightY * kernel(fx - tx);
+      if (!weight) continue;
+      const i = (ty * source.width + tx) * 4;
+      const a = source.data[i + 3]! * weight;
+      red += source.data[i]! * a;
+      green += source.data[i + 1]! * a;
+      blue += source.data[i + 2]! * a;
+      alpha += a;
+    }
+  }
+
+  if (alpha <= 0) return;
+  out[o] = red / alpha;
+  out[o + 1] = green / alpha;
+  out[o + 2] = blue / alpha;
+  out[o + 3] = alpha;
+}
+
+/**
+ * Render source pixels mapped onto a quad into an image of the given size
+ * @param source - Pixels of the box being transformed
+ * @param quad - Where the box corners land (top-left, top-right, bottom-right, bottom-left)
+ * @returns New image data, transparent outside the quad
+ */
+export function transformImage(
+  source: ImageData,
+  quad: Point[],
+  width: number,
+  height: number,
+  interpolation: TransformInterpolation
+): ImageData {
+  const result = new ImageData(width, height);
+  const inverse = invertMatrix3(getSquareToQuad(quad));
+  if (!inverse || source.width === 0 || source.height === 0) return result;
+  const [a, b, c, d, e, f, g, h, i] = inverse as [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+  ];
+
+  // RotSprite: upscale with Scale2x, then sample the upscaled image without filtering
+  let sampled = source;
+  if (interpolation === 'rotsprite') {
+    const factor = getRotSpriteFactor(source.width, source.height);
+    for (let scale = 1; scale < factor; scale *= 2) {
+      sampled = scale2x(sampled);
+    }
+  }
+
+  const xs = quad.map((p) => p.x);
+  const ys = quad.map((p) => p.y);
+  const left = Math.max(0, Math.floor(Math.min(...xs)) - 1);
+  const top = Math.max(0, Math.floor(Math.min(...ys)) - 1);
+  const right = Math.min(width, Math.ceil(Math.max(...xs)) + 1);
+  const bottom = Math.min(height, Math.ceil(Math.max(...ys)) + 1);
+  const out = result.data;
+
+  for (let py = top; py < bottom; py++) {
+    for (let px = left; px < right; px++) {
+      // Map the pixel center back into the unit square, then into the source
+      const x = px + 0.5;
+      const y = py + 0.5;
+      const w = g * x + h * y + i;
+      if (w === 0) continue;
+      const u = (a * x + b * y + c) / w;
+      const v = (d * x + e * y + f) / w;
+      if (u < -0.5 || u > 1.5 || v < -0.5 || v > 1.5) continue;
+      const o = (py * width + px) * 4;
+      const sx = u * sampled.width;
+      const sy = v * sampled.height;
+
+      if (interpolation === 'bilinear') {
+        sampleFiltered(sampled, sx, sy, out, o, triangleKernel, 1);
+      } else if (interpolation === 'bicubic') {
+        sampleFiltered(sampled, sx, sy, out, o, cubicKernel, 2);
+      } else {
+        copyPixel(sampled, Math.floor(sx), Math.floor(sy), out, o);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Transform selection coverage the same way as the pixels it selects
+ * RotSprite coverage is resampled with nearest neighbour
+ */
+export function transformMask(
+  mask: Uint8Array,
+  maskWidth: number,
+  maskHeight: number,
+  quad: Point[],
+  width: number,
+  height: number,
+  interpolation: TransformInterpolation
+): Uint8Array {
+  const coverage = new ImageData(maskWidth, maskHeight);
+  for (let i = 0; i < mask.length; i++) {
+    coverage.data[i * 4 + 3] = mask[i]!;
+  }
+  const transformed = transformImage(
+    coverage,
+    quad,
+    width,
+    height,
+    interpolation === 'rotsprite' ? 'nearest' : interpolation
+  );
+  const result = new Uint8Array(width * height);
+  for (let i = 0; i < result.length; i++) {
+    result[i] = transformed.data[i * 4 + 3]!;
+  }
+  return result;
+}
+
+/**
+ * Copy a rectangle out of an image
+ */
+export function cropImageData(source: ImageData, rect: Rect): ImageData {
+  const result = new ImageData(rect.width, rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const from = ((rect.y + y) * source.width + rect.x) * 4;
+    result.data.set(source.data.subarray(from, from + rect.width * 4), y * rect.width * 4);
+  }
+  return result;
+}
+
+/**
+ * Copy a rectangle out of a selection mask
+ */
+export function cropMask(mask: Uint8Array, maskWidth: number, rect: Rect): Uint8Array {
+  const result = new Uint8Array(rect.width * rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    const from = (rect.y + y) * maskWidth + rect.x;
+    result.set(mask.subarray(from, from + rect.width), y * rect.width);
+  }
+  return result;
+}
+
+/**
+ * Bounding box of the non-transparent pixels of an image
+ * @returns Bounds, or null if the image is fully transparent
+ */
+export function getOpaqueBounds(image: ImageData): Rect | null {
+  const alpha = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < alpha.length; i++) {
+    alpha[i] = image.data[i * 4 + 3]!;
+  }
+  return getMaskBounds(alpha, image.width, image.height);
+}
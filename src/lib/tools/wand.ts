@@ -7,9 +7,9 @@ import type { Tool, BaseToolState } from '../types';
 import { logger } from '../utils/logger';
 import Canvas from '../canvas';
 import PixelStudio from '../app';
-import UI from '../ui';
-import StateManager from '../stateManager';
+import SelectionMask from '../selectionMask';
 import EventEmitter from '../utils/eventEmitter';
+import { MASK_SELECTED } from './selectionHelpers';
 
 (function () {
   let toolState: BaseToolState | null = null;
@@ -101,11 +101,6 @@ import EventEmitter from '../utils/eventEmitter';
     const selected = new Uint8Array(width * height);
     const stack: [number, number][] = [[startX, startY]];
     const visited = new Set<string>();
-    let minX = startX,
-      maxX = startX,
-      minY = startY,
-      maxY = startY;
-    let hasSelection = false;
 
     while (stack.length > 0) {
       const [x, y] = stack.pop()!;
@@ -128,34 +123,12 @@ import EventEmitter from '../utils/eventEmitter';
 
       visited.add(key);
       const pixelIdx = y * width + x;
-      selected[pixelIdx] = 1;
-      hasSelection = true;
-
-      minX = Math.min(minX, x);
-      maxX = Math.max(maxX, x);
-      minY = Math.min(minY, y);
-      maxY = Math.max(maxY, y);
+      selected[pixelIdx] = MASK_SELECTED;
 
       stack.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
     }
 
-    if (hasSelection) {
-      // Store selection mask and bounding box
-      StateManager.setSelection({
-        x: minX,
-        y: minY,
-        width: maxX - minX + 1,
-        height: maxY - minY + 1,
-      });
-      StateManager.setColorRangeSelection(selected);
-
-      // Display actual selected region on selection canvas (precise pixel selection)
-      // Don't show rectangular bounding box - only show the actual selected pixels
-      UI.showColorRangeOverlay(selected);
-    } else {
-      // Clear selection if nothing was selected
-      PixelStudio.clearSelection();
-    }
+    SelectionMask.apply(selected);
   }
 
   // Register the tool
@@ -0,0 +1,278 @@
+/**
+ * Transform Actions Module
+ * Free transform of the selected pixels of the active layer, or of the whole layer
+ * when nothing is selected: scale, rotate, skew, flip and perspective in one session
+ * The result previews on the layer while the session runs and is resampled from the
+ * original pixels each time, so repeated adjustments never degrade the image
+ * Committing records a single history step
+ */
+
+import type { Layer } from './types';
+import type { Rect } from './viewportGeometry';
+import Canvas from './canvas';
+import Layers from './layers';
+import History from './history';
+import IndexedColor from './indexedColor';
+import Overlay from './overlay';
+import SelectionMask from './selectionMask';
+import UI from './ui';
+import EventEmitter from './utils/eventEmitter';
+import { isGroupLayer } from './layerTree';
+import { dropFloating, liftSelection } from './tools/moveHelpers';
+import { getMaskBounds } from './tools/selectionHelpers';
+import {
+  createTransformParams,
+  cropImageData,
+  cropMask,
+  getOpaqueBounds,
+  getTransformCorners,
+  isIdentityTransform,
+  transformImage,
+  transformMask,
+  type TransformInterpolation,
+  type TransformParams,
+} from './tools/transformHelpers';
+
+interface TransformSession {
+  layerId: string;
+  canvas: HTMLCanvasElement;
+  original: ImageData;
+  // What stays on the layer while the transformed pixels float above it
+  remainder: ImageData;
+  // Pixels inside the box, with their selection coverage when transforming a selection
+  source: ImageData;
+  sourceMask: Uint8Array | null;
+  box: Rect;
+  params: TransformParams;
+}
+
+const TransformActions = (function () {
+  let session: TransformSession | null = null;
+  // Kept between sessions so the last choice sticks
+  let interpolation: TransformInterpolation = 'nearest';
+
+  function emitChange(): void {
+    EventEmitter.emit('transform:change', {
+      active: session !== null,
+      box: session ? { ...session.box } : null,
+      params: session ? getParams() : null,
+      interpolation,
+    });
+  }
+
+  function getActiveLayer(): Layer {
+    const activeId = Layers.getActiveLayerId();
+    const layer = activeId ? Layers.getLayer(activeId) : undefined;
+    if (!layer) {
+      throw new Error('No active layer to transform');
+    }
+    if (isGroupLayer(layer)) {
+      throw new Error('Select a single layer to transform');
+    }
+    if (Layers.isLayerLocked(layer.id)) {
+      throw new Error(`Layer "${layer.name}" is locked`);
+    }
+    return layer;
+  }
+
+  /**
+   * Start transforming the selection, or the layer content when nothing is selected
+   * Throws if there is nothing to transform; does nothing while a session is running
+   */
+  function begin(): void {
+    if (session) return;
+    const layer = getActiveLayer();
+    const canvas = Layers.getPaintCanvas(layer);
+    const ctx = Layers.getCachedContext(canvas);
+    if (!ctx) {
+      throw new Error('Failed to read layer pixels');
+    }
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    const original = ctx.getImageData(0, 0, width, height);
+    const selectionMask = SelectionMask.get();
+
+    let floating = original;
+    let remainder = new ImageData(width, height);
+    let box: Rect | null;
+    if (selectionMask) {
+      ({ floating, remainder } = liftSelection(original, selectionMask));
+      box = getMaskBounds(selectionMask, width, height);
+    } else {
+      box = getOpaqueBounds(original);
+    }
+    if (!box) {
+      throw new Error('Nothing to transform on this layer');
+    }
+
+    session = {
+      layerId: layer.id,
+      canvas,
+      original,
+      remainder,
+      source: cropImageData(floating, box),
+      sourceMask: selectionMask ? cropMask(selectionMask, width, box) : null,
+      box,
+      params: createTransformParams(box),
+    };
+    preview();
+  }
+
+  function getCorners(current: TransformSession) {
+    return getTransformCorners(current.box, current.params);
+  }
+
+  function renderResult(current: TransformSession): {
+    pixels: ImageData;
+    mask: Uint8Array | null;
+  } {
+    const width = Canvas.getWidth();
+    const height = Canvas.getHeight();
+    const corners = getCorners(current);
+    const transformed = transformImage(current.source, corners, width, height, interpolation);
+    const mask = current.sourceMask
+      ? transformMask(
+          current.sourceMask,
+          current.box.width,
+          current.box.height,
+          corners,
+          width,
+          height,
+          interpolation
+        )
+      : null;
+    return { pixels: dropFloating(current.remainder, transformed, 0, 0), mask };
+  }
+
+  function preview(): void {
+    if (!session) return;
+    const { pixels, mask } = renderResult(session);
+    Layers.getCachedContext(session.canvas)?.putImageData(pixels, 0, 0);
+    if (mask) {
+      UI.showColorRangeOverlay(mask);
+    }
+    Overlay.setTransformFrame(getCorners(session));
+    Layers.renderLayers();
+    emitChange();
+  }
+
+  /**
+   * Change part of the transform and refresh the preview
+   */
+  function update(changes: Partial<TransformParams>): void {
+    if (!session) return;
+    session.params = { ...session.params, ...changes };
+    preview();
+  }
+
+  /**
+   * Mirror the transformed pixels across the box's own axis
+   */
+  function flip(direction: 'horizontal' | 'vertical'): void {
+    if (!session) return;
+    const { scaleX, scaleY } = session.params;
+    update(direction === 'horizontal' ? { scaleX: -scaleX } : { scaleY: -scaleY });
+  }
+
+  /**
+   * Choose how pixels are resampled; applies to the running session and later ones
+   */
+  function setInterpolation(mode: TransformInterpolation): void {
+    interpolation = mode;
+    if (session) {
+      preview();
+    } else {
+      emitChange();
+    }
+  }
+
+  function getInterpolation(): TransformInterpolation {
+    return interpolation;
+  }
+
+  function getBox(): Rect | null {
+    return session ? { ...session.box } : null;
+  }
+
+  function getParams(): TransformParams | null {
+    if (!session) return null;
+    return {
+      ...session.params,
+      cornerOffsets: session.params.cornerOffsets.map((offset) => ({ ...offset })),
+    };
+  }
+
+  function isTransforming(): boolean {
+    return session !== null;
+  }
+
+  /**
+   * Apply the transform as one history step
+   * @returns True if anything changed
+   */
+  async function commit(): Promise<boolean> {
+    const current = session;
+    session = null;
+    if (!current) return false;
+    Overlay.setTransformFrame(null);
+    if (isIdentityTransform(current.box, current.params)) {
+      restore(current);
+      emitChange();
+      return false;
+    }
+
+    const { pixels, mask } = renderResult(current);
+    Layers.getCachedContext(current.canvas)?.putImageData(pixels, 0, 0);
+    Layers.updateLayerBounds(current.layerId, 0, 0, Canvas.getWidth(), Canvas.getHeight());
+    if (mask) {
+      SelectionMask.replace(mask);
+    }
+    if (IndexedColor.isEnabled()) {
+      IndexedColor.syncActiveLayer();
+    }
+    emitChange();
+
+    await Canvas.triggerRender();
+    await History.saveImmediate('Transform');
+    return true;
+  }
+
+  /**
+   * Abandon the transform and put the original pixels back
+   */
+  function cancel(): void {
+    const current = session;
+    session = null;
+    if (!current) return;
+    Overlay.setTransformFrame(null);
+    restore(current);
+    emitChange();
+  }
+
+  function restore(current: TransformSession): void {
+    Layers.getCachedContext(current.canvas)?.putImageData(current.original, 0, 0);
+    const selectionMask = SelectionMask.get();
+    if (selectionMask) {
+      UI.showColorRangeOverlay(selectionMask);
+    }
+    Layers.renderLayers();
+  }
+
+  return {
+    begin,
+    update,
+    flip,
+    setInterpolation,
+    getInterpolation,
+    getBox,
+    getParams,
+    isTransforming,
+    commit,
+    cancel,
+    // Expose event emitter for components to subscribe
+    on: EventEmitter.on.bind(EventEmitter),
+    off: EventEmitter.off.bind(EventEmitter),
+  };
+})();
+
+export default TransformActions;
@@ -11,6 +11,7 @@ export interface AppState {
   currentTool: string;
   currentColor: string;
   currentAlpha: number;
+  backgroundColor: string; // Hex, the second color dither brushes alternate with
   brushSize: number;
   brushHardness: number;
   brushOpacity: number; // 0-100, separate from alpha
@@ -18,6 +19,9 @@ export interface AppState {
   brushSpacing: number; // 1-1000%, brush stamp spacing
   brushJitter: number; // 0-100%, random variation
   brushTexture: string | null; // Texture pattern ID or null
+  ditherDensity: number; // 0-100%, share of pixels Bayer dither brushes paint in the current color
+  ditherPattern: string; // Custom dither brush pattern, rows of 0 and 1 separated by "/"
+  gradientDither: boolean; // Gradients are dithered instead of blended
   brushScatter: number; // 0-100%, brush scattering (Procreate feature)
   brushAngle: number; // 0-360°, brush angle
   brushRoundness: number; // 0-100%, brush shape roundness
@@ -27,13 +31,24 @@ export interface AppState {
   pressureFlow: boolean; // Pressure affects flow
   pressureCurve: PressureCurveType; // Pressure curve type
   stabilizerStrength: number; // 0-100, stabilizer strength
+  pixelPerfect: boolean; // 1px pencil strokes drop the corner pixel of every L-shaped step
   tolerance: number;
   zoom: number;
-  selection: Selection | null;
-  colorRangeSelection: Uint8Array | null;
+  selection: Selection | null; // Bounds of the selection mask (or the rectangle being dragged)
+  selectionMask: Uint8Array | null; // Per-pixel selection coverage, 0 (unselected) to 255 (selected)
   selectionMode: SelectionMode; // Selection operation mode
   selectionFeather: number; // 0-100px, feather radius
   selectionAntiAlias: boolean; // Anti-aliased selection edges
+  moveAutoSelect: boolean; // Move tool picks the layer under the cursor
+  symmetryMode: SymmetryMode; // Mirror painting for the brush tools and bucket
+  symmetryAxisX: number | null; // Document x of the vertical axis, null for the canvas center
+  symmetryAxisY: number | null; // Document y of the horizontal axis, null for the canvas center
+  symmetrySegments: number; // 2-16, copies around the center in radial mode
+  tileMode: boolean; // Preview the canvas repeated and wrap paint around its edges
+  shapeStyle: ShapeStyle; // Outline, fill or both for the shape tools
+  shapeFillColor: string; // Hex fill color when a shape has both an outline and a fill
+  shapeAntiAlias: boolean; // Anti-aliased shape edges instead of pixel-perfect ones
+  shapeSides: number; // 3-12, corners of the regular polygon tool
   imageLayer: ImageData | null; // Current loaded image layer
   imageOffsetX: number; // X offset for image layer
   imageOffsetY: number; // Y offset for image layer
@@ -84,6 +99,12 @@ export type SelectionMode = 'replace' | 'add' | 'subtract' | 'intersect';
 
 export type PressureCurveType = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'custom';
 
+// horizontal mirrors left/right across the vertical axis, vertical mirrors top/bottom
+export type SymmetryMode = 'off' | 'horizontal' | 'vertical' | 'both' | 'radial';
+
+// What the shape tools paint: the outline (current color), the inside, or both
+export type ShapeStyle = 'outline' | 'fill' | 'both';
+
 // TypeScript 5.9: Use satisfies for better type inference
 export const SELECTION_MODES = [
   'replace',
@@ -133,11 +154,95 @@ export interface Layer {
   opacity: number;
   blendMode: string;
   backgroundColor?: string; // Hex color format (e.g., '#FFFFFF' for white, null/undefined for transparent)
+  mask?: HTMLCanvasElement; // Grayscale mask at logical size: white reveals, black hides
+  maskEnabled?: boolean; // Mask is applied while compositing unless this is false
+  kind?: 'pixel' | 'group'; // Groups hold no pixels of their own (see layerTree.ts)
+  parentId?: string; // ID of the group containing this layer, absent at the top level
+  passThrough?: boolean; // Groups only: blend members straight into the layers below
+  collapsed?: boolean; // Groups only: members hidden in the Layers panel
 }
 
 export interface LayerState {
   layers: Layer[];
   activeLayerId: string | null;
+  // Document size when the snapshot was taken
+  width?: number;
+  height?: number;
+}
+
+// Vector path data (Bézier anchors with optional control handles)
+export interface PathAnchor {
+  x: number;
+  y: number;
+  inHandle?: { x: number; y: number };
+  outHandle?: { x: number; y: number };
+}
+
+export interface VectorPath {
+  id: string;
+  name: string;
+  anchors: PathAnchor[];
+  closed: boolean;
+}
+
+// Palette entry of an indexed-color document (index 0 is always transparent)
+export interface PaletteColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// User palette saved in the settings store (colors are #RRGGBB)
+export interface NamedPalette {
+  id: string;
+  name: string;
+  colors: string[];
+}
+
+// Animation frame (cels are stored per layer ID by the Timeline module)
+export interface AnimationFrame {
+  id: string;
+  duration: number; // Milliseconds
+}
+
+// Animation frame with its cels (Layer ID -> pixels at logical canvas size), as saved in files
+export interface AnimationFrameCels extends AnimationFrame {
+  cels: Map<string, ImageData>;
+}
+
+export interface OnionSkinSettings {
+  enabled: boolean;
+  previous: number; // Number of previous frames shown
+  next: number; // Number of next frames shown
+  opacity: number; // 0-1, for the nearest frame
+  tint: boolean; // Tint previous frames red and next frames blue
+}
+
+// Neighbouring frame composite drawn over the layers (logical canvas size)
+export interface OnionSkinOverlay {
+  canvas: HTMLCanvasElement;
+  opacity: number;
+}
+
+// View aids drawn over the canvas (saved in the settings store)
+export interface OverlaySettings {
+  pixelGrid: boolean;
+  pixelGridMinZoom: number; // The pixel grid only shows from this zoom level up
+  tileGrid: boolean;
+  tileWidth: number;
+  tileHeight: number;
+  tileOffsetX: number;
+  tileOffsetY: number;
+  guides: boolean; // Rulers and guides
+  snapping: boolean; // Snap selection, crop and move to guides, tile grid and canvas edges
+}
+
+// Ruler guide at a document pixel boundary
+export interface Guide {
+  id: string;
+  orientation: 'horizontal' | 'vertical';
+  position: number;
 }
 
 // Tool State Interfaces
@@ -184,7 +289,7 @@ export interface CloneToolState extends DrawingToolState {
 
 // Smudge tool specific state
 export interface SmudgeToolState extends DrawingToolState {
-  lastColor: Uint8Array;
+  lastColors: Uint8Array[]; // Picked-up color for each symmetric copy of the stroke
 }
 
 // Bucket tool state
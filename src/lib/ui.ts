@@ -8,10 +8,23 @@ import type { AppState, CanvasElements, Selection, PressureCurveType } from './t
 import PixelStudio from './app';
 import Canvas from './canvas';
 import History from './history';
+import MoveActions from './moveActions';
 import SelectionActions from './selectionActions';
 import StateManager from './stateManager';
+import TransformActions from './transformActions';
+import Viewport from './viewport';
 import { logger } from './utils/logger';
 
+// Arrow key directions for Move tool nudges
+const NUDGE_DIRECTIONS: Record<string, [number, number]> = {
+  arrowleft: [-1, 0],
+  arrowright: [1, 0],
+  arrowup: [0, -1],
+  arrowdown: [0, 1],
+};
+// Nudge distance with Shift held, in pixels
+const NUDGE_SHIFT_STEP = 10;
+
 const UI = (function () {
   let elements: CanvasElements | null = null;
 
@@ -345,10 +358,12 @@ const UI = (function () {
 
       const key = keyEvent.key.toLowerCase();
 
-      // Undo/Redo
+      // Undo/Redo (undo during a free transform cancels it)
       if ((keyEvent.ctrlKey || keyEvent.metaKey) && key === 'z') {
         keyEvent.preventDefault();
-        if (keyEvent.shiftKey) {
+        if (TransformActions.isTransforming()) {
+          TransformActions.cancel();
+        } else if (keyEvent.shiftKey) {
           History.redo().catch((error) => {
             logger.error('Error during redo:', error);
           });
@@ -369,6 +384,45 @@ const UI = (function () {
         return;
       }
 
+      // Zoom (Ctrl/Cmd + '+', '-', '0' fit on screen, '1' actual pixels)
+      if (keyEvent.ctrlKey || keyEvent.metaKey) {
+        const zoomActions: Record<string, () => void> = {
+          '=': () => Viewport.zoomIn(),
+          '+': () => Viewport.zoomIn(),
+          '-': () => Viewport.zoomOut(),
+          '0': () => Viewport.fitToScreen(),
+          '1': () => Viewport.actualPixels(),
+        };
+        const zoomAction = zoomActions[key];
+        if (zoomAction) {
+          keyEvent.preventDefault();
+          zoomAction();
+          return;
+        }
+      }
+
+      // Arrow keys nudge the layer or selection with the Move tool (Shift for 10px),
+      // or the running free transform
+      const direction = NUDGE_DIRECTIONS[key];
+      if (direction && TransformActions.isTransforming()) {
+        keyEvent.preventDefault();
+        const step = keyEvent.shiftKey ? NUDGE_SHIFT_STEP : 1;
+        const params = TransformActions.getParams()!;
+        TransformActions.update({
+          centerX: params.centerX + direction[0] * step,
+          centerY: params.centerY + direction[1] * step,
+        });
+        return;
+      }
+      if (direction && StateManager.getState().currentTool === 'move') {
+        keyEvent.preventDefault();
+        const step = keyEvent.shiftKey ? NUDGE_SHIFT_STEP : 1;
+        MoveActions.nudge(direction[0] * step, direction[1] * step).catch((error) => {
+          logger.warn('Move:', error instanceof Error ? error.message : error);
+        });
+        return;
+      }
+
       // Tool shortcuts
       switch (key) {
         case 'b':
@@ -412,8 +466,25 @@ const UI = (function () {
         case 'v':
           PixelStudio.selectTool('move');
           break;
+        case 't':
+          PixelStudio.selectTool('transform');
+          break;
+        case 'enter':
+          if (TransformActions.isTransforming()) {
+            keyEvent.preventDefault();
+            TransformActions.commit().catch((error) => {
+              logger.warn('Transform:', error instanceof Error ? error.message : error);
+            });
+          }
+          break;
         case 'escape':
-          PixelStudio.clearSelection();
+          if (TransformActions.isTransforming()) {
+            TransformActions.cancel();
+          } else if (MoveActions.isMoving()) {
+            MoveActions.cancel();
+          } else {
+            PixelStudio.clearSelection();
+          }
           break;
         case 'delete':
         case 'backspace':
@@ -497,13 +568,12 @@ const UI = (function () {
   function showSelection(selection: Selection): void {
     if (!elements?.selectionOverlay || !elements.canvas || !elements.canvasWrapper) return;
 
-    const canvas = elements.canvas;
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = rect.width / canvas.width;
-    const scaleY = rect.height / canvas.height;
+    // Overlays sit in the zoomed canvas container, so scale document pixels to screen size
+    const rect = elements.canvas.getBoundingClientRect();
+    const scaleX = rect.width / Canvas.getWidth();
+    const scaleY = rect.height / Canvas.getHeight();
 
     elements.selectionOverlay.style.display = 'block';
-    // Account for zoom in positioning
     elements.selectionOverlay.style.left = selection.x * scaleX + 'px';
     elements.selectionOverlay.style.top = selection.y * scaleY + 'px';
     elements.selectionOverlay.style.width = selection.width * scaleX + 'px';
@@ -527,12 +597,10 @@ const UI = (function () {
     const data = overlayData.data;
 
     for (let i = 0; i < selected.length; i++) {
-      // Handle both binary (0/1 or 0/255) and feathered (0-255) selection masks
+      // Selection masks hold 0-255 coverage (feathered and anti-aliased edges are partial)
       if (selected[i]! > 0) {
         const idx = i * 4;
-        // Selection mask: binary uses 1, feathered uses 0-255
-        // Normalize to 0-1: if value is 1 (binary), treat as 1.0; otherwise normalize 0-255 to 0-1
-        const selectionStrength = selected[i]! === 1 ? 1.0 : selected[i]! / 255;
+        const selectionStrength = selected[i]! / 255;
         // More prominent color: bright cyan/blue with higher opacity
         data[idx] = 0; // R - no red
         data[idx + 1] = 150; // G - bright cyan
@@ -586,10 +654,9 @@ const UI = (function () {
     const preview = document.getElementById('brushPreview');
     if (!preview) return;
 
-    const canvas = elements.canvas;
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = rect.width / canvas.width;
-    const scaleY = rect.height / canvas.height;
+    const rect = elements.canvas.getBoundingClientRect();
+    const scaleX = rect.width / Canvas.getWidth();
+    const scaleY = rect.height / Canvas.getHeight();
     const radius = (size / 2) * scaleX;
 
     preview.style.display = 'block';
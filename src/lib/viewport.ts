@@ -0,0 +1,204 @@
+/**
+ * Viewport Module
+ * Zoom and pan of the document on screen
+ * The zoom level is mirrored into app state for the zoom controls; the pan offset lives here
+ * Emits 'viewport:change' with the new transform after every change
+ */
+
+import StateManager from './stateManager';
+import EventEmitter from './utils/eventEmitter';
+import { DEFAULT_CANVAS_HEIGHT, DEFAULT_CANVAS_WIDTH } from './constants';
+import {
+  clampPan,
+  getCenteredPan,
+  getFitZoom,
+  getVisibleDocumentRect,
+  getZoomStep,
+  viewportToDocument,
+  zoomAtPoint,
+  type Rect,
+  type Size,
+  type ViewportTransform,
+} from './viewportGeometry';
+
+// Space kept around the document by Fit so it clears the tool columns
+const FIT_PADDING = 48;
+
+const Viewport = (function () {
+  let documentSize: Size = { width: DEFAULT_CANVAS_WIDTH, height: DEFAULT_CANVAS_HEIGHT };
+  let viewportSize: Size = { width: 0, height: 0 };
+  let zoom = 1;
+  let panX = 0;
+  let panY = 0;
+  let devicePixelRatio = 1;
+
+  function handleDocumentResize(data: { width: number; height: number }): void {
+    documentSize = { width: data.width, height: data.height };
+    centerDocument();
+  }
+
+  /**
+   * Initialize the viewport for a document
+   * Picks up the zoom level from app state and follows later document resizes
+   */
+  function init(width: number, height: number): void {
+    documentSize = { width, height };
+    devicePixelRatio = window.devicePixelRatio || 1;
+    if (StateManager.isInitialized()) {
+      zoom = StateManager.getState().zoom;
+    }
+    EventEmitter.off('canvas:resize', handleDocumentResize);
+    EventEmitter.on('canvas:resize', handleDocumentResize);
+    centerDocument();
+  }
+
+  function hasViewportSize(): boolean {
+    return viewportSize.width > 0 && viewportSize.height > 0;
+  }
+
+  function apply(view: ViewportTransform): void {
+    const next = hasViewportSize()
+      ? clampPan(view, documentSize, viewportSize, devicePixelRatio)
+      : view;
+    panX = next.panX;
+    panY = next.panY;
+    if (next.zoom !== zoom) {
+      zoom = next.zoom;
+      if (StateManager.isInitialized()) {
+        StateManager.setZoom(zoom);
+      }
+    }
+    EventEmitter.emit('viewport:change', getState());
+  }
+
+  /**
+   * Get the current zoom and pan offset
+   */
+  function getState(): ViewportTransform {
+    return { zoom, panX, panY };
+  }
+
+  function getDocumentSize(): Size {
+    return { ...documentSize };
+  }
+
+  function getViewportSize(): Size {
+    return { ...viewportSize };
+  }
+
+  /**
+   * Set the size of the on-screen viewport, in CSS pixels
+   * The first size centers the document; later sizes keep the view centered on the same point
+   */
+  function setViewportSize(width: number, height: number): void {
+    const isFirstSize = !hasViewportSize();
+    const dx = (width - viewportSize.width) / 2;
+    const dy = (height - viewportSize.height) / 2;
+    viewportSize = { width, height };
+    if (isFirstSize) {
+      centerDocument();
+    } else {
+      apply({ zoom, panX: panX + dx, panY: panY + dy });
+    }
+  }
+
+  function centerDocument(): void {
+    apply({ zoom, ...getCenteredPan(documentSize, viewportSize, zoom) });
+  }
+
+  /**
+   * Zoom while keeping the point under the anchor in place
+   * @param anchorX Anchor in viewport coordinates; defaults to the viewport center
+   */
+  function setZoom(nextZoom: number, anchorX?: number, anchorY?: number): void {
+    apply(
+      zoomAtPoint(
+        getState(),
+        nextZoom,
+        anchorX ?? viewportSize.width / 2,
+        anchorY ?? viewportSize.height / 2
+      )
+    );
+  }
+
+  function zoomIn(anchorX?: number, anchorY?: number): void {
+    setZoom(getZoomStep(zoom, 1), anchorX, anchorY);
+  }
+
+  function zoomOut(anchorX?: number, anchorY?: number): void {
+    setZoom(getZoomStep(zoom, -1), anchorX, anchorY);
+  }
+
+  /**
+   * Move the document on screen, in CSS pixels
+   */
+  function panBy(dx: number, dy: number): void {
+    apply({ zoom, panX: panX + dx, panY: panY + dy });
+  }
+
+  function fitTo(mode: 'fit' | 'fill'): void {
+    if (!hasViewportSize()) return;
+    const padding = mode === 'fit' ? FIT_PADDING : 0;
+    const nextZoom = getFitZoom(documentSize, viewportSize, mode, padding);
+    apply({ zoom: nextZoom, ...getCenteredPan(documentSize, viewportSize, nextZoom) });
+  }
+
+  /**
+   * Zoom so the whole document fits on screen, centered
+   */
+  function fitToScreen(): void {
+    fitTo('fit');
+  }
+
+  /**
+   * Zoom so the document covers the whole viewport, centered
+   */
+  function fillScreen(): void {
+    fitTo('fill');
+  }
+
+  /**
+   * Show the document at 100%, one screen pixel per document pixel
+   */
+  function actualPixels(): void {
+    setZoom(1);
+  }
+
+  /**
+   * Convert a point in viewport coordinates to document coordinates
+   */
+  function toDocument(x: number, y: number): { x: number; y: number } {
+    return viewportToDocument(getState(), x, y);
+  }
+
+  /**
+   * Get the part of the document currently on screen, in document pixels
+   * @returns null until the viewport has been measured
+   */
+  function getVisibleBounds(): Rect | null {
+    if (!hasViewportSize()) return null;
+    return getVisibleDocumentRect(getState(), documentSize, viewportSize);
+  }
+
+  return {
+    init,
+    getState,
+    getDocumentSize,
+    getViewportSize,
+    setViewportSize,
+    setZoom,
+    zoomIn,
+    zoomOut,
+    panBy,
+    fitToScreen,
+    fillScreen,
+    actualPixels,
+    toDocument,
+    getVisibleBounds,
+    // Expose event emitter for components to subscribe
+    on: EventEmitter.on.bind(EventEmitter),
+    off: EventEmitter.off.bind(EventEmitter),
+  };
+})();
+
+export default Viewport;
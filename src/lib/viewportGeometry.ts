@@ -0,0 +1,159 @@
+/**
+ * Viewport Geometry
+ * Zoom and pan math for the canvas viewport
+ * The pan offset is the position of the document's top-left corner inside the viewport,
+ * in CSS pixels; a document pixel covers `zoom` CSS pixels on each side
+ */
+
+import { MAX_ZOOM, MIN_ZOOM, ZOOM_STEPS } from './constants';
+
+export interface ViewportTransform {
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Rect extends Size {
+  x: number;
+  y: number;
+}
+
+// Part of the document that always stays on screen while panning, in CSS pixels
+const PAN_MARGIN = 32;
+// Tolerance when comparing zoom levels against the step list
+const ZOOM_EPSILON = 1e-6;
+
+export function clampZoom(zoom: number): number {
+  return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+}
+
+/**
+ * Get the next zoom step above (direction 1) or below (direction -1) a zoom level
+ * Levels between steps (e.g. after fitting) snap to the neighboring step
+ */
+export function getZoomStep(zoom: number, direction: 1 | -1): number {
+  if (direction > 0) {
+    return ZOOM_STEPS.find((step) => step > zoom + ZOOM_EPSILON) ?? MAX_ZOOM;
+  }
+  return [...ZOOM_STEPS].reverse().find((step) => step < zoom - ZOOM_EPSILON) ?? MIN_ZOOM;
+}
+
+/**
+ * Change the zoom while keeping the document point under an anchor fixed on screen
+ * @param anchorX Anchor in viewport coordinates (e.g. the cursor)
+ */
+export function zoomAtPoint(
+  view: ViewportTransform,
+  zoom: number,
+  anchorX: number,
+  anchorY: number
+): ViewportTransform {
+  const nextZoom = clampZoom(zoom);
+  const scale = nextZoom / view.zoom;
+  return {
+    zoom: nextZoom,
+    panX: anchorX - (anchorX - view.panX) * scale,
+    panY: anchorY - (anchorY - view.panY) * scale,
+  };
+}
+
+/**
+ * Get the zoom that fits the whole document in the viewport ('fit') or covers the viewport
+ * with it ('fill'). From 100% up the result is a whole number so pixels render evenly
+ * @param padding Space kept free around the document when fitting, in CSS pixels
+ */
+export function getFitZoom(
+  documentSize: Size,
+  viewportSize: Size,
+  mode: 'fit' | 'fill',
+  padding: number = 0
+): number {
+  const availableWidth = Math.max(1, viewportSize.width - padding * 2);
+  const availableHeight = Math.max(1, viewportSize.height - padding * 2);
+  const scaleX = availableWidth / documentSize.width;
+  const scaleY = availableHeight / documentSize.height;
+  const zoom = mode === 'fit' ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY);
+  if (zoom >= 1) {
+    return clampZoom(mode === 'fit' ? Math.floor(zoom) : Math.ceil(zoom));
+  }
+  return clampZoom(zoom);
+}
+
+/**
+ * Get the pan offset that centers the document in the viewport
+ */
+export function getCenteredPan(
+  documentSize: Size,
+  viewportSize: Size,
+  zoom: number
+): { panX: number; panY: number } {
+  return {
+    panX: (viewportSize.width - documentSize.width * zoom) / 2,
+    panY: (viewportSize.height - documentSize.height * zoom) / 2,
+  };
+}
+
+/**
+ * Keep part of the document on screen and snap the offset to whole device pixels,
+ * so pixel edges line up with the display at whole-number zoom levels
+ */
+export function clampPan(
+  view: ViewportTransform,
+  documentSize: Size,
+  viewportSize: Size,
+  devicePixelRatio: number = 1
+): ViewportTransform {
+  const scaledWidth = documentSize.width * view.zoom;
+  const scaledHeight = documentSize.height * view.zoom;
+  const marginX = Math.min(PAN_MARGIN, scaledWidth);
+  const marginY = Math.min(PAN_MARGIN, scaledHeight);
+  const panX = Math.max(marginX - scaledWidth, Math.min(viewportSize.width - marginX, view.panX));
+  const panY = Math.max(marginY - scaledHeight, Math.min(viewportSize.height - marginY, view.panY));
+  return {
+    zoom: view.zoom,
+    panX: Math.round(panX * devicePixelRatio) / devicePixelRatio,
+    panY: Math.round(panY * devicePixelRatio) / devicePixelRatio,
+  };
+}
+
+/**
+ * Convert a point in viewport coordinates to document coordinates
+ */
+export function viewportToDocument(
+  view: ViewportTransform,
+  x: number,
+  y: number
+): { x: number; y: number } {
+  return {
+    x: (x - view.panX) / view.zoom,
+    y: (y - view.panY) / view.zoom,
+  };
+}
+
+/**
+ * Get the part of the document visible in the viewport, in whole document pixels
+ * Partially visible pixels are included; the result is empty when the document is off screen
+ */
+export function getVisibleDocumentRect(
+  view: ViewportTransform,
+  documentSize: Size,
+  viewportSize: Size
+): Rect {
+  const topLeft = viewportToDocument(view, 0, 0);
+  const bottomRight = viewportToDocument(view, viewportSize.width, viewportSize.height);
+  const left = Math.max(0, Math.floor(topLeft.x));
+  const top = Math.max(0, Math.floor(topLeft.y));
+  const right = Math.min(documentSize.width, Math.ceil(bottomRight.x));
+  const bottom = Math.min(documentSize.height, Math.ceil(bottomRight.y));
+  return {
+    x: left,
+    y: top,
+    width: Math.max(0, right - left),
+    height: Math.max(0, bottom - top),
+  };
+}
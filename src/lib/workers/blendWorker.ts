@@ -223,6 +223,11 @@ function applyBlendMode(base, overlay, blendMode, opacity) {
         b = overlayB;
     }
 
+    // Where the base is transparent the overlay shows unblended
+    r = (1 - baseA) * overlayR + baseA * r;
+    g = (1 - baseA) * overlayG + baseA * g;
+    b = (1 - baseA) * overlayB + baseA * b;
+
     // Apply opacity and alpha compositing
     const alpha = overlayA + baseA * (1 - overlayA);
     const invAlpha = alpha > 0 ? 1 / alpha : 0;
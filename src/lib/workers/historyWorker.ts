@@ -11,42 +11,33 @@
  */
 export function getHistoryWorkerCode(): string {
   return `
-// Compress ImageData using WebP encoding for better compression
-// Falls back to simple format if WebP not available
+// Compress ImageData losslessly with deflate (CompressionStream)
+// Falls back to the raw format if CompressionStream is not available
+// Layout: format byte (0 = raw, 2 = deflate), width and height (uint32 LE), data
 async function compressImageData(imageData) {
   const data = imageData.data;
   const width = imageData.width;
   const height = imageData.height;
 
-  // Try WebP compression first (better compression ratio)
-  try {
-    const canvas = new OffscreenCanvas(width, height);
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.putImageData(imageData, 0, 0);
-      const blob = await canvas.convertToBlob({
-        type: 'image/webp',
-        quality: 0.85, // Good balance between quality and size
-      });
-      const arrayBuffer = await blob.arrayBuffer();
-
-      // Store format marker (1 = WebP) + dimensions + compressed data
-      const buffer = new ArrayBuffer(9 + arrayBuffer.byteLength);
+  if (typeof CompressionStream !== 'undefined') {
+    try {
+      const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+      const deflated = await new Response(stream).arrayBuffer();
+
+      const buffer = new ArrayBuffer(9 + deflated.byteLength);
       const view = new DataView(buffer);
-      view.setUint8(0, 1); // Format: 1 = WebP
+      view.setUint8(0, 2); // Format: 2 = deflate
       view.setUint32(1, width, true);
       view.setUint32(5, height, true);
-      new Uint8Array(buffer, 9).set(new Uint8Array(arrayBuffer));
+      new Uint8Array(buffer, 9).set(new Uint8Array(deflated));
 
       return buffer;
+    } catch (deflateError) {
+      console.warn('Deflate compression failed, using raw format:', deflateError);
     }
-  } catch (webpError) {
-    // WebP not supported, fall back to simple format
-    console.warn('WebP compression not available, using simple format:', webpError);
   }
 
   // Fallback: Simple format (dimensions + raw data)
-  // For pixel art, this is often sufficient
   const buffer = new ArrayBuffer(9 + data.length); // 1 byte format + 8 bytes for width/height
   const view = new DataView(buffer);
   view.setUint8(0, 0); // Format: 0 = raw
@@ -58,39 +49,30 @@ async function compressImageData(imageData) {
 }
 
 // Decompress ImageData from ArrayBuffer
-// Supports both WebP and raw formats
+// Supports deflate and raw formats
 async function decompressImageData(buffer) {
   const view = new DataView(buffer);
   const format = view.getUint8(0);
+  const width = view.getUint32(1, true);
+  const height = view.getUint32(5, true);
 
-  if (format === 1) {
-    // WebP format
-    const width = view.getUint32(1, true);
-    const height = view.getUint32(5, true);
-    const compressedData = new Uint8Array(buffer, 9);
-
+  if (format === 2) {
     try {
-      const blob = new Blob([compressedData], { type: 'image/webp' });
-      const imageBitmap = await createImageBitmap(blob);
-      const canvas = new OffscreenCanvas(width, height);
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        throw new Error('Failed to get canvas context');
-      }
-      ctx.drawImage(imageBitmap, 0, 0);
-      imageBitmap.close();
-      return ctx.getImageData(0, 0, width, height);
+      const stream = new Blob([new Uint8Array(buffer, 9)])
+        .stream()
+        .pipeThrough(new DecompressionStream('deflate'));
+      const inflated = await new Response(stream).arrayBuffer();
+      return new ImageData(new Uint8ClampedArray(inflated), width, height);
     } catch (error) {
       throw new Error(
-        \`Failed to decompress WebP: \${error instanceof Error ? error.message : 'Unknown error'}\`
+        \`Failed to decompress history data: \${error instanceof Error ? error.message : 'Unknown error'}\`
       );
     }
-  } else {
-    // Raw format (legacy or fallback)
-    const width = view.getUint32(1, true);
-    const height = view.getUint32(5, true);
+  } else if (format === 0) {
     const data = new Uint8ClampedArray(buffer, 9);
     return new ImageData(data, width, height);
+  } else {
+    throw new Error(\`Unsupported history data format: \${format}\`);
   }
 }
 
@@ -0,0 +1,62 @@
+/**
+ * App State Fixture
+ * Complete app state for tests that initialize StateManager
+ */
+
+import type { AppState } from '../lib/types';
+
+/**
+ * Create the app state tests start from: the pencil tool, a 10px brush and no layers
+ * @param overrides - Fields a test needs to differ, e.g. the current tool
+ */
+export function createAppState(overrides: Partial<AppState> = {}): AppState {
+  return {
+    currentTool: 'pencil',
+    currentColor: '#000000',
+    currentAlpha: 255,
+    backgroundColor: '#ffffff',
+    brushSize: 10,
+    brushHardness: 100,
+    brushOpacity: 100,
+    brushFlow: 100,
+    brushSpacing: 25,
+    brushJitter: 0,
+    brushTexture: null,
+    ditherDensity: 50,
+    ditherPattern: '10/01',
+    gradientDither: false,
+    brushScatter: 0,
+    brushAngle: 0,
+    brushRoundness: 100,
+    pressureEnabled: false,
+    pressureSize: false,
+    pressureOpacity: false,
+    pressureFlow: false,
+    pressureCurve: 'linear',
+    stabilizerStrength: 0,
+    pixelPerfect: false,
+    tolerance: 32,
+    zoom: 1,
+    selection: null,
+    selectionMask: null,
+    selectionMode: 'replace',
+    selectionFeather: 0,
+    selectionAntiAlias: true,
+    moveAutoSelect: false,
+    symmetryMode: 'off',
+    symmetryAxisX: null,
+    symmetryAxisY: null,
+    symmetrySegments: 6,
+    tileMode: false,
+    shapeStyle: 'outline',
+    shapeFillColor: '#ffffff',
+    shapeAntiAlias: false,
+    shapeSides: 6,
+    imageLayer: null,
+    imageOffsetX: 0,
+    imageOffsetY: 0,
+    layers: [],
+    activeLayerId: null,
+    ...overrides,
+  };
+}
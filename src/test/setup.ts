@@ -101,3 +101,6 @@ HTMLCanvasElement.prototype.getContext = vi.fn((contextId: string) => {
   }
   return null;
 }) as unknown as typeof HTMLCanvasElement.prototype.getContext;
+
+// jsdom has no canvas encoder (History thumbnails call toDataURL on every save)
+HTMLCanvasElement.prototype.toDataURL = vi.fn(() => 'data:image/png;base64,');